@@ -6,18 +6,25 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { AppShell } from "@/components/AppShell";
 import { useAuth } from "@/hooks/useAuth";
-import { handleSSOLogin } from "@/lib/ssoHandler";
+import { handleSSOLogin, getSSOError } from "@/lib/ssoHandler";
 import { useEffect } from "react";
 import { initializeCSRF } from "@/lib/csrf";
 import { InstallPrompt } from "@/components/InstallPrompt";
+import MFAChallenge from "@/components/MFAChallenge";
+import { useToast } from "@/hooks/use-toast";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/Landing";
 import Dashboard from "@/pages/Dashboard";
+import WorkQueue from "@/pages/WorkQueue";
 import Claims from "@/pages/Claims";
 import ClaimDetail from "@/pages/ClaimDetail";
 import NewClaim from "@/pages/NewClaim";
+import ClaimImport from "@/pages/ClaimImport";
 import NewPreAuth from "@/pages/NewPreAuth";
 import Remittances from "@/pages/Remittances";
+import Appointments from "@/pages/Appointments";
+import Patients from "@/pages/Patients";
+import Providers from "@/pages/Providers";
 import Settings from "@/pages/Settings";
 import Admin from "@/pages/Admin";
 import Coverage from "@/pages/Coverage";
@@ -33,11 +40,16 @@ function Router() {
       <Switch>
         <AppShell>
           <Route path="/" component={Dashboard} />
+          <Route path="/work-queue" component={WorkQueue} />
           <Route path="/claims" component={Claims} />
           <Route path="/claims/new" component={NewClaim} />
+          <Route path="/claims/import" component={ClaimImport} />
           <Route path="/preauths/new" component={NewPreAuth} />
           <Route path="/claims/:id" component={ClaimDetail} />
           <Route path="/remittances" component={Remittances} />
+          <Route path="/appointments" component={Appointments} />
+          <Route path="/patients" component={Patients} />
+          <Route path="/providers" component={Providers} />
           <Route path="/settings" component={Settings} />
           <Route path="/admin" component={Admin} />
           <Route path="/admin/coverage" component={Coverage} />
@@ -51,6 +63,11 @@ function Router() {
 
   // PRODUCTION MODE ONLY - Normal authentication
   const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const urlParams = new URLSearchParams(window.location.search);
+  // Organization sign-ins send ?mfa=required and keep the token in the session
+  const mfaToken = urlParams.get('mfa_token');
+  const mfaRequired = urlParams.get('mfa') === 'required' || Boolean(mfaToken);
 
   // Handle SSO login and CSRF initialization on component mount
   useEffect(() => {
@@ -62,7 +79,13 @@ function Router() {
     } catch (error) {
       console.log("SSO login handler error:", error);
     }
-  }, []);
+
+    // Organization sign-in failures come back as ?sso_error=<code>
+    const ssoError = getSSOError();
+    if (ssoError) {
+      toast({ title: "Sign-in failed", description: ssoError, variant: "destructive" });
+    }
+  }, [toast]);
 
   if (isLoading) {
     return (
@@ -76,6 +99,9 @@ function Router() {
   }
   
   if (!isAuthenticated) {
+    if (mfaRequired) {
+      return <MFAChallenge tempToken={mfaToken ?? undefined} next={urlParams.get('next') || '/'} />;
+    }
     return <Landing />;
   }
 
@@ -83,11 +109,16 @@ function Router() {
     <Switch>
       <AppShell>
         <Route path="/" component={Dashboard} />
+        <Route path="/work-queue" component={WorkQueue} />
         <Route path="/claims" component={Claims} />
         <Route path="/claims/new" component={NewClaim} />
+        <Route path="/claims/import" component={ClaimImport} />
         <Route path="/preauths/new" component={NewPreAuth} />
         <Route path="/claims/:id" component={ClaimDetail} />
         <Route path="/remittances" component={Remittances} />
+        <Route path="/appointments" component={Appointments} />
+        <Route path="/patients" component={Patients} />
+        <Route path="/providers" component={Providers} />
         <Route path="/settings" component={Settings} />
         <Route path="/admin" component={Admin} />
         <Route path="/admin/coverage" component={Coverage} />
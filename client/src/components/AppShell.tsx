@@ -2,6 +2,7 @@ import { ReactNode, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { 
   LayoutDashboard, 
+  ListTodo,
   FileText, 
   ScanLine, 
   FileCheck2, 
@@ -10,6 +11,8 @@ import {
   Menu,
   X,
   Stethoscope,
+  Users,
+  CalendarDays,
   Search,
   Sun,
   Moon,
@@ -29,6 +32,9 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useTheme } from "./theme-provider";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/components/RoleGuard";
+import OrgSwitcher from "@/components/OrgSwitcher";
+import type { Permission } from "@shared/permissions";
 
 interface AppShellProps {
   children: ReactNode;
@@ -38,16 +44,20 @@ interface NavItem {
   icon: typeof LayoutDashboard;
   label: string;
   href: string;
-  adminOnly?: boolean;
+  permissions?: Permission[]; // shown when the user holds any of these
 }
 
 const navItems: NavItem[] = [
   { icon: LayoutDashboard, label: "Dashboard", href: "/" },
+  { icon: ListTodo, label: "Work Queue", href: "/work-queue" },
   { icon: FileText, label: "Claims", href: "/claims" },
   { icon: ScanLine, label: "Pre-Auths", href: "/preauths/new" },
   { icon: FileCheck2, label: "Remittances", href: "/remittances" },
+  { icon: CalendarDays, label: "Appointments", href: "/appointments" },
+  { icon: Users, label: "Patients", href: "/patients" },
+  { icon: Stethoscope, label: "Providers", href: "/providers" },
   { icon: Settings, label: "Settings", href: "/settings" },
-  { icon: ShieldCheck, label: "Admin", href: "/admin", adminOnly: true },
+  { icon: ShieldCheck, label: "Admin", href: "/admin", permissions: ['users:manage', 'roles:manage', 'audit:read', 'sso:configure', 'scim:manage', 'sessions:manage', 'privacy:manage', 'encryption:manage', 'claims:rules:manage'] },
   { icon: Target, label: "Investor Preview 🎯", href: "/investor-dashboard" },
 ];
 
@@ -56,13 +66,14 @@ export function AppShell({ children }: AppShellProps) {
   const [location] = useLocation();
   const { theme, setTheme } = useTheme();
   const { user } = useAuth();
+  const { hasAnyPermission } = usePermissions();
 
   const toggleTheme = () => {
     setTheme(theme === "light" ? "dark" : "light");
   };
 
   const filteredNavItems = navItems.filter(
-    (item) => !item.adminOnly || user?.role === 'admin'
+    (item) => !item.permissions || hasAnyPermission(item.permissions)
   );
 
   const handleLogout = () => {
@@ -138,6 +149,9 @@ export function AppShell({ children }: AppShellProps) {
           </div>
 
           <div className="flex items-center gap-2">
+            {/* Organization switcher, for users with several memberships */}
+            <OrgSwitcher />
+
             {/* Demo Tour Button */}
             <Button
               variant="outline"
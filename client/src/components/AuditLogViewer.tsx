@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface AuditEvent {
+  id: string;
+  seq: number | null;
+  type: string;
+  actorUserId: string | null;
+  resourceType: string | null;
+  resourceId: string | null;
+  details: unknown;
+  ip: string | null;
+  createdAt: string;
+  hash: string | null;
+}
+
+interface AuditPage {
+  events: AuditEvent[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface AuditChainReport {
+  valid: boolean;
+  checked: number;
+  headSeq: number | null;
+  headHash: string | null;
+  issues: Array<{ seq: number; eventId: string; problem: 'gap' | 'link' | 'hash' }>;
+}
+
+const PAGE_SIZE = 50;
+
+const RESOURCE_TYPES = ['claim', 'preauth', 'remittance', 'attachment', 'privacy_request', 'appointment', 'patient', 'provider', 'role', 'job', 'key_rotation', 'user'];
+
+const emptyFilters = { type: "", actorUserId: "", resourceType: "all", resourceId: "", from: "", to: "" };
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const getEventTypeIcon = (type: string) => {
+  switch (type) {
+    case 'claim_created': return 'fas fa-plus-circle text-green-600';
+    case 'claim_updated': return 'fas fa-edit text-blue-600';
+    case 'claim_submitted': return 'fas fa-paper-plane text-purple-600';
+    case 'attachment_created': return 'fas fa-paperclip text-orange-600';
+    case 'remittance_uploaded': return 'fas fa-upload text-indigo-600';
+    default: return 'fas fa-info-circle text-slate-600';
+  }
+};
+
+const getEventTypeLabel = (type: string) =>
+  type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const problemLabels = { gap: 'missing event before this one', link: 'does not link to the previous event', hash: 'content changed since it was written' };
+
+// Query string for the search and export routes; dates are whole days, "to" inclusive
+function toQuery(filters: typeof emptyFilters, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams(extra);
+  if (filters.type.trim()) params.set('type', filters.type.trim());
+  if (filters.actorUserId.trim()) params.set('actorUserId', filters.actorUserId.trim());
+  if (filters.resourceType !== 'all') params.set('resourceType', filters.resourceType);
+  if (filters.resourceId.trim()) params.set('resourceId', filters.resourceId.trim());
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(new Date(`${filters.to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString());
+  return params.toString();
+}
+
+/**
+ * Audit log for the Admin page: filtered, paginated search, a check of the
+ * organization's hash chain, and signed CSV/JSONL export
+ */
+export function AuditLogViewer({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(emptyFilters);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [offset, setOffset] = useState(0);
+  const [report, setReport] = useState<AuditChainReport | null>(null);
+  const [signature, setSignature] = useState<string | null>(null);
+
+  const query = toQuery(filters, { limit: String(PAGE_SIZE), offset: String(offset) });
+  const { data, isLoading, error } = useQuery<AuditPage>({
+    queryKey: ["/api/admin/audit", query],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/admin/audit?${query}`, "GET");
+      return response.json();
+    },
+    retry: false,
+  });
+  const events = data?.events ?? [];
+  const total = data?.total ?? 0;
+
+  useEffect(() => {
+    if (error) onError(error as Error, "Failed to load audit events");
+  }, [error]);
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/audit/verify", "GET");
+      return response.json() as Promise<AuditChainReport>;
+    },
+    onSuccess: setReport,
+    onError: (error) => onError(error as Error, "Failed to verify audit log"),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: 'csv' | 'jsonl') => {
+      const response = await apiRequest(`/api/admin/audit/export?${toQuery(filters, { format })}`, "GET");
+      return { format, body: await response.blob(), signature: response.headers.get('X-Audit-Signature') };
+    },
+    onSuccess: ({ format, body, signature }) => {
+      const url = URL.createObjectURL(body);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setSignature(signature);
+      toast({ title: "Export Successful", description: "Keep the signature with the file to prove it has not been altered." });
+    },
+    onError: (error) => onError(error as Error, "Failed to export audit events"),
+  });
+
+  const applyFilters = () => {
+    setFilters(draft);
+    setOffset(0);
+  };
+
+  const clearFilters = () => {
+    setDraft(emptyFilters);
+    setFilters(emptyFilters);
+    setOffset(0);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-slate-900">System Audit Log</h3>
+            <p className="mt-1 text-sm text-slate-500">
+              Track all user actions and system events across your organization. Each event is hash-chained to the one before it.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex space-x-3">
+            <Button variant="outline" disabled={verifyMutation.isPending} onClick={() => verifyMutation.mutate()} data-testid="button-verify-audit">
+              <i className="fas fa-shield-alt mr-2"></i>
+              {verifyMutation.isPending ? "Verifying..." : "Verify Integrity"}
+            </Button>
+            <Button variant="outline" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate('csv')} data-testid="button-export-audit-csv">
+              <i className="fas fa-download mr-2"></i>
+              CSV
+            </Button>
+            <Button variant="outline" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate('jsonl')} data-testid="button-export-audit-jsonl">
+              <i className="fas fa-download mr-2"></i>
+              JSONL
+            </Button>
+          </div>
+        </div>
+
+        {report && (
+          <div
+            className={`mb-4 p-4 rounded-lg text-sm ${report.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+            data-testid="audit-verify-result"
+          >
+            {report.valid
+              ? `All ${report.checked} chained events verified.`
+              : `${report.issues.length} problem${report.issues.length === 1 ? '' : 's'} found in ${report.checked} events.`}
+            {report.issues.slice(0, 10).map(issue => (
+              <p key={`${issue.seq}-${issue.problem}`} className="mt-1 text-xs">Event #{issue.seq}: {problemLabels[issue.problem]}</p>
+            ))}
+          </div>
+        )}
+
+        {signature && (
+          <div className="mb-4">
+            <Label>Export signature (HMAC-SHA256)</Label>
+            <Input className="mt-1 font-mono text-xs" readOnly value={signature} onFocus={(e) => e.target.select()} data-testid="input-audit-signature" />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+          <Input placeholder="Event type, e.g. claim_submitted" value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value })} data-testid="filter-audit-type" />
+          <Input placeholder="Actor user ID" value={draft.actorUserId} onChange={(e) => setDraft({ ...draft, actorUserId: e.target.value })} data-testid="filter-audit-actor" />
+          <div className="flex gap-2">
+            <Select value={draft.resourceType} onValueChange={(resourceType) => setDraft({ ...draft, resourceType })}>
+              <SelectTrigger className="w-36" data-testid="filter-audit-resource-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any resource</SelectItem>
+                {RESOURCE_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{getEventTypeLabel(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Resource ID" value={draft.resourceId} onChange={(e) => setDraft({ ...draft, resourceId: e.target.value })} data-testid="filter-audit-resource-id" />
+          </div>
+          <Input type="date" value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} data-testid="filter-audit-from" />
+          <Input type="date" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} data-testid="filter-audit-to" />
+          <div className="flex gap-2">
+            <Button onClick={applyFilters} data-testid="button-apply-audit-filters">Search</Button>
+            <Button variant="ghost" onClick={clearFilters}>Clear</Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-4 text-slate-500">Loading audit events...</p>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <i className="fas fa-history text-4xl mb-4 text-slate-300"></i>
+            <p className="text-lg font-medium">No audit events found</p>
+            <p className="text-sm">System events will appear here once activities begin</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {events.map((event) => (
+              <div
+                key={event.id}
+                className="flex items-start space-x-3 p-4 bg-slate-50 rounded-lg"
+                data-testid={`audit-event-${event.id}`}
+              >
+                <div className="flex-shrink-0">
+                  <div className="w-8 h-8 rounded-full bg-white flex items-center justify-center">
+                    <i className={getEventTypeIcon(event.type)}></i>
+                  </div>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-slate-900">
+                      {getEventTypeLabel(event.type)}
+                      {event.seq !== null && <span className="ml-2 text-xs font-normal text-slate-400">#{event.seq}</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {formatDate(event.createdAt)}
+                    </p>
+                  </div>
+                  <p className="text-sm text-slate-600 mt-1">
+                    User ID: {event.actorUserId}
+                    {event.resourceType && <Badge className="ml-2 bg-gray-100 text-gray-800">{event.resourceType} {event.resourceId}</Badge>}
+                  </p>
+                  {event.details != null && (
+                    <pre className="text-xs text-slate-500 mt-2 whitespace-pre-wrap">
+                      {JSON.stringify(event.details, null, 2)}
+                    </pre>
+                  )}
+                  {event.ip && (
+                    <p className="text-xs text-slate-400 mt-1">
+                      IP: {event.ip}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between text-sm text-slate-500">
+              <span>{offset + 1}–{offset + events.length} of {total}</span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))} data-testid="button-audit-prev">
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)} data-testid="button-audit-next">
+                  Next
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ClaimScrubCondition, ClaimScrubRule, ClaimScrubScope, ScrubSeverity } from "@shared/schema";
+
+interface BuiltInRule {
+  id: string;
+  name: string;
+  severity: ScrubSeverity;
+  condition: ClaimScrubCondition;
+  scope?: ClaimScrubScope | null;
+}
+
+interface ClaimRules {
+  builtIn: BuiltInRule[];
+  rules: ClaimScrubRule[];
+}
+
+type ConditionKind = ClaimScrubCondition['kind'];
+
+const KIND_LABELS: Record<ConditionKind, string> = {
+  code_discipline: "Codes limited to disciplines",
+  frequency_limit: "Frequency limit",
+  attachment_required: "Attachment required",
+  preauth_required: "Pre-authorization required",
+  identifier_required: "Identifiers required",
+  max_amount: "Maximum claim amount",
+  duplicate_claim: "Duplicate service",
+};
+
+const KINDS_WITH_CODES: ConditionKind[] = ['code_discipline', 'frequency_limit', 'attachment_required', 'preauth_required'];
+
+const SEVERITY_BADGES: Record<ScrubSeverity, string> = {
+  error: "bg-red-100 text-red-800",
+  warning: "bg-yellow-100 text-yellow-800",
+  info: "bg-blue-100 text-blue-800",
+};
+
+const RAIL_LABELS: Record<string, string> = {
+  cdanet: "CDAnet",
+  telusEclaims: "TELUS eClaims",
+  portal: "Portal",
+};
+
+// "01202, 0220*" -> ["01202", "0220*"]
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+function describeCondition(condition: ClaimScrubCondition): string {
+  switch (condition.kind) {
+    case 'code_discipline':
+      return `${condition.codes.join(', ')} only for ${condition.disciplines.join(', ')}`;
+    case 'frequency_limit':
+      return `${condition.codes.join(', ')}: at most ${condition.maxUnits} per ${condition.perDays} days`;
+    case 'attachment_required':
+      return `${condition.codes.join(', ')}: at least ${condition.minCount} attachment${condition.minCount === 1 ? '' : 's'}`;
+    case 'preauth_required':
+      return `${condition.codes.join(', ')}: pre-authorization on file`;
+    case 'identifier_required':
+      return `Requires ${condition.fields.join(', ')}`;
+    case 'max_amount':
+      return `Claims over $${condition.amount.toFixed(2)}`;
+    case 'duplicate_claim':
+      return "Same code and service date already claimed";
+  }
+}
+
+function describeScope(scope: ClaimScrubScope | null | undefined): string | null {
+  const parts = [
+    scope?.rails?.map(rail => RAIL_LABELS[rail] ?? rail).join(', '),
+    scope?.claimTypes?.join(', '),
+    scope?.insurerIds && `${scope.insurerIds.length} insurer${scope.insurerIds.length === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  severity: "warning" as ScrubSeverity,
+  kind: "frequency_limit" as ConditionKind,
+  codes: "",
+  disciplines: "",
+  fields: "",
+  maxUnits: "1",
+  perDays: "365",
+  minCount: "1",
+  amount: "",
+  rail: "all",
+  message: "",
+};
+
+/**
+ * Claim scrubbing rules for the Admin page: the built-in checks and the
+ * organization's own rules, which claims are checked against before submission
+ */
+export function ClaimRulesPanel({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data, isLoading } = useQuery<ClaimRules>({
+    queryKey: ["/api/claim-rules"],
+    retry: false,
+  });
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (value: string) => setForm(current => ({ ...current, [field]: value }));
+
+  const buildCondition = (): ClaimScrubCondition => {
+    const codes = splitList(form.codes);
+    switch (form.kind) {
+      case 'code_discipline':
+        return { kind: form.kind, codes, disciplines: splitList(form.disciplines) };
+      case 'frequency_limit':
+        return { kind: form.kind, codes, maxUnits: Number(form.maxUnits), perDays: Number(form.perDays) };
+      case 'attachment_required':
+        return { kind: form.kind, codes, minCount: Number(form.minCount) };
+      case 'preauth_required':
+        return { kind: form.kind, codes };
+      case 'identifier_required':
+        return { kind: form.kind, fields: splitList(form.fields) };
+      case 'max_amount':
+        return { kind: form.kind, amount: Number(form.amount) };
+      case 'duplicate_claim':
+        return { kind: form.kind };
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/claim-rules", "POST", {
+        name: form.name,
+        severity: form.severity,
+        condition: buildCondition(),
+        scope: form.rail === "all" ? null : { rails: [form.rail] },
+        message: form.message.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Claim rule added" });
+      setForm(EMPTY_FORM);
+      queryClient.invalidateQueries({ queryKey: ["/api/claim-rules"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to add claim rule"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const response = await apiRequest(`/api/claim-rules/${id}`, "PATCH", { enabled });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/claim-rules"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to update claim rule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(`/api/claim-rules/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      toast({ title: "Claim rule deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/claim-rules"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to delete claim rule"),
+  });
+
+  const needsCodes = KINDS_WITH_CODES.includes(form.kind);
+  const canCreate = form.name.trim() !== ""
+    && (!needsCodes || splitList(form.codes).length > 0)
+    && (form.kind !== 'code_discipline' || splitList(form.disciplines).length > 0)
+    && (form.kind !== 'identifier_required' || splitList(form.fields).length > 0)
+    && (form.kind !== 'max_amount' || Number(form.amount) > 0);
+
+  const rules = data?.rules ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <div className="mb-6">
+            <h3 className="text-lg leading-6 font-medium text-slate-900">Claim Rules</h3>
+            <p className="mt-1 text-sm text-slate-500">
+              Claims are checked against these rules before they are submitted. Errors block submission; warnings and notices are shown in the claim wizard.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="text-sm text-slate-500">Loading claim rules...</div>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <h4 className="text-sm font-medium text-slate-900 mb-3">Your rules</h4>
+                {rules.length === 0 ? (
+                  <p className="text-sm text-slate-500">No organization rules yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {rules.map((rule) => (
+                      <div key={rule.id} className="flex items-start justify-between p-4 bg-slate-50 rounded-lg" data-testid={`claim-rule-${rule.id}`}>
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-slate-900">
+                            {rule.name}
+                            <Badge className={`ml-2 ${SEVERITY_BADGES[rule.severity]}`}>{rule.severity}</Badge>
+                          </p>
+                          <p className="text-sm text-slate-600 mt-1">{describeCondition(rule.condition)}</p>
+                          {describeScope(rule.scope) && <p className="text-xs text-slate-500 mt-1">{describeScope(rule.scope)}</p>}
+                          {rule.message && <p className="text-xs text-slate-500 mt-1">"{rule.message}"</p>}
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                          <Switch
+                            checked={rule.enabled}
+                            disabled={toggleMutation.isPending}
+                            onCheckedChange={(enabled) => toggleMutation.mutate({ id: rule.id, enabled })}
+                            data-testid={`switch-claim-rule-${rule.id}`}
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Delete the rule "${rule.name}"?`)) {
+                                deleteMutation.mutate(rule.id);
+                              }
+                            }}
+                            data-testid={`button-delete-claim-rule-${rule.id}`}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-slate-900 mb-3">Built-in checks</h4>
+                <div className="space-y-2">
+                  {data?.builtIn.map((rule) => (
+                    <div key={rule.id} className="flex items-start justify-between text-sm" data-testid={`builtin-rule-${rule.id}`}>
+                      <div className="min-w-0">
+                        <span className="text-slate-900">{rule.name}</span>
+                        <span className="text-slate-500"> · {describeCondition(rule.condition)}</span>
+                        {describeScope(rule.scope) && <span className="text-slate-500"> · {describeScope(rule.scope)}</span>}
+                      </div>
+                      <Badge className={`ml-2 shrink-0 ${SEVERITY_BADGES[rule.severity]}`}>{rule.severity}</Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-6">
+          <h3 className="text-lg leading-6 font-medium text-slate-900 mb-4">Add Rule</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-3xl">
+            <div>
+              <Label htmlFor="claim-rule-name">Name</Label>
+              <Input id="claim-rule-name" className="mt-1" value={form.name} onChange={(e) => setField('name')(e.target.value)} data-testid="input-claim-rule-name" />
+            </div>
+            <div>
+              <Label>Severity</Label>
+              <Select value={form.severity} onValueChange={setField('severity')}>
+                <SelectTrigger className="mt-1" data-testid="select-claim-rule-severity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="error">Error (blocks submission)</SelectItem>
+                  <SelectItem value="warning">Warning</SelectItem>
+                  <SelectItem value="info">Notice</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Check</Label>
+              <Select value={form.kind} onValueChange={setField('kind')}>
+                <SelectTrigger className="mt-1" data-testid="select-claim-rule-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KIND_LABELS) as ConditionKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Applies to</Label>
+              <Select value={form.rail} onValueChange={setField('rail')}>
+                <SelectTrigger className="mt-1" data-testid="select-claim-rule-rail">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All insurers</SelectItem>
+                  {Object.entries(RAIL_LABELS).map(([rail, label]) => (
+                    <SelectItem key={rail} value={rail}>{label} insurers</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {needsCodes && (
+              <div>
+                <Label htmlFor="claim-rule-codes">Procedure codes</Label>
+                <Input id="claim-rule-codes" className="mt-1" placeholder="01202, 0220*" value={form.codes} onChange={(e) => setField('codes')(e.target.value)} data-testid="input-claim-rule-codes" />
+                <p className="mt-1 text-xs text-slate-500">Comma-separated; end a code with * to match every code starting with it</p>
+              </div>
+            )}
+            {form.kind === 'code_discipline' && (
+              <div>
+                <Label htmlFor="claim-rule-disciplines">Disciplines</Label>
+                <Input id="claim-rule-disciplines" className="mt-1" placeholder="dentist, hygienist" value={form.disciplines} onChange={(e) => setField('disciplines')(e.target.value)} data-testid="input-claim-rule-disciplines" />
+              </div>
+            )}
+            {form.kind === 'frequency_limit' && (
+              <>
+                <div>
+                  <Label htmlFor="claim-rule-max-units">Maximum units</Label>
+                  <Input id="claim-rule-max-units" type="number" min={1} className="mt-1" value={form.maxUnits} onChange={(e) => setField('maxUnits')(e.target.value)} data-testid="input-claim-rule-max-units" />
+                </div>
+                <div>
+                  <Label htmlFor="claim-rule-per-days">Per days</Label>
+                  <Input id="claim-rule-per-days" type="number" min={1} className="mt-1" value={form.perDays} onChange={(e) => setField('perDays')(e.target.value)} data-testid="input-claim-rule-per-days" />
+                </div>
+              </>
+            )}
+            {form.kind === 'attachment_required' && (
+              <div>
+                <Label htmlFor="claim-rule-min-count">Minimum attachments</Label>
+                <Input id="claim-rule-min-count" type="number" min={1} className="mt-1" value={form.minCount} onChange={(e) => setField('minCount')(e.target.value)} data-testid="input-claim-rule-min-count" />
+              </div>
+            )}
+            {form.kind === 'identifier_required' && (
+              <div>
+                <Label htmlFor="claim-rule-fields">Identifiers</Label>
+                <Input id="claim-rule-fields" className="mt-1" placeholder="dob, licence, memberId" value={form.fields} onChange={(e) => setField('fields')(e.target.value)} data-testid="input-claim-rule-fields" />
+                <p className="mt-1 text-xs text-slate-500">Patient identifier keys, or dob and licence for the patient's birth date and the provider's licence</p>
+              </div>
+            )}
+            {form.kind === 'max_amount' && (
+              <div>
+                <Label htmlFor="claim-rule-amount">Amount ($)</Label>
+                <Input id="claim-rule-amount" type="number" min={0} step="0.01" className="mt-1" value={form.amount} onChange={(e) => setField('amount')(e.target.value)} data-testid="input-claim-rule-amount" />
+              </div>
+            )}
+            <div className="md:col-span-2">
+              <Label htmlFor="claim-rule-message">Message (optional)</Label>
+              <Input id="claim-rule-message" className="mt-1" placeholder="Shown in place of the generated message" value={form.message} onChange={(e) => setField('message')(e.target.value)} data-testid="input-claim-rule-message" />
+            </div>
+          </div>
+          <Button
+            className="mt-4"
+            disabled={!canCreate || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+            data-testid="button-add-claim-rule"
+          >
+            {createMutation.isPending ? "Adding..." : "Add Rule"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { format, formatDistanceToNow } from "date-fns";
-import { Check, Clock, AlertCircle, X, FileText, Send, Eye } from "lucide-react";
+import { Check, Clock, AlertCircle, X, FileText, Send, Eye, Undo2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -13,6 +13,18 @@ interface TimelineEvent {
   details?: any;
 }
 
+// Row from GET /api/claims/:id/history
+export interface ClaimStatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  source: string;
+  reason: string | null;
+  actorUserId: string | null;
+  actorName: string | null;
+  createdAt: string;
+}
+
 interface ClaimTimelineProps {
   claim: {
     id: string;
@@ -20,12 +32,21 @@ interface ClaimTimelineProps {
     createdAt: string;
     updatedAt: string;
     notes?: string;
-    events?: TimelineEvent[];
   };
+  history?: ClaimStatusHistoryEntry[];
   onResubmit?: () => void;
   className?: string;
 }
 
+const sourceLabels: Record<string, string> = {
+  user: "User",
+  connector: "Clearinghouse",
+  scheduler: "Status check",
+  webhook: "iTrans",
+  remittance: "Remittance import",
+  system: "System",
+};
+
 const statusConfig = {
   draft: {
     icon: FileText,
@@ -74,83 +95,48 @@ const statusConfig = {
     bgColor: "bg-red-50 dark:bg-red-950",
     label: "Denied",
     description: "Claim was denied by insurer"
+  },
+  reversed: {
+    icon: Undo2,
+    color: "bg-zinc-500",
+    textColor: "text-zinc-600",
+    bgColor: "bg-zinc-50 dark:bg-zinc-900",
+    label: "Reversed",
+    description: "Claim was cancelled with the insurer"
   }
 };
 
-const statusOrder = ['draft', 'submitted', 'pending', 'infoRequested', 'paid', 'denied'];
-
-export function ClaimTimeline({ claim, onResubmit, className = "" }: ClaimTimelineProps) {
+export function ClaimTimeline({ claim, history = [], onResubmit, className = "" }: ClaimTimelineProps) {
   const currentStatus = claim.status;
-  const currentStatusIndex = statusOrder.indexOf(currentStatus);
   
-  // Generate timeline events based on claim status and any provided events
+  // One event per recorded status change
   const generateTimelineEvents = (): TimelineEvent[] => {
-    const events: TimelineEvent[] = [];
-    
-    // Always start with draft/creation
-    events.push({
-      id: 'created',
-      status: 'draft',
-      timestamp: claim.createdAt,
-      description: 'Claim created',
-      actor: 'System'
-    });
-
-    // Add progression events based on current status
-    if (currentStatusIndex >= statusOrder.indexOf('submitted')) {
-      events.push({
-        id: 'submitted',
-        status: 'submitted', 
-        timestamp: claim.updatedAt,
-        description: 'Claim submitted to insurer',
+    if (history.length === 0) {
+      // Claims created before status history was recorded
+      return [{
+        id: 'created',
+        status: currentStatus,
+        timestamp: claim.createdAt,
+        description: 'Claim created',
         actor: 'System'
-      });
-    }
-
-    if (currentStatusIndex >= statusOrder.indexOf('pending') && currentStatus !== 'denied') {
-      events.push({
-        id: 'pending',
-        status: 'pending',
-        timestamp: claim.updatedAt,
-        description: 'Under review by insurer',
-        actor: 'Insurer'
-      });
+      }];
     }
 
-    // Add final status if applicable
-    if (currentStatus === 'paid') {
-      events.push({
-        id: 'paid',
-        status: 'paid',
-        timestamp: claim.updatedAt,
-        description: 'Claim approved and payment processed',
-        actor: 'Insurer'
-      });
-    } else if (currentStatus === 'denied') {
-      events.push({
-        id: 'denied',
-        status: 'denied',
-        timestamp: claim.updatedAt,
-        description: 'Claim was denied',
-        actor: 'Insurer'
-      });
-    } else if (currentStatus === 'infoRequested') {
-      events.push({
-        id: 'infoRequested',
-        status: 'infoRequested', 
-        timestamp: claim.updatedAt,
-        description: 'Additional information requested',
-        actor: 'Insurer'
-      });
-    }
+    return history.map((entry) => {
+      const fromLabel = entry.fromStatus
+        ? statusConfig[entry.fromStatus as keyof typeof statusConfig]?.label || entry.fromStatus
+        : undefined;
+      const toLabel = statusConfig[entry.toStatus as keyof typeof statusConfig]?.label || entry.toStatus;
 
-    // Add any custom events if provided
-    if (claim.events) {
-      events.push(...claim.events);
-    }
-
-    // Sort by timestamp
-    return events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      return {
+        id: entry.id,
+        status: entry.toStatus,
+        timestamp: entry.createdAt,
+        description: entry.reason || (fromLabel ? `${fromLabel} → ${toLabel}` : 'Claim created'),
+        actor: entry.actorName || sourceLabels[entry.source] || entry.source,
+        details: entry.fromStatus ? { from: entry.fromStatus, to: entry.toStatus, source: entry.source } : undefined,
+      };
+    });
   };
 
   const timelineEvents = generateTimelineEvents();
@@ -187,7 +173,7 @@ export function ClaimTimeline({ claim, onResubmit, className = "" }: ClaimTimeli
           </div>
           
           {/* Resubmit button for denied claims */}
-          {currentStatus === 'denied' && onResubmit && (
+          {(currentStatus === 'denied' || currentStatus === 'infoRequested') && onResubmit && (
             <div className="mt-4">
               <Button onClick={onResubmit} data-testid="button-resubmit">
                 Resubmit Claim
@@ -207,7 +193,7 @@ export function ClaimTimeline({ claim, onResubmit, className = "" }: ClaimTimeli
             {timelineEvents.map((event, index) => {
               const eventConfig = statusConfig[event.status as keyof typeof statusConfig];
               const isLast = index === timelineEvents.length - 1;
-              const isActive = event.status === currentStatus;
+              const isActive = isLast && event.status === currentStatus;
               
               return (
                 <div key={event.id} className="relative flex gap-4 pb-6" data-testid={`timeline-event-${event.status}`}>
@@ -9,7 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { FileUpload } from "./FileUpload";
 import { 
   ChevronLeft, ChevronRight, Check, Upload, User, FileText, Send, 
-  Sparkles, AlertCircle, HelpCircle, Loader2 
+  Sparkles, AlertCircle, HelpCircle, Loader2, ShieldCheck, ShieldX, ShieldQuestion, RefreshCw
 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -55,22 +55,68 @@ interface Insurer {
   rail: string;
 }
 
+interface EligibilityCoverage {
+  category: string;
+  coveragePercent?: number;
+  annualMaximum?: number;
+  remainingMaximum?: number;
+  deductibleRemaining?: number;
+  notes?: string;
+}
+
+interface EligibilityCheck {
+  id: string;
+  status: 'eligible' | 'ineligible' | 'unknown';
+  serviceDate: string;
+  coverage?: EligibilityCoverage[] | null;
+  message?: string | null;
+  createdAt: string;
+  cached: boolean;
+}
+
+interface ClaimLineDraft {
+  procedureCode: string;
+  description: string;
+  fee: string; // per unit
+  units: number;
+  serviceDate: string; // YYYY-MM-DD
+  tooth?: string;
+  surface?: string;
+  modifiers: string[];
+}
+
 interface ClaimData {
   patientId: string;
   providerId: string;
   insurerId: string;
   type: 'claim' | 'preauth';
   amount: string;
-  codes: any[];
+  lines: ClaimLineDraft[];
   notes: string;
   attachmentIds: string[];
+  appointmentId?: string; // the visit being billed
 }
 
 interface ClaimWizardProps {
   type?: 'claim' | 'preauth';
   initialData?: Partial<ClaimData>;
+  serviceDate?: string; // YYYY-MM-DD, defaults to today
   onComplete?: (claimId: string) => void;
-  prefillData?: any;
+}
+
+interface ScrubFinding {
+  ruleId: string;
+  ruleName: string;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  lineNumbers?: number[];
+}
+
+interface ScrubResult {
+  findings: ScrubFinding[];
+  errors: number;
+  warnings: number;
+  canSubmit: boolean;
 }
 
 interface SubmitResult {
@@ -86,7 +132,39 @@ interface SubmitResult {
 const AUTOSAVE_KEY = 'medlink-claim-draft';
 const AUTOSAVE_INTERVAL = 2000; // 2 seconds
 
-export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWizardProps) {
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+const ELIGIBILITY_DISPLAY = {
+  eligible: { label: 'Covered', badge: 'bg-green-100 text-green-800' },
+  ineligible: { label: 'Not covered', badge: 'bg-red-100 text-red-800' },
+  unknown: { label: 'Unconfirmed', badge: 'bg-yellow-100 text-yellow-800' },
+} as const;
+
+const SCRUB_SEVERITY_DISPLAY = {
+  error: { label: 'Error', badge: 'bg-red-100 text-red-800' },
+  warning: { label: 'Warning', badge: 'bg-yellow-100 text-yellow-800' },
+  info: { label: 'Info', badge: 'bg-blue-100 text-blue-800' },
+} as const;
+
+const lineTotal = (line: ClaimLineDraft) => parseFloat(line.fee || '0') * line.units;
+
+const sumLines = (lines: ClaimLineDraft[]) =>
+  lines.reduce((total, line) => total + lineTotal(line), 0).toFixed(2);
+
+const toLineInputs = (lines: ClaimLineDraft[]) =>
+  lines.map((line) => ({
+    ...line,
+    tooth: line.tooth || null,
+    surface: line.surface || null,
+  }));
+
+// The AI assistant still reads the flat `codes` list
+const toLegacyCodes = (lines: ClaimLineDraft[]) =>
+  lines.map((line) => ({ code: line.procedureCode, description: line.description, amount: lineTotal(line) }));
+
+export function ClaimWizard({ type = 'claim', initialData, serviceDate: initialServiceDate, onComplete }: ClaimWizardProps) {
   const [currentStep, setCurrentStep] = useState(1);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -98,7 +176,7 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
     insurerId: '',
     type,
     amount: '',
-    codes: [],
+    lines: [],
     notes: '',
     attachmentIds: [],
     ...initialData
@@ -107,6 +185,11 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
   const [procedureCode, setProcedureCode] = useState('');
   const [procedureDescription, setProcedureDescription] = useState('');
   const [procedureAmount, setProcedureAmount] = useState('');
+  const [procedureUnits, setProcedureUnits] = useState('1');
+  const [serviceDate, setServiceDate] = useState(initialServiceDate || today());
+  const [tooth, setTooth] = useState('');
+  const [surface, setSurface] = useState('');
+  const [modifiers, setModifiers] = useState('');
 
   // AI Assistant states
   const [icd10Suggestions, setIcd10Suggestions] = useState<any[]>([]);
@@ -123,7 +206,8 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
       try {
         const draft = await get(AUTOSAVE_KEY);
         if (draft && !initialData) {
-          setClaimData(draft);
+          // Drafts saved before service lines existed have no `lines` array
+          setClaimData({ ...draft, lines: draft.lines ?? [] });
         }
       } catch (error) {
         console.error('Failed to load draft:', error);
@@ -157,11 +241,48 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
     queryKey: ['/api/insurers'],
   });
 
+  const selectedInsurer = insurers?.find((insurer) => insurer.id === claimData.insurerId);
+  // Portal insurers have no eligibility transaction
+  const canCheckEligibility = Boolean(
+    claimData.patientId && claimData.providerId && selectedInsurer && selectedInsurer.rail !== 'portal'
+  );
+  const eligibilityKey = ['/api/eligibility', claimData.patientId, claimData.insurerId];
+
+  // Show a still-fresh cached answer as soon as the patient and insurer are picked
+  const { data: eligibility } = useQuery<EligibilityCheck | null>({
+    queryKey: eligibilityKey,
+    enabled: canCheckEligibility,
+  });
+
+  const eligibilityMutation = useMutation({
+    mutationFn: async (refresh: boolean) => {
+      const response = await apiRequest('/api/eligibility', 'POST', {
+        patientId: claimData.patientId,
+        providerId: claimData.providerId,
+        insurerId: claimData.insurerId,
+        refresh,
+      });
+      return response.json() as Promise<EligibilityCheck>;
+    },
+    onSuccess: (check) => {
+      queryClient.setQueryData(eligibilityKey, check);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Eligibility check failed",
+        description: error.message || "Could not reach the insurer",
+        variant: "destructive",
+      });
+    },
+  });
+
   const submitMutation = useMutation({
     mutationFn: async (data: ClaimData) => {
       const localResponse = await apiRequest(`/api/claims`, 'POST', {
         ...data,
-        amount: parseFloat(data.amount),
+        amount: sumLines(data.lines),
+        codes: toLegacyCodes(data.lines),
+        lines: toLineInputs(data.lines),
       });
       const localClaim = await localResponse.json();
       return {
@@ -193,6 +314,9 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
 
       queryClient.invalidateQueries({ queryKey: ['/api/claims'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      if (claimData.appointmentId) {
+        queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      }
       
       if (onComplete) {
         onComplete(result.localClaim.id);
@@ -211,38 +335,61 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
 
   const totalSteps = type === 'preauth' ? 2 : 3; // Pre-auth skips attachments step
 
+  // Scrubbing rules run on the final step; errors block submission
+  const scrubDraft = {
+    patientId: claimData.patientId,
+    providerId: claimData.providerId,
+    insurerId: claimData.insurerId,
+    type: claimData.type,
+    lines: toLineInputs(claimData.lines),
+    attachmentIds: claimData.attachmentIds,
+  };
+  const { data: scrub, isFetching: scrubbing, isError: scrubFailed } = useQuery<ScrubResult>({
+    queryKey: ['/api/claims/scrub', scrubDraft],
+    queryFn: async () => {
+      const response = await apiRequest('/api/claims/scrub', 'POST', scrubDraft);
+      return response.json();
+    },
+    enabled: currentStep === totalSteps && Boolean(claimData.patientId && claimData.providerId && claimData.insurerId) && claimData.lines.length > 0,
+    retry: false,
+  });
+  const scrubBlocksSubmit = scrubbing || scrub?.canSubmit === false;
+
   const updateClaimData = (updates: Partial<ClaimData>) => {
     setClaimData(prev => ({ ...prev, ...updates }));
   };
 
+  const selectedProvider = providers?.find((provider) => provider.id === claimData.providerId);
+  const isDental = /dent/i.test(selectedProvider?.discipline || '');
+
   const addProcedureCode = () => {
     if (!procedureCode || !procedureAmount) return;
     
-    const newCode = {
-      code: procedureCode,
+    const newLine: ClaimLineDraft = {
+      procedureCode,
       description: procedureDescription || '',
-      amount: parseFloat(procedureAmount),
+      fee: parseFloat(procedureAmount).toFixed(2),
+      units: Math.max(1, parseInt(procedureUnits, 10) || 1),
+      serviceDate: serviceDate || today(),
+      ...(isDental && { tooth: tooth || undefined, surface: surface.toUpperCase() || undefined }),
+      modifiers: modifiers.split(',').map((modifier) => modifier.trim()).filter(Boolean),
     };
+    const lines = [...claimData.lines, newLine];
 
-    updateClaimData({
-      codes: [...claimData.codes, newCode],
-      amount: (parseFloat(claimData.amount || '0') + newCode.amount).toString(),
-    });
+    updateClaimData({ lines, amount: sumLines(lines) });
 
     setProcedureCode('');
     setProcedureDescription('');
     setProcedureAmount('');
+    setProcedureUnits('1');
+    setTooth('');
+    setSurface('');
+    setModifiers('');
   };
 
   const removeProcedureCode = (index: number) => {
-    const removedCode = claimData.codes[index];
-    const newCodes = claimData.codes.filter((_, i) => i !== index);
-    const newAmount = (parseFloat(claimData.amount) - removedCode.amount).toString();
-    
-    updateClaimData({
-      codes: newCodes,
-      amount: newAmount,
-    });
+    const lines = claimData.lines.filter((_, i) => i !== index);
+    updateClaimData({ lines, amount: sumLines(lines) });
   };
 
   const canProceedToNext = () => {
@@ -250,7 +397,7 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
       case 1:
         return claimData.patientId && claimData.providerId && claimData.insurerId;
       case 2:
-        return claimData.codes.length > 0 && parseFloat(claimData.amount) > 0;
+        return claimData.lines.length > 0 && parseFloat(claimData.amount) > 0;
       case 3:
         return true; // Attachments are optional
       default:
@@ -271,7 +418,7 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
   };
 
   const handleSubmit = () => {
-    if (!canProceedToNext()) return;
+    if (!canProceedToNext() || scrubBlocksSubmit) return;
     submitMutation.mutate(claimData);
   };
 
@@ -313,7 +460,7 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
 
     try {
       const response = await apiRequest('/api/ai/validate-claim', 'POST', {
-        claimData,
+        claimData: { ...claimData, codes: toLegacyCodes(claimData.lines) },
       });
       
       const data = await response.json();
@@ -504,6 +651,85 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
             </div>
           )}
 
+          {/* Step 1: Coverage check */}
+          {currentStep === 1 && canCheckEligibility && (
+            <div className="rounded-lg border p-4 space-y-3" data-testid="eligibility-panel">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h4 className="font-medium">Coverage</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Check with {selectedInsurer?.name} that the patient is covered today.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => eligibilityMutation.mutate(Boolean(eligibility))}
+                  disabled={eligibilityMutation.isPending}
+                  data-testid="button-check-eligibility"
+                >
+                  {eligibilityMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : eligibility ? (
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                  ) : (
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                  )}
+                  {eligibility ? 'Re-check' : 'Check coverage'}
+                </Button>
+              </div>
+
+              {eligibility && (() => {
+                const display = ELIGIBILITY_DISPLAY[eligibility.status];
+                const StatusIcon = eligibility.status === 'eligible'
+                  ? ShieldCheck
+                  : eligibility.status === 'ineligible' ? ShieldX : ShieldQuestion;
+                return (
+                  <div className="space-y-3" data-testid="eligibility-result">
+                    <div className="flex items-center gap-2">
+                      <StatusIcon className="w-5 h-5" />
+                      <Badge className={display.badge}>{display.label}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        Checked {new Date(eligibility.createdAt).toLocaleString()}
+                        {eligibility.cached && ' (cached)'}
+                      </span>
+                    </div>
+                    {eligibility.message && (
+                      <p className="text-sm">{eligibility.message}</p>
+                    )}
+                    {eligibility.coverage && eligibility.coverage.length > 0 && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {eligibility.coverage.map((coverage) => (
+                          <div key={coverage.category} className="rounded-md bg-muted p-3 text-sm">
+                            <div className="flex justify-between font-medium capitalize">
+                              <span>{coverage.category}</span>
+                              {coverage.coveragePercent !== undefined && <span>{coverage.coveragePercent}%</span>}
+                            </div>
+                            {coverage.remainingMaximum !== undefined && (
+                              <div className="text-muted-foreground">
+                                {formatMoney(coverage.remainingMaximum)} remaining
+                                {coverage.annualMaximum !== undefined && ` of ${formatMoney(coverage.annualMaximum)}`}
+                              </div>
+                            )}
+                            {coverage.deductibleRemaining !== undefined && coverage.deductibleRemaining > 0 && (
+                              <div className="text-muted-foreground">
+                                {formatMoney(coverage.deductibleRemaining)} deductible left
+                              </div>
+                            )}
+                            {coverage.notes && (
+                              <div className="text-xs text-muted-foreground mt-1">{coverage.notes}</div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
+            </div>
+          )}
+
           {/* Step 2: Services & Codes */}
           {currentStep === 2 && (
             <div className="space-y-6">
@@ -561,8 +787,9 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
                 </div>
               )}
 
-              {/* Add Procedure Code */}
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 border rounded-lg bg-gray-50 dark:bg-gray-900">
+              {/* Add Service Line */}
+              <div className="space-y-4 p-4 border rounded-lg bg-gray-50 dark:bg-gray-900">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <Label htmlFor="code">Procedure Code *</Label>
@@ -657,7 +884,7 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
                   )}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="amount">Amount *</Label>
+                  <Label htmlFor="amount">Fee per Unit *</Label>
                   <Input
                     id="amount"
                     type="number"
@@ -669,29 +896,101 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
                     data-testid="input-procedure-amount"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="units">Units</Label>
+                  <Input
+                    id="units"
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={procedureUnits}
+                    onChange={(e) => setProcedureUnits(e.target.value)}
+                    data-testid="input-procedure-units"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="serviceDate">Date of Service *</Label>
+                  <Input
+                    id="serviceDate"
+                    type="date"
+                    value={serviceDate}
+                    onChange={(e) => setServiceDate(e.target.value)}
+                    data-testid="input-service-date"
+                  />
+                </div>
+                {isDental && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="tooth">Tooth</Label>
+                      <Input
+                        id="tooth"
+                        value={tooth}
+                        onChange={(e) => setTooth(e.target.value)}
+                        placeholder="e.g., 36"
+                        data-testid="input-tooth"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="surface">Surface</Label>
+                      <Input
+                        id="surface"
+                        value={surface}
+                        onChange={(e) => setSurface(e.target.value)}
+                        placeholder="e.g., MOD"
+                        data-testid="input-surface"
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="modifiers">Modifiers</Label>
+                  <Input
+                    id="modifiers"
+                    value={modifiers}
+                    onChange={(e) => setModifiers(e.target.value)}
+                    placeholder="Comma separated"
+                    data-testid="input-modifiers"
+                  />
+                </div>
                 <div className="flex items-end">
                   <Button 
                     onClick={addProcedureCode}
-                    disabled={!procedureCode || !procedureAmount}
+                    disabled={!procedureCode || !procedureAmount || !serviceDate}
                     data-testid="button-add-procedure"
                   >
-                    Add Code
+                    Add Line
                   </Button>
                 </div>
               </div>
+              </div>
 
-              {/* Added Codes List */}
-              {claimData.codes.length > 0 && (
+              {/* Added Service Lines */}
+              {claimData.lines.length > 0 && (
                 <div className="space-y-3">
-                  <h3 className="font-medium">Added Procedures:</h3>
-                  {claimData.codes.map((code, index) => (
+                  <h3 className="font-medium">Service Lines:</h3>
+                  {claimData.lines.map((line, index) => (
                     <div key={index} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`procedure-${index}`}>
                       <div className="flex-1">
-                        <div className="font-mono text-sm font-semibold">{code.code}</div>
-                        {code.description && <div className="text-sm text-muted-foreground">{code.description}</div>}
+                        <div className="font-mono text-sm font-semibold">
+                          {index + 1}. {line.procedureCode}
+                          {line.modifiers.map((modifier) => (
+                            <Badge key={modifier} variant="outline" className="ml-2">{modifier}</Badge>
+                          ))}
+                        </div>
+                        {line.description && <div className="text-sm text-muted-foreground">{line.description}</div>}
+                        <div className="text-xs text-muted-foreground">
+                          {line.serviceDate}
+                          {line.tooth && ` • Tooth ${line.tooth}`}
+                          {line.surface && ` • Surface ${line.surface}`}
+                        </div>
                       </div>
                       <div className="text-right">
-                        <div className="font-semibold">${code.amount.toFixed(2)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {line.units} × ${parseFloat(line.fee).toFixed(2)}
+                        </div>
+                        <div className="font-semibold">${lineTotal(line).toFixed(2)}</div>
                         <Button 
                           variant="ghost" 
                           size="sm"
@@ -766,6 +1065,50 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
               )}
             </div>
           )}
+
+          {/* Pre-submission checks */}
+          {currentStep === totalSteps && claimData.lines.length > 0 && (
+            <div className="space-y-3 border-t pt-6" data-testid="scrub-results">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Pre-submission checks</h3>
+                {scrubbing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
+              {scrubFailed && (
+                <p className="text-sm text-muted-foreground">The claim could not be checked. You can still submit it.</p>
+              )}
+              {scrub && scrub.findings.length === 0 && (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <ShieldCheck className="h-4 w-4" />
+                  No problems found
+                </div>
+              )}
+              {scrub && scrub.findings.length > 0 && (
+                <ul className="space-y-2">
+                  {scrub.findings.map((finding, index) => {
+                    const display = SCRUB_SEVERITY_DISPLAY[finding.severity];
+                    return (
+                      <li key={`${finding.ruleId}-${index}`} className="flex items-start gap-2 text-sm" data-testid={`scrub-finding-${index}`}>
+                        <Badge className={display.badge}>{display.label}</Badge>
+                        <div>
+                          <div>{finding.message}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {finding.ruleName}
+                            {finding.lineNumbers && ` • Line ${finding.lineNumbers.join(', ')}`}
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {scrub && !scrub.canSubmit && (
+                <Alert variant="destructive">
+                  <ShieldX className="h-4 w-4" />
+                  <AlertDescription>Fix the errors above before submitting.</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -785,7 +1128,7 @@ export function ClaimWizard({ type = 'claim', initialData, onComplete }: ClaimWi
           {currentStep === totalSteps ? (
             <Button 
               onClick={handleSubmit}
-              disabled={!canProceedToNext() || submitMutation.isPending}
+              disabled={!canProceedToNext() || scrubBlocksSubmit || submitMutation.isPending}
               data-testid="button-submit"
             >
               {submitMutation.isPending ? (
@@ -49,6 +49,7 @@ const statusColors = {
   infoRequested: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300",
   paid: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
   denied: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  reversed: "bg-zinc-100 text-zinc-800 dark:bg-zinc-800 dark:text-zinc-300",
 };
 
 export function ClaimsTable({ claims, isLoading = false }: ClaimsTableProps) {
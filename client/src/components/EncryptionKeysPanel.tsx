@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type RotationStatus = 'running' | 'paused' | 'completed' | 'failed' | 'rolledBack';
+
+interface TableProgress {
+  total: number;
+  processed: number;
+  reencrypted: number;
+  failed: number;
+}
+
+interface KeyRotation {
+  id: string;
+  targetVersion: number;
+  previousVersion: number;
+  rollbackOf: string | null;
+  status: RotationStatus;
+  cursor: { table: string; lastId: string | null } | null;
+  progress: Record<string, TableProgress>;
+  lastError: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface EncryptionSettings {
+  versions: number[];
+  activeVersion: number;
+  configuredActiveVersion: number;
+  rotations: KeyRotation[];
+}
+
+const STATUS_BADGES: Record<RotationStatus, { label: string; className: string }> = {
+  running: { label: 'Running', className: 'bg-blue-100 text-blue-800' },
+  paused: { label: 'Paused', className: 'bg-yellow-100 text-yellow-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  rolledBack: { label: 'Rolled back', className: 'bg-gray-100 text-gray-800' },
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// "remittanceLines" -> "remittance lines"
+const formatTable = (table: string) => table.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+/**
+ * PHI encryption keys for the Admin page: the configured key versions, the
+ * version new data is written with, and re-encryption runs with their
+ * per-table progress, pause/resume and rollback
+ */
+export function EncryptionKeysPanel({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [targetVersion, setTargetVersion] = useState("");
+
+  const { data: settings, isLoading } = useQuery<EncryptionSettings>({
+    queryKey: ["/api/admin/encryption"],
+    retry: false,
+    // Follow a running rotation as the scheduler moves it forward
+    refetchInterval: (query) => query.state.data?.rotations.some(rotation => rotation.status === 'running') ? 5000 : false,
+  });
+
+  useEffect(() => {
+    if (settings && !targetVersion) {
+      setTargetVersion(String(settings.configuredActiveVersion));
+    }
+  }, [settings, targetVersion]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/encryption/rotations", "POST", { targetVersion: Number(targetVersion) });
+      return response.json() as Promise<KeyRotation>;
+    },
+    onSuccess: (rotation) => {
+      toast({ title: "Key rotation started", description: `Re-encrypting to key version ${rotation.targetVersion}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/encryption"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to start key rotation"),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ rotation, action }: { rotation: KeyRotation; action: 'pause' | 'resume' | 'rollback' }) => {
+      const response = await apiRequest(`/api/admin/encryption/rotations/${rotation.id}/${action}`, "POST");
+      return response.json() as Promise<KeyRotation>;
+    },
+    onSuccess: (_rotation, { action }) => {
+      toast({ title: action === 'rollback' ? "Rollback started" : action === 'pause' ? "Rotation paused" : "Rotation resumed" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/encryption"] });
+    },
+    onError: (error, { action }) => onError(error as Error, `Failed to ${action} key rotation`),
+  });
+
+  const rotations = settings?.rotations ?? [];
+  const inFlight = rotations.some(rotation => rotation.status === 'running' || rotation.status === 'paused');
+  const latestId = rotations[0]?.id;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <div className="mb-6">
+            <h3 className="text-lg leading-6 font-medium text-slate-900">Encryption Keys</h3>
+            <p className="mt-1 text-sm text-slate-500">
+              Every configured key can decrypt; new data is written with the current version. Rotating re-encrypts every PHI field and
+              re-keys the email and phone search hashes in the background. Keep the old key configured until its rotation completes.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="text-sm text-slate-500">Loading encryption keys...</div>
+          ) : settings && (
+            <div className="space-y-4 max-w-md">
+              <div className="flex flex-wrap gap-2" data-testid="key-versions">
+                {settings.versions.map((version) => (
+                  <Badge key={version} className={version === settings.activeVersion ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}>
+                    Version {version}{version === settings.activeVersion ? " (current)" : ""}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <Select value={targetVersion} onValueChange={setTargetVersion}>
+                  <SelectTrigger className="w-40" data-testid="select-target-version">
+                    <SelectValue placeholder="Key version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {settings.versions.map((version) => (
+                      <SelectItem key={version} value={String(version)}>Version {version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  disabled={!targetVersion || inFlight || startMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Re-encrypt all PHI with key version ${targetVersion}?`)) {
+                      startMutation.mutate();
+                    }
+                  }}
+                  data-testid="button-start-rotation"
+                >
+                  {startMutation.isPending ? "Starting..." : "Rotate Keys"}
+                </Button>
+              </div>
+              {inFlight && <p className="text-xs text-slate-500">A rotation is in progress; finish or roll it back before starting another.</p>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-6">
+          <h3 className="text-lg leading-6 font-medium text-slate-900 mb-4">Rotations</h3>
+          {rotations.length === 0 ? (
+            <p className="text-sm text-slate-500">No key rotations yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {rotations.map((rotation) => {
+                const tables = Object.entries(rotation.progress);
+                const badge = STATUS_BADGES[rotation.status];
+                return (
+                  <div key={rotation.id} className="p-4 bg-slate-50 rounded-lg" data-testid={`key-rotation-${rotation.id}`}>
+                    <div className="flex items-start justify-between">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-900">
+                          Version {rotation.previousVersion} → {rotation.targetVersion}
+                          <Badge className={`ml-2 ${badge.className}`}>{badge.label}</Badge>
+                          {rotation.rollbackOf && <Badge className="ml-2 bg-purple-100 text-purple-800">Rollback</Badge>}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">
+                          Started {formatDate(rotation.startedAt)}
+                          {rotation.completedAt && ` · completed ${formatDate(rotation.completedAt)}`}
+                          {rotation.cursor && rotation.status !== 'rolledBack' && ` · at ${formatTable(rotation.cursor.table)}`}
+                        </p>
+                        {rotation.lastError && <p className="text-xs text-red-600 mt-1">{rotation.lastError}</p>}
+                      </div>
+                      <div className="flex gap-2">
+                        {rotation.status === 'running' && (
+                          <Button variant="outline" size="sm" disabled={actionMutation.isPending} onClick={() => actionMutation.mutate({ rotation, action: 'pause' })} data-testid={`button-pause-rotation-${rotation.id}`}>
+                            Pause
+                          </Button>
+                        )}
+                        {(rotation.status === 'paused' || rotation.status === 'failed') && (
+                          <Button variant="outline" size="sm" disabled={actionMutation.isPending} onClick={() => actionMutation.mutate({ rotation, action: 'resume' })} data-testid={`button-resume-rotation-${rotation.id}`}>
+                            Resume
+                          </Button>
+                        )}
+                        {rotation.id === latestId && rotation.status !== 'rolledBack' && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={actionMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Roll back to key version ${rotation.previousVersion}? Everything is re-encrypted with it again.`)) {
+                                actionMutation.mutate({ rotation, action: 'rollback' });
+                              }
+                            }}
+                            data-testid={`button-rollback-rotation-${rotation.id}`}
+                          >
+                            Roll Back
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {tables.length > 0 && (
+                      <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                        {tables.map(([table, progress]) => (
+                          <div key={table}>
+                            <div className="flex justify-between text-xs text-slate-600">
+                              <span>{formatTable(table)}</span>
+                              <span>
+                                {progress.processed}/{progress.total}
+                                {progress.failed > 0 && <span className="text-red-600"> · {progress.failed} failed</span>}
+                              </span>
+                            </div>
+                            <Progress value={progress.total ? Math.min(100, (progress.processed / progress.total) * 100) : 100} className="h-1.5 mt-1" />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
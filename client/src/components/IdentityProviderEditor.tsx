@@ -0,0 +1,481 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { RoleSummary } from "@/components/RoleEditor";
+
+interface IdentityProviderSummary {
+  id: string;
+  slug: string;
+  protocol: "oidc" | "saml";
+  name: string;
+  enabled: boolean;
+  issuer: string;
+  clientId: string | null;
+  hasClientSecret: boolean;
+  scopes: string | null;
+  ssoUrl: string | null;
+  idpCertificate: string | null;
+  roleClaim: string | null;
+  roleMapping: Record<string, string> | null;
+  defaultRole: string;
+  orgClaim: string | null;
+  jitProvisioning: boolean;
+}
+
+interface ProviderForm {
+  slug: string;
+  protocol: "oidc" | "saml";
+  name: string;
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  ssoUrl: string;
+  idpCertificate: string;
+  roleClaim: string;
+  roleMapping: string; // one "group = role" pair per line
+  defaultRole: string;
+  orgClaim: string;
+  jitProvisioning: boolean;
+}
+
+const emptyForm: ProviderForm = {
+  slug: "",
+  protocol: "oidc",
+  name: "",
+  enabled: true,
+  issuer: "",
+  clientId: "",
+  clientSecret: "",
+  scopes: "openid email profile",
+  ssoUrl: "",
+  idpCertificate: "",
+  roleClaim: "groups",
+  roleMapping: "",
+  defaultRole: "provider",
+  orgClaim: "",
+  jitProvisioning: true,
+};
+
+const formatRoleMapping = (mapping: Record<string, string> | null) =>
+  Object.entries(mapping ?? {}).map(([value, role]) => `${value} = ${role}`).join("\n");
+
+const parseRoleMapping = (text: string) =>
+  Object.fromEntries(
+    text.split("\n")
+      .map(line => line.split("="))
+      .filter(parts => parts.length === 2 && parts[0].trim() && parts[1].trim())
+      .map(([value, role]) => [value.trim(), role.trim()])
+  );
+
+const loginUrl = (provider: IdentityProviderSummary) =>
+  `${window.location.origin}/auth/${provider.protocol}/${provider.slug}/login`;
+
+/**
+ * Single sign-on settings for the Admin page: the organization's OIDC and
+ * SAML identity providers, with the URLs to register on the IdP side
+ */
+export function IdentityProviderEditor({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<IdentityProviderSummary | null>(null);
+  const [form, setForm] = useState<ProviderForm>(emptyForm);
+
+  const { data: providers = [], isLoading } = useQuery<IdentityProviderSummary[]>({
+    queryKey: ["/api/admin/identity-providers"],
+    retry: false,
+  });
+
+  const { data: roles = [] } = useQuery<RoleSummary[]>({
+    queryKey: ["/api/admin/roles"],
+    retry: false,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+  };
+
+  const saveProviderMutation = useMutation({
+    mutationFn: async () => {
+      const oidc = form.protocol === "oidc";
+      const payload = {
+        slug: form.slug.trim(),
+        protocol: form.protocol,
+        name: form.name.trim(),
+        enabled: form.enabled,
+        issuer: form.issuer.trim(),
+        clientId: oidc ? form.clientId.trim() || null : null,
+        clientSecret: oidc ? form.clientSecret || null : null,
+        scopes: oidc ? form.scopes.trim() || null : null,
+        ssoUrl: oidc ? null : form.ssoUrl.trim() || null,
+        idpCertificate: oidc ? null : form.idpCertificate.trim() || null,
+        roleClaim: form.roleClaim.trim() || null,
+        roleMapping: parseRoleMapping(form.roleMapping),
+        defaultRole: form.defaultRole,
+        orgClaim: form.orgClaim.trim() || null,
+        jitProvisioning: form.jitProvisioning,
+      };
+      const response = editing
+        ? await apiRequest(`/api/admin/identity-providers/${editing.id}`, "PUT", payload)
+        : await apiRequest("/api/admin/identity-providers", "POST", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: editing ? "Identity provider updated" : "Identity provider added", description: form.name });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/identity-providers"] });
+      closeDialog();
+    },
+    onError: (error) => onError(
+      error as Error,
+      (error as Error).message.startsWith("409") ? `The sign-in name "${form.slug}" is already taken` : "Failed to save identity provider"
+    ),
+  });
+
+  const deleteProviderMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/admin/identity-providers/${id}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Identity provider removed" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/identity-providers"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to remove identity provider"),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openProvider = (provider: IdentityProviderSummary) => {
+    setEditing(provider);
+    setForm({
+      slug: provider.slug,
+      protocol: provider.protocol,
+      name: provider.name,
+      enabled: provider.enabled,
+      issuer: provider.issuer,
+      clientId: provider.clientId || "",
+      clientSecret: "",
+      scopes: provider.scopes || "",
+      ssoUrl: provider.ssoUrl || "",
+      idpCertificate: provider.idpCertificate || "",
+      roleClaim: provider.roleClaim || "",
+      roleMapping: formatRoleMapping(provider.roleMapping),
+      defaultRole: provider.defaultRole,
+      orgClaim: provider.orgClaim || "",
+      jitProvisioning: provider.jitProvisioning,
+    });
+    setDialogOpen(true);
+  };
+
+  const setField = <K extends keyof ProviderForm>(field: K, value: ProviderForm[K]) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const canSave = form.slug && form.name.trim() && form.issuer.trim() &&
+    (form.protocol === "oidc" ? form.clientId.trim() : form.ssoUrl.trim() && form.idpCertificate.trim());
+
+  const returnUrl = form.protocol === "oidc"
+    ? `${window.location.origin}/auth/oidc/${form.slug || "<sign-in name>"}/callback`
+    : `${window.location.origin}/auth/saml/${form.slug || "<sign-in name>"}/acs`;
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-slate-900">Single Sign-On</h3>
+            <p className="mt-1 text-sm text-slate-500">Let staff sign in with your organization's identity provider</p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <Button onClick={openCreate} data-testid="button-new-identity-provider">
+              <i className="fas fa-plus mr-2"></i>
+              Add Identity Provider
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-slate-500">Loading identity providers...</div>
+        ) : providers.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <i className="fas fa-key text-4xl mb-4 text-slate-300"></i>
+            <p className="text-lg font-medium">No identity providers</p>
+            <p className="text-sm">Add Azure AD, Okta, Google Workspace or any OIDC or SAML 2.0 provider</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Provider</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Sign-in URL</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">New Users</th>
+                  <th className="relative px-6 py-3">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-200">
+                {providers.map((provider) => (
+                  <tr key={provider.id} data-testid={`identity-provider-row-${provider.slug}`}>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-slate-900">
+                        {provider.name}
+                        <Badge className="ml-2 bg-gray-100 text-gray-800">{provider.protocol.toUpperCase()}</Badge>
+                        {!provider.enabled && <Badge className="ml-2 bg-yellow-100 text-yellow-800">Disabled</Badge>}
+                      </div>
+                      <div className="text-sm text-slate-500">{provider.issuer}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-500">{loginUrl(provider)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                      {provider.jitProvisioning ? `Created as ${provider.defaultRole}` : "Invited only"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => openProvider(provider)} data-testid={`button-edit-identity-provider-${provider.slug}`}>
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={deleteProviderMutation.isPending}
+                        onClick={() => deleteProviderMutation.mutate(provider.id)}
+                        data-testid={`button-delete-identity-provider-${provider.slug}`}
+                      >
+                        Remove
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Identity Provider" : "Add Identity Provider"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="idp-name">Name</Label>
+                  <Input
+                    id="idp-name"
+                    className="mt-1"
+                    placeholder="Okta"
+                    value={form.name}
+                    onChange={(e) => setField("name", e.target.value)}
+                    data-testid="input-idp-name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="idp-slug">Sign-in name</Label>
+                  <Input
+                    id="idp-slug"
+                    className="mt-1"
+                    placeholder="northside-clinics"
+                    value={form.slug}
+                    onChange={(e) => setField("slug", e.target.value.toLowerCase())}
+                    data-testid="input-idp-slug"
+                  />
+                </div>
+                <div>
+                  <Label>Protocol</Label>
+                  <Select value={form.protocol} disabled={!!editing} onValueChange={(value) => setField("protocol", value as ProviderForm["protocol"])}>
+                    <SelectTrigger className="mt-1" data-testid="select-idp-protocol">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="oidc">OpenID Connect</SelectItem>
+                      <SelectItem value="saml">SAML 2.0</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="idp-issuer">{form.protocol === "oidc" ? "Issuer URL" : "IdP entity ID"}</Label>
+                  <Input
+                    id="idp-issuer"
+                    className="mt-1"
+                    value={form.issuer}
+                    onChange={(e) => setField("issuer", e.target.value)}
+                    data-testid="input-idp-issuer"
+                  />
+                </div>
+
+                {form.protocol === "oidc" ? (
+                  <>
+                    <div>
+                      <Label htmlFor="idp-client-id">Client ID</Label>
+                      <Input
+                        id="idp-client-id"
+                        className="mt-1"
+                        value={form.clientId}
+                        onChange={(e) => setField("clientId", e.target.value)}
+                        data-testid="input-idp-client-id"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="idp-client-secret">Client secret</Label>
+                      <Input
+                        id="idp-client-secret"
+                        type="password"
+                        className="mt-1"
+                        placeholder={editing?.hasClientSecret ? "Unchanged" : "Optional for public clients"}
+                        value={form.clientSecret}
+                        onChange={(e) => setField("clientSecret", e.target.value)}
+                        data-testid="input-idp-client-secret"
+                      />
+                    </div>
+                    <div className="sm:col-span-2">
+                      <Label htmlFor="idp-scopes">Scopes</Label>
+                      <Input
+                        id="idp-scopes"
+                        className="mt-1"
+                        value={form.scopes}
+                        onChange={(e) => setField("scopes", e.target.value)}
+                        data-testid="input-idp-scopes"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="sm:col-span-2">
+                      <Label htmlFor="idp-sso-url">IdP sign-on URL</Label>
+                      <Input
+                        id="idp-sso-url"
+                        className="mt-1"
+                        value={form.ssoUrl}
+                        onChange={(e) => setField("ssoUrl", e.target.value)}
+                        data-testid="input-idp-sso-url"
+                      />
+                    </div>
+                    <div className="sm:col-span-2">
+                      <Label htmlFor="idp-certificate">IdP signing certificate</Label>
+                      <Textarea
+                        id="idp-certificate"
+                        className="mt-1 font-mono text-xs"
+                        rows={4}
+                        placeholder="-----BEGIN CERTIFICATE-----"
+                        value={form.idpCertificate}
+                        onChange={(e) => setField("idpCertificate", e.target.value)}
+                        data-testid="input-idp-certificate"
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <Label htmlFor="idp-role-claim">Role claim</Label>
+                  <Input
+                    id="idp-role-claim"
+                    className="mt-1"
+                    value={form.roleClaim}
+                    onChange={(e) => setField("roleClaim", e.target.value)}
+                    data-testid="input-idp-role-claim"
+                  />
+                </div>
+                <div>
+                  <Label>Default role</Label>
+                  <Select value={form.defaultRole} onValueChange={(value) => setField("defaultRole", value)}>
+                    <SelectTrigger className="mt-1" data-testid="select-idp-default-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((role) => (
+                        <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="sm:col-span-2">
+                  <Label htmlFor="idp-role-mapping">Role mapping</Label>
+                  <Textarea
+                    id="idp-role-mapping"
+                    className="mt-1 font-mono text-xs"
+                    rows={3}
+                    placeholder={"medlink-admins = admin\nbilling-team = billing"}
+                    value={form.roleMapping}
+                    onChange={(e) => setField("roleMapping", e.target.value)}
+                    data-testid="input-idp-role-mapping"
+                  />
+                  <p className="mt-1 text-xs text-slate-500">
+                    One "group = role" per line; the first match wins. Leave empty to manage roles in MedLink.
+                  </p>
+                </div>
+                <div className="sm:col-span-2">
+                  <Label htmlFor="idp-org-claim">Organization claim</Label>
+                  <Input
+                    id="idp-org-claim"
+                    className="mt-1"
+                    placeholder="Only this organization"
+                    value={form.orgClaim}
+                    onChange={(e) => setField("orgClaim", e.target.value)}
+                    data-testid="input-idp-org-claim"
+                  />
+                  <p className="mt-1 text-xs text-slate-500">
+                    Claim listing organization external IDs, for clinic groups. Each clinic must add this provider too.
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={form.jitProvisioning}
+                    onCheckedChange={(checked) => setField("jitProvisioning", checked === true)}
+                    data-testid="checkbox-idp-jit"
+                  />
+                  <span>Create accounts for new users on first sign-in</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={form.enabled}
+                    onCheckedChange={(checked) => setField("enabled", checked === true)}
+                    data-testid="checkbox-idp-enabled"
+                  />
+                  <span>Enabled</span>
+                </label>
+              </div>
+
+              <div className="rounded-md bg-slate-50 p-3 text-xs text-slate-600">
+                <div>{form.protocol === "oidc" ? "Redirect URI" : "ACS URL"}: <span className="font-mono">{returnUrl}</span></div>
+                {form.protocol === "saml" && (
+                  <div>SP metadata: <span className="font-mono">{`${window.location.origin}/auth/saml/${form.slug || "<sign-in name>"}/metadata`}</span></div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                <Button
+                  disabled={!canSave || saveProviderMutation.isPending}
+                  onClick={() => saveProviderMutation.mutate()}
+                  data-testid="button-save-identity-provider"
+                >
+                  {saveProviderMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
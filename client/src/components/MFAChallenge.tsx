@@ -0,0 +1,152 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { browserSupportsWebAuthn, startAuthentication, type PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/browser';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ShieldCheck, KeyRound } from 'lucide-react';
+
+const challengeFormSchema = z.object({
+  code: z.string().length(6, 'Code must be exactly 6 digits').regex(/^\d+$/, 'Code must contain only numbers'),
+});
+
+type ChallengeFormValues = z.infer<typeof challengeFormSchema>;
+
+interface MFAChallengeProps {
+  tempToken?: string; // organization sign-ins leave it in the session
+  next: string;
+}
+
+interface ChallengeOptions {
+  totp: boolean;
+  webauthn: PublicKeyCredentialRequestOptionsJSON | null;
+}
+
+/**
+ * Second step of a single sign-on for users with MFA enabled: the IdP
+ * sign-in produced a short-lived token (passed in, or held by the server
+ * session), and the session is only created once the authenticator code
+ * or passkey checks out
+ */
+export default function MFAChallenge({ tempToken, next }: MFAChallengeProps) {
+  const { toast } = useToast();
+
+  const form = useForm<ChallengeFormValues>({
+    resolver: zodResolver(challengeFormSchema),
+    defaultValues: { code: '' },
+  });
+
+  // Each passkey challenge is single-use, so a failed attempt fetches a fresh one
+  const { data: options, isLoading: optionsLoading, refetch: refetchOptions } = useQuery<ChallengeOptions>({
+    queryKey: ['/api/auth/mfa/challenge/options', tempToken],
+    queryFn: async () => {
+      const response = await apiRequest('/api/auth/mfa/challenge/options', 'POST', { tempToken });
+      return response.json();
+    },
+  });
+  const passkeyAvailable = Boolean(options?.webauthn) && browserSupportsWebAuthn();
+  const showCodeForm = !options || options.totp || !passkeyAvailable;
+
+  const challengeMutation = useMutation({
+    mutationFn: async (data: ChallengeFormValues | { passkey: true }) => {
+      const body = 'passkey' in data
+        ? { tempToken, webauthn: await startAuthentication({ optionsJSON: options!.webauthn! }) }
+        : { tempToken, code: data.code };
+      const response = await apiRequest('/api/auth/mfa/challenge', 'POST', body);
+      return response.json();
+    },
+    onSuccess: () => {
+      // Full reload so the app starts over with the new session
+      window.location.href = next.startsWith('/') && !next.startsWith('//') ? next : '/';
+    },
+    onError: (error: Error) => {
+      const expired = error.message.includes('Invalid or expired token');
+      // Cancelling the browser prompt needs no toast, only a new challenge
+      if (error.name !== 'NotAllowedError') {
+        toast({
+          title: 'Verification Failed',
+          description: expired
+            ? 'Your sign-in expired. Please sign in again.'
+            : error.message.includes('Passkey') ? 'Your passkey could not be verified. Please try again.' : 'Invalid verification code. Please try again.',
+          variant: 'destructive',
+        });
+      }
+      if (expired) {
+        setTimeout(() => {
+          window.location.href = '/';
+        }, 1000);
+      }
+      form.reset();
+      refetchOptions();
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            {showCodeForm
+              ? 'Enter the 6-digit code from your authenticator app to finish signing in'
+              : 'Use your passkey or security key to finish signing in'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {passkeyAvailable && (
+            <Button
+              type="button"
+              variant={showCodeForm ? 'outline' : 'default'}
+              className="w-full"
+              disabled={challengeMutation.isPending || optionsLoading}
+              onClick={() => challengeMutation.mutate({ passkey: true })}
+              data-testid="button-mfa-challenge-passkey"
+            >
+              <KeyRound className="mr-2 h-4 w-4" />
+              Use a Passkey
+            </Button>
+          )}
+          {showCodeForm && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => challengeMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Verification Code</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="000000"
+                          maxLength={6}
+                          autoComplete="one-time-code"
+                          inputMode="numeric"
+                          autoFocus
+                          data-testid="input-mfa-challenge-code"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={challengeMutation.isPending} data-testid="button-mfa-challenge">
+                  {challengeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Verify
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
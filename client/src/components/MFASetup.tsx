@@ -2,14 +2,15 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Shield, Smartphone, Copy, Check, Download } from 'lucide-react';
+import { Loader2, Shield, Smartphone, Copy, Check, Download, KeyRound, Trash2 } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import MFABackupCodes from './MFABackupCodes';
 
@@ -24,6 +25,143 @@ interface MFASetupResponse {
   backupCodes: string[];
 }
 
+interface Passkey {
+  id: string;
+  name: string;
+  deviceType: 'singleDevice' | 'multiDevice' | null;
+  backedUp: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const formatPasskeyDate = (dateString: string | null) =>
+  dateString ? new Date(dateString).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' }) : 'Never';
+
+/**
+ * Passkeys and security keys registered as a second factor. They work
+ * alongside the authenticator app, so losing a phone does not lock anyone out.
+ */
+export function PasskeyManager() {
+  const [name, setName] = useState('');
+  const { toast } = useToast();
+  const supported = browserSupportsWebAuthn();
+
+  const { data: passkeys = [], isLoading } = useQuery<Passkey[]>({
+    queryKey: ['/api/auth/mfa/webauthn/credentials'],
+    retry: false,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const optionsResponse = await apiRequest('/api/auth/mfa/webauthn/register/options', 'POST');
+      const optionsJSON = await optionsResponse.json();
+      // Prompts for Touch ID, Windows Hello, a phone or a security key
+      const response = await startRegistration({ optionsJSON });
+      const registered = await apiRequest('/api/auth/mfa/webauthn/register', 'POST', { name: name.trim(), response });
+      return registered.json() as Promise<Passkey>;
+    },
+    onSuccess: () => {
+      toast({ title: 'Passkey Added', description: 'You can now use this passkey to verify your sign-in.' });
+      setName('');
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/webauthn/credentials'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    },
+    onError: (error: any) => {
+      // Cancelling the browser prompt is not worth a destructive toast
+      if (error?.name === 'NotAllowedError') return;
+      toast({
+        title: 'Passkey Not Added',
+        description: error.message || 'Failed to register passkey',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/auth/mfa/webauthn/credentials/${id}`, 'DELETE');
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Passkey Removed' });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/webauthn/credentials'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Removal Failed',
+        description: error.message || 'Failed to remove passkey',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card className="w-full" data-testid="card-passkeys">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Passkeys & Security Keys
+        </CardTitle>
+        <CardDescription>
+          Verify your sign-in with your device's fingerprint, face or PIN, or with a hardware security key
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading passkeys...</p>
+        ) : passkeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No passkeys registered yet.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {passkeys.map((passkey) => (
+              <li key={passkey.id} className="flex items-center justify-between p-3" data-testid={`passkey-row-${passkey.id}`}>
+                <div>
+                  <p className="text-sm font-medium">{passkey.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {passkey.deviceType === 'multiDevice' ? 'Synced passkey' : 'Security key'} · Added {formatPasskeyDate(passkey.createdAt)} · Last used {formatPasskeyDate(passkey.lastUsedAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(passkey.id)}
+                  data-testid={`button-remove-passkey-${passkey.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {supported ? (
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Front desk laptop"
+              maxLength={100}
+              data-testid="input-passkey-name"
+            />
+            <Button
+              onClick={() => registerMutation.mutate()}
+              disabled={!name.trim() || registerMutation.isPending}
+              data-testid="button-add-passkey"
+            >
+              {registerMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+              Add Passkey
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function MFASetup({ onSetupComplete }: { onSetupComplete?: () => void }) {
   const [qrCode, setQrCode] = useState<string>('');
   const [backupCodes, setBackupCodes] = useState<string[]>([]);
@@ -103,7 +241,7 @@ export default function MFASetup({ onSetupComplete }: { onSetupComplete?: () =>
             Enable Multi-Factor Authentication
           </CardTitle>
           <CardDescription>
-            Add an extra layer of security to your admin account
+            Add an extra layer of security to your account
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
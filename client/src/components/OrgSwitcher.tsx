@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface MembershipSummary {
+  id: string | null;
+  orgId: string;
+  orgName: string;
+  role: string;
+  home: boolean;
+}
+
+/**
+ * Organization picker for users who work for several organizations. The
+ * choice is kept on the server session; every cached query belongs to the
+ * previous organization, so they are all reset after switching.
+ */
+export default function OrgSwitcher({ className }: { className?: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const memberships: MembershipSummary[] = user?.memberships ?? [];
+
+  const switchOrgMutation = useMutation({
+    mutationFn: async (orgId: string) => {
+      const response = await apiRequest("/api/orgs/active", "POST", { orgId });
+      return response.json() as Promise<MembershipSummary>;
+    },
+    onSuccess: async (membership) => {
+      setLocation("/");
+      await queryClient.resetQueries();
+      toast({ title: "Organization switched", description: membership.orgName });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to switch organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (memberships.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={user?.orgId ?? undefined}
+      disabled={switchOrgMutation.isPending}
+      onValueChange={(orgId) => orgId !== user?.orgId && switchOrgMutation.mutate(orgId)}
+    >
+      <SelectTrigger className={cn("w-48", className)} data-testid="org-switcher">
+        <i className="fas fa-building text-slate-400 mr-2"></i>
+        <SelectValue placeholder="Organization" />
+      </SelectTrigger>
+      <SelectContent>
+        {memberships.map((membership) => (
+          <SelectItem key={membership.orgId} value={membership.orgId} data-testid={`org-option-${membership.orgId}`}>
+            {membership.orgName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
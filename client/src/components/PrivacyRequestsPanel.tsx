@@ -0,0 +1,468 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Patient } from "@shared/schema";
+
+type RequestType = 'access' | 'correction' | 'erasure';
+type RequestStatus = 'received' | 'inProgress' | 'completed' | 'rejected';
+
+interface OutcomeItem {
+  resourceType: string;
+  resourceId: string;
+  action: string;
+  reason?: string;
+}
+
+interface PrivacyRequest {
+  id: string;
+  patientId: string;
+  patientName: string | null;
+  type: RequestType;
+  status: RequestStatus;
+  requesterName: string | null;
+  requesterEmail: string | null;
+  description: string | null;
+  corrections: Record<string, unknown> | null;
+  receivedAt: string;
+  dueAt: string;
+  extendedAt: string | null;
+  resolution: string | null;
+  outcome: OutcomeItem[] | null;
+  completedAt: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const typeLabels: Record<RequestType, string> = { access: 'Access', correction: 'Correction', erasure: 'Erasure' };
+
+const statusStyles: Record<RequestStatus, { label: string; className: string }> = {
+  received: { label: 'Received', className: 'bg-blue-100 text-blue-800' },
+  inProgress: { label: 'In Progress', className: 'bg-yellow-100 text-yellow-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Refused', className: 'bg-gray-100 text-gray-800' },
+};
+
+const correctionFields = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'dob', label: 'Date of birth', type: 'date' },
+] as const;
+
+const emptyForm = {
+  patientId: "",
+  type: "access" as RequestType,
+  requesterName: "",
+  requesterEmail: "",
+  description: "",
+  receivedAt: new Date().toISOString().slice(0, 10),
+  corrections: {} as Record<string, string>,
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const isOpen = (request: PrivacyRequest) => request.status === 'received' || request.status === 'inProgress';
+
+// Counts per action, e.g. "3 anonymized, 2 retained"
+const summarizeOutcome = (outcome: OutcomeItem[]) => {
+  const counts: Record<string, number> = {};
+  outcome.forEach(item => { counts[item.action] = (counts[item.action] ?? 0) + 1; });
+  return Object.entries(counts).map(([action, count]) => `${count} ${action.replace(/_/g, ' ')}`).join(', ');
+};
+
+function DueDate({ request }: { request: PrivacyRequest }) {
+  const daysLeft = Math.ceil((new Date(request.dueAt).getTime() - Date.now()) / DAY_MS);
+  const className = !isOpen(request) ? 'text-slate-500' : daysLeft < 0 ? 'text-red-600 font-medium' : daysLeft <= 7 ? 'text-amber-600' : 'text-slate-600';
+  return (
+    <span className={className}>
+      Due {formatDate(request.dueAt)}
+      {isOpen(request) && (daysLeft < 0 ? ` (${-daysLeft} days overdue)` : ` (${daysLeft} days left)`)}
+      {request.extendedAt && ' · extended'}
+    </span>
+  );
+}
+
+/**
+ * Patient privacy request queue for the Admin page: log access, correction
+ * and erasure requests, then export, correct or erase before the deadline
+ */
+export function PrivacyRequestsPanel({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [reasonAction, setReasonAction] = useState<{ request: PrivacyRequest; kind: 'extend' | 'reject' } | null>(null);
+  const [reason, setReason] = useState("");
+  const [erasurePlan, setErasurePlan] = useState<{ request: PrivacyRequest; outcome: OutcomeItem[] } | null>(null);
+
+  const { data: requests = [], isLoading } = useQuery<PrivacyRequest[]>({
+    queryKey: ["/api/admin/privacy-requests"],
+    retry: false,
+  });
+
+  const { data: patients = [] } = useQuery<Patient[]>({
+    queryKey: ["/api/patients"],
+    enabled: createOpen,
+    retry: false,
+  });
+
+  const visible = requests.filter(request =>
+    statusFilter === 'all' ? true : statusFilter === 'open' ? isOpen(request) : request.status === statusFilter);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/privacy-requests"] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const corrections = Object.fromEntries(Object.entries(form.corrections).filter(([, value]) => value.trim()));
+      const response = await apiRequest("/api/admin/privacy-requests", "POST", {
+        patientId: form.patientId,
+        type: form.type,
+        requesterName: form.requesterName.trim() || null,
+        requesterEmail: form.requesterEmail.trim() || null,
+        description: form.description.trim() || null,
+        corrections: form.type === 'correction' ? corrections : null,
+        receivedAt: new Date(`${form.receivedAt}T00:00:00`).toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Privacy request logged" });
+      setCreateOpen(false);
+      setForm(emptyForm);
+      refresh();
+    },
+    onError: (error) => onError(error as Error, "Failed to log privacy request"),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (request: PrivacyRequest) => {
+      const response = await apiRequest(`/api/admin/privacy-requests/${request.id}/export`, "GET");
+      return { request, body: await response.blob() };
+    },
+    onSuccess: ({ request, body }) => {
+      const url = URL.createObjectURL(body);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `patient-export-${request.id.slice(0, 8)}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast({ title: "Export downloaded", description: "Send it to the patient securely, then mark the request completed." });
+      refresh();
+    },
+    onError: (error) => onError(error as Error, "Failed to export patient records"),
+  });
+
+  const correctMutation = useMutation({
+    mutationFn: async (request: PrivacyRequest) => {
+      const response = await apiRequest(`/api/admin/privacy-requests/${request.id}/correct`, "POST");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Correction applied" });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      refresh();
+    },
+    onError: (error) => onError(error as Error, "Failed to apply correction"),
+  });
+
+  const eraseMutation = useMutation({
+    mutationFn: async ({ request, dryRun }: { request: PrivacyRequest; dryRun: boolean }) => {
+      const response = await apiRequest(`/api/admin/privacy-requests/${request.id}/erase`, "POST", { dryRun });
+      const result = await response.json() as { dryRun: boolean; outcome: OutcomeItem[] };
+      return { request, ...result };
+    },
+    onSuccess: ({ request, dryRun, outcome }) => {
+      if (dryRun) {
+        setErasurePlan({ request, outcome });
+        return;
+      }
+      setErasurePlan(null);
+      toast({ title: "Patient erased", description: summarizeOutcome(outcome) });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      refresh();
+    },
+    onError: (error) => onError(error as Error, "Failed to erase patient records"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ request, status, resolution }: { request: PrivacyRequest; status: RequestStatus; resolution?: string }) => {
+      const response = await apiRequest(`/api/admin/privacy-requests/${request.id}`, "PATCH", { status, resolution });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReasonAction(null);
+      setReason("");
+      refresh();
+    },
+    onError: (error) => onError(error as Error, "Failed to update privacy request"),
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: async ({ request, reason }: { request: PrivacyRequest; reason: string }) => {
+      const response = await apiRequest(`/api/admin/privacy-requests/${request.id}/extend`, "POST", { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Deadline extended by 30 days" });
+      setReasonAction(null);
+      setReason("");
+      refresh();
+    },
+    onError: (error) => onError(error as Error, "Failed to extend deadline"),
+  });
+
+  const submitReason = () => {
+    if (!reasonAction) return;
+    if (reasonAction.kind === 'extend') {
+      extendMutation.mutate({ request: reasonAction.request, reason: reason.trim() });
+    } else {
+      updateMutation.mutate({ request: reasonAction.request, status: 'rejected', resolution: reason.trim() });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-slate-900">Privacy Requests</h3>
+            <p className="mt-1 text-sm text-slate-500">
+              Patient requests to access, correct or erase their information. Law 25 and PIPEDA require a response within 30 days.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex space-x-3">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36" data-testid="filter-privacy-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="rejected">Refused</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setCreateOpen(true)} data-testid="button-log-privacy-request">
+              <i className="fas fa-plus mr-2"></i>
+              Log Request
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-slate-500">Loading privacy requests...</div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <i className="fas fa-user-shield text-4xl mb-4 text-slate-300"></i>
+            <p className="text-lg font-medium">No privacy requests</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((request) => (
+              <div key={request.id} className="p-4 bg-slate-50 rounded-lg" data-testid={`privacy-request-${request.id}`}>
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900">
+                      {request.patientName ?? 'Unknown patient'}
+                      <Badge className="ml-2 bg-purple-100 text-purple-800">{typeLabels[request.type]}</Badge>
+                      <Badge className={`ml-2 ${statusStyles[request.status].className}`}>{statusStyles[request.status].label}</Badge>
+                    </p>
+                    <p className="text-xs mt-1">
+                      <span className="text-slate-500">Received {formatDate(request.receivedAt)} · </span>
+                      <DueDate request={request} />
+                    </p>
+                    {request.requesterName && (
+                      <p className="text-xs text-slate-500 mt-1">On behalf of the patient: {request.requesterName} {request.requesterEmail && `<${request.requesterEmail}>`}</p>
+                    )}
+                    {request.description && <p className="text-sm text-slate-600 mt-2 whitespace-pre-wrap">{request.description}</p>}
+                    {request.type === 'correction' && request.corrections && (
+                      <p className="text-xs text-slate-600 mt-2">
+                        Correct: {Object.entries(request.corrections).map(([field, value]) => `${field} → ${String(value)}`).join('; ')}
+                      </p>
+                    )}
+                    {request.outcome && request.outcome.length > 0 && (
+                      <p className="text-xs text-slate-600 mt-2">Outcome: {summarizeOutcome(request.outcome)}</p>
+                    )}
+                    {request.resolution && <p className="text-xs text-slate-600 mt-1">Response: {request.resolution}</p>}
+                  </div>
+                  {isOpen(request) && (
+                    <div className="flex flex-wrap justify-end gap-2 ml-4">
+                      {request.type === 'access' && (
+                        <>
+                          <Button size="sm" variant="outline" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate(request)} data-testid={`button-export-${request.id}`}>
+                            <i className="fas fa-download mr-2"></i>
+                            Export
+                          </Button>
+                          <Button size="sm" variant="outline" disabled={updateMutation.isPending} onClick={() => updateMutation.mutate({ request, status: 'completed' })} data-testid={`button-complete-${request.id}`}>
+                            Mark Completed
+                          </Button>
+                        </>
+                      )}
+                      {request.type === 'correction' && (
+                        <Button size="sm" variant="outline" disabled={correctMutation.isPending} onClick={() => correctMutation.mutate(request)} data-testid={`button-correct-${request.id}`}>
+                          Apply Correction
+                        </Button>
+                      )}
+                      {request.type === 'erasure' && (
+                        <Button size="sm" variant="outline" disabled={eraseMutation.isPending} onClick={() => eraseMutation.mutate({ request, dryRun: true })} data-testid={`button-preview-erasure-${request.id}`}>
+                          Review Erasure
+                        </Button>
+                      )}
+                      {!request.extendedAt && (
+                        <Button size="sm" variant="ghost" onClick={() => setReasonAction({ request, kind: 'extend' })} data-testid={`button-extend-${request.id}`}>
+                          Extend
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => setReasonAction({ request, kind: 'reject' })} data-testid={`button-reject-${request.id}`}>
+                        Refuse
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Log Privacy Request</DialogTitle>
+            <DialogDescription>The response deadline is 30 days from the date the request was received.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Patient</Label>
+              <Select value={form.patientId} onValueChange={(patientId) => setForm({ ...form, patientId })}>
+                <SelectTrigger className="mt-1" data-testid="select-privacy-patient">
+                  <SelectValue placeholder="Select a patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients.map(patient => (
+                    <SelectItem key={patient.id} value={patient.id}>{patient.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Request</Label>
+                <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as RequestType })}>
+                  <SelectTrigger className="mt-1" data-testid="select-privacy-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="access">Access (copy of records)</SelectItem>
+                    <SelectItem value="correction">Correction</SelectItem>
+                    <SelectItem value="erasure">Erasure</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="privacy-received">Received</Label>
+                <Input id="privacy-received" type="date" className="mt-1" value={form.receivedAt} onChange={(e) => setForm({ ...form, receivedAt: e.target.value })} data-testid="input-privacy-received" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Input placeholder="Requester name (if not the patient)" value={form.requesterName} onChange={(e) => setForm({ ...form, requesterName: e.target.value })} data-testid="input-privacy-requester-name" />
+              <Input placeholder="Requester email" type="email" value={form.requesterEmail} onChange={(e) => setForm({ ...form, requesterEmail: e.target.value })} data-testid="input-privacy-requester-email" />
+            </div>
+            <Textarea placeholder="What the patient asked for" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} data-testid="input-privacy-description" />
+            {form.type === 'correction' && (
+              <div className="space-y-2">
+                <Label>Corrected values (leave blank to keep)</Label>
+                {correctionFields.map(field => (
+                  <Input
+                    key={field.key}
+                    type={'type' in field ? field.type : 'text'}
+                    placeholder={field.label}
+                    value={form.corrections[field.key] ?? ""}
+                    onChange={(e) => setForm({ ...form, corrections: { ...form.corrections, [field.key]: e.target.value } })}
+                    data-testid={`input-correction-${field.key}`}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button disabled={!form.patientId || createMutation.isPending} onClick={() => createMutation.mutate()} data-testid="button-save-privacy-request">
+              {createMutation.isPending ? "Saving..." : "Log Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!reasonAction} onOpenChange={(open) => !open && setReasonAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reasonAction?.kind === 'extend' ? 'Extend Deadline' : 'Refuse Request'}</DialogTitle>
+            <DialogDescription>
+              {reasonAction?.kind === 'extend'
+                ? 'PIPEDA allows one extension of up to 30 days; the patient must be told why. Quebec organizations cannot extend.'
+                : 'The patient must be told why their request was refused and how to complain.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason" data-testid="input-privacy-reason" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReasonAction(null)}>Cancel</Button>
+            <Button
+              disabled={!reason.trim() || extendMutation.isPending || updateMutation.isPending}
+              onClick={submitReason}
+              data-testid="button-confirm-privacy-reason"
+            >
+              {reasonAction?.kind === 'extend' ? 'Extend' : 'Refuse'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!erasurePlan} onOpenChange={(open) => !open && setErasurePlan(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Erase {erasurePlan?.request.patientName ?? 'Patient'}</DialogTitle>
+            <DialogDescription>
+              Records the retention rules still require are kept. Everything else is anonymized or deleted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {erasurePlan && (
+            <div className="space-y-2 text-sm">
+              <p>{summarizeOutcome(erasurePlan.outcome) || 'Nothing to erase'}</p>
+              {erasurePlan.outcome.filter(item => item.action === 'retained').map(item => (
+                <p key={`${item.resourceType}-${item.resourceId}`} className="text-xs text-slate-600">
+                  Kept {item.resourceType.replace(/_/g, ' ')} {item.resourceId.slice(0, 8)}: {item.reason}
+                </p>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setErasurePlan(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={eraseMutation.isPending}
+              onClick={() => erasurePlan && eraseMutation.mutate({ request: erasurePlan.request, dryRun: false })}
+              data-testid="button-confirm-erasure"
+            >
+              {eraseMutation.isPending ? "Erasing..." : "Erase"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
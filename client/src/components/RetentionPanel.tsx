@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+
+interface RetentionRun {
+  id: string;
+  triggeredBy: string | null;
+  dryRun: boolean;
+  cutoff: string;
+  status: 'completed' | 'failed';
+  counts: Record<string, number>;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface RetentionSettings {
+  dataRetentionDays: number | null;
+  minimizeLogging: boolean | null;
+  cutoff: string | null;
+  runs: RetentionRun[];
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// "claim.anonymized" -> "claim anonymized"
+const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts).map(([key, count]) => `${count} ${key.replace(/[._]/g, ' ')}`).join(', ') || 'Nothing past retention';
+
+/**
+ * Data retention for the Admin page: the retention period, a preview or
+ * immediate purge, and past runs with their downloadable purge reports
+ */
+export function RetentionPanel({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState("");
+  const [minimizeLogging, setMinimizeLogging] = useState(false);
+
+  const { data: settings, isLoading } = useQuery<RetentionSettings>({
+    queryKey: ["/api/admin/retention"],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDays(settings.dataRetentionDays === null ? "" : String(settings.dataRetentionDays));
+      setMinimizeLogging(!!settings.minimizeLogging);
+    }
+  }, [settings]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/retention", "PUT", {
+        dataRetentionDays: Number(days),
+        minimizeLogging,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Retention policy saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to save retention policy"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("/api/admin/retention/run", "POST", { dryRun });
+      return response.json() as Promise<RetentionRun>;
+    },
+    onSuccess: (run) => {
+      toast({ title: run.dryRun ? "Preview ready" : "Purge complete", description: formatCounts(run.counts) });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to run retention"),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (run: RetentionRun) => {
+      const response = await apiRequest(`/api/admin/retention/runs/${run.id}/report`, "GET");
+      return { run, body: await response.blob() };
+    },
+    onSuccess: ({ run, body }) => {
+      const url = URL.createObjectURL(body);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `purge-report-${run.startedAt.slice(0, 10)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => onError(error as Error, "Failed to download purge report"),
+  });
+
+  const runs = settings?.runs ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <div className="mb-6">
+            <h3 className="text-lg leading-6 font-medium text-slate-900">Data Retention</h3>
+            <p className="mt-1 text-sm text-slate-500">
+              Claims untouched for longer than the retention period are anonymized and their attachments deleted; older EDI transactions,
+              remittances and audit events are removed. Claims on legal hold are kept. Purges run daily.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="text-sm text-slate-500">Loading retention policy...</div>
+          ) : (
+            <div className="space-y-4 max-w-md">
+              <div>
+                <Label htmlFor="retention-days">Retention period (days)</Label>
+                <Input
+                  id="retention-days"
+                  type="number"
+                  min={90}
+                  max={36500}
+                  className="mt-1"
+                  placeholder="Keep indefinitely"
+                  value={days}
+                  onChange={(e) => setDays(e.target.value)}
+                  data-testid="input-retention-days"
+                />
+                {settings?.cutoff && (
+                  <p className="mt-1 text-xs text-slate-500">Records last changed before {formatDate(settings.cutoff)} are past retention.</p>
+                )}
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="minimize-logging">Minimize logging</Label>
+                  <p className="text-xs text-slate-500">Clear EDI request and response payloads after 90 days</p>
+                </div>
+                <Switch id="minimize-logging" checked={minimizeLogging} onCheckedChange={setMinimizeLogging} data-testid="switch-minimize-logging" />
+              </div>
+              <div className="flex gap-3">
+                <Button
+                  disabled={!days.trim() || savePolicyMutation.isPending}
+                  onClick={() => savePolicyMutation.mutate()}
+                  data-testid="button-save-retention"
+                >
+                  {savePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={!settings?.cutoff || runMutation.isPending}
+                  onClick={() => runMutation.mutate(true)}
+                  data-testid="button-preview-retention"
+                >
+                  Preview
+                </Button>
+                <Button
+                  variant="destructive"
+                  disabled={!settings?.cutoff || runMutation.isPending}
+                  onClick={() => {
+                    if (confirm("Purge everything past the retention period now? This cannot be undone.")) {
+                      runMutation.mutate(false);
+                    }
+                  }}
+                  data-testid="button-run-retention"
+                >
+                  {runMutation.isPending ? "Running..." : "Purge Now"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-6">
+          <h3 className="text-lg leading-6 font-medium text-slate-900 mb-4">Purge Runs</h3>
+          {runs.length === 0 ? (
+            <p className="text-sm text-slate-500">No retention runs yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {runs.map((run) => (
+                <div key={run.id} className="flex items-start justify-between p-4 bg-slate-50 rounded-lg" data-testid={`retention-run-${run.id}`}>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900">
+                      {formatDate(run.startedAt)}
+                      {run.dryRun && <Badge className="ml-2 bg-blue-100 text-blue-800">Preview</Badge>}
+                      {run.status === 'failed' && <Badge className="ml-2 bg-red-100 text-red-800">Failed</Badge>}
+                      {!run.triggeredBy && <Badge className="ml-2 bg-gray-100 text-gray-800">Scheduled</Badge>}
+                    </p>
+                    <p className="text-sm text-slate-600 mt-1">{formatCounts(run.counts)}</p>
+                    {run.error && <p className="text-xs text-red-600 mt-1">{run.error}</p>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={downloadMutation.isPending}
+                    onClick={() => downloadMutation.mutate(run)}
+                    data-testid={`button-download-report-${run.id}`}
+                  >
+                    <i className="fas fa-download mr-2"></i>
+                    Report
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PERMISSIONS, PERMISSION_KEYS, type Permission } from "@shared/permissions";
+
+export interface RoleSummary {
+  id: string | null;
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  builtIn: boolean;
+  userCount: number;
+}
+
+interface RoleForm {
+  key: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const emptyForm: RoleForm = { key: "", name: "", description: "", permissions: [] };
+
+// Group the catalogue by area: "claims:read:own" -> "claims"
+const permissionGroups = PERMISSION_KEYS.reduce<Record<string, Permission[]>>((groups, permission) => {
+  const area = permission.split(":")[0];
+  (groups[area] ??= []).push(permission);
+  return groups;
+}, {});
+
+const toKey = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, "-").replace(/^[^a-z]+|-+$/g, "").slice(0, 50);
+
+/**
+ * Role editor for the Admin page: built-in roles are read-only, custom
+ * roles can be created, edited and deleted once no user holds them
+ */
+export function RoleEditor({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<RoleSummary | null>(null);
+  const [viewOnly, setViewOnly] = useState(false);
+  const [form, setForm] = useState<RoleForm>(emptyForm);
+  const [keyEdited, setKeyEdited] = useState(false);
+
+  const { data: roles = [], isLoading } = useQuery<RoleSummary[]>({
+    queryKey: ["/api/admin/roles"],
+    retry: false,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+  };
+
+  const saveRoleMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        permissions: form.permissions,
+      };
+      const response = editing
+        ? await apiRequest(`/api/admin/roles/${editing.id}`, "PATCH", payload)
+        : await apiRequest("/api/admin/roles", "POST", { ...payload, key: form.key });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: editing ? "Role updated" : "Role created", description: form.name });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+      closeDialog();
+    },
+    onError: (error) => onError(
+      error as Error,
+      (error as Error).message.startsWith("409") ? `A role with the key "${form.key}" already exists` : "Failed to save role"
+    ),
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/admin/roles/${id}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Role deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+    },
+    onError: (error) => onError(
+      error as Error,
+      (error as Error).message.startsWith("409") ? "Reassign the users with this role before deleting it" : "Failed to delete role"
+    ),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setViewOnly(false);
+    setForm(emptyForm);
+    setKeyEdited(false);
+    setDialogOpen(true);
+  };
+
+  const openRole = (role: RoleSummary) => {
+    setEditing(role);
+    setViewOnly(role.builtIn);
+    setForm({ key: role.key, name: role.name, description: role.description || "", permissions: role.permissions });
+    setDialogOpen(true);
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setForm(current => ({
+      ...current,
+      permissions: checked
+        ? PERMISSION_KEYS.filter(key => key === permission || current.permissions.includes(key))
+        : current.permissions.filter(key => key !== permission),
+    }));
+  };
+
+  const canSave = form.name.trim() && form.key && form.permissions.length > 0;
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-slate-900">Roles</h3>
+            <p className="mt-1 text-sm text-slate-500">Built-in roles and custom roles for your organization</p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <Button onClick={openCreate} data-testid="button-new-role">
+              <i className="fas fa-plus mr-2"></i>
+              New Role
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-slate-500">Loading roles...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Role</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Permissions</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Users</th>
+                  <th className="relative px-6 py-3">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-200">
+                {roles.map((role) => (
+                  <tr key={role.key} data-testid={`role-row-${role.key}`}>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-slate-900">
+                        {role.name}
+                        {role.builtIn && <Badge className="ml-2 bg-gray-100 text-gray-800">Built-in</Badge>}
+                      </div>
+                      <div className="text-sm text-slate-500">{role.description || role.key}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                      {role.permissions.length} of {PERMISSION_KEYS.length}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{role.userCount}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => openRole(role)} data-testid={`button-edit-role-${role.key}`}>
+                        {role.builtIn ? "View" : "Edit"}
+                      </Button>
+                      {!role.builtIn && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteRoleMutation.isPending || role.userCount > 0}
+                          onClick={() => role.id && deleteRoleMutation.mutate(role.id)}
+                          data-testid={`button-delete-role-${role.key}`}
+                        >
+                          Delete
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{viewOnly ? form.name : editing ? "Edit Role" : "New Role"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    className="mt-1"
+                    value={form.name}
+                    disabled={viewOnly}
+                    onChange={(e) => {
+                      const name = e.target.value;
+                      setForm(current => ({ ...current, name, key: editing || keyEdited ? current.key : toKey(name) }));
+                    }}
+                    data-testid="input-role-name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="role-key">Key</Label>
+                  <Input
+                    id="role-key"
+                    className="mt-1"
+                    value={form.key}
+                    disabled={!!editing}
+                    onChange={(e) => {
+                      setKeyEdited(true);
+                      setForm(current => ({ ...current, key: e.target.value.toLowerCase() }));
+                    }}
+                    data-testid="input-role-key"
+                  />
+                </div>
+                <div className="sm:col-span-2">
+                  <Label htmlFor="role-description">Description</Label>
+                  <Textarea
+                    id="role-description"
+                    className="mt-1"
+                    rows={2}
+                    value={form.description}
+                    disabled={viewOnly}
+                    onChange={(e) => setForm(current => ({ ...current, description: e.target.value }))}
+                    data-testid="input-role-description"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {Object.entries(permissionGroups).map(([area, permissions]) => (
+                  <div key={area}>
+                    <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">{area}</h4>
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      {permissions.map((permission) => (
+                        <label key={permission} className="flex items-start space-x-2 text-sm">
+                          <Checkbox
+                            checked={form.permissions.includes(permission)}
+                            disabled={viewOnly}
+                            onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                            data-testid={`checkbox-permission-${permission}`}
+                          />
+                          <span>
+                            <span className="font-mono text-xs text-slate-700">{permission}</span>
+                            <span className="block text-slate-500">{PERMISSIONS[permission]}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={closeDialog}>{viewOnly ? "Close" : "Cancel"}</Button>
+                {!viewOnly && (
+                  <Button
+                    disabled={!canSave || saveRoleMutation.isPending}
+                    onClick={() => saveRoleMutation.mutate()}
+                    data-testid="button-save-role"
+                  >
+                    {saveRoleMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,31 +1,34 @@
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent } from "@/components/ui/card";
 import { Lock, AlertTriangle } from "lucide-react";
+import type { Permission } from "@shared/permissions";
 
 interface RoleGuardProps {
-  allowedRoles: string[];
+  permissions: Permission[];
   children: React.ReactNode;
   fallback?: React.ReactNode;
-  requireAll?: boolean; // If true, user must have ALL roles; if false, user needs ANY role
+  requireAll?: boolean; // If true, user must have ALL permissions; if false, user needs ANY of them
 }
 
 /**
- * RoleGuard - Protects components and routes based on user roles
+ * RoleGuard - Protects components and routes based on the permissions
+ * granted by the user's role
  * 
  * Features:
- * - Role-based access control (RBAC)
- * - Support for multiple role requirements
+ * - Permission checks matching the server's requirePermission middleware
+ * - Built-in and per-organization custom roles
  * - Customizable fallback content
  * - Loading state handling
  * - Accessible error states
  */
 export function RoleGuard({ 
-  allowedRoles, 
+  permissions, 
   children, 
   fallback,
   requireAll = false 
 }: RoleGuardProps) {
   const { user, isLoading, isAuthenticated } = useAuth();
+  const { hasAllPermissions, hasAnyPermission } = usePermissions();
 
   // Show loading state while checking authentication
   if (isLoading) {
@@ -68,13 +71,10 @@ export function RoleGuard({
     );
   }
 
-  // Check role permissions
-  const userRole = user.role;
-  const hasPermission = requireAll 
-    ? allowedRoles.every(role => userRole === role || (userRole === 'admin' && role !== 'admin'))
-    : allowedRoles.some(role => userRole === role || userRole === 'admin');
+  // Check permissions granted by the user's role
+  const hasPermission = requireAll ? hasAllPermissions(permissions) : hasAnyPermission(permissions);
 
-  // Show access denied if user doesn't have required roles
+  // Show access denied if user doesn't have the required permissions
   if (!hasPermission) {
     if (fallback) {
       return <>{fallback}</>;
@@ -91,8 +91,8 @@ export function RoleGuard({
             You don't have permission to access this content.
           </p>
           <div className="text-sm text-slate-500">
-            <p>Required role{allowedRoles.length > 1 ? 's' : ''}: {allowedRoles.join(', ')}</p>
-            <p>Your role: {userRole}</p>
+            <p>Required permission{permissions.length > 1 ? 's' : ''}: {permissions.join(', ')}</p>
+            <p>Your role: {user.role}</p>
           </div>
         </CardContent>
       </Card>
@@ -104,87 +104,41 @@ export function RoleGuard({
 }
 
 /**
- * Hook for checking role permissions
+ * Hook for checking the permissions granted by the user's role
  */
-export function useRoleCheck() {
+export function usePermissions() {
   const { user, isAuthenticated } = useAuth();
+  const granted: string[] = isAuthenticated && Array.isArray(user?.permissions) ? user.permissions : [];
 
-  const hasRole = (role: string): boolean => {
-    if (!isAuthenticated || !user) return false;
-    return user.role === role || user.role === 'admin';
-  };
-
-  const hasAnyRole = (roles: string[]): boolean => {
-    if (!isAuthenticated || !user) return false;
-    return roles.some(role => hasRole(role));
-  };
+  const hasPermission = (permission: Permission): boolean => granted.includes(permission);
 
-  const hasAllRoles = (roles: string[]): boolean => {
-    if (!isAuthenticated || !user) return false;
-    return roles.every(role => hasRole(role));
-  };
+  const hasAnyPermission = (permissions: Permission[]): boolean =>
+    permissions.some(permission => hasPermission(permission));
 
-  const isProvider = (): boolean => hasRole('provider');
-  const isBilling = (): boolean => hasRole('billing');
-  const isAdmin = (): boolean => hasRole('admin');
+  const hasAllPermissions = (permissions: Permission[]): boolean =>
+    permissions.every(permission => hasPermission(permission));
 
   return {
-    hasRole,
-    hasAnyRole,
-    hasAllRoles,
-    isProvider,
-    isBilling,
-    isAdmin,
+    hasPermission,
+    hasAnyPermission,
+    hasAllPermissions,
     userRole: user?.role,
   };
 }
 
 /**
- * Component variants for common role patterns
- */
-export const ProviderOnly = ({ children, fallback }: { children: React.ReactNode; fallback?: React.ReactNode }) => (
-  <RoleGuard allowedRoles={['provider']} fallback={fallback}>
-    {children}
-  </RoleGuard>
-);
-
-export const BillingOnly = ({ children, fallback }: { children: React.ReactNode; fallback?: React.ReactNode }) => (
-  <RoleGuard allowedRoles={['billing']} fallback={fallback}>
-    {children}
-  </RoleGuard>
-);
-
-export const AdminOnly = ({ children, fallback }: { children: React.ReactNode; fallback?: React.ReactNode }) => (
-  <RoleGuard allowedRoles={['admin']} fallback={fallback}>
-    {children}
-  </RoleGuard>
-);
-
-export const BillingOrAdmin = ({ children, fallback }: { children: React.ReactNode; fallback?: React.ReactNode }) => (
-  <RoleGuard allowedRoles={['billing', 'admin']} fallback={fallback}>
-    {children}
-  </RoleGuard>
-);
-
-export const ProviderOrBilling = ({ children, fallback }: { children: React.ReactNode; fallback?: React.ReactNode }) => (
-  <RoleGuard allowedRoles={['provider', 'billing']} fallback={fallback}>
-    {children}
-  </RoleGuard>
-);
-
-/**
- * Higher-order component for role-based route protection
+ * Higher-order component for permission-based route protection
  */
 export function withRoleGuard<P extends object>(
   Component: React.ComponentType<P>, 
-  allowedRoles: string[],
+  permissions: Permission[],
   requireAll = false
 ) {
   return function GuardedComponent(props: P) {
     return (
-      <RoleGuard allowedRoles={allowedRoles} requireAll={requireAll}>
+      <RoleGuard permissions={permissions} requireAll={requireAll}>
         <Component {...props} />
       </RoleGuard>
     );
   };
-}
\ No newline at end of file
+}
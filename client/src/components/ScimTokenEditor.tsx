@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface ScimTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const formatDate = (dateString: string | null) =>
+  dateString ? new Date(dateString).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' }) : 'Never';
+
+/**
+ * SCIM provisioning settings for the Admin page: bearer tokens a directory
+ * uses to create and deactivate staff accounts. A new token is shown once.
+ */
+export function ScimTokenEditor({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+  const scimUrl = `${window.location.origin}/scim/v2`;
+
+  const { data: tokens = [], isLoading } = useQuery<ScimTokenSummary[]>({
+    queryKey: ["/api/admin/scim-tokens"],
+    retry: false,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setIssuedToken(null);
+    setName("");
+  };
+
+  const createTokenMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/scim-tokens", "POST", { name: name.trim() });
+      return response.json() as Promise<ScimTokenSummary & { token: string }>;
+    },
+    onSuccess: (created) => {
+      setIssuedToken(created.token);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scim-tokens"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to create token"),
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/admin/scim-tokens/${id}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Token revoked" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scim-tokens"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to revoke token"),
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-slate-900">Directory Provisioning</h3>
+            <p className="mt-1 text-sm text-slate-500">
+              Create and deactivate staff accounts from your directory over SCIM 2.0 at <span className="font-mono">{scimUrl}</span>
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <Button onClick={() => setDialogOpen(true)} data-testid="button-new-scim-token">
+              <i className="fas fa-plus mr-2"></i>
+              New Token
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-slate-500">Loading tokens...</div>
+        ) : tokens.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <i className="fas fa-sitemap text-4xl mb-4 text-slate-300"></i>
+            <p className="text-lg font-medium">No provisioning tokens</p>
+            <p className="text-sm">Create a token and enter it in Azure AD, Okta or another SCIM client</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Token</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Created</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Last Used</th>
+                  <th className="relative px-6 py-3">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-200">
+                {tokens.map((token) => (
+                  <tr key={token.id} data-testid={`scim-token-row-${token.id}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{token.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-500">{token.tokenPrefix}…</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{formatDate(token.createdAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{formatDate(token.lastUsedAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={revokeTokenMutation.isPending}
+                        onClick={() => revokeTokenMutation.mutate(token.id)}
+                        data-testid={`button-revoke-scim-token-${token.id}`}
+                      >
+                        Revoke
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{issuedToken ? "Copy Your Token" : "New Provisioning Token"}</DialogTitle>
+            </DialogHeader>
+            {issuedToken ? (
+              <div className="space-y-4">
+                <p className="text-sm text-slate-600">
+                  This token will not be shown again. Enter it as the secret token in your directory, with the tenant URL below.
+                </p>
+                <div>
+                  <Label>Tenant URL</Label>
+                  <Input className="mt-1 font-mono text-xs" readOnly value={scimUrl} />
+                </div>
+                <div>
+                  <Label>Secret token</Label>
+                  <Input className="mt-1 font-mono text-xs" readOnly value={issuedToken} onFocus={(e) => e.target.select()} data-testid="input-issued-scim-token" />
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={closeDialog}>Done</Button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="scim-token-name">Name</Label>
+                  <Input
+                    id="scim-token-name"
+                    className="mt-1"
+                    placeholder="Azure AD"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    data-testid="input-scim-token-name"
+                  />
+                </div>
+                <div className="flex justify-end gap-3">
+                  <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                  <Button
+                    disabled={!name.trim() || createTokenMutation.isPending}
+                    onClick={() => createTokenMutation.mutate()}
+                    data-testid="button-create-scim-token"
+                  >
+                    {createTokenMutation.isPending ? "Creating..." : "Create Token"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Monitor } from 'lucide-react';
+
+export interface SessionSummary {
+  id: string;
+  current: boolean;
+  device: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastActivityAt: string | null;
+  expiresAt: string;
+  mfaVerified: boolean;
+}
+
+const formatSessionDate = (dateString: string | null) =>
+  dateString ? new Date(dateString).toLocaleString('en-CA', { dateStyle: 'medium', timeStyle: 'short' }) : 'Unknown';
+
+/**
+ * Where an account is signed in. Without a userId it lists the signed-in
+ * user's own sessions; with one it uses the admin endpoints for that user.
+ */
+export function SessionList({ userId }: { userId?: string }) {
+  const { toast } = useToast();
+  const baseUrl = userId ? `/api/admin/users/${userId}/sessions` : '/api/auth/sessions';
+
+  const { data: sessions = [], isLoading } = useQuery<SessionSummary[]>({
+    queryKey: [baseUrl],
+    retry: false,
+  });
+  const others = sessions.filter((session) => !session.current);
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Sign Out Failed',
+      description: error.message || 'Failed to end session',
+      variant: 'destructive',
+    });
+  };
+
+  const endSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`${baseUrl}/${id}`, 'DELETE');
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Session Ended' });
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+    },
+    onError,
+  });
+
+  const endAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(baseUrl, 'DELETE');
+      return response.json() as Promise<{ sessionsEnded: number }>;
+    },
+    onSuccess: ({ sessionsEnded }) => {
+      toast({ title: 'Signed Out', description: `${sessionsEnded} session${sessionsEnded === 1 ? '' : 's'} ended.` });
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="w-full" data-testid="card-sessions">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          {userId ? 'Sessions' : 'Where You’re Signed In'}
+        </CardTitle>
+        <CardDescription>
+          Devices with an active session. Ending a session signs that device out on its next request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center justify-between p-3" data-testid={`session-row-${session.id}`}>
+                <div>
+                  <p className="text-sm font-medium">
+                    {session.device}
+                    {session.current && <Badge className="ml-2 bg-green-100 text-green-800">This device</Badge>}
+                    {session.mfaVerified && <Badge className="ml-2 bg-blue-100 text-blue-800">MFA verified</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ip || 'Unknown IP'} · Signed in {formatSessionDate(session.createdAt)} · Last active {formatSessionDate(session.lastActivityAt)}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    disabled={endSessionMutation.isPending}
+                    onClick={() => endSessionMutation.mutate(session.id)}
+                    data-testid={`button-end-session-${session.id}`}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {others.length > 0 && (
+          <Button
+            variant="outline"
+            disabled={endAllMutation.isPending}
+            onClick={() => endAllMutation.mutate()}
+            data-testid="button-end-all-sessions"
+          >
+            {userId ? 'Sign Out Everywhere' : 'Sign Out Everywhere Else'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
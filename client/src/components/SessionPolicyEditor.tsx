@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SessionPolicy {
+  sessionIdleTimeoutMinutes: number | null;
+  sessionMaxLifetimeHours: number | null;
+}
+
+const toField = (value: number | null) => (value === null ? "" : String(value));
+const fromField = (value: string) => (value.trim() ? Number(value) : null);
+
+/**
+ * Session timeout settings for the Admin page. Blank fields leave that limit
+ * off; sessions past either limit are signed out on their next request.
+ */
+export function SessionPolicyEditor({ onError }: { onError: (error: Error, description: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [idle, setIdle] = useState("");
+  const [lifetime, setLifetime] = useState("");
+
+  const { data: policy, isLoading } = useQuery<SessionPolicy>({
+    queryKey: ["/api/admin/session-policy"],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setIdle(toField(policy.sessionIdleTimeoutMinutes));
+      setLifetime(toField(policy.sessionMaxLifetimeHours));
+    }
+  }, [policy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/session-policy", "PUT", {
+        sessionIdleTimeoutMinutes: fromField(idle),
+        sessionMaxLifetimeHours: fromField(lifetime),
+      });
+      return response.json() as Promise<SessionPolicy>;
+    },
+    onSuccess: () => {
+      toast({ title: "Session timeouts saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/session-policy"] });
+    },
+    onError: (error) => onError(error as Error, "Failed to save session timeouts"),
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="mb-6">
+          <h3 className="text-lg leading-6 font-medium text-slate-900">Session Timeouts</h3>
+          <p className="mt-1 text-sm text-slate-500">
+            Sign staff out after a period of inactivity, or a fixed time after they sign in. Leave a field blank for no limit.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-slate-500">Loading session timeouts...</div>
+        ) : (
+          <div className="space-y-4 max-w-md">
+            <div>
+              <Label htmlFor="session-idle-timeout">Idle timeout (minutes)</Label>
+              <Input
+                id="session-idle-timeout"
+                type="number"
+                min={5}
+                max={1440}
+                className="mt-1"
+                placeholder="No limit"
+                value={idle}
+                onChange={(e) => setIdle(e.target.value)}
+                data-testid="input-session-idle-timeout"
+              />
+            </div>
+            <div>
+              <Label htmlFor="session-max-lifetime">Maximum session length (hours)</Label>
+              <Input
+                id="session-max-lifetime"
+                type="number"
+                min={1}
+                max={720}
+                className="mt-1"
+                placeholder="No limit"
+                value={lifetime}
+                onChange={(e) => setLifetime(e.target.value)}
+                data-testid="input-session-max-lifetime"
+              />
+            </div>
+            <Button
+              disabled={savePolicyMutation.isPending}
+              onClick={() => savePolicyMutation.mutate()}
+              data-testid="button-save-session-policy"
+            >
+              {savePolicyMutation.isPending ? "Saving..." : "Save Timeouts"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/components/RoleGuard";
+import type { Permission } from "@shared/permissions";
 import { cn } from "@/lib/utils";
 
 interface SidebarProps {
@@ -9,15 +11,26 @@ interface SidebarProps {
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: 'fas fa-chart-line' },
+  { name: 'Work Queue', href: '/work-queue', icon: 'fas fa-tasks' },
   { name: 'Claims', href: '/claims', icon: 'fas fa-file-medical' },
   { name: 'Pre-Authorizations', href: '/preauths/new', icon: 'fas fa-check-circle' },
   { name: 'Remittances', href: '/remittances', icon: 'fas fa-receipt' },
+  { name: 'Appointments', href: '/appointments', icon: 'fas fa-calendar-alt' },
+  { name: 'Patients', href: '/patients', icon: 'fas fa-user-injured' },
+  { name: 'Providers', href: '/providers', icon: 'fas fa-user-md' },
   { name: 'Settings', href: '/settings', icon: 'fas fa-cog' },
 ];
 
-const adminNavigation = [
-  { name: 'Users & Roles', href: '/admin', icon: 'fas fa-users' },
-  { name: 'Audit Log', href: '/admin?tab=audit', icon: 'fas fa-history' },
+const adminNavigation: Array<{ name: string; href: string; icon: string; permissions: Permission[] }> = [
+  { name: 'Users & Roles', href: '/admin', icon: 'fas fa-users', permissions: ['users:manage', 'roles:manage'] },
+  { name: 'Single Sign-On', href: '/admin?tab=sso', icon: 'fas fa-key', permissions: ['sso:configure'] },
+  { name: 'Provisioning', href: '/admin?tab=provisioning', icon: 'fas fa-sitemap', permissions: ['scim:manage'] },
+  { name: 'Sessions', href: '/admin?tab=sessions', icon: 'fas fa-desktop', permissions: ['sessions:manage'] },
+  { name: 'Privacy Requests', href: '/admin?tab=privacy', icon: 'fas fa-user-shield', permissions: ['privacy:manage'] },
+  { name: 'Retention', href: '/admin?tab=retention', icon: 'fas fa-archive', permissions: ['privacy:manage'] },
+  { name: 'Encryption', href: '/admin?tab=encryption', icon: 'fas fa-key', permissions: ['encryption:manage'] },
+  { name: 'Claim Rules', href: '/admin?tab=claim-rules', icon: 'fas fa-clipboard-check', permissions: ['claims:rules:manage'] },
+  { name: 'Audit Log', href: '/admin?tab=audit', icon: 'fas fa-history', permissions: ['audit:read'] },
 ];
 
 export default function Sidebar({ open, onClose }: SidebarProps) {
@@ -61,6 +74,9 @@ export default function Sidebar({ open, onClose }: SidebarProps) {
 }
 
 function SidebarContent({ isActive, user }: { isActive: (href: string) => boolean; user: any }) {
+  const { hasAnyPermission } = usePermissions();
+  const visibleAdminNavigation = adminNavigation.filter((item) => hasAnyPermission(item.permissions));
+
   return (
     <>
       <div className="flex items-center flex-shrink-0 px-4">
@@ -95,12 +111,12 @@ function SidebarContent({ isActive, user }: { isActive: (href: string) => boolea
             </Link>
           ))}
           
-          {user?.role === 'admin' && (
+          {visibleAdminNavigation.length > 0 && (
             <div className="pt-4 mt-4 border-t border-slate-200">
               <p className="px-2 text-xs font-semibold text-slate-400 uppercase tracking-wide">
                 Administration
               </p>
-              {adminNavigation.map((item) => (
+              {visibleAdminNavigation.map((item) => (
                 <Link
                   key={item.name}
                   href={item.href}
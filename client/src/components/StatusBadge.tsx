@@ -6,7 +6,8 @@ import {
   AlertCircle, 
   CheckCircle2, 
   XCircle,
-  BadgeCheck 
+  BadgeCheck,
+  Undo2
 } from "lucide-react";
 
 interface StatusBadgeProps {
@@ -52,6 +53,11 @@ export function StatusBadge({ status, className, showIcon = true, children }: St
           styles: "bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/30 dark:text-rose-300 dark:border-rose-800",
           icon: <XCircle className="w-3 h-3" />
         };
+      case "reversed":
+        return {
+          styles: "bg-zinc-100 text-zinc-700 border-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:border-zinc-700",
+          icon: <Undo2 className="w-3 h-3" />
+        };
       case "verified":
         return {
           styles: "bg-primary-100 text-primary-700 border-primary-200 dark:bg-primary-900/30 dark:text-primary-300 dark:border-primary-800",
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import OrgSwitcher from "@/components/OrgSwitcher";
 
 interface TopBarProps {
   onMenuClick: () => void;
@@ -45,6 +46,9 @@ export default function TopBar({ onMenuClick }: TopBarProps) {
         </div>
         
         <div className="ml-4 flex items-center md:ml-6">
+          {/* Organization switcher, for users with several memberships */}
+          <OrgSwitcher className="mr-3" />
+
           {/* Notifications */}
           <button
             className="bg-white p-1 rounded-full text-slate-400 hover:text-slate-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { BUILT_IN_ROLES } from "@shared/permissions";
 
 export function useAuth() {
   const isDev = import.meta.env.MODE === 'development';
@@ -26,6 +27,7 @@ export function useAuth() {
             firstName: 'Development',
             lastName: 'User',
             role: 'admin',
+            permissions: BUILT_IN_ROLES.admin.permissions,
             orgId: '11111111-1111-1111-1111-111111111111'
           };
         }
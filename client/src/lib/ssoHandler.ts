@@ -3,9 +3,19 @@ import { apiRequest } from "./queryClient";
 interface SSOResponse {
   ok: boolean;
   redirect?: string;
+  mfaRequired?: boolean;
+  tempToken?: string;
   error?: string;
 }
 
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  NOT_FOUND: 'Single sign-on is not set up for this organization.',
+  NOT_PROVISIONED: 'Your account has not been set up yet. Ask your administrator for access.',
+  CONFLICT: 'An account with your email belongs to another organization.',
+  INVALID_RESPONSE: 'Your identity provider sent an invalid response. Please try again.',
+  FAILED: 'Something went wrong while signing you in. Please try again.',
+};
+
 export async function handleSSOLogin(): Promise<boolean> {
   const urlParams = new URLSearchParams(window.location.search);
   const sso = urlParams.get('sso');
@@ -26,7 +36,12 @@ export async function handleSSOLogin(): Promise<boolean> {
 
       const data: SSOResponse = await response.json();
 
-      if (data.ok && data.redirect) {
+      if (data.ok && data.mfaRequired && data.tempToken) {
+        // The MFA challenge page finishes the sign-in
+        const params = new URLSearchParams({ mfa_token: data.tempToken, next: next || '/' });
+        window.location.href = `/?${params}`;
+        return true;
+      } else if (data.ok && data.redirect) {
         // Clean up URL parameters
         const newUrl = new URL(window.location.href);
         newUrl.searchParams.delete('sso');
@@ -56,16 +71,22 @@ export async function handleSSOLogin(): Promise<boolean> {
   return false;
 }
 
+/**
+ * Message for an organization sign-in that failed server-side, removing the
+ * error from the URL so it is only shown once
+ */
+export function getSSOError(): string | null {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('sso_error');
+  if (!code) {
+    return null;
+  }
+  url.searchParams.delete('sso_error');
+  window.history.replaceState({}, '', url.pathname + url.search);
+  return SSO_ERROR_MESSAGES[code] ?? SSO_ERROR_MESSAGES.FAILED;
+}
+
 export function extractAppointmentId(): string | null {
   const urlParams = new URLSearchParams(window.location.search);
   return urlParams.get('appointmentId');
 }
-
-export function prefillClaimFromAppointment(appointmentId: string) {
-  // This can be called by the NewClaim component to prefill form data
-  // Implementation would depend on your appointment data structure
-  return {
-    appointmentId,
-    // Add other prefill data as needed
-  };
-}
\ No newline at end of file
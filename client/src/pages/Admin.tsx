@@ -1,20 +1,61 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { usePermissions } from "@/components/RoleGuard";
+import { RoleEditor, type RoleSummary } from "@/components/RoleEditor";
+import { IdentityProviderEditor } from "@/components/IdentityProviderEditor";
+import { ScimTokenEditor } from "@/components/ScimTokenEditor";
+import { SessionPolicyEditor } from "@/components/SessionPolicyEditor";
+import { SessionList } from "@/components/SessionList";
+import { AuditLogViewer } from "@/components/AuditLogViewer";
+import { RetentionPanel } from "@/components/RetentionPanel";
+import { ClaimRulesPanel } from "@/components/ClaimRulesPanel";
+import { EncryptionKeysPanel } from "@/components/EncryptionKeysPanel";
+import { PrivacyRequestsPanel } from "@/components/PrivacyRequestsPanel";
+
+interface OrgUser {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+  mfaEnabled: boolean | null;
+  createdAt: string;
+  deactivatedAt: string | null; // set when the directory deprovisioned them
+  membershipId: string | null; // set for members whose home is another organization
+}
 
 export default function Admin() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { hasPermission, hasAnyPermission } = usePermissions();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canAccess = hasAnyPermission(['users:manage', 'roles:manage', 'audit:read', 'sso:configure', 'scim:manage', 'sessions:manage', 'privacy:manage', 'encryption:manage', 'claims:rules:manage']);
+  const canManageUsers = hasPermission('users:manage');
+  const canManageRoles = hasPermission('roles:manage');
+  const canReadAudit = hasPermission('audit:read');
+  const canConfigureSSO = hasPermission('sso:configure');
+  const canManageScim = hasPermission('scim:manage');
+  const canManageSessions = hasPermission('sessions:manage');
+  const canManagePrivacy = hasPermission('privacy:manage');
+  const canManageEncryption = hasPermission('encryption:manage');
+  const canManageClaimRules = hasPermission('claims:rules:manage');
   const [searchQuery, setSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState("all");
+  const [memberDialogOpen, setMemberDialogOpen] = useState(false);
+  const [memberForm, setMemberForm] = useState({ email: "", role: "billing" });
+  const [sessionsUser, setSessionsUser] = useState<OrgUser | null>(null);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -31,7 +72,7 @@ export default function Admin() {
   }, [isAuthenticated, isLoading, toast]);
 
   useEffect(() => {
-    if (!isLoading && isAuthenticated && user?.role !== 'admin') {
+    if (!isLoading && isAuthenticated && !canAccess) {
       toast({
         title: "Access Denied",
         description: "You don't have permission to access this page",
@@ -42,27 +83,94 @@ export default function Admin() {
       }, 1000);
       return;
     }
-  }, [isAuthenticated, isLoading, user, toast]);
+  }, [isAuthenticated, isLoading, canAccess, toast]);
+
+  const { data: orgUsers = [], isLoading: usersLoading } = useQuery<OrgUser[]>({
+    queryKey: ["/api/admin/users"],
+    retry: false,
+    enabled: canManageUsers,
+  });
 
-  const { data: auditEvents, isLoading: auditLoading, error: auditError } = useQuery({
-    queryKey: ["/api/admin/audit"],
+  const { data: roles = [] } = useQuery<RoleSummary[]>({
+    queryKey: ["/api/admin/roles"],
     retry: false,
-    enabled: user?.role === 'admin',
+    enabled: canManageUsers || canManageRoles,
   });
 
-  if (auditError && isUnauthorizedError(auditError as Error)) {
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // Self-lockout guards explain themselves; validation errors fall back to the caller's description
+    const message = /^400: /.test(error.message) ? JSON.parse(error.message.slice(5)).message : undefined;
     toast({
-      title: "Unauthorized",
-      description: "You are logged out. Logging in again...",
+      title: "Error",
+      description: message && message !== "Validation error" ? message : description,
       variant: "destructive",
     });
-    setTimeout(() => {
-      window.location.href = "/api/login";
-    }, 500);
-    return null;
-  }
+  };
 
-  if (!isAuthenticated || user?.role !== 'admin') {
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: string }) => {
+      const response = await apiRequest(`/api/admin/users/${id}/role`, "PATCH", { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Role updated" });
+      refreshUsers();
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to change role"),
+  });
+
+  const refreshUsers = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+  };
+
+  // Members are users from other organizations, e.g. billing agency staff
+  const addMemberMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/members", "POST", memberForm);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Member added", description: memberForm.email });
+      setMemberDialogOpen(false);
+      setMemberForm({ email: "", role: "billing" });
+      refreshUsers();
+    },
+    onError: (error) => {
+      const message = (error as Error).message;
+      handleMutationError(
+        error as Error,
+        message.startsWith("404") ? "No user with this email address; they need to sign in once first"
+          : message.startsWith("409") ? "This user already belongs to your organization"
+          : "Failed to add member"
+      );
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest(`/api/admin/members/${userId}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Member removed" });
+      refreshUsers();
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to remove member"),
+  });
+
+  if (!isAuthenticated || !canAccess) {
     return (
       <div className="py-6">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
@@ -70,7 +178,7 @@ export default function Admin() {
             <CardContent className="p-8 text-center">
               <i className="fas fa-lock text-4xl text-red-500 mb-4"></i>
               <h3 className="text-lg font-medium text-slate-900 mb-2">Access Restricted</h3>
-              <p className="text-slate-500">Only administrators can access this page.</p>
+              <p className="text-slate-500">You don't have permission to manage users, roles or the audit log.</p>
             </CardContent>
           </Card>
         </div>
@@ -88,58 +196,18 @@ export default function Admin() {
     });
   };
 
-  const getEventTypeIcon = (type: string) => {
-    switch (type) {
-      case 'claim_created': return 'fas fa-plus-circle text-green-600';
-      case 'claim_updated': return 'fas fa-edit text-blue-600';
-      case 'claim_submitted': return 'fas fa-paper-plane text-purple-600';
-      case 'attachment_created': return 'fas fa-paperclip text-orange-600';
-      case 'remittance_uploaded': return 'fas fa-upload text-indigo-600';
-      default: return 'fas fa-info-circle text-slate-600';
-    }
-  };
+  const roleName = (key: string) => roles.find(role => role.key === key)?.name ?? key;
 
-  const getEventTypeLabel = (type: string) => {
-    return type.split('_').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ');
-  };
+  const displayName = (userData: OrgUser) =>
+    [userData.firstName, userData.lastName].filter(Boolean).join(' ') || userData.email || userData.id;
 
-  // Mock user data for demonstration
-  const mockUsers = [
-    {
-      id: '1',
-      name: 'Dr. Jane Doe',
-      email: 'jane.doe@clinic.com',
-      role: 'provider',
-      status: 'active',
-      lastActive: '2024-01-15T10:30:00Z',
-      initials: 'JD',
-    },
-    {
-      id: '2',
-      name: 'Maria Brown',
-      email: 'maria.brown@clinic.com',
-      role: 'billing',
-      status: 'active',
-      lastActive: '2024-01-14T15:45:00Z',
-      initials: 'MB',
-    },
-    {
-      id: '3',
-      name: 'Admin Smith',
-      email: 'admin@clinic.com',
-      role: 'admin',
-      status: 'active',
-      lastActive: '2024-01-15T09:15:00Z',
-      initials: 'AS',
-    },
-  ];
+  const initials = (userData: OrgUser) =>
+    displayName(userData).split(/\s+/).map(part => part.charAt(0).toUpperCase()).slice(0, 2).join('');
 
-  const filteredUsers = mockUsers.filter(user => {
-    const matchesSearch = user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         user.email.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesRole = roleFilter === 'all' || user.role === roleFilter;
+  const filteredUsers = orgUsers.filter(userData => {
+    const matchesSearch = displayName(userData).toLowerCase().includes(searchQuery.toLowerCase()) ||
+                         (userData.email || '').toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesRole = roleFilter === 'all' || userData.role === roleFilter;
     return matchesSearch && matchesRole;
   });
 
@@ -163,23 +231,33 @@ export default function Admin() {
             </h2>
             <p className="mt-1 text-sm text-slate-500">Manage users, roles, and view system audit logs</p>
           </div>
-          <div className="mt-4 flex md:mt-0 md:ml-4">
-            <Button data-testid="button-invite-user">
-              <i className="fas fa-user-plus mr-2"></i>
-              Invite User
-            </Button>
-          </div>
+          {canManageUsers && (
+            <div className="mt-4 flex md:mt-0 md:ml-4">
+              <Button onClick={() => setMemberDialogOpen(true)} data-testid="button-add-member">
+                <i className="fas fa-user-plus mr-2"></i>
+                Add Member
+              </Button>
+            </div>
+          )}
         </div>
 
-        <Tabs defaultValue="users" className="space-y-6">
+        <Tabs defaultValue={canManageUsers ? "users" : canManageRoles ? "roles" : canConfigureSSO ? "sso" : canManageScim ? "provisioning" : canManageSessions ? "sessions" : canManagePrivacy ? "privacy" : canManageEncryption ? "encryption" : canManageClaimRules ? "claim-rules" : "audit"} className="space-y-6">
           <TabsList>
-            <TabsTrigger value="users" data-testid="tab-users">Users & Roles</TabsTrigger>
-            <TabsTrigger value="audit" data-testid="tab-audit">Audit Log</TabsTrigger>
+            {canManageUsers && <TabsTrigger value="users" data-testid="tab-users">Users</TabsTrigger>}
+            {canManageRoles && <TabsTrigger value="roles" data-testid="tab-roles">Roles</TabsTrigger>}
+            {canConfigureSSO && <TabsTrigger value="sso" data-testid="tab-sso">Single Sign-On</TabsTrigger>}
+            {canManageScim && <TabsTrigger value="provisioning" data-testid="tab-provisioning">Provisioning</TabsTrigger>}
+            {canManageSessions && <TabsTrigger value="sessions" data-testid="tab-sessions">Sessions</TabsTrigger>}
+            {canManagePrivacy && <TabsTrigger value="privacy" data-testid="tab-privacy">Privacy Requests</TabsTrigger>}
+            {canManagePrivacy && <TabsTrigger value="retention" data-testid="tab-retention">Retention</TabsTrigger>}
+            {canManageEncryption && <TabsTrigger value="encryption" data-testid="tab-encryption">Encryption</TabsTrigger>}
+            {canManageClaimRules && <TabsTrigger value="claim-rules" data-testid="tab-claim-rules">Claim Rules</TabsTrigger>}
+            {canReadAudit && <TabsTrigger value="audit" data-testid="tab-audit">Audit Log</TabsTrigger>}
             <TabsTrigger value="coverage" data-testid="tab-coverage">Coverage</TabsTrigger>
             <TabsTrigger value="system" data-testid="tab-system">System Settings</TabsTrigger>
           </TabsList>
 
-          {/* Users & Roles Tab */}
+          {/* Users Tab */}
           <TabsContent value="users">
             <Card>
               <CardContent className="p-6">
@@ -203,14 +281,14 @@ export default function Admin() {
                       </div>
                     </div>
                     <Select value={roleFilter} onValueChange={setRoleFilter}>
-                      <SelectTrigger className="w-32" data-testid="filter-role">
+                      <SelectTrigger className="w-40" data-testid="filter-role">
                         <SelectValue placeholder="All Roles" />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Roles</SelectItem>
-                        <SelectItem value="admin">Admin</SelectItem>
-                        <SelectItem value="billing">Billing</SelectItem>
-                        <SelectItem value="provider">Provider</SelectItem>
+                        {roles.map((role) => (
+                          <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -227,10 +305,10 @@ export default function Admin() {
                           Role
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                          Last Active
+                          Joined
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                          Status
+                          MFA
                         </th>
                         <th className="relative px-6 py-3">
                           <span className="sr-only">Actions</span>
@@ -238,54 +316,84 @@ export default function Admin() {
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-slate-200">
-                      {filteredUsers.map((userData) => (
+                      {usersLoading ? (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-8 text-center text-sm text-slate-500">Loading users...</td>
+                        </tr>
+                      ) : filteredUsers.length === 0 ? (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-8 text-center text-sm text-slate-500">No users found</td>
+                        </tr>
+                      ) : filteredUsers.map((userData) => (
                         <tr key={userData.id} className="hover:bg-slate-50" data-testid={`user-row-${userData.id}`}>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center">
                               <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center mr-4">
                                 <span className="text-primary-600 font-medium text-sm">
-                                  {userData.initials}
+                                  {initials(userData)}
                                 </span>
                               </div>
                               <div>
-                                <div className="text-sm font-medium text-slate-900">{userData.name}</div>
+                                <div className="text-sm font-medium text-slate-900">
+                                  {displayName(userData)}
+                                  {userData.membershipId && <Badge className="ml-2 bg-gray-100 text-gray-800">Member</Badge>}
+                                  {userData.deactivatedAt && <Badge className="ml-2 bg-red-100 text-red-800">Deactivated</Badge>}
+                                </div>
                                 <div className="text-sm text-slate-500">{userData.email}</div>
                               </div>
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <Badge className={getRoleBadgeClass(userData.role)}>
-                              {userData.role.charAt(0).toUpperCase() + userData.role.slice(1)}
-                            </Badge>
+                            <Select
+                              value={userData.role}
+                              disabled={changeRoleMutation.isPending}
+                              onValueChange={(role) => changeRoleMutation.mutate({ id: userData.id, role })}
+                            >
+                              <SelectTrigger className="w-40" data-testid={`select-role-${userData.id}`}>
+                                <SelectValue>
+                                  <Badge className={getRoleBadgeClass(userData.role)}>{roleName(userData.role)}</Badge>
+                                </SelectValue>
+                              </SelectTrigger>
+                              <SelectContent>
+                                {roles.map((role) => (
+                                  <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
-                            {formatDate(userData.lastActive)}
+                            {formatDate(userData.createdAt)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <Badge className="bg-green-100 text-green-800">
-                              {userData.status.charAt(0).toUpperCase() + userData.status.slice(1)}
-                            </Badge>
+                            {userData.mfaEnabled ? (
+                              <Badge className="bg-green-100 text-green-800">Enabled</Badge>
+                            ) : (
+                              <Badge className="bg-gray-100 text-gray-800">Off</Badge>
+                            )}
                           </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                            <div className="flex items-center space-x-2">
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                            {canManageSessions && (
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                data-testid={`button-edit-user-${userData.id}`}
+                                onClick={() => setSessionsUser(userData)}
+                                data-testid={`button-sessions-${userData.id}`}
                               >
-                                Edit
+                                Sessions
                               </Button>
-                              {userData.role !== 'admin' && (
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  className="text-red-600 hover:text-red-700"
-                                  data-testid={`button-disable-user-${userData.id}`}
-                                >
-                                  Disable
-                                </Button>
-                              )}
-                            </div>
+                            )}
+                            {userData.membershipId && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                disabled={removeMemberMutation.isPending}
+                                onClick={() => removeMemberMutation.mutate(userData.id)}
+                                data-testid={`button-remove-member-${userData.id}`}
+                              >
+                                Remove
+                              </Button>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -296,72 +404,49 @@ export default function Admin() {
             </Card>
           </TabsContent>
 
+          {/* Roles Tab */}
+          <TabsContent value="roles">
+            <RoleEditor onError={handleMutationError} />
+          </TabsContent>
+
+          {/* Single Sign-On Tab */}
+          <TabsContent value="sso">
+            <IdentityProviderEditor onError={handleMutationError} />
+          </TabsContent>
+
+          {/* Provisioning Tab */}
+          <TabsContent value="provisioning">
+            <ScimTokenEditor onError={handleMutationError} />
+          </TabsContent>
+
+          {/* Sessions Tab */}
+          <TabsContent value="sessions">
+            <SessionPolicyEditor onError={handleMutationError} />
+          </TabsContent>
+
+          {/* Privacy Requests Tab */}
+          <TabsContent value="privacy">
+            <PrivacyRequestsPanel onError={handleMutationError} />
+          </TabsContent>
+
+          {/* Retention Tab */}
+          <TabsContent value="retention">
+            <RetentionPanel onError={handleMutationError} />
+          </TabsContent>
+
+          {/* Encryption Tab */}
+          <TabsContent value="encryption">
+            <EncryptionKeysPanel onError={handleMutationError} />
+          </TabsContent>
+
+          {/* Claim Rules Tab */}
+          <TabsContent value="claim-rules">
+            <ClaimRulesPanel onError={handleMutationError} />
+          </TabsContent>
+
           {/* Audit Log Tab */}
           <TabsContent value="audit">
-            <Card>
-              <CardContent className="p-6">
-                <div className="mb-6">
-                  <h3 className="text-lg leading-6 font-medium text-slate-900">System Audit Log</h3>
-                  <p className="mt-1 text-sm text-slate-500">
-                    Track all user actions and system events across your organization
-                  </p>
-                </div>
-
-                {auditLoading ? (
-                  <div className="text-center py-8">
-                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
-                    <p className="mt-4 text-slate-500">Loading audit events...</p>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    {(!auditEvents || (Array.isArray(auditEvents) && auditEvents.length === 0)) ? (
-                      <div className="text-center py-8 text-slate-500">
-                        <i className="fas fa-history text-4xl mb-4 text-slate-300"></i>
-                        <p className="text-lg font-medium">No audit events found</p>
-                        <p className="text-sm">System events will appear here once activities begin</p>
-                      </div>
-                    ) : (
-                      Array.isArray(auditEvents) && auditEvents.map((event: any) => (
-                        <div
-                          key={event.id}
-                          className="flex items-start space-x-3 p-4 bg-slate-50 rounded-lg"
-                          data-testid={`audit-event-${event.id}`}
-                        >
-                          <div className="flex-shrink-0">
-                            <div className="w-8 h-8 rounded-full bg-white flex items-center justify-center">
-                              <i className={getEventTypeIcon(event.type)}></i>
-                            </div>
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center justify-between">
-                              <p className="text-sm font-medium text-slate-900">
-                                {getEventTypeLabel(event.type)}
-                              </p>
-                              <p className="text-xs text-slate-500">
-                                {formatDate(event.createdAt)}
-                              </p>
-                            </div>
-                            <p className="text-sm text-slate-600 mt-1">
-                              User ID: {event.actorUserId}
-                            </p>
-                            {event.details && (
-                              <pre className="text-xs text-slate-500 mt-2 whitespace-pre-wrap">
-                                {JSON.stringify(event.details, null, 2)}
-                              </pre>
-                            )}
-                            {event.ip && (
-                              <p className="text-xs text-slate-400 mt-1">
-                                IP: {event.ip}
-                              </p>
-                            )}
-                          </div>
-                        </div>
-                      ))
-                    )}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            <AuditLogViewer onError={handleMutationError} />
           </TabsContent>
 
           {/* Coverage Tab */}
@@ -467,6 +552,63 @@ export default function Admin() {
             </div>
           </TabsContent>
         </Tabs>
+
+        <Dialog open={memberDialogOpen} onOpenChange={setMemberDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Member</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-slate-500">
+                Give someone from another organization, such as a billing agency, access to this one.
+                They switch between organizations from the top bar.
+              </p>
+              <div>
+                <Label htmlFor="member-email">Email</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  className="mt-1"
+                  value={memberForm.email}
+                  onChange={(e) => setMemberForm(current => ({ ...current, email: e.target.value }))}
+                  data-testid="input-member-email"
+                />
+              </div>
+              <div>
+                <Label>Role</Label>
+                <Select value={memberForm.role} onValueChange={(role) => setMemberForm(current => ({ ...current, role }))}>
+                  <SelectTrigger className="mt-1" data-testid="select-member-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={() => setMemberDialogOpen(false)}>Cancel</Button>
+                <Button
+                  disabled={!memberForm.email.trim() || addMemberMutation.isPending}
+                  onClick={() => addMemberMutation.mutate()}
+                  data-testid="button-save-member"
+                >
+                  {addMemberMutation.isPending ? "Adding..." : "Add Member"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={sessionsUser !== null} onOpenChange={(open) => !open && setSessionsUser(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{sessionsUser ? displayName(sessionsUser) : "Sessions"}</DialogTitle>
+            </DialogHeader>
+            {sessionsUser && <SessionList userId={sessionsUser.id} />}
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
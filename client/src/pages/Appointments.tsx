@@ -0,0 +1,550 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { addDays, format, isSameDay, startOfDay, startOfWeek } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+type AppointmentStatus = 'scheduled' | 'completed' | 'cancelled' | 'noShow';
+
+interface Appointment {
+  id: string;
+  patientId: string;
+  providerId: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  status: AppointmentStatus;
+  reason: string | null;
+  claimId: string | null;
+}
+
+interface UnbilledAppointment extends Appointment {
+  patientName: string;
+  providerName: string;
+}
+
+interface AppointmentForm {
+  patientId: string;
+  providerId: string;
+  date: string;
+  time: string;
+  durationMinutes: string;
+  status: AppointmentStatus;
+  reason: string;
+}
+
+const STATUS_DISPLAY: Record<AppointmentStatus, { label: string; badge: string }> = {
+  scheduled: { label: "Scheduled", badge: "bg-blue-100 text-blue-800" },
+  completed: { label: "Completed", badge: "bg-green-100 text-green-800" },
+  cancelled: { label: "Cancelled", badge: "bg-gray-100 text-gray-800" },
+  noShow: { label: "No show", badge: "bg-yellow-100 text-yellow-800" },
+};
+
+const ALL_PROVIDERS = "all";
+
+const emptyForm = (date: Date): AppointmentForm => ({
+  patientId: "",
+  providerId: "",
+  date: format(date, "yyyy-MM-dd"),
+  time: "09:00",
+  durationMinutes: "30",
+  status: "scheduled",
+  reason: "",
+});
+
+function toForm(appointment: Appointment): AppointmentForm {
+  const scheduledAt = new Date(appointment.scheduledAt);
+  return {
+    patientId: appointment.patientId,
+    providerId: appointment.providerId,
+    date: format(scheduledAt, "yyyy-MM-dd"),
+    time: format(scheduledAt, "HH:mm"),
+    durationMinutes: String(appointment.durationMinutes),
+    status: appointment.status,
+    reason: appointment.reason || "",
+  };
+}
+
+function toPayload(form: AppointmentForm) {
+  return {
+    patientId: form.patientId,
+    providerId: form.providerId,
+    // The date and time are entered in the clinic's local time
+    scheduledAt: new Date(`${form.date}T${form.time}`).toISOString(),
+    durationMinutes: parseInt(form.durationMinutes, 10) || 30,
+    status: form.status,
+    reason: form.reason.trim() || null,
+  };
+}
+
+async function fetchJson<T>(path: string, params: Record<string, string | undefined>): Promise<T> {
+  const query = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  );
+  const response = await apiRequest(`${path}?${query}`, "GET");
+  return response.json();
+}
+
+export default function Appointments() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [providerFilter, setProviderFilter] = useState(ALL_PROVIDERS);
+  const [reportDate, setReportDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Appointment | null>(null);
+  const [form, setForm] = useState<AppointmentForm>(() => emptyForm(new Date()));
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const weekDays = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const weekRange = {
+    from: weekStart.toISOString(),
+    to: addDays(weekStart, 7).toISOString(),
+    providerId: providerFilter === ALL_PROVIDERS ? undefined : providerFilter,
+  };
+
+  const { data: appointments = [], isLoading: appointmentsLoading } = useQuery<Appointment[]>({
+    queryKey: ["/api/appointments", weekRange],
+    queryFn: () => fetchJson<Appointment[]>("/api/appointments", weekRange),
+    retry: false,
+  });
+
+  // The report covers one local calendar day
+  const reportStart = startOfDay(new Date(`${reportDate}T00:00`));
+  const reportRange = { from: reportStart.toISOString(), to: addDays(reportStart, 1).toISOString() };
+
+  const { data: unbilled, isLoading: unbilledLoading } = useQuery<{ appointments: UnbilledAppointment[] }>({
+    queryKey: ["/api/appointments", "unbilled", reportRange],
+    queryFn: () => fetchJson("/api/appointments/unbilled", reportRange),
+    retry: false,
+  });
+
+  const { data: patients = [] } = useQuery<any[]>({
+    queryKey: ["/api/patients"],
+    retry: false,
+  });
+
+  const { data: providers = [] } = useQuery<any[]>({
+    queryKey: ["/api/providers"],
+    retry: false,
+  });
+
+  const patientName = (id: string) => patients.find((patient: any) => patient.id === id)?.name || "Unknown patient";
+  const providerName = (id: string) => providers.find((provider: any) => provider.id === id)?.name || "Unknown provider";
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message.startsWith("400") ? "Please check the appointment details and try again" : description,
+      variant: "destructive",
+    });
+  };
+
+  const refreshAppointments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+  };
+
+  const saveAppointmentMutation = useMutation({
+    mutationFn: async () => {
+      const payload = toPayload(form);
+      const response = editing
+        ? await apiRequest(`/api/appointments/${editing.id}`, "PATCH", payload)
+        : await apiRequest("/api/appointments", "POST", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Appointment updated" : "Appointment booked",
+        description: `${patientName(form.patientId)} on ${form.date} at ${form.time}`,
+      });
+      refreshAppointments();
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to save appointment"),
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: AppointmentStatus }) => {
+      const response = await apiRequest(`/api/appointments/${id}`, "PATCH", { status });
+      return response.json();
+    },
+    onSuccess: () => refreshAppointments(),
+    onError: (error) => handleMutationError(error as Error, "Failed to update appointment"),
+  });
+
+  const deleteAppointmentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/appointments/${id}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Appointment deleted" });
+      refreshAppointments();
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(
+      error as Error,
+      (error as Error).message.startsWith("409") ? "This visit has already been billed; cancel the appointment instead" : "Failed to delete appointment"
+    ),
+  });
+
+  const openCreate = (date: Date) => {
+    setEditing(null);
+    setForm({
+      ...emptyForm(date),
+      providerId: providerFilter === ALL_PROVIDERS ? "" : providerFilter,
+    });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (appointment: Appointment) => {
+    setEditing(appointment);
+    setForm(toForm(appointment));
+    setDialogOpen(true);
+  };
+
+  const updateField = (key: keyof AppointmentForm, value: string) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const billVisit = (appointment: Appointment) => {
+    setLocation(`/claims/new?appointmentId=${appointment.id}`);
+  };
+
+  const canSave = form.patientId && form.providerId && form.date && form.time;
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        {/* Page Header */}
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-slate-900 sm:text-3xl sm:truncate">
+              Appointments
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Book visits per provider and bill them once they are completed
+            </p>
+          </div>
+          <div className="mt-4 flex gap-3 md:mt-0 md:ml-4">
+            <Button onClick={() => openCreate(new Date())} data-testid="button-new-appointment">
+              <i className="fas fa-calendar-plus mr-2"></i>
+              Book Appointment
+            </Button>
+          </div>
+        </div>
+
+        {/* Week Navigation */}
+        <Card className="mt-8">
+          <CardContent className="p-6">
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))} data-testid="button-previous-week">
+                  <i className="fas fa-chevron-left"></i>
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))} data-testid="button-this-week">
+                  This Week
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))} data-testid="button-next-week">
+                  <i className="fas fa-chevron-right"></i>
+                </Button>
+                <span className="ml-2 text-sm font-medium text-slate-900" data-testid="text-week-range">
+                  {format(weekStart, "MMM d")} – {format(addDays(weekStart, 6), "MMM d, yyyy")}
+                </span>
+              </div>
+              <div className="sm:w-64">
+                <Label htmlFor="appointment-provider-filter">Provider</Label>
+                <Select value={providerFilter} onValueChange={setProviderFilter}>
+                  <SelectTrigger id="appointment-provider-filter" className="mt-1" data-testid="select-provider-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PROVIDERS}>All providers</SelectItem>
+                    {providers.map((provider: any) => (
+                      <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Week Calendar */}
+        <div className="mt-8 grid grid-cols-1 gap-4 md:grid-cols-7">
+          {weekDays.map((day) => {
+            const dayAppointments = appointments.filter((appointment) => isSameDay(new Date(appointment.scheduledAt), day));
+            return (
+              <Card key={day.toISOString()} className={isSameDay(day, new Date()) ? "border-primary" : undefined} data-testid={`calendar-day-${format(day, "yyyy-MM-dd")}`}>
+                <CardHeader className="p-3 pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium">{format(day, "EEE d")}</CardTitle>
+                    <button
+                      type="button"
+                      className="text-slate-400 hover:text-slate-600"
+                      onClick={() => openCreate(day)}
+                      aria-label={`Book appointment on ${format(day, "MMMM d")}`}
+                    >
+                      <i className="fas fa-plus text-xs"></i>
+                    </button>
+                  </div>
+                </CardHeader>
+                <CardContent className="p-3 pt-0 space-y-2">
+                  {appointmentsLoading ? (
+                    <div className="text-xs text-slate-400">Loading...</div>
+                  ) : dayAppointments.length === 0 ? (
+                    <div className="text-xs text-slate-400">No appointments</div>
+                  ) : (
+                    dayAppointments.map((appointment) => (
+                      <div key={appointment.id} className="rounded border border-slate-200 p-2 text-xs space-y-1" data-testid={`appointment-${appointment.id}`}>
+                        <button type="button" className="block w-full text-left" onClick={() => openEdit(appointment)}>
+                          <div className="font-medium text-slate-900">
+                            {format(new Date(appointment.scheduledAt), "HH:mm")} · {appointment.durationMinutes} min
+                          </div>
+                          <div className="text-slate-700 truncate">{patientName(appointment.patientId)}</div>
+                          {providerFilter === ALL_PROVIDERS && (
+                            <div className="text-slate-500 truncate">{providerName(appointment.providerId)}</div>
+                          )}
+                        </button>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${STATUS_DISPLAY[appointment.status].badge}`}>
+                          {STATUS_DISPLAY[appointment.status].label}
+                        </span>
+                        {appointment.status === 'scheduled' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full h-7 text-xs"
+                            disabled={updateStatusMutation.isPending}
+                            onClick={() => updateStatusMutation.mutate({ id: appointment.id, status: 'completed' })}
+                            data-testid={`button-complete-${appointment.id}`}
+                          >
+                            Mark Completed
+                          </Button>
+                        )}
+                        {appointment.status === 'completed' && (appointment.claimId ? (
+                          <Link href={`/claims/${appointment.claimId}`} className="block text-primary hover:underline">
+                            <i className="fas fa-file-invoice mr-1"></i>
+                            View claim
+                          </Link>
+                        ) : (
+                          <Button
+                            size="sm"
+                            className="w-full h-7 text-xs"
+                            onClick={() => billVisit(appointment)}
+                            data-testid={`button-bill-${appointment.id}`}
+                          >
+                            Bill This Visit
+                          </Button>
+                        ))}
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Unbilled Visits Report */}
+        <Card className="mt-8">
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+              <div>
+                <CardTitle>Unbilled Visits</CardTitle>
+                <p className="mt-1 text-sm text-slate-500">Completed appointments that don't have a claim yet</p>
+              </div>
+              <div>
+                <Label htmlFor="unbilled-date">Day</Label>
+                <Input
+                  id="unbilled-date"
+                  type="date"
+                  className="mt-1"
+                  value={reportDate}
+                  onChange={(e) => e.target.value && setReportDate(e.target.value)}
+                  data-testid="input-unbilled-date"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {unbilledLoading ? (
+              <div className="p-6 text-sm text-slate-500">Loading report...</div>
+            ) : !unbilled?.appointments.length ? (
+              <div className="p-6 text-sm text-slate-500" data-testid="unbilled-empty">
+                <i className="fas fa-check-circle text-green-500 mr-2"></i>
+                Every completed visit on this day has been billed
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Time</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Patient</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Provider</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Reason</th>
+                      <th className="relative px-4 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {unbilled.appointments.map((appointment) => (
+                      <tr key={appointment.id} data-testid={`unbilled-row-${appointment.id}`}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                          {format(new Date(appointment.scheduledAt), "HH:mm")}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">{appointment.patientName}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{appointment.providerName}</td>
+                        <td className="px-4 py-3 text-sm text-slate-500">{appointment.reason || '—'}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                          <Button size="sm" onClick={() => billVisit(appointment)} data-testid={`button-bill-unbilled-${appointment.id}`}>
+                            Bill This Visit
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit Dialog */}
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Appointment" : "Book Appointment"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="appointment-patient">Patient</Label>
+                <Select value={form.patientId} onValueChange={(value) => updateField("patientId", value)}>
+                  <SelectTrigger id="appointment-patient" className="mt-1" data-testid="select-appointment-patient">
+                    <SelectValue placeholder="Select a patient" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {patients.map((patient: any) => (
+                      <SelectItem key={patient.id} value={patient.id}>{patient.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="appointment-provider">Provider</Label>
+                <Select value={form.providerId} onValueChange={(value) => updateField("providerId", value)}>
+                  <SelectTrigger id="appointment-provider" className="mt-1" data-testid="select-appointment-provider">
+                    <SelectValue placeholder="Select a provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {providers.map((provider: any) => (
+                      <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="appointment-date">Date</Label>
+                  <Input id="appointment-date" type="date" className="mt-1" value={form.date} onChange={(e) => updateField("date", e.target.value)} data-testid="input-appointment-date" />
+                </div>
+                <div>
+                  <Label htmlFor="appointment-time">Time</Label>
+                  <Input id="appointment-time" type="time" className="mt-1" value={form.time} onChange={(e) => updateField("time", e.target.value)} data-testid="input-appointment-time" />
+                </div>
+                <div>
+                  <Label htmlFor="appointment-duration">Minutes</Label>
+                  <Input id="appointment-duration" type="number" min={5} max={480} step={5} className="mt-1" value={form.durationMinutes} onChange={(e) => updateField("durationMinutes", e.target.value)} data-testid="input-appointment-duration" />
+                </div>
+              </div>
+              {editing && (
+                <div>
+                  <Label htmlFor="appointment-status">Status</Label>
+                  <Select value={form.status} onValueChange={(value) => updateField("status", value)}>
+                    <SelectTrigger id="appointment-status" className="mt-1" data-testid="select-appointment-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(STATUS_DISPLAY) as AppointmentStatus[]).map((status) => (
+                        <SelectItem key={status} value={status}>{STATUS_DISPLAY[status].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="appointment-reason">Reason for Visit</Label>
+                <Textarea id="appointment-reason" className="mt-1" rows={2} value={form.reason} onChange={(e) => updateField("reason", e.target.value)} data-testid="input-appointment-reason" />
+              </div>
+              <div className="flex justify-between gap-3">
+                <div>
+                  {editing && !editing.claimId && (
+                    <Button
+                      variant="outline"
+                      disabled={deleteAppointmentMutation.isPending}
+                      onClick={() => deleteAppointmentMutation.mutate(editing.id)}
+                      data-testid="button-delete-appointment"
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </div>
+                <div className="flex gap-3">
+                  <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                  <Button
+                    disabled={!canSave || saveAppointmentMutation.isPending}
+                    onClick={() => saveAppointmentMutation.mutate()}
+                    data-testid="button-save-appointment"
+                  >
+                    {saveAppointmentMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
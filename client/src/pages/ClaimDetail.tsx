@@ -1,27 +1,78 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/components/RoleGuard";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import StatusBadge from "@/components/StatusBadge";
-import { ClaimTimeline } from "@/components/ClaimTimeline";
+import { ClaimTimeline, type ClaimStatusHistoryEntry } from "@/components/ClaimTimeline";
 import { OfflineBanner } from "@/components/OfflineBanner";
-import { FileText, Download, Edit2, ArrowLeft } from "lucide-react";
-import { Link } from "wouter";
-import type { Claim, Patient, Provider, Insurer, Attachment } from "@shared/schema";
+import { FileText, Download, Edit2, ArrowLeft, Undo2, Lock, Unlock, Send } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import type { Claim, ClaimLine, Patient, Provider, Insurer, Attachment } from "@shared/schema";
 
 interface ClaimDetailProps {
   params: { id: string };
 }
 
+type ClaimWithLines = Claim & { lines?: ClaimLine[] };
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(value);
+
+const formatAmount = (value: string | null) =>
+  value === null ? '—' : formatCurrency(parseFloat(value));
+
+const relationLabels: Record<string, string> = {
+  resubmission: "Resubmission",
+  adjustment: "Adjustment",
+  reversal: "Reversal",
+};
+
+const REVERSIBLE_STATUSES = ['submitted', 'pending', 'infoRequested', 'paid'];
+
+const SCAN_BADGES: Record<Attachment['scanStatus'], { label: string; className: string }> = {
+  pending: { label: 'Scan pending', className: 'bg-yellow-100 text-yellow-800' },
+  clean: { label: 'Scanned', className: 'bg-green-100 text-green-800' },
+  infected: { label: 'Infected', className: 'bg-red-100 text-red-800' },
+  error: { label: 'Scan failed', className: 'bg-red-100 text-red-800' },
+  skipped: { label: 'Not scanned', className: 'bg-gray-100 text-gray-800' },
+};
+
+const TRANSMISSION_BADGES: Record<string, { label: string; className: string }> = {
+  pending: { label: 'Sending', className: 'bg-yellow-100 text-yellow-800' },
+  accepted: { label: 'Sent to insurer', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected by insurer', className: 'bg-red-100 text-red-800' },
+  not_sent: { label: 'Not sent', className: 'bg-orange-100 text-orange-800' },
+  error: { label: 'Send failed', className: 'bg-red-100 text-red-800' },
+};
+
+// Attachments as listed for a claim, with the latest transmission to the insurer
+type ClaimAttachment = Attachment & {
+  transmission: { status: string; connector: string; externalId: string | null; message: string | null; updatedAt: string } | null;
+};
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 export default function ClaimDetail({ params }: ClaimDetailProps) {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
+  const { hasPermission } = usePermissions();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [reverseDialogOpen, setReverseDialogOpen] = useState(false);
+  const [reverseReason, setReverseReason] = useState("");
+  const [holdDialogOpen, setHoldDialogOpen] = useState(false);
+  const [holdReason, setHoldReason] = useState("");
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -37,7 +88,7 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const { data: claim, isLoading: claimLoading, error } = useQuery<Claim>({
+  const { data: claim, isLoading: claimLoading, error } = useQuery<ClaimWithLines>({
     queryKey: ["/api/claims", params.id],
     retry: false,
     staleTime: 0,
@@ -51,6 +102,139 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
     },
   });
 
+  const { data: statusHistory = [] } = useQuery<ClaimStatusHistoryEntry[]>({
+    queryKey: ["/api/claims", params.id, "history"],
+    enabled: !!claim,
+    retry: false,
+  });
+
+  const { data: linkedClaims = [] } = useQuery<Claim[]>({
+    queryKey: ["/api/claims", params.id, "chain"],
+    enabled: !!claim,
+    retry: false,
+  });
+
+  // Refresh the timeline whenever polling picks up a new status
+  useEffect(() => {
+    if (claim?.status) {
+      queryClient.invalidateQueries({ queryKey: ["/api/claims", params.id, "history"] });
+    }
+  }, [claim?.status, params.id, queryClient]);
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const resubmitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/claims/${params.id}/resubmit`, "POST", {});
+      return response.json() as Promise<Claim>;
+    },
+    onSuccess: (resubmission) => {
+      toast({
+        title: "Claim resubmitted",
+        description: "A linked resubmission was queued for the insurer",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/claims"] });
+      setLocation(`/claims/${resubmission.id}`);
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to resubmit claim"),
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      const response = await apiRequest(`/api/claims/${params.id}/reverse`, "POST", { reason });
+      return response.json() as Promise<Claim>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Claim reversed",
+        description: "The reversal was acknowledged by the insurer",
+      });
+      setReverseDialogOpen(false);
+      setReverseReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/claims"] });
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to reverse claim"),
+  });
+
+  const legalHoldMutation = useMutation({
+    mutationFn: async ({ legalHold, reason }: { legalHold: boolean; reason?: string }) => {
+      const response = await apiRequest(`/api/claims/${params.id}/legal-hold`, "PUT", { legalHold, reason });
+      return response.json() as Promise<Claim>;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: updated.legalHold ? "Legal hold placed" : "Legal hold released",
+        description: updated.legalHold ? "This claim will be kept past the retention period" : undefined,
+      });
+      setHoldDialogOpen(false);
+      setHoldReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/claims"] });
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to update legal hold"),
+  });
+
+  const attachmentMutation = useMutation({
+    mutationFn: async ({ attachment, action }: { attachment: Attachment; action: 'rescan' | 'remove' }) => {
+      if (action === 'remove') {
+        await apiRequest(`/api/attachments/${attachment.id}`, "DELETE");
+        return null;
+      }
+      const response = await apiRequest(`/api/attachments/${attachment.id}/rescan`, "POST");
+      return response.json() as Promise<Attachment>;
+    },
+    onSuccess: (rescanned, { action }) => {
+      toast({
+        title: action === 'remove' ? "Attachment removed" : rescanned?.scanStatus === 'clean' ? "Attachment is clean" : "Attachment rescanned",
+        description: rescanned && rescanned.scanStatus !== 'clean' && rescanned.scanStatus !== 'skipped' ? rescanned.scanResult ?? undefined : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/attachments", params.id] });
+    },
+    onError: (error, { action }) => handleMutationError(error as Error, action === 'remove' ? "Failed to remove attachment" : "Failed to rescan attachment"),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (attachment: Attachment) => {
+      const response = await apiRequest(`/api/attachments/${attachment.id}/download`, "GET");
+      return response.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.open(url, "_blank", "noopener");
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to download attachment"),
+  });
+
+  const transmitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/claims/${params.id}/attachments/transmit`, "POST");
+      return response.json() as Promise<{ queued: boolean }>;
+    },
+    onSuccess: ({ queued }) => {
+      toast({
+        title: queued ? "Attachments queued" : "Nothing to send",
+        description: queued ? "Attachments will be sent to the insurer shortly." : "The insurer already has every attachment.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/attachments", params.id] });
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to send attachments"),
+  });
+
   const { data: patients } = useQuery<Patient[]>({
     queryKey: ["/api/patients"],
     retry: false,
@@ -66,7 +250,7 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
     retry: false,
   });
 
-  const { data: attachments } = useQuery<Attachment[]>({
+  const { data: attachments } = useQuery<ClaimAttachment[]>({
     queryKey: ["/api/attachments", params.id],
     enabled: !!claim,
     retry: false,
@@ -116,6 +300,20 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
   const patient = patients?.find((p) => p.id === claim.patientId);
   const provider = providers?.find((p) => p.id === claim.providerId);
   const insurer = insurers?.find((i) => i.id === claim.insurerId);
+  const lines = claim.lines ?? [];
+  const isAdjudicated = lines.some((line) => line.adjudicatedAt);
+  const serviceTimes = lines.filter((line) => line.serviceDate).map((line) => new Date(line.serviceDate!).getTime());
+  const firstServiceDate = serviceTimes.length > 0 ? new Date(Math.min(...serviceTimes)) : null;
+  const sumLines = (pick: (line: ClaimLine) => string | null) =>
+    lines.reduce((total, line) => total + parseFloat(pick(line) ?? '0'), 0);
+  const canReverse = hasPermission('claims:reverse')
+    && REVERSIBLE_STATUSES.includes(claim.status)
+    && !!claim.externalId;
+  const canManageHold = hasPermission('privacy:manage') && !claim.anonymizedAt;
+  const blockedAttachments = (attachments ?? []).filter((attachment) => !['clean', 'skipped'].includes(attachment.scanStatus)).length;
+  const unsentAttachments = (attachments ?? []).filter((attachment) =>
+    ['clean', 'skipped'].includes(attachment.scanStatus) && !['accepted', 'rejected'].includes(attachment.transmission?.status ?? '')
+  ).length;
 
   return (
     <>
@@ -141,6 +339,12 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
           </div>
           <div className="flex items-center space-x-3">
             <StatusBadge status={claim.status} />
+            {claim.legalHold && (
+              <Badge variant="outline" title={claim.legalHoldReason ?? undefined} data-testid="badge-legal-hold">
+                <Lock className="h-3 w-3 mr-1" />
+                Legal Hold
+              </Badge>
+            )}
             <Button variant="outline" size="sm">
               <Download className="h-4 w-4 mr-2" />
               Export PDF
@@ -227,7 +431,9 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Service Date:</span>
                         <span className="font-medium">
-                          {claim.appointmentId ? 'Appointment linked' : 'Not provided'}
+                          {firstServiceDate
+                            ? firstServiceDate.toLocaleDateString('en-CA')
+                            : claim.appointmentId ? 'Appointment linked' : 'Not provided'}
                         </span>
                       </div>
                     </div>
@@ -267,7 +473,98 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
                   </div>
                 )}
 
-                {claim.codes && Array.isArray(claim.codes) && claim.codes.length > 0 ? (
+                {lines.length > 0 ? (
+                  <div>
+                    <h3 className="font-medium mb-3">Service Lines</h3>
+                    <Table data-testid="table-claim-lines">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>#</TableHead>
+                          <TableHead>Code</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead className="text-right">Billed</TableHead>
+                          {isAdjudicated && (
+                            <>
+                              <TableHead className="text-right">Eligible</TableHead>
+                              <TableHead className="text-right">Paid</TableHead>
+                              <TableHead className="text-right">Denied</TableHead>
+                              <TableHead>Reasons</TableHead>
+                            </>
+                          )}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lines.map((line) => {
+                          const billed = parseFloat(line.fee) * line.units;
+                          const cutBack = line.paidAmount !== null && parseFloat(line.paidAmount) < billed;
+                          return (
+                            <TableRow key={line.id} data-testid={`row-claim-line-${line.lineNumber}`}>
+                              <TableCell>{line.lineNumber}</TableCell>
+                              <TableCell>
+                                <div className="font-mono font-medium">{line.procedureCode}</div>
+                                {line.description && (
+                                  <div className="text-xs text-muted-foreground">{line.description}</div>
+                                )}
+                                {(line.tooth || line.surface || line.modifiers?.length) ? (
+                                  <div className="text-xs text-muted-foreground">
+                                    {[
+                                      line.tooth && `Tooth ${line.tooth}`,
+                                      line.surface && `Surface ${line.surface}`,
+                                      line.modifiers?.length && `Mod ${line.modifiers.join(', ')}`,
+                                    ].filter(Boolean).join(' • ')}
+                                  </div>
+                                ) : null}
+                              </TableCell>
+                              <TableCell>
+                                {line.serviceDate ? new Date(line.serviceDate).toLocaleDateString('en-CA') : '—'}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {formatCurrency(billed)}
+                                {line.units > 1 && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {line.units} × {formatAmount(line.fee)}
+                                  </div>
+                                )}
+                              </TableCell>
+                              {isAdjudicated && (
+                                <>
+                                  <TableCell className="text-right">{formatAmount(line.eligibleAmount)}</TableCell>
+                                  <TableCell className={`text-right ${cutBack ? 'text-amber-600 font-medium' : ''}`}>
+                                    {formatAmount(line.paidAmount)}
+                                  </TableCell>
+                                  <TableCell className="text-right">{formatAmount(line.deniedAmount)}</TableCell>
+                                  <TableCell>
+                                    <div className="flex flex-wrap gap-1">
+                                      {(line.reasonCodes ?? []).map((code) => (
+                                        <Badge key={code} variant="outline">{code}</Badge>
+                                      ))}
+                                    </div>
+                                  </TableCell>
+                                </>
+                              )}
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                      <TableFooter>
+                        <TableRow>
+                          <TableCell colSpan={3}>Total</TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(lines.reduce((total, line) => total + parseFloat(line.fee) * line.units, 0))}
+                          </TableCell>
+                          {isAdjudicated && (
+                            <>
+                              <TableCell className="text-right">{formatCurrency(sumLines((line) => line.eligibleAmount))}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(sumLines((line) => line.paidAmount))}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(sumLines((line) => line.deniedAmount))}</TableCell>
+                              <TableCell />
+                            </>
+                          )}
+                        </TableRow>
+                      </TableFooter>
+                    </Table>
+                  </div>
+                ) : claim.codes && Array.isArray(claim.codes) && claim.codes.length > 0 ? (
                   <div>
                     <h3 className="font-medium mb-3">Service Codes</h3>
                     <div className="flex flex-wrap gap-2">
@@ -285,27 +582,71 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
             {/* Attachments */}
             {attachments && attachments.length > 0 && (
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle>Attachments</CardTitle>
+                  {claim.externalId && unsentAttachments > 0 && hasPermission('claims:submit') && (
+                    <Button variant="outline" size="sm" disabled={transmitMutation.isPending} onClick={() => transmitMutation.mutate()} data-testid="button-transmit-attachments">
+                      <Send className="h-4 w-4 mr-2" />
+                      Send to insurer
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {attachments.map((attachment) => (
-                      <div key={attachment.id} className="flex items-center justify-between p-3 border rounded-lg">
-                        <div className="flex items-center space-x-3">
-                          <FileText className="h-5 w-5 text-muted-foreground" />
-                          <div>
-                            <p className="text-sm font-medium">{attachment.kind}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {attachment.mime}
-                            </p>
+                    {blockedAttachments > 0 && (
+                      <p className="text-sm text-red-600" data-testid="attachments-blocked">
+                        This claim cannot be submitted until every attachment passes the malware scan.
+                      </p>
+                    )}
+                    {attachments.map((attachment) => {
+                      const scan = SCAN_BADGES[attachment.scanStatus];
+                      const blocked = !['clean', 'skipped'].includes(attachment.scanStatus);
+                      const transmission = attachment.transmission && TRANSMISSION_BADGES[attachment.transmission.status];
+                      return (
+                        <div key={attachment.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`attachment-${attachment.id}`}>
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <FileText className="h-5 w-5 text-muted-foreground" />
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium">
+                                {attachment.kind}
+                                <Badge className={`ml-2 ${scan.className}`}>{scan.label}</Badge>
+                                {attachment.originalMime && <Badge className="ml-2 bg-blue-100 text-blue-800">PDF/A</Badge>}
+                                {transmission && <Badge className={`ml-2 ${transmission.className}`} data-testid={`attachment-transmission-${attachment.id}`}>{transmission.label}</Badge>}
+                              </p>
+                              <p className="text-xs text-muted-foreground truncate">
+                                {attachment.mime}
+                                {attachment.originalMime && ` (from ${attachment.originalMime})`}
+                                {attachment.size != null && ` · ${formatFileSize(attachment.size)}`}
+                                {attachment.checksum && ` · SHA-256 ${attachment.checksum.slice(0, 12)}…`}
+                              </p>
+                              {blocked && attachment.scanResult && (
+                                <p className="text-xs text-red-600">{attachment.scanResult}</p>
+                              )}
+                              {attachment.transmission?.message && ['rejected', 'not_sent', 'error'].includes(attachment.transmission.status) && (
+                                <p className="text-xs text-red-600">{attachment.transmission.message}</p>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            {blocked && hasPermission('claims:create') && attachment.scanStatus !== 'infected' && (
+                              <Button variant="outline" size="sm" disabled={attachmentMutation.isPending} onClick={() => attachmentMutation.mutate({ attachment, action: 'rescan' })} data-testid={`button-rescan-${attachment.id}`}>
+                                Rescan
+                              </Button>
+                            )}
+                            {blocked && hasPermission('claims:create') && (
+                              <Button variant="outline" size="sm" disabled={attachmentMutation.isPending} onClick={() => attachmentMutation.mutate({ attachment, action: 'remove' })} data-testid={`button-remove-${attachment.id}`}>
+                                Remove
+                              </Button>
+                            )}
+                            {attachment.scanStatus !== 'infected' && (
+                              <Button variant="ghost" size="sm" disabled={downloadMutation.isPending} onClick={() => downloadMutation.mutate(attachment)} data-testid={`button-download-${attachment.id}`}>
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         </div>
-                        <Button variant="ghost" size="sm">
-                          <Download className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -328,10 +669,45 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
                     updatedAt: typeof claim.updatedAt === 'string' ? claim.updatedAt : (claim.updatedAt as Date).toISOString(),
                     notes: claim.notes || undefined
                   }}
+                  history={statusHistory}
+                  onResubmit={resubmitMutation.isPending ? undefined : () => resubmitMutation.mutate()}
                 />
               </CardContent>
             </Card>
 
+            {/* Resubmissions, adjustments and reversals of this claim */}
+            {linkedClaims.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Linked Claims</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {claim.originalReferenceNumber && (
+                    <p className="text-sm text-muted-foreground">
+                      Original reference: <span className="font-mono">{claim.originalReferenceNumber}</span>
+                    </p>
+                  )}
+                  {linkedClaims.map((linked) => (
+                    <div key={linked.id} className="flex items-center justify-between text-sm" data-testid={`linked-claim-${linked.id}`}>
+                      <div>
+                        {linked.id === claim.id ? (
+                          <span className="font-medium">#{linked.id.slice(-8).toUpperCase()}</span>
+                        ) : (
+                          <Link href={`/claims/${linked.id}`} className="font-medium text-primary hover:underline">
+                            #{linked.id.slice(-8).toUpperCase()}
+                          </Link>
+                        )}
+                        <span className="ml-2 text-muted-foreground">
+                          {linked.relation ? relationLabels[linked.relation] : 'Original'}
+                        </span>
+                      </div>
+                      <StatusBadge status={linked.status} />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Quick Actions */}
             <Card>
               <CardHeader>
@@ -341,7 +717,7 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
                 <Button 
                   className="w-full justify-start" 
                   variant="outline"
-                  disabled={['paid', 'denied'].includes(claim.status)}
+                  disabled={['paid', 'denied', 'reversed'].includes(claim.status)}
                 >
                   <Edit2 className="h-4 w-4 mr-2" />
                   Edit Claim
@@ -360,11 +736,111 @@ export default function ClaimDetail({ params }: ClaimDetailProps) {
                     Duplicate Claim
                   </Link>
                 </Button>
+                {canReverse && (
+                  <Button
+                    className="w-full justify-start"
+                    variant="outline"
+                    onClick={() => setReverseDialogOpen(true)}
+                    data-testid="button-reverse"
+                  >
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Reverse Claim
+                  </Button>
+                )}
+                {canManageHold && (claim.legalHold ? (
+                  <Button
+                    className="w-full justify-start"
+                    variant="outline"
+                    disabled={legalHoldMutation.isPending}
+                    onClick={() => legalHoldMutation.mutate({ legalHold: false })}
+                    data-testid="button-release-hold"
+                  >
+                    <Unlock className="h-4 w-4 mr-2" />
+                    Release Legal Hold
+                  </Button>
+                ) : (
+                  <Button
+                    className="w-full justify-start"
+                    variant="outline"
+                    onClick={() => setHoldDialogOpen(true)}
+                    data-testid="button-place-hold"
+                  >
+                    <Lock className="h-4 w-4 mr-2" />
+                    Place Legal Hold
+                  </Button>
+                ))}
               </CardContent>
             </Card>
           </div>
         </div>
       </div>
+
+      <Dialog open={reverseDialogOpen} onOpenChange={setReverseDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse Claim</DialogTitle>
+            <DialogDescription>
+              Sends a reversal to the insurer and records it as a linked claim. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reverse-reason">Reason</Label>
+            <Textarea
+              id="reverse-reason"
+              value={reverseReason}
+              onChange={(e) => setReverseReason(e.target.value)}
+              placeholder="e.g. Billed to the wrong patient"
+              data-testid="input-reverse-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReverseDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reverseReason.trim() || reverseMutation.isPending}
+              onClick={() => reverseMutation.mutate(reverseReason.trim())}
+              data-testid="button-confirm-reverse"
+            >
+              {reverseMutation.isPending ? "Reversing..." : "Reverse Claim"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={holdDialogOpen} onOpenChange={setHoldDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Place Legal Hold</DialogTitle>
+            <DialogDescription>
+              Keeps this claim, its attachments, EDI transactions, remittances and audit trail out of retention purges until the hold is released.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="hold-reason">Reason</Label>
+            <Textarea
+              id="hold-reason"
+              value={holdReason}
+              onChange={(e) => setHoldReason(e.target.value)}
+              placeholder="e.g. Pending litigation"
+              data-testid="input-hold-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHoldDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!holdReason.trim() || legalHoldMutation.isPending}
+              onClick={() => legalHoldMutation.mutate({ legalHold: true, reason: holdReason.trim() })}
+              data-testid="button-confirm-hold"
+            >
+              {legalHoldMutation.isPending ? "Saving..." : "Place Hold"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
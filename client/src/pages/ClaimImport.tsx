@@ -0,0 +1,371 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface ImportField {
+  field: string;
+  label: string;
+  required?: boolean;
+}
+
+interface ImportDraft {
+  key: string;
+  rowNumbers: number[];
+  patientName?: string;
+  providerName?: string;
+  insurerName?: string;
+  type: string;
+  amount: string;
+  lines: any[];
+  errors: string[];
+}
+
+interface ImportPreview {
+  headers: string[];
+  mapping: Record<string, string>;
+  fields: ImportField[];
+  rowCount: number;
+  claims: ImportDraft[];
+  validClaims: number;
+}
+
+interface ImportFile {
+  fileName: string;
+  format: "csv" | "xlsx";
+  content: string;
+}
+
+const UNMAPPED = "__none__";
+
+// CSV is sent as text; XLSX workbooks are binary and go up base64-encoded
+function readImportFile(file: File): Promise<ImportFile> {
+  const format = /\.xlsx$/i.test(file.name) ? "xlsx" : "csv";
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result ?? "");
+      resolve({
+        fileName: file.name,
+        format,
+        content: format === "xlsx" ? result.slice(result.indexOf(",") + 1) : result,
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    if (format === "xlsx") {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
+
+export default function ClaimImport() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [submitAfterImport, setSubmitAfterImport] = useState(false);
+  const [result, setResult] = useState<{ created: number; skipped: number; queued: number } | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // Mapping and file problems come back as 422 with a readable message
+    const message = /^422: /.test(error.message) ? JSON.parse(error.message.slice(5)).message : description;
+    toast({
+      title: "Error",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: ImportFile & { mapping?: Record<string, string> }) => {
+      const response = await apiRequest("/api/claims/import/preview", "POST", request);
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping);
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to read the import file"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (request: ImportFile & { mapping: Record<string, string> }) => {
+      const response = await apiRequest("/api/claims/import", "POST", request);
+      const imported = await response.json();
+
+      // Optional second step: queue each new draft through the connector submission endpoint
+      let queued = 0;
+      if (submitAfterImport) {
+        for (const { claim, connector } of imported.created) {
+          if (!connector) continue;
+          try {
+            await apiRequest("/api/connectors/submit", "POST", { claimId: claim.id, connector });
+            queued++;
+          } catch (error) {
+            console.error("Failed to queue imported claim:", error);
+          }
+        }
+      }
+      return { created: imported.created.length, skipped: imported.skipped.length, queued };
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      toast({
+        title: "Claims imported",
+        description: `${data.created} draft claims created${submitAfterImport ? `, ${data.queued} queued for submission` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/claims"] });
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to import claims"),
+  });
+
+  const handleFileChange = async (file: File | undefined) => {
+    setPreview(null);
+    setResult(null);
+    if (!file) {
+      setImportFile(null);
+      return;
+    }
+    try {
+      const loaded = await readImportFile(file);
+      setImportFile(loaded);
+      previewMutation.mutate(loaded);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not read the selected file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateMapping = (field: string, header: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (header === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+  };
+
+  const formatCurrency = (amount: string) =>
+    new Intl.NumberFormat("en-CA", { style: "currency", currency: "CAD" }).format(parseFloat(amount) || 0);
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        {/* Page Header */}
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-slate-900 sm:text-3xl sm:truncate">
+              Import Claims
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Create draft claims from a CSV or Excel export of your practice-management system. One row per service line.
+            </p>
+          </div>
+          <div className="mt-4 flex gap-3 md:mt-0 md:ml-4">
+            <Button asChild variant="outline">
+              <Link href="/claims">Back to Claims</Link>
+            </Button>
+          </div>
+        </div>
+
+        {/* File */}
+        <Card className="mt-8">
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <Label htmlFor="claim-import-file">File</Label>
+              <Input
+                id="claim-import-file"
+                type="file"
+                className="mt-1"
+                accept=".csv,.xlsx,.txt"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                data-testid="input-claim-import-file"
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                Patients, providers and insurers must already exist; rows are matched to them by name, date of birth,
+                certificate number or licence number.
+              </p>
+            </div>
+            {previewMutation.isPending && <p className="text-sm text-slate-500">Checking file...</p>}
+          </CardContent>
+        </Card>
+
+        {/* Column Mapping */}
+        {preview && importFile && (
+          <Card className="mt-8" data-testid="claim-import-mapping">
+            <CardContent className="p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-slate-900">Columns</h3>
+                <p className="text-sm text-slate-500">
+                  {preview.rowCount} rows found in {importFile.fileName}. Check which column holds each field.
+                </p>
+              </div>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {preview.fields.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <Label htmlFor={`mapping-${field}`}>
+                      {label}
+                      {required && <span className="text-red-600"> *</span>}
+                    </Label>
+                    <Select value={mapping[field] ?? UNMAPPED} onValueChange={(value) => updateMapping(field, value)}>
+                      <SelectTrigger id={`mapping-${field}`} className="mt-1" data-testid={`select-mapping-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                        {preview.headers.filter(Boolean).map((header) => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => previewMutation.mutate({ ...importFile, mapping })}
+                  disabled={previewMutation.isPending}
+                  data-testid="button-recheck-import"
+                >
+                  Check Again
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Preview */}
+        {preview && importFile && (
+          <Card className="mt-8" data-testid="claim-import-preview">
+            <CardContent className="p-6">
+              <div className="mb-4 md:flex md:items-center md:justify-between">
+                <div>
+                  <h3 className="text-lg font-medium text-slate-900">
+                    {preview.validClaims} of {preview.claims.length} claims ready to import
+                  </h3>
+                  <p className="text-sm text-slate-500">
+                    Claims with errors are skipped. Fix them in the file and upload it again, or create them by hand.
+                  </p>
+                </div>
+                <div className="mt-4 flex items-center gap-4 md:mt-0">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="submit-after-import"
+                      checked={submitAfterImport}
+                      onCheckedChange={(checked) => setSubmitAfterImport(checked === true)}
+                      data-testid="checkbox-submit-after-import"
+                    />
+                    <Label htmlFor="submit-after-import">Submit to insurers after creating</Label>
+                  </div>
+                  <Button
+                    onClick={() => importMutation.mutate({ ...importFile, mapping })}
+                    disabled={preview.validClaims === 0 || importMutation.isPending || Boolean(result)}
+                    data-testid="button-import-claims"
+                  >
+                    {importMutation.isPending ? "Importing..." : `Import ${preview.validClaims} Claims`}
+                  </Button>
+                </div>
+              </div>
+
+              {result && (
+                <div className="mb-4 rounded-md border border-green-200 bg-green-50 p-4 text-sm text-green-900" data-testid="claim-import-result">
+                  {result.created} draft claims created, {result.skipped} skipped
+                  {submitAfterImport && `, ${result.queued} queued for submission`}.{" "}
+                  <Link href="/claims" className="underline">View claims</Link>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Rows</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Patient</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Provider</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Insurer</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Lines</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Amount</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {preview.claims.map((draft) => (
+                      <tr key={draft.key} data-testid={`claim-import-row-${draft.rowNumbers[0]}`}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{draft.rowNumbers.join(", ")}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">{draft.patientName || "—"}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{draft.providerName || "—"}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{draft.insurerName || "—"}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                          {draft.lines.map((line) => line.procedureCode).join(", ")}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">{formatCurrency(draft.amount)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {draft.errors.length === 0 ? (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              Ready
+                            </span>
+                          ) : (
+                            <ul className="list-disc pl-4 text-red-700">
+                              {draft.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
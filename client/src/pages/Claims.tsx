@@ -7,7 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ClaimsTable } from "@/components/ClaimsTable";
 import { OfflineBanner } from "@/components/OfflineBanner";
-import { Plus } from "lucide-react";
+import { Plus, Upload } from "lucide-react";
 import { Link } from "wouter";
 
 export default function Claims() {
@@ -66,6 +66,12 @@ export default function Claims() {
             </p>
           </div>
           <div className="flex gap-3">
+            <Button asChild data-testid="button-import-claims" variant="outline">
+              <Link href="/claims/import">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Link>
+            </Button>
             <Button asChild data-testid="button-new-preauth" variant="outline">
               <Link href="/preauths/new">New Pre-Auth</Link>
             </Button>
@@ -1,21 +1,28 @@
 import { ClaimWizard } from "@/components/ClaimWizard";
 import { OfflineBanner } from "@/components/OfflineBanner";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { extractAppointmentId, prefillClaimFromAppointment } from "@/lib/ssoHandler";
+import { extractAppointmentId } from "@/lib/ssoHandler";
+import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { useEffect, useState } from "react";
+import { useState } from "react";
+import { format } from "date-fns";
+
+interface Appointment {
+  id: string;
+  patientId: string;
+  providerId: string;
+  scheduledAt: string;
+}
 
 export default function NewClaim() {
   const [, setLocation] = useLocation();
-  const [prefillData, setPrefillData] = useState<any>(null);
+  const [appointmentId] = useState(extractAppointmentId);
 
-  useEffect(() => {
-    const appointmentId = extractAppointmentId();
-    if (appointmentId) {
-      const prefill = prefillClaimFromAppointment(appointmentId);
-      setPrefillData(prefill);
-    }
-  }, []);
+  // "Bill this visit" links here with the appointment to prefill from
+  const { data: appointment, isLoading: loadingAppointment } = useQuery<Appointment>({
+    queryKey: ["/api/appointments", appointmentId],
+    enabled: !!appointmentId,
+    retry: false,
+  });
 
   const handleComplete = (claimId: string) => {
     setLocation(`/claims/${claimId}`);
@@ -32,12 +39,23 @@ export default function NewClaim() {
           </p>
         </div>
 
-        <ClaimWizard 
-          type="claim" 
-          onComplete={handleComplete} 
-          prefillData={prefillData}
-        />
+        {appointmentId && loadingAppointment ? (
+          <div className="text-center py-8">
+            <i className="fas fa-spinner fa-spin text-2xl text-gray-400"></i>
+          </div>
+        ) : (
+          <ClaimWizard
+            type="claim"
+            onComplete={handleComplete}
+            initialData={appointment && {
+              patientId: appointment.patientId,
+              providerId: appointment.providerId,
+              appointmentId: appointment.id,
+            }}
+            serviceDate={appointment && format(new Date(appointment.scheduledAt), "yyyy-MM-dd")}
+          />
+        )}
       </div>
     </>
   );
-}
\ No newline at end of file
+}
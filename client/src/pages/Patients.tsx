@@ -0,0 +1,467 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/components/RoleGuard";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface DuplicateMatch {
+  id: string;
+  name: string;
+  matchedOn: Array<'email' | 'phone'>;
+  archived: boolean;
+}
+
+interface PatientForm {
+  name: string;
+  dob: string;
+  email: string;
+  phone: string;
+  address: string;
+  policyNumber: string;
+  certificateNumber: string;
+  groupNumber: string;
+  carrierId: string;
+  dependantCode: string;
+  relationshipCode: string;
+  healthCard: string;
+  gender: string;
+}
+
+const emptyForm: PatientForm = {
+  name: "",
+  dob: "",
+  email: "",
+  phone: "",
+  address: "",
+  policyNumber: "",
+  certificateNumber: "",
+  groupNumber: "",
+  carrierId: "",
+  dependantCode: "",
+  relationshipCode: "",
+  healthCard: "",
+  gender: "U",
+};
+
+const identifierFields = [
+  { key: "policyNumber", label: "Policy Number" },
+  { key: "certificateNumber", label: "Certificate / Member ID" },
+  { key: "groupNumber", label: "Group Number" },
+  { key: "carrierId", label: "Carrier ID (CDAnet)" },
+  { key: "dependantCode", label: "Dependant Code" },
+  { key: "relationshipCode", label: "Relationship to Subscriber" },
+  { key: "healthCard", label: "Provincial Health Card" },
+] as const;
+
+function toForm(patient: any): PatientForm {
+  const identifiers = patient.identifiers || {};
+  return {
+    name: patient.name || "",
+    dob: patient.dob ? new Date(patient.dob).toISOString().slice(0, 10) : "",
+    email: patient.email || "",
+    phone: patient.phone || "",
+    address: patient.address || "",
+    policyNumber: identifiers.policyNumber || "",
+    certificateNumber: identifiers.certificateNumber || "",
+    groupNumber: identifiers.groupNumber || "",
+    carrierId: identifiers.carrierId || "",
+    dependantCode: identifiers.dependantCode?.toString() ?? "",
+    relationshipCode: identifiers.relationshipCode?.toString() ?? "",
+    healthCard: identifiers.healthCard || "",
+    gender: identifiers.gender || "U",
+  };
+}
+
+function toPayload(form: PatientForm, existingIdentifiers: Record<string, any> = {}) {
+  const identifiers: Record<string, any> = { ...existingIdentifiers, gender: form.gender };
+  for (const { key } of identifierFields) {
+    const value = form[key].trim();
+    if (value) {
+      identifiers[key] = value;
+    } else {
+      delete identifiers[key];
+    }
+  }
+  return {
+    name: form.name.trim(),
+    dob: form.dob || null,
+    email: form.email.trim() || null,
+    phone: form.phone.trim() || null,
+    address: form.address.trim() || null,
+    identifiers,
+  };
+}
+
+export default function Patients() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<any | null>(null);
+  const [form, setForm] = useState<PatientForm>(emptyForm);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+
+  const canArchive = hasPermission('patients:archive');
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: patients = [], isLoading: patientsLoading } = useQuery<any[]>({
+    queryKey: [showArchived ? "/api/patients?includeArchived=true" : "/api/patients"],
+    retry: false,
+  });
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message.startsWith("400") ? "Please check the highlighted details and try again" : description,
+      variant: "destructive",
+    });
+  };
+
+  const refreshPatients = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/patients?includeArchived=true"] });
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+    setDuplicates([]);
+  };
+
+  const savePatientMutation = useMutation({
+    mutationFn: async ({ allowDuplicate }: { allowDuplicate: boolean }) => {
+      const payload = { ...toPayload(form, editing?.identifiers || {}), allowDuplicate };
+      const response = editing
+        ? await apiRequest(`/api/patients/${editing.id}`, "PATCH", payload)
+        : await apiRequest("/api/patients", "POST", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Patient updated" : "Patient added",
+        description: form.name,
+      });
+      refreshPatients();
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to save patient"),
+  });
+
+  const archivePatientMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'archive' | 'restore' }) => {
+      const response = await apiRequest(`/api/patients/${id}/${action}`, "POST", {});
+      return response.json();
+    },
+    onSuccess: () => refreshPatients(),
+    onError: (error) => handleMutationError(error as Error, "Failed to update patient"),
+  });
+
+  // Warn about likely duplicates before saving rather than relying on the 409
+  const handleSave = async () => {
+    try {
+      const response = await apiRequest("/api/patients/check-duplicates", "POST", {
+        email: form.email.trim() || null,
+        phone: form.phone.trim() || null,
+        excludeId: editing?.id,
+      });
+      const result = await response.json();
+      if (result.duplicates.length > 0) {
+        setDuplicates(result.duplicates);
+        return;
+      }
+      savePatientMutation.mutate({ allowDuplicate: false });
+    } catch (error) {
+      handleMutationError(error as Error, "Failed to check for duplicate patients");
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDuplicates([]);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (patient: any) => {
+    setEditing(patient);
+    setForm(toForm(patient));
+    setDuplicates([]);
+    setDialogOpen(true);
+  };
+
+  const updateField = (key: keyof PatientForm, value: string) => {
+    setForm(current => ({ ...current, [key]: value }));
+    if (key === "email" || key === "phone") setDuplicates([]);
+  };
+
+  const filteredPatients = patients
+    .filter((patient: any) => {
+      if (!search) return true;
+      const identifiers = patient.identifiers || {};
+      const haystack = [patient.name, patient.email, patient.phone, identifiers.policyNumber, identifiers.certificateNumber]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return haystack.includes(search.toLowerCase());
+    })
+    .sort((a: any, b: any) => (a.name || "").localeCompare(b.name || ""));
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        {/* Page Header */}
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-slate-900 sm:text-3xl sm:truncate">
+              Patients
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Patient demographics and insurance numbers used on claims
+            </p>
+          </div>
+          <div className="mt-4 flex gap-3 md:mt-0 md:ml-4">
+            <Button onClick={openCreate} data-testid="button-new-patient">
+              <i className="fas fa-user-plus mr-2"></i>
+              Add Patient
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mt-8">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div className="sm:col-span-2">
+                <Label htmlFor="patient-search">Search</Label>
+                <Input
+                  id="patient-search"
+                  className="mt-1"
+                  placeholder="Name, email, phone or policy number"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  data-testid="input-patient-search"
+                />
+              </div>
+              <div className="flex items-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowArchived(!showArchived)}
+                  data-testid="button-toggle-archived"
+                >
+                  <i className={`fas ${showArchived ? 'fa-eye-slash' : 'fa-archive'} mr-2`}></i>
+                  {showArchived ? "Hide Archived" : "Show Archived"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Patient List */}
+        <Card className="mt-8">
+          <CardContent className="p-0">
+            {patientsLoading ? (
+              <div className="p-6 text-sm text-slate-500">Loading patients...</div>
+            ) : filteredPatients.length === 0 ? (
+              <div className="p-6 text-sm text-slate-500" data-testid="patients-empty">
+                {search ? "No patients match your search" : "No patients yet"}
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Name</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Date of Birth</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Contact</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Policy / Certificate</th>
+                      <th className="relative px-4 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {filteredPatients.map((patient: any) => (
+                      <tr key={patient.id} data-testid={`patient-row-${patient.id}`}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                          {patient.name}
+                          {patient.archivedAt && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                              Archived
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                          {patient.dob ? new Date(patient.dob).toLocaleDateString('en-CA') : '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                          {[patient.email, patient.phone].filter(Boolean).join(' · ') || '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                          {[patient.identifiers?.policyNumber, patient.identifiers?.certificateNumber].filter(Boolean).join(' / ') || '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => openEdit(patient)} data-testid={`button-edit-patient-${patient.id}`}>
+                            Edit
+                          </Button>
+                          {canArchive && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={archivePatientMutation.isPending}
+                              onClick={() => archivePatientMutation.mutate({ id: patient.id, action: patient.archivedAt ? 'restore' : 'archive' })}
+                              data-testid={`button-archive-patient-${patient.id}`}
+                            >
+                              {patient.archivedAt ? "Restore" : "Archive"}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit Dialog */}
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Patient" : "Add Patient"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="sm:col-span-2">
+                  <Label htmlFor="patient-name">Full Name</Label>
+                  <Input id="patient-name" className="mt-1" value={form.name} onChange={(e) => updateField("name", e.target.value)} data-testid="input-patient-name" />
+                </div>
+                <div>
+                  <Label htmlFor="patient-dob">Date of Birth</Label>
+                  <Input id="patient-dob" type="date" className="mt-1" value={form.dob} onChange={(e) => updateField("dob", e.target.value)} data-testid="input-patient-dob" />
+                </div>
+                <div>
+                  <Label htmlFor="patient-gender">Sex</Label>
+                  <Select value={form.gender} onValueChange={(value) => updateField("gender", value)}>
+                    <SelectTrigger id="patient-gender" className="mt-1" data-testid="select-patient-gender">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="F">Female</SelectItem>
+                      <SelectItem value="M">Male</SelectItem>
+                      <SelectItem value="U">Unspecified</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="patient-email">Email</Label>
+                  <Input id="patient-email" type="email" className="mt-1" value={form.email} onChange={(e) => updateField("email", e.target.value)} data-testid="input-patient-email" />
+                </div>
+                <div>
+                  <Label htmlFor="patient-phone">Phone</Label>
+                  <Input id="patient-phone" type="tel" className="mt-1" value={form.phone} onChange={(e) => updateField("phone", e.target.value)} data-testid="input-patient-phone" />
+                </div>
+                <div className="sm:col-span-2">
+                  <Label htmlFor="patient-address">Address</Label>
+                  <Textarea id="patient-address" className="mt-1" rows={2} value={form.address} onChange={(e) => updateField("address", e.target.value)} data-testid="input-patient-address" />
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-slate-900">Insurance</h4>
+                <div className="mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  {identifierFields.map(({ key, label }) => (
+                    <div key={key}>
+                      <Label htmlFor={`patient-${key}`}>{label}</Label>
+                      <Input
+                        id={`patient-${key}`}
+                        className="mt-1"
+                        value={form[key]}
+                        onChange={(e) => updateField(key, e.target.value)}
+                        data-testid={`input-patient-${key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {duplicates.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900" data-testid="patient-duplicates">
+                  <p className="font-medium">This may be a patient you already have:</p>
+                  <ul className="mt-2 list-disc pl-5">
+                    {duplicates.map((duplicate) => (
+                      <li key={duplicate.id}>
+                        {duplicate.name} — same {duplicate.matchedOn.join(' and ')}
+                        {duplicate.archived && " (archived)"}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                {duplicates.length > 0 ? (
+                  <Button
+                    onClick={() => savePatientMutation.mutate({ allowDuplicate: true })}
+                    disabled={savePatientMutation.isPending}
+                    data-testid="button-save-patient-anyway"
+                  >
+                    Save Anyway
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSave}
+                    disabled={!form.name.trim() || savePatientMutation.isPending}
+                    data-testid="button-save-patient"
+                  >
+                    {savePatientMutation.isPending ? "Saving..." : "Save Patient"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,458 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/components/RoleGuard";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface DuplicateMatch {
+  id: string;
+  name: string;
+  matchedOn: Array<'email' | 'phone'>;
+  archived: boolean;
+}
+
+interface LicenceForm {
+  discipline: string;
+  number: string;
+  province: string;
+  expiresAt: string;
+}
+
+interface ProviderForm {
+  name: string;
+  email: string;
+  phone: string;
+  discipline: string;
+  licences: LicenceForm[];
+}
+
+const emptyLicence: LicenceForm = { discipline: "", number: "", province: "", expiresAt: "" };
+const emptyForm: ProviderForm = { name: "", email: "", phone: "", discipline: "", licences: [emptyLicence] };
+
+function toForm(provider: any): ProviderForm {
+  const licences: LicenceForm[] = (provider.licences || []).map((licence: any) => ({
+    discipline: licence.discipline || "",
+    number: licence.number || "",
+    province: licence.province || "",
+    expiresAt: licence.expiresAt || "",
+  }));
+  // Providers created before per-discipline licences have a single licence number
+  if (licences.length === 0 && provider.licenceNumber) {
+    licences.push({ ...emptyLicence, discipline: provider.discipline || "", number: provider.licenceNumber });
+  }
+  return {
+    name: provider.name || "",
+    email: provider.email || "",
+    phone: provider.phone || "",
+    discipline: provider.discipline || "",
+    licences: licences.length > 0 ? licences : [emptyLicence],
+  };
+}
+
+function toPayload(form: ProviderForm) {
+  const licences = form.licences
+    .filter(licence => licence.discipline.trim() && licence.number.trim())
+    .map(licence => ({
+      discipline: licence.discipline.trim(),
+      number: licence.number.trim(),
+      ...(licence.province.trim() ? { province: licence.province.trim().toUpperCase() } : {}),
+      ...(licence.expiresAt ? { expiresAt: licence.expiresAt } : {}),
+    }));
+  return {
+    name: form.name.trim(),
+    email: form.email.trim() || null,
+    phone: form.phone.trim() || null,
+    discipline: form.discipline.trim() || null,
+    licences,
+  };
+}
+
+export default function Providers() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<any | null>(null);
+  const [form, setForm] = useState<ProviderForm>(emptyForm);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+
+  const canManage = hasPermission('providers:manage');
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: providers = [], isLoading: providersLoading } = useQuery<any[]>({
+    queryKey: [showArchived ? "/api/providers?includeArchived=true" : "/api/providers"],
+    retry: false,
+  });
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message.startsWith("400") ? "Please check the provider details and try again" : description,
+      variant: "destructive",
+    });
+  };
+
+  const refreshProviders = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/providers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/providers?includeArchived=true"] });
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+    setDuplicates([]);
+  };
+
+  const saveProviderMutation = useMutation({
+    mutationFn: async ({ allowDuplicate }: { allowDuplicate: boolean }) => {
+      const payload = { ...toPayload(form), allowDuplicate };
+      const response = editing
+        ? await apiRequest(`/api/providers/${editing.id}`, "PATCH", payload)
+        : await apiRequest("/api/providers", "POST", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Provider updated" : "Provider added",
+        description: form.name,
+      });
+      refreshProviders();
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to save provider"),
+  });
+
+  const archiveProviderMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'archive' | 'restore' }) => {
+      const response = await apiRequest(`/api/providers/${id}/${action}`, "POST", {});
+      return response.json();
+    },
+    onSuccess: () => refreshProviders(),
+    onError: (error) => handleMutationError(error as Error, "Failed to update provider"),
+  });
+
+  const handleSave = async () => {
+    try {
+      const response = await apiRequest("/api/providers/check-duplicates", "POST", {
+        email: form.email.trim() || null,
+        phone: form.phone.trim() || null,
+        excludeId: editing?.id,
+      });
+      const result = await response.json();
+      if (result.duplicates.length > 0) {
+        setDuplicates(result.duplicates);
+        return;
+      }
+      saveProviderMutation.mutate({ allowDuplicate: false });
+    } catch (error) {
+      handleMutationError(error as Error, "Failed to check for duplicate providers");
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDuplicates([]);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (provider: any) => {
+    setEditing(provider);
+    setForm(toForm(provider));
+    setDuplicates([]);
+    setDialogOpen(true);
+  };
+
+  const updateField = (key: Exclude<keyof ProviderForm, 'licences'>, value: string) => {
+    setForm(current => ({ ...current, [key]: value }));
+    if (key === "email" || key === "phone") setDuplicates([]);
+  };
+
+  const updateLicence = (index: number, key: keyof LicenceForm, value: string) => {
+    setForm(current => ({
+      ...current,
+      licences: current.licences.map((licence, i) => (i === index ? { ...licence, [key]: value } : licence)),
+    }));
+  };
+
+  const removeLicence = (index: number) => {
+    setForm(current => ({
+      ...current,
+      licences: current.licences.length > 1 ? current.licences.filter((_, i) => i !== index) : [emptyLicence],
+    }));
+  };
+
+  const filteredProviders = providers
+    .filter((provider: any) => {
+      if (!search) return true;
+      const haystack = [provider.name, provider.email, provider.discipline, provider.licenceNumber]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return haystack.includes(search.toLowerCase());
+    })
+    .sort((a: any, b: any) => (a.name || "").localeCompare(b.name || ""));
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        {/* Page Header */}
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-slate-900 sm:text-3xl sm:truncate">
+              Providers
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Practitioners who bill through this organization and their licences
+            </p>
+          </div>
+          {canManage && (
+            <div className="mt-4 flex gap-3 md:mt-0 md:ml-4">
+              <Button onClick={openCreate} data-testid="button-new-provider">
+                <i className="fas fa-user-md mr-2"></i>
+                Add Provider
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Filters */}
+        <Card className="mt-8">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div className="sm:col-span-2">
+                <Label htmlFor="provider-search">Search</Label>
+                <Input
+                  id="provider-search"
+                  className="mt-1"
+                  placeholder="Name, email, discipline or licence number"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  data-testid="input-provider-search"
+                />
+              </div>
+              <div className="flex items-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowArchived(!showArchived)}
+                  data-testid="button-toggle-archived"
+                >
+                  <i className={`fas ${showArchived ? 'fa-eye-slash' : 'fa-archive'} mr-2`}></i>
+                  {showArchived ? "Hide Archived" : "Show Archived"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Provider List */}
+        <Card className="mt-8">
+          <CardContent className="p-0">
+            {providersLoading ? (
+              <div className="p-6 text-sm text-slate-500">Loading providers...</div>
+            ) : filteredProviders.length === 0 ? (
+              <div className="p-6 text-sm text-slate-500" data-testid="providers-empty">
+                {search ? "No providers match your search" : "No providers yet"}
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Name</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Discipline</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Licences</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Contact</th>
+                      <th className="relative px-4 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {filteredProviders.map((provider: any) => (
+                      <tr key={provider.id} data-testid={`provider-row-${provider.id}`}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                          {provider.name}
+                          {provider.archivedAt && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                              Archived
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                          {provider.discipline || '—'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-500">
+                          {(provider.licences || []).length > 0
+                            ? provider.licences.map((licence: any) => `${licence.discipline}: ${licence.number}${licence.province ? ` (${licence.province})` : ''}`).join(', ')
+                            : provider.licenceNumber || '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                          {[provider.email, provider.phone].filter(Boolean).join(' · ') || '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm space-x-2">
+                          {canManage && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => openEdit(provider)} data-testid={`button-edit-provider-${provider.id}`}>
+                                Edit
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={archiveProviderMutation.isPending}
+                                onClick={() => archiveProviderMutation.mutate({ id: provider.id, action: provider.archivedAt ? 'restore' : 'archive' })}
+                                data-testid={`button-archive-provider-${provider.id}`}
+                              >
+                                {provider.archivedAt ? "Restore" : "Archive"}
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit Dialog */}
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Provider" : "Add Provider"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="provider-name">Full Name</Label>
+                  <Input id="provider-name" className="mt-1" value={form.name} onChange={(e) => updateField("name", e.target.value)} data-testid="input-provider-name" />
+                </div>
+                <div>
+                  <Label htmlFor="provider-discipline">Primary Discipline</Label>
+                  <Input
+                    id="provider-discipline"
+                    className="mt-1"
+                    placeholder="e.g. dentistry, physiotherapy"
+                    value={form.discipline}
+                    onChange={(e) => updateField("discipline", e.target.value)}
+                    data-testid="input-provider-discipline"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="provider-email">Email</Label>
+                  <Input id="provider-email" type="email" className="mt-1" value={form.email} onChange={(e) => updateField("email", e.target.value)} data-testid="input-provider-email" />
+                </div>
+                <div>
+                  <Label htmlFor="provider-phone">Phone</Label>
+                  <Input id="provider-phone" type="tel" className="mt-1" value={form.phone} onChange={(e) => updateField("phone", e.target.value)} data-testid="input-provider-phone" />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium text-slate-900">Licences</h4>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm(current => ({ ...current, licences: [...current.licences, emptyLicence] }))}
+                    data-testid="button-add-licence"
+                  >
+                    Add Licence
+                  </Button>
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  The licence for the primary discipline is the one sent on claims.
+                </p>
+                <div className="mt-2 space-y-3">
+                  {form.licences.map((licence, index) => (
+                    <div key={index} className="grid grid-cols-2 gap-2 sm:grid-cols-5" data-testid={`licence-row-${index}`}>
+                      <Input placeholder="Discipline" value={licence.discipline} onChange={(e) => updateLicence(index, "discipline", e.target.value)} />
+                      <Input placeholder="Licence number" value={licence.number} onChange={(e) => updateLicence(index, "number", e.target.value)} />
+                      <Input placeholder="Province" maxLength={2} value={licence.province} onChange={(e) => updateLicence(index, "province", e.target.value)} />
+                      <Input type="date" value={licence.expiresAt} onChange={(e) => updateLicence(index, "expiresAt", e.target.value)} />
+                      <Button variant="outline" onClick={() => removeLicence(index)}>Remove</Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {duplicates.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900" data-testid="provider-duplicates">
+                  <p className="font-medium">This may be a provider you already have:</p>
+                  <ul className="mt-2 list-disc pl-5">
+                    {duplicates.map((duplicate) => (
+                      <li key={duplicate.id}>
+                        {duplicate.name} — same {duplicate.matchedOn.join(' and ')}
+                        {duplicate.archived && " (archived)"}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                {duplicates.length > 0 ? (
+                  <Button
+                    onClick={() => saveProviderMutation.mutate({ allowDuplicate: true })}
+                    disabled={saveProviderMutation.isPending}
+                    data-testid="button-save-provider-anyway"
+                  >
+                    Save Anyway
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSave}
+                    disabled={!form.name.trim() || saveProviderMutation.isPending}
+                    data-testid="button-save-provider"
+                  >
+                    {saveProviderMutation.isPending ? "Saving..." : "Save Provider"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
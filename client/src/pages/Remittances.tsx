@@ -19,6 +19,11 @@ export default function Remittances() {
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [dateFilter, setDateFilter] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [importInsurerId, setImportInsurerId] = useState("");
+  const [importFormat, setImportFormat] = useState("generic_csv");
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [selectedClaims, setSelectedClaims] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -44,9 +49,88 @@ export default function Remittances() {
     retry: false,
   });
 
+  const { data: reconciliationQueue = [] } = useQuery<any[]>({
+    queryKey: ["/api/remittances/reconciliation"],
+    retry: false,
+  });
+
+  const { data: claims = [] } = useQuery<any[]>({
+    queryKey: ["/api/claims"],
+    retry: false,
+  });
+
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const refreshRemittanceQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/remittances"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/remittances/reconciliation"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/claims"] });
+  };
+
+  const importRemittanceMutation = useMutation({
+    mutationFn: async (importData: { insurerId: string; format: string; fileName: string; content: string }) => {
+      const response = await apiRequest("/api/remittances/import", "POST", importData);
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      const { totalLines, matchedLines, unmatchedLines } = result.remittanceImport;
+      toast({
+        title: "Remittance imported",
+        description: `${totalLines} payment lines: ${matchedLines} matched, ${unmatchedLines} need reconciliation`,
+      });
+      refreshRemittanceQueries();
+      setImportDialogOpen(false);
+      setImportFile(null);
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to import remittance file"),
+  });
+
+  const matchLineMutation = useMutation({
+    mutationFn: async ({ lineId, claimId }: { lineId: string; claimId: string }) => {
+      const response = await apiRequest(`/api/remittances/reconciliation/${lineId}/match`, "POST", { claimId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Payment matched",
+        description: "The claim has been updated from the remittance line",
+      });
+      refreshRemittanceQueries();
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to match payment line"),
+  });
+
+  const dismissLineMutation = useMutation({
+    mutationFn: async (lineId: string) => {
+      const response = await apiRequest(`/api/remittances/reconciliation/${lineId}/dismiss`, "POST", {});
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshRemittanceQueries();
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to dismiss payment line"),
+  });
+
   const uploadRemittanceMutation = useMutation({
     mutationFn: async (remittanceData: any) => {
-      const response = await apiRequest("POST", "/api/remittances", remittanceData);
+      const response = await apiRequest("/api/remittances", "POST", remittanceData);
       return response.json();
     },
     onSuccess: () => {
@@ -90,7 +174,7 @@ export default function Remittances() {
   }
 
   const handleGetUploadParameters = async () => {
-    const response = await apiRequest("POST", "/api/objects/upload", {});
+    const response = await apiRequest("/api/objects/upload", "POST", {});
     const data = await response.json();
     return { method: "PUT" as const, url: data.uploadURL };
   };
@@ -108,6 +192,30 @@ export default function Remittances() {
     }
   };
 
+  const handleImport = () => {
+    if (!importFile || !importInsurerId) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      importRemittanceMutation.mutate({
+        insurerId: importInsurerId,
+        format: importFormat,
+        fileName: importFile.name,
+        content: String(reader.result ?? ''),
+      });
+    };
+    reader.onerror = () => {
+      toast({
+        title: "Error",
+        description: "Could not read the selected file",
+        variant: "destructive",
+      });
+    };
+    reader.readAsText(importFile);
+  };
+
+  const reconcilableClaims = claims.filter((claim: any) => claim.status !== 'draft');
+
   const filteredRemittances = remittances?.filter((remittance: any) => {
     if (statusFilter !== "all" && remittance.status !== statusFilter) return false;
     if (dateFilter && !remittance.createdAt.includes(dateFilter)) return false;
@@ -135,7 +243,9 @@ export default function Remittances() {
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'received': return 'bg-blue-100 text-blue-800';
-      case 'processed': return 'bg-green-100 text-green-800';
+      case 'processed':
+      case 'paid': return 'bg-green-100 text-green-800';
+      case 'denied':
       case 'error': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -154,7 +264,77 @@ export default function Remittances() {
               Upload and manage payment notifications from insurance providers
             </p>
           </div>
-          <div className="mt-4 flex md:mt-0 md:ml-4">
+          <div className="mt-4 flex gap-3 md:mt-0 md:ml-4">
+            <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" data-testid="button-import-remittance">
+                  <i className="fas fa-file-import mr-2"></i>
+                  Import Payment File
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Import Remittance Advice</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <p className="text-sm text-slate-600">
+                    Payment lines are matched to claims by reference number, transaction ID, or
+                    patient, service date and amount. Unmatched lines go to the reconciliation queue.
+                  </p>
+
+                  <div>
+                    <Label htmlFor="import-insurer">Insurer</Label>
+                    <Select value={importInsurerId} onValueChange={setImportInsurerId}>
+                      <SelectTrigger id="import-insurer" className="mt-1" data-testid="select-import-insurer">
+                        <SelectValue placeholder="Select insurer" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {insurers.map((insurer: any) => (
+                          <SelectItem key={insurer.id} value={insurer.id}>{insurer.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="import-format">File Format</Label>
+                    <Select value={importFormat} onValueChange={setImportFormat}>
+                      <SelectTrigger id="import-format" className="mt-1" data-testid="select-import-format">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="cdanet_eob">CDAnet EOB responses (fixed-width, one per line)</SelectItem>
+                        <SelectItem value="telus_csv">TELUS eClaims payment statement (CSV)</SelectItem>
+                        <SelectItem value="telus_json">TELUS eClaims payment statement (JSON)</SelectItem>
+                        <SelectItem value="generic_csv">Generic CSV</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="import-file">File</Label>
+                    <Input
+                      id="import-file"
+                      type="file"
+                      className="mt-1"
+                      accept=".csv,.json,.txt"
+                      onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+                      data-testid="input-import-file"
+                    />
+                  </div>
+
+                  <Button
+                    className="w-full"
+                    onClick={handleImport}
+                    disabled={!importFile || !importInsurerId || importRemittanceMutation.isPending}
+                    data-testid="button-submit-import"
+                  >
+                    {importRemittanceMutation.isPending ? "Importing..." : "Import"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+
             <Dialog open={uploadDialogOpen} onOpenChange={setUploadDialogOpen}>
               <DialogTrigger asChild>
                 <Button data-testid="button-upload-remittance">
@@ -202,6 +382,8 @@ export default function Remittances() {
                     <SelectItem value="all">All Statuses</SelectItem>
                     <SelectItem value="received">Received</SelectItem>
                     <SelectItem value="processed">Processed</SelectItem>
+                    <SelectItem value="paid">Paid</SelectItem>
+                    <SelectItem value="denied">Denied</SelectItem>
                     <SelectItem value="error">Error</SelectItem>
                   </SelectContent>
                 </Select>
@@ -238,6 +420,105 @@ export default function Remittances() {
           </CardContent>
         </Card>
 
+        {/* Reconciliation Queue */}
+        {reconciliationQueue.length > 0 && (
+          <Card className="mt-8" data-testid="reconciliation-queue">
+            <CardContent className="p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-slate-900">
+                  Reconciliation Queue ({reconciliationQueue.length})
+                </h3>
+                <p className="text-sm text-slate-500">
+                  Payment lines that could not be matched to a claim automatically
+                </p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Reference</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Patient</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Service Date</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Billed</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Paid</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Outcome</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Claim</th>
+                      <th className="relative px-4 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {reconciliationQueue.map((line: any) => (
+                      <tr key={line.id} data-testid={`reconciliation-row-${line.id}`}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                          {line.referenceNumber || line.externalId || `Line ${line.lineNumber}`}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                          {line.patientName || '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                          {line.serviceDate ? new Date(line.serviceDate).toLocaleDateString('en-CA') : '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                          {formatCurrency(line.amountBilled)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                          {formatCurrency(line.amountPaid)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(line.outcome)}`}>
+                            {line.outcome.charAt(0).toUpperCase() + line.outcome.slice(1)}
+                          </span>
+                          {line.reasonCodes?.length > 0 && (
+                            <span className="ml-2 text-xs text-slate-500">{line.reasonCodes.join(', ')}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm min-w-[14rem]">
+                          <Select
+                            value={selectedClaims[line.id] || ""}
+                            onValueChange={(claimId) => setSelectedClaims(prev => ({ ...prev, [line.id]: claimId }))}
+                          >
+                            <SelectTrigger data-testid={`select-claim-${line.id}`}>
+                              <SelectValue placeholder="Select claim" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {reconcilableClaims.map((claim: any) => (
+                                <SelectItem key={claim.id} value={claim.id}>
+                                  {claim.claimNumber || claim.id.slice(-8)} · {formatCurrency(claim.amount)} · {claim.status}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                          <Button
+                            size="sm"
+                            disabled={!selectedClaims[line.id] || matchLineMutation.isPending}
+                            onClick={() => matchLineMutation.mutate({ lineId: line.id, claimId: selectedClaims[line.id] })}
+                            data-testid={`button-match-${line.id}`}
+                          >
+                            Match
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={dismissLineMutation.isPending}
+                            onClick={() => dismissLineMutation.mutate(line.id)}
+                            data-testid={`button-dismiss-${line.id}`}
+                          >
+                            Dismiss
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Remittances List */}
         <Card className="mt-8">
           <CardContent className="p-6">
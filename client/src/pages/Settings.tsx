@@ -13,6 +13,8 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Bell, TestTube, Smartphone } from "lucide-react";
+import { PasskeyManager } from "@/components/MFASetup";
+import { SessionList } from "@/components/SessionList";
 
 export default function Settings() {
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -584,6 +586,10 @@ export default function Settings() {
                 </CardContent>
               </Card>
 
+              <PasskeyManager />
+
+              <SessionList />
+
               <Card>
                 <CardHeader>
                   <CardTitle>API Access</CardTitle>
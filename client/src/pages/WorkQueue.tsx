@@ -0,0 +1,177 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { StatusBadge } from "@/components/StatusBadge";
+
+interface WorkQueueItem {
+  claimId: string;
+  orgId: string;
+  orgName: string;
+  status: string;
+  action: 'complete' | 'resubmit' | 'respond';
+  type: 'claim' | 'preauth';
+  amount: string;
+  currency: string;
+  claimNumber: string | null;
+  updatedAt: string | null;
+}
+
+const actionLabels: Record<WorkQueueItem['action'], string> = {
+  complete: 'Finish and submit',
+  respond: 'Send requested information',
+  resubmit: 'Review and resubmit',
+};
+
+export default function WorkQueue() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: items = [], isLoading: queueLoading, error } = useQuery<WorkQueueItem[]>({
+    queryKey: ["/api/work-queue"],
+    retry: false,
+  });
+
+  // Claims from another organization open after switching to it
+  const openClaimMutation = useMutation({
+    mutationFn: async (item: WorkQueueItem) => {
+      if (item.orgId !== user?.orgId) {
+        await apiRequest("/api/orgs/active", "POST", { orgId: item.orgId });
+        await queryClient.resetQueries();
+      }
+      return item;
+    },
+    onSuccess: (item) => setLocation(`/claims/${item.claimId}`),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to switch organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (error && isUnauthorizedError(error as Error)) {
+    toast({
+      title: "Unauthorized",
+      description: "You are logged out. Logging in again...",
+      variant: "destructive",
+    });
+    setTimeout(() => {
+      window.location.href = "/api/login";
+    }, 500);
+    return null;
+  }
+
+  const formatAmount = (item: WorkQueueItem) =>
+    new Intl.NumberFormat('en-CA', { style: 'currency', currency: item.currency || 'CAD' }).format(Number(item.amount));
+
+  const formatDate = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' }) : '—';
+
+  const orgCount = new Set(items.map(item => item.orgId)).size;
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="md:flex md:items-center md:justify-between mb-8">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-slate-900 sm:text-3xl sm:truncate">
+              My Work Queue
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Claims waiting on you across every organization you work for
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-6">
+            {queueLoading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+                <p className="mt-4 text-slate-500">Loading work queue...</p>
+              </div>
+            ) : items.length === 0 ? (
+              <div className="text-center py-8 text-slate-500">
+                <i className="fas fa-check-circle text-4xl mb-4 text-slate-300"></i>
+                <p className="text-lg font-medium">Nothing waiting on you</p>
+                <p className="text-sm">Drafts, denied claims and information requests will appear here</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-slate-500 mb-4" data-testid="work-queue-summary">
+                  {items.length} claim{items.length === 1 ? '' : 's'} across {orgCount} organization{orgCount === 1 ? '' : 's'}
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Organization</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Claim</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Amount</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Last Updated</th>
+                        <th className="relative px-6 py-3">
+                          <span className="sr-only">Actions</span>
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-200">
+                      {items.map((item) => (
+                        <tr key={item.claimId} className="hover:bg-slate-50" data-testid={`work-item-${item.claimId}`}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">{item.orgName}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                            {item.claimNumber || item.claimId.slice(0, 8)}
+                            {item.type === 'preauth' && <span className="ml-2 text-xs text-slate-400">Pre-auth</span>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <StatusBadge status={item.status} />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">{formatAmount(item)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{formatDate(item.updatedAt)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={openClaimMutation.isPending}
+                              onClick={() => openClaimMutation.mutate(item)}
+                              data-testid={`button-open-${item.claimId}`}
+                            >
+                              {actionLabels[item.action]}
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import { z } from 'zod';
 import { logger } from './security/logger';
+import { PREAUTH_REQUIRED } from './lib/claimScrubber';
 
 // Initialize OpenAI client with environment variables
 const openai = new OpenAI({
@@ -53,19 +54,6 @@ const COMMON_PROCEDURE_CODES = {
   'Z206': 'Sutures, intermediate'
 };
 
-// Pre-authorization requirements based on procedure codes
-const PREAUTH_REQUIRED = {
-  // Imaging
-  'X092': { procedure: 'MRI scan', requiresAuth: true, reason: 'High-cost diagnostic imaging' },
-  'X093': { procedure: 'CT scan', requiresAuth: true, reason: 'Advanced imaging procedure' },
-  // Surgery
-  'S065': { procedure: 'Knee arthroscopy', requiresAuth: true, reason: 'Surgical procedure' },
-  'S067': { procedure: 'Carpal tunnel release', requiresAuth: true, reason: 'Surgical procedure' },
-  // Specialist referrals
-  'A665': { procedure: 'Specialist consultation - Orthopedic', requiresAuth: true, reason: 'Specialist referral' },
-  'A415': { procedure: 'Specialist consultation - Cardiology', requiresAuth: true, reason: 'Specialist referral' }
-};
-
 // Schema for document analysis response
 const DocumentAnalysisSchema = z.object({
   patientName: z.string().optional(),
@@ -319,8 +307,8 @@ export class AIClaimsAssistant {
   private checkPreAuthRequirements(codes: any[]): { required: boolean; message: string } {
     for (const code of codes) {
       const codeStr = String(code.code || code);
-      if (codeStr in PREAUTH_REQUIRED) {
-        const requirement = PREAUTH_REQUIRED[codeStr as keyof typeof PREAUTH_REQUIRED];
+      const requirement = PREAUTH_REQUIRED[codeStr.trim().toUpperCase()];
+      if (requirement) {
         return {
           required: true,
           message: `Pre-authorization may be required for ${requirement.procedure}: ${requirement.reason}`
@@ -0,0 +1,115 @@
+/**
+ * Blob Store Interface and Factory
+ * Common interface for object storage drivers (GCS, S3, local disk). Keys
+ * are paths relative to the store's private root, e.g. `uploads/<uuid>`;
+ * the app addresses them as `/objects/<key>` (see server/objectStorage.ts).
+ */
+
+import type { Readable } from 'node:stream';
+import type { ObjectAclPolicy } from '../objectAcl';
+import { GcsBlobStore } from './gcs';
+import { S3BlobStore } from './s3';
+import { LocalBlobStore } from './local';
+
+export type BlobStoreDriver = 'gcs' | 's3' | 'local';
+
+export interface BlobMetadata {
+  contentType: string;
+  size: number;
+  aclPolicy: ObjectAclPolicy | null;
+}
+
+export interface BlobStore {
+  readonly driver: BlobStoreDriver;
+
+  /**
+   * Metadata of the object, or null when it does not exist
+   */
+  head(key: string): Promise<BlobMetadata | null>;
+
+  /**
+   * Stream the object's contents, or null when it does not exist
+   */
+  createReadStream(key: string): Promise<Readable | null>;
+
+  /**
+   * Create or replace the object
+   */
+  write(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<void>;
+
+  /**
+   * Create the object only if it does not exist yet, checked atomically by
+   * the store; false when it already exists
+   */
+  create(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<boolean>;
+
+  /**
+   * Delete the object; false when it was already gone
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Replace the object's ACL policy; false when it does not exist
+   */
+  setAclPolicy(key: string, aclPolicy: ObjectAclPolicy): Promise<boolean>;
+
+  /**
+   * A URL the browser can PUT the object's contents to until ttlSec from now
+   */
+  getUploadUrl(key: string, ttlSec: number): Promise<string>;
+
+  /**
+   * The key behind one of this store's own URLs (e.g. an upload URL with
+   * its query removed), or null when the URL is not one of them
+   */
+  keyFromUrl(url: string): string | null;
+}
+
+let store: BlobStore | null = null;
+
+/**
+ * The configured store. STORAGE_DRIVER picks the driver; without it S3 is
+ * used when S3_BUCKET is set, GCS when PRIVATE_OBJECT_DIR is a /bucket/path,
+ * and local disk otherwise.
+ */
+export function getBlobStore(): BlobStore {
+  if (store) return store;
+
+  const privateDir = process.env.PRIVATE_OBJECT_DIR || '';
+  const driver = process.env.STORAGE_DRIVER
+    || (process.env.S3_BUCKET ? 's3' : privateDir.startsWith('/') ? 'gcs' : 'local');
+
+  switch (driver) {
+    case 'gcs':
+      if (!privateDir.startsWith('/')) {
+        throw new Error('STORAGE_DRIVER=gcs needs PRIVATE_OBJECT_DIR set to /<bucket>/<path>');
+      }
+      store = new GcsBlobStore(privateDir);
+      break;
+    case 's3': {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error('STORAGE_DRIVER=s3 needs S3_BUCKET');
+      }
+      const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+      store = new S3BlobStore({
+        bucket,
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        region: process.env.S3_REGION || (process.env.S3_ENDPOINT ? 'auto' : 'us-east-1'),
+        prefix: process.env.S3_PREFIX || '',
+        // Without keys the SDK's default credential chain (IAM role, profile) applies
+        credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+      });
+      break;
+    }
+    case 'local':
+      store = new LocalBlobStore(process.env.STORAGE_DIR || './uploads');
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+
+  console.log(`[BlobStore] Using ${store.driver} object storage`);
+  return store;
+}
@@ -0,0 +1,154 @@
+/**
+ * Google Cloud Storage driver
+ * Authenticates through the Replit sidecar, which also signs upload URLs.
+ * PRIVATE_OBJECT_DIR (/<bucket>/<path>) is the root every key lives under;
+ * ACL policies are kept in the object's custom metadata.
+ */
+
+import { Storage, type File } from '@google-cloud/storage';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ObjectAclPolicy } from '../objectAcl';
+import type { BlobMetadata, BlobStore } from './base';
+import { safeFetch } from '../net/allowlist';
+
+const REPLIT_SIDECAR_ENDPOINT = 'http://127.0.0.1:1106';
+const ACL_POLICY_METADATA_KEY = 'custom:aclPolicy';
+const PUBLIC_URL_PREFIX = 'https://storage.googleapis.com/';
+
+let client: Storage | null = null;
+
+function storageClient(): Storage {
+  client ??= new Storage({
+    credentials: {
+      audience: 'replit',
+      subject_token_type: 'access_token',
+      token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+      type: 'external_account',
+      credential_source: {
+        url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+        format: {
+          type: 'json',
+          subject_token_field_name: 'access_token',
+        },
+      },
+      universe_domain: 'googleapis.com',
+    },
+    projectId: '',
+  });
+  return client;
+}
+
+function parseObjectPath(path: string): { bucketName: string; objectName: string } {
+  const [bucketName, ...rest] = path.replace(/^\/+/, '').split('/');
+  if (!bucketName || rest.length === 0) {
+    throw new Error('Invalid path: must contain at least a bucket name');
+  }
+  return { bucketName, objectName: rest.join('/') };
+}
+
+export class GcsBlobStore implements BlobStore {
+  readonly driver = 'gcs' as const;
+  private readonly root: string;
+
+  constructor(privateDir: string) {
+    this.root = privateDir.replace(/\/+$/, '');
+  }
+
+  private file(key: string): File {
+    const { bucketName, objectName } = parseObjectPath(`${this.root}/${key}`);
+    return storageClient().bucket(bucketName).file(objectName);
+  }
+
+  async head(key: string): Promise<BlobMetadata | null> {
+    const file = this.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+
+    const [metadata] = await file.getMetadata();
+    const aclPolicy = metadata.metadata?.[ACL_POLICY_METADATA_KEY];
+    return {
+      contentType: metadata.contentType || 'application/octet-stream',
+      size: Number(metadata.size ?? 0),
+      aclPolicy: aclPolicy ? JSON.parse(String(aclPolicy)) : null,
+    };
+  }
+
+  async createReadStream(key: string): Promise<Readable | null> {
+    const file = this.file(key);
+    const [exists] = await file.exists();
+    return exists ? file.createReadStream() : null;
+  }
+
+  async write(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<void> {
+    await this.save(key, body, contentType, aclPolicy, false);
+  }
+
+  async create(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<boolean> {
+    try {
+      await this.save(key, body, contentType, aclPolicy, true);
+      return true;
+    } catch (error: any) {
+      if (error?.code === 412) return false;
+      throw error;
+    }
+  }
+
+  // Generation 0 matches only an object that does not exist yet
+  private async save(key: string, body: Buffer | Readable, contentType: string, aclPolicy: ObjectAclPolicy | undefined, exclusive: boolean): Promise<void> {
+    const file = this.file(key);
+    const options = {
+      contentType,
+      resumable: false,
+      metadata: aclPolicy ? { metadata: { [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy) } } : undefined,
+      preconditionOpts: exclusive ? { ifGenerationMatch: 0 } : undefined,
+    };
+    if (Buffer.isBuffer(body)) {
+      await file.save(body, options);
+    } else {
+      await pipeline(body, file.createWriteStream(options));
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const file = this.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return false;
+    await file.delete();
+    return true;
+  }
+
+  async setAclPolicy(key: string, aclPolicy: ObjectAclPolicy): Promise<boolean> {
+    const file = this.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return false;
+    await file.setMetadata({ metadata: { [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy) } });
+    return true;
+  }
+
+  async getUploadUrl(key: string, ttlSec: number): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(`${this.root}/${key}`);
+    const response = await safeFetch(`${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        bucket_name: bucketName,
+        object_name: objectName,
+        method: 'PUT',
+        expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to sign object URL, errorcode: ${response.status}, make sure you're running on Replit`);
+    }
+
+    const { signed_url: signedURL } = await response.json();
+    return signedURL;
+  }
+
+  keyFromUrl(url: string): string | null {
+    if (!url.startsWith(PUBLIC_URL_PREFIX)) return null;
+    const path = decodeURIComponent(new URL(url).pathname);
+    return path.startsWith(`${this.root}/`) ? path.slice(this.root.length + 1) : null;
+  }
+}
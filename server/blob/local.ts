@@ -0,0 +1,143 @@
+/**
+ * Local disk driver for development and CI
+ * Objects are files under STORAGE_DIR; each has a `<file>.meta.json`
+ * sidecar with its content type and ACL policy. Upload URLs point back at
+ * the app (`PUT /objects/<key>`) and are HMAC-signed, so the browser upload
+ * flow works without any cloud service.
+ */
+
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ObjectAclPolicy } from '../objectAcl';
+import type { BlobMetadata, BlobStore } from './base';
+import { signObjectUrl } from '../security/signedUrls';
+
+const META_SUFFIX = '.meta.json';
+
+interface SidecarMetadata {
+  contentType: string;
+  aclPolicy: ObjectAclPolicy | null;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+export class LocalBlobStore implements BlobStore {
+  readonly driver = 'local' as const;
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // The file for a key; keys that would leave the root are refused
+  private filePath(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(`${this.root}${path.sep}`) || file.endsWith(META_SUFFIX)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return file;
+  }
+
+  private async readSidecar(file: string): Promise<SidecarMetadata> {
+    try {
+      return JSON.parse(await fsp.readFile(`${file}${META_SUFFIX}`, 'utf8'));
+    } catch (error) {
+      if (isMissing(error)) return { contentType: 'application/octet-stream', aclPolicy: null };
+      throw error;
+    }
+  }
+
+  private async writeSidecar(file: string, metadata: SidecarMetadata): Promise<void> {
+    await fsp.writeFile(`${file}${META_SUFFIX}`, JSON.stringify(metadata));
+  }
+
+  async head(key: string): Promise<BlobMetadata | null> {
+    const file = this.filePath(key);
+    try {
+      const stats = await fsp.stat(file);
+      return { ...(await this.readSidecar(file)), size: stats.size };
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string): Promise<Readable | null> {
+    const file = this.filePath(key);
+    try {
+      await fsp.access(file);
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+    return fs.createReadStream(file);
+  }
+
+  async write(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<void> {
+    await this.writeFile(key, body, { contentType, aclPolicy: aclPolicy ?? null }, false);
+  }
+
+  async create(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<boolean> {
+    return this.writeFile(key, body, { contentType, aclPolicy: aclPolicy ?? null }, true);
+  }
+
+  // Written aside and moved into place, so readers never see a partial file.
+  // An exclusive write links the file instead of renaming it, which fails
+  // when the key already exists.
+  private async writeFile(key: string, body: Buffer | Readable, metadata: SidecarMetadata, exclusive: boolean): Promise<boolean> {
+    const file = this.filePath(key);
+    await fsp.mkdir(path.dirname(file), { recursive: true });
+
+    const temporary = `${file}.${crypto.randomUUID()}.tmp`;
+    try {
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, fs.createWriteStream(temporary));
+      if (exclusive) {
+        await fsp.link(temporary, file);
+      } else {
+        await fsp.rename(temporary, file);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'EEXIST') return false;
+      throw error;
+    } finally {
+      await fsp.rm(temporary, { force: true });
+    }
+    await this.writeSidecar(file, metadata);
+    return true;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const file = this.filePath(key);
+    try {
+      await fsp.unlink(file);
+    } catch (error) {
+      if (isMissing(error)) return false;
+      throw error;
+    }
+    await fsp.rm(`${file}${META_SUFFIX}`, { force: true });
+    return true;
+  }
+
+  async setAclPolicy(key: string, aclPolicy: ObjectAclPolicy): Promise<boolean> {
+    const file = this.filePath(key);
+    if (!(await this.head(key))) return false;
+    await this.writeSidecar(file, { ...(await this.readSidecar(file)), aclPolicy });
+    return true;
+  }
+
+  async getUploadUrl(key: string, ttlSec: number): Promise<string> {
+    this.filePath(key);
+    return signObjectUrl('PUT', `/objects/${key}`, ttlSec);
+  }
+
+  keyFromUrl(): string | null {
+    // Upload URLs are already /objects/<key> paths
+    return null;
+  }
+}
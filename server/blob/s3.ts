@@ -0,0 +1,166 @@
+/**
+ * S3-compatible driver (AWS S3, Cloudflare R2, MinIO)
+ * Keys live under S3_PREFIX in S3_BUCKET. ACL policies are kept in the
+ * object's user metadata, which S3 can only change by copying the object
+ * onto itself.
+ */
+
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { Readable } from 'node:stream';
+import type { ObjectAclPolicy } from '../objectAcl';
+import type { BlobMetadata, BlobStore } from './base';
+
+const ACL_POLICY_METADATA_KEY = 'acl-policy';
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  prefix: string;
+  endpoint?: string; // R2, MinIO; AWS when unset
+  credentials?: { accessKeyId: string; secretAccessKey: string };
+}
+
+function isNotFound(error: any): boolean {
+  return error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404;
+}
+
+// If-None-Match lost to an existing object (409 when a concurrent write is still in flight)
+function isPreconditionFailed(error: any): boolean {
+  const status = error?.$metadata?.httpStatusCode;
+  return error?.name === 'PreconditionFailed' || error?.name === 'ConditionalRequestConflict' || status === 412 || status === 409;
+}
+
+async function toBuffer(body: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export class S3BlobStore implements BlobStore {
+  readonly driver = 's3' as const;
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3BlobStoreOptions) {
+    this.client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region,
+      credentials: options.credentials,
+      // R2 and MinIO only support path-style addressing
+      forcePathStyle: !!options.endpoint,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.options.prefix}${key}`;
+  }
+
+  async head(key: string): Promise<BlobMetadata | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+      const aclPolicy = response.Metadata?.[ACL_POLICY_METADATA_KEY];
+      return {
+        contentType: response.ContentType || 'application/octet-stream',
+        size: response.ContentLength ?? 0,
+        aclPolicy: aclPolicy ? JSON.parse(aclPolicy) : null,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string): Promise<Readable | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+      return response.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async write(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<void> {
+    await this.put(key, body, contentType, aclPolicy);
+  }
+
+  async create(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy): Promise<boolean> {
+    try {
+      await this.put(key, body, contentType, aclPolicy, '*');
+      return true;
+    } catch (error) {
+      if (isPreconditionFailed(error)) return false;
+      throw error;
+    }
+  }
+
+  private async put(key: string, body: Buffer | Readable, contentType: string, aclPolicy?: ObjectAclPolicy, ifNoneMatch?: string): Promise<void> {
+    // PutObject needs the length up front, so streams are buffered
+    const contents = Buffer.isBuffer(body) ? body : await toBuffer(body);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: contents,
+      ContentType: contentType,
+      Metadata: aclPolicy ? { [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy) } : undefined,
+      IfNoneMatch: ifNoneMatch,
+    }));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!(await this.head(key))) return false;
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+    return true;
+  }
+
+  async setAclPolicy(key: string, aclPolicy: ObjectAclPolicy): Promise<boolean> {
+    const existing = await this.head(key);
+    if (!existing) return false;
+
+    const objectKey = this.objectKey(key);
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.options.bucket,
+      Key: objectKey,
+      CopySource: `${this.options.bucket}/${encodeURIComponent(objectKey)}`,
+      MetadataDirective: 'REPLACE',
+      ContentType: existing.contentType,
+      Metadata: { [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy) },
+    }));
+    return true;
+  }
+
+  async getUploadUrl(key: string, ttlSec: number): Promise<string> {
+    const command = new PutObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) });
+    return getSignedUrl(this.client, command, { expiresIn: ttlSec });
+  }
+
+  keyFromUrl(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const { bucket, prefix } = this.options;
+    const path = decodeURIComponent(parsed.pathname).replace(/^\//, '');
+    let objectKey: string | null = null;
+    if (parsed.hostname.startsWith(`${bucket}.`)) {
+      objectKey = path; // virtual-hosted: bucket.host/key
+    } else if (path.startsWith(`${bucket}/`)) {
+      objectKey = path.slice(bucket.length + 1); // path-style: host/bucket/key
+    }
+
+    if (!objectKey || !objectKey.startsWith(prefix)) return null;
+    return objectKey.slice(prefix.length);
+  }
+}
@@ -5,7 +5,7 @@
 
 import { ConnectorError } from '../lib/errors';
 import { db } from '../db';
-import { connectorConfigs, organizations } from '../../shared/schema';
+import { connectorConfigs, organizations, type ClaimLineAdjudication, type EligibilityCoverage } from '../../shared/schema';
 import { eq, and } from 'drizzle-orm';
 
 export interface SubmitResult {
@@ -13,14 +13,60 @@ export interface SubmitResult {
   status: 'submitted' | 'error';
   message?: string;
   raw?: any;
+  attachments?: AttachmentResult[]; // per-document results when attachments went with the claim
 }
 
 export interface PollResult {
   status: 'pending' | 'infoRequested' | 'paid' | 'denied';
   payload?: any;
+  lines?: ClaimLineAdjudication[]; // per-line results once the claim is adjudicated
+}
+
+export interface EligibilityResult {
+  status: 'eligible' | 'ineligible' | 'unknown';
+  coverage?: EligibilityCoverage[];
+  message?: string;
+  externalId?: string; // carrier reference for the check
+  raw?: any;
+}
+
+/**
+ * What an insurer network accepts as supporting documents. `withClaim`
+ * connectors package attachments into the claim submission; `afterClaim`
+ * connectors send each one as its own transaction once the claim is accepted.
+ */
+export interface AttachmentCapabilities {
+  delivery: 'withClaim' | 'afterClaim';
+  maxBytes: number; // per file
+  maxCount: number; // per claim
+  mimeTypes: string[];
+}
+
+export interface AttachmentDocument {
+  attachmentId: string;
+  fileName: string;
+  mime: string;
+  kind: string; // 'photo', 'pdf', 'note'
+  size: number;
+  checksum: string; // SHA-256 (hex)
+  content: Buffer;
+}
+
+export interface AttachmentResult {
+  attachmentId: string;
+  status: 'accepted' | 'rejected';
+  externalId?: string; // carrier reference for the document
+  message?: string;
+  raw?: any;
 }
 
 export interface Connector {
+  /**
+   * Sizes, formats and count of attachments the network accepts
+   */
+  readonly attachmentCapabilities: AttachmentCapabilities;
+
+
   /**
    * Validate claim data before submission
    */
@@ -29,12 +75,34 @@ export interface Connector {
   /**
    * Submit claim to external system
    */
-  submitClaim(claim: any): Promise<SubmitResult>;
+  submitClaim(claim: any, attachments?: AttachmentDocument[]): Promise<SubmitResult>;
+
+  /**
+   * Send one supporting document for a claim the insurer already accepted
+   */
+  sendAttachment(claim: any, externalId: string, document: AttachmentDocument): Promise<AttachmentResult>;
 
   /**
    * Poll status of submitted claim
    */
   pollStatus(externalId: string): Promise<PollResult>;
+
+  /**
+   * Cancel a claim the insurer already accepted. `reversal` is the linked
+   * child claim that records the reversal transaction.
+   */
+  reverseClaim(original: any, reversal: any): Promise<SubmitResult>;
+
+  /**
+   * Send a corrected copy of a denied or info-requested claim. `resubmission`
+   * is the linked child claim carrying the corrections.
+   */
+  resubmitClaim(original: any, resubmission: any): Promise<SubmitResult>;
+
+  /**
+   * Ask the insurer whether the patient is covered on the date of service
+   */
+  checkEligibility(patient: any, provider: any, serviceDate: Date): Promise<EligibilityResult>;
 }
 
 /**
@@ -164,7 +232,12 @@ export abstract class BaseConnector implements Connector {
 
   // Abstract methods that must be implemented by subclasses
   abstract validate(claim: any): Promise<void>;
-  abstract submitClaim(claim: any): Promise<SubmitResult>;
+  abstract readonly attachmentCapabilities: AttachmentCapabilities;
+  abstract submitClaim(claim: any, attachments?: AttachmentDocument[]): Promise<SubmitResult>;
+  abstract sendAttachment(claim: any, externalId: string, document: AttachmentDocument): Promise<AttachmentResult>;
   abstract pollStatus(externalId: string): Promise<PollResult>;
+  abstract reverseClaim(original: any, reversal: any): Promise<SubmitResult>;
+  abstract resubmitClaim(original: any, resubmission: any): Promise<SubmitResult>;
+  abstract checkEligibility(patient: any, provider: any, serviceDate: Date): Promise<EligibilityResult>;
 }
 
@@ -3,16 +3,29 @@
  * Handles CDAnet claims submission via ITRANS network
  */
 
-import { BaseConnector, SubmitResult, PollResult } from './base';
+import { BaseConnector, SubmitResult, PollResult, EligibilityResult, type AttachmentCapabilities, type AttachmentDocument, type AttachmentResult } from './base';
 import { ConnectorError } from '../lib/errors';
-import { mapClaimToCDAnet, parseCDAnetResponse } from '../mappers/cdanet';
-import { simulateCDAnetResponse, simulateProcessingDelay } from '../sandbox/carrier-sim';
+import { mapAttachmentToCDAnet, mapClaimToCDAnet, mapEligibilityToCDAnet, mapReversalToCDAnet, parseCDAnetResponse, type CDAnetMessageOptions, type CDAnetPayload } from '../mappers/cdanet';
+import { CDAnetCodecError } from '../mappers/cdanetCodec';
+import { simulateAttachmentResponse, simulateCDAnetResponse, simulateEligibilityResponse, simulateLineAdjudication, simulateProcessingDelay } from '../sandbox/carrier-sim';
 import { db } from '../db';
-import { patients, providers } from '../../shared/schema';
-import { eq } from 'drizzle-orm';
-import type { Claim } from '../../shared/schema';
+import { patients, providers, claimLines } from '../../shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import type { Claim, Patient, Provider } from '../../shared/schema';
+
+// Test carrier accepted by the ITRANS sandbox
+const SANDBOX_CARRIER_ID = '999999';
+const SANDBOX_OFFICE_NUMBER = '0001';
 
 export class CDAnetITransConnector extends BaseConnector {
+  // CDAnet Attachments: each document follows the claim as its own ITRANS transaction
+  readonly attachmentCapabilities: AttachmentCapabilities = {
+    delivery: 'afterClaim',
+    maxBytes: 5 * 1024 * 1024,
+    maxCount: 10,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/tiff', 'application/pdf'],
+  };
+
   async validate(claim: Claim): Promise<void> {
     this.debug('Validating claim for CDAnet submission', { claimId: claim.id });
     
@@ -105,8 +118,14 @@ export class CDAnetITransConnector extends BaseConnector {
       throw new ConnectorError('VALIDATION_ERROR', 'Required claim data not found');
     }
     
-    // Map claim to CDAnet format
-    const cdanetPayload = mapClaimToCDAnet(claim, patient, provider);
+    const lines = await db
+      .select()
+      .from(claimLines)
+      .where(eq(claimLines.claimId, claim.id))
+      .orderBy(asc(claimLines.lineNumber));
+    
+    // Map claim to a CDAnet v4 message
+    const cdanetPayload = this.encode(() => mapClaimToCDAnet(claim, patient, provider, lines, this.messageOptions(patient)));
     
     if (this.isSandboxMode()) {
       // Sandbox mode - simulate submission
@@ -123,13 +142,14 @@ export class CDAnetITransConnector extends BaseConnector {
         ack: 'AA',
         transactionId: externalId,
         timestamp: new Date().toISOString(),
-        segments: cdanetPayload.segments.length,
+        transaction: cdanetPayload.transaction,
+        messageLength: cdanetPayload.message.length,
       };
       
       this.info('CDAnet sandbox submission successful', { 
         claimId: claim.id, 
         externalId,
-        segments: cdanetPayload.segments.length
+        messageLength: cdanetPayload.message.length
       });
       
       return {
@@ -147,7 +167,7 @@ export class CDAnetITransConnector extends BaseConnector {
       // This would involve:
       // 1. Loading X.509 certificates from ITRANS_CERT_PATH
       // 2. Establishing secure connection to ITRANS network
-      // 3. Sending formatted CDAnet segments
+      // 3. Sending the fixed-width CDAnet message
       // 4. Receiving and parsing acknowledgment
       // 5. Handling various response codes and errors
       
@@ -161,7 +181,7 @@ export class CDAnetITransConnector extends BaseConnector {
         endpoint: process.env.ITRANS_ENDPOINT,
       });
       
-      const response = await itransClient.submitClaim(cdanetPayload);
+      const response = await itransClient.send(cdanetPayload.message);
       const parsedResponse = parseCDAnetResponse(response);
       
       return {
@@ -179,6 +199,47 @@ export class CDAnetITransConnector extends BaseConnector {
     }
   }
 
+  async sendAttachment(claim: Claim, externalId: string, document: AttachmentDocument): Promise<AttachmentResult> {
+    this.info('Sending attachment via CDAnet Attachments', { claimId: claim.id, attachmentId: document.attachmentId });
+
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(eq(patients.id, claim.patientId));
+
+    if (!patient) {
+      throw new ConnectorError('VALIDATION_ERROR', 'Required claim data not found');
+    }
+
+    const attachmentPayload = mapAttachmentToCDAnet(externalId, document, this.messageOptions(patient));
+
+    if (this.isSandboxMode()) {
+      if (!externalId.startsWith('ITRANS-SBX-')) {
+        throw new ConnectorError('VALIDATION_ERROR', 'Invalid external ID for sandbox attachment');
+      }
+
+      await simulateProcessingDelay();
+
+      const result = simulateAttachmentResponse(document, externalId);
+      this.info('CDAnet sandbox attachment processed', { claimId: claim.id, status: result.status });
+      return {
+        ...result,
+        raw: {
+          ...result.raw,
+          transactionReference: attachmentPayload.transactionReference,
+          documentType: attachmentPayload.documentType,
+        },
+      };
+    }
+
+    // TODO: Upload through the ITRANS attachment service once live submission
+    // is implemented (see submitClaim)
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live CDAnet attachments not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
   async pollStatus(externalId: string): Promise<PollResult> {
     this.debug('Polling status for CDAnet claim', { externalId });
     
@@ -205,6 +266,10 @@ export class CDAnetITransConnector extends BaseConnector {
       
       const claimAmount = parseFloat(claim.amount.toString());
       const simulationResult = simulateCDAnetResponse(claimAmount, claimId);
+      const lines = await db
+        .select()
+        .from(claimLines)
+        .where(eq(claimLines.claimId, claimId));
       
       this.debug('CDAnet sandbox status poll result', { 
         externalId, 
@@ -218,6 +283,7 @@ export class CDAnetITransConnector extends BaseConnector {
           message: simulationResult.message,
           polledAt: new Date().toISOString(),
         },
+        lines: simulateLineAdjudication(lines, simulationResult),
       };
       
     } else {
@@ -251,4 +317,187 @@ export class CDAnetITransConnector extends BaseConnector {
       );
     }
   }
+
+  async reverseClaim(original: Claim, reversal: Claim): Promise<SubmitResult> {
+    this.info('Reversing claim via CDAnet/ITRANS', { claimId: original.id, reversalId: reversal.id });
+
+    if (!original.externalId) {
+      throw new ConnectorError('VALIDATION_ERROR', 'Only claims accepted by CDAnet can be reversed');
+    }
+
+    const [provider] = await db
+      .select()
+      .from(providers)
+      .where(eq(providers.id, original.providerId));
+
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(eq(patients.id, original.patientId));
+
+    if (!provider || !patient) {
+      throw new ConnectorError('VALIDATION_ERROR', 'Required claim data not found');
+    }
+
+    const cdanetPayload = this.encode(() => mapReversalToCDAnet(original, patient, provider, this.messageOptions(patient)));
+
+    if (this.isSandboxMode()) {
+      await simulateProcessingDelay();
+
+      const externalId = `ITRANS-SBX-REV-${reversal.id}`;
+
+      this.info('CDAnet sandbox reversal successful', {
+        claimId: original.id,
+        externalId,
+      });
+
+      return {
+        externalId,
+        status: 'submitted',
+        message: 'Claim reversed successfully in CDAnet sandbox',
+        raw: {
+          ack: 'AA',
+          transactionId: externalId,
+          originalTransactionId: original.externalId,
+          timestamp: new Date().toISOString(),
+          transaction: cdanetPayload.transaction,
+          messageLength: cdanetPayload.message.length,
+        },
+      };
+    }
+
+    // TODO: Send the reversal transaction through the ITRANS client once live
+    // submission is implemented (see submitClaim)
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live CDAnet reversal not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
+  async resubmitClaim(original: Claim, resubmission: Claim): Promise<SubmitResult> {
+    this.info('Resubmitting claim via CDAnet/ITRANS', { claimId: original.id, resubmissionId: resubmission.id });
+
+    const [provider] = await db
+      .select()
+      .from(providers)
+      .where(eq(providers.id, resubmission.providerId));
+
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(eq(patients.id, resubmission.patientId));
+
+    if (!provider || !patient) {
+      throw new ConnectorError('VALIDATION_ERROR', 'Required claim data not found');
+    }
+
+    const lines = await db
+      .select()
+      .from(claimLines)
+      .where(eq(claimLines.claimId, resubmission.id))
+      .orderBy(asc(claimLines.lineNumber));
+
+    // CDAnet has no correction transaction; the corrected claim is sent as a new claim
+    const cdanetPayload = this.encode(() => mapClaimToCDAnet(resubmission, patient, provider, lines, this.messageOptions(patient)));
+
+    if (this.isSandboxMode()) {
+      await simulateProcessingDelay();
+
+      // Same format as a first submission so status polling works unchanged
+      const externalId = `ITRANS-SBX-${resubmission.id}`;
+
+      this.info('CDAnet sandbox resubmission successful', {
+        claimId: original.id,
+        externalId,
+      });
+
+      return {
+        externalId,
+        status: 'submitted',
+        message: 'Claim resubmitted successfully to CDAnet sandbox',
+        raw: {
+          ack: 'AA',
+          transactionId: externalId,
+          originalTransactionId: original.externalId,
+          timestamp: new Date().toISOString(),
+          transaction: cdanetPayload.transaction,
+          messageLength: cdanetPayload.message.length,
+        },
+      };
+    }
+
+    // TODO: Send the resubmission through the ITRANS client once live
+    // submission is implemented (see submitClaim)
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live CDAnet resubmission not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
+  async checkEligibility(patient: Patient, provider: Provider, serviceDate: Date): Promise<EligibilityResult> {
+    this.info('Checking eligibility via CDAnet/ITRANS', { patientId: patient.id });
+
+    this.config = await this.loadConfig('cdanet');
+
+    if (!provider.licenceNumber) {
+      throw new ConnectorError('VALIDATION_ERROR', 'Provider licence number is required for CDAnet');
+    }
+
+    const cdanetPayload = this.encode(() => mapEligibilityToCDAnet(patient, provider, serviceDate, this.messageOptions(patient)));
+
+    if (this.isSandboxMode()) {
+      await simulateProcessingDelay();
+
+      const result = simulateEligibilityResponse(String(cdanetPayload.values.C02 ?? ''), serviceDate);
+
+      this.info('CDAnet sandbox eligibility check complete', {
+        patientId: patient.id,
+        status: result.status,
+      });
+
+      return {
+        ...result,
+        raw: {
+          ...result.raw,
+          transaction: cdanetPayload.transaction,
+          messageLength: cdanetPayload.message.length,
+        },
+      };
+    }
+
+    // TODO: Send the eligibility transaction through the ITRANS client once live
+    // submission is implemented (see submitClaim); the carrier answers with an
+    // eligibility response (transaction 18) that parseCDAnetResponse decodes
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live CDAnet eligibility checks not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
+  /**
+   * Carrier and office identifiers for the message header. The patient's
+   * carrierId identifier wins over the configured default carrier.
+   */
+  messageOptions(patient: Patient): CDAnetMessageOptions {
+    const identifiers = patient.identifiers as any || {};
+    const sandbox = this.isSandboxMode();
+    return {
+      carrierId: identifiers.carrierId || this.config?.carrierId || (sandbox ? SANDBOX_CARRIER_ID : undefined),
+      officeNumber: process.env.ITRANS_OFFICE_NUMBER || this.config?.officeNumber || (sandbox ? SANDBOX_OFFICE_NUMBER : undefined),
+    };
+  }
+
+  /**
+   * Surface field-level encoding problems as connector validation errors
+   */
+  private encode(build: () => CDAnetPayload): CDAnetPayload {
+    try {
+      return build();
+    } catch (error) {
+      if (error instanceof CDAnetCodecError) {
+        throw new ConnectorError('VALIDATION_ERROR', error.message, { errors: error.errors });
+      }
+      throw error;
+    }
+  }
 }
@@ -2,10 +2,18 @@
  * Portal Connector - Direct web portal submissions
  */
 
-import { BaseConnector, SubmitResult, PollResult } from './base';
+import { BaseConnector, SubmitResult, PollResult, EligibilityResult, type AttachmentCapabilities, type AttachmentDocument, type AttachmentResult } from './base';
 import { ConnectorError } from '../lib/errors';
 
 export class PortalConnector extends BaseConnector {
+  // Portal uploads carry the claim form and its documents as one package
+  readonly attachmentCapabilities: AttachmentCapabilities = {
+    delivery: 'withClaim',
+    maxBytes: 20 * 1024 * 1024,
+    maxCount: 20,
+    mimeTypes: ['application/pdf', 'image/jpeg', 'image/png'],
+  };
+
   async validate(claim: any): Promise<void> {
     // Basic validation for portal submissions
     if (!claim.patientId || !claim.providerId) {
@@ -13,13 +21,34 @@ export class PortalConnector extends BaseConnector {
     }
   }
 
-  async submitClaim(claim: any): Promise<SubmitResult> {
-    // Simulate portal submission
+  async submitClaim(claim: any, attachments: AttachmentDocument[] = []): Promise<SubmitResult> {
+    // Simulate portal submission; the package manifest lists every document uploaded with the claim
+    const externalId = `PORTAL-${Date.now()}`;
     return {
-      externalId: `PORTAL-${Date.now()}`,
+      externalId,
       status: 'submitted',
       message: 'Claim submitted via portal',
-      raw: { submittedAt: new Date().toISOString() }
+      raw: {
+        submittedAt: new Date().toISOString(),
+        manifest: attachments.map(({ attachmentId, fileName, mime, size, checksum }) => ({ attachmentId, fileName, mime, size, checksum })),
+      },
+      attachments: attachments.map(document => ({
+        attachmentId: document.attachmentId,
+        status: 'accepted' as const,
+        externalId: `${externalId}-DOC-${document.attachmentId.slice(0, 8).toUpperCase()}`,
+        message: 'Uploaded with the claim package',
+      })),
+    };
+  }
+
+  async sendAttachment(claim: any, externalId: string, document: AttachmentDocument): Promise<AttachmentResult> {
+    // Simulate adding a document to an existing portal submission
+    return {
+      attachmentId: document.attachmentId,
+      status: 'accepted',
+      externalId: `${externalId}-DOC-${document.attachmentId.slice(0, 8).toUpperCase()}`,
+      message: 'Document uploaded to the portal submission',
+      raw: { uploadedAt: new Date().toISOString() },
     };
   }
 
@@ -30,4 +59,35 @@ export class PortalConnector extends BaseConnector {
       payload: { lastChecked: new Date().toISOString() }
     };
   }
-}
\ No newline at end of file
+
+  async reverseClaim(original: any, reversal: any): Promise<SubmitResult> {
+    // Simulate a withdrawal request on the portal
+    return {
+      externalId: `PORTAL-REV-${Date.now()}`,
+      status: 'submitted',
+      message: 'Claim withdrawal submitted via portal',
+      raw: {
+        submittedAt: new Date().toISOString(),
+        originalReference: original.portalReferenceNumber || original.externalId,
+      }
+    };
+  }
+
+  async resubmitClaim(original: any, resubmission: any): Promise<SubmitResult> {
+    // Portals have no correction transaction; the claim is uploaded again
+    return {
+      externalId: `PORTAL-${Date.now()}`,
+      status: 'submitted',
+      message: 'Claim re-uploaded via portal',
+      raw: {
+        submittedAt: new Date().toISOString(),
+        originalReference: original.portalReferenceNumber || original.externalId,
+      }
+    };
+  }
+
+  async checkEligibility(patient: any, provider: any, serviceDate: Date): Promise<EligibilityResult> {
+    // Portals have no eligibility transaction; coverage is checked on the insurer's website
+    throw new ConnectorError('VALIDATION_ERROR', 'Eligibility checks are not available for portal insurers');
+  }
+}
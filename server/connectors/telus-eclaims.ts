@@ -3,14 +3,14 @@
  * Handles electronic claims submission via TELUS eClaims API
  */
 
-import { BaseConnector, SubmitResult, PollResult } from './base';
+import { BaseConnector, SubmitResult, PollResult, EligibilityResult, type AttachmentCapabilities, type AttachmentDocument, type AttachmentResult } from './base';
 import { ConnectorError } from '../lib/errors';
-import { mapClaimToEClaims, parseEClaimsResponse } from '../mappers/eclaims';
-import { simulateEClaimsResponse, simulateProcessingDelay, validateSandboxToken, generateSandboxToken } from '../sandbox/carrier-sim';
+import { mapAdjustmentToEClaims, mapAttachmentToEClaims, mapClaimToEClaims, mapEligibilityToEClaims, mapReversalToEClaims, parseEClaimsResponse } from '../mappers/eclaims';
+import { simulateAttachmentResponse, simulateEClaimsResponse, simulateEligibilityResponse, simulateLineAdjudication, simulateProcessingDelay, validateSandboxToken, generateSandboxToken } from '../sandbox/carrier-sim';
 import { db } from '../db';
-import { patients, providers, claims } from '../../shared/schema';
-import { eq } from 'drizzle-orm';
-import type { Claim } from '../../shared/schema';
+import { patients, providers, claims, claimLines } from '../../shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import type { Claim, Patient, Provider } from '../../shared/schema';
 import { safeFetch } from '../net/allowlist';
 
 interface TokenCache {
@@ -21,6 +21,14 @@ interface TokenCache {
 export class TelusEClaimsConnector extends BaseConnector {
   private tokenCache: TokenCache | null = null;
 
+  // eClaims takes supporting documents in the claim request
+  readonly attachmentCapabilities: AttachmentCapabilities = {
+    delivery: 'withClaim',
+    maxBytes: 10 * 1024 * 1024,
+    maxCount: 5,
+    mimeTypes: ['application/pdf', 'image/jpeg', 'image/png', 'image/tiff'],
+  };
+
   async validate(claim: Claim): Promise<void> {
     this.debug('Validating claim for TELUS eClaims submission', { claimId: claim.id });
     
@@ -95,8 +103,8 @@ export class TelusEClaimsConnector extends BaseConnector {
     this.debug('TELUS eClaims validation passed', { claimId: claim.id });
   }
 
-  async submitClaim(claim: Claim): Promise<SubmitResult> {
-    this.info('Submitting claim via TELUS eClaims', { claimId: claim.id });
+  async submitClaim(claim: Claim, attachments: AttachmentDocument[] = []): Promise<SubmitResult> {
+    this.info('Submitting claim via TELUS eClaims', { claimId: claim.id, attachments: attachments.length });
     
     // Get related data
     const [provider] = await db
@@ -113,8 +121,14 @@ export class TelusEClaimsConnector extends BaseConnector {
       throw new ConnectorError('VALIDATION_ERROR', 'Required claim data not found');
     }
     
+    const lines = await db
+      .select()
+      .from(claimLines)
+      .where(eq(claimLines.claimId, claim.id))
+      .orderBy(asc(claimLines.lineNumber));
+    
     // Map claim to eClaims format
-    const eClaimsPayload = mapClaimToEClaims(claim, patient, provider);
+    const eClaimsPayload = mapClaimToEClaims(claim, patient, provider, lines, attachments);
     
     if (this.isSandboxMode()) {
       // Sandbox mode - simulate submission
@@ -130,15 +144,20 @@ export class TelusEClaimsConnector extends BaseConnector {
       await simulateProcessingDelay();
       
       const externalId = `TELUS-SBX-${claim.id}`;
+      const documentResults = attachments.map(document => simulateAttachmentResponse(document, externalId));
       
-      // Simulate API response
+      // Simulate API response; document contents are not echoed back
       const apiResponse = {
         success: true,
         claimId: externalId,
         submittedAt: new Date().toISOString(),
         status: 'submitted',
         sandbox: true,
-        payload: eClaimsPayload,
+        payload: {
+          ...eClaimsPayload,
+          documents: eClaimsPayload.documents?.map(({ content, ...document }) => document),
+        },
+        documents: documentResults,
       };
       
       this.info('TELUS eClaims sandbox submission successful', { 
@@ -151,6 +170,7 @@ export class TelusEClaimsConnector extends BaseConnector {
         status: 'submitted',
         message: 'Claim submitted successfully to TELUS eClaims sandbox',
         raw: apiResponse,
+        attachments: documentResults,
       };
       
     } else {
@@ -201,6 +221,42 @@ export class TelusEClaimsConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Add a supporting document to a claim eClaims already holds, e.g. one
+   * uploaded after the insurer asked for more information
+   */
+  async sendAttachment(claim: Claim, externalId: string, document: AttachmentDocument): Promise<AttachmentResult> {
+    this.info('Sending attachment via TELUS eClaims', { claimId: claim.id, attachmentId: document.attachmentId });
+
+    const eClaimsDocument = mapAttachmentToEClaims(document);
+
+    if (this.isSandboxMode()) {
+      if (!externalId.startsWith('TELUS-SBX-')) {
+        throw new ConnectorError('VALIDATION_ERROR', 'Invalid external ID for sandbox attachment');
+      }
+
+      await simulateProcessingDelay();
+
+      const result = simulateAttachmentResponse(document, externalId);
+      this.info('TELUS eClaims sandbox attachment processed', { claimId: claim.id, status: result.status });
+      return { ...result, raw: { ...result.raw, documentType: eClaimsDocument.documentType } };
+    }
+
+    /*
+    // Placeholder for live implementation:
+    const response = await safeFetch(`${process.env.ECLAIMS_ENDPOINT}/claims/${externalId}/documents`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${await this.getAccessToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(eClaimsDocument),
+    });
+    */
+
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live TELUS eClaims attachments not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
   async pollStatus(externalId: string): Promise<PollResult> {
     this.debug('Polling status for TELUS eClaims claim', { externalId });
     
@@ -225,6 +281,10 @@ export class TelusEClaimsConnector extends BaseConnector {
       
       const claimAmount = parseFloat(claim.amount.toString());
       const simulationResult = simulateEClaimsResponse(claimAmount, claimId);
+      const lines = await db
+        .select()
+        .from(claimLines)
+        .where(eq(claimLines.claimId, claimId));
       
       this.debug('TELUS eClaims sandbox status poll result', { 
         externalId, 
@@ -238,6 +298,7 @@ export class TelusEClaimsConnector extends BaseConnector {
           message: simulationResult.message,
           polledAt: new Date().toISOString(),
         },
+        lines: simulateLineAdjudication(lines, simulationResult),
       };
       
     } else {
@@ -283,6 +344,160 @@ export class TelusEClaimsConnector extends BaseConnector {
     }
   }
 
+  async reverseClaim(original: Claim, reversal: Claim): Promise<SubmitResult> {
+    this.info('Reversing claim via TELUS eClaims adjustment', { claimId: original.id, reversalId: reversal.id });
+
+    if (!original.externalId) {
+      throw new ConnectorError('VALIDATION_ERROR', 'Only claims accepted by eClaims can be reversed');
+    }
+
+    const eClaimsPayload = mapReversalToEClaims(original, reversal);
+
+    if (this.isSandboxMode()) {
+      await simulateProcessingDelay();
+
+      const externalId = `TELUS-SBX-REV-${reversal.id}`;
+
+      this.info('TELUS eClaims sandbox reversal successful', {
+        claimId: original.id,
+        externalId,
+      });
+
+      return {
+        externalId,
+        status: 'submitted',
+        message: 'Claim reversed successfully in TELUS eClaims sandbox',
+        raw: {
+          success: true,
+          adjustmentId: externalId,
+          originalClaimId: original.externalId,
+          submittedAt: new Date().toISOString(),
+          sandbox: true,
+          payload: eClaimsPayload,
+        },
+      };
+    }
+
+    /*
+    // Placeholder for live implementation:
+    const response = await safeFetch(`${process.env.ECLAIMS_ENDPOINT}/claims/${original.externalId}/adjustments`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${await this.getAccessToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(eClaimsPayload),
+    });
+    */
+
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live TELUS eClaims reversal not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
+  async resubmitClaim(original: Claim, resubmission: Claim): Promise<SubmitResult> {
+    this.info('Resubmitting claim via TELUS eClaims adjustment', { claimId: original.id, resubmissionId: resubmission.id });
+
+    const [provider] = await db
+      .select()
+      .from(providers)
+      .where(eq(providers.id, resubmission.providerId));
+
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(eq(patients.id, resubmission.patientId));
+
+    if (!provider || !patient) {
+      throw new ConnectorError('VALIDATION_ERROR', 'Required claim data not found');
+    }
+
+    const lines = await db
+      .select()
+      .from(claimLines)
+      .where(eq(claimLines.claimId, resubmission.id))
+      .orderBy(asc(claimLines.lineNumber));
+
+    const eClaimsPayload = mapAdjustmentToEClaims(original, resubmission, patient, provider, lines);
+
+    if (this.isSandboxMode()) {
+      await simulateProcessingDelay();
+
+      // Same format as a first submission so status polling works unchanged
+      const externalId = `TELUS-SBX-${resubmission.id}`;
+
+      this.info('TELUS eClaims sandbox adjustment successful', {
+        claimId: original.id,
+        externalId,
+      });
+
+      return {
+        externalId,
+        status: 'submitted',
+        message: 'Claim adjustment submitted successfully to TELUS eClaims sandbox',
+        raw: {
+          success: true,
+          claimId: externalId,
+          originalClaimId: original.externalId,
+          submittedAt: new Date().toISOString(),
+          status: 'submitted',
+          sandbox: true,
+          payload: eClaimsPayload,
+        },
+      };
+    }
+
+    /*
+    // Placeholder for live implementation:
+    const response = await safeFetch(`${process.env.ECLAIMS_ENDPOINT}/claims/${original.externalId}/adjustments`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${await this.getAccessToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(eClaimsPayload),
+    });
+    */
+
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live TELUS eClaims adjustment not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
+  async checkEligibility(patient: Patient, provider: Provider, serviceDate: Date): Promise<EligibilityResult> {
+    this.info('Checking eligibility via TELUS eClaims', { patientId: patient.id });
+
+    this.config = await this.loadConfig('eclaims');
+
+    const eligibilityRequest = mapEligibilityToEClaims(patient, provider, serviceDate);
+
+    if (this.isSandboxMode()) {
+      await simulateProcessingDelay();
+
+      const result = simulateEligibilityResponse(eligibilityRequest.patientInfo.healthCardNumber, serviceDate);
+
+      this.info('TELUS eClaims sandbox eligibility check complete', {
+        patientId: patient.id,
+        status: result.status,
+      });
+
+      return {
+        ...result,
+        raw: { ...result.raw, requestId: eligibilityRequest.requestId },
+      };
+    }
+
+    /*
+    // Placeholder for live implementation:
+    const response = await safeFetch(`${process.env.ECLAIMS_ENDPOINT}/eligibility`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${await this.getAccessToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(eligibilityRequest),
+    });
+    */
+
+    throw new ConnectorError(
+      'VALIDATION_ERROR',
+      'Live TELUS eClaims eligibility checks not yet implemented. Please use sandbox mode for testing.'
+    );
+  }
+
   /**
    * Get OAuth access token for eClaims API (live mode only)
    */
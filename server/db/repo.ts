@@ -15,8 +15,8 @@ import {
   appointments,
   preAuths
 } from '@shared/schema';
-import { eq, and, or, desc, sql, like } from 'drizzle-orm';
-import { encryptPHI, decryptPHI, hashForSearch } from '../security/field-encryption';
+import { eq, and, or, desc, sql, like, inArray } from 'drizzle-orm';
+import { encryptPHI, decryptPHI, hashForSearch, hashesForSearch } from '../security/field-encryption';
 
 // PHI fields that must be encrypted
 const PHI_FIELDS: Record<string, string[]> = {
@@ -119,10 +119,11 @@ export const patientsRepo = {
   },
 
   async findByEmail(email: string) {
-    // Use hash for search
-    const emailHash = hashForSearch(email);
+    // Use hash for search, under any key version in case a key rotation has not re-hashed the row yet
+    const emailHashes = hashesForSearch(email);
+    if (emailHashes.length === 0) return null;
     const patient = await db.query.patients.findFirst({
-      where: eq(patients.email_hash as any, emailHash)
+      where: inArray(patients.email_hash as any, emailHashes)
     });
     return decryptRecord('patients', patient);
   },
@@ -206,14 +207,6 @@ export const claimsRepo = {
       .where(eq(claims.id, id))
       .returning();
     return decryptRecord('claims', updated);
-  },
-
-  async updateStatus(id: string, status: any) {
-    const [updated] = await db.update(claims)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(claims.id, id))
-      .returning();
-    return decryptRecord('claims', updated);
   }
 };
 
@@ -250,9 +243,11 @@ export const providersRepo = {
   },
 
   async findByEmail(email: string) {
-    const emailHash = hashForSearch(email);
+    // Any key version, in case a key rotation has not re-hashed the row yet
+    const emailHashes = hashesForSearch(email);
+    if (emailHashes.length === 0) return null;
     const provider = await db.query.providers.findFirst({
-      where: eq(providers.email_hash as any, emailHash)
+      where: inArray(providers.email_hash as any, emailHashes)
     });
     return decryptRecord('providers', provider);
   },
@@ -290,9 +285,11 @@ export const usersRepo = {
   },
 
   async findByEmail(email: string) {
-    const emailHash = hashForSearch(email);
+    // Any key version, in case a key rotation has not re-hashed the row yet
+    const emailHashes = hashesForSearch(email);
+    if (emailHashes.length === 0) return null;
     const user = await db.query.users.findFirst({
-      where: eq(users.email_hash as any, emailHash)
+      where: inArray(users.email_hash as any, emailHashes)
     });
     return decryptRecord('users', user);
   },
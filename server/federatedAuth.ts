@@ -0,0 +1,453 @@
+/**
+ * Organization single sign-on over OIDC and SAML 2.0
+ * Each organization can register its own identity provider (Azure AD, Okta,
+ * Google Workspace) in identity_providers. Users are provisioned just in
+ * time, IdP groups are mapped to MedLink roles through roleMapping, and a
+ * provider with an orgClaim can place users in several organizations by
+ * organizations.externalId. Admins with MFA enabled still get the MFA
+ * challenge before a session is created.
+ */
+
+import * as client from 'openid-client';
+import { SAML, ValidateInResponseTo, type CacheItem, type CacheProvider, type Profile } from '@node-saml/node-saml';
+import type { Express, Request, Response } from 'express';
+import memoize from 'memoizee';
+import type { IdentityProvider, User } from '@shared/schema';
+import { isBuiltInRole } from '@shared/permissions';
+import { storage } from './storage';
+import { createSessionUser } from './ssoAuth';
+import { shouldRequireMFA, generateTempToken } from './security/mfa-auth';
+import { authLimiter } from './security/rateLimiter';
+
+export type FederatedAuthErrorCode = 'NOT_FOUND' | 'INVALID_RESPONSE' | 'NOT_PROVISIONED' | 'CONFLICT';
+
+export class FederatedAuthError extends Error {
+  public code: FederatedAuthErrorCode;
+
+  constructor(code: FederatedAuthErrorCode, message: string) {
+    super(message);
+    this.name = 'FederatedAuthError';
+    this.code = code;
+  }
+}
+
+// The parts of an OIDC ID token or SAML assertion MedLink cares about
+export interface FederatedProfile {
+  subject: string;
+  email: string;
+  emailVerified: boolean; // only verified addresses may link to an existing account
+  firstName: string | null;
+  lastName: string | null;
+  claims: Record<string, unknown>;
+}
+
+// An OIDC sign-in waiting for the IdP to redirect back
+interface PendingOidcLogin {
+  slug: string;
+  codeVerifier: string;
+  state: string;
+  nonce: string;
+  next: string;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    oidcLogin: PendingOidcLogin;
+  }
+}
+
+const SAML_EMAIL_ATTRIBUTES = ['email', 'mail', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'];
+const SAML_GIVEN_NAME_ATTRIBUTES = ['firstName', 'givenName', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname'];
+const SAML_SURNAME_ATTRIBUTES = ['lastName', 'sn', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname'];
+
+/**
+ * Every string value of a claim; IdPs send groups as a list, a single
+ * string or (Okta, some SAML IdPs) a comma-separated string
+ */
+export function claimValues(claims: Record<string, unknown>, name: string | null | undefined): string[] {
+  if (!name) return [];
+  const value = claims[name];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((entry): entry is string | number => typeof entry === 'string' || typeof entry === 'number')
+    .flatMap(entry => String(entry).split(','))
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+function firstValue(claims: Record<string, unknown>, names: string[]): string | null {
+  for (const name of names) {
+    const [value] = claimValues(claims, name);
+    if (value) return value;
+  }
+  return null;
+}
+
+export function profileFromOidcClaims(claims: Record<string, unknown>): FederatedProfile {
+  const email = typeof claims.email === 'string' ? claims.email : null;
+  if (typeof claims.sub !== 'string' || !email) {
+    throw new FederatedAuthError('INVALID_RESPONSE', 'The identity provider did not send an email address');
+  }
+  const [nameFirst, ...nameRest] = typeof claims.name === 'string' ? claims.name.split(' ') : [];
+  return {
+    subject: claims.sub,
+    email: email.toLowerCase(),
+    emailVerified: claims.email_verified === true,
+    firstName: (claims.given_name as string | undefined) ?? nameFirst ?? null,
+    lastName: (claims.family_name as string | undefined) ?? (nameRest.join(' ') || null),
+    claims,
+  };
+}
+
+export function profileFromSamlProfile(profile: Profile): FederatedProfile {
+  // node-saml copies assertion attributes onto the profile itself
+  const claims = profile as unknown as Record<string, unknown>;
+  const email = firstValue(claims, SAML_EMAIL_ATTRIBUTES) ?? (profile.nameID?.includes('@') ? profile.nameID : null);
+  if (!profile.nameID || !email) {
+    throw new FederatedAuthError('INVALID_RESPONSE', 'The identity provider did not send an email address');
+  }
+  return {
+    subject: profile.nameID,
+    email: email.toLowerCase(),
+    // SAML has no verification flag; the signed assertion comes from the organization's own directory
+    emailVerified: true,
+    firstName: firstValue(claims, SAML_GIVEN_NAME_ATTRIBUTES),
+    lastName: firstValue(claims, SAML_SURNAME_ATTRIBUTES),
+    claims,
+  };
+}
+
+async function isRoleOf(orgId: string, role: string): Promise<boolean> {
+  return isBuiltInRole(role) || !!(await storage.getRoleByKey(orgId, role));
+}
+
+/**
+ * The role a user gets in orgId. The first roleMapping entry the user's
+ * roleClaim matches wins, so admins list the most privileged group first.
+ * Returns null when the provider has no mapping, leaving roles to admins.
+ */
+export async function resolveRole(provider: IdentityProvider, profile: FederatedProfile, orgId: string): Promise<string | null> {
+  const mapping = Object.entries(provider.roleMapping ?? {});
+  if (mapping.length === 0) {
+    return null;
+  }
+  const values = new Set(claimValues(profile.claims, provider.roleClaim));
+  for (const [value, role] of mapping) {
+    if (values.has(value) && await isRoleOf(orgId, role)) {
+      return role;
+    }
+  }
+  return await isRoleOf(orgId, provider.defaultRole) ? provider.defaultRole : 'provider';
+}
+
+/**
+ * The organizations a user signs in to. Without an orgClaim that is the
+ * provider's own organization. With one, each claimed externalId counts only
+ * if that organization registered the same issuer itself; otherwise any
+ * IdP admin could put their users in someone else's organization.
+ */
+export async function resolveOrganizations(provider: IdentityProvider, profile: FederatedProfile): Promise<string[]> {
+  if (!provider.orgClaim) {
+    return [provider.orgId];
+  }
+
+  const trusted = new Set(
+    (await storage.getIdentityProvidersByIssuer(provider.issuer))
+      .filter(candidate => candidate.enabled)
+      .map(candidate => candidate.orgId),
+  );
+  trusted.add(provider.orgId);
+
+  const orgIds: string[] = [];
+  for (const externalId of claimValues(profile.claims, provider.orgClaim)) {
+    const org = await storage.getOrganizationByExternalId(externalId);
+    if (org && trusted.has(org.id) && !orgIds.includes(org.id)) {
+      orgIds.push(org.id);
+    }
+  }
+  if (orgIds.length === 0) {
+    throw new FederatedAuthError('NOT_PROVISIONED', 'Your account is not assigned to an organization that uses this sign-in');
+  }
+  // Signing in through an organization's own provider lands in that organization
+  return orgIds.includes(provider.orgId) ? [provider.orgId, ...orgIds.filter(id => id !== provider.orgId)] : orgIds;
+}
+
+async function belongsToAny(user: User, orgIds: string[]): Promise<boolean> {
+  if (user.orgId && orgIds.includes(user.orgId)) return true;
+  const memberships = await storage.getMemberships(user.id);
+  return memberships.some(membership => orgIds.includes(membership.orgId));
+}
+
+/**
+ * Find, link or create the MedLink user for an IdP profile, then bring their
+ * roles and memberships in line with the claims. Memberships are only added
+ * here; taking access away is left to admins and SCIM deprovisioning.
+ */
+export async function provisionFederatedUser(provider: IdentityProvider, profile: FederatedProfile): Promise<User> {
+  const orgIds = await resolveOrganizations(provider, profile);
+  const roles = await Promise.all(orgIds.map(orgId => resolveRole(provider, profile, orgId)));
+
+  let user: User | undefined;
+  const identity = await storage.getFederatedIdentity(provider.id, profile.subject);
+  if (identity) {
+    user = await storage.getUser(identity.userId);
+    await storage.touchFederatedIdentity(identity.id);
+  }
+
+  if (!user) {
+    // Linking by email is only safe within the organizations this IdP speaks for
+    const existing = await storage.getUserByEmail(profile.email);
+    if (existing && !(await belongsToAny(existing, orgIds))) {
+      throw new FederatedAuthError('CONFLICT', 'An account with this email belongs to another organization');
+    }
+    if (existing && !profile.emailVerified) {
+      throw new FederatedAuthError('CONFLICT', 'Your identity provider has not verified this email address');
+    }
+    if (!existing && !provider.jitProvisioning) {
+      throw new FederatedAuthError('NOT_PROVISIONED', 'Ask your administrator to create your MedLink account');
+    }
+    user = existing ?? await storage.createUser({
+      email: profile.email,
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      orgId: orgIds[0],
+      role: roles[0] ?? provider.defaultRole,
+    });
+    await storage.createFederatedIdentity({
+      providerId: provider.id,
+      subject: profile.subject,
+      userId: user.id,
+      lastLoginAt: new Date(),
+    });
+  }
+
+  if (user.deactivatedAt) {
+    throw new FederatedAuthError('NOT_PROVISIONED', 'Your MedLink account has been deactivated');
+  }
+
+  for (const [index, orgId] of orgIds.entries()) {
+    const role = roles[index];
+    if (orgId === user.orgId) {
+      if (role && role !== user.role) {
+        user = await storage.updateUser(user.id, { role }) ?? user;
+      }
+      continue;
+    }
+    const membership = await storage.getMembership(user.id, orgId);
+    if (!membership) {
+      await storage.createMembership({ userId: user.id, orgId, role: role ?? provider.defaultRole });
+    } else if (role && role !== membership.role) {
+      await storage.updateMembership(membership.id, { role });
+    }
+  }
+
+  return user;
+}
+
+// Only same-site paths, so a crafted link cannot bounce users elsewhere
+function safeRedirectPath(next: unknown): string {
+  return typeof next === 'string' && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+async function getEnabledProvider(slug: string, protocol: IdentityProvider['protocol']): Promise<IdentityProvider> {
+  const provider = await storage.getIdentityProviderBySlug(slug);
+  if (!provider || !provider.enabled || provider.protocol !== protocol) {
+    throw new FederatedAuthError('NOT_FOUND', 'Single sign-on is not configured for this organization');
+  }
+  return provider;
+}
+
+async function completeSignIn(req: Request, res: Response, provider: IdentityProvider, profile: FederatedProfile, next: string) {
+  const user = await provisionFederatedUser(provider, profile);
+  const auditContext = { ip: req.ip || '', userAgent: req.get('User-Agent') || '' };
+
+  await storage.createAuditEvent({
+    orgId: provider.orgId,
+    actorUserId: user.id,
+    type: 'sso_login',
+    details: { email: profile.email, role: user.role, source: provider.protocol, provider: provider.slug },
+    ...auditContext,
+  });
+
+  if (await shouldRequireMFA(user.id)) {
+    await storage.createAuditEvent({
+      orgId: provider.orgId,
+      actorUserId: user.id,
+      type: 'mfa_challenge_initiated',
+      details: { email: profile.email, role: user.role },
+      ...auditContext,
+    });
+    // Kept in the session, not the URL, so it never reaches history or Referer headers
+    req.session.mfaTempToken = generateTempToken(user.id);
+    const params = new URLSearchParams({ mfa: 'required', next });
+    return res.redirect(`/?${params}`);
+  }
+
+  req.login(createSessionUser(user), (err) => {
+    if (err) {
+      console.error('Session login error:', err);
+      return res.redirect('/?sso_error=FAILED');
+    }
+    req.session.activeOrgId = provider.orgId;
+    res.redirect(next);
+  });
+}
+
+// Browser redirects cannot show JSON errors, so the landing page reports them
+function handleFederatedError(res: Response, error: unknown) {
+  if (error instanceof FederatedAuthError) {
+    return res.redirect(`/?sso_error=${error.code}`);
+  }
+  console.error('Federated sign-in error:', error);
+  res.redirect('/?sso_error=FAILED');
+}
+
+const getOidcConfig = memoize(
+  async (issuer: string, clientId: string, clientSecret: string | null) => {
+    // Public clients without a secret rely on PKCE alone
+    return await client.discovery(
+      new URL(issuer),
+      clientId,
+      clientSecret ?? undefined,
+      clientSecret ? undefined : client.None(),
+    );
+  },
+  { maxAge: 3600 * 1000, promise: true },
+);
+
+const SAML_REQUEST_TTL_MS = 10 * 60 * 1000;
+
+// AuthnRequest ids waiting for a response. The ACS POST arrives cross-site
+// without the session cookie, and may reach any instance, so they are kept
+// in the saml_requests table.
+const samlRequestCache: CacheProvider = {
+  async saveAsync(key, value): Promise<CacheItem> {
+    await storage.deleteSamlRequestsBefore(new Date(Date.now() - SAML_REQUEST_TTL_MS));
+    const createdAt = await storage.saveSamlRequest(key, value);
+    return { value, createdAt: createdAt.getTime() };
+  },
+  async getAsync(key) {
+    return (await storage.getSamlRequest(key, new Date(Date.now() - SAML_REQUEST_TTL_MS))) ?? null;
+  },
+  async removeAsync(key) {
+    if (!key || !(await storage.deleteSamlRequest(key))) return null;
+    return key;
+  },
+};
+
+function getSaml(req: Request, provider: IdentityProvider): SAML {
+  const spEntityId = `${baseUrl(req)}/auth/saml/${provider.slug}/metadata`;
+  return new SAML({
+    issuer: spEntityId,
+    audience: spEntityId,
+    callbackUrl: `${baseUrl(req)}/auth/saml/${provider.slug}/acs`,
+    entryPoint: provider.ssoUrl ?? undefined,
+    idpCert: provider.idpCertificate ?? '',
+    idpIssuer: provider.issuer,
+    wantAssertionsSigned: true,
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: SAML_REQUEST_TTL_MS,
+    cacheProvider: samlRequestCache,
+  });
+}
+
+/**
+ * OIDC and SAML sign-in routes. Must be registered after setupAuth, which
+ * installs the session and passport middleware they use.
+ */
+export function setupFederatedAuth(app: Express) {
+  app.get('/auth/oidc/:slug/login', authLimiter, async (req: any, res) => {
+    try {
+      const provider = await getEnabledProvider(req.params.slug, 'oidc');
+      const config = await getOidcConfig(provider.issuer, provider.clientId ?? '', provider.clientSecret);
+      const codeVerifier = client.randomPKCECodeVerifier();
+      const state = client.randomState();
+      const nonce = client.randomNonce();
+
+      req.session.oidcLogin = {
+        slug: provider.slug,
+        codeVerifier,
+        state,
+        nonce,
+        next: safeRedirectPath(req.query.next),
+      };
+
+      const url = client.buildAuthorizationUrl(config, {
+        redirect_uri: `${baseUrl(req)}/auth/oidc/${provider.slug}/callback`,
+        scope: provider.scopes || 'openid email profile',
+        code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+        code_challenge_method: 'S256',
+        state,
+        nonce,
+      });
+      res.redirect(url.href);
+    } catch (error) {
+      handleFederatedError(res, error);
+    }
+  });
+
+  app.get('/auth/oidc/:slug/callback', authLimiter, async (req: any, res) => {
+    try {
+      const pending = req.session.oidcLogin;
+      delete req.session.oidcLogin;
+      if (!pending || pending.slug !== req.params.slug) {
+        throw new FederatedAuthError('INVALID_RESPONSE', 'The sign-in attempt expired; please try again');
+      }
+
+      const provider = await getEnabledProvider(req.params.slug, 'oidc');
+      const config = await getOidcConfig(provider.issuer, provider.clientId ?? '', provider.clientSecret);
+      const tokens = await client.authorizationCodeGrant(config, new URL(req.originalUrl, baseUrl(req)), {
+        pkceCodeVerifier: pending.codeVerifier,
+        expectedState: pending.state,
+        expectedNonce: pending.nonce,
+        idTokenExpected: true,
+      });
+
+      const profile = profileFromOidcClaims((tokens.claims() ?? {}) as Record<string, unknown>);
+      await completeSignIn(req, res, provider, profile, pending.next);
+    } catch (error) {
+      handleFederatedError(res, error);
+    }
+  });
+
+  app.get('/auth/saml/:slug/login', authLimiter, async (req, res) => {
+    try {
+      const provider = await getEnabledProvider(req.params.slug, 'saml');
+      const url = await getSaml(req, provider).getAuthorizeUrlAsync(safeRedirectPath(req.query.next), req.get('host'), {});
+      res.redirect(url);
+    } catch (error) {
+      handleFederatedError(res, error);
+    }
+  });
+
+  app.post('/auth/saml/:slug/acs', authLimiter, async (req, res) => {
+    try {
+      const provider = await getEnabledProvider(req.params.slug, 'saml');
+      const { profile } = await getSaml(req, provider).validatePostResponseAsync(req.body);
+      if (!profile) {
+        throw new FederatedAuthError('INVALID_RESPONSE', 'The identity provider did not send an assertion');
+      }
+      await completeSignIn(req, res, provider, profileFromSamlProfile(profile), safeRedirectPath(req.body?.RelayState));
+    } catch (error) {
+      handleFederatedError(res, error);
+    }
+  });
+
+  // SP metadata for the IdP admin to import
+  app.get('/auth/saml/:slug/metadata', async (req, res) => {
+    try {
+      const provider = await getEnabledProvider(req.params.slug, 'saml');
+      res.type('application/xml').send(getSaml(req, provider).generateServiceProviderMetadata(null, null));
+    } catch (error) {
+      if (error instanceof FederatedAuthError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('SAML metadata error:', error);
+      res.status(500).json({ message: 'Failed to generate metadata' });
+    }
+  });
+}
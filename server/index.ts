@@ -72,6 +72,8 @@ app.use(sentryMiddleware.requestHandler);
 app.use(sentryMiddleware.tracingHandler);
 
 app.use(express.json({
+  // Remittance and bulk claim imports post whole files as JSON
+  limit: process.env.JSON_BODY_LIMIT || '5mb',
   verify: (req: any, _res, buf) => {
     req.rawBody = buf.toString('utf-8');
   },
@@ -110,11 +112,14 @@ app.use((req, res, next) => {
 
 (async () => {
   requireStrongSecretInProduction('SESSION_SECRET', process.env.SESSION_SECRET, 32);
-  requireStrongSecretInProduction('ENCRYPTION_KEY', process.env.ENCRYPTION_KEY, 32);
+  // With ENCRYPTION_KEYS the keyring checks each versioned key instead
+  if (!process.env.ENCRYPTION_KEYS) {
+    requireStrongSecretInProduction('ENCRYPTION_KEY', process.env.ENCRYPTION_KEY, 32);
+  }
   requireStrongSecretInProduction('HASH_KEY', process.env.HASH_KEY, 32);
 
   // Check and verify encryption key on startup
-  if (!process.env.ENCRYPTION_KEY) {
+  if (!process.env.ENCRYPTION_KEY && !process.env.ENCRYPTION_KEYS) {
     if (process.env.NODE_ENV === 'production') {
       // HARD FAIL in production - no fallback allowed
       console.error('❌ CRITICAL: ENCRYPTION_KEY environment variable is REQUIRED in production');
@@ -156,9 +161,9 @@ app.use((req, res, next) => {
   const { runSeedGuard } = await import("./seedGuard");
   await runSeedGuard();
   
-  // Initialize EDI job queue
+  // Initialize EDI job queue and start the worker that drains it
   try {
-    const { jobQueue } = await import("./lib/jobs");
+    await import("./scheduler");
     console.log('✅ EDI job queue initialized successfully');
   } catch (error) {
     console.error('❌ Failed to initialize EDI job queue:', error);
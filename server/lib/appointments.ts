@@ -0,0 +1,80 @@
+/**
+ * Appointment scheduling
+ * Appointments link a patient visit to the claim billed for it
+ * (claims.appointmentId), which is how the unbilled-visits report finds
+ * completed appointments that were never claimed.
+ */
+
+import type { AppointmentInput } from '@shared/schema';
+import { storage, type AppointmentWithClaim } from '../storage';
+
+export type AppointmentErrorCode = 'NOT_FOUND' | 'CONFLICT';
+
+export class AppointmentError extends Error {
+  public code: AppointmentErrorCode;
+
+  constructor(code: AppointmentErrorCode, message: string) {
+    super(message);
+    this.name = 'AppointmentError';
+    this.code = code;
+  }
+}
+
+export type UnbilledAppointment = AppointmentWithClaim & {
+  patientName: string;
+  providerName: string;
+};
+
+/**
+ * Make sure the patient and provider on an appointment belong to the org
+ */
+export async function assertAppointmentParties(
+  orgId: string,
+  parties: Partial<Pick<AppointmentInput, 'patientId' | 'providerId'>>
+): Promise<void> {
+  if (parties.patientId) {
+    const patient = await storage.getPatient(parties.patientId);
+    if (!patient || patient.orgId !== orgId) {
+      throw new AppointmentError('NOT_FOUND', 'Patient not found');
+    }
+  }
+  if (parties.providerId) {
+    const provider = await storage.getProvider(parties.providerId);
+    if (!provider || provider.orgId !== orgId) {
+      throw new AppointmentError('NOT_FOUND', 'Provider not found');
+    }
+  }
+}
+
+/**
+ * Delete an appointment booked by mistake. Billed visits stay on record;
+ * they can only be cancelled.
+ */
+export async function deleteAppointment(appointment: AppointmentWithClaim): Promise<void> {
+  if (appointment.claimId) {
+    throw new AppointmentError('CONFLICT', 'This visit has already been billed; cancel the appointment instead');
+  }
+  await storage.deleteAppointment(appointment.id);
+}
+
+/**
+ * Completed appointments in a time range that have no claim yet, with the
+ * patient and provider names for the report
+ */
+export async function getUnbilledAppointments(orgId: string, range: { from: Date; to: Date }): Promise<UnbilledAppointment[]> {
+  const [appointments, patients, providers] = await Promise.all([
+    storage.getAppointments(orgId, { status: 'completed', from: range.from, to: range.to }),
+    storage.getPatients(orgId, { includeArchived: true }),
+    storage.getProviders(orgId, { includeArchived: true }),
+  ]);
+  const patientNames = new Map(patients.map(patient => [patient.id, patient.name]));
+  const providerNames = new Map(providers.map(provider => [provider.id, provider.name]));
+
+  return appointments
+    .filter(appointment => !appointment.claimId)
+    .map(appointment => ({
+      ...appointment,
+      patientName: patientNames.get(appointment.patientId) ?? 'Unknown patient',
+      providerName: providerNames.get(appointment.providerId) ?? 'Unknown provider',
+    }));
+}
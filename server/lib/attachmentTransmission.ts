@@ -0,0 +1,275 @@
+/**
+ * Attachment transmission to insurers
+ * Each connector declares what its network accepts (attachmentCapabilities).
+ * `withClaim` connectors receive the documents with the submission;
+ * `afterClaim` connectors get a send-attachments job once the claim is
+ * accepted, and every connector can take documents added later that way.
+ *
+ * Every attempt is a connector_transactions row of type 'attachment':
+ * pending while in flight, then accepted or rejected by the insurer,
+ * not_sent when the file is outside the connector's limits, or error when
+ * the transport failed and the job will retry. Accepted and rejected
+ * attachments are never sent again; a rejected document has to be uploaded
+ * as a new attachment.
+ */
+
+import crypto from 'node:crypto';
+import type { Attachment, Claim, ConnectorTransaction, Insurer } from '@shared/schema';
+import { storage } from '../storage';
+import { ObjectStorageService } from '../objectStorage';
+import type { AttachmentCapabilities, AttachmentDocument, AttachmentResult, Connector, SubmitResult } from '../connectors/base';
+import { ConnectorError } from './errors';
+import { isAttachmentSubmittable } from './attachments';
+import type { JobConnector } from './jobs';
+
+export type AttachmentTransmissionStatus = 'pending' | 'accepted' | 'rejected' | 'not_sent' | 'error';
+
+// Outcomes that end an attachment's transmission
+const FINAL_STATUSES: AttachmentTransmissionStatus[] = ['accepted', 'rejected'];
+
+const RAIL_CONNECTORS: Record<Insurer['rail'], JobConnector> = {
+  cdanet: 'cdanet',
+  telusEclaims: 'eclaims',
+  portal: 'portal',
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/tiff': 'tif',
+  'image/heic': 'heic',
+  'text/plain': 'txt',
+};
+
+// The insurer's answer, or why the file was not sent
+export function transmissionMessage(transaction: ConnectorTransaction): string | null {
+  return (transaction.payload as { message?: string } | null)?.message ?? null;
+}
+
+/**
+ * The latest transmission of each of the claim's attachments, by attachment id
+ */
+export async function getAttachmentTransmissions(claimId: string): Promise<Map<string, ConnectorTransaction>> {
+  const latest = new Map<string, ConnectorTransaction>();
+  // Newest first, so the first row seen for an attachment is its latest
+  for (const event of await storage.getConnectorEvents(claimId)) {
+    if (event.type === 'attachment' && event.attachmentId && !latest.has(event.attachmentId)) {
+      latest.set(event.attachmentId, event);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Why the connector cannot take this attachment, or null when it can
+ */
+export function capabilityProblem(
+  attachment: Pick<Attachment, 'mime' | 'size'>,
+  capabilities: AttachmentCapabilities
+): string | null {
+  if (!capabilities.mimeTypes.includes(attachment.mime)) {
+    return `${attachment.mime} files are not accepted (accepted: ${capabilities.mimeTypes.join(', ')})`;
+  }
+  if (attachment.size != null && attachment.size > capabilities.maxBytes) {
+    return `File is larger than the ${Math.floor(capabilities.maxBytes / (1024 * 1024))} MB limit`;
+  }
+  return null;
+}
+
+async function recordTransmission(
+  claimId: string,
+  connectorName: JobConnector,
+  attachment: Pick<Attachment, 'id' | 'mime' | 'size' | 'checksum'>,
+  status: AttachmentTransmissionStatus,
+  details: { externalId?: string; message?: string; raw?: any } = {}
+): Promise<ConnectorTransaction> {
+  return storage.createConnectorTransaction({
+    claimId,
+    connector: connectorName,
+    type: 'attachment',
+    attachmentId: attachment.id,
+    externalId: details.externalId ?? null,
+    status,
+    // File metadata only; the document itself is never copied into the log
+    payload: {
+      mime: attachment.mime,
+      size: attachment.size,
+      checksum: attachment.checksum,
+      message: details.message,
+      raw: details.raw,
+    },
+  });
+}
+
+/**
+ * Read the stored file, or say why it cannot be sent
+ */
+async function readDocument(attachment: Attachment): Promise<AttachmentDocument | string> {
+  const source = await new ObjectStorageService().openObjectEntityStream(attachment.url);
+  if (!source) {
+    return 'The file could not be found';
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of source as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+  }
+  const content = Buffer.concat(chunks);
+  const checksum = crypto.createHash('sha256').update(content).digest('hex');
+  if (attachment.checksum && checksum !== attachment.checksum) {
+    return 'File changed since it was uploaded';
+  }
+
+  return {
+    attachmentId: attachment.id,
+    fileName: `${attachment.kind}-${attachment.id.slice(0, 8)}.${FILE_EXTENSIONS[attachment.mime] ?? 'bin'}`,
+    mime: attachment.mime,
+    kind: attachment.kind,
+    size: content.length,
+    checksum,
+    content,
+  };
+}
+
+/**
+ * The claim's attachments that still have to reach the insurer. Ones the
+ * connector cannot take are recorded as not_sent (once per reason) and left out.
+ */
+async function collectDocuments(connectorName: JobConnector, connector: Connector, claim: Claim): Promise<AttachmentDocument[]> {
+  const attachments = (await storage.getAttachments(claim.id)).filter(isAttachmentSubmittable);
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  const capabilities = connector.attachmentCapabilities;
+  const transmissions = await getAttachmentTransmissions(claim.id);
+  let room = capabilities.maxCount - attachments.filter(attachment => transmissions.get(attachment.id)?.status === 'accepted').length;
+
+  const documents: AttachmentDocument[] = [];
+  for (const attachment of attachments) {
+    const previous = transmissions.get(attachment.id);
+    if (previous && FINAL_STATUSES.includes(previous.status as AttachmentTransmissionStatus)) {
+      continue;
+    }
+
+    const problem = capabilityProblem(attachment, capabilities)
+      ?? (room <= 0 ? `The insurer accepts at most ${capabilities.maxCount} attachments per claim` : null);
+    const document = problem ?? await readDocument(attachment);
+
+    if (typeof document === 'string') {
+      if (previous?.status !== 'not_sent' || transmissionMessage(previous) !== document) {
+        await recordTransmission(claim.id, connectorName, attachment, 'not_sent', { message: document });
+      }
+      continue;
+    }
+
+    documents.push(document);
+    room--;
+  }
+  return documents;
+}
+
+/**
+ * Documents to package into the claim submission; none for connectors that
+ * send attachments after the claim
+ */
+export async function attachmentsForSubmission(connectorName: JobConnector, connector: Connector, claim: Claim): Promise<AttachmentDocument[]> {
+  if (connector.attachmentCapabilities.delivery !== 'withClaim') {
+    return [];
+  }
+  return collectDocuments(connectorName, connector, claim);
+}
+
+/**
+ * Record the insurer's answer for each document sent with the claim. A
+ * connector that reports nothing per document accepted them with the claim.
+ */
+export async function recordSubmittedAttachments(
+  connectorName: JobConnector,
+  claim: Claim,
+  documents: AttachmentDocument[],
+  result: SubmitResult
+): Promise<void> {
+  for (const document of documents) {
+    const outcome = result.attachments?.find(attachmentResult => attachmentResult.attachmentId === document.attachmentId);
+    await recordTransmission(
+      claim.id,
+      connectorName,
+      { id: document.attachmentId, mime: document.mime, size: document.size, checksum: document.checksum },
+      outcome?.status ?? 'accepted',
+      { externalId: outcome?.externalId, message: outcome?.message ?? 'Sent with the claim', raw: outcome?.raw }
+    );
+  }
+}
+
+/**
+ * Send each attachment that has not reached the insurer as its own
+ * transaction. A transport failure is recorded and rethrown so the job
+ * retries; documents already accepted are not sent twice.
+ */
+export async function transmitAttachments(connectorName: JobConnector, connector: Connector, claim: Claim): Promise<AttachmentResult[]> {
+  if (!claim.externalId) {
+    throw new ConnectorError('VALIDATION_ERROR', 'Claim has not been accepted by the insurer yet');
+  }
+
+  const results: AttachmentResult[] = [];
+  for (const document of await collectDocuments(connectorName, connector, claim)) {
+    const attachment = { id: document.attachmentId, mime: document.mime, size: document.size, checksum: document.checksum };
+    const transaction = await recordTransmission(claim.id, connectorName, attachment, 'pending');
+
+    let result: AttachmentResult;
+    try {
+      result = await connector.sendAttachment(claim, claim.externalId, document);
+    } catch (error) {
+      await storage.updateConnectorTransaction(transaction.id, {
+        status: 'error',
+        payload: { ...(transaction.payload as object), message: error instanceof Error ? error.message : String(error) },
+        updatedAt: new Date(),
+      });
+      throw error;
+    }
+
+    await storage.updateConnectorTransaction(transaction.id, {
+      status: result.status,
+      externalId: result.externalId ?? null,
+      payload: { ...(transaction.payload as object), message: result.message, raw: result.raw },
+      updatedAt: new Date(),
+    });
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Queue a send-attachments job when the claim has attachments the insurer
+ * has not received. Returns the job id, or null when there is nothing to send.
+ */
+export async function scheduleAttachmentTransmission(claim: Claim, connectorName?: JobConnector): Promise<string | null> {
+  const attachments = (await storage.getAttachments(claim.id)).filter(isAttachmentSubmittable);
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  const transmissions = await getAttachmentTransmissions(claim.id);
+  const unsent = attachments.filter(attachment => {
+    const status = transmissions.get(attachment.id)?.status as AttachmentTransmissionStatus | undefined;
+    return !status || !FINAL_STATUSES.includes(status);
+  });
+  if (unsent.length === 0) {
+    return null;
+  }
+
+  let connector = connectorName;
+  if (!connector) {
+    const insurer = await storage.getInsurer(claim.insurerId);
+    if (!insurer) {
+      throw new ConnectorError('VALIDATION_ERROR', `Insurer ${claim.insurerId} not found`);
+    }
+    connector = RAIL_CONNECTORS[insurer.rail];
+  }
+
+  const { jobQueue } = await import('./jobs');
+  return jobQueue.enqueue({ type: 'send-attachments', claimId: claim.id, connector });
+}
@@ -0,0 +1,305 @@
+/**
+ * Claim attachment ingest
+ * Browsers upload straight to object storage, so nothing about the file can be
+ * trusted until the server has read it. Ingest streams the object once,
+ * hashing it (SHA-256), checking its real type against the declared mime and
+ * feeding it to the malware scanner as it goes. Images for insurers that only
+ * accept PDF/A are converted, and the PDF becomes the attachment.
+ *
+ * Infected files are deleted, but their attachment row stays so the claim
+ * shows what happened. A claim cannot be submitted while any attachment is
+ * infected, failed to scan or has not been scanned yet.
+ */
+
+import crypto from 'node:crypto';
+import { PassThrough } from 'node:stream';
+import type { Attachment, AttachmentInput, Claim } from '@shared/schema';
+import { storage } from '../storage';
+import { ObjectNotFoundError, ObjectStorageService } from '../objectStorage';
+import { ObjectAccessGroupType, ObjectPermission, type ObjectAclPolicy } from '../objectAcl';
+import { getMalwareScanner, type ScanVerdict } from '../security/malwareScanner';
+import { PdfConversionError, imageToPdfA } from './pdf';
+import { parsePositiveIntEnv } from './env';
+
+const ATTACHMENT_MAX_BYTES = parsePositiveIntEnv(process.env.ATTACHMENT_MAX_BYTES, 25 * 1024 * 1024);
+
+export const ATTACHMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/tiff',
+  'image/heic',
+  'text/plain',
+] as const;
+
+// Statuses a claim can be submitted with
+const SUBMITTABLE_SCAN_STATUSES: Array<Attachment['scanStatus']> = ['clean', 'skipped'];
+
+const PDF_A_SOURCE_TYPES = ['image/jpeg', 'image/png'];
+
+export type AttachmentErrorCode =
+  | 'NOT_FOUND'
+  | 'FILE_MISSING'
+  | 'TOO_LARGE'
+  | 'UNSUPPORTED_TYPE'
+  | 'TYPE_MISMATCH'
+  | 'CONVERSION_FAILED'
+  | 'BLOCKED';
+
+export class AttachmentError extends Error {
+  public code: AttachmentErrorCode;
+
+  constructor(code: AttachmentErrorCode, message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+    this.code = code;
+  }
+}
+
+// Common spellings browsers and scanners report for the same types
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'application/x-pdf': 'application/pdf',
+  'image/tif': 'image/tiff',
+};
+
+export function normalizeMime(mime: string): string {
+  const base = mime.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+}
+
+/**
+ * The file type from its first bytes; text/plain for anything without a
+ * known signature or NUL bytes, null for other binary data
+ */
+export function detectMime(head: Buffer): string | null {
+  const startsWith = (bytes: number[], offset = 0) => bytes.every((byte, index) => head[offset + index] === byte);
+
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf'; // %PDF-
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image/gif'; // GIF8
+  if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  if (head.toString('latin1', 4, 8) === 'ftyp' && /^(heic|heix|mif1|msf1)$/.test(head.toString('latin1', 8, 12))) return 'image/heic';
+  if (head.length > 0 && !head.includes(0)) return 'text/plain';
+  return null;
+}
+
+interface InspectedObject {
+  checksum: string;
+  size: number;
+  detectedMime: string | null;
+  verdict: ScanVerdict | null;
+  scanError?: string;
+  contents?: Buffer; // kept only when asked for
+}
+
+const SNIFF_BYTES = 512;
+
+/**
+ * Read the object once, hashing, sniffing and scanning it along the way
+ */
+async function inspectObject(url: string, keepContents: boolean): Promise<InspectedObject> {
+  const source = await new ObjectStorageService().openObjectEntityStream(url);
+  if (!source) {
+    throw new AttachmentError('FILE_MISSING', 'The uploaded file could not be found');
+  }
+
+  const hash = crypto.createHash('sha256');
+  const chunks: Buffer[] = [];
+  let head = Buffer.alloc(0);
+  let size = 0;
+
+  const scanInput = new PassThrough();
+  let scanError: string | undefined;
+  const scanning = (async () => getMalwareScanner().scan(scanInput))().catch((error: unknown) => {
+    scanError = error instanceof Error ? error.message : String(error);
+    scanInput.resume(); // keep the file flowing for the hash
+    return null;
+  });
+
+  try {
+    for await (const chunk of source as AsyncIterable<Buffer>) {
+      size += chunk.length;
+      if (size > ATTACHMENT_MAX_BYTES) {
+        throw new AttachmentError('TOO_LARGE', `Attachments are limited to ${Math.floor(ATTACHMENT_MAX_BYTES / (1024 * 1024))} MB`);
+      }
+      hash.update(chunk);
+      if (head.length < SNIFF_BYTES) head = Buffer.concat([head, chunk]).subarray(0, SNIFF_BYTES);
+      if (keepContents) chunks.push(chunk);
+      if (!scanInput.write(chunk)) {
+        await Promise.race([new Promise(resume => scanInput.once('drain', resume)), scanning]);
+      }
+    }
+  } catch (error) {
+    scanInput.destroy();
+    source.destroy();
+    throw error;
+  }
+  scanInput.end();
+  const verdict = await scanning;
+
+  return {
+    checksum: hash.digest('hex'),
+    size,
+    detectedMime: detectMime(head),
+    verdict,
+    scanError,
+    contents: keepContents ? Buffer.concat(chunks) : undefined,
+  };
+}
+
+type ScanFields = Pick<Attachment, 'scanStatus' | 'scanResult' | 'scannedAt'>;
+
+function scanFields(inspected: InspectedObject): ScanFields {
+  return {
+    scanStatus: inspected.verdict?.status ?? 'error',
+    scanResult: inspected.verdict?.signature ?? inspected.scanError ?? null,
+    scannedAt: new Date(),
+  };
+}
+
+async function discardUpload(url: string) {
+  try {
+    await new ObjectStorageService().deleteObjectEntity(url);
+  } catch (error) {
+    console.error('[Attachments] Failed to delete rejected upload:', error);
+  }
+}
+
+/**
+ * Upload URLs come from the client, so only objects nobody has claimed yet
+ * (no ACL policy) or already owned by the requester can be attached. Anything
+ * else is reported as missing and left untouched.
+ */
+async function assertClaimableUpload(url: string, ownerId: string): Promise<void> {
+  const objectStorage = new ObjectStorageService();
+  let owner: string | undefined;
+  try {
+    const entity = await objectStorage.getObjectEntity(objectStorage.normalizeObjectEntityPath(url));
+    owner = entity.aclPolicy?.owner;
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      throw new AttachmentError('FILE_MISSING', 'The uploaded file could not be found');
+    }
+    throw error;
+  }
+  if (owner !== undefined && owner !== ownerId) {
+    throw new AttachmentError('NOT_FOUND', 'The uploaded file could not be found');
+  }
+}
+
+/**
+ * Check an uploaded object and record it against the claim. Uploads whose
+ * content is not what was declared are deleted and refused.
+ */
+export async function ingestAttachment(claim: Claim, input: AttachmentInput, ownerId: string): Promise<Attachment> {
+  const declaredMime = normalizeMime(input.mime);
+  if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(declaredMime)) {
+    throw new AttachmentError('UNSUPPORTED_TYPE', `${input.mime} files cannot be attached to claims`);
+  }
+
+  await assertClaimableUpload(input.url, ownerId);
+
+  const insurer = await storage.getInsurer(claim.insurerId);
+  const needsPdfA = !!insurer?.requiresPdfA && PDF_A_SOURCE_TYPES.includes(declaredMime);
+  const inspected = await inspectObject(input.url, needsPdfA);
+
+  if (inspected.detectedMime !== declaredMime) {
+    await discardUpload(input.url);
+    throw new AttachmentError('TYPE_MISMATCH', inspected.detectedMime
+      ? `The file is ${inspected.detectedMime}, not ${declaredMime}`
+      : `The file is not ${declaredMime}`);
+  }
+
+  const objectStorage = new ObjectStorageService();
+  const scan = scanFields(inspected);
+  if (scan.scanStatus === 'infected') {
+    await discardUpload(input.url);
+    console.warn(`[Attachments] Deleted infected upload for claim ${claim.id}: ${scan.scanResult}`);
+    return storage.createAttachment({ ...input, mime: declaredMime, checksum: inspected.checksum, size: inspected.size, ...scan });
+  }
+
+  const aclPolicy: ObjectAclPolicy = {
+    owner: ownerId,
+    visibility: 'private',
+    aclRules: [
+      { group: { type: ObjectAccessGroupType.ORG_MEMBER, id: claim.orgId }, permission: ObjectPermission.READ },
+      { group: { type: ObjectAccessGroupType.CLAIM_OWNER, id: claim.id }, permission: ObjectPermission.READ },
+    ],
+  };
+  try {
+    await objectStorage.trySetObjectEntityAclPolicy(input.url, aclPolicy);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      throw new AttachmentError('NOT_FOUND', 'The uploaded file could not be found');
+    }
+    throw error;
+  }
+
+  if (needsPdfA && inspected.contents) {
+    let pdf: Buffer;
+    try {
+      pdf = imageToPdfA(inspected.contents, declaredMime, { title: `Claim ${claim.claimNumber ?? claim.id} attachment` });
+    } catch (error) {
+      if (error instanceof PdfConversionError) {
+        await discardUpload(input.url);
+        throw new AttachmentError('CONVERSION_FAILED', `${insurer!.name} requires PDF/A and this image could not be converted: ${error.message}`);
+      }
+      throw error;
+    }
+    const pdfUrl = await objectStorage.writeObjectEntity(pdf, 'application/pdf', aclPolicy);
+    return storage.createAttachment({
+      claimId: input.claimId,
+      url: pdfUrl,
+      mime: 'application/pdf',
+      kind: 'pdf',
+      checksum: crypto.createHash('sha256').update(pdf).digest('hex'),
+      size: pdf.length,
+      originalUrl: input.url,
+      originalMime: declaredMime,
+      ...scan,
+    });
+  }
+
+  return storage.createAttachment({ ...input, mime: declaredMime, checksum: inspected.checksum, size: inspected.size, ...scan });
+}
+
+/**
+ * Scan an attachment again, e.g. after the scanner was unavailable. A file
+ * that no longer matches its recorded checksum is treated as a failed scan.
+ */
+export async function rescanAttachment(id: string): Promise<Attachment> {
+  const attachment = await storage.getAttachment(id);
+  if (!attachment) {
+    throw new AttachmentError('NOT_FOUND', 'Attachment not found');
+  }
+
+  const inspected = await inspectObject(attachment.url, false);
+  let scan = scanFields(inspected);
+  if (attachment.checksum && inspected.checksum !== attachment.checksum) {
+    scan = { scanStatus: 'error', scanResult: 'File changed since it was uploaded', scannedAt: new Date() };
+  } else if (scan.scanStatus === 'infected') {
+    await discardUpload(attachment.url);
+  }
+  return (await storage.updateAttachment(id, { ...scan, checksum: attachment.checksum ?? inspected.checksum, size: inspected.size }))!;
+}
+
+export function isAttachmentSubmittable(attachment: Pick<Attachment, 'scanStatus'>): boolean {
+  return SUBMITTABLE_SCAN_STATUSES.includes(attachment.scanStatus);
+}
+
+/**
+ * Refuse to send a claim while any of its attachments is infected, failed
+ * to scan or is still waiting for one
+ */
+export async function assertAttachmentsSubmittable(claimId: string): Promise<void> {
+  const blocking = (await storage.getAttachments(claimId)).filter(attachment => !isAttachmentSubmittable(attachment));
+  if (blocking.length > 0) {
+    const statuses = Array.from(new Set(blocking.map(attachment => attachment.scanStatus))).join(', ');
+    throw new AttachmentError('BLOCKED', `Claim has ${blocking.length} attachment(s) that did not pass the malware scan (${statuses}); remove or rescan them before submitting`);
+  }
+}
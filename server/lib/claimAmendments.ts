@@ -0,0 +1,323 @@
+/**
+ * Claim resubmission and reversal workflows
+ * Every amendment is a new child claim linked to the claim it amends through
+ * parent_claim_id. Each child gets its own reference number, derived from the
+ * first claim's, which it keeps in original_reference_number so a chain of
+ * resubmissions and reversals can be followed back to the first claim.
+ */
+
+import type { Claim, ClaimLine, ClaimLineInput, InsertClaim, Insurer } from '@shared/schema';
+import { storage, type ClaimAmendmentGuard } from '../storage';
+import { transitionClaimStatus, type ClaimStatus } from './claimStatus';
+import { ClaimScrubError, scrubClaim } from './claimScrubber';
+import type { JobConnector } from './jobs';
+import type { SubmitResult } from '../connectors/base';
+
+export type ClaimRelation = NonNullable<Claim['relation']>;
+
+// Insurer decisions that can be corrected and sent again
+export const RESUBMITTABLE_STATUSES: readonly ClaimStatus[] = ['denied', 'infoRequested'];
+
+// Children that already correct their parent; a claim is resubmitted once and
+// a denied resubmission is corrected in turn
+export const AMENDING_RELATIONS: readonly ClaimRelation[] = ['resubmission', 'adjustment'];
+
+// Claims the insurer has accepted and can still cancel
+export const REVERSIBLE_STATUSES: readonly ClaimStatus[] = ['submitted', 'pending', 'infoRequested', 'paid'];
+
+const RAIL_CONNECTORS: Record<Insurer['rail'], JobConnector> = {
+  cdanet: 'cdanet',
+  telusEclaims: 'eclaims',
+  portal: 'portal',
+};
+
+export type ClaimAmendmentErrorCode = 'CLAIM_NOT_FOUND' | 'NOT_ELIGIBLE';
+
+export class ClaimAmendmentError extends Error {
+  public code: ClaimAmendmentErrorCode;
+  public claimId: string;
+
+  constructor(code: ClaimAmendmentErrorCode, claimId: string, message: string) {
+    super(message);
+    this.name = 'ClaimAmendmentError';
+    this.code = code;
+    this.claimId = claimId;
+  }
+}
+
+export interface ClaimAmendmentResult {
+  original: Claim;
+  claim: Claim; // the linked child claim
+  result: SubmitResult;
+}
+
+export interface ClaimResubmission {
+  original: Claim;
+  claim: Claim; // the linked child claim, a draft until its submit job sends it
+  jobId: string;
+}
+
+export interface ResubmissionChanges {
+  notes?: string | null;
+  amount?: string;
+  codes?: Claim['codes'];
+  lines?: ClaimLineInput[];
+}
+
+/**
+ * Queue a corrected copy of a denied or info-requested claim. eClaims
+ * insurers receive an adjustment; CDAnet and portal insurers receive a new
+ * submission that references the original. The child is sent by a submit
+ * job, like any other claim, once it passes the scrubbing rules.
+ */
+export async function resubmitClaim(
+  claimId: string,
+  options: { actorUserId: string; reason?: string | null; changes?: ResubmissionChanges }
+): Promise<ClaimResubmission> {
+  const original = await loadClaim(claimId);
+  if (!RESUBMITTABLE_STATUSES.includes(original.status)) {
+    throw new ClaimAmendmentError(
+      'NOT_ELIGIBLE',
+      original.id,
+      `Only denied or info-requested claims can be resubmitted (claim is ${original.status})`
+    );
+  }
+  const amendment = (await storage.getChildClaims([original.id]))
+    .find(child => AMENDING_RELATIONS.includes(child.relation!) && child.status !== 'reversed');
+  if (amendment) {
+    throw new ClaimAmendmentError(
+      'NOT_ELIGIBLE',
+      original.id,
+      `Claim ${describeClaim(original)} was already resubmitted as claim ${describeClaim(amendment)}`
+    );
+  }
+
+  const connectorName = await connectorFor(original);
+  const relation: ClaimRelation = connectorName === 'eclaims' ? 'adjustment' : 'resubmission';
+  const changes = options.changes ?? {};
+
+  const lines = changes.lines ?? toLineInputs(await storage.getClaimLines(original.id));
+  const fields = {
+    notes: changes.notes !== undefined ? changes.notes : original.notes,
+    amount: changes.amount ?? original.amount,
+    codes: changes.codes !== undefined ? changes.codes : original.codes,
+  };
+
+  // The insurer already holds the original's attachments
+  const attachments = await storage.getAttachments(original.id);
+  const scrub = await scrubClaim({
+    parentClaimId: original.id,
+    orgId: original.orgId,
+    patientId: original.patientId,
+    providerId: original.providerId,
+    insurerId: original.insurerId,
+    type: original.type,
+    amount: Number(fields.amount),
+    lines: lines.map((line, index) => ({
+      lineNumber: index + 1,
+      procedureCode: line.procedureCode,
+      units: line.units ?? 1,
+      serviceDate: line.serviceDate ?? null,
+    })),
+    attachmentCount: attachments.filter(attachment => attachment.scanStatus !== 'infected').length,
+  });
+  if (!scrub.canSubmit) {
+    throw new ClaimScrubError(scrub.findings);
+  }
+
+  const child = await createChildClaim(original, relation, options.actorUserId, fields, lines, {
+    parentStatuses: RESUBMITTABLE_STATUSES,
+    blockingRelations: AMENDING_RELATIONS,
+  });
+
+  const { jobQueue } = await import('./jobs');
+  const jobId = await jobQueue.enqueue({
+    type: 'submit',
+    claimId: child.id,
+    connector: connectorName,
+    data: { reason: options.reason || `${relationLabel(relation)} of claim ${describeClaim(original)}` },
+  });
+
+  return { original, claim: child, jobId };
+}
+
+/**
+ * Cancel an accepted claim with the insurer: a CDAnet reversal transaction,
+ * an eClaims reversal adjustment or a portal withdrawal. Both the original
+ * and the reversal claim end up `reversed`.
+ */
+export async function reverseClaim(
+  claimId: string,
+  options: { actorUserId: string; reason?: string | null }
+): Promise<ClaimAmendmentResult> {
+  const original = await loadClaim(claimId);
+  if (!REVERSIBLE_STATUSES.includes(original.status) || !original.externalId) {
+    throw new ClaimAmendmentError(
+      'NOT_ELIGIBLE',
+      original.id,
+      `Only claims accepted by the insurer can be reversed (claim is ${original.status})`
+    );
+  }
+
+  const connectorName = await connectorFor(original);
+  const child = await createChildClaim(original, 'reversal', options.actorUserId, {
+    notes: options.reason ?? null,
+    amount: original.amount,
+    codes: original.codes,
+  }, [], { parentStatuses: REVERSIBLE_STATUSES, blockingRelations: [] });
+
+  const { getConnector } = await import('../connectors/base');
+  const connector = await getConnector(connectorName, original.orgId);
+  const result = await connector.reverseClaim(original, child);
+  if (result.status !== 'submitted') {
+    return { original, claim: child, result };
+  }
+
+  const reason = options.reason || `Reversal of claim ${describeClaim(original)}`;
+  await transitionClaimStatus(child.id, 'submitted', {
+    source: 'connector',
+    actorUserId: options.actorUserId,
+    reason,
+    updates: { externalId: result.externalId },
+  });
+
+  // A reversed claim has no decision left to poll for
+  const queuedPoll = await storage.findQueuedJob(original.id, 'poll-status');
+  if (queuedPoll) {
+    const { jobQueue } = await import('./jobs');
+    await jobQueue.cancel(queuedPoll.id);
+  }
+
+  const reversedOriginal = await transitionClaimStatus(original.id, 'reversed', {
+    source: 'connector',
+    actorUserId: options.actorUserId,
+    reason: `Reversed by claim ${describeClaim(child)}`,
+  });
+  const reversal = await transitionClaimStatus(child.id, 'reversed', {
+    source: 'connector',
+    actorUserId: options.actorUserId,
+    reason: 'Reversal acknowledged by insurer',
+  });
+
+  return { original: reversedOriginal, claim: reversal, result };
+}
+
+/**
+ * Every claim linked to the given one, from the first claim in the chain
+ * down through all resubmissions and reversals, oldest first
+ */
+export async function getClaimChain(claimId: string): Promise<Claim[]> {
+  let root = await loadClaim(claimId);
+  const visited = new Set([root.id]);
+  while (root.parentClaimId && !visited.has(root.parentClaimId)) {
+    const parent = await storage.getClaim(root.parentClaimId);
+    if (!parent) break;
+    visited.add(parent.id);
+    root = parent;
+  }
+
+  const chain = [root];
+  let generation = [root.id];
+  const seen = new Set(generation);
+  while (generation.length > 0) {
+    const children = (await storage.getChildClaims(generation)).filter(child => !seen.has(child.id));
+    children.forEach(child => seen.add(child.id));
+    chain.push(...children);
+    generation = children.map(child => child.id);
+  }
+
+  return chain.sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+}
+
+async function loadClaim(claimId: string): Promise<Claim> {
+  const claim = await storage.getClaim(claimId);
+  if (!claim) {
+    throw new ClaimAmendmentError('CLAIM_NOT_FOUND', claimId, `Claim ${claimId} not found`);
+  }
+  return claim;
+}
+
+async function connectorFor(claim: Claim): Promise<JobConnector> {
+  const insurer = await storage.getInsurer(claim.insurerId);
+  if (!insurer) {
+    throw new ClaimAmendmentError('NOT_ELIGIBLE', claim.id, `Insurer ${claim.insurerId} not found`);
+  }
+  return RAIL_CONNECTORS[insurer.rail];
+}
+
+/**
+ * Create the child claim and its lines in one transaction that rechecks the
+ * parent, so two concurrent requests cannot both amend the same claim
+ */
+async function createChildClaim(
+  original: Claim,
+  relation: ClaimRelation,
+  actorUserId: string,
+  fields: { notes: string | null; amount: string; codes: Claim['codes'] },
+  lines: ClaimLineInput[],
+  guard: ClaimAmendmentGuard
+): Promise<Claim> {
+  const originalReferenceNumber = original.originalReferenceNumber ?? original.referenceNumber;
+  const child = await storage.createAmendmentClaim({
+    orgId: original.orgId,
+    patientId: original.patientId,
+    providerId: original.providerId,
+    insurerId: original.insurerId,
+    appointmentId: original.appointmentId,
+    type: original.type,
+    status: 'draft',
+    amount: fields.amount,
+    currency: original.currency,
+    codes: fields.codes as InsertClaim['codes'],
+    notes: fields.notes,
+    referenceNumber: originalReferenceNumber ? await nextChainReference(original, originalReferenceNumber) : null,
+    parentClaimId: original.id,
+    relation,
+    originalReferenceNumber,
+    createdBy: actorUserId,
+  }, lines, guard);
+  if (!child) {
+    throw new ClaimAmendmentError(
+      'NOT_ELIGIBLE',
+      original.id,
+      `Claim ${describeClaim(original)} changed or was amended while this ${relationLabel(relation).toLowerCase()} was being created`
+    );
+  }
+  return child;
+}
+
+// Amendments are numbered through the chain: REF-1, REF-2, ... so a
+// reference number (on a webhook or a remittance line) names one claim
+async function nextChainReference(original: Claim, originalReferenceNumber: string): Promise<string> {
+  const chain = await getClaimChain(original.id);
+  return `${originalReferenceNumber}-${chain.length}`;
+}
+
+// Copy service lines without the previous adjudication results
+function toLineInputs(lines: ClaimLine[]): ClaimLineInput[] {
+  return lines.map(line => ({
+    procedureCode: line.procedureCode,
+    description: line.description,
+    tooth: line.tooth,
+    surface: line.surface,
+    serviceDate: line.serviceDate,
+    units: line.units,
+    fee: line.fee,
+    modifiers: line.modifiers,
+  }));
+}
+
+function relationLabel(relation: ClaimRelation): string {
+  switch (relation) {
+    case 'adjustment':
+      return 'Adjustment';
+    case 'reversal':
+      return 'Reversal';
+    default:
+      return 'Resubmission';
+  }
+}
+
+function describeClaim(claim: Claim): string {
+  return claim.claimNumber || claim.referenceNumber || claim.id;
+}
@@ -0,0 +1,523 @@
+/**
+ * Bulk claim import from practice-management exports (CSV or XLSX)
+ * Each spreadsheet row is one service line. Rows are mapped to claim fields
+ * through a column mapping, resolved to existing patients, providers and
+ * insurers, grouped into claims and validated against the claim schema and
+ * the insurer rail's claim format. Nothing is written until the import is
+ * committed, and only claims without errors are created (as drafts).
+ */
+
+import {
+  insertClaimSchema,
+  claimLineInputSchema,
+  type Claim,
+  type ClaimLineInput,
+  type Insurer,
+  type Patient,
+  type Provider,
+  type ProviderLicence,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { parseCsvRows } from './csv';
+import { parseXlsxRows, XlsxError } from './xlsx';
+import type { JobConnector } from './jobs';
+import { CDAnetClaimSchema } from '../integrations/cdanet';
+import { TelusClaimSchema } from '../integrations/telusEclaims';
+
+export type ClaimImportFormat = 'csv' | 'xlsx';
+
+export type ClaimImportField =
+  | 'claimKey'
+  | 'patientName'
+  | 'patientDob'
+  | 'memberNumber'
+  | 'providerLicence'
+  | 'providerName'
+  | 'insurer'
+  | 'claimType'
+  | 'serviceDate'
+  | 'procedureCode'
+  | 'description'
+  | 'tooth'
+  | 'surface'
+  | 'units'
+  | 'fee'
+  | 'diagnosisCode'
+  | 'referenceNumber'
+  | 'notes';
+
+// Import field -> spreadsheet column header
+export type ColumnMapping = Partial<Record<ClaimImportField, string>>;
+
+export const CLAIM_IMPORT_FIELDS: Array<{ field: ClaimImportField; label: string; required?: boolean; aliases: string[] }> = [
+  { field: 'claimKey', label: 'Visit / Claim ID', aliases: ['visit id', 'visit', 'encounter', 'invoice', 'invoice number', 'claim id'] },
+  { field: 'patientName', label: 'Patient Name', aliases: ['patient', 'name', 'client', 'client name'] },
+  { field: 'patientDob', label: 'Patient Date of Birth', aliases: ['dob', 'date of birth', 'birth date', 'birthdate'] },
+  { field: 'memberNumber', label: 'Certificate / Policy Number', aliases: ['certificate', 'certificate number', 'member id', 'member number', 'policy', 'policy number'] },
+  { field: 'providerLicence', label: 'Provider Licence Number', aliases: ['licence', 'license', 'licence number', 'license number', 'provider number'] },
+  { field: 'providerName', label: 'Provider Name', aliases: ['provider', 'practitioner', 'clinician', 'therapist', 'dentist'] },
+  { field: 'insurer', label: 'Insurer', required: true, aliases: ['carrier', 'payer', 'insurance', 'plan'] },
+  { field: 'claimType', label: 'Claim Type', aliases: ['type'] },
+  { field: 'serviceDate', label: 'Service Date', required: true, aliases: ['date of service', 'dos', 'visit date', 'date'] },
+  { field: 'procedureCode', label: 'Procedure Code', required: true, aliases: ['procedure', 'service code', 'code', 'fee code', 'billing code'] },
+  { field: 'description', label: 'Description', aliases: ['service', 'procedure description', 'service description'] },
+  { field: 'tooth', label: 'Tooth', aliases: ['tooth number'] },
+  { field: 'surface', label: 'Surface', aliases: ['surfaces'] },
+  { field: 'units', label: 'Units', aliases: ['quantity', 'qty'] },
+  { field: 'fee', label: 'Fee', required: true, aliases: ['amount', 'charge', 'fee submitted', 'billed', 'price'] },
+  { field: 'diagnosisCode', label: 'Diagnosis Code', aliases: ['diagnosis', 'icd', 'icd10', 'dx'] },
+  { field: 'referenceNumber', label: 'Reference Number', aliases: ['reference', 'ref', 'claim number'] },
+  { field: 'notes', label: 'Notes', aliases: ['note', 'comments', 'memo'] },
+];
+
+export const MAX_IMPORT_ROWS = parseInt(process.env.CLAIM_IMPORT_MAX_ROWS || '2000', 10);
+
+const RAIL_CONNECTORS: Record<Insurer['rail'], JobConnector> = {
+  cdanet: 'cdanet',
+  telusEclaims: 'eclaims',
+  portal: 'portal',
+};
+
+export type ClaimImportErrorCode = 'INVALID_FILE' | 'INVALID_MAPPING' | 'TOO_MANY_ROWS';
+
+export class ClaimImportError extends Error {
+  public code: ClaimImportErrorCode;
+
+  constructor(code: ClaimImportErrorCode, message: string) {
+    super(message);
+    this.name = 'ClaimImportError';
+    this.code = code;
+  }
+}
+
+export interface ClaimImportDraft {
+  key: string;
+  rowNumbers: number[];
+  patientId?: string;
+  patientName?: string;
+  providerId?: string;
+  providerName?: string;
+  insurerId?: string;
+  insurerName?: string;
+  connector?: JobConnector;
+  type: Claim['type'];
+  amount: string;
+  referenceNumber?: string;
+  notes?: string;
+  lines: ClaimLineInput[];
+  errors: string[]; // prefixed with the spreadsheet row they came from
+}
+
+export interface ClaimImportPreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  rowCount: number;
+  claims: ClaimImportDraft[];
+  validClaims: number;
+}
+
+export interface ClaimImportRequest {
+  orgId: string;
+  userId: string;
+  format: ClaimImportFormat;
+  content: string; // CSV text, or the XLSX workbook as base64
+  mapping?: ColumnMapping;
+}
+
+interface ImportRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+interface ImportContext {
+  patients: Patient[];
+  providers: Provider[];
+  insurers: Insurer[];
+}
+
+/**
+ * Read the header row and data rows of an uploaded file
+ */
+export function readImportFile(format: ClaimImportFormat, content: string): { headers: string[]; rows: ImportRow[] } {
+  let cells: string[][];
+  try {
+    cells = format === 'xlsx' ? parseXlsxRows(Buffer.from(content, 'base64')) : parseCsvRows(content);
+  } catch (error) {
+    if (error instanceof XlsxError) {
+      throw new ClaimImportError('INVALID_FILE', error.message);
+    }
+    throw error;
+  }
+
+  const headerIndex = cells.findIndex(row => row.some(cell => cell.trim() !== ''));
+  if (headerIndex < 0) {
+    throw new ClaimImportError('INVALID_FILE', 'The file is empty');
+  }
+
+  const headers = cells[headerIndex].map(cell => cell.trim());
+  const rows = cells
+    .map((row, index) => ({ rowNumber: index + 1, cells: row }))
+    .slice(headerIndex + 1)
+    .filter(row => row.cells.some(cell => cell.trim() !== ''));
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ClaimImportError('TOO_MANY_ROWS', `Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and try again`);
+  }
+  return { headers, rows };
+}
+
+/**
+ * Guess which column holds each import field from the header names
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const { field, label, aliases } of CLAIM_IMPORT_FIELDS) {
+    const candidates = [field, label, ...aliases].map(normalizeHeader);
+    const header = headers.find(name => name && !used.has(name) && candidates.includes(normalizeHeader(name)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Dry run: map, resolve, group and validate every row without writing anything
+ */
+export async function previewClaimImport(request: ClaimImportRequest): Promise<ClaimImportPreview> {
+  const { headers, rows } = readImportFile(request.format, request.content);
+  const mapping = request.mapping ?? suggestColumnMapping(headers);
+
+  const unknownColumns = Object.values(mapping).filter(header => header && !headers.includes(header));
+  if (unknownColumns.length > 0) {
+    throw new ClaimImportError('INVALID_MAPPING', `Columns not found in the file: ${unknownColumns.join(', ')}`);
+  }
+  const missing = CLAIM_IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]);
+  if (missing.length > 0) {
+    throw new ClaimImportError('INVALID_MAPPING', `Map a column for: ${missing.map(({ label }) => label).join(', ')}`);
+  }
+
+  const [patients, providers, insurers] = await Promise.all([
+    storage.getPatients(request.orgId),
+    storage.getProviders(request.orgId),
+    storage.getInsurers(),
+  ]);
+  const context: ImportContext = { patients, providers, insurers };
+
+  const drafts = new Map<string, ClaimImportDraft>();
+  for (const row of rows) {
+    const value = (field: ClaimImportField) => {
+      const header = mapping[field];
+      return header ? (row.cells[headers.indexOf(header)] ?? '').trim() : '';
+    };
+    const errors: string[] = [];
+
+    const patient = resolvePatient(context.patients, value('patientName'), value('patientDob'), value('memberNumber'), errors);
+    const provider = resolveProvider(context.providers, value('providerLicence'), value('providerName'), errors);
+    const insurer = resolveInsurer(context.insurers, value('insurer'), errors);
+    const serviceDate = parseImportDate(value('serviceDate'));
+    if (!serviceDate) {
+      errors.push(value('serviceDate') ? `Unrecognised service date "${value('serviceDate')}"; use YYYY-MM-DD` : 'Service date is required');
+    }
+    const type = parseClaimType(value('claimType'), errors);
+
+    const line = claimLineInputSchema.safeParse({
+      procedureCode: value('procedureCode'),
+      description: value('description') || null,
+      fee: parseAmount(value('fee')),
+      units: value('units') ? Number(value('units')) : 1,
+      serviceDate,
+      tooth: value('tooth') || null,
+      surface: value('surface') || null,
+    });
+    if (!line.success) {
+      errors.push(...line.error.errors.map(issue => `${issue.path.join('.') || 'line'}: ${issue.message}`));
+    } else {
+      if (!line.data.procedureCode) errors.push('Procedure code is required');
+      if (!line.data.fee) errors.push(value('fee') ? `Unrecognised fee "${value('fee')}"` : 'Fee is required');
+    }
+
+    const key = value('claimKey')
+      ? `visit:${value('claimKey')}`
+      : [patient?.id ?? value('patientName'), provider?.id ?? value('providerName'), insurer?.id ?? value('insurer'), value('serviceDate'), type].join('|');
+
+    let draft = drafts.get(key);
+    if (!draft) {
+      draft = {
+        key,
+        rowNumbers: [],
+        patientId: patient?.id,
+        patientName: patient?.name ?? (value('patientName') || undefined),
+        providerId: provider?.id,
+        providerName: provider?.name ?? (value('providerName') || undefined),
+        insurerId: insurer?.id,
+        insurerName: insurer?.name ?? (value('insurer') || undefined),
+        connector: insurer ? RAIL_CONNECTORS[insurer.rail] : undefined,
+        type,
+        amount: '0.00',
+        referenceNumber: value('referenceNumber') || undefined,
+        notes: value('notes') || undefined,
+        lines: [],
+        errors: [],
+      };
+      drafts.set(key, draft);
+    } else if (patient?.id !== draft.patientId || provider?.id !== draft.providerId || insurer?.id !== draft.insurerId) {
+      errors.push('Rows for the same visit must have the same patient, provider and insurer');
+    }
+
+    draft.rowNumbers.push(row.rowNumber);
+    if (line.success) {
+      draft.lines.push(line.data);
+      if (patient && provider && insurer) {
+        errors.push(...railErrors(insurer, patient, provider, line.data, value('diagnosisCode')));
+      }
+    }
+    draft.errors.push(...errors.map(error => `Row ${row.rowNumber}: ${error}`));
+  }
+
+  const claims: ClaimImportDraft[] = [];
+  const seenReferences = new Set<string>();
+  for (const draft of Array.from(drafts.values())) {
+    draft.amount = draft.lines.reduce((total, line) => total + Number(line.fee) * (line.units ?? 1), 0).toFixed(2);
+
+    if (draft.errors.length === 0) {
+      const claim = insertClaimSchema.safeParse(toInsertClaim(draft, request));
+      if (!claim.success) {
+        draft.errors.push(...claim.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+      }
+    }
+    if (draft.referenceNumber) {
+      if (seenReferences.has(draft.referenceNumber)) {
+        draft.errors.push(`Reference number ${draft.referenceNumber} is used by another claim in this file`);
+      } else if (await storage.getClaimByReferenceNumber(draft.referenceNumber, request.orgId)) {
+        draft.errors.push(`Reference number ${draft.referenceNumber} was already imported`);
+      }
+      seenReferences.add(draft.referenceNumber);
+    }
+    claims.push(draft);
+  }
+
+  return {
+    headers,
+    mapping,
+    rowCount: rows.length,
+    claims,
+    validClaims: claims.filter(claim => claim.errors.length === 0).length,
+  };
+}
+
+/**
+ * Create draft claims for every claim in the file that passed validation.
+ * The file is validated again here rather than trusting the client's preview.
+ */
+export async function commitClaimImport(request: ClaimImportRequest): Promise<{ created: Array<{ claim: Claim; key: string; connector?: JobConnector }>; skipped: ClaimImportDraft[] }> {
+  const preview = await previewClaimImport(request);
+  const created: Array<{ claim: Claim; key: string; connector?: JobConnector }> = [];
+  const skipped: ClaimImportDraft[] = [];
+
+  for (const draft of preview.claims) {
+    if (draft.errors.length > 0) {
+      skipped.push(draft);
+      continue;
+    }
+    const claim = await storage.createClaim(insertClaimSchema.parse(toInsertClaim(draft, request)));
+    await storage.replaceClaimLines(claim.id, draft.lines);
+    created.push({ claim, key: draft.key, connector: draft.connector });
+  }
+
+  return { created, skipped };
+}
+
+function toInsertClaim(draft: ClaimImportDraft, request: ClaimImportRequest) {
+  return {
+    orgId: request.orgId,
+    patientId: draft.patientId,
+    providerId: draft.providerId,
+    insurerId: draft.insurerId,
+    type: draft.type,
+    status: 'draft' as const,
+    amount: draft.amount,
+    // Legacy `codes` summary, as written by the claim wizard
+    codes: draft.lines.map(line => ({
+      code: line.procedureCode,
+      description: line.description || '',
+      amount: Number(line.fee) * (line.units ?? 1),
+    })),
+    notes: draft.notes ?? null,
+    referenceNumber: draft.referenceNumber ?? null,
+    createdBy: request.userId,
+  };
+}
+
+function resolvePatient(patients: Patient[], name: string, dob: string, memberNumber: string, errors: string[]): Patient | undefined {
+  if (memberNumber) {
+    const matches = patients.filter(patient => {
+      const identifiers = (patient.identifiers || {}) as Record<string, any>;
+      return [identifiers.certificateNumber, identifiers.policyNumber, identifiers.subscriberId].includes(memberNumber);
+    });
+    if (matches.length === 1) return matches[0];
+  }
+  if (!name) {
+    errors.push(memberNumber ? `No patient with certificate/policy number ${memberNumber}` : 'Patient name is required');
+    return undefined;
+  }
+
+  const birthDate = parseImportDate(dob);
+  const matches = patients.filter(patient =>
+    normalizeName(patient.name) === normalizeName(name) &&
+    (!birthDate || (patient.dob && toDateKey(patient.dob) === toDateKey(birthDate)))
+  );
+  if (matches.length === 1) return matches[0];
+  errors.push(matches.length === 0
+    ? `Patient "${name}" not found; add them on the Patients page first`
+    : `More than one patient named "${name}"; add a date of birth or certificate number column`);
+  return undefined;
+}
+
+function resolveProvider(providers: Provider[], licence: string, name: string, errors: string[]): Provider | undefined {
+  if (licence) {
+    const match = providers.find(provider =>
+      provider.licenceNumber === licence ||
+      (provider.licences || []).some((entry: ProviderLicence) => entry.number === licence)
+    );
+    if (match) return match;
+  }
+  if (name) {
+    const matches = providers.filter(provider => normalizeName(provider.name) === normalizeName(name));
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      errors.push(`More than one provider named "${name}"; map the licence number column`);
+      return undefined;
+    }
+  }
+  // Single-practitioner clinics often leave the provider column out entirely
+  if (!licence && !name && providers.length === 1) return providers[0];
+
+  errors.push(licence || name ? `Provider "${licence || name}" not found` : 'Provider is required');
+  return undefined;
+}
+
+function resolveInsurer(insurers: Insurer[], value: string, errors: string[]): Insurer | undefined {
+  const match = insurers.find(insurer => insurer.id === value || normalizeName(insurer.name) === normalizeName(value));
+  if (!match) {
+    errors.push(value ? `Insurer "${value}" not found` : 'Insurer is required');
+  }
+  return match;
+}
+
+function parseClaimType(value: string, errors: string[]): Claim['type'] {
+  const type = value.toLowerCase();
+  if (!type || type === 'claim') return 'claim';
+  if (['preauth', 'pre-auth', 'predetermination', 'pre-determination'].includes(type)) return 'preauth';
+  errors.push(`Unknown claim type "${value}"`);
+  return 'claim';
+}
+
+/**
+ * Check a service line against the insurer rail's claim format, so problems
+ * show up in the preview instead of at submission
+ */
+function railErrors(insurer: Insurer, patient: Patient, provider: Provider, line: ClaimLineInput, diagnosisCode: string): string[] {
+  const identifiers = (patient.identifiers || {}) as Record<string, any>;
+  const [firstName, ...rest] = patient.name.trim().split(/\s+/);
+  const lastName = rest.length > 0 ? rest[rest.length - 1] : undefined;
+  const dateOfBirth = patient.dob ? toDateKey(patient.dob) : undefined;
+  const serviceDate = line.serviceDate ? toDateKey(line.serviceDate) : undefined;
+
+  let result;
+  if (insurer.rail === 'cdanet') {
+    result = CDAnetClaimSchema.safeParse({
+      patientInfo: {
+        memberNumber: identifiers.certificateNumber ?? identifiers.subscriberId,
+        planNumber: identifiers.policyNumber ?? identifiers.groupNumber,
+        firstName,
+        lastName,
+        dateOfBirth,
+        relationship: (['self', 'spouse', 'child'] as const)[Number(identifiers.relationshipCode ?? 0)] ?? 'other',
+      },
+      providerInfo: {
+        dentistLicense: provider.licenceNumber ?? undefined,
+        officeSequence: '0', // assigned when the message is sent
+        billingProvider: provider.licenceNumber ?? undefined,
+      },
+      treatmentInfo: {
+        treatmentDate: serviceDate,
+        procedureCode: line.procedureCode,
+        toothNumber: line.tooth ?? undefined,
+        surfaces: line.surface ?? undefined,
+        feeSubmitted: Number(line.fee),
+      },
+      predetermination: {},
+    });
+  } else if (insurer.rail === 'telusEclaims') {
+    const licence = (provider.licences || []).find(entry => entry.number === provider.licenceNumber);
+    result = TelusClaimSchema.safeParse({
+      patientInfo: {
+        healthCardNumber: identifiers.healthCard,
+        province: identifiers.province ?? licence?.province,
+        firstName,
+        lastName,
+        dateOfBirth,
+      },
+      providerInfo: {
+        providerNumber: provider.licenceNumber ?? undefined,
+        billingNumber: provider.licenceNumber ?? undefined,
+      },
+      serviceInfo: {
+        serviceDate,
+        diagnosticCode: diagnosisCode || undefined,
+        serviceCode: line.procedureCode,
+        units: line.units ?? 1,
+        feeSubmitted: Number(line.fee),
+      },
+    });
+  } else {
+    return [];
+  }
+
+  return result.success
+    ? []
+    : result.error.errors.map(issue => `${insurer.name}: ${issue.path.join('.')} ${issue.message.toLowerCase()}`);
+}
+
+/**
+ * Dates as exported by practice-management systems: ISO dates, compact
+ * YYYYMMDD, or Excel serial day numbers from XLSX files
+ */
+export function parseImportDate(value: string): Date | undefined {
+  const text = value.trim();
+  if (!text) return undefined;
+
+  const iso = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/.exec(text) ?? /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (iso) {
+    const date = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    return date.getUTCMonth() === Number(iso[2]) - 1 ? date : undefined;
+  }
+
+  // Excel counts days from 1899-12-30 (its 1900 leap-year bug included)
+  if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    const serial = Math.floor(Number(text));
+    return new Date(Date.UTC(1899, 11, 30) + serial * 24 * 60 * 60 * 1000);
+  }
+  return undefined;
+}
+
+function parseAmount(value: string): string {
+  const amount = Number(value.replace(/[$,\s]/g, ''));
+  return value && Number.isFinite(amount) ? amount.toFixed(2) : '';
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
@@ -0,0 +1,472 @@
+/**
+ * Claim scrubbing rules engine
+ * Deterministic checks run on every draft claim before it goes to the
+ * insurer: code/discipline compatibility, frequency limits, required
+ * attachments, pre-authorizations, duplicate claims and missing identifiers.
+ * Built-in rules and an organization's own rules (claim_scrub_rules) share
+ * one declarative format; findings with severity "error" block submission.
+ */
+
+import type { Claim, ClaimScrubCondition, ClaimScrubRule, ClaimScrubScope, Insurer, Patient, Provider, ScrubSeverity } from '@shared/schema';
+import { storage, type PatientServiceLine } from '../storage';
+import { primaryLicenceNumber } from './directory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back pre-authorizations and duplicates are looked for
+const HISTORY_LOOKBACK_DAYS = 365;
+
+// Procedure codes insurers pre-authorize, with what they are and why
+export const PREAUTH_REQUIRED: Record<string, { procedure: string; reason: string }> = {
+  // Imaging
+  'X092': { procedure: 'MRI scan', reason: 'High-cost diagnostic imaging' },
+  'X093': { procedure: 'CT scan', reason: 'Advanced imaging procedure' },
+  // Surgery
+  'S065': { procedure: 'Knee arthroscopy', reason: 'Surgical procedure' },
+  'S067': { procedure: 'Carpal tunnel release', reason: 'Surgical procedure' },
+  // Specialist referrals
+  'A665': { procedure: 'Specialist consultation - Orthopedic', reason: 'Specialist referral' },
+  'A415': { procedure: 'Specialist consultation - Cardiology', reason: 'Specialist referral' },
+};
+
+const SEVERITY_ORDER: readonly ScrubSeverity[] = ['error', 'warning', 'info'];
+
+// Claims that no longer count towards frequency limits or duplicates
+const VOID_STATUSES: readonly Claim['status'][] = ['denied', 'reversed'];
+
+export interface ScrubRuleDefinition {
+  id: string; // "builtin:<name>", or the claim_scrub_rules id
+  name: string;
+  severity: ScrubSeverity;
+  condition: ClaimScrubCondition;
+  scope?: ClaimScrubScope | null;
+  message?: string | null; // replaces the generated message
+  builtIn: boolean;
+}
+
+// CDA dental procedure codes are five digits
+const DENTAL_CODES = ['0*', '1*', '2*', '3*', '4*', '5*', '6*', '7*', '8*', '9*'];
+
+export const BUILT_IN_SCRUB_RULES: readonly ScrubRuleDefinition[] = [
+  {
+    id: 'builtin:patient-provider-identifiers',
+    name: 'Patient date of birth and provider licence',
+    severity: 'error',
+    condition: { kind: 'identifier_required', fields: ['dob', 'licence'] },
+    scope: { rails: ['cdanet', 'telusEclaims'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:cdanet-policy',
+    name: 'CDAnet policy number',
+    severity: 'error',
+    condition: { kind: 'identifier_required', fields: ['policyNumber'] },
+    scope: { rails: ['cdanet'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:eclaims-health-card',
+    name: 'eClaims health card number',
+    severity: 'error',
+    condition: { kind: 'identifier_required', fields: ['healthCard'] },
+    scope: { rails: ['telusEclaims'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:duplicate-service',
+    name: 'Duplicate service',
+    severity: 'error',
+    condition: { kind: 'duplicate_claim' },
+    scope: { claimTypes: ['claim'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:dental-codes-discipline',
+    name: 'Dental codes billed by dental providers',
+    severity: 'warning',
+    condition: { kind: 'code_discipline', codes: DENTAL_CODES, disciplines: ['dent', 'hygien'] },
+    scope: { rails: ['cdanet'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:recall-exam-frequency',
+    name: 'Recall exam frequency',
+    severity: 'warning',
+    condition: { kind: 'frequency_limit', codes: ['01202'], maxUnits: 1, perDays: 180 },
+    scope: { claimTypes: ['claim'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:complete-exam-frequency',
+    name: 'Complete exam frequency',
+    severity: 'warning',
+    condition: { kind: 'frequency_limit', codes: ['01101', '01102', '01103'], maxUnits: 1, perDays: 1095 },
+    scope: { claimTypes: ['claim'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:bitewing-frequency',
+    name: 'Bitewing radiograph frequency',
+    severity: 'warning',
+    condition: { kind: 'frequency_limit', codes: ['0220*'], maxUnits: 1, perDays: 365 },
+    scope: { claimTypes: ['claim'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:crown-radiographs',
+    name: 'Radiographs for crowns and bridges',
+    severity: 'warning',
+    condition: { kind: 'attachment_required', codes: ['27*', '67*'], minCount: 1 },
+    scope: { claimTypes: ['claim'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:preauth-required',
+    name: 'Pre-authorization on file',
+    severity: 'warning',
+    condition: { kind: 'preauth_required', codes: Object.keys(PREAUTH_REQUIRED) },
+    scope: { claimTypes: ['claim'] },
+    builtIn: true,
+  },
+  {
+    id: 'builtin:high-amount',
+    name: 'High claim amount',
+    severity: 'info',
+    condition: { kind: 'max_amount', amount: 10000 },
+    message: 'High claim amounts may need additional documentation',
+    builtIn: true,
+  },
+];
+
+export interface ScrubLine {
+  lineNumber: number;
+  procedureCode: string;
+  units: number;
+  serviceDate: Date | null; // null bills the line for today
+}
+
+// The claim being scrubbed, saved or not
+export interface ClaimDraft {
+  id?: string; // saved claims are left out of their own history
+  parentClaimId?: string | null;
+  orgId: string;
+  patientId: string;
+  providerId: string;
+  insurerId: string;
+  type: Claim['type'];
+  amount: number;
+  lines: ScrubLine[];
+  attachmentCount: number;
+}
+
+export interface ScrubContext {
+  draft: ClaimDraft;
+  patient?: Pick<Patient, 'dob' | 'identifiers'>;
+  provider?: Pick<Provider, 'discipline' | 'licenceNumber' | 'licences'>;
+  insurer?: Pick<Insurer, 'id' | 'rail'>;
+  history: PatientServiceLine[];
+  now: Date;
+}
+
+export interface ScrubFinding {
+  ruleId: string;
+  ruleName: string;
+  severity: ScrubSeverity;
+  message: string;
+  lineNumbers?: number[];
+}
+
+export interface ScrubResult {
+  findings: ScrubFinding[];
+  errors: number;
+  warnings: number;
+  canSubmit: boolean; // no error findings
+}
+
+export class ClaimScrubError extends Error {
+  public code: 'SCRUB_FAILED';
+  public findings: ScrubFinding[];
+
+  constructor(findings: ScrubFinding[]) {
+    const errors = findings.filter(finding => finding.severity === 'error');
+    super(`Claim failed ${errors.length} scrubbing check(s): ${errors.map(finding => finding.message).join('; ')}`);
+    this.name = 'ClaimScrubError';
+    this.code = 'SCRUB_FAILED';
+    this.findings = findings;
+  }
+}
+
+// Readable names for the fields identifier_required checks
+const FIELD_LABELS: Record<string, string> = {
+  dob: "patient's date of birth",
+  licence: "provider's licence number",
+  policyNumber: 'policy number',
+  certificateNumber: 'certificate number',
+  groupNumber: 'group number',
+  carrierId: 'carrier ID',
+  healthCard: 'health card number',
+};
+
+// Older patient records keep the health card under "ohip"
+const FIELD_ALIASES: Record<string, string[]> = {
+  healthCard: ['healthCard', 'ohip'],
+};
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function codeMatches(code: string, patterns: readonly string[]): boolean {
+  const normalized = normalizeCode(code);
+  return patterns.some(pattern => pattern.endsWith('*')
+    ? normalized.startsWith(pattern.slice(0, -1))
+    : normalized === pattern);
+}
+
+function dayOf(date: Date | null, now: Date): number {
+  return Math.floor((date ?? now).getTime() / DAY_MS);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function uniqueCodes(lines: ScrubLine[]): string {
+  return Array.from(new Set(lines.map(line => normalizeCode(line.procedureCode)))).join(', ');
+}
+
+function inScope(scope: ClaimScrubScope | null | undefined, context: ScrubContext): boolean {
+  if (!scope) return true;
+  if (scope.rails && !(context.insurer && scope.rails.includes(context.insurer.rail))) return false;
+  if (scope.insurerIds && !scope.insurerIds.includes(context.draft.insurerId)) return false;
+  if (scope.claimTypes && !scope.claimTypes.includes(context.draft.type)) return false;
+  return true;
+}
+
+// Other claims' services that still stand with the insurer
+function countedHistory(context: ScrubContext): PatientServiceLine[] {
+  const { draft } = context;
+  return context.history.filter(line =>
+    line.claimType === 'claim'
+    && !VOID_STATUSES.includes(line.claimStatus)
+    && line.relation !== 'reversal'
+    && line.claimId !== draft.id
+    && line.claimId !== draft.parentClaimId);
+}
+
+type Problem = { message: string; lineNumbers?: number[] };
+
+function evaluateCondition(condition: ClaimScrubCondition, context: ScrubContext): Problem[] {
+  const { draft, now } = context;
+  const matching = 'codes' in condition
+    ? draft.lines.filter(line => codeMatches(line.procedureCode, condition.codes))
+    : [];
+
+  switch (condition.kind) {
+    case 'code_discipline': {
+      if (matching.length === 0) return [];
+      const discipline = context.provider?.discipline?.trim() ?? '';
+      if (condition.disciplines.some(word => discipline.toLowerCase().includes(word.toLowerCase()))) return [];
+      return [{
+        message: discipline
+          ? `${uniqueCodes(matching)} cannot be billed by a ${discipline} provider`
+          : `${uniqueCodes(matching)} needs the provider's discipline on file`,
+        lineNumbers: matching.map(line => line.lineNumber),
+      }];
+    }
+
+    case 'frequency_limit': {
+      const previous = countedHistory(context).filter(line => codeMatches(line.procedureCode, condition.codes));
+      for (const line of matching) {
+        const day = dayOf(line.serviceDate, now);
+        const within = (other: number) => Math.abs(other - day) < condition.perDays;
+        const units = previous.filter(service => within(dayOf(service.serviceDate, now))).reduce((total, service) => total + service.units, 0)
+          + matching.filter(other => within(dayOf(other.serviceDate, now))).reduce((total, other) => total + other.units, 0);
+        if (units > condition.maxUnits) {
+          return [{
+            message: `${uniqueCodes(matching)} is limited to ${condition.maxUnits} per ${condition.perDays} days; the patient has ${units} around ${formatDay(day)}`,
+            lineNumbers: [line.lineNumber],
+          }];
+        }
+      }
+      return [];
+    }
+
+    case 'attachment_required':
+      if (matching.length === 0 || draft.attachmentCount >= condition.minCount) return [];
+      return [{
+        message: `${uniqueCodes(matching)} needs at least ${condition.minCount} attachment(s); the claim has ${draft.attachmentCount}`,
+        lineNumbers: matching.map(line => line.lineNumber),
+      }];
+
+    case 'preauth_required': {
+      const preauths = context.history.filter(line =>
+        line.claimType === 'preauth'
+        && line.insurerId === draft.insurerId
+        && line.claimStatus !== 'draft'
+        && !VOID_STATUSES.includes(line.claimStatus));
+      return matching
+        .filter(line => {
+          const day = dayOf(line.serviceDate, now);
+          return !preauths.some(preauth => normalizeCode(preauth.procedureCode) === normalizeCode(line.procedureCode)
+            && day - dayOf(preauth.serviceDate, now) <= HISTORY_LOOKBACK_DAYS);
+        })
+        .map(line => {
+          const code = normalizeCode(line.procedureCode);
+          const known = PREAUTH_REQUIRED[code];
+          return {
+            message: known
+              ? `${code} (${known.procedure}) needs a pre-authorization from this insurer and none is on file: ${known.reason}`
+              : `${code} needs a pre-authorization from this insurer and none is on file`,
+            lineNumbers: [line.lineNumber],
+          };
+        });
+    }
+
+    case 'identifier_required': {
+      const identifiers = (context.patient?.identifiers ?? {}) as Record<string, unknown>;
+      const provider = context.provider;
+      const missing = condition.fields.filter(field => {
+        if (field === 'dob') return !context.patient?.dob;
+        if (field === 'licence') return !(provider && (primaryLicenceNumber(provider.discipline, provider.licences) ?? provider.licenceNumber));
+        return !(FIELD_ALIASES[field] ?? [field]).some(key => String(identifiers[key] ?? '').trim());
+      });
+      if (missing.length === 0) return [];
+      return [{ message: `Missing ${missing.map(field => FIELD_LABELS[field] ?? field).join(', ')}` }];
+    }
+
+    case 'max_amount':
+      if (draft.amount <= condition.amount) return [];
+      return [{ message: `Claim total $${draft.amount.toFixed(2)} is over $${condition.amount.toFixed(2)}` }];
+
+    case 'duplicate_claim': {
+      const previous = countedHistory(context);
+      return draft.lines
+        .filter(line => previous.some(service =>
+          normalizeCode(service.procedureCode) === normalizeCode(line.procedureCode)
+          && dayOf(service.serviceDate, now) === dayOf(line.serviceDate, now)))
+        .map(line => ({
+          message: `${normalizeCode(line.procedureCode)} on ${formatDay(dayOf(line.serviceDate, now))} is already billed on another claim for this patient`,
+          lineNumbers: [line.lineNumber],
+        }));
+    }
+  }
+}
+
+/**
+ * Run the rules against a claim and its patient's history. Pure: the same
+ * rules and context always give the same findings, errors first.
+ */
+export function evaluateScrubRules(rules: readonly ScrubRuleDefinition[], context: ScrubContext): ScrubFinding[] {
+  const findings = rules
+    .filter(rule => inScope(rule.scope, context))
+    .flatMap(rule => evaluateCondition(rule.condition, context).map(problem => ({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      message: rule.message || problem.message,
+      ...(problem.lineNumbers && { lineNumbers: problem.lineNumbers }),
+    })));
+  return findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+export function toScrubRuleDefinition(rule: ClaimScrubRule): ScrubRuleDefinition {
+  return {
+    id: rule.id,
+    name: rule.name,
+    severity: rule.severity,
+    condition: rule.condition,
+    scope: rule.scope,
+    message: rule.message,
+    builtIn: false,
+  };
+}
+
+/**
+ * The built-in rules followed by the organization's enabled rules
+ */
+export async function getScrubRules(orgId: string): Promise<ScrubRuleDefinition[]> {
+  const orgRules = await storage.getClaimScrubRules(orgId);
+  return [...BUILT_IN_SCRUB_RULES, ...orgRules.filter(rule => rule.enabled).map(toScrubRuleDefinition)];
+}
+
+/**
+ * Scrub a claim with the organization's rules, loading its patient,
+ * provider, insurer and the patient's service history
+ */
+export async function scrubClaim(draft: ClaimDraft, now = new Date()): Promise<ScrubResult> {
+  const [rules, patient, provider, insurer] = await Promise.all([
+    getScrubRules(draft.orgId),
+    storage.getPatient(draft.patientId),
+    storage.getProvider(draft.providerId),
+    storage.getInsurer(draft.insurerId),
+  ]);
+
+  const lookbackDays = Math.max(HISTORY_LOOKBACK_DAYS, ...rules.map(rule =>
+    rule.condition.kind === 'frequency_limit' ? rule.condition.perDays : 0));
+  const earliest = Math.min(now.getTime(), ...draft.lines.map(line => (line.serviceDate ?? now).getTime()));
+  const ownPatient = patient?.orgId === draft.orgId ? patient : undefined;
+  const history = ownPatient
+    ? await storage.getPatientServiceHistory(draft.patientId, new Date(earliest - lookbackDays * DAY_MS))
+    : [];
+
+  const findings = evaluateScrubRules(rules, {
+    draft,
+    patient: ownPatient,
+    provider: provider?.orgId === draft.orgId ? provider : undefined,
+    insurer,
+    history,
+    now,
+  });
+  const errors = findings.filter(finding => finding.severity === 'error').length;
+  return {
+    findings,
+    errors,
+    warnings: findings.filter(finding => finding.severity === 'warning').length,
+    canSubmit: errors === 0,
+  };
+}
+
+/**
+ * Scrub a saved claim: its service lines (or legacy codes) and attachments
+ */
+export async function scrubSavedClaim(claim: Claim, now = new Date()): Promise<ScrubResult> {
+  const [lines, attachments] = await Promise.all([
+    storage.getClaimLines(claim.id),
+    storage.getAttachments(claim.id),
+  ]);
+
+  const legacyCodes = Array.isArray(claim.codes) ? claim.codes as Array<{ code?: unknown }> : [];
+  const scrubLines: ScrubLine[] = lines.length > 0
+    ? lines.map(line => ({ lineNumber: line.lineNumber, procedureCode: line.procedureCode, units: line.units, serviceDate: line.serviceDate }))
+    : legacyCodes.filter(entry => entry?.code).map((entry, index) => ({
+        lineNumber: index + 1,
+        procedureCode: String(entry.code),
+        units: 1,
+        serviceDate: claim.createdAt,
+      }));
+
+  return scrubClaim({
+    id: claim.id,
+    parentClaimId: claim.parentClaimId,
+    orgId: claim.orgId,
+    patientId: claim.patientId,
+    providerId: claim.providerId,
+    insurerId: claim.insurerId,
+    type: claim.type,
+    amount: Number(claim.amount),
+    lines: scrubLines,
+    attachmentCount: attachments.filter(attachment => attachment.scanStatus !== 'infected').length,
+  }, now);
+}
+
+/**
+ * Refuse to send a claim that fails any error-severity rule
+ */
+export async function assertClaimScrubbed(claim: Claim): Promise<ScrubResult> {
+  const result = await scrubSavedClaim(claim);
+  if (!result.canSubmit) {
+    throw new ClaimScrubError(result.findings);
+  }
+  return result;
+}
@@ -0,0 +1,131 @@
+/**
+ * Claim status state machine
+ * Every write to claims.status goes through transitionClaimStatus(), which
+ * enforces the legal moves below and records the change in claim_status_history.
+ */
+
+import type { Claim, ClaimStatusHistory } from '@shared/schema';
+import { storage } from '../storage';
+
+export type ClaimStatus = Claim['status'];
+export type ClaimStatusSource = ClaimStatusHistory['source'];
+
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, readonly ClaimStatus[]> = {
+  draft: ['submitted', 'pending'],
+  submitted: ['pending', 'infoRequested', 'paid', 'denied', 'reversed'],
+  pending: ['submitted', 'infoRequested', 'paid', 'denied', 'reversed'],
+  infoRequested: ['submitted', 'pending', 'paid', 'denied', 'reversed'],
+  // Denied claims can be appealed or resubmitted, and appeals can be overturned
+  denied: ['submitted', 'pending', 'paid'],
+  // Only a reversal transaction can undo a payment
+  paid: ['reversed'],
+  reversed: [],
+};
+
+// The moves a signed-in user may record by hand: an appeal or a reply to an
+// information request puts the claim back with the insurer. Submissions go
+// through the job queue, decisions come from connectors, webhooks and
+// remittances, and reversals through claimAmendments.ts.
+export const USER_STATUS_TRANSITIONS: Record<ClaimStatus, readonly ClaimStatus[]> = {
+  draft: [],
+  submitted: [],
+  pending: [],
+  infoRequested: ['pending'],
+  denied: ['pending'],
+  paid: [],
+  reversed: [],
+};
+
+export type ClaimTransitionErrorCode = 'ILLEGAL_TRANSITION' | 'CONCURRENT_UPDATE' | 'CLAIM_NOT_FOUND';
+
+export class ClaimTransitionError extends Error {
+  public code: ClaimTransitionErrorCode;
+  public claimId: string;
+  public from?: ClaimStatus;
+  public to: ClaimStatus;
+
+  constructor(code: ClaimTransitionErrorCode, claimId: string, to: ClaimStatus, from?: ClaimStatus) {
+    super(describeError(code, claimId, to, from));
+    this.name = 'ClaimTransitionError';
+    this.code = code;
+    this.claimId = claimId;
+    this.from = from;
+    this.to = to;
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      claimId: this.claimId,
+      from: this.from,
+      to: this.to,
+      allowed: this.from ? CLAIM_STATUS_TRANSITIONS[this.from] : [],
+    };
+  }
+}
+
+export function canTransition(from: ClaimStatus, to: ClaimStatus): boolean {
+  return from === to || CLAIM_STATUS_TRANSITIONS[from]?.includes(to) === true;
+}
+
+export function canUserTransition(from: ClaimStatus, to: ClaimStatus): boolean {
+  return from === to || USER_STATUS_TRANSITIONS[from]?.includes(to) === true;
+}
+
+/**
+ * Move a claim to a new status. Moving to the current status is a no-op for
+ * the status itself, but any accompanying field updates are still applied.
+ */
+export async function transitionClaimStatus(
+  claimId: string,
+  to: ClaimStatus,
+  options: {
+    source: ClaimStatusSource;
+    actorUserId?: string | null;
+    reason?: string | null;
+    updates?: Partial<Omit<Claim, 'status'>>;
+  }
+): Promise<Claim> {
+  const claim = await storage.getClaim(claimId);
+  if (!claim) {
+    throw new ClaimTransitionError('CLAIM_NOT_FOUND', claimId, to);
+  }
+
+  if (claim.status === to) {
+    if (!options.updates || Object.keys(options.updates).length === 0) {
+      return claim;
+    }
+    return (await storage.updateClaim(claimId, options.updates)) ?? claim;
+  }
+
+  if (!canTransition(claim.status, to)) {
+    throw new ClaimTransitionError('ILLEGAL_TRANSITION', claimId, to, claim.status);
+  }
+
+  const updated = await storage.updateClaimStatus(claimId, {
+    fromStatus: claim.status,
+    toStatus: to,
+    actorUserId: options.actorUserId,
+    source: options.source,
+    reason: options.reason,
+    updates: options.updates,
+  });
+  if (!updated) {
+    throw new ClaimTransitionError('CONCURRENT_UPDATE', claimId, to, claim.status);
+  }
+
+  return updated;
+}
+
+function describeError(code: ClaimTransitionErrorCode, claimId: string, to: ClaimStatus, from?: ClaimStatus): string {
+  switch (code) {
+    case 'CLAIM_NOT_FOUND':
+      return `Claim ${claimId} not found`;
+    case 'CONCURRENT_UPDATE':
+      return `Claim ${claimId} changed status while moving from ${from} to ${to}`;
+    default:
+      return `Claim ${claimId} cannot move from ${from} to ${to}`;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Minimal RFC 4180 CSV reader and writer (no external dependencies)
+ * Handles quoted fields, escaped quotes, embedded newlines and CRLF line endings.
+ */
+
+/**
+ * Split CSV text into rows of raw cell values
+ */
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Parse CSV text with a header row into one object per data row,
+ * keyed by the trimmed header names
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => name.trim());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column) {
+        record[column] = (cells[index] ?? '').trim();
+      }
+    });
+    return record;
+  });
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV text with CRLF line endings; objects are written as JSON cells
+ */
+export function formatCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(formatCsvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,60 @@
+/**
+ * Patient and provider records
+ * Duplicate detection matches on the email_hash/phone_hash search columns so
+ * records can be compared without decrypting anyone's contact details.
+ */
+
+import type { Patient, Provider, ProviderLicence } from '@shared/schema';
+import { contactSearchHashes } from '../security/encryption';
+import { storage, type ContactLookup } from '../storage';
+
+export interface DuplicateMatch {
+  id: string;
+  name: string;
+  matchedOn: Array<'email' | 'phone'>;
+  archived: boolean;
+}
+
+/**
+ * Patients in the org sharing an email or phone number with the given contact
+ * details. `excludeId` leaves out the record being edited.
+ */
+export async function findDuplicatePatients(orgId: string, contact: ContactLookup, excludeId?: string): Promise<DuplicateMatch[]> {
+  const matches = await storage.findPatientsByContact(orgId, contact);
+  return toDuplicateMatches(matches, contact, excludeId);
+}
+
+/**
+ * Providers in the org sharing an email or phone number with the given
+ * contact details
+ */
+export async function findDuplicateProviders(orgId: string, contact: ContactLookup, excludeId?: string): Promise<DuplicateMatch[]> {
+  const matches = await storage.findProvidersByContact(orgId, contact);
+  return toDuplicateMatches(matches, contact, excludeId);
+}
+
+/**
+ * The licence number sent on claims: the licence for the provider's
+ * discipline, else the first one on file
+ */
+export function primaryLicenceNumber(discipline: string | null | undefined, licences: ProviderLicence[] | null | undefined): string | null {
+  if (!licences || licences.length === 0) return null;
+  const match = discipline
+    ? licences.find(licence => licence.discipline.toLowerCase() === discipline.toLowerCase())
+    : undefined;
+  return (match ?? licences[0]).number;
+}
+
+function toDuplicateMatches(records: Array<Patient | Provider>, contact: ContactLookup, excludeId?: string): DuplicateMatch[] {
+  const emailHashes = contactSearchHashes('email', contact.email);
+  const phoneHashes = contactSearchHashes('phone', contact.phone);
+
+  return records
+    .filter(record => record.id !== excludeId)
+    .map(record => {
+      const matchedOn: DuplicateMatch['matchedOn'] = [];
+      if (record.email_hash && emailHashes.includes(record.email_hash)) matchedOn.push('email');
+      if (record.phone_hash && phoneHashes.includes(record.phone_hash)) matchedOn.push('phone');
+      return { id: record.id, name: record.name, matchedOn, archived: Boolean(record.archivedAt) };
+    });
+}
@@ -0,0 +1,114 @@
+/**
+ * Patient eligibility checks
+ * Asks the insurer's connector whether a patient is covered on a date of
+ * service and caches the answer per patient and insurer, so the claim wizard
+ * can show coverage without a network round trip on every visit.
+ */
+
+import type { EligibilityCheck, Insurer } from '@shared/schema';
+import { storage } from '../storage';
+import type { JobConnector } from './jobs';
+
+// How long a coverage answer is reused before the insurer is asked again
+export const ELIGIBILITY_CACHE_TTL_MS = parseInt(process.env.ELIGIBILITY_CACHE_TTL_MS || String(24 * 60 * 60 * 1000), 10);
+
+// Portal insurers have no eligibility transaction
+const RAIL_CONNECTORS: Partial<Record<Insurer['rail'], JobConnector>> = {
+  cdanet: 'cdanet',
+  telusEclaims: 'eclaims',
+};
+
+export type EligibilityErrorCode = 'NOT_FOUND' | 'NOT_SUPPORTED';
+
+export class EligibilityError extends Error {
+  public code: EligibilityErrorCode;
+
+  constructor(code: EligibilityErrorCode, message: string) {
+    super(message);
+    this.name = 'EligibilityError';
+    this.code = code;
+  }
+}
+
+export interface EligibilityRequest {
+  orgId: string;
+  patientId: string;
+  insurerId: string;
+  providerId: string;
+  serviceDate?: Date;
+  refresh?: boolean; // skip the cache and ask the insurer again
+  actorUserId: string;
+}
+
+/**
+ * Check a patient's coverage, reusing the cached answer when it is still
+ * fresh and was given for the same date of service
+ */
+export async function checkEligibility(request: EligibilityRequest): Promise<{ check: EligibilityCheck; cached: boolean }> {
+  const serviceDate = startOfDay(request.serviceDate ?? new Date());
+
+  const [patient, provider, insurer] = await Promise.all([
+    storage.getPatient(request.patientId),
+    storage.getProvider(request.providerId),
+    storage.getInsurer(request.insurerId),
+  ]);
+  if (!patient || patient.orgId !== request.orgId) {
+    throw new EligibilityError('NOT_FOUND', 'Patient not found');
+  }
+  if (!provider || provider.orgId !== request.orgId) {
+    throw new EligibilityError('NOT_FOUND', 'Provider not found');
+  }
+  if (!insurer) {
+    throw new EligibilityError('NOT_FOUND', 'Insurer not found');
+  }
+
+  const connectorName = RAIL_CONNECTORS[insurer.rail];
+  if (!connectorName) {
+    throw new EligibilityError('NOT_SUPPORTED', `Eligibility checks are not available for ${insurer.name}`);
+  }
+
+  if (!request.refresh) {
+    const cached = await getCachedEligibility(patient.id, insurer.id);
+    if (cached && startOfDay(cached.serviceDate).getTime() === serviceDate.getTime()) {
+      return { check: cached, cached: true };
+    }
+  }
+
+  const { getConnector } = await import('../connectors/base');
+  const connector = await getConnector(connectorName, request.orgId);
+  const result = await connector.checkEligibility(patient, provider, serviceDate);
+
+  const check = await storage.createEligibilityCheck({
+    orgId: request.orgId,
+    patientId: patient.id,
+    insurerId: insurer.id,
+    providerId: provider.id,
+    status: result.status,
+    serviceDate,
+    coverage: result.coverage ?? null,
+    message: result.message ?? null,
+    externalId: result.externalId ?? null,
+    raw: result.raw ?? null,
+    checkedBy: request.actorUserId,
+    expiresAt: new Date(Date.now() + ELIGIBILITY_CACHE_TTL_MS),
+  });
+
+  return { check, cached: false };
+}
+
+/**
+ * The latest coverage answer for a patient and insurer, if it has not expired
+ */
+export async function getCachedEligibility(patientId: string, insurerId: string): Promise<EligibilityCheck | undefined> {
+  const check = await storage.getLatestEligibilityCheck(patientId, insurerId);
+  if (!check || new Date(check.expiresAt).getTime() <= Date.now()) {
+    return undefined;
+  }
+  return check;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
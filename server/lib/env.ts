@@ -0,0 +1,10 @@
+/**
+ * Environment settings
+ * Numeric tunables read from process.env fall back to their defaults when
+ * unset, malformed or not positive.
+ */
+
+export function parsePositiveIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
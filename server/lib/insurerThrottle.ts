@@ -0,0 +1,36 @@
+/**
+ * Per-insurer submission caps
+ * Insurers throttle or reject bursts, so the job queue spaces submissions out
+ * to at most insurers.submissions_per_minute each (INSURER_SUBMISSIONS_PER_MINUTE
+ * when unset). The counters use the same shared store as the request rate
+ * limits, so the cap holds across every worker instance.
+ */
+
+import type { Options } from 'express-rate-limit';
+import { storage } from '../storage';
+import { createRateLimitStore } from '../security/rateLimitStore';
+import { parsePositiveIntEnv } from './env';
+
+const INSURER_SUBMISSIONS_PER_MINUTE = parsePositiveIntEnv(process.env.INSURER_SUBMISSIONS_PER_MINUTE, 60);
+const WINDOW_MS = 60 * 1000;
+
+const store = createRateLimitStore('insurer-submit');
+store.init?.({ windowMs: WINDOW_MS } as Options);
+
+export async function insurerSubmissionCap(insurerId: string): Promise<number> {
+  const insurer = await storage.getInsurer(insurerId);
+  return insurer?.submissionsPerMinute ?? INSURER_SUBMISSIONS_PER_MINUTE;
+}
+
+/**
+ * Take a submission slot for the insurer. Returns null when the submission
+ * may go ahead, else when the next window opens.
+ */
+export async function reserveInsurerSubmission(insurerId: string): Promise<Date | null> {
+  const cap = await insurerSubmissionCap(insurerId);
+  const { totalHits, resetTime } = await store.increment(insurerId);
+  if (totalHits <= cap) {
+    return null;
+  }
+  return resetTime ?? new Date(Date.now() + WINDOW_MS);
+}
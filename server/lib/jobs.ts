@@ -1,212 +1,485 @@
 /**
- * Simple in-memory job queue for EDI connector operations
- * In production, this would use Redis or a dedicated job queue system
+ * Durable job queue for EDI connector operations
+ * Jobs are persisted in the `jobs` table so submissions and status polls survive
+ * restarts and deploys. Workers lease rows with FOR UPDATE SKIP LOCKED, which
+ * lets several app instances share the same queue.
  */
 
+import os from 'os';
+import crypto from 'node:crypto';
+import type { Claim, Job } from '@shared/schema';
+import type { AttachmentDocument, Connector, SubmitResult } from '../connectors/base';
 import { storage } from '../storage';
+import { ConnectorError, calculateBackoffDelay } from './errors';
+import { parsePositiveIntEnv } from './env';
+import { reserveInsurerSubmission } from './insurerThrottle';
+import { AttachmentError, assertAttachmentsSubmittable } from './attachments';
+import { attachmentsForSubmission, recordSubmittedAttachments, scheduleAttachmentTransmission, transmitAttachments } from './attachmentTransmission';
+import { ClaimTransitionError, transitionClaimStatus, type ClaimStatus, type ClaimStatusSource } from './claimStatus';
 
-interface Job {
-  id: string;
-  type: 'submit' | 'poll-status';
-  claimId: string;
-  connector: 'cdanet' | 'eclaims';
-  data?: any;
-  status: 'queued' | 'running' | 'succeeded' | 'failed';
-  attempts: number;
-  maxAttempts: number;
-  createdAt: Date;
-  scheduledAt?: Date;
-  lastError?: string;
+export type JobType = 'submit' | 'poll-status' | 'send-attachments';
+export type JobConnector = 'cdanet' | 'eclaims' | 'portal';
+
+// What enqueue() keeps in jobs.payload
+export interface JobPayload {
+  reason?: string; // submit: recorded in the claim's status history
+  externalId?: string; // poll-status: the insurer's reference
+  pollCount?: number;
+}
+
+const JOB_MAX_ATTEMPTS = parsePositiveIntEnv(process.env.JOB_MAX_ATTEMPTS, 3);
+const JOB_BATCH_SIZE = parsePositiveIntEnv(process.env.JOB_BATCH_SIZE, 10);
+const JOB_LOCK_TIMEOUT_MS = parsePositiveIntEnv(process.env.JOB_LOCK_TIMEOUT_MS, 5 * 60 * 1000);
+const JOB_POLL_DELAY_MS = parsePositiveIntEnv(process.env.JOB_POLL_DELAY_MS, 5 * 60 * 1000);
+const JOB_MAX_POLLS = parsePositiveIntEnv(process.env.JOB_MAX_POLLS, 10);
+
+function jobPayload(job: Job): JobPayload {
+  return (job.payload ?? {}) as JobPayload;
+}
+
+// Postgres unique_violation: the claim already has a queued job of this type
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
 }
 
 class JobQueue {
-  private jobs: Map<string, Job> = new Map();
-  private running: Set<string> = new Set();
+  private readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  private draining = false;
 
   /**
-   * Enqueue a new job
+   * Enqueue a new job. A claim only ever has one queued job per type, so
+   * re-enqueueing returns the existing job instead of creating a duplicate.
    */
   async enqueue(jobData: {
-    type: 'submit' | 'poll-status';
+    type: JobType;
     claimId: string;
-    connector: 'cdanet' | 'eclaims';
-    data?: any;
+    connector: JobConnector;
+    data?: JobPayload;
     scheduledAt?: Date;
+    maxAttempts?: number;
   }): Promise<string> {
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const job: Job = {
-      id: jobId,
-      type: jobData.type,
+    if (jobData.type === 'submit') {
+      await assertAttachmentsSubmittable(jobData.claimId);
+    }
+
+    const existing = await storage.findQueuedJob(jobData.claimId, jobData.type);
+    if (existing) {
+      return existing.id;
+    }
+
+    const claim = await storage.getClaim(jobData.claimId);
+    if (!claim) {
+      throw new Error(`Claim ${jobData.claimId} not found`);
+    }
+
+    // IDX_jobs_claim_type_queued settles enqueues racing past the check above
+    const job = await storage.createJob({
+      orgId: claim.orgId,
       claimId: jobData.claimId,
+      type: jobData.type,
       connector: jobData.connector,
-      data: jobData.data,
+      payload: jobData.data ?? null,
       status: 'queued',
       attempts: 0,
-      maxAttempts: 3,
-      createdAt: new Date(),
-      scheduledAt: jobData.scheduledAt || new Date(),
-    };
-
-    this.jobs.set(jobId, job);
-    
-    console.log(`[JobQueue] Enqueued job ${jobId} for claim ${jobData.claimId}`);
-    
-    // Process immediately if scheduled for now
-    if (!jobData.scheduledAt || jobData.scheduledAt <= new Date()) {
-      setTimeout(() => this.processJob(jobId), 100);
+      maxAttempts: jobData.maxAttempts ?? JOB_MAX_ATTEMPTS,
+      runAt: jobData.scheduledAt || new Date(),
+    });
+    if (!job) {
+      const queued = await storage.findQueuedJob(jobData.claimId, jobData.type);
+      if (!queued) {
+        throw new Error(`Could not enqueue ${jobData.type} job for claim ${jobData.claimId}`);
+      }
+      return queued.id;
     }
-    
-    return jobId;
+
+    console.log(`[JobQueue] Enqueued ${job.type} job ${job.id} for claim ${jobData.claimId}`);
+
+    return job.id;
+  }
+
+  /**
+   * Schedule the next status poll for a claim the connector has accepted
+   */
+  async schedulePoll(claimId: string, connector: JobConnector, externalId: string, pollCount = 1): Promise<string> {
+    return await this.enqueue({
+      type: 'poll-status',
+      claimId,
+      connector,
+      data: { externalId, pollCount },
+      scheduledAt: new Date(Date.now() + JOB_POLL_DELAY_MS),
+    });
   }
 
   /**
    * Get job status
    */
   async getStatus(jobId: string): Promise<Job | null> {
-    return this.jobs.get(jobId) || null;
+    return (await storage.getJob(jobId)) || null;
   }
 
   /**
-   * Process a job
+   * Lease and process every job that is due. Returns the number of jobs processed.
    */
-  private async processJob(jobId: string): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job || this.running.has(jobId) || job.status !== 'queued') {
-      return;
+  async runDueJobs(): Promise<number> {
+    if (this.draining) {
+      return 0;
     }
 
-    if (job.scheduledAt && job.scheduledAt > new Date()) {
-      // Reschedule for later
-      setTimeout(() => this.processJob(jobId), job.scheduledAt.getTime() - Date.now());
-      return;
+    this.draining = true;
+    let processed = 0;
+    try {
+      while (true) {
+        const staleLockBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS);
+        const leased = await storage.claimDueJobs(this.workerId, JOB_BATCH_SIZE, staleLockBefore);
+        if (leased.length === 0) {
+          break;
+        }
+
+        for (const job of leased) {
+          await this.processJob(job);
+          processed++;
+        }
+      }
+    } finally {
+      this.draining = false;
     }
 
-    this.running.add(jobId);
-    job.status = 'running';
-    job.attempts++;
+    return processed;
+  }
 
-    console.log(`[JobQueue] Processing job ${jobId} (attempt ${job.attempts}/${job.maxAttempts})`);
+  /**
+   * Process a leased job
+   */
+  private async processJob(job: Job): Promise<void> {
+    console.log(`[JobQueue] Processing job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    if (job.attempts > job.maxAttempts) {
+      // Reclaimed from a crashed worker after the last attempt was already spent
+      await this.deadLetter(job, job.lastError || 'Worker lease expired after final attempt');
+      return;
+    }
 
     try {
       // Import connector dynamically to avoid circular dependencies
       const { getConnector } = await import('../connectors/base');
-      
-      // Get the claim
+
       const claim = await storage.getClaim(job.claimId);
       if (!claim) {
-        throw new Error(`Claim ${job.claimId} not found`);
+        throw new ConnectorError('VALIDATION_ERROR', `Claim ${job.claimId} not found`);
+      }
+
+      if (job.type === 'submit') {
+        // Attachments can be added, or fail a rescan, after the claim was queued
+        try {
+          await assertAttachmentsSubmittable(claim.id);
+        } catch (error) {
+          throw error instanceof AttachmentError ? new ConnectorError('VALIDATION_ERROR', error.message) : error;
+        }
+
+        // Over the insurer's per-minute cap: wait for the next window without spending an attempt
+        const nextWindow = await reserveInsurerSubmission(claim.insurerId);
+        if (nextWindow) {
+          await this.requeue(job, { attempts: job.attempts - 1, runAt: nextWindow });
+          console.log(`[JobQueue] Insurer ${claim.insurerId} is at its submission cap; job ${job.id} deferred to ${nextWindow.toISOString()}`);
+          return;
+        }
       }
 
-      // Get connector instance
       const connector = await getConnector(job.connector, claim.orgId);
-      
+
       if (job.type === 'submit') {
-        // Submit claim
-        const result = await connector.submitClaim(claim);
-        
-        // Update claim with external ID if successful
-        if (result.status === 'submitted' && result.externalId) {
-          await storage.updateClaim(job.claimId, { 
-            externalId: result.externalId,
-            status: 'submitted' 
-          });
+        // Resubmissions and adjustments go out as corrections of the claim they amend
+        const original = claim.parentClaimId && claim.relation !== 'reversal'
+          ? await storage.getClaim(claim.parentClaimId)
+          : undefined;
+        const documents = original ? [] : await attachmentsForSubmission(job.connector, connector, claim);
+        const result = original
+          ? await connector.resubmitClaim(original, claim)
+          : await connector.submitClaim(claim, documents);
+
+        if (result.status !== 'submitted') {
+          // The insurer turned the claim down; sending it again unchanged gets the same answer
+          throw new ConnectorError('PAYER_REJECT', result.message || `${job.connector} rejected claim ${job.claimId}`, result.raw);
         }
-        
-        job.status = 'succeeded';
-        console.log(`[JobQueue] Successfully submitted claim ${job.claimId} via ${job.connector}`);
-        
+
+        // The insurer has the claim now and a retry would send it again, so
+        // the job succeeds whatever happens to the bookkeeping that follows
+        await this.completeJob(job);
+        await this.followUpSubmission(job, claim, connector, documents, result);
+        return;
+
       } else if (job.type === 'poll-status') {
-        // Poll claim status
-        if (!claim.externalId) {
-          throw new Error('Claim has no external ID for status polling');
+        const payload = jobPayload(job);
+        const externalId = payload.externalId || claim.externalId;
+        if (!externalId) {
+          throw new ConnectorError('VALIDATION_ERROR', 'Claim has no external ID for status polling');
         }
-        
-        const result = await connector.pollStatus(claim.externalId);
-        
-        // Update claim status if changed
+
+        const result = await connector.pollStatus(externalId);
+
         if (result.status && result.status !== claim.status) {
-          await storage.updateClaim(job.claimId, { status: result.status });
+          await this.moveClaim(job, result.status, 'scheduler', {
+            reason: `Status reported by ${job.connector}`,
+          });
+        }
+
+        if (result.lines?.length) {
+          await storage.applyClaimLineAdjudication(job.claimId, result.lines);
+        }
+
+        const paidAmount = result.payload?.paidAmount ?? result.payload?.amountPaid;
+        if (result.status === 'paid' && paidAmount !== undefined) {
+          await storage.createRemittance({
+            insurerId: claim.insurerId,
+            claimId: claim.id,
+            status: result.status,
+            amountPaid: String(paidAmount),
+            raw: result.payload,
+          });
         }
-        
-        job.status = 'succeeded';
-        console.log(`[JobQueue] Successfully polled status for claim ${job.claimId}`);
+
+        // Picks up attachments the submit job failed to queue; already-sent ones are skipped
+        if (connector.attachmentCapabilities.delivery === 'afterClaim') {
+          try {
+            await scheduleAttachmentTransmission({ ...claim, externalId }, job.connector);
+          } catch (error) {
+            console.error(`[JobQueue] Failed to queue attachments for claim ${job.claimId}:`, error instanceof Error ? error.message : error);
+          }
+        }
+
+        // Keep polling while the insurer has not reached a final decision
+        const pollCount = Number(payload.pollCount) || 1;
+        if (result.status === 'pending' && pollCount < JOB_MAX_POLLS) {
+          await this.schedulePoll(job.claimId, job.connector, externalId, pollCount + 1);
+        }
+
+        console.log(`[JobQueue] Successfully polled status for claim ${job.claimId}: ${result.status}`);
+
+      } else if (job.type === 'send-attachments') {
+        const results = await transmitAttachments(job.connector, connector, claim);
+        const rejected = results.filter(result => result.status === 'rejected').length;
+
+        console.log(`[JobQueue] Sent ${results.length} attachment(s) for claim ${job.claimId} via ${job.connector} (${rejected} rejected)`);
       }
-      
+
+      await this.completeJob(job);
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      job.lastError = errorMessage;
-      
-      console.error(`[JobQueue] Job ${jobId} failed (attempt ${job.attempts}/${job.maxAttempts}):`, errorMessage);
-      
-      if (job.attempts >= job.maxAttempts) {
-        job.status = 'failed';
-        console.error(`[JobQueue] Job ${jobId} failed permanently after ${job.attempts} attempts`);
-      } else {
-        // Retry with exponential backoff
-        job.status = 'queued';
-        const delayMs = Math.pow(2, job.attempts) * 1000; // 2s, 4s, 8s...
-        setTimeout(() => this.processJob(jobId), delayMs);
-        console.log(`[JobQueue] Retrying job ${jobId} in ${delayMs}ms`);
+      const retriable = error instanceof ConnectorError ? error.retriable : true;
+
+      console.error(`[JobQueue] Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, errorMessage);
+
+      if (!retriable || job.attempts >= job.maxAttempts) {
+        await this.deadLetter(job, errorMessage);
+        return;
       }
-    } finally {
-      this.running.delete(jobId);
+
+      const delayMs = calculateBackoffDelay(job.attempts);
+      if (await this.requeue(job, { lastError: errorMessage, runAt: new Date(Date.now() + delayMs) })) {
+        console.log(`[JobQueue] Retrying job ${job.id} in ${delayMs}ms`);
+      }
+    }
+  }
+
+  private async completeJob(job: Job): Promise<void> {
+    await storage.updateJob(job.id, {
+      status: 'succeeded',
+      lastError: null,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Put a leased job back on the queue. When the claim has meanwhile gained
+   * another queued job of the same type, that one does the work and this one
+   * is cancelled. Returns false in that case.
+   */
+  private async requeue(job: Job, updates: Partial<Job>): Promise<boolean> {
+    try {
+      await storage.updateJob(job.id, { ...updates, status: 'queued', lockedBy: null, lockedAt: null });
+      return true;
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+      await storage.updateJob(job.id, { status: 'cancelled', lockedBy: null, lockedAt: null, completedAt: new Date() });
+      return false;
+    }
+  }
+
+  /**
+   * Record an accepted submission and schedule what comes after it. Every
+   * step is safe to repeat, and a failed step is logged rather than failing
+   * the job, since that would resubmit the claim; status polls queue any
+   * attachments still unsent.
+   */
+  private async followUpSubmission(
+    job: Job,
+    claim: Claim,
+    connector: Connector,
+    documents: AttachmentDocument[],
+    result: SubmitResult
+  ): Promise<void> {
+    const attempt = async (step: string, run: () => Promise<unknown>): Promise<boolean> => {
+      try {
+        await run();
+        return true;
+      } catch (error) {
+        console.error(`[JobQueue] Claim ${job.claimId} was accepted by ${job.connector} but failed to ${step}:`, error instanceof Error ? error.message : error);
+        return false;
+      }
+    };
+
+    const { externalId } = result;
+    const moved = await attempt('move to submitted', () => this.moveClaim(job, 'submitted', 'connector', {
+      reason: jobPayload(job).reason || `Submitted via ${job.connector}`,
+      updates: externalId ? { externalId } : undefined,
+    }));
+    if (!moved && externalId) {
+      // Keep the insurer's reference so status polls and attachments can find the claim
+      await attempt('save its external ID', () => storage.updateClaim(job.claimId, { externalId }));
+    }
+
+    if (documents.length > 0) {
+      await attempt('record the attachments sent with it', () => recordSubmittedAttachments(job.connector, claim, documents, result));
+    }
+
+    if (!externalId) {
+      // Nothing to poll or attach to; the decision arrives with the remittance
+      console.error(`[JobQueue] Claim ${job.claimId} was accepted by ${job.connector} without a reference; no status poll scheduled`);
+      return;
+    }
+
+    await attempt('schedule a status poll', () => this.schedulePoll(job.claimId, job.connector, externalId));
+
+    if (connector.attachmentCapabilities.delivery === 'afterClaim') {
+      // A claim left with unsent attachments has them queued again by the status poll
+      await attempt('schedule its attachments', () => scheduleAttachmentTransmission({ ...claim, externalId }, job.connector));
     }
   }
 
   /**
-   * Get all jobs (for debugging/monitoring)
+   * Apply a connector-reported status. An insurer result the state machine
+   * rejects will not change on retry, so it dead-letters the job.
    */
-  async getAllJobs(): Promise<Job[]> {
-    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  private async moveClaim(
+    job: Job,
+    status: ClaimStatus,
+    source: ClaimStatusSource,
+    options: { reason?: string; updates?: Parameters<typeof transitionClaimStatus>[2]['updates'] } = {}
+  ): Promise<void> {
+    try {
+      await transitionClaimStatus(job.claimId, status, { source, ...options });
+    } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        throw new ConnectorError('VALIDATION_ERROR', error.message, error.toJSON());
+      }
+      throw error;
+    }
+  }
+
+  private async deadLetter(job: Job, errorMessage: string): Promise<void> {
+    await storage.updateJob(job.id, {
+      status: 'dead',
+      lastError: errorMessage,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    });
+    console.error(`[JobQueue] Job ${job.id} moved to dead-letter after ${job.attempts} attempts`);
+  }
+
+  /**
+   * Put a dead, cancelled or waiting job back on the queue to run immediately
+   */
+  async retry(jobId: string): Promise<Job | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job || job.status === 'running' || job.status === 'succeeded') {
+      return undefined;
+    }
+
+    try {
+      return await storage.updateJob(jobId, {
+        status: 'queued',
+        attempts: 0,
+        runAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: null,
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+      // The claim already has this job queued again
+      return await storage.findQueuedJob(job.claimId, job.type);
+    }
+  }
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  async cancel(jobId: string): Promise<Job | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job || job.status !== 'queued') {
+      return undefined;
+    }
+
+    return await storage.updateJob(jobId, {
+      status: 'cancelled',
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Get jobs (most recent first) for monitoring and the admin queue view
+   */
+  async getAllJobs(filter?: { orgId?: string; status?: Job['status']; limit?: number }): Promise<Job[]> {
+    return await storage.getJobs(filter);
   }
 
   /**
    * Get job queue statistics
    */
-  async getStats(): Promise<{
+  async getStats(orgId?: string): Promise<{
     queued: number;
     running: number;
     failed: number;
+    cancelled: number;
     completed: number;
     total: number;
   }> {
-    const jobs = Array.from(this.jobs.values());
+    const counts = await storage.getJobStats(orgId);
+    const stats = {
+      queued: counts.queued || 0,
+      running: counts.running || 0,
+      failed: counts.dead || 0,
+      cancelled: counts.cancelled || 0,
+      completed: counts.succeeded || 0,
+    };
     return {
-      queued: jobs.filter(j => j.status === 'queued').length,
-      running: jobs.filter(j => j.status === 'running').length,
-      failed: jobs.filter(j => j.status === 'failed').length,
-      completed: jobs.filter(j => j.status === 'succeeded').length,
-      total: jobs.length
+      ...stats,
+      total: Object.values(stats).reduce((sum, value) => sum + value, 0),
     };
   }
 
   /**
-   * Clear completed jobs older than specified time
+   * Delete succeeded and cancelled jobs older than the given age.
+   * Dead-lettered jobs are kept until an admin retries or inspects them.
    */
   async cleanup(olderThanMs: number = 24 * 60 * 60 * 1000): Promise<number> {
-    const cutoff = new Date(Date.now() - olderThanMs);
-    let removed = 0;
-    
-    for (const [jobId, job] of this.jobs.entries()) {
-      if ((job.status === 'succeeded' || job.status === 'failed') && job.createdAt < cutoff) {
-        this.jobs.delete(jobId);
-        removed++;
-      }
-    }
-    
+    const removed = await storage.deleteFinishedJobsBefore(new Date(Date.now() - olderThanMs));
+
     if (removed > 0) {
       console.log(`[JobQueue] Cleaned up ${removed} old jobs`);
     }
-    
+
     return removed;
   }
 }
 
 // Export singleton instance
 export const jobQueue = new JobQueue();
-
-// Cleanup old jobs every hour
-setInterval(() => {
-  jobQueue.cleanup().catch(console.error);
-}, 60 * 60 * 1000);
@@ -0,0 +1,298 @@
+/**
+ * PHI key rotation
+ * Re-encrypts every PHI_FIELDS column to one keyring version and re-keys the
+ * email_hash/phone_hash search columns, a batch at a time from the scheduler.
+ * Progress and a cursor are stored on the key_rotations row, so a rotation
+ * picks up where it left off after a restart, and several instances share
+ * it through a lease like the job queue's.
+ *
+ * The write version follows the latest rotation on every instance; rolling a
+ * rotation back starts a new one to the version it replaced. Both keys stay
+ * readable throughout, so nothing has to stop while data moves.
+ */
+
+import os from 'os';
+import crypto from 'node:crypto';
+import type { KeyRotation, KeyRotationTableProgress } from '@shared/schema';
+import { storage, type EncryptedTable } from '../storage';
+import { PHI_FIELDS, contactSearchHash, fieldEncryption } from '../security/encryption';
+import { encryptPHI, hashForSearch, openPHI } from '../security/field-encryption';
+import { getKeyring } from '../security/keyring';
+import { parsePositiveIntEnv } from './env';
+
+const KEY_ROTATION_BATCH_SIZE = parsePositiveIntEnv(process.env.KEY_ROTATION_BATCH_SIZE, 200);
+const KEY_ROTATION_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+
+export const KEY_ROTATION_TABLES = Object.keys(PHI_FIELDS) as EncryptedTable[];
+
+export type KeyRotationErrorCode = 'NOT_FOUND' | 'INVALID_STATE' | 'UNKNOWN_KEY';
+
+export class KeyRotationError extends Error {
+  public code: KeyRotationErrorCode;
+
+  constructor(code: KeyRotationErrorCode, message: string) {
+    super(message);
+    this.name = 'KeyRotationError';
+    this.code = code;
+  }
+}
+
+/**
+ * A stored value re-encrypted to the target version, in whichever of the two
+ * ciphertext formats it was in; undefined when it is already there, or is not
+ * a ciphertext we can open (plaintext, or a key no longer in the keyring).
+ */
+export function reencryptValue(value: unknown, targetVersion: number): string | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+
+  // The storage layer's format; its auth tag rules out the other one
+  const sealed = fieldEncryption.open(value);
+  if (sealed) {
+    return sealed.version === targetVersion ? undefined : fieldEncryption.encrypt(sealed.plaintext, targetVersion) ?? undefined;
+  }
+
+  // server/db/repo.ts writes field-encryption's format
+  const opened = openPHI(value);
+  if (opened && opened.version !== targetVersion) {
+    return encryptPHI(opened.plaintext, targetVersion);
+  }
+  return undefined;
+}
+
+function plaintextOf(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return fieldEncryption.open(value)?.plaintext ?? openPHI(value)?.plaintext ?? value;
+}
+
+/**
+ * A search hash recomputed under the target version by whichever scheme
+ * produced it; undefined when it is current or matches no key.
+ */
+function rekeySearchHash(kind: 'email' | 'phone', stored: unknown, plaintext: unknown, targetVersion: number): string | undefined {
+  if (typeof stored !== 'string' || !stored || typeof plaintext !== 'string' || !plaintext) return undefined;
+
+  // The storage layer normalises first; the repository hashes the raw value
+  const schemes = [
+    (version: number) => contactSearchHash(kind, plaintext, version),
+    (version: number) => hashForSearch(plaintext, version),
+  ];
+  for (const scheme of schemes) {
+    for (const version of getKeyring().versions()) {
+      if (scheme(version) === stored) {
+        return version === targetVersion ? undefined : scheme(targetVersion) ?? undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The column values to write so a row is entirely on the target version;
+ * null when nothing has to change
+ */
+export function rekeyRow(table: EncryptedTable, row: Record<string, unknown>, targetVersion: number): Record<string, unknown> | null {
+  const updates: Record<string, unknown> = {};
+
+  for (const field of PHI_FIELDS[table]) {
+    const reencrypted = reencryptValue(row[field], targetVersion);
+    if (reencrypted !== undefined) {
+      updates[field] = reencrypted;
+    }
+  }
+
+  for (const kind of ['email', 'phone'] as const) {
+    const rehashed = rekeySearchHash(kind, row[`${kind}_hash`], plaintextOf(row[kind]), targetVersion);
+    if (rehashed !== undefined) {
+      updates[`${kind}_hash`] = rehashed;
+    }
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+function emptyProgress(): KeyRotationTableProgress {
+  return { total: 0, processed: 0, reencrypted: 0, failed: 0 };
+}
+
+async function getRotation(id: string): Promise<KeyRotation> {
+  const rotation = await storage.getKeyRotation(id);
+  if (!rotation) {
+    throw new KeyRotationError('NOT_FOUND', 'Key rotation not found');
+  }
+  return rotation;
+}
+
+async function assertNoneInFlight() {
+  const rotations = await storage.getKeyRotations(5);
+  const inFlight = rotations.find(rotation => rotation.status === 'running' || rotation.status === 'paused');
+  if (inFlight) {
+    throw new KeyRotationError('INVALID_STATE', 'Another key rotation is still in progress; finish or roll it back first');
+  }
+}
+
+async function beginRotation(targetVersion: number, startedBy: string, rollbackOf: string | null): Promise<KeyRotation> {
+  const keyring = getKeyring();
+  if (!keyring.has(targetVersion)) {
+    throw new KeyRotationError('UNKNOWN_KEY', `No encryption key configured for version ${targetVersion}`);
+  }
+
+  const rotation = await storage.createKeyRotation({
+    targetVersion,
+    previousVersion: keyring.activeVersion,
+    rollbackOf,
+    status: 'running',
+    cursor: { table: KEY_ROTATION_TABLES[0], lastId: null },
+    progress: {},
+    startedBy,
+  });
+  // New writes move over straight away; other instances follow on their next tick
+  keyring.useVersion(targetVersion);
+  return rotation;
+}
+
+/**
+ * Start re-encrypting everything to a key version (the configured active
+ * version by default)
+ */
+export async function startKeyRotation(startedBy: string, targetVersion = getKeyring().configuredActiveVersion): Promise<KeyRotation> {
+  await assertNoneInFlight();
+  return beginRotation(targetVersion, startedBy, null);
+}
+
+export async function pauseKeyRotation(id: string): Promise<KeyRotation> {
+  const rotation = await getRotation(id);
+  if (rotation.status !== 'running') {
+    throw new KeyRotationError('INVALID_STATE', `Rotation is ${rotation.status}`);
+  }
+  return (await storage.updateKeyRotation(id, { status: 'paused', lockedBy: null, lockedAt: null }))!;
+}
+
+export async function resumeKeyRotation(id: string): Promise<KeyRotation> {
+  const rotation = await getRotation(id);
+  if (rotation.status !== 'paused' && rotation.status !== 'failed') {
+    throw new KeyRotationError('INVALID_STATE', `Rotation is ${rotation.status}`);
+  }
+  return (await storage.updateKeyRotation(id, { status: 'running', lastError: null }))!;
+}
+
+/**
+ * Undo a rotation by re-encrypting back to the version it replaced. The
+ * original is marked rolled back; the rollback is a rotation of its own.
+ */
+export async function rollbackKeyRotation(id: string, startedBy: string): Promise<KeyRotation> {
+  const rotation = await getRotation(id);
+  if (rotation.status === 'rolledBack') {
+    throw new KeyRotationError('INVALID_STATE', 'Rotation has already been rolled back');
+  }
+  const [latest] = await storage.getKeyRotations(1);
+  if (latest?.id !== rotation.id) {
+    throw new KeyRotationError('INVALID_STATE', 'Only the latest rotation can be rolled back');
+  }
+  if (!getKeyring().has(rotation.previousVersion)) {
+    throw new KeyRotationError('UNKNOWN_KEY', `Key version ${rotation.previousVersion} is no longer configured`);
+  }
+
+  await storage.updateKeyRotation(id, { status: 'rolledBack', lockedBy: null, lockedAt: null });
+  return beginRotation(rotation.previousVersion, startedBy, rotation.id);
+}
+
+/**
+ * Point this instance's writes at the latest rotation's version. Without a
+ * rotation, or if its key has been removed, the configured version applies.
+ */
+export async function syncActiveKeyVersion(): Promise<number> {
+  const keyring = getKeyring();
+  const [latest] = await storage.getKeyRotations(1);
+  let version: number | null = null;
+  if (latest && latest.status !== 'rolledBack') {
+    if (keyring.has(latest.targetVersion)) {
+      version = latest.targetVersion;
+    } else {
+      console.warn(`[KeyRotation] Key version ${latest.targetVersion} is not configured; writing with version ${keyring.configuredActiveVersion}`);
+    }
+  }
+  keyring.useVersion(version);
+  return keyring.activeVersion;
+}
+
+/**
+ * Re-encrypt the next batch of the rotation. Returns false once there is
+ * nothing left to do (finished, paused, or leased by another instance).
+ */
+export async function runKeyRotationBatch(id: string): Promise<boolean> {
+  const rotation = await storage.leaseKeyRotation(id, WORKER_ID, new Date(Date.now() - KEY_ROTATION_LOCK_TIMEOUT_MS));
+  if (!rotation || !rotation.cursor) return false;
+
+  const { table, lastId } = rotation.cursor as { table: EncryptedTable; lastId: string | null };
+  const progress = { ...rotation.progress };
+  const tableProgress = { ...(progress[table] ?? emptyProgress()) };
+  let lastError = rotation.lastError;
+
+  try {
+    if (lastId === null) {
+      tableProgress.total = await storage.countEncryptedRows(table);
+    }
+
+    const rows = await storage.getEncryptedRows(table, lastId, KEY_ROTATION_BATCH_SIZE);
+    for (const row of rows) {
+      try {
+        const updates = rekeyRow(table, row, rotation.targetVersion);
+        if (updates) {
+          await storage.updateEncryptedRow(table, row.id, updates);
+          tableProgress.reencrypted++;
+        }
+      } catch (error) {
+        tableProgress.failed++;
+        lastError = `${table} ${row.id}: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`[KeyRotation] Failed to re-encrypt ${table} ${row.id}:`, error);
+      }
+      tableProgress.processed++;
+    }
+    progress[table] = tableProgress;
+
+    const nextTable = KEY_ROTATION_TABLES[KEY_ROTATION_TABLES.indexOf(table) + 1];
+    const cursor = rows.length === KEY_ROTATION_BATCH_SIZE
+      ? { table, lastId: rows[rows.length - 1].id }
+      : nextTable ? { table: nextTable, lastId: null } : null;
+
+    // A pause or rollback while the batch ran wins over the lease
+    const current = await storage.getKeyRotation(id);
+    const status = current?.status === 'running' ? (cursor ? 'running' : 'completed') : current?.status;
+    await storage.updateKeyRotation(id, {
+      cursor,
+      progress,
+      lastError,
+      status,
+      completedAt: status === 'completed' ? new Date() : undefined,
+      lockedBy: null,
+      lockedAt: null,
+    });
+    return status === 'running';
+  } catch (error) {
+    // Left at the cursor; resuming retries the batch
+    await storage.updateKeyRotation(id, {
+      status: 'failed',
+      lastError: error instanceof Error ? error.message : String(error),
+      lockedBy: null,
+      lockedAt: null,
+    });
+    console.error(`[KeyRotation] Rotation ${id} failed on ${table}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Scheduler entry point: follow the latest rotation's write version and move
+ * a running rotation forward by up to maxBatches batches
+ */
+export async function runKeyRotationTick(maxBatches = 10): Promise<void> {
+  await syncActiveKeyVersion();
+  const [latest] = await storage.getKeyRotations(1);
+  if (latest?.status !== 'running') return;
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    if (!(await runKeyRotationBatch(latest.id))) break;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Organization memberships
+ * users.orgId and users.role are a user's home membership; org_memberships
+ * adds the other organizations they work for (billing agencies serving
+ * several clinics), each with its own role. The organization picked in the
+ * org switcher is kept on the session as activeOrgId, and org-scoped routes
+ * read the user through getRequestUser so orgId and role follow it.
+ */
+
+import type { Request } from 'express';
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
+
+export type MembershipErrorCode = 'NOT_FOUND' | 'CONFLICT';
+
+export class MembershipError extends Error {
+  public code: MembershipErrorCode;
+
+  constructor(code: MembershipErrorCode, message: string) {
+    super(message);
+    this.name = 'MembershipError';
+    this.code = code;
+  }
+}
+
+export interface Membership {
+  id: string | null; // null for the home organization
+  orgId: string;
+  orgName: string;
+  role: string;
+  home: boolean;
+}
+
+// A user as seen from one of their organizations, plus their membership id there
+export type OrgUser = User & { membershipId: string | null };
+
+declare module 'express-session' {
+  interface SessionData {
+    activeOrgId: string;
+  }
+}
+
+/**
+ * Every organization the user belongs to, home organization first
+ */
+export async function getMemberships(user: User): Promise<Membership[]> {
+  const extra = (await storage.getMemberships(user.id)).filter(membership => membership.orgId !== user.orgId);
+  const entries = [
+    ...(user.orgId ? [{ id: null, orgId: user.orgId, role: user.role, home: true }] : []),
+    ...extra.map(membership => ({ id: membership.id, orgId: membership.orgId, role: membership.role, home: false })),
+  ];
+
+  return Promise.all(entries.map(async entry => {
+    const org = await storage.getOrganization(entry.orgId);
+    return { ...entry, orgName: org?.name ?? 'Unknown organization' };
+  }));
+}
+
+/**
+ * The user with orgId and role taken from their membership in orgId. Falls
+ * back to the home organization, or the first membership for users without
+ * one, when orgId is not one of theirs (e.g. the membership was removed).
+ */
+export async function asMemberOf(user: User, orgId: string | null | undefined): Promise<User> {
+  if (orgId && orgId !== user.orgId) {
+    const membership = await storage.getMembership(user.id, orgId);
+    if (membership) {
+      return { ...user, orgId: membership.orgId, role: membership.role };
+    }
+  }
+  if (user.orgId) {
+    return user;
+  }
+  const [first] = await storage.getMemberships(user.id);
+  return first ? { ...user, orgId: first.orgId, role: first.role } : user;
+}
+
+// Resolved once per request; the permission middleware and the handler share it
+const requestUsers = new WeakMap<Request, Promise<User | undefined>>();
+
+/**
+ * The signed-in user in the organization active for this session;
+ * deactivated users count as signed out
+ */
+export function getRequestUser(req: Request): Promise<User | undefined> {
+  let resolved = requestUsers.get(req);
+  if (!resolved) {
+    const userId = (req as any).user?.claims?.sub;
+    const activeOrgId = req.session?.activeOrgId;
+    resolved = userId
+      ? storage.getUser(userId).then(user => (user && !user.deactivatedAt ? asMemberOf(user, activeOrgId) : undefined))
+      : Promise.resolve(undefined);
+    requestUsers.set(req, resolved);
+  }
+  return resolved;
+}
+
+/**
+ * Home users and members of an organization, each with the role they hold there
+ */
+export async function getOrgUsers(orgId: string): Promise<OrgUser[]> {
+  const homeUsers = await storage.getUsersByOrg(orgId);
+  const members = await storage.getOrgMembers(orgId);
+  return [
+    ...homeUsers.map(user => ({ ...user, membershipId: null })),
+    ...members.map(({ membership, user }) => ({ ...user, orgId, role: membership.role, membershipId: membership.id })),
+  ];
+}
+
+/**
+ * Give a user from another organization access to orgId
+ */
+export async function addMember(orgId: string, user: User, role: string) {
+  if (user.orgId === orgId || await storage.getMembership(user.id, orgId)) {
+    throw new MembershipError('CONFLICT', 'This user already belongs to the organization');
+  }
+  return storage.createMembership({ userId: user.id, orgId, role });
+}
@@ -0,0 +1,307 @@
+/**
+ * Minimal PDF/A-1b writer for scanned images (no external dependencies)
+ * Wraps one JPEG or PNG in a single Letter page with the XMP identification
+ * and sRGB output intent PDF/A requires, for insurers that only accept
+ * archival PDFs. JPEGs are embedded as-is; PNGs are decoded, any alpha is
+ * flattened onto white (PDF/A-1 has no transparency) and re-deflated.
+ * Interlaced PNGs and CMYK JPEGs are not supported.
+ */
+
+import crypto from 'node:crypto';
+import { deflateSync, inflateSync } from 'node:zlib';
+
+export class PdfConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfConversionError';
+  }
+}
+
+interface RasterImage {
+  width: number;
+  height: number;
+  colorSpace: 'DeviceRGB' | 'DeviceGray';
+  filter: 'DCTDecode' | 'FlateDecode';
+  data: Buffer;
+}
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const PAGE_MARGIN = 36;
+
+function readJpeg(data: Buffer): RasterImage {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      throw new PdfConversionError('Corrupt JPEG: expected a marker');
+    }
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    // Start of frame: SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = data[offset + 9];
+      if (components !== 1 && components !== 3) {
+        throw new PdfConversionError('CMYK JPEGs cannot be converted to PDF/A');
+      }
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        colorSpace: components === 1 ? 'DeviceGray' : 'DeviceRGB',
+        filter: 'DCTDecode',
+        data,
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new PdfConversionError('Corrupt JPEG: no frame header');
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function readPng(data: Buffer): RasterImage {
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new PdfConversionError('Interlaced PNGs cannot be converted to PDF/A');
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!width || !height || idat.length === 0) {
+    throw new PdfConversionError('Corrupt PNG');
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (!channels || (colorType === 3 && !palette)) {
+    throw new PdfConversionError(`Unsupported PNG colour type ${colorType}`);
+  }
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = inflateSync(Buffer.concat(idat));
+
+  // Undo the per-row filters
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = pixels.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? out[x - bytesPerPixel] : 0;
+      const up = prev ? prev[x] : 0;
+      const upLeft = prev && x >= bytesPerPixel ? prev[x - bytesPerPixel] : 0;
+      const predictor = filter === 1 ? left
+        : filter === 2 ? up
+        : filter === 3 ? (left + up) >> 1
+        : filter === 4 ? paeth(left, up, upLeft)
+        : 0;
+      out[x] = (row[x] + predictor) & 0xff;
+    }
+  }
+
+  // One sample of a pixel, scaled to 8 bits
+  const sample = (rowStart: number, x: number, channel: number): number => {
+    const index = x * channels + channel;
+    if (bitDepth === 16) return pixels[rowStart + index * 2];
+    if (bitDepth === 8) return pixels[rowStart + index];
+    const bit = index * bitDepth;
+    const value = (pixels[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+    return colorType === 3 ? value : Math.round((value * 255) / ((1 << bitDepth) - 1));
+  };
+
+  const gray = colorType === 0 || colorType === 4;
+  const outChannels = gray ? 1 : 3;
+  const out = Buffer.alloc(width * height * outChannels);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * stride;
+    for (let x = 0; x < width; x++) {
+      let color: number[];
+      let alpha = 255;
+      if (colorType === 3) {
+        const index = sample(rowStart, x, 0);
+        color = [palette![index * 3], palette![index * 3 + 1], palette![index * 3 + 2]];
+        if (transparency && index < transparency.length) alpha = transparency[index];
+      } else {
+        color = Array.from({ length: gray ? 1 : 3 }, (_, channel) => sample(rowStart, x, channel));
+        if (colorType === 4 || colorType === 6) alpha = sample(rowStart, x, channels - 1);
+      }
+      for (let channel = 0; channel < outChannels; channel++) {
+        // Flatten onto white
+        out[(y * width + x) * outChannels + channel] = Math.round((color[channel] * alpha + 255 * (255 - alpha)) / 255);
+      }
+    }
+  }
+
+  return { width, height, colorSpace: gray ? 'DeviceGray' : 'DeviceRGB', filter: 'FlateDecode', data: deflateSync(out) };
+}
+
+function s15Fixed16(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32BE(Math.round(value * 65536));
+  return buffer;
+}
+
+function xyzTag(x: number, y: number, z: number): Buffer {
+  return Buffer.concat([Buffer.from('XYZ \0\0\0\0', 'latin1'), s15Fixed16(x), s15Fixed16(y), s15Fixed16(z)]);
+}
+
+/**
+ * A small ICC v2 sRGB display profile (D50-adapted primaries, gamma 2.2) for
+ * the PDF/A output intent
+ */
+let srgbProfile: Buffer | null = null;
+export function srgbIccProfile(): Buffer {
+  if (srgbProfile) return srgbProfile;
+
+  const description = 'sRGB IEC61966-2.1';
+  const desc = Buffer.alloc(12 + description.length + 1 + 4 + 4 + 2 + 1 + 67);
+  desc.write('desc', 0, 'latin1');
+  desc.writeUInt32BE(description.length + 1, 8);
+  desc.write(description, 12, 'latin1');
+  const curve = Buffer.from([0x63, 0x75, 0x72, 0x76, 0, 0, 0, 0, 0, 0, 0, 1, 0x02, 0x33, 0, 0]); // 'curv', gamma 2.2 (u8Fixed8)
+
+  const tags: Array<[string, Buffer]> = [
+    ['desc', desc],
+    ['cprt', Buffer.from('text\0\0\0\0No copyright, use freely\0', 'latin1')],
+    ['wtpt', xyzTag(0.9642, 1, 0.8249)],
+    ['rXYZ', xyzTag(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyzTag(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyzTag(0.1431, 0.0606, 0.7141)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ];
+
+  const table = Buffer.alloc(4 + tags.length * 12);
+  table.writeUInt32BE(tags.length, 0);
+  const bodies: Buffer[] = [];
+  let offset = 128 + table.length;
+  tags.forEach(([signature, body], index) => {
+    table.write(signature, 4 + index * 12, 'latin1');
+    table.writeUInt32BE(offset, 8 + index * 12);
+    table.writeUInt32BE(body.length, 12 + index * 12);
+    const padded = Buffer.alloc(Math.ceil(body.length / 4) * 4);
+    body.copy(padded);
+    bodies.push(padded);
+    offset += padded.length;
+  });
+
+  const header = Buffer.alloc(128);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8);
+  header.write('mntrRGB XYZ ', 12, 'latin1');
+  [2024, 1, 1, 0, 0, 0].forEach((value, index) => header.writeUInt16BE(value, 24 + index * 2));
+  header.write('acsp', 36, 'latin1');
+  s15Fixed16(0.9642).copy(header, 68);
+  s15Fixed16(1).copy(header, 72);
+  s15Fixed16(0.8249).copy(header, 76);
+
+  srgbProfile = Buffer.concat([header, table, ...bodies]);
+  return srgbProfile;
+}
+
+function xmpMetadata(title: string, createdAt: Date): Buffer {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const date = createdAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return Buffer.from(
+    `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n` +
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/">\n` +
+    `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n` +
+    `<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"><pdfaid:part>1</pdfaid:part><pdfaid:conformance>B</pdfaid:conformance></rdf:Description>\n` +
+    `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escape(title)}</rdf:li></rdf:Alt></dc:title></rdf:Description>\n` +
+    `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/"><xmp:CreateDate>${date}</xmp:CreateDate><xmp:ModifyDate>${date}</xmp:ModifyDate></rdf:Description>\n` +
+    `<rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/"><pdf:Producer>MedLink Claims Hub</pdf:Producer></rdf:Description>\n` +
+    `</rdf:RDF>\n</x:xmpmeta>\n<?xpacket end="w"?>`,
+    'utf8',
+  );
+}
+
+/**
+ * A one-page PDF/A-1b document showing the image, scaled to fit the page
+ */
+export function imageToPdfA(image: Buffer, mime: string, options: { title?: string; createdAt?: Date } = {}): Buffer {
+  const raster = mime === 'image/jpeg' ? readJpeg(image)
+    : mime === 'image/png' ? readPng(image)
+    : null;
+  if (!raster) {
+    throw new PdfConversionError(`Cannot convert ${mime} to PDF/A`);
+  }
+
+  const scale = Math.min((PAGE_WIDTH - 2 * PAGE_MARGIN) / raster.width, (PAGE_HEIGHT - 2 * PAGE_MARGIN) / raster.height);
+  const drawWidth = raster.width * scale;
+  const drawHeight = raster.height * scale;
+  const x = (PAGE_WIDTH - drawWidth) / 2;
+  const y = (PAGE_HEIGHT - drawHeight) / 2;
+  const content = Buffer.from(`q ${drawWidth.toFixed(2)} 0 0 ${drawHeight.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`, 'latin1');
+  const icc = srgbIccProfile();
+  const metadata = xmpMetadata(options.title ?? 'Claim attachment', options.createdAt ?? new Date());
+
+  const stream = (dictionary: string, data: Buffer): Buffer[] =>
+    [Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')];
+
+  const objects: Buffer[][] = [
+    [Buffer.from('<< /Type /Catalog /Pages 2 0 R /Metadata 5 0 R /OutputIntents [<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (sRGB IEC61966-2.1) /Info (sRGB IEC61966-2.1) /DestOutputProfile 6 0 R >>] >>', 'latin1')],
+    [Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>', 'latin1')],
+    [Buffer.from(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 7 0 R >>`, 'latin1')],
+    stream(`/Type /XObject /Subtype /Image /Width ${raster.width} /Height ${raster.height} /ColorSpace /${raster.colorSpace} /BitsPerComponent 8 /Filter /${raster.filter}`, raster.data),
+    stream('/Type /Metadata /Subtype /XML', metadata),
+    stream('/N 3', icc),
+    stream('', content),
+  ];
+
+  // Header with a binary comment so transfers treat the file as binary
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), ...body, Buffer.from('\nendobj\n', 'latin1')]);
+    parts.push(chunk);
+    length += chunk.length;
+  });
+
+  const id = crypto.createHash('md5').update(image).digest('hex');
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /ID [<${id}> <${id}>] >>`,
+    'startxref',
+    String(length),
+    '%%EOF\n',
+  ].join('\n');
+  parts.push(Buffer.from(xref, 'latin1'));
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,324 @@
+/**
+ * Patient privacy requests (Quebec Law 25, PIPEDA)
+ * A patient can ask for a copy of what the organization holds about them,
+ * to have it corrected, or to have it erased. Each request is logged with
+ * the 30-day statutory deadline and worked from the Admin queue.
+ *
+ * Erasure goes only as far as the organization's retention rules allow:
+ * claims still inside the retention period or on legal hold are billing
+ * records the organization must keep, so they (and the patient record they
+ * point to) are retained and listed as such in the request's outcome.
+ */
+
+import crypto from 'node:crypto';
+import {
+  patientCorrectionSchema,
+  type Attachment,
+  type Claim,
+  type Organization,
+  type Patient,
+  type PrivacyRequest,
+  type PrivacyRequestInput,
+} from '@shared/schema';
+import { storage, type PatientRecords } from '../storage';
+import { ObjectStorageService } from '../objectStorage';
+import DataAnonymizer from '../security/anonymizer';
+import { anonymizeClaims, retentionCutoff, type RetentionAction } from './retention';
+import { createZip, type ZipEntry } from './zip';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Law 25 s. 32 and PIPEDA s. 8(3): respond within 30 days of receiving the request
+export const PRIVACY_RESPONSE_DAYS = 30;
+
+// PIPEDA s. 8(4) allows one extension of up to 30 days; Law 25 has none
+export const PRIVACY_EXTENSION_DAYS = 30;
+
+export type PrivacyRequestErrorCode = 'NOT_FOUND' | 'INVALID_STATE' | 'NOT_EXTENDABLE';
+
+export class PrivacyRequestError extends Error {
+  public code: PrivacyRequestErrorCode;
+
+  constructor(code: PrivacyRequestErrorCode, message: string) {
+    super(message);
+    this.name = 'PrivacyRequestError';
+    this.code = code;
+  }
+}
+
+export interface PrivacyRequestItem {
+  resourceType: string;
+  resourceId: string;
+  action: RetentionAction | 'retained' | 'corrected';
+  reason?: string;
+}
+
+export function privacyRequestDeadline(receivedAt: Date): Date {
+  return new Date(receivedAt.getTime() + PRIVACY_RESPONSE_DAYS * DAY_MS);
+}
+
+export function isPrivacyRequestOpen(request: Pick<PrivacyRequest, 'status'>): boolean {
+  return request.status === 'received' || request.status === 'inProgress';
+}
+
+function assertOpen(request: PrivacyRequest, type?: PrivacyRequest['type']) {
+  if (!isPrivacyRequestOpen(request)) {
+    throw new PrivacyRequestError('INVALID_STATE', `Request is already ${request.status}`);
+  }
+  if (type && request.type !== type) {
+    throw new PrivacyRequestError('INVALID_STATE', `Only ${type} requests can do this`);
+  }
+}
+
+/**
+ * Log a request received from or on behalf of a patient of the organization
+ */
+export async function createPrivacyRequest(orgId: string, input: PrivacyRequestInput, createdBy: string): Promise<PrivacyRequest> {
+  const patient = await storage.getPatient(input.patientId);
+  if (!patient || patient.orgId !== orgId) {
+    throw new PrivacyRequestError('NOT_FOUND', 'Patient not found');
+  }
+
+  const receivedAt = input.receivedAt ?? new Date();
+  return await storage.createPrivacyRequest({
+    orgId,
+    patientId: patient.id,
+    type: input.type,
+    requesterName: input.requesterName ?? null,
+    requesterEmail: input.requesterEmail ?? null,
+    description: input.description ?? null,
+    corrections: input.type === 'correction' ? input.corrections ?? null : null,
+    receivedAt,
+    dueAt: privacyRequestDeadline(receivedAt),
+    createdBy,
+  });
+}
+
+/**
+ * Push the deadline back once, where the organization's province allows it
+ */
+export async function extendPrivacyRequest(request: PrivacyRequest, org: Organization, reason: string): Promise<PrivacyRequest> {
+  assertOpen(request);
+  if (org.province === 'QC') {
+    throw new PrivacyRequestError('NOT_EXTENDABLE', 'Law 25 does not allow extending the response deadline');
+  }
+  if (request.extendedAt) {
+    throw new PrivacyRequestError('NOT_EXTENDABLE', 'The deadline has already been extended');
+  }
+
+  const updated = await storage.updatePrivacyRequest(request.id, {
+    dueAt: new Date(request.dueAt.getTime() + PRIVACY_EXTENSION_DAYS * DAY_MS),
+    extendedAt: new Date(),
+    extensionReason: reason,
+    status: 'inProgress',
+  });
+  return updated!;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/heic': 'heic',
+  'text/plain': 'txt',
+};
+
+// Search hashes are derived from the fields they index and mean nothing to the patient
+function withoutHashes<T extends { email_hash?: unknown; phone_hash?: unknown }>(record: T) {
+  const { email_hash, phone_hash, ...rest } = record;
+  return rest;
+}
+
+/**
+ * A ZIP with patient.json (everything held about the patient, decrypted) and
+ * the files attached to their claims under attachments/. Files that are gone
+ * from object storage are listed with file: null.
+ */
+export async function buildPatientExport(org: Organization, patient: Patient, generatedAt = new Date()): Promise<Buffer> {
+  const records = await storage.getPatientRecords(patient.id);
+  const objectStorage = new ObjectStorageService();
+
+  const files: ZipEntry[] = [];
+  const attachments: Array<Omit<Attachment, 'url' | 'originalUrl'> & { file: string | null }> = [];
+  for (const attachment of records.attachments) {
+    const contents = await objectStorage.readObjectEntity(attachment.url);
+    const file = contents ? `attachments/${attachment.id}.${EXTENSIONS[attachment.mime] ?? 'bin'}` : null;
+    if (contents && file) {
+      files.push({ name: file, data: contents, modifiedAt: attachment.createdAt ?? generatedAt });
+    }
+    const { url, originalUrl, ...metadata } = attachment;
+    attachments.push({ ...metadata, file });
+  }
+
+  const document = {
+    generatedAt: generatedAt.toISOString(),
+    organization: {
+      name: org.name,
+      privacyOfficerName: org.privacyOfficerName,
+      privacyOfficerEmail: org.privacyOfficerEmail,
+      privacyContactUrl: org.privacyContactUrl,
+    },
+    patient: withoutHashes(patient),
+    appointments: records.appointments,
+    claims: records.claims.map(claim => ({
+      ...claim,
+      lines: records.claimLines.filter(line => line.claimId === claim.id),
+      statusHistory: records.claimStatusHistory.filter(entry => entry.claimId === claim.id),
+      attachments: attachments.filter(attachment => attachment.claimId === claim.id),
+    })),
+    preAuths: records.preAuths,
+    eligibilityChecks: records.eligibilityChecks,
+    remittanceLines: records.remittanceLines,
+  };
+
+  return createZip([
+    { name: 'patient.json', data: JSON.stringify(document, null, 2), modifiedAt: generatedAt },
+    ...files,
+  ]);
+}
+
+/**
+ * Apply the fields recorded on a correction request to the patient
+ */
+export async function applyPatientCorrection(request: PrivacyRequest): Promise<PrivacyRequestItem[]> {
+  assertOpen(request, 'correction');
+  // Stored through JSON, so dates come back as strings
+  const corrections = patientCorrectionSchema.parse(request.corrections ?? {});
+  const patient = await storage.getPatient(request.patientId);
+  if (!patient || patient.orgId !== request.orgId) {
+    throw new PrivacyRequestError('NOT_FOUND', 'Patient not found');
+  }
+  await storage.updatePatient(patient.id, corrections);
+  return [{ resourceType: 'patient', resourceId: request.patientId, action: 'corrected', reason: `Fields: ${Object.keys(corrections).join(', ')}` }];
+}
+
+/**
+ * Decide what erasing a patient can remove. A claim is kept while any claim
+ * in its amendment chain is on legal hold or, unless it is an unsent draft,
+ * until it passes the organization's retention period (kept indefinitely
+ * without one).
+ */
+export function planPatientErasure(org: Organization, patient: Patient, records: PatientRecords, now = new Date()): {
+  erasableClaims: Claim[];
+  items: PrivacyRequestItem[];
+} {
+  const cutoff = retentionCutoff(org, now);
+  const retainedReason = (record: { status: string; updatedAt: Date | null }) =>
+    record.status !== 'draft' && (!cutoff || !record.updatedAt || record.updatedAt >= cutoff) ? 'Within the retention period' : null;
+
+  // A chain shares its patient, so every claim in it is among the patient's claims
+  const byId = new Map(records.claims.map(claim => [claim.id, claim]));
+  const chainRoot = (claim: Claim) => {
+    const visited = new Set([claim.id]);
+    let root = claim;
+    while (root.parentClaimId && byId.has(root.parentClaimId) && !visited.has(root.parentClaimId)) {
+      root = byId.get(root.parentClaimId)!;
+      visited.add(root.id);
+    }
+    return root.id;
+  };
+  const heldChains = new Set(records.claims.filter(claim => claim.legalHold).map(chainRoot));
+
+  const items: PrivacyRequestItem[] = [];
+  const erasableClaims: Claim[] = [];
+  const retainedClaimIds = new Set<string>();
+  for (const claim of records.claims) {
+    if (claim.anonymizedAt) continue;
+    const reason = heldChains.has(chainRoot(claim)) ? 'Legal hold' : retainedReason(claim);
+    if (reason) {
+      retainedClaimIds.add(claim.id);
+      items.push({ resourceType: 'claim', resourceId: claim.id, action: 'retained', reason });
+    } else {
+      erasableClaims.push(claim);
+    }
+  }
+
+  for (const preAuth of records.preAuths) {
+    const reason = retainedReason(preAuth);
+    items.push(reason
+      ? { resourceType: 'preauth', resourceId: preAuth.id, action: 'retained', reason }
+      : { resourceType: 'preauth', resourceId: preAuth.id, action: 'anonymized' });
+  }
+
+  for (const line of records.remittanceLines) {
+    if (line.claimId && !retainedClaimIds.has(line.claimId)) {
+      items.push({ resourceType: 'remittance_line', resourceId: line.id, action: 'anonymized' });
+    }
+  }
+
+  // Appointments a kept claim was billed for stay; billed ones lose their visit reason
+  const billedBy = new Map(records.claims.filter(claim => claim.appointmentId).map(claim => [claim.appointmentId!, claim.id]));
+  for (const appointment of records.appointments) {
+    const claimId = billedBy.get(appointment.id);
+    if (claimId && retainedClaimIds.has(claimId)) {
+      items.push({ resourceType: 'appointment', resourceId: appointment.id, action: 'retained', reason: 'Billed on a retained claim' });
+    } else {
+      items.push({ resourceType: 'appointment', resourceId: appointment.id, action: claimId ? 'anonymized' : 'deleted' });
+    }
+  }
+
+  items.push(...records.eligibilityChecks.map(check => ({ resourceType: 'eligibility_check', resourceId: check.id, action: 'deleted' as const })));
+
+  const anyRetained = items.some(item => item.action === 'retained');
+  if (!patient.anonymizedAt) {
+    items.push(anyRetained
+      ? { resourceType: 'patient', resourceId: patient.id, action: 'retained', reason: 'Referenced by retained records' }
+      : { resourceType: 'patient', resourceId: patient.id, action: 'anonymized' });
+  }
+
+  return { erasableClaims, items };
+}
+
+/**
+ * Erase a patient as far as retention allows. A dry run returns the plan
+ * without changing anything.
+ */
+export async function erasePatient(request: PrivacyRequest, org: Organization, options: { dryRun?: boolean; now?: Date } = {}): Promise<PrivacyRequestItem[]> {
+  assertOpen(request, 'erasure');
+  const patient = await storage.getPatient(request.patientId);
+  if (!patient || patient.orgId !== request.orgId) {
+    throw new PrivacyRequestError('NOT_FOUND', 'Patient not found');
+  }
+
+  const records = await storage.getPatientRecords(patient.id);
+  const { erasableClaims, items } = planPatientErasure(org, patient, records, options.now);
+  const claimItems = await anonymizeClaims(erasableClaims, options.dryRun ?? false);
+  if (options.dryRun) {
+    return [...claimItems, ...items];
+  }
+
+  const anonymizer = new DataAnonymizer(crypto.randomUUID());
+  for (const item of items) {
+    if (item.action === 'retained') continue;
+    switch (item.resourceType) {
+      case 'preauth':
+        await storage.updatePreAuth(item.resourceId, { notes: null });
+        break;
+      case 'remittance_line':
+        await storage.updateRemittanceLine(item.resourceId, { patientName: anonymizer.anonymizeName(patient.name), raw: null });
+        break;
+      case 'appointment':
+        if (item.action === 'deleted') {
+          await storage.deleteAppointment(item.resourceId);
+        } else {
+          await storage.updateAppointment(item.resourceId, { reason: null });
+        }
+        break;
+      case 'patient':
+        await storage.updatePatient(patient.id, {
+          name: anonymizer.anonymizeName(patient.name) ?? 'Erased patient',
+          email: null,
+          phone: null,
+          address: null,
+          dob: null,
+          identifiers: null,
+          archivedAt: patient.archivedAt ?? new Date(),
+          anonymizedAt: new Date(),
+        });
+        break;
+    }
+  }
+  await storage.deleteEligibilityChecks(items.filter(item => item.resourceType === 'eligibility_check').map(item => item.resourceId));
+
+  return [...claimItems, ...items];
+}
@@ -0,0 +1,301 @@
+/**
+ * Remittance advice import and claim reconciliation
+ * Payment lines are matched to claims by reference number, then by the
+ * connector's externalId, then by patient + service date + billed amount.
+ * Matched claims move to paid/denied; everything else lands in the
+ * reconciliation queue for a biller to resolve by hand. A file is imported
+ * once per organization, and its lines are recorded and its claims settled
+ * in one transaction.
+ */
+
+import crypto from 'node:crypto';
+import type { Claim, RemittanceImport, RemittanceLine } from '@shared/schema';
+import { storage, type RemittanceSettlement } from '../storage';
+import { parseRemittanceFile, type RemittanceFormat, type RemittancePaymentLine } from '../mappers/remittance';
+import { cdanetTransactionReference } from '../mappers/cdanet';
+import { CLAIM_STATUS_TRANSITIONS, transitionClaimStatus } from './claimStatus';
+
+export type MatchMethod = 'referenceNumber' | 'externalId' | 'patientDateAmount';
+
+export interface ReconciliationCandidate {
+  claim: Claim;
+  patientName?: string;
+  serviceDates: string[]; // YYYY-MM-DD
+}
+
+export interface PaymentMatch {
+  claim: Claim;
+  method: MatchMethod;
+}
+
+// Claims that are still waiting on an insurer decision
+const OPEN_STATUSES = ['submitted', 'pending', 'infoRequested'];
+
+export type RemittanceImportErrorCode = 'DUPLICATE_FILE' | 'CONCURRENT_UPDATE';
+
+export class RemittanceImportError extends Error {
+  public code: RemittanceImportErrorCode;
+  public remittanceImportId?: string;
+
+  constructor(code: RemittanceImportErrorCode, message: string, remittanceImportId?: string) {
+    super(message);
+    this.name = 'RemittanceImportError';
+    this.code = code;
+    this.remittanceImportId = remittanceImportId;
+  }
+}
+
+/**
+ * Find the claim a payment line pays. Identifier matches are exact; the
+ * patient/date/amount fallback only considers open claims and must be unique.
+ */
+export function matchPaymentLine(
+  line: RemittancePaymentLine,
+  candidates: ReconciliationCandidate[]
+): PaymentMatch | null {
+  if (line.referenceNumber) {
+    const match = candidates.find(({ claim }) =>
+      claim.referenceNumber === line.referenceNumber ||
+      claim.portalReferenceNumber === line.referenceNumber ||
+      claim.claimNumber === line.referenceNumber
+    );
+    if (match) return { claim: match.claim, method: 'referenceNumber' };
+  }
+
+  if (line.externalId) {
+    const match = candidates.find(({ claim }) =>
+      claim.externalId === line.externalId ||
+      (line.transactionReference !== undefined &&
+        cdanetTransactionReference(claim.externalId) === line.transactionReference)
+    );
+    if (match) return { claim: match.claim, method: 'externalId' };
+  }
+
+  if (line.patientName && line.serviceDate && line.amountBilled !== undefined) {
+    const name = normalizePatientName(line.patientName);
+    const serviceDate = toDateKey(line.serviceDate);
+    const matches = candidates.filter(({ claim, patientName, serviceDates }) =>
+      OPEN_STATUSES.includes(claim.status) &&
+      patientName !== undefined &&
+      normalizePatientName(patientName) === name &&
+      serviceDates.includes(serviceDate) &&
+      toCents(claim.amount) === toCents(line.amountBilled!)
+    );
+    if (matches.length === 1) return { claim: matches[0].claim, method: 'patientDateAmount' };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a remittance file, record every payment line and settle the claims
+ * that could be matched automatically
+ */
+export async function importRemittanceFile(params: {
+  orgId: string;
+  insurerId: string;
+  format: RemittanceFormat;
+  fileName?: string;
+  content: string;
+  userId: string;
+}): Promise<{ remittanceImport: RemittanceImport; lines: RemittanceLine[] }> {
+  const checksum = crypto.createHash('sha256').update(params.content).digest('hex');
+  const previous = await storage.getRemittanceImportByChecksum(params.orgId, checksum);
+  if (previous) {
+    throw new RemittanceImportError(
+      'DUPLICATE_FILE',
+      `This remittance file was already imported${previous.fileName ? ` as ${previous.fileName}` : ''}`,
+      previous.id
+    );
+  }
+
+  const paymentLines = parseRemittanceFile(params.format, params.content);
+  const candidates = await loadCandidates(params.orgId);
+
+  // Later lines for a claim see the status earlier lines settled it to. A
+  // line the claim cannot take (a second payment, or a denial after a
+  // payment) goes to the reconciliation queue instead.
+  const statuses = new Map<string, Claim['status']>();
+  const matches = paymentLines.map(line => {
+    const match = matchPaymentLine(line, candidates);
+    if (!match) return null;
+    const status = statuses.get(match.claim.id) ?? match.claim.status;
+    if (!CLAIM_STATUS_TRANSITIONS[status].includes(line.outcome)) return null;
+    statuses.set(match.claim.id, line.outcome);
+    return { ...match, fromStatus: status };
+  });
+  const matchedCount = matches.filter(Boolean).length;
+  const totalPaid = paymentLines.reduce((sum, line) => sum + line.amountPaid, 0);
+
+  const settlements: RemittanceSettlement[] = [];
+  matches.forEach((match, index) => {
+    if (!match) return;
+    const line = paymentLines[index];
+    settlements.push({
+      lineIndex: index,
+      claimId: match.claim.id,
+      change: {
+        fromStatus: match.fromStatus,
+        toStatus: line.outcome,
+        actorUserId: params.userId,
+        source: 'remittance',
+        reason: `Remittance line ${line.lineNumber} (${line.amountPaid.toFixed(2)} paid)`,
+      },
+      remittance: {
+        insurerId: params.insurerId,
+        status: line.outcome,
+        amountPaid: line.amountPaid.toFixed(2),
+        raw: {
+          lineNumber: line.lineNumber,
+          reasonCodes: line.reasonCodes,
+          source: line.raw,
+        },
+      },
+    });
+  });
+
+  const result = await storage.createRemittanceImport(
+    {
+      orgId: params.orgId,
+      insurerId: params.insurerId,
+      format: params.format,
+      fileName: params.fileName ?? null,
+      totalLines: paymentLines.length,
+      matchedLines: matchedCount,
+      unmatchedLines: paymentLines.length - matchedCount,
+      totalPaid: totalPaid.toFixed(2),
+      checksum,
+      importedBy: params.userId,
+    },
+    paymentLines.map((line, index) => ({
+      orgId: params.orgId,
+      lineNumber: line.lineNumber,
+      referenceNumber: line.referenceNumber ?? null,
+      externalId: line.externalId ?? null,
+      patientName: line.patientName ?? null,
+      serviceDate: line.serviceDate ?? null,
+      amountBilled: line.amountBilled !== undefined ? line.amountBilled.toFixed(2) : null,
+      amountPaid: line.amountPaid.toFixed(2),
+      outcome: line.outcome,
+      reasonCodes: line.reasonCodes,
+      matchStatus: matches[index] ? 'matched' as const : 'unmatched' as const,
+      matchMethod: matches[index]?.method ?? null,
+      claimId: matches[index]?.claim.id ?? null,
+      raw: line.raw,
+    })),
+    settlements
+  );
+  if (!result) {
+    throw new RemittanceImportError(
+      'CONCURRENT_UPDATE',
+      'A matched claim or the same file changed while this remittance file was imported; nothing was saved, try again'
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Match a queued payment line to a claim by hand
+ */
+export async function resolveRemittanceLine(
+  line: RemittanceLine,
+  claim: Claim,
+  userId: string
+): Promise<RemittanceLine> {
+  const remittanceImport = await storage.getRemittanceImport(line.importId);
+  if (!remittanceImport) {
+    throw new Error(`Remittance import ${line.importId} not found`);
+  }
+
+  const resolved = await settleRemittanceLine(line, claim, remittanceImport.insurerId, userId, {
+    matchStatus: 'resolved',
+    matchMethod: 'manual',
+    resolvedBy: userId,
+    resolvedAt: new Date(),
+  });
+
+  await storage.updateRemittanceImport(remittanceImport.id, {
+    matchedLines: remittanceImport.matchedLines + 1,
+    unmatchedLines: Math.max(remittanceImport.unmatchedLines - 1, 0),
+  });
+
+  return resolved;
+}
+
+/**
+ * Move the claim to paid/denied and record the payment against it
+ */
+async function settleRemittanceLine(
+  line: RemittanceLine,
+  claim: Claim,
+  insurerId: string,
+  userId: string,
+  updates: Partial<RemittanceLine>
+): Promise<RemittanceLine> {
+  await transitionClaimStatus(claim.id, line.outcome as Claim['status'], {
+    source: 'remittance',
+    actorUserId: userId,
+    reason: `Remittance line ${line.lineNumber} (${line.amountPaid} paid)`,
+  });
+
+  const remittance = await storage.createRemittance({
+    insurerId,
+    claimId: claim.id,
+    status: line.outcome,
+    amountPaid: line.amountPaid,
+    raw: {
+      remittanceImportId: line.importId,
+      lineNumber: line.lineNumber,
+      reasonCodes: line.reasonCodes ?? [],
+      source: line.raw,
+    },
+  });
+
+  const updated = await storage.updateRemittanceLine(line.id, {
+    ...updates,
+    claimId: claim.id,
+    remittanceId: remittance.id,
+  });
+  return updated ?? line;
+}
+
+async function loadCandidates(orgId: string): Promise<ReconciliationCandidate[]> {
+  const claims = (await storage.getClaims(orgId)).filter(claim => claim.status !== 'draft');
+  const patients = await storage.getPatients(orgId, { includeArchived: true });
+  const claimLines = await storage.getClaimLinesForClaims(claims.map(claim => claim.id));
+
+  const patientNames = new Map(patients.map(patient => [patient.id, patient.name]));
+  const serviceDates = new Map<string, string[]>();
+  for (const line of claimLines) {
+    if (!line.serviceDate) continue;
+    const dates = serviceDates.get(line.claimId) ?? [];
+    dates.push(toDateKey(line.serviceDate));
+    serviceDates.set(line.claimId, dates);
+  }
+
+  return claims.map(claim => ({
+    claim,
+    patientName: patientNames.get(claim.patientId),
+    serviceDates: serviceDates.get(claim.id)
+      ?? (claim.createdAt ? [toDateKey(claim.createdAt)] : []),
+  }));
+}
+
+// "Doe, Jane" and "JANE DOE" compare equal
+function normalizePatientName(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(parseFloat(amount.toString()) * 100);
+}
@@ -0,0 +1,276 @@
+/**
+ * Data retention
+ * Applies organizations.dataRetentionDays. Claims last changed before the
+ * cutoff are anonymized (the rows stay for the financial history) and their
+ * attachments deleted along with the stored files; connector transactions,
+ * remittances and audit events older than the cutoff are deleted. Claims on
+ * legal hold, the rest of their amendment chains, and everything that refers
+ * to them, are left alone. With minimizeLogging on, EDI request/response
+ * payloads are cleared much sooner.
+ *
+ * Each run is written to retention_runs with its counts, and to
+ * retention_run_items with one row per record touched, which is what the
+ * privacy officer downloads as the purge report.
+ */
+
+import crypto from 'node:crypto';
+import type { Claim, Organization, RetentionRun } from '@shared/schema';
+import { storage } from '../storage';
+import { ObjectStorageService } from '../objectStorage';
+import DataAnonymizer from '../security/anonymizer';
+import { formatCsv } from './csv';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// EDI payloads are cleared after this many days when minimizeLogging is on
+const MINIMIZED_PAYLOAD_DAYS = 90;
+
+// The scheduled sweep leaves an organization alone for this long after a run
+const SWEEP_INTERVAL_MS = 20 * 60 * 60 * 1000;
+
+// Purge report rows read from retention_run_items at a time
+const REPORT_PAGE_SIZE = 1000;
+
+export type RetentionAction = 'anonymized' | 'deleted' | 'payload_cleared' | 'held' | 'failed';
+
+export interface RetentionItem {
+  resourceType: string;
+  resourceId: string;
+  action: RetentionAction;
+}
+
+export interface RetentionOptions {
+  dryRun?: boolean;
+  triggeredBy?: string | null;
+  now?: Date;
+}
+
+/**
+ * Records last changed before this date are past retention; null when the
+ * organization has no retention period
+ */
+export function retentionCutoff(org: Pick<Organization, 'dataRetentionDays'>, now = new Date()): Date | null {
+  if (!org.dataRetentionDays || org.dataRetentionDays <= 0) {
+    return null;
+  }
+  return new Date(now.getTime() - org.dataRetentionDays * DAY_MS);
+}
+
+/**
+ * Identifying fields of a claim replaced with anonymized values. A fresh seed
+ * per run means the replacements cannot be matched back to the originals.
+ */
+export function anonymizeClaimFields(claim: Claim, anonymizer: DataAnonymizer): Partial<Claim> {
+  return {
+    notes: anonymizer.anonymizeNotes(claim.notes),
+    claimNumber: anonymizer.anonymizeClaimNumber(claim.claimNumber),
+    referenceNumber: anonymizer.anonymizeReferenceNumber(claim.referenceNumber),
+    portalReferenceNumber: anonymizer.anonymizeReferenceNumber(claim.portalReferenceNumber),
+    originalReferenceNumber: anonymizer.anonymizeReferenceNumber(claim.originalReferenceNumber),
+  };
+}
+
+/**
+ * Counts per resource and action, e.g. { "claim.anonymized": 12 }
+ */
+export function summarizeRetentionItems(items: RetentionItem[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const key = `${item.resourceType}.${item.action}`;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Apply the organization's retention period once. A dry run records what
+ * would be purged without changing anything.
+ */
+export async function runRetention(org: Organization, options: RetentionOptions = {}): Promise<RetentionRun> {
+  const startedAt = options.now ?? new Date();
+  const cutoff = retentionCutoff(org, startedAt);
+  if (!cutoff) {
+    throw new Error('Organization has no retention period');
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const items: RetentionItem[] = [];
+  let error: string | null = null;
+
+  try {
+    const held = new Set(await storage.getLegalHoldClaimIds(org.id));
+    await purgeClaims(org, cutoff, held, dryRun, items);
+    await purgeConnectorTransactions(org, cutoff, startedAt, held, dryRun, items);
+    await purgeRemittances(org, cutoff, held, dryRun, items);
+    await purgeAuditEvents(org, cutoff, held, dryRun, items);
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  const counts = summarizeRetentionItems(items);
+  const run = await storage.createRetentionRun({
+    orgId: org.id,
+    triggeredBy: options.triggeredBy ?? null,
+    dryRun,
+    cutoff,
+    status: error ? 'failed' : 'completed',
+    counts,
+    error,
+    startedAt,
+    completedAt: new Date(),
+  }, items);
+
+  await storage.createAuditEvent({
+    orgId: org.id,
+    actorUserId: options.triggeredBy ?? null,
+    type: dryRun ? 'retention_previewed' : 'retention_purged',
+    details: { runId: run.id, cutoff: cutoff.toISOString(), counts, error },
+  });
+
+  return run;
+}
+
+async function purgeClaims(org: Organization, cutoff: Date, held: Set<string>, dryRun: boolean, items: RetentionItem[]) {
+  const expired = (await storage.getClaimsPastRetention(org.id, cutoff)).filter(claim => {
+    if (held.has(claim.id)) {
+      items.push({ resourceType: 'claim', resourceId: claim.id, action: 'held' });
+      return false;
+    }
+    return true;
+  });
+  items.push(...await anonymizeClaims(expired, dryRun));
+}
+
+/**
+ * Delete the attachments of the given claims, with their stored files, and
+ * anonymize the claims. Also used to erase a patient on request.
+ */
+export async function anonymizeClaims(claims: Claim[], dryRun: boolean): Promise<RetentionItem[]> {
+  const items: RetentionItem[] = [];
+  if (claims.length === 0) return items;
+
+  const objectStorage = new ObjectStorageService();
+  for (const attachment of await storage.getAttachmentsByClaimIds(claims.map(claim => claim.id))) {
+    if (!dryRun) {
+      try {
+        await objectStorage.deleteObjectEntity(attachment.url);
+        if (attachment.originalUrl) {
+          await objectStorage.deleteObjectEntity(attachment.originalUrl);
+        }
+        await storage.deleteAttachment(attachment.id);
+      } catch (err) {
+        // The row stays so the file is retried on the next run
+        console.error(`[Retention] Failed to delete attachment ${attachment.id}:`, (err as Error).message);
+        items.push({ resourceType: 'attachment', resourceId: attachment.id, action: 'failed' });
+        continue;
+      }
+    }
+    items.push({ resourceType: 'attachment', resourceId: attachment.id, action: 'deleted' });
+  }
+
+  const anonymizer = new DataAnonymizer(crypto.randomUUID());
+  for (const claim of claims) {
+    if (!dryRun) {
+      await storage.updateClaim(claim.id, { ...anonymizeClaimFields(claim, anonymizer), anonymizedAt: new Date() });
+    }
+    items.push({ resourceType: 'claim', resourceId: claim.id, action: 'anonymized' });
+  }
+  return items;
+}
+
+async function purgeConnectorTransactions(org: Organization, cutoff: Date, now: Date, held: Set<string>, dryRun: boolean, items: RetentionItem[]) {
+  const expired = (await storage.getConnectorTransactionsBefore(org.id, cutoff)).filter(tx => !held.has(tx.claimId));
+  if (!dryRun) {
+    await storage.deleteConnectorTransactions(expired.map(tx => tx.id));
+  }
+  items.push(...expired.map(tx => ({ resourceType: 'connector_transaction', resourceId: tx.id, action: 'deleted' as const })));
+
+  if (!org.minimizeLogging) return;
+
+  const deleted = new Set(expired.map(tx => tx.id));
+  const payloadCutoff = new Date(now.getTime() - MINIMIZED_PAYLOAD_DAYS * DAY_MS);
+  const stale = (await storage.getConnectorTransactionsBefore(org.id, payloadCutoff))
+    .filter(tx => tx.hasPayload && !deleted.has(tx.id) && !held.has(tx.claimId));
+  if (!dryRun) {
+    await storage.clearConnectorTransactionPayloads(stale.map(tx => tx.id));
+  }
+  items.push(...stale.map(tx => ({ resourceType: 'connector_transaction', resourceId: tx.id, action: 'payload_cleared' as const })));
+}
+
+async function purgeRemittances(org: Organization, cutoff: Date, held: Set<string>, dryRun: boolean, items: RetentionItem[]) {
+  // An import stays whole while any of its lines pays a held claim
+  const imports = (await storage.getRemittanceImportsBefore(org.id, cutoff))
+    .filter(remittanceImport => !remittanceImport.claimIds.some(claimId => held.has(claimId)));
+  const remittances = (await storage.getRemittancesBefore(org.id, cutoff))
+    .filter(remittance => !remittance.claimId || !held.has(remittance.claimId));
+
+  if (!dryRun) {
+    await storage.deleteRemittanceImports(imports.map(remittanceImport => remittanceImport.id));
+    await storage.deleteRemittances(remittances.map(remittance => remittance.id));
+  }
+  items.push(...imports.map(remittanceImport => ({ resourceType: 'remittance_import', resourceId: remittanceImport.id, action: 'deleted' as const })));
+  items.push(...remittances.map(remittance => ({ resourceType: 'remittance', resourceId: remittance.id, action: 'deleted' as const })));
+}
+
+/**
+ * Chained events can only go from the start of the chain, so the purge stops
+ * at the first event about a held claim; the organization then records the
+ * last removed event as the base the remaining chain is verified from
+ */
+async function purgeAuditEvents(org: Organization, cutoff: Date, held: Set<string>, dryRun: boolean, items: RetentionItem[]) {
+  const events = await storage.getAuditEventsBefore(org.id, cutoff);
+  const isHeld = (event: (typeof events)[number]) => event.resourceType === 'claim' && !!event.resourceId && held.has(event.resourceId);
+
+  const expired = events.filter(event => event.seq === null && !isHeld(event));
+  let base: { seq: number; hash: string } | null = null;
+  for (const event of events.filter(event => event.seq !== null)) {
+    if (isHeld(event)) break;
+    expired.push(event);
+    base = { seq: event.seq!, hash: event.hash! };
+  }
+
+  if (!dryRun && expired.length > 0) {
+    await storage.deleteAuditEvents(expired.map(event => event.id));
+    if (base) {
+      await storage.updateOrganization(org.id, { auditChainBaseSeq: base.seq, auditChainBaseHash: base.hash });
+    }
+  }
+  items.push(...expired.map(event => ({ resourceType: 'audit_event', resourceId: event.id, action: 'deleted' as const })));
+}
+
+/**
+ * Run retention for every organization with a retention period that has not
+ * been purged in the last 20 hours; called hourly by the scheduler
+ */
+export async function runRetentionSweep(now = new Date()): Promise<number> {
+  let ran = 0;
+  for (const org of await storage.getOrganizations()) {
+    if (!retentionCutoff(org, now)) continue;
+
+    const [latest] = await storage.getRetentionRuns(org.id, 1);
+    if (latest && !latest.dryRun && now.getTime() - latest.startedAt.getTime() < SWEEP_INTERVAL_MS) continue;
+
+    const run = await runRetention(org, { now });
+    if (run.status === 'failed') {
+      console.error(`[Retention] Run for organization ${org.id} failed: ${run.error}`);
+    }
+    ran++;
+  }
+  return ran;
+}
+
+/**
+ * The purge report: one CSV row per record a run touched, handed to `write`
+ * a page at a time
+ */
+export async function writeRetentionReport(run: RetentionRun, write: (chunk: string) => void): Promise<void> {
+  write(formatCsv([['runId', 'dryRun', 'cutoff', 'completedAt', 'resourceType', 'resourceId', 'action']]));
+
+  let afterSeq: number | undefined;
+  for (;;) {
+    const items = await storage.getRetentionRunItems(run.id, { limit: REPORT_PAGE_SIZE, afterSeq });
+    if (items.length === 0) return;
+    write(formatCsv(items.map(item => [run.id, run.dryRun, run.cutoff, run.completedAt, item.resourceType, item.resourceId, item.action])));
+    afterSeq = items[items.length - 1].seq;
+  }
+}
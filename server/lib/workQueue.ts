@@ -0,0 +1,68 @@
+/**
+ * Cross-organization work queue
+ * Claims waiting on the user in every organization they belong to, checked
+ * against the permissions of each membership rather than the active org.
+ */
+
+import type { Claim, User } from '@shared/schema';
+import type { Permission } from '@shared/permissions';
+import { resolvePermissions } from '../security/permissions';
+import { storage } from '../storage';
+import { getMemberships } from './memberships';
+
+export type WorkQueueAction = 'complete' | 'resubmit' | 'respond';
+
+// The claim status that needs the action, and the permission needed to take it
+const QUEUE_RULES: Array<{ status: Claim['status']; action: WorkQueueAction; permission: Permission }> = [
+  { status: 'draft', action: 'complete', permission: 'claims:create' },
+  { status: 'infoRequested', action: 'respond', permission: 'claims:create' },
+  { status: 'denied', action: 'resubmit', permission: 'claims:submit' },
+];
+
+export interface WorkQueueItem {
+  claimId: string;
+  orgId: string;
+  orgName: string;
+  status: Claim['status'];
+  action: WorkQueueAction;
+  type: Claim['type'];
+  amount: string;
+  currency: string;
+  claimNumber: string | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Claims needing action across the user's organizations, oldest first
+ */
+export async function getWorkQueue(user: User): Promise<WorkQueueItem[]> {
+  const items: WorkQueueItem[] = [];
+
+  for (const membership of await getMemberships(user)) {
+    const permissions = await resolvePermissions({ orgId: membership.orgId, role: membership.role });
+    if (!permissions.has('claims:read:own')) continue;
+
+    const rules = QUEUE_RULES.filter(rule => permissions.has(rule.permission));
+    if (rules.length === 0) continue;
+
+    const claims = await storage.getClaims(membership.orgId, permissions.has('claims:read:all') ? undefined : user.id);
+    for (const claim of claims) {
+      const rule = rules.find(candidate => candidate.status === claim.status);
+      if (!rule) continue;
+      items.push({
+        claimId: claim.id,
+        orgId: membership.orgId,
+        orgName: membership.orgName,
+        status: claim.status,
+        action: rule.action,
+        type: claim.type,
+        amount: claim.amount,
+        currency: claim.currency,
+        claimNumber: claim.claimNumber,
+        updatedAt: claim.updatedAt,
+      });
+    }
+  }
+
+  return items.sort((a, b) => (a.updatedAt?.getTime() ?? 0) - (b.updatedAt?.getTime() ?? 0));
+}
@@ -0,0 +1,155 @@
+/**
+ * Minimal XLSX reader (no external dependencies)
+ * Reads the cell values of the first worksheet of an Office Open XML
+ * workbook. Formatting, formulas and extra sheets are ignored; dates come
+ * back as Excel serial numbers, as stored in the file.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxError';
+  }
+}
+
+/**
+ * Split the first worksheet into rows of raw cell values
+ */
+export function parseXlsxRows(data: Buffer): string[][] {
+  const files = readZipEntries(data);
+  const read = (path: string) => files.get(path)?.toString('utf8');
+
+  const sharedStrings = parseSharedStrings(read('xl/sharedStrings.xml'));
+  const sheetPath = firstSheetPath(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels'));
+  const sheet = read(sheetPath) ?? read('xl/worksheets/sheet1.xml');
+  if (!sheet) {
+    throw new XlsxError('Workbook has no worksheets');
+  }
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowIndex = Number(attribute(rowMatch[1], 'r') ?? rows.length + 1) - 1;
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cellMatch[1], 'r');
+      const column = ref ? columnIndex(ref) : row.length;
+      row[column] = cellValue(attribute(cellMatch[1], 't'), cellMatch[2] ?? '', sharedStrings);
+    }
+    rows[rowIndex] = Array.from(row, value => value ?? '');
+  }
+
+  return Array.from(rows, row => row ?? []);
+}
+
+function cellValue(type: string | undefined, body: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return textRuns(body);
+  }
+  const value = decodeXml(/<v>([\s\S]*?)<\/v>/.exec(body)?.[1] ?? '');
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return value;
+  }
+}
+
+function parseSharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => textRuns(match[1]));
+}
+
+// Rich text splits a string into several <t> runs; phonetic hints are not part of the value
+function textRuns(xml: string): string {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(text.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+function firstSheetPath(workbook: string | undefined, rels: string | undefined): string {
+  const sheet = workbook ? /<sheet\b([^>]*)\/?>/.exec(workbook) : null;
+  const relId = sheet ? attribute(sheet[1], 'r:id') : undefined;
+  if (!relId || !rels) return 'xl/worksheets/sheet1.xml';
+
+  for (const match of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (attribute(match[1], 'Id') === relId) {
+      const target = attribute(match[1], 'Target') ?? '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name.replace(':', '\\:')}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// "AB12" -> 27
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref.toUpperCase())?.[0] ?? 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+/**
+ * Read every file in a ZIP archive via its central directory
+ */
+function readZipEntries(data: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+
+  // The end-of-central-directory record sits in the last 64KB (it may be followed by a comment)
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new XlsxError('File is not an XLSX workbook');
+  }
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new XlsxError('Corrupt XLSX workbook');
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, raw);
+    } else if (method === 8) {
+      files.set(name, inflateRawSync(raw));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
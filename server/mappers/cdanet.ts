@@ -3,10 +3,38 @@
  * Maps MedLink claims to CDAnet format and parses responses
  */
 
-import type { Claim, Patient, Provider } from '../../shared/schema';
+import type { Claim, ClaimLine, Patient, Provider } from '../../shared/schema';
+import {
+  CDAnetCodecError,
+  decodeCDAnetMessage,
+  encodeCDAnetMessage,
+  type CDAnetGroupEntry,
+  type CDAnetMessage,
+  type CDAnetMessageValues,
+} from './cdanetCodec';
+import type { CDAnetTransactionType } from './cdanetSpec';
+import type { AttachmentDocument } from '../connectors/base';
 
 export interface CDAnetPayload {
-  segments: string[];
+  transaction: CDAnetTransactionType;
+  message: string; // fixed-width v4 message as sent on the network
+  values: CDAnetMessageValues;
+}
+
+/**
+ * CDAnet Attachments are not a v4 message: they go to the ITRANS attachment
+ * service after the claim, tied to it by the claim's transaction reference
+ */
+export interface CDAnetAttachmentPayload {
+  transactionReference: string; // G01 of the claim the document supports
+  carrierId?: string;
+  officeNumber?: string;
+  documentType: 'RADIOGRAPH' | 'NARRATIVE' | 'OTHER';
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  sha256: string;
+  content: string; // base64
 }
 
 export interface CDAnetResponse {
@@ -15,55 +43,157 @@ export interface CDAnetResponse {
   externalId?: string;
 }
 
+export interface CDAnetMessageOptions {
+  carrierId?: string; // A05, defaults to the patient's carrierId identifier
+  officeNumber?: string; // B02
+  officeSequence?: number; // A02
+  softwareId?: string; // A06
+  transactionPrefix?: string; // A01
+}
+
+// CDA-assigned identifiers for this software; overridable per network
+const SOFTWARE_SYSTEM_ID = 'ML1';
+const TRANSACTION_PREFIX = 'MEDLINK';
+
 /**
- * Map MedLink claim to CDAnet format
+ * Map MedLink claim to a CDAnet claim (or predetermination) message
+ * Service lines come from claim_lines; claims created before line items
+ * existed fall back to the legacy `codes` blob. Throws CDAnetCodecError
+ * with field-level errors when the claim cannot be encoded.
  */
 export function mapClaimToCDAnet(
   claim: Claim, 
   patient: Patient, 
-  provider: Provider
+  provider: Provider,
+  lines: ClaimLine[] = [],
+  options: CDAnetMessageOptions & { transaction?: 'claim' | 'predetermination' } = {}
 ): CDAnetPayload {
-  
-  const segments: string[] = [];
-  
-  // A01 - Transaction Header
-  segments.push(`A01${provider.licenceNumber || ''}${formatDate(new Date())}${claim.id}`);
-  
-  // A02 - Provider Information
-  segments.push(`A02${provider.name}${provider.licenceNumber || ''}`);
-  
-  // A03 - Software Information
-  segments.push(`A03MEDLINK001${getCurrentVersion()}`);
-  
-  // A04 - Patient Information
-  const patientName = patient.name.split(' ');
-  const firstName = patientName[0] || '';
-  const lastName = patientName.slice(1).join(' ') || '';
-  segments.push(`A04${firstName} ${lastName}${formatDate(patient.dob || new Date())}U`);
-  
-  // A05 - Patient Address (if available from identifiers)
+  const transaction = options.transaction ?? (claim.type === 'preauth' ? 'predetermination' : 'claim');
   const identifiers = patient.identifiers as any || {};
-  if (identifiers.address) {
-    segments.push(`A05${identifiers.address}${identifiers.city || ''}${identifiers.province || ''}${identifiers.postalCode || ''}`);
-  }
-  
-  // A06 - Insurance Information
-  segments.push(`A06${claim.insurerId}${identifiers.policyNumber || ''}${identifiers.certificateNumber || ''}`);
-  
-  // A07 - Claim Information
-  const totalAmount = parseFloat(claim.amount.toString());
-  const serviceCount = claim.codes ? (Array.isArray(claim.codes) ? claim.codes.length : 1) : 1;
-  segments.push(`A07${formatDate(claim.createdAt || new Date())}${totalAmount.toFixed(2)}${serviceCount}`);
-  
-  // A08-A15 - Service Lines (up to 8 services per claim)
-  if (claim.codes && Array.isArray(claim.codes)) {
-    (claim.codes as any[]).slice(0, 8).forEach((service: any, index: number) => {
-      const segmentCode = `A${(8 + index).toString().padStart(2, '0')}`;
-      segments.push(`${segmentCode}${service.code || ''}${service.description || ''}${(totalAmount / serviceCount).toFixed(2)}`);
-    });
+  const claimDate = claim.createdAt || new Date();
+
+  let procedures: CDAnetGroupEntry[];
+  if (lines.length > 0) {
+    procedures = lines.map((line, index) => ({
+      F07: index + 1,
+      F08: line.procedureCode,
+      F09: line.serviceDate || claimDate,
+      F10: toothNumber(line.tooth),
+      F11: line.surface,
+      F12: parseFloat(line.fee.toString()) * line.units,
+    }));
+  } else {
+    const totalAmount = parseFloat(claim.amount.toString());
+    const codes = claim.codes && Array.isArray(claim.codes) ? claim.codes as any[] : [{}];
+    procedures = codes.map((service: any, index: number) => ({
+      F07: index + 1,
+      F08: service.code,
+      F09: claimDate,
+      F12: totalAmount / codes.length,
+    }));
   }
-  
-  return { segments };
+
+  const values: CDAnetMessageValues = {
+    ...headerValues(patient, provider, options),
+    ...patientValues(patient),
+    ...subscriberValues(patient),
+    C09: identifiers.eligibilityExceptionCode,
+    C10: fit(identifiers.school, 25),
+    B05: fit(identifiers.referringProvider, 10),
+    B06: identifiers.referralReasonCode,
+    E20: 0,
+    F01: identifiers.payeeCode ?? 1, // 1 = pay the subscriber, 4 = pay the dentist
+    procedures,
+  };
+
+  return { transaction, message: encodeCDAnetMessage(transaction, values), values };
+}
+
+/**
+ * Map a claim reversal to CDAnet format
+ * A reversal identifies the original transaction by its carrier reference;
+ * no service lines are sent.
+ */
+export function mapReversalToCDAnet(
+  original: Claim,
+  patient: Patient,
+  provider: Provider,
+  options: CDAnetMessageOptions = {}
+): CDAnetPayload {
+  const values: CDAnetMessageValues = {
+    ...headerValues(patient, provider, options),
+    ...patientValues(patient),
+    G01: cdanetTransactionReference(original.externalId),
+  };
+
+  return { transaction: 'reversal', message: encodeCDAnetMessage('reversal', values), values };
+}
+
+/**
+ * Map a claim attachment for the ITRANS attachment service
+ */
+export function mapAttachmentToCDAnet(
+  externalId: string,
+  document: AttachmentDocument,
+  options: Pick<CDAnetMessageOptions, 'carrierId' | 'officeNumber'> = {}
+): CDAnetAttachmentPayload {
+  return {
+    transactionReference: cdanetTransactionReference(externalId)!,
+    carrierId: options.carrierId,
+    officeNumber: options.officeNumber,
+    // Dental images are almost always radiographs; PDFs are charts or reports
+    documentType: document.kind === 'photo' ? 'RADIOGRAPH' : document.kind === 'note' ? 'NARRATIVE' : 'OTHER',
+    fileName: document.fileName,
+    contentType: document.mime,
+    sizeBytes: document.size,
+    sha256: document.checksum,
+    content: document.content.toString('base64'),
+  };
+}
+
+/**
+ * Map an eligibility check for a patient on a given date of service
+ */
+export function mapEligibilityToCDAnet(
+  patient: Patient,
+  provider: Provider,
+  serviceDate: Date,
+  options: CDAnetMessageOptions = {}
+): CDAnetPayload {
+  const values: CDAnetMessageValues = {
+    ...headerValues(patient, provider, options),
+    ...patientValues(patient),
+    ...subscriberValues(patient),
+    F09: serviceDate,
+  };
+
+  return { transaction: 'eligibility', message: encodeCDAnetMessage('eligibility', values), values };
+}
+
+/**
+ * Map a request for responses the carrier is holding in the office mailbox
+ */
+export function mapOutstandingTransactionsToCDAnet(
+  provider: Provider,
+  options: CDAnetMessageOptions & { carrierId: string }
+): CDAnetPayload {
+  const values = headerValues(null, provider, options);
+
+  return {
+    transaction: 'outstandingTransactions',
+    message: encodeCDAnetMessage('outstandingTransactions', values),
+    values,
+  };
+}
+
+/**
+ * Reduce an external ID to the 14-character transaction reference CDAnet
+ * expects in G01. Carrier references already fit; longer sandbox IDs keep
+ * their trailing characters.
+ */
+export function cdanetTransactionReference(externalId: string | null | undefined): string | undefined {
+  if (!externalId) return undefined;
+  return externalId.replace(/[^A-Za-z0-9]/g, '').slice(-14);
 }
 
 /**
@@ -80,38 +210,19 @@ export function parseCDAnetResponse(rawResponse: any): CDAnetResponse {
     };
   }
   
-  // Handle actual CDAnet responses
+  // Handle actual CDAnet responses (fixed-width v4 messages)
   if (typeof rawResponse === 'string') {
-    // Parse response string format
-    const lines = rawResponse.split('\n');
-    const acknowledgment = lines.find(line => line.startsWith('ACK'));
-    
-    if (acknowledgment) {
-      const ackCode = acknowledgment.substring(3, 5);
-      switch (ackCode) {
-        case 'AA':
-          return {
-            status: 'submitted',
-            details: { acknowledgment: ackCode, message: 'Application Accept' },
-            externalId: extractExternalId(rawResponse),
-          };
-        case 'AE':
-          return {
-            status: 'error',
-            details: { acknowledgment: ackCode, message: 'Application Error', errors: extractErrors(rawResponse) },
-          };
-        case 'AR':
-          return {
-            status: 'error',
-            details: { acknowledgment: ackCode, message: 'Application Reject', errors: extractErrors(rawResponse) },
-          };
-        default:
-          return {
-            status: 'error',
-            details: { acknowledgment: ackCode, message: 'Unknown response code' },
-          };
-      }
+    let decoded: CDAnetMessage;
+    try {
+      decoded = decodeCDAnetMessage(rawResponse.replace(/[\r\n]+$/, ''));
+    } catch (error) {
+      if (!(error instanceof CDAnetCodecError)) throw error;
+      return {
+        status: 'error',
+        details: { message: error.message, errors: error.errors },
+      };
     }
+    return mapDecodedResponse(decoded);
   }
   
   // Handle JSON responses
@@ -134,29 +245,103 @@ export function parseCDAnetResponse(rawResponse: any): CDAnetResponse {
  * Helper functions
  */
 
-function formatDate(date: Date | string): string {
-  const d = typeof date === 'string' ? new Date(date) : date;
-  return d.toISOString().split('T')[0].replace(/-/g, '');
+function headerValues(
+  patient: Patient | null,
+  provider: Provider,
+  options: CDAnetMessageOptions
+): CDAnetMessageValues {
+  const identifiers = patient?.identifiers as any || {};
+  return {
+    A01: options.transactionPrefix ?? TRANSACTION_PREFIX,
+    // Offices number their own transactions; a time-based value is unique enough per office per day
+    A02: options.officeSequence ?? Math.floor(Date.now() / 1000) % 1000000,
+    A05: options.carrierId ?? identifiers.carrierId,
+    A06: options.softwareId ?? SOFTWARE_SYSTEM_ID,
+    A10: 0,
+    B01: provider.licenceNumber,
+    B02: options.officeNumber,
+    B03: provider.licenceNumber,
+    B04: options.officeNumber,
+  };
+}
+
+function patientValues(patient: Patient): CDAnetMessageValues {
+  const identifiers = patient.identifiers as any || {};
+  const name = splitName(patient.name);
+  return {
+    C01: fit(identifiers.policyNumber, 12),
+    C11: fit(identifiers.division, 10),
+    C02: fit(identifiers.certificateNumber || identifiers.subscriberId || identifiers.policyNumber, 12),
+    C17: identifiers.dependantCode ?? 0,
+    C03: identifiers.relationshipCode ?? 0, // 0 = the patient is the subscriber
+    C04: sexCode(identifiers.gender),
+    C05: patient.dob,
+    C06: fit(name.last, 25),
+    C07: fit(name.first, 15),
+    C08: name.middleInitial,
+  };
+}
+
+function subscriberValues(patient: Patient): CDAnetMessageValues {
+  const identifiers = patient.identifiers as any || {};
+  const subscriber = identifiers.subscriber || {};
+  const name = splitName(subscriber.name || patient.name);
+  return {
+    D01: subscriber.dob || patient.dob,
+    D02: fit(name.last, 25),
+    D03: fit(name.first, 15),
+    D04: name.middleInitial,
+    D10: identifiers.language === 'fr' ? 'F' : 'E',
+    D11: identifiers.cardSequence,
+  };
+}
+
+function mapDecodedResponse(decoded: CDAnetMessage): CDAnetResponse {
+  const { values } = decoded;
+  const errorCodes = ((values.errors || []) as CDAnetGroupEntry[]).map(entry => entry.G08);
+  const notes = ((values.notes || []) as CDAnetGroupEntry[]).map(entry => entry.G26);
+  const details = {
+    transaction: decoded.type,
+    message: decoded.name,
+    responseStatus: values.G05,
+    errors: errorCodes,
+    notes,
+    values,
+  };
+  const externalId = values.G01 as string | undefined;
+
+  if (values.G05 === 'R') {
+    return { status: 'error', details, externalId };
+  }
+  if (decoded.type === 'eob') {
+    const benefit = Number(values.G28 || 0);
+    return { status: benefit > 0 ? 'paid' : 'denied', details, externalId };
+  }
+  return { status: 'submitted', details, externalId };
 }
 
-function getCurrentVersion(): string {
-  return '1.0.0'; // MedLink Claims Hub version
+function splitName(name: string): { first: string; last: string; middleInitial?: string } {
+  const parts = name.trim().split(/\s+/);
+  const first = parts[0] || '';
+  const last = parts.length > 1 ? parts[parts.length - 1] : first;
+  const middle = parts.length > 2 ? parts[1] : '';
+  return { first, last, middleInitial: /^[A-Za-z]/.test(middle) ? middle[0].toUpperCase() : undefined };
 }
 
-function calculateTotalAmount(claim: Claim): number {
-  return parseFloat(claim.amount.toString() || '0');
+// CDAnet text fields are ASCII; accents are dropped and values cut to the field width
+function fit(value: string | null | undefined, length: number): string | undefined {
+  if (!value) return undefined;
+  return String(value).normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, '').slice(0, length);
 }
 
-function extractExternalId(response: string): string {
-  // Extract transaction ID from response
-  const idMatch = response.match(/TXN(\d+)/);
-  return idMatch ? idMatch[1] : '';
+function sexCode(gender: string | undefined): 'M' | 'F' | 'U' {
+  const code = gender?.trim().charAt(0).toUpperCase();
+  return code === 'M' || code === 'F' ? code : 'U';
 }
 
-function extractErrors(response: string): string[] {
-  // Extract error messages from response
-  const errorLines = response.split('\n').filter(line => line.startsWith('ERR'));
-  return errorLines.map(line => line.substring(3));
+// International (FDI) tooth numbers; anything else is left for the surface/remarks
+function toothNumber(tooth: string | null): number | undefined {
+  return tooth && /^\d{1,2}$/.test(tooth.trim()) ? Number(tooth.trim()) : undefined;
 }
 
 function mapCDAnetStatus(status: string): CDAnetResponse['status'] {
@@ -0,0 +1,346 @@
+/**
+ * CDAnet v4 Fixed-Width Codec
+ * Encodes and decodes CDAnet messages from the layouts in cdanetSpec.ts.
+ * Both directions validate every field and report all problems at once as
+ * field-level errors, so a message the network would reject never leaves.
+ */
+
+import {
+  CDANET_FIELDS,
+  CDANET_FORMAT_VERSION,
+  CDANET_MESSAGES,
+  getMessageSpecByCode,
+  type CDAnetFieldSpec,
+  type CDAnetGroupSpec,
+  type CDAnetMessageSpec,
+  type CDAnetTransactionType,
+} from './cdanetSpec';
+
+export type CDAnetFieldValue = string | number | Date | null | undefined;
+export type CDAnetGroupEntry = Record<string, CDAnetFieldValue>;
+export type CDAnetMessageValues = Record<string, CDAnetFieldValue | CDAnetGroupEntry[]>;
+
+export interface CDAnetFieldError {
+  field: string;
+  name: string;
+  message: string;
+  group?: string;
+  index?: number; // zero-based group entry
+  value?: string;
+}
+
+export interface CDAnetMessage {
+  type: CDAnetTransactionType;
+  code: number;
+  name: string;
+  values: CDAnetMessageValues;
+}
+
+export class CDAnetCodecError extends Error {
+  public errors: CDAnetFieldError[];
+
+  constructor(message: string, errors: CDAnetFieldError[]) {
+    super(message);
+    this.name = 'CDAnetCodecError';
+    this.errors = errors;
+  }
+}
+
+// Offsets shared by every v4 message: A01 (12) + A02 (6) + A03 (2) + A04 (2)
+const VERSION_OFFSET = 18;
+const CODE_OFFSET = 20;
+const HEADER_PREFIX_LENGTH = 22;
+
+interface FieldContext {
+  required: boolean;
+  group?: string;
+  index?: number;
+}
+
+/**
+ * Encode a message. A03 (version), A04 (transaction code), A07 (length) and
+ * group count fields are filled in from the layout and never taken from `values`.
+ */
+export function encodeCDAnetMessage(type: CDAnetTransactionType, values: CDAnetMessageValues): string {
+  const { message, errors } = encode(CDANET_MESSAGES[type], values);
+  if (errors.length > 0) {
+    throw new CDAnetCodecError(`CDAnet ${CDANET_MESSAGES[type].name} message is invalid`, errors);
+  }
+  return message;
+}
+
+/**
+ * Field-level errors for a message, without throwing
+ */
+export function validateCDAnetMessage(type: CDAnetTransactionType, values: CDAnetMessageValues): CDAnetFieldError[] {
+  return encode(CDANET_MESSAGES[type], values).errors;
+}
+
+/**
+ * Decode a message of any supported transaction type
+ */
+export function decodeCDAnetMessage(message: string): CDAnetMessage {
+  if (message.length < HEADER_PREFIX_LENGTH) {
+    throw new CDAnetCodecError('CDAnet message is too short to contain a header', [
+      fieldError(CDANET_FIELDS.A04, `message ends at ${message.length} characters`),
+    ]);
+  }
+
+  const version = message.slice(VERSION_OFFSET, CODE_OFFSET);
+  if (version !== String(CDANET_FORMAT_VERSION).padStart(2, '0')) {
+    throw new CDAnetCodecError(`Unsupported CDAnet format version "${version}"`, [
+      fieldError(CDANET_FIELDS.A03, `expected version 0${CDANET_FORMAT_VERSION}`, version),
+    ]);
+  }
+
+  const code = message.slice(CODE_OFFSET, HEADER_PREFIX_LENGTH);
+  const spec = /^\d{2}$/.test(code) ? getMessageSpecByCode(Number(code)) : undefined;
+  if (!spec) {
+    throw new CDAnetCodecError(`Unsupported CDAnet transaction code "${code}"`, [
+      fieldError(CDANET_FIELDS.A04, 'unsupported transaction code', code),
+    ]);
+  }
+
+  const errors: CDAnetFieldError[] = [];
+  const values: CDAnetMessageValues = {};
+  let cursor = 0;
+
+  const readField = (field: CDAnetFieldSpec, context: FieldContext): CDAnetFieldValue | null => {
+    const raw = message.slice(cursor, cursor + field.length);
+    if (raw.length < field.length) {
+      errors.push(fieldError(field, `message ends before this field (offset ${cursor})`, raw, context));
+      cursor = message.length;
+      return null;
+    }
+    cursor += field.length;
+    return decodeField(field, raw, context, errors);
+  };
+
+  for (const item of spec.layout) {
+    if (cursor >= message.length && errors.length > 0) break;
+
+    if (typeof item === 'string') {
+      const value = readField(CDANET_FIELDS[item], { required: spec.required.includes(item) });
+      if (value !== null) values[item] = value;
+      continue;
+    }
+
+    const countField = CDANET_FIELDS[item.count];
+    const count = readField(countField, { required: false });
+    if (count === null) break;
+    values[item.count] = count;
+
+    const entries: CDAnetGroupEntry[] = [];
+    const entryCount = typeof count === 'number' ? count : 0;
+    checkGroupSize(item, entryCount, errors);
+    for (let index = 0; index < Math.min(entryCount, item.max); index++) {
+      const entry: CDAnetGroupEntry = {};
+      for (const id of item.fields) {
+        const value = readField(CDANET_FIELDS[id], { required: spec.required.includes(id), group: item.group, index });
+        if (value !== null) entry[id] = value;
+      }
+      entries.push(entry);
+    }
+    values[item.group] = entries;
+  }
+
+  if (cursor < message.length) {
+    errors.push({
+      field: 'A07',
+      name: CDANET_FIELDS.A07.name,
+      message: `${message.length - cursor} unexpected characters after the last field`,
+    });
+  }
+  if (typeof values.A07 === 'number' && values.A07 !== message.length) {
+    errors.push(fieldError(CDANET_FIELDS.A07, `declares ${values.A07} characters but message has ${message.length}`, String(values.A07)));
+  }
+
+  if (errors.length > 0) {
+    throw new CDAnetCodecError(`CDAnet ${spec.name} message is invalid`, errors);
+  }
+
+  return { type: spec.type, code: spec.code, name: spec.name, values };
+}
+
+/**
+ * Encoding
+ */
+
+function encode(spec: CDAnetMessageSpec, values: CDAnetMessageValues): { message: string; errors: CDAnetFieldError[] } {
+  const errors: CDAnetFieldError[] = [];
+  const chunks: string[] = [];
+  let lengthChunk = -1;
+
+  const derived: CDAnetMessageValues = { ...values, A03: CDANET_FORMAT_VERSION, A04: spec.code };
+
+  for (const item of spec.layout) {
+    if (typeof item === 'string') {
+      if (item === 'A07') {
+        lengthChunk = chunks.push('') - 1;
+        continue;
+      }
+      chunks.push(encodeField(CDANET_FIELDS[item], scalar(derived[item]), { required: spec.required.includes(item) }, errors));
+      continue;
+    }
+
+    const entries = Array.isArray(derived[item.group]) ? derived[item.group] as CDAnetGroupEntry[] : [];
+    checkGroupSize(item, entries.length, errors);
+    chunks.push(encodeField(CDANET_FIELDS[item.count], Math.min(entries.length, item.max), { required: false }, errors));
+    entries.slice(0, item.max).forEach((entry, index) => {
+      for (const id of item.fields) {
+        chunks.push(encodeField(CDANET_FIELDS[id], entry[id], { required: spec.required.includes(id), group: item.group, index }, errors));
+      }
+    });
+  }
+
+  if (lengthChunk >= 0) {
+    const length = chunks.reduce((total, chunk) => total + chunk.length, 0) + CDANET_FIELDS.A07.length;
+    chunks[lengthChunk] = encodeField(CDANET_FIELDS.A07, length, { required: true }, errors);
+  }
+
+  return { message: chunks.join(''), errors };
+}
+
+function encodeField(field: CDAnetFieldSpec, value: CDAnetFieldValue, context: FieldContext, errors: CDAnetFieldError[]): string {
+  const blank = value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  const filler = field.type === 'A' || field.type === 'AN' ? ' ' : '0';
+
+  if (blank) {
+    if (context.required) {
+      errors.push(fieldError(field, 'is required', undefined, context));
+    }
+    return filler.repeat(field.length);
+  }
+
+  const fail = (message: string) => {
+    errors.push(fieldError(field, message, String(value instanceof Date ? value.toISOString() : value), context));
+    return filler.repeat(field.length);
+  };
+
+  switch (field.type) {
+    case 'N': {
+      const text = typeof value === 'number' ? String(value) : String(value).trim();
+      if (!/^\d+$/.test(text)) return fail('must be a non-negative whole number');
+      if (text.length > field.length) return fail(`must be at most ${field.length} digits`);
+      return text.padStart(field.length, '0');
+    }
+    case 'D': {
+      const amount = typeof value === 'number' ? value : Number(String(value).trim());
+      if (!Number.isFinite(amount) || amount < 0) return fail('must be a non-negative dollar amount');
+      const cents = String(Math.round(amount * 100));
+      if (cents.length > field.length) return fail(`exceeds the maximum of ${maxAmount(field)}`);
+      return cents.padStart(field.length, '0');
+    }
+    case 'DATE': {
+      const date = toDate(value);
+      if (!date) return fail('must be a valid date');
+      return date.toISOString().slice(0, 10).replace(/-/g, '');
+    }
+    default: {
+      const text = String(value);
+      if (text.length > field.length) return fail(`must be at most ${field.length} characters`);
+      const charsetError = checkText(field, text);
+      if (charsetError) return fail(charsetError);
+      return text.padEnd(field.length, ' ');
+    }
+  }
+}
+
+/**
+ * Decoding
+ */
+
+function decodeField(field: CDAnetFieldSpec, raw: string, context: FieldContext, errors: CDAnetFieldError[]): CDAnetFieldValue {
+  const fail = (message: string) => {
+    errors.push(fieldError(field, message, raw, context));
+    return undefined;
+  };
+
+  let value: CDAnetFieldValue;
+  switch (field.type) {
+    case 'N':
+      if (!/^\d+$/.test(raw)) return fail('must be numeric');
+      value = Number(raw);
+      break;
+    case 'D':
+      if (!/^\d+$/.test(raw)) return fail('must be a numeric dollar amount');
+      value = Number(raw) / 100;
+      break;
+    case 'DATE':
+      if (raw === '0'.repeat(field.length)) {
+        value = undefined;
+        break;
+      }
+      value = toDate(raw);
+      if (!value) return fail('must be a valid YYYYMMDD date');
+      break;
+    default: {
+      const charsetError = checkText(field, raw);
+      if (charsetError) return fail(charsetError);
+      value = raw.trimEnd() || undefined;
+    }
+  }
+
+  if (context.required && (value === undefined || value === '')) {
+    errors.push(fieldError(field, 'is required', raw, context));
+  }
+  return value;
+}
+
+/**
+ * Helper functions
+ */
+
+function checkText(field: CDAnetFieldSpec, text: string): string | undefined {
+  const pattern = field.type === 'A' ? /^[A-Za-z ]*$/ : /^[\x20-\x7E]*$/;
+  if (!pattern.test(text)) {
+    return field.type === 'A' ? 'must contain letters only' : 'contains characters outside printable ASCII';
+  }
+  const trimmed = text.trim();
+  if (field.values && trimmed && !field.values.includes(trimmed)) {
+    return `must be one of ${field.values.join(', ')}`;
+  }
+  return undefined;
+}
+
+function checkGroupSize(group: CDAnetGroupSpec, count: number, errors: CDAnetFieldError[]): void {
+  const countField = CDANET_FIELDS[group.count];
+  if (count > group.max) {
+    errors.push(fieldError(countField, `allows at most ${group.max} ${group.group}, got ${count}`, String(count)));
+  } else if (count < (group.min ?? 0)) {
+    errors.push(fieldError(countField, `requires at least ${group.min} ${group.group}`, String(count)));
+  }
+}
+
+function scalar(value: CDAnetFieldValue | CDAnetGroupEntry[]): CDAnetFieldValue {
+  return Array.isArray(value) ? undefined : value;
+}
+
+function toDate(value: CDAnetFieldValue): Date | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value;
+  }
+  const text = String(value).trim();
+  // ISO timestamps are read as their UTC calendar date
+  const match = text.match(/^(\d{4})-?(\d{2})-?(\d{2})(T[\d:.]+Z)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject rollovers such as 20250230
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+}
+
+function maxAmount(field: CDAnetFieldSpec): string {
+  return (Number('9'.repeat(field.length)) / 100).toFixed(2);
+}
+
+function fieldError(field: CDAnetFieldSpec, message: string, value?: string, context: Partial<FieldContext> = {}): CDAnetFieldError {
+  return {
+    field: field.id,
+    name: field.name,
+    message: `${field.name} ${message}`,
+    ...(context.group !== undefined && { group: context.group, index: context.index }),
+    ...(value !== undefined && { value }),
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * CDAnet v4 Message Specification
+ * Field dictionary and message layouts for the CDAnet version 04 transactions
+ * MedLink sends and receives. Every field is fixed width:
+ *   N    numeric, right-justified and zero-filled
+ *   A    alphabetic, left-justified and space-filled
+ *   AN   alphanumeric, left-justified and space-filled
+ *   D    dollar amount with two implied decimals, zero-filled
+ *   DATE YYYYMMDD, all zeros when not applicable
+ */
+
+export type CDAnetFieldType = 'N' | 'A' | 'AN' | 'D' | 'DATE';
+
+export interface CDAnetFieldSpec {
+  id: string;
+  name: string;
+  type: CDAnetFieldType;
+  length: number;
+  values?: readonly string[]; // allowed codes for A/AN fields
+}
+
+export const CDANET_FORMAT_VERSION = 4;
+
+export const CDANET_FIELDS: Record<string, CDAnetFieldSpec> = {
+  // A - Transaction header
+  A01: { id: 'A01', name: 'Transaction Prefix', type: 'AN', length: 12 },
+  A02: { id: 'A02', name: 'Office Sequence Number', type: 'N', length: 6 },
+  A03: { id: 'A03', name: 'Format Version Number', type: 'N', length: 2 },
+  A04: { id: 'A04', name: 'Transaction Code', type: 'N', length: 2 },
+  A05: { id: 'A05', name: 'Carrier Identification Number', type: 'N', length: 6 },
+  A06: { id: 'A06', name: 'Software System ID', type: 'AN', length: 3 },
+  A07: { id: 'A07', name: 'Message Length', type: 'N', length: 5 },
+  A09: { id: 'A09', name: 'Carrier Transaction Counter', type: 'N', length: 5 },
+  A10: { id: 'A10', name: 'Encryption Method', type: 'N', length: 1 },
+  A11: { id: 'A11', name: 'Mailbox Indicator', type: 'A', length: 1, values: ['Y', 'N'] },
+
+  // B - Provider
+  B01: { id: 'B01', name: 'CDA Provider Number', type: 'AN', length: 9 },
+  B02: { id: 'B02', name: 'Provider Office Number', type: 'AN', length: 4 },
+  B03: { id: 'B03', name: 'Billing Provider Number', type: 'AN', length: 9 },
+  B04: { id: 'B04', name: 'Billing Office Number', type: 'AN', length: 4 },
+  B05: { id: 'B05', name: 'Referring Provider', type: 'AN', length: 10 },
+  B06: { id: 'B06', name: 'Referral Reason Code', type: 'N', length: 2 },
+
+  // C - Patient and primary coverage
+  C01: { id: 'C01', name: 'Primary Policy/Plan Number', type: 'AN', length: 12 },
+  C02: { id: 'C02', name: 'Subscriber Identification Number', type: 'AN', length: 12 },
+  C03: { id: 'C03', name: 'Relationship Code', type: 'N', length: 1 },
+  C04: { id: 'C04', name: "Patient's Sex", type: 'A', length: 1, values: ['M', 'F', 'U'] },
+  C05: { id: 'C05', name: "Patient's Birthday", type: 'DATE', length: 8 },
+  C06: { id: 'C06', name: "Patient's Last Name", type: 'AN', length: 25 },
+  C07: { id: 'C07', name: "Patient's First Name", type: 'AN', length: 15 },
+  C08: { id: 'C08', name: "Patient's Middle Initial", type: 'A', length: 1 },
+  C09: { id: 'C09', name: 'Eligibility Exception Code', type: 'N', length: 1 },
+  C10: { id: 'C10', name: 'Name of School', type: 'AN', length: 25 },
+  C11: { id: 'C11', name: 'Division/Section Number', type: 'AN', length: 10 },
+  C17: { id: 'C17', name: 'Primary Dependant Code', type: 'N', length: 2 },
+
+  // D - Subscriber
+  D01: { id: 'D01', name: "Subscriber's Birthday", type: 'DATE', length: 8 },
+  D02: { id: 'D02', name: "Subscriber's Last Name", type: 'AN', length: 25 },
+  D03: { id: 'D03', name: "Subscriber's First Name", type: 'AN', length: 15 },
+  D04: { id: 'D04', name: "Subscriber's Middle Initial", type: 'A', length: 1 },
+  D10: { id: 'D10', name: 'Language of the Insured', type: 'A', length: 1, values: ['E', 'F'] },
+  D11: { id: 'D11', name: 'Card Sequence/Version Number', type: 'N', length: 2 },
+
+  // E - Secondary coverage
+  E20: { id: 'E20', name: 'Secondary Record Count', type: 'N', length: 1 },
+
+  // F - Claim and procedures
+  F01: { id: 'F01', name: 'Payee Code', type: 'N', length: 1 },
+  F02: { id: 'F02', name: 'Accident Date', type: 'DATE', length: 8 },
+  F06: { id: 'F06', name: 'Number of Procedures Performed', type: 'N', length: 1 },
+  F07: { id: 'F07', name: 'Procedure Line Number', type: 'N', length: 1 },
+  F08: { id: 'F08', name: 'Procedure Code', type: 'AN', length: 5 },
+  F09: { id: 'F09', name: 'Date of Service', type: 'DATE', length: 8 },
+  F10: { id: 'F10', name: 'International Tooth, Sextant, Quad or Arch', type: 'N', length: 2 },
+  F11: { id: 'F11', name: 'Tooth Surface', type: 'AN', length: 5 },
+  F12: { id: 'F12', name: "Dentist's Fee Claimed", type: 'D', length: 6 },
+  F13: { id: 'F13', name: 'Lab Procedure Fee', type: 'D', length: 6 },
+  F16: { id: 'F16', name: 'Procedure Type Codes', type: 'AN', length: 5 },
+  F17: { id: 'F17', name: 'Remarks Code', type: 'N', length: 2 },
+  F22: { id: 'F22', name: 'Number of Extracted Missing Teeth', type: 'N', length: 2 },
+  F34: { id: 'F34', name: 'Lab Procedure Code', type: 'AN', length: 5 },
+
+  // G - Responses
+  G01: { id: 'G01', name: 'Transaction Reference Number', type: 'AN', length: 14 },
+  G03: { id: 'G03', name: 'Expected Payment Date', type: 'DATE', length: 8 },
+  G04: { id: 'G04', name: 'Total Amount of Service', type: 'D', length: 7 },
+  G05: { id: 'G05', name: 'Response Status', type: 'A', length: 1, values: ['A', 'E', 'R', 'H', 'B', 'C', 'N', 'M', 'X'] },
+  G06: { id: 'G06', name: 'Number of Error Codes', type: 'N', length: 2 },
+  G08: { id: 'G08', name: 'Error Code', type: 'N', length: 3 },
+  G11: { id: 'G11', name: 'Number of Note Lines', type: 'N', length: 2 },
+  G12: { id: 'G12', name: 'Eligible Amount', type: 'D', length: 6 },
+  G13: { id: 'G13', name: 'Deductible Amount', type: 'D', length: 5 },
+  G14: { id: 'G14', name: 'Eligible Percentage', type: 'N', length: 3 },
+  G15: { id: 'G15', name: 'Benefit Amount for the Procedure', type: 'D', length: 6 },
+  G16: { id: 'G16', name: 'Explanation Note Number', type: 'N', length: 2 },
+  G26: { id: 'G26', name: 'Note Text', type: 'AN', length: 75 },
+  G28: { id: 'G28', name: 'Total Benefit Amount', type: 'D', length: 7 },
+  G29: { id: 'G29', name: 'Deductible Amount Unallocated', type: 'D', length: 6 },
+};
+
+/**
+ * A message is a sequence of fields and repeating groups. Each group is
+ * preceded by its count field, then repeats its fields once per entry.
+ */
+export type CDAnetLayoutItem = string | CDAnetGroupSpec;
+
+export interface CDAnetGroupSpec {
+  group: string;
+  count: string; // field id holding the number of entries
+  min?: number;
+  max: number;
+  fields: string[];
+}
+
+export type CDAnetTransactionType =
+  | 'claim'
+  | 'reversal'
+  | 'predetermination'
+  | 'outstandingTransactions'
+  | 'eligibility'
+  | 'claimAcknowledgement'
+  | 'reversalResponse'
+  | 'outstandingTransactionsAcknowledgement'
+  | 'eligibilityResponse'
+  | 'eob';
+
+export interface CDAnetMessageSpec {
+  type: CDAnetTransactionType;
+  code: number; // A04
+  name: string;
+  direction: 'request' | 'response';
+  layout: CDAnetLayoutItem[];
+  required: string[]; // fields that may not be blank, including group fields
+}
+
+const REQUEST_HEADER = ['A01', 'A02', 'A03', 'A04', 'A05', 'A06', 'A10', 'A07', 'A09', 'B01', 'B02', 'B03', 'B04'];
+const RESPONSE_HEADER = ['A01', 'A02', 'A03', 'A04', 'A05', 'A07', 'A11', 'B01', 'B02', 'G01'];
+
+const PATIENT = ['C01', 'C11', 'C02', 'C17', 'C03', 'C04', 'C05', 'C06', 'C07', 'C08', 'C09', 'C10'];
+const SUBSCRIBER = ['D01', 'D02', 'D03', 'D04', 'D10', 'D11'];
+const CLAIM_INFO = ['B05', 'B06', ...PATIENT, ...SUBSCRIBER, 'E20', 'F01', 'F02', 'F22'];
+
+const REQUEST_REQUIRED = ['A02', 'A03', 'A04', 'A05', 'A06', 'B01', 'B02'];
+const RESPONSE_REQUIRED = ['A03', 'A04', 'G05'];
+const CLAIM_REQUIRED = [...REQUEST_REQUIRED, 'C02', 'C05', 'C06', 'C07', 'D01', 'D02', 'D03', 'F07', 'F08', 'F12'];
+
+const ERROR_CODES: CDAnetGroupSpec = { group: 'errors', count: 'G06', max: 10, fields: ['G08'] };
+const NOTES: CDAnetGroupSpec = { group: 'notes', count: 'G11', max: 32, fields: ['G16', 'G26'] };
+
+export const CDANET_MESSAGES: Record<CDAnetTransactionType, CDAnetMessageSpec> = {
+  claim: {
+    type: 'claim',
+    code: 1,
+    name: 'Claim',
+    direction: 'request',
+    layout: [
+      ...REQUEST_HEADER,
+      ...CLAIM_INFO,
+      { group: 'procedures', count: 'F06', min: 1, max: 7, fields: ['F07', 'F08', 'F09', 'F10', 'F11', 'F12', 'F34', 'F13', 'F16', 'F17'] },
+    ],
+    required: [...CLAIM_REQUIRED, 'F09'],
+  },
+  reversal: {
+    type: 'reversal',
+    code: 2,
+    name: 'Claim Reversal',
+    direction: 'request',
+    layout: [...REQUEST_HEADER, 'C01', 'C11', 'C02', 'C17', 'C06', 'C07', 'C08', 'G01'],
+    required: [...REQUEST_REQUIRED, 'C02', 'C06', 'C07', 'G01'],
+  },
+  predetermination: {
+    type: 'predetermination',
+    code: 3,
+    name: 'Predetermination',
+    direction: 'request',
+    layout: [
+      ...REQUEST_HEADER,
+      ...CLAIM_INFO,
+      // Planned treatment has no date of service
+      { group: 'procedures', count: 'F06', min: 1, max: 7, fields: ['F07', 'F08', 'F10', 'F11', 'F12', 'F34', 'F13', 'F16', 'F17'] },
+    ],
+    required: CLAIM_REQUIRED,
+  },
+  outstandingTransactions: {
+    type: 'outstandingTransactions',
+    code: 4,
+    name: 'Request for Outstanding Transactions',
+    direction: 'request',
+    layout: [...REQUEST_HEADER],
+    required: REQUEST_REQUIRED,
+  },
+  eligibility: {
+    type: 'eligibility',
+    code: 8,
+    name: 'Eligibility',
+    direction: 'request',
+    layout: [...REQUEST_HEADER, ...PATIENT, ...SUBSCRIBER, 'F09'],
+    required: [...REQUEST_REQUIRED, 'C02', 'C05', 'C06', 'C07', 'D01', 'D02', 'D03', 'F09'],
+  },
+  claimAcknowledgement: {
+    type: 'claimAcknowledgement',
+    code: 11,
+    name: 'Claim Acknowledgement',
+    direction: 'response',
+    layout: [...RESPONSE_HEADER, 'G05', 'G04', ERROR_CODES],
+    required: RESPONSE_REQUIRED,
+  },
+  reversalResponse: {
+    type: 'reversalResponse',
+    code: 12,
+    name: 'Claim Reversal Response',
+    direction: 'response',
+    layout: [...RESPONSE_HEADER, 'G05', ERROR_CODES],
+    required: RESPONSE_REQUIRED,
+  },
+  outstandingTransactionsAcknowledgement: {
+    type: 'outstandingTransactionsAcknowledgement',
+    code: 14,
+    name: 'Outstanding Transactions Acknowledgement',
+    direction: 'response',
+    layout: [...RESPONSE_HEADER, 'G05', ERROR_CODES],
+    required: RESPONSE_REQUIRED,
+  },
+  eligibilityResponse: {
+    type: 'eligibilityResponse',
+    code: 18,
+    name: 'Eligibility Response',
+    direction: 'response',
+    layout: [...RESPONSE_HEADER, 'G05', ERROR_CODES, NOTES],
+    required: RESPONSE_REQUIRED,
+  },
+  eob: {
+    type: 'eob',
+    code: 21,
+    name: 'Explanation of Benefits',
+    direction: 'response',
+    layout: [
+      ...RESPONSE_HEADER,
+      'G05',
+      'G03',
+      'G04',
+      'G28',
+      'G29',
+      { group: 'procedures', count: 'F06', max: 7, fields: ['F07', 'G12', 'G13', 'G14', 'G15', 'G16'] },
+      ERROR_CODES,
+      NOTES,
+    ],
+    required: [...RESPONSE_REQUIRED, 'G01', 'F07'],
+  },
+};
+
+export function getMessageSpecByCode(code: number): CDAnetMessageSpec | undefined {
+  return Object.values(CDANET_MESSAGES).find(spec => spec.code === code);
+}
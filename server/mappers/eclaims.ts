@@ -3,7 +3,8 @@
  * Converts internal claim data to eClaims API format
  */
 
-import type { Claim, Patient, Provider } from "@shared/schema";
+import type { Claim, ClaimLine, Patient, Provider } from "@shared/schema";
+import type { AttachmentDocument } from "../connectors/base";
 
 export interface EClaimsPayload {
   submissionId: string;
@@ -35,10 +36,13 @@ export interface EClaimsPayload {
   serviceInfo: {
     serviceDate: string;
     serviceCodes: Array<{
+      lineNumber?: number;
       code: string;
       description?: string;
       units?: number;
       fee: number;
+      serviceDate?: string;
+      modifiers?: string[];
     }>;
     diagnosis?: {
       primary?: string;
@@ -51,19 +55,65 @@ export interface EClaimsPayload {
     referenceNumber?: string;
     notes?: string;
   };
+  adjustment?: EClaimsAdjustment;
+  documents?: EClaimsDocument[];
 }
 
+export interface EClaimsDocument {
+  documentId: string;
+  fileName: string;
+  documentType: 'IMAGE' | 'REPORT' | 'CLINICAL_NOTE';
+  contentType: string;
+  sizeBytes: number;
+  sha256: string;
+  content: string; // base64
+}
+
+export interface EClaimsEligibilityRequest {
+  requestId: string;
+  providerInfo: Pick<EClaimsPayload['providerInfo'], 'providerId' | 'licenseNumber' | 'name'>;
+  patientInfo: Pick<EClaimsPayload['patientInfo'], 'healthCardNumber' | 'firstName' | 'lastName' | 'dateOfBirth'>;
+  serviceDate: string; // YYYY-MM-DD
+}
+
+export interface EClaimsAdjustment {
+  type: 'correction' | 'reversal';
+  originalClaimId: string; // eClaims claim ID of the claim being adjusted
+  reason?: string;
+}
+
+const DOCUMENT_TYPES: Record<string, EClaimsDocument['documentType']> = {
+  photo: 'IMAGE',
+  pdf: 'REPORT',
+  note: 'CLINICAL_NOTE',
+};
+
 /**
  * Map internal claim data to TELUS eClaims format
+ * Service lines come from claim_lines; claims created before line items
+ * existed fall back to the legacy `codes` blob. Attachments travel in the
+ * same request as `documents`.
  */
 export function mapClaimToEClaims(
   claim: Claim, 
   patient: Patient, 
-  provider: Provider
+  provider: Provider,
+  lines: ClaimLine[] = [],
+  attachments: AttachmentDocument[] = []
 ): EClaimsPayload {
-  // Parse service codes from claim.codes
-  const serviceCodes = [];
-  if (claim.codes && typeof claim.codes === 'object') {
+  const serviceCodes: EClaimsPayload['serviceInfo']['serviceCodes'] = [];
+  if (lines.length > 0) {
+    serviceCodes.push(...lines.map(line => ({
+      lineNumber: line.lineNumber,
+      code: line.procedureCode,
+      description: line.description || undefined,
+      units: line.units,
+      fee: parseFloat(line.fee.toString()),
+      serviceDate: line.serviceDate ? formatDate(line.serviceDate) : undefined,
+      modifiers: line.modifiers?.length ? line.modifiers : undefined,
+    })));
+  } else if (claim.codes && typeof claim.codes === 'object') {
+    // Parse service codes from claim.codes
     const codes = claim.codes as any;
     if (Array.isArray(codes)) {
       serviceCodes.push(...codes.map((code: any) => ({
@@ -120,7 +170,8 @@ export function mapClaimToEClaims(
       } : undefined
     },
     serviceInfo: {
-      serviceDate: claim.createdAt?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0], // YYYY-MM-DD
+      serviceDate: serviceCodes.map(service => service.serviceDate).filter(Boolean).sort()[0]
+        || claim.createdAt?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0], // YYYY-MM-DD
       serviceCodes,
       diagnosis: (claim.codes as any)?.diagnosis ? {
         primary: (claim.codes as any).diagnosis.primary,
@@ -132,12 +183,93 @@ export function mapClaimToEClaims(
       currency: claim.currency,
       referenceNumber: claim.referenceNumber || undefined,
       notes: claim.notes || undefined
-    }
+    },
+    documents: attachments.length > 0 ? attachments.map(mapAttachmentToEClaims) : undefined
   };
 
   return payload;
 }
 
+/**
+ * Map a claim attachment to an eClaims supporting document
+ */
+export function mapAttachmentToEClaims(document: AttachmentDocument): EClaimsDocument {
+  return {
+    documentId: document.attachmentId,
+    fileName: document.fileName,
+    documentType: DOCUMENT_TYPES[document.kind] ?? 'REPORT',
+    contentType: document.mime,
+    sizeBytes: document.size,
+    sha256: document.checksum,
+    content: document.content.toString('base64'),
+  };
+}
+
+/**
+ * Map a corrected claim to an eClaims adjustment of the original claim
+ */
+export function mapAdjustmentToEClaims(
+  original: Claim,
+  resubmission: Claim,
+  patient: Patient,
+  provider: Provider,
+  lines: ClaimLine[] = []
+): EClaimsPayload {
+  return {
+    ...mapClaimToEClaims(resubmission, patient, provider, lines),
+    adjustment: {
+      type: 'correction',
+      originalClaimId: original.externalId || original.id,
+      reason: resubmission.notes || undefined,
+    },
+  };
+}
+
+/**
+ * Map a claim reversal to an eClaims adjustment that cancels the original claim
+ */
+export function mapReversalToEClaims(original: Claim, reversal: Claim): Pick<EClaimsPayload, 'submissionId' | 'claimInfo' | 'adjustment'> {
+  return {
+    submissionId: reversal.id,
+    claimInfo: {
+      totalAmount: -parseFloat(original.amount),
+      currency: original.currency,
+      referenceNumber: reversal.referenceNumber || undefined,
+      notes: reversal.notes || undefined,
+    },
+    adjustment: {
+      type: 'reversal',
+      originalClaimId: original.externalId || original.id,
+      reason: reversal.notes || undefined,
+    },
+  };
+}
+
+/**
+ * Map a coverage check for a patient on a given date of service
+ */
+export function mapEligibilityToEClaims(patient: Patient, provider: Provider, serviceDate: Date): EClaimsEligibilityRequest {
+  return {
+    requestId: `${patient.id}-${formatDate(serviceDate)}`,
+    providerInfo: {
+      providerId: provider.id,
+      licenseNumber: provider.licenceNumber || 'TEMP001',
+      name: provider.name,
+    },
+    patientInfo: {
+      healthCardNumber: (patient.identifiers as any)?.healthCard || (patient.identifiers as any)?.ohip || 'UNKNOWN',
+      firstName: patient.name.split(' ')[0] || '',
+      lastName: patient.name.split(' ').slice(1).join(' ') || '',
+      dateOfBirth: patient.dob ? formatDate(patient.dob) : '1990-01-01',
+    },
+    serviceDate: formatDate(serviceDate),
+  };
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
 /**
  * Parse eClaims response and extract relevant data
  */
@@ -0,0 +1,281 @@
+/**
+ * Remittance Advice (ERA) Parsing Functions
+ * Normalizes insurer payment files into one payment line per claim
+ */
+
+import { parseCsv } from '../lib/csv';
+import { CDAnetCodecError, decodeCDAnetMessage, type CDAnetGroupEntry, type CDAnetMessage } from './cdanetCodec';
+
+export const REMITTANCE_FORMATS = ['cdanet_eob', 'telus_csv', 'telus_json', 'generic_csv'] as const;
+export type RemittanceFormat = typeof REMITTANCE_FORMATS[number];
+
+export interface RemittancePaymentLine {
+  lineNumber: number;
+  referenceNumber?: string;
+  externalId?: string;
+  // CDAnet G01, the last 14 characters of the claim's externalId
+  transactionReference?: string;
+  patientName?: string;
+  serviceDate?: Date;
+  amountBilled?: number;
+  amountPaid: number;
+  outcome: 'paid' | 'denied';
+  reasonCodes: string[];
+  raw: Record<string, unknown>;
+}
+
+export class RemittanceParseError extends Error {
+  public details?: any;
+
+  constructor(message: string, details?: any) {
+    super(message);
+    this.name = 'RemittanceParseError';
+    this.details = details;
+  }
+}
+
+// Column aliases, compared after lower-casing and stripping non-alphanumerics
+const FIELD_ALIASES: Record<string, string[]> = {
+  referenceNumber: ['referencenumber', 'reference', 'refno', 'claimreference', 'providerreference', 'officeclaimnumber'],
+  externalId: ['externalid', 'claimid', 'telusclaimid', 'transactionid', 'submissionid', 'carriertransactionid', 'confirmationnumber'],
+  patientName: ['patientname', 'patient', 'membername', 'claimantname'],
+  patientFirstName: ['patientfirstname', 'firstname'],
+  patientLastName: ['patientlastname', 'lastname'],
+  serviceDate: ['servicedate', 'dateofservice', 'dos', 'treatmentdate'],
+  amountBilled: ['amountbilled', 'billedamount', 'amountclaimed', 'claimedamount', 'submittedamount', 'feesubmitted', 'totalbilled'],
+  amountPaid: ['amountpaid', 'paidamount', 'paymentamount', 'payableamount', 'benefitamount', 'totalpaid'],
+  status: ['status', 'claimstatus', 'paymentstatus', 'outcome'],
+  reasonCodes: ['reasoncodes', 'reasoncode', 'explanationcodes', 'explanationcode', 'denialcode', 'rejectioncode', 'adjustmentcodes'],
+};
+
+const DENIED_STATUSES = ['denied', 'rejected', 'declined', 'notpayable', 'refused'];
+
+/**
+ * Parse a remittance file into normalized payment lines
+ */
+export function parseRemittanceFile(format: RemittanceFormat, content: string): RemittancePaymentLine[] {
+  switch (format) {
+    case 'cdanet_eob':
+      // One fixed-width v4 EOB message per line
+      return collectLines(content.split(/\r?\n/).filter(message => message.trim()), parseEobMessage);
+    case 'telus_json':
+      return collectLines(extractRecords(parseJson(content), ['payments', 'claims', 'lines']), normalizePaymentLine);
+    case 'telus_csv':
+    case 'generic_csv':
+      return collectLines(parseCsv(content), normalizePaymentLine);
+    default:
+      throw new RemittanceParseError(`Unsupported remittance format: ${format}`);
+  }
+}
+
+/**
+ * Turn one CDAnet EOB response (transaction code 21) into a payment line
+ */
+export function parseEobMessage(message: string, lineNumber: number): RemittancePaymentLine {
+  let decoded: CDAnetMessage;
+  try {
+    decoded = decodeCDAnetMessage(message);
+  } catch (error) {
+    if (!(error instanceof CDAnetCodecError)) throw error;
+    const fields = error.errors.map(fieldError => `${fieldError.field} ${fieldError.message}`);
+    throw new Error([error.message, ...fields].join('; '));
+  }
+  if (decoded.type !== 'eob') {
+    throw new Error(`expected an EOB response, got ${decoded.name}`);
+  }
+
+  const { values } = decoded;
+  const amountPaid = typeof values.G28 === 'number' ? values.G28 : 0;
+  const transactionReference = toText(values.G01);
+  const reasonCodes = ((values.errors || []) as CDAnetGroupEntry[])
+    .map(entry => toText(entry.G08))
+    .filter((code): code is string => code !== undefined);
+
+  return {
+    lineNumber,
+    externalId: transactionReference,
+    transactionReference,
+    amountBilled: typeof values.G04 === 'number' ? values.G04 : undefined,
+    amountPaid,
+    // Same reading as parseCDAnetResponse: a rejection or a zero benefit is a denial
+    outcome: values.G05 === 'R' || amountPaid <= 0 ? 'denied' : 'paid',
+    reasonCodes,
+    raw: { message, responseStatus: values.G05, values },
+  };
+}
+
+/**
+ * Normalize one source record (JSON object or CSV row) into a payment line
+ */
+export function normalizePaymentLine(record: Record<string, unknown>, lineNumber: number): RemittancePaymentLine {
+  const fields = flattenRecord(record);
+  const pick = (field: string) => pickField(fields, FIELD_ALIASES[field]);
+
+  const amountPaid = parseAmount(pick('amountPaid'));
+  if (amountPaid === undefined) {
+    throw new Error('missing paid amount');
+  }
+
+  const referenceNumber = toText(pick('referenceNumber'));
+  const externalId = toText(pick('externalId'));
+  const patientName = toText(pick('patientName'))
+    || [toText(pick('patientFirstName')), toText(pick('patientLastName'))].filter(Boolean).join(' ')
+    || undefined;
+
+  const reasonCodes = parseReasonCodes(pick('reasonCodes'));
+  const status = (toText(pick('status')) || '').toLowerCase().replace(/[^a-z]/g, '');
+  const outcome = DENIED_STATUSES.includes(status) || (amountPaid === 0 && !status.includes('paid'))
+    ? 'denied'
+    : 'paid';
+
+  return {
+    lineNumber,
+    referenceNumber,
+    externalId,
+    patientName,
+    serviceDate: parseDate(pick('serviceDate')),
+    amountBilled: parseAmount(pick('amountBilled')),
+    amountPaid,
+    outcome,
+    reasonCodes,
+    raw: record,
+  };
+}
+
+/**
+ * Helper functions
+ */
+
+function collectLines<T>(
+  records: T[],
+  parse: (record: T, lineNumber: number) => RemittancePaymentLine
+): RemittancePaymentLine[] {
+  if (records.length === 0) {
+    throw new RemittanceParseError('Remittance file contains no payment lines');
+  }
+
+  const errors: string[] = [];
+  const lines: RemittancePaymentLine[] = [];
+  records.forEach((record, index) => {
+    try {
+      lines.push(parse(record, index + 1));
+    } catch (error) {
+      errors.push(`Line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new RemittanceParseError('Remittance file has invalid payment lines', { errors });
+  }
+
+  return lines;
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new RemittanceParseError('Remittance file is not valid JSON');
+  }
+}
+
+function extractRecords(data: unknown, containerKeys: string[]): Record<string, unknown>[] {
+  if (Array.isArray(data)) {
+    return data.filter(isRecord);
+  }
+  if (isRecord(data)) {
+    for (const key of containerKeys) {
+      const value = data[key];
+      if (Array.isArray(value)) {
+        return value.filter(isRecord);
+      }
+    }
+    // A single payment record
+    return [data];
+  }
+  return [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Flatten nested objects (e.g. `patient.name`, `serviceDetails.paidAmount`) into
+// normalized keys. Top-level keys win over nested ones.
+function flattenRecord(record: Record<string, unknown>, into = new Map<string, unknown>(), prefix = ''): Map<string, unknown> {
+  for (const [key, value] of Object.entries(record)) {
+    if (isRecord(value)) {
+      flattenRecord(value, into, `${prefix}${key}`);
+      continue;
+    }
+    const normalizedKey = normalizeKey(key);
+    const prefixedKey = normalizeKey(`${prefix}${key}`);
+    if (!into.has(normalizedKey)) {
+      into.set(normalizedKey, value);
+    }
+    if (prefix && !into.has(prefixedKey)) {
+      into.set(prefixedKey, value);
+    }
+  }
+  return into;
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function pickField(fields: Map<string, unknown>, aliases: string[]): unknown {
+  for (const alias of aliases) {
+    const value = fields.get(alias);
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+function parseAmount(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? Math.round(value * 100) / 100 : undefined;
+  }
+  const text = toText(value);
+  if (!text) return undefined;
+
+  // Accept "$1,234.50" and accounting negatives "(12.00)"
+  const negative = /^\(.*\)$/.test(text);
+  const amount = parseFloat(text.replace(/[^0-9.-]/g, ''));
+  if (!Number.isFinite(amount)) {
+    throw new Error(`invalid amount "${text}"`);
+  }
+  return Math.round((negative ? -amount : amount) * 100) / 100;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  const text = toText(value);
+  if (!text) return undefined;
+
+  // CDAnet dates are YYYYMMDD
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const date = compact
+    ? new Date(`${compact[1]}-${compact[2]}-${compact[3]}T00:00:00Z`)
+    : new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`invalid service date "${text}"`);
+  }
+  return date;
+}
+
+function parseReasonCodes(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(code => String(code).trim()).filter(Boolean);
+  }
+  const text = toText(value);
+  return text ? text.split(/[;,|]/).map(code => code.trim()).filter(Boolean) : [];
+}
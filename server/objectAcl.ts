@@ -1,37 +1,20 @@
-import { File } from "@google-cloud/storage";
-
-const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
+import { storage } from "./storage";
 
 // The type of the access group.
 //
-// Can be flexibly defined according to the use case.
-//
-// Examples:
-// - USER_LIST: the users from a list stored in the database;
-// - EMAIL_DOMAIN: the users whose email is in a specific domain;
-// - GROUP_MEMBER: the users who are members of a specific group;
-// - SUBSCRIBER: the users who are subscribers of a specific service / content
-//   creator.
-export enum ObjectAccessGroupType {}
+// - ORG_MEMBER: users of an organization, home or through a membership;
+//   the group id is the organization id.
+// - CLAIM_OWNER: the user who created a claim; the group id is the claim id.
+export enum ObjectAccessGroupType {
+  ORG_MEMBER = "org_member",
+  CLAIM_OWNER = "claim_owner",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
   // The type of the access group.
   type: ObjectAccessGroupType;
   // The logic id that is enough to identify the qualified group members.
-  //
-  // It may have different format for different types. For example:
-  // - for USER_LIST, the id could be the user list db entity id, and the
-  //   user list db entity could contain a bunch of user ids. User needs
-  //   to be a member of the user list to be able to access the object.
-  // - for EMAIL_DOMAIN, the id could be the email domain, and the user needs
-  //   to have an email with the domain to be able to access the object.
-  // - for GROUP_MEMBER, the id could be the group db entity id, and the
-  //   group db entity could contain a bunch of user ids. User needs to be
-  //   a member of the group to be able to access the object.
-  // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
-  //   subscriber db entity could contain a bunch of user ids. User needs to
-  //   be a subscriber to be able to access the object.
   id: string;
 }
 
@@ -46,9 +29,8 @@ export interface ObjectAclRule {
 }
 
 // The ACL policy of the object.
-// This would be set as part of the object custom metadata:
-// - key: "custom:aclPolicy"
-// - value: JSON string of the ObjectAclPolicy object.
+// Each blob store driver keeps it alongside the object (object metadata for
+// GCS and S3, a sidecar file on local disk).
 export interface ObjectAclPolicy {
   owner: string;
   visibility: "public" | "private";
@@ -70,8 +52,6 @@ function isPermissionAllowed(
 }
 
 // The base class for all access groups.
-//
-// Different types of access groups can be implemented according to the use case.
 abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   constructor(
     public readonly type: ObjectAccessGroupType,
@@ -82,67 +62,58 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
-function createObjectAccessGroup(
-  group: ObjectAccessGroup,
-): BaseObjectAccessGroup {
-  switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
-    default:
-      throw new Error(`Unknown access group type: ${group.type}`);
+// Active users whose home organization is the group id, or who hold a
+// membership in it.
+class OrgMemberAccessGroup extends BaseObjectAccessGroup {
+  constructor(orgId: string) {
+    super(ObjectAccessGroupType.ORG_MEMBER, orgId);
+  }
+
+  async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    if (!user || user.deactivatedAt) {
+      return false;
+    }
+    return user.orgId === this.id || !!(await storage.getMembership(userId, this.id));
   }
 }
 
-// Sets the ACL policy to the object metadata.
-export async function setObjectAclPolicy(
-  objectFile: File,
-  aclPolicy: ObjectAclPolicy,
-): Promise<void> {
-  const [exists] = await objectFile.exists();
-  if (!exists) {
-    throw new Error(`Object not found: ${objectFile.name}`);
+// The user who created the claim.
+class ClaimOwnerAccessGroup extends BaseObjectAccessGroup {
+  constructor(claimId: string) {
+    super(ObjectAccessGroupType.CLAIM_OWNER, claimId);
   }
 
-  await objectFile.setMetadata({
-    metadata: {
-      [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
-    },
-  });
+  async hasMember(userId: string): Promise<boolean> {
+    const claim = await storage.getClaim(this.id);
+    return !!claim && claim.createdBy === userId;
+  }
 }
 
-// Gets the ACL policy from the object metadata.
-export async function getObjectAclPolicy(
-  objectFile: File,
-): Promise<ObjectAclPolicy | null> {
-  const [metadata] = await objectFile.getMetadata();
-  const aclPolicy = metadata?.metadata?.[ACL_POLICY_METADATA_KEY];
-  if (!aclPolicy) {
-    return null;
+function createObjectAccessGroup(
+  group: ObjectAccessGroup,
+): BaseObjectAccessGroup {
+  switch (group.type) {
+    case ObjectAccessGroupType.ORG_MEMBER:
+      return new OrgMemberAccessGroup(group.id);
+    case ObjectAccessGroupType.CLAIM_OWNER:
+      return new ClaimOwnerAccessGroup(group.id);
+    default:
+      throw new Error(`Unknown access group type: ${group.type}`);
   }
-  return JSON.parse(aclPolicy as string);
 }
 
-// Checks if the user can access the object.
+// Checks if the user can access an object with the given ACL policy.
 export async function canAccessObject({
   userId,
-  objectFile,
+  aclPolicy,
   requestedPermission,
 }: {
   userId?: string;
-  objectFile: File;
+  aclPolicy: ObjectAclPolicy | null;
   requestedPermission: ObjectPermission;
 }): Promise<boolean> {
-  // When this function is called, the acl policy is required.
-  const aclPolicy = await getObjectAclPolicy(objectFile);
+  // Objects without a policy are not accessible.
   if (!aclPolicy) {
     return false;
   }
@@ -169,8 +140,8 @@ export async function canAccessObject({
   for (const rule of aclPolicy.aclRules || []) {
     const accessGroup = createObjectAccessGroup(rule.group);
     if (
-      (await accessGroup.hasMember(userId)) &&
-      isPermissionAllowed(requestedPermission, rule.permission)
+      isPermissionAllowed(requestedPermission, rule.permission) &&
+      (await accessGroup.hasMember(userId))
     ) {
       return true;
     }
@@ -1,35 +1,18 @@
-import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
+import { Readable, Transform } from "node:stream";
 import { randomUUID } from "node:crypto";
 import {
   ObjectAclPolicy,
   ObjectPermission,
   canAccessObject,
-  getObjectAclPolicy,
-  setObjectAclPolicy,
 } from "./objectAcl";
-import { safeFetch } from "./net/allowlist";
+import { getBlobStore, type BlobMetadata, type BlobStore } from "./blob/base";
+import { signObjectUrl } from "./security/signedUrls";
+import { parsePositiveIntEnv } from "./lib/env";
 
-const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
-
-// The object storage client is used to interact with the object storage service.
-export const objectStorageClient = new Storage({
-  credentials: {
-    audience: "replit",
-    subject_token_type: "access_token",
-    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
-    type: "external_account",
-    credential_source: {
-      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
-      format: {
-        type: "json",
-        subject_token_field_name: "access_token",
-      },
-    },
-    universe_domain: "googleapis.com",
-  },
-  projectId: "",
-});
+const UPLOAD_URL_TTL_SEC = 900;
+const DOWNLOAD_URL_TTL_SEC = parsePositiveIntEnv(process.env.OBJECT_URL_TTL_SECONDS, 300);
+const OBJECT_UPLOAD_MAX_BYTES = parsePositiveIntEnv(process.env.OBJECT_UPLOAD_MAX_BYTES, 25 * 1024 * 1024);
 
 export class ObjectNotFoundError extends Error {
   constructor() {
@@ -39,82 +22,77 @@ export class ObjectNotFoundError extends Error {
   }
 }
 
-// The object storage service is used to interact with the object storage service.
+export class ObjectTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Uploads are limited to ${Math.floor(limit / (1024 * 1024))} MB`);
+    this.name = "ObjectTooLargeError";
+    Object.setPrototypeOf(this, ObjectTooLargeError.prototype);
+  }
+}
+
+// An object entity: /objects/<key> in the configured blob store.
+export interface ObjectEntity extends BlobMetadata {
+  path: string;
+  key: string;
+}
+
+// The object storage service maps /objects/<key> paths onto the configured
+// blob store (see server/blob/base.ts) and enforces their ACL policies.
 export class ObjectStorageService {
-  constructor() {}
+  constructor(private readonly store: BlobStore = getBlobStore()) {}
 
-  // Gets the public object search paths.
-  getPublicObjectSearchPaths(): Array<string> {
-    const pathsStr = process.env.PUBLIC_OBJECT_SEARCH_PATHS || "";
-    const paths = Array.from(
-      new Set(
-        pathsStr
-          .split(",")
-          .map((path) => path.trim())
-          .filter((path) => path.length > 0)
-      )
-    );
-    if (paths.length === 0) {
-      throw new Error(
-        "PUBLIC_OBJECT_SEARCH_PATHS not set. Create a bucket in 'Object Storage' " +
-          "tool and set PUBLIC_OBJECT_SEARCH_PATHS env var (comma-separated paths)."
-      );
-    }
-    return paths;
+  // Gets the upload URL for a new object entity.
+  async getObjectEntityUploadURL(): Promise<string> {
+    return this.store.getUploadUrl(`uploads/${randomUUID()}`, UPLOAD_URL_TTL_SEC);
   }
 
-  // Gets the private object directory.
-  getPrivateObjectDir(): string {
-    const dir = process.env.PRIVATE_OBJECT_DIR || "";
-    if (!dir) {
-      throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
-      );
+  // The store key of an /objects/ path; anything else is not an object entity.
+  private entityKey(objectPath: string): string {
+    if (!objectPath.startsWith("/objects/")) {
+      throw new ObjectNotFoundError();
+    }
+    const segments = objectPath.slice("/objects/".length).split("/");
+    if (segments.some((segment) => !segment || segment === "." || segment === "..")) {
+      throw new ObjectNotFoundError();
     }
-    return dir;
+    return segments.join("/");
   }
 
-  // Search for a public object from the search paths.
-  async searchPublicObject(filePath: string): Promise<File | null> {
-    for (const searchPath of this.getPublicObjectSearchPaths()) {
-      const fullPath = `${searchPath}/${filePath}`;
-
-      // Full path format: /<bucket_name>/<object_name>
-      const { bucketName, objectName } = parseObjectPath(fullPath);
-      const bucket = objectStorageClient.bucket(bucketName);
-      const file = bucket.file(objectName);
-
-      // Check if file exists
-      const [exists] = await file.exists();
-      if (exists) {
-        return file;
-      }
+  // Maps a store URL (e.g. an upload URL without its query) to its /objects/ path.
+  normalizeObjectEntityPath(rawPath: string): string {
+    if (rawPath.startsWith("/objects/")) {
+      return rawPath.split("?")[0];
     }
+    const key = this.store.keyFromUrl(rawPath);
+    return key ? `/objects/${key}` : rawPath;
+  }
 
-    return null;
+  // Gets the object entity from the object path.
+  async getObjectEntity(objectPath: string): Promise<ObjectEntity> {
+    const key = this.entityKey(objectPath);
+    const metadata = await this.store.head(key);
+    if (!metadata) {
+      throw new ObjectNotFoundError();
+    }
+    return { ...metadata, path: objectPath, key };
   }
 
   // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  async downloadObject(entity: ObjectEntity, res: Response, cacheTtlSec: number = 3600) {
     try {
-      // Get file metadata
-      const [metadata] = await file.getMetadata();
-      // Get the ACL policy for the object.
-      const aclPolicy = await getObjectAclPolicy(file);
-      const isPublic = aclPolicy?.visibility === "public";
-      // Set appropriate headers
+      const stream = await this.store.createReadStream(entity.key);
+      if (!stream) {
+        res.sendStatus(404);
+        return;
+      }
+
+      const isPublic = entity.aclPolicy?.visibility === "public";
       res.set({
-        "Content-Type": metadata.contentType || "application/octet-stream",
-        "Content-Length": metadata.size,
-        "Cache-Control": `${
-          isPublic ? "public" : "private"
-        }, max-age=${cacheTtlSec}`,
+        "Content-Type": entity.contentType,
+        "Content-Length": String(entity.size),
+        "Cache-Control": `${isPublic ? "public" : "private"}, max-age=${cacheTtlSec}`,
       });
 
-      // Stream the file to the response
-      const stream = file.createReadStream();
-
       stream.on("error", (err) => {
         console.error("Stream error:", err);
         if (!res.headersSent) {
@@ -131,170 +109,114 @@ export class ObjectStorageService {
     }
   }
 
-  // Gets the upload URL for an object entity.
-  async getObjectEntityUploadURL(): Promise<string> {
-    const privateObjectDir = this.getPrivateObjectDir();
-    if (!privateObjectDir) {
-      throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
-      );
+  // Tries to set the ACL policy for the object entity and return the normalized path.
+  // Only fresh uploads (no policy yet) or objects the new policy's owner already
+  // owns can be changed; anyone else's object is reported as not found.
+  async trySetObjectEntityAclPolicy(
+    rawPath: string,
+    aclPolicy: ObjectAclPolicy
+  ): Promise<string> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    if (!normalizedPath.startsWith("/")) {
+      return normalizedPath;
     }
 
-    const objectId = randomUUID();
-    const fullPath = `${privateObjectDir}/uploads/${objectId}`;
-
-    const { bucketName, objectName } = parseObjectPath(fullPath);
-
-    // Sign URL for PUT method with TTL
-    return signObjectURL({
-      bucketName,
-      objectName,
-      method: "PUT",
-      ttlSec: 900,
-    });
-  }
-
-  // Gets the object entity file from the object path.
-  async getObjectEntityFile(objectPath: string): Promise<File> {
-    if (!objectPath.startsWith("/objects/")) {
+    const key = this.entityKey(normalizedPath);
+    const existing = await this.store.head(key);
+    if (!existing || (existing.aclPolicy && existing.aclPolicy.owner !== aclPolicy.owner)) {
       throw new ObjectNotFoundError();
     }
-
-    const parts = objectPath.slice(1).split("/");
-    if (parts.length < 2) {
+    if (!(await this.store.setAclPolicy(key, aclPolicy))) {
       throw new ObjectNotFoundError();
     }
+    return normalizedPath;
+  }
 
-    const entityId = parts.slice(1).join("/");
-    let entityDir = this.getPrivateObjectDir();
-    if (!entityDir.endsWith("/")) {
-      entityDir = `${entityDir}/`;
+  // Reads the object entity into memory; null if it is gone.
+  async readObjectEntity(rawPath: string): Promise<Buffer | null> {
+    const stream = await this.openObjectEntityStream(rawPath);
+    if (!stream) {
+      return null;
     }
-    const objectEntityPath = `${entityDir}${entityId}`;
-    const { bucketName, objectName } = parseObjectPath(objectEntityPath);
-    const bucket = objectStorageClient.bucket(bucketName);
-    const objectFile = bucket.file(objectName);
-    const [exists] = await objectFile.exists();
-    if (!exists) {
-      throw new ObjectNotFoundError();
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
     }
-    return objectFile;
+    return Buffer.concat(chunks);
   }
 
-  normalizeObjectEntityPath(
-    rawPath: string,
-  ): string {
-    if (!rawPath.startsWith("https://storage.googleapis.com/")) {
-      return rawPath;
-    }
-  
-    // Extract the path from the URL by removing query parameters and domain
-    const url = new URL(rawPath);
-    const rawObjectPath = url.pathname;
-  
-    let objectEntityDir = this.getPrivateObjectDir();
-    if (!objectEntityDir.endsWith("/")) {
-      objectEntityDir = `${objectEntityDir}/`;
-    }
-  
-    if (!rawObjectPath.startsWith(objectEntityDir)) {
-      return rawObjectPath;
+  // Opens a read stream on the object entity; null if it is gone.
+  async openObjectEntityStream(rawPath: string): Promise<Readable | null> {
+    try {
+      return await this.store.createReadStream(this.entityKey(this.normalizeObjectEntityPath(rawPath)));
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return null;
+      }
+      throw error;
     }
-  
-    // Extract the entity ID from the path
-    const entityId = rawObjectPath.slice(objectEntityDir.length);
-    return `/objects/${entityId}`;
   }
 
-  // Tries to set the ACL policy for the object entity and return the normalized path.
-  async trySetObjectEntityAclPolicy(
-    rawPath: string,
-    aclPolicy: ObjectAclPolicy
-  ): Promise<string> {
-    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
-    if (!normalizedPath.startsWith("/")) {
-      return normalizedPath;
+  // Stores a server-generated file as a new private object entity and returns its path.
+  async writeObjectEntity(contents: Buffer, contentType: string, aclPolicy: ObjectAclPolicy): Promise<string> {
+    const key = `uploads/${randomUUID()}`;
+    await this.store.write(key, contents, contentType, aclPolicy);
+    return `/objects/${key}`;
+  }
+
+  // Stores a browser upload sent to a signed upload URL. Each upload URL
+  // names a new object, so existing objects are never overwritten, even by
+  // two uploads racing on the same URL; false when the object already exists.
+  async writeUploadedObjectEntity(objectPath: string, body: Readable, contentType: string): Promise<boolean> {
+    const key = this.entityKey(objectPath);
+    let size = 0;
+    const limited = body.pipe(new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        callback(size > OBJECT_UPLOAD_MAX_BYTES ? new ObjectTooLargeError(OBJECT_UPLOAD_MAX_BYTES) : null, chunk);
+      },
+    }));
+    body.on("error", (error) => limited.destroy(error));
+    return this.store.create(key, limited, contentType);
+  }
+
+  // Deletes the object entity; false if it was already gone.
+  async deleteObjectEntity(rawPath: string): Promise<boolean> {
+    try {
+      return await this.store.delete(this.entityKey(this.normalizeObjectEntityPath(rawPath)));
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return false;
+      }
+      throw error;
     }
+  }
 
-    const objectFile = await this.getObjectEntityFile(normalizedPath);
-    await setObjectAclPolicy(objectFile, aclPolicy);
-    return normalizedPath;
+  // A short-lived signed URL that downloads the object entity without a
+  // session; callers must check access before handing it out.
+  getSignedObjectEntityURL(rawPath: string, ttlSec: number = DOWNLOAD_URL_TTL_SEC): { url: string; expiresAt: Date } {
+    const objectPath = this.normalizeObjectEntityPath(rawPath);
+    this.entityKey(objectPath);
+    return {
+      url: signObjectUrl("GET", objectPath, ttlSec),
+      expiresAt: new Date(Date.now() + ttlSec * 1000),
+    };
   }
 
   // Checks if the user can access the object entity.
   async canAccessObjectEntity({
     userId,
-    objectFile,
+    objectEntity,
     requestedPermission,
   }: {
     userId?: string;
-    objectFile: File;
+    objectEntity: ObjectEntity;
     requestedPermission?: ObjectPermission;
   }): Promise<boolean> {
     return canAccessObject({
       userId,
-      objectFile,
+      aclPolicy: objectEntity.aclPolicy,
       requestedPermission: requestedPermission ?? ObjectPermission.READ,
     });
   }
 }
-
-function parseObjectPath(path: string): {
-  bucketName: string;
-  objectName: string;
-} {
-  if (!path.startsWith("/")) {
-    path = `/${path}`;
-  }
-  const pathParts = path.split("/");
-  if (pathParts.length < 3) {
-    throw new Error("Invalid path: must contain at least a bucket name");
-  }
-
-  const bucketName = pathParts[1];
-  const objectName = pathParts.slice(2).join("/");
-
-  return {
-    bucketName,
-    objectName,
-  };
-}
-
-async function signObjectURL({
-  bucketName,
-  objectName,
-  method,
-  ttlSec,
-}: {
-  bucketName: string;
-  objectName: string;
-  method: "GET" | "PUT" | "DELETE" | "HEAD";
-  ttlSec: number;
-}): Promise<string> {
-  const request = {
-    bucket_name: bucketName,
-    object_name: objectName,
-    method,
-    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
-  };
-  const response = await safeFetch(
-    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(request),
-    }
-  );
-  if (!response.ok) {
-    throw new Error(
-      `Failed to sign object URL, errorcode: ${response.status}, ` +
-        `make sure you're running on Replit`
-    );
-  }
-
-  const { signed_url: signedURL } = await response.json();
-  return signedURL;
-}
@@ -7,14 +7,34 @@ import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { safeFetch, testDomain } from "./net/allowlist";
 
-import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { ObjectStorageService, ObjectNotFoundError, ObjectTooLargeError } from "./objectStorage";
+import { verifyObjectUrlSignature } from "./security/signedUrls";
 import { ObjectPermission } from "./objectAcl";
-import { insertClaimSchema, insertAttachmentSchema, insertRemittanceSchema, insertPushSubscriptionSchema, insertConnectorConfigSchema } from "@shared/schema";
+import { claimCreateSchema, claimUpdateSchema, claimStatusEnum, claimLineInputSchema, attachmentInputSchema, insertRemittanceSchema, insertPushSubscriptionSchema, insertConnectorConfigSchema, patientInputSchema, providerInputSchema, appointmentInputSchema, appointmentStatusEnum, roleInputSchema, identityProviderInputSchema, privacyRequestInputSchema, claimScrubRuleInputSchema, claimScrubScopeSchema, claimTypeEnum, jobStatusEnum, type ClaimLineInput, type ClaimUpdate, type IdentityProvider, type User } from "@shared/schema";
+import { BUILT_IN_ROLES, expandPermissions, isBuiltInRole } from "@shared/permissions";
 import { z } from "zod";
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from "@simplewebauthn/server";
 import { PushNotificationService } from "./pushService";
-import { handleSSOLogin, configureCORS } from "./ssoAuth";
+import { handleSSOLogin, configureCORS, createSessionUser } from "./ssoAuth";
+import { setupFederatedAuth } from "./federatedAuth";
+import { issueScimToken, setupScim } from "./scim";
 import { csrfProtection, getCSRFToken, issueCSRFToken } from "./security/csrf";
 import { authLimiter, uploadLimiter, connectorLimiter, apiLimiter } from "./security/rateLimiter";
+import { hasPermission, requireAnyPermission, requirePermission, resolvePermissions } from "./security/permissions";
+import { clearSessionPolicyCache, endOtherSessions, endUserSession, enforceSessionPolicy, listUserSessions, policyFromOrganization } from "./security/sessions";
+import { formatAuditExport, signAuditExport, verifyAuditChain } from "./security/audit-chain";
+import { retentionCutoff, runRetention, writeRetentionReport } from "./lib/retention";
+import {
+  PrivacyRequestError,
+  applyPatientCorrection,
+  buildPatientExport,
+  createPrivacyRequest,
+  erasePatient,
+  extendPrivacyRequest,
+  isPrivacyRequestOpen,
+} from "./lib/privacyRequests";
+import { KeyRotationError, pauseKeyRotation, resumeKeyRotation, rollbackKeyRotation, startKeyRotation } from "./lib/keyRotation";
+import { getKeyring } from "./security/keyring";
 import { configureSecurityHeaders, additionalSecurityHeaders } from "./security/headers";
 import { logger, requestLogger } from "./security/logger";
 import { healthCheck, readinessCheck, metricsEndpoint } from "./security/healthChecks";
@@ -24,10 +44,40 @@ import {
   ItransAutoSubmitQueueStore,
 } from "./integrations/itransAutoSubmitQueueStore";
 import { validateItransProductionSecurityConfiguration } from "./integrations/itransSecurityConfig";
-
-function parsePositiveIntEnv(value: string | undefined, fallback: number): number {
-  const parsed = Number.parseInt(String(value ?? ''), 10);
-  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+import { ClaimTransitionError, USER_STATUS_TRANSITIONS, canUserTransition, transitionClaimStatus } from "./lib/claimStatus";
+import { ClaimAmendmentError, getClaimChain, resubmitClaim, reverseClaim } from "./lib/claimAmendments";
+import { ConnectorError } from "./lib/errors";
+import { CDAnetCodecError } from "./mappers/cdanetCodec";
+import { EligibilityError, checkEligibility, getCachedEligibility } from "./lib/eligibility";
+import { findDuplicatePatients, findDuplicateProviders, primaryLicenceNumber } from "./lib/directory";
+import { AppointmentError, assertAppointmentParties, deleteAppointment, getUnbilledAppointments } from "./lib/appointments";
+import { MembershipError, addMember, asMemberOf, getMemberships, getOrgUsers, getRequestUser } from "./lib/memberships";
+import { getWorkQueue } from "./lib/workQueue";
+import { AttachmentError, assertAttachmentsSubmittable, ingestAttachment, rescanAttachment } from "./lib/attachments";
+import { BUILT_IN_SCRUB_RULES, ClaimScrubError, assertClaimScrubbed, scrubClaim, scrubSavedClaim } from "./lib/claimScrubber";
+import { getAttachmentTransmissions, scheduleAttachmentTransmission, transmissionMessage } from "./lib/attachmentTransmission";
+import { CLAIM_IMPORT_FIELDS, ClaimImportError, commitClaimImport, previewClaimImport, type ColumnMapping } from "./lib/claimImport";
+import { parsePositiveIntEnv } from "./lib/env";
+
+// The workflow request id is the claim id when the request came from a claim;
+// requests created outside MedLink have no claim to update
+async function markWorkflowRequestSubmitted(claimId: string, actorUserId: string | undefined, responseBody: any) {
+  try {
+    await transitionClaimStatus(claimId, 'submitted', {
+      source: 'connector',
+      actorUserId,
+      reason: 'Submitted to iTrans workflow',
+      updates: {
+        externalId: String(responseBody?.requestId || claimId),
+        referenceNumber: String(responseBody?.requestIdHash || responseBody?.requestId || claimId),
+      },
+    });
+  } catch (error) {
+    if (error instanceof ClaimTransitionError && error.code === 'CLAIM_NOT_FOUND') {
+      return;
+    }
+    throw error;
+  }
 }
 
 const LOGIN_MAX_ATTEMPTS = 5;
@@ -175,6 +225,22 @@ const devAuth = (middleware: any) => {
   };
 };
 
+// The signed-in user in their active organization, with the permissions the
+// client RoleGuard checks and the memberships offered by the org switcher
+async function describeSignedInUser(user: User, activeOrgId: string | undefined) {
+  const activeUser = await asMemberOf(user, activeOrgId);
+  return {
+    ...activeUser,
+    permissions: Array.from(await resolvePermissions(activeUser)),
+    memberships: await getMemberships(user),
+  };
+}
+
+// Identity provider settings as shown to admins; the client secret never leaves the server
+function describeIdentityProvider({ clientSecret, ...provider }: IdentityProvider) {
+  return { ...provider, hasClientSecret: !!clientSecret };
+}
+
 type ItransService = {
   code: string;
   description: string;
@@ -284,11 +350,153 @@ function getItransHeaders(method: "GET" | "POST", path: string): Record<string,
   return headers;
 }
 
+// Contact details to match when checking for duplicate patients or providers
+const duplicateCheckSchema = z.object({
+  email: z.string().trim().max(255).nullable().optional(),
+  phone: z.string().trim().max(50).nullable().optional(),
+  excludeId: z.string().optional(),
+});
+
+// Uploaded practice-management export; XLSX workbooks arrive base64-encoded
+const claimImportSchema = z.object({
+  format: z.enum(['csv', 'xlsx']),
+  fileName: z.string().max(255).optional(),
+  content: z.string().min(1, "File is empty"),
+  mapping: z.record(z.string(), z.string()).optional(),
+});
+
+// Appointment list filters; from/to bound scheduledAt as [from, to)
+const appointmentQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  providerId: z.string().optional(),
+  status: z.enum(appointmentStatusEnum.enumValues).optional(),
+});
+
+const scimTokenInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+// A passkey assertion from navigator.credentials.get(); the signature itself is checked by @simplewebauthn
+const webauthnAssertionSchema: z.ZodType<AuthenticationResponseJSON, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  rawId: z.string().min(1),
+  type: z.literal('public-key'),
+  authenticatorAttachment: z.enum(['platform', 'cross-platform']).optional(),
+  clientExtensionResults: z.custom<AuthenticationResponseJSON['clientExtensionResults']>(
+    (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+  ).default({}),
+  response: z.object({
+    clientDataJSON: z.string().min(1),
+    authenticatorData: z.string().min(1),
+    signature: z.string().min(1),
+    userHandle: z.string().optional(),
+  }),
+});
+
+// A new passkey from navigator.credentials.create(); the attestation itself is checked by @simplewebauthn
+const webauthnAttestationSchema: z.ZodType<RegistrationResponseJSON, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  rawId: z.string().min(1),
+  type: z.literal('public-key'),
+  authenticatorAttachment: z.enum(['platform', 'cross-platform']).optional(),
+  clientExtensionResults: z.custom<RegistrationResponseJSON['clientExtensionResults']>(
+    (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+  ).default({}),
+  response: z.object({
+    clientDataJSON: z.string().min(1),
+    attestationObject: z.string().min(1),
+    authenticatorData: z.string().optional(),
+    transports: z.custom<NonNullable<RegistrationResponseJSON['response']['transports']>>(
+      (value) => Array.isArray(value) && value.every(transport => typeof transport === 'string'),
+    ).optional(),
+    publicKeyAlgorithm: z.number().int().optional(),
+    publicKey: z.string().optional(),
+  }),
+});
+
+const webauthnRegistrationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  response: webauthnAttestationSchema,
+});
+
+// Audit log search; from/to bound createdAt as [from, to)
+const auditQuerySchema = z.object({
+  actorUserId: z.string().optional(),
+  type: z.string().optional(),
+  resourceType: z.string().optional(),
+  resourceId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const auditExportSchema = auditQuerySchema.omit({ limit: true, offset: true }).extend({
+  format: z.enum(['csv', 'jsonl']).default('csv'),
+});
+
+const retentionPolicySchema = z.object({
+  dataRetentionDays: z.number().int().min(90).max(36500),
+  minimizeLogging: z.boolean(),
+});
+
+const privacyRequestQuerySchema = z.object({
+  status: z.enum(["received", "inProgress", "completed", "rejected"]).optional(),
+  patientId: z.string().uuid().optional(),
+});
+
+const privacyRequestUpdateSchema = z.object({
+  status: z.enum(["inProgress", "completed", "rejected"]),
+  resolution: z.string().trim().max(5000).nullable().optional(),
+}).refine(
+  (update) => update.status !== "rejected" || !!update.resolution,
+  { message: "Say why the request is refused", path: ["resolution"] },
+);
+
+const legalHoldSchema = z.object({
+  legalHold: z.boolean(),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// Larger exports have to be split by date range
+const AUDIT_EXPORT_LIMIT = 50000;
+
+// Session timeouts; null turns a limit off
+const sessionPolicySchema = z.object({
+  sessionIdleTimeoutMinutes: z.number().int().min(5).max(24 * 60).nullable(),
+  sessionMaxLifetimeHours: z.number().int().min(1).max(30 * 24).nullable(),
+});
+
+const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(12, "Use at least 12 characters").max(200),
+});
+
+// Existing user added to the admin's organization, with the role they hold there
+const memberInputSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.string().trim().min(1),
+});
+
 function toNumber(value: unknown, fallback = 0): number {
   const num = Number(value);
   return Number.isFinite(num) ? num : fallback;
 }
 
+function sumClaimLines(lines: ClaimLineInput[]): string {
+  return lines.reduce((total, line) => total + toNumber(line.fee) * (line.units ?? 1), 0).toFixed(2);
+}
+
+// Legacy `codes` summary kept alongside claim_lines for the AI assistant and iTrans payloads
+function summarizeClaimLines(lines: ClaimLineInput[]) {
+  return lines.map((line) => ({
+    code: line.procedureCode,
+    description: line.description || '',
+    amount: toNumber(line.fee) * (line.units ?? 1),
+  }));
+}
+
 function mapCodesToServices(codes: unknown, totalAmount: number): ItransService[] {
   if (!Array.isArray(codes) || codes.length === 0) {
     return [];
@@ -567,6 +775,7 @@ async function processItransAutoSubmitJob(job: ItransAutoSubmitJob): Promise<voi
     if (!claim) {
       throw new Error(`Claim ${job.claimId} no longer exists`);
     }
+    await assertAttachmentsSubmittable(claim.id);
 
     const workflowPayload = mapToItransWorkflowPayload({
       patientId: claim.patientId,
@@ -597,10 +806,13 @@ async function processItransAutoSubmitJob(job: ItransAutoSubmitJob): Promise<voi
     const requestIdHash =
       typeof responseBody?.requestIdHash === 'string' ? responseBody.requestIdHash : undefined;
 
-    await storage.updateClaim(claim.id, {
-      status: 'submitted',
-      externalId: requestId,
-      referenceNumber: requestIdHash || requestId,
+    await transitionClaimStatus(claim.id, 'submitted', {
+      source: 'connector',
+      reason: 'Auto-submitted to iTrans workflow',
+      updates: {
+        externalId: requestId,
+        referenceNumber: requestIdHash || requestId,
+      },
     });
 
     try {
@@ -644,7 +856,10 @@ async function processItransAutoSubmitJob(job: ItransAutoSubmitJob): Promise<voi
       persistItransAutoSubmitJobs();
       if (claim) {
         try {
-          await storage.updateClaim(claim.id, { status: 'pending' });
+          await transitionClaimStatus(claim.id, 'pending', {
+            source: 'connector',
+            reason: `iTrans auto-submit failed after ${job.attempt} attempts`,
+          });
           await storage.createAuditEvent({
             orgId: claim.orgId,
             actorUserId: claim.createdBy,
@@ -673,7 +888,10 @@ async function processItransAutoSubmitJob(job: ItransAutoSubmitJob): Promise<voi
     persistItransAutoSubmitJobs();
     if (claim) {
       try {
-        await storage.updateClaim(claim.id, { status: 'pending' });
+        await transitionClaimStatus(claim.id, 'pending', {
+          source: 'connector',
+          reason: `iTrans auto-submit retry scheduled (attempt ${job.attempt})`,
+        });
         await storage.createAuditEvent({
           orgId: claim.orgId,
           actorUserId: claim.createdBy,
@@ -840,6 +1058,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // SSO login endpoint (before regular auth middleware)
   app.post('/auth/sso', handleSSOLogin);
 
+  // SCIM directory provisioning (bearer-token auth, before regular auth middleware)
+  setupScim(app);
+
   // Health check routes (using enhanced health check functions)
   app.get('/health', healthCheck);
   app.get('/api/health', async (req, res) => {
@@ -1035,6 +1256,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Production mode - setup real auth
     try {
       await setupAuth(app);
+      setupFederatedAuth(app);
+      app.use('/api', enforceSessionPolicy);
     } catch (error) {
       console.error('Auth setup failed:', error);
       throw error;
@@ -1088,15 +1311,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Relay events can arrive out of order; a stale event that the state
+      // machine rejects is acknowledged and recorded instead of retried
+      let rejectedTransition: ReturnType<ClaimTransitionError['toJSON']> | undefined;
       const applyClaimStatus = async (nextStatus: 'submitted' | 'pending' | 'paid' | 'denied' | 'infoRequested') => {
         if (claim.status === nextStatus) {
           return;
         }
 
-        await storage.updateClaim(claim.id, {
-          status: nextStatus,
-          referenceNumber: payload.requestIdHash,
-        });
+        try {
+          await transitionClaimStatus(claim.id, nextStatus, {
+            source: 'webhook',
+            reason: `iTrans ${payload.eventType}`,
+            updates: { referenceNumber: payload.requestIdHash },
+          });
+        } catch (transitionError) {
+          if (transitionError instanceof ClaimTransitionError && transitionError.code === 'ILLEGAL_TRANSITION') {
+            console.warn('Ignoring out-of-order iTrans webhook status:', transitionError.message);
+            rejectedTransition = transitionError.toJSON();
+            return;
+          }
+          throw transitionError;
+        }
 
         try {
           const claimOwner = await storage.getUser(claim.createdBy);
@@ -1136,6 +1372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           eventType: payload.eventType,
           requestIdHash: payload.requestIdHash,
           claimId: claim.id,
+          ...(rejectedTransition ? { rejectedTransition } : {}),
         },
         ip: req.ip,
         userAgent: req.get('User-Agent') || 'itrans-relay',
@@ -1276,8 +1513,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Verify password using bcrypt
         const isValidPassword = await bcrypt.compare(password, user.passwordHash);
         if (isValidPassword) {
-          // For non-admin users, skip MFA requirement
-          if (user.role !== 'admin' || !user.mfaEnabled) {
+          // Same rule as SSO and federated sign-in: anyone with a second factor must use it
+          const { shouldRequireMFA } = await import('./security/mfa-auth');
+          if (!(await shouldRequireMFA(user.id))) {
             // Set up session for authenticated user
             req.user = {
               claims: {
@@ -1299,7 +1537,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               }
             });
           } else {
-            // Admin users with MFA enabled need additional verification
+            // Users with MFA enabled need additional verification
             return res.status(403).json({ 
               message: "MFA verification required",
               requiresMFA: true,
@@ -1346,7 +1584,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         role: 'admin' as const,
         orgId: demoOrg.id,
       });
-      return res.json(devUser);
+      return res.json(await describeSignedInUser(devUser, req.session?.activeOrgId));
     }
 
     // Production authentication flow
@@ -1357,7 +1595,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      if (!user) {
+        return res.json(user);
+      }
+      if (user.deactivatedAt) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      res.json(await describeSignedInUser(user, req.session?.activeOrgId));
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -1367,7 +1611,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Audit logging middleware
   const auditLog = async (req: any, type: string, details: any) => {
     if (req.user?.claims?.sub) {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (user?.orgId) {
         await storage.createAuditEvent({
           orgId: user.orgId,
@@ -1381,17 +1625,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
+  // Organization switcher: the active organization is kept on the session
+  app.post('/api/orgs/active', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const { orgId } = z.object({ orgId: z.string().uuid() }).parse(req.body ?? {});
+      const user = await storage.getUser(req.user.claims.sub);
+      const membership = user ? (await getMemberships(user)).find(candidate => candidate.orgId === orgId) : undefined;
+      if (!membership) {
+        return res.status(404).json({ message: "You are not a member of this organization" });
+      }
+      if (!req.session) {
+        return res.status(400).json({ message: "Switching organizations requires a signed-in session" });
+      }
+
+      req.session.activeOrgId = membership.orgId;
+      await storage.createAuditEvent({
+        orgId: membership.orgId,
+        actorUserId: req.user.claims.sub,
+        type: 'org_switched',
+        details: { role: membership.role },
+        ip: req.ip,
+        userAgent: req.get('User-Agent') || '',
+      });
+      res.json(membership);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error switching organization:", error);
+      res.status(500).json({ message: "Failed to switch organization" });
+    }
+  });
+
+  // Claims waiting on the user across every organization they belong to
+  app.get('/api/work-queue', devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      res.json(await getWorkQueue(user));
+    } catch (error) {
+      console.error("Error fetching work queue:", error);
+      res.status(500).json({ message: "Failed to fetch work queue" });
+    }
+  });
+
   // Dashboard API
   app.get('/api/dashboard/stats', async (req: any, res) => {
     try {
       // Development mode bypass
       if (process.env.NODE_ENV === 'development') {
         const devUser = await storage.getUser('dev-user-001');
-        const stats = await storage.getDashboardStats(devUser?.orgId || '11111111-1111-1111-1111-111111111111');
+        const devOrgId = devUser?.orgId || '11111111-1111-1111-1111-111111111111';
+        const stats = await storage.getDashboardStats(devOrgId);
         
         // Add job queue KPIs
         const { jobQueue } = await import('./lib/jobs');
-        const jobStats = await jobQueue.getStats();
+        const jobStats = await jobQueue.getStats(devOrgId);
         
         return res.json({
           ...stats,
@@ -1409,17 +1701,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
       const stats = await storage.getDashboardStats(user.orgId);
       
-      // Add job queue KPIs for admin users
-      if (user.role === 'admin') {
+      // Add job queue KPIs for users who manage the queue
+      if ((await resolvePermissions(user)).has('jobs:manage')) {
         const { jobQueue } = await import('./lib/jobs');
-        const jobStats = await jobQueue.getStats();
+        const jobStats = await jobQueue.getStats(user.orgId);
         
         return res.json({
           ...stats,
@@ -1559,7 +1851,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
@@ -1649,17 +1941,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     clearMFAVerification,
     logMFAEvent,
   } = await import('./security/mfa');
-
-  // Generate MFA setup (admin only)
+  const {
+    getRelyingParty,
+    storeChallenge,
+    takeChallenge,
+    generatePasskeyRegistrationOptions,
+    verifyPasskeyRegistration,
+    generatePasskeyAuthenticationOptions,
+    verifyPasskeyAuthentication,
+  } = await import('./security/webauthn');
+
+  // Generate MFA setup
   app.post('/api/auth/mfa/setup', devAuth(isAuthenticated), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "MFA setup is only available for admin users" });
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      // Check if MFA is already enabled
-      if (user.mfaEnabled) {
+      // Check if an authenticator app is already set up; passkeys can sit alongside one
+      const existingMFA = await storage.getUserMFA(user.id);
+      if (existingMFA?.mfaSecret) {
         return res.status(400).json({ message: "MFA is already enabled. Disable it first to set up again." });
       }
 
@@ -1683,10 +1985,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/auth/mfa/verify-setup', devAuth(isAuthenticated), async (req: any, res) => {
     try {
       const { code } = req.body;
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "MFA setup is only available for admin users" });
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
       if (!req.session.mfaSetupSecret || !req.session.mfaSetupBackupCodes) {
@@ -1717,7 +2019,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Set MFA as verified in session
       setMFAVerification(req.session);
 
-      await auditLog(req, 'mfa_enabled', { userId: user.id });
+      // A changed second factor signs the account out everywhere else
+      const sessionsEnded = await endOtherSessions(req, user.id);
+
+      await auditLog(req, 'mfa_enabled', { userId: user.id, sessionsEnded });
       logMFAEvent('mfa_verify', user.id, { success: true });
 
       res.json({ message: "MFA enabled successfully" });
@@ -1731,7 +2036,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/auth/mfa/verify', devAuth(isAuthenticated), async (req: any, res) => {
     try {
       const { code, backupCode } = req.body;
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       
       if (!user || !user.mfaEnabled) {
         return res.status(400).json({ message: "MFA is not enabled for this user" });
@@ -1814,7 +2119,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/auth/mfa/disable', devAuth(isAuthenticated), async (req: any, res) => {
     try {
       const { code } = req.body;
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       
       if (!user || !user.mfaEnabled) {
         return res.status(400).json({ message: "MFA is not enabled for this user" });
@@ -1832,19 +2137,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid verification code" });
       }
 
-      // Disable MFA
+      // Disable the authenticator app; MFA stays on while passkeys remain
+      const remainingPasskeys = await storage.getWebAuthnCredentials(user.id);
       await storage.updateUserMFA(user.id, {
         mfaSecret: null,
-        mfaEnabled: false,
+        mfaEnabled: remainingPasskeys.length > 0,
         mfaBackupCodes: null,
-        mfaEnforcedAt: null,
+        ...(remainingPasskeys.length === 0 ? { mfaEnforcedAt: null } : {}),
       });
 
       // Clear MFA verification from session
       clearMFAVerification(req.session);
+      const sessionsEnded = await endOtherSessions(req, user.id);
 
-      await auditLog(req, 'mfa_disabled', { userId: user.id });
-      logMFAEvent('mfa_disable', user.id, {});
+      await auditLog(req, 'mfa_disabled', { userId: user.id, method: 'totp', sessionsEnded });
+      logMFAEvent('mfa_disable', user.id, { method: 'totp' });
 
       res.json({ message: "MFA disabled successfully" });
     } catch (error) {
@@ -1857,7 +2164,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/auth/mfa/backup-codes', devAuth(isAuthenticated), async (req: any, res) => {
     try {
       const { code } = req.query;
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       
       if (!user || !user.mfaEnabled) {
         return res.status(400).json({ message: "MFA is not enabled for this user" });
@@ -1896,7 +2203,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/auth/mfa/regenerate-backup', devAuth(isAuthenticated), async (req: any, res) => {
     try {
       const { code } = req.body;
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       
       if (!user || !user.mfaEnabled) {
         return res.status(400).json({ message: "MFA is not enabled for this user" });
@@ -1937,10 +2244,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List the user's passkeys and security keys
+  app.get('/api/auth/mfa/webauthn/credentials', devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const credentials = await storage.getWebAuthnCredentials(user.id);
+      res.json(credentials.map(({ id, name, deviceType, backedUp, lastUsedAt, createdAt }) => ({
+        id, name, deviceType, backedUp, lastUsedAt, createdAt,
+      })));
+    } catch (error) {
+      console.error("Error fetching passkeys:", error);
+      res.status(500).json({ message: "Failed to fetch passkeys" });
+    }
+  });
+
+  // Start passkey registration
+  app.post('/api/auth/mfa/webauthn/register/options', devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const existing = await storage.getWebAuthnCredentials(user.id);
+      const options = await generatePasskeyRegistrationOptions(getRelyingParty(req), user, existing);
+      storeChallenge(req.session, 'register', user.id, options.challenge);
+
+      res.json(options);
+    } catch (error) {
+      console.error("Error starting passkey registration:", error);
+      res.status(500).json({ message: "Failed to start passkey registration" });
+    }
+  });
+
+  // Finish passkey registration; the first passkey turns MFA on
+  app.post('/api/auth/mfa/webauthn/register', devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const { name, response } = webauthnRegistrationSchema.parse(req.body);
+      const challenge = takeChallenge(req.session, 'register', user.id);
+      if (!challenge) {
+        return res.status(400).json({ message: "Passkey registration expired. Please try again." });
+      }
+
+      const verified = await verifyPasskeyRegistration(getRelyingParty(req), response, challenge);
+      if (!verified) {
+        logMFAEvent('mfa_failed', user.id, { method: 'webauthn', reason: 'registration_rejected' });
+        return res.status(400).json({ message: "Passkey could not be verified" });
+      }
+      if (await storage.getWebAuthnCredentialByCredentialId(verified.credentialId)) {
+        return res.status(409).json({ message: "This passkey is already registered" });
+      }
+
+      const credential = await storage.createWebAuthnCredential({ ...verified, userId: user.id, name });
+      if (!user.mfaEnabled) {
+        await storage.updateUserMFA(user.id, { mfaEnabled: true, mfaEnforcedAt: new Date() });
+      }
+      setMFAVerification(req.session);
+      const sessionsEnded = await endOtherSessions(req, user.id);
+
+      await auditLog(req, 'mfa_webauthn_registered', { userId: user.id, credentialId: credential.id, deviceType: credential.deviceType, sessionsEnded });
+      logMFAEvent('mfa_setup', user.id, { method: 'webauthn', credentialId: credential.id, deviceType: credential.deviceType });
+
+      res.status(201).json({
+        id: credential.id,
+        name: credential.name,
+        deviceType: credential.deviceType,
+        backedUp: credential.backedUp,
+        lastUsedAt: credential.lastUsedAt,
+        createdAt: credential.createdAt,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error registering passkey:", error);
+      res.status(500).json({ message: "Failed to register passkey" });
+    }
+  });
+
+  // Remove a passkey; removing the last second factor turns MFA off
+  app.delete('/api/auth/mfa/webauthn/credentials/:id', devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const deleted = await storage.deleteWebAuthnCredential(req.params.id, user.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Passkey not found" });
+      }
+
+      const remaining = await storage.getWebAuthnCredentials(user.id);
+      const mfaData = await storage.getUserMFA(user.id);
+      if (remaining.length === 0 && !mfaData?.mfaSecret) {
+        await storage.updateUserMFA(user.id, { mfaEnabled: false, mfaEnforcedAt: null });
+        clearMFAVerification(req.session);
+      }
+      const sessionsEnded = await endOtherSessions(req, user.id);
+
+      await auditLog(req, 'mfa_webauthn_removed', { userId: user.id, credentialId: deleted.id, sessionsEnded });
+      logMFAEvent('mfa_disable', user.id, { method: 'webauthn', credentialId: deleted.id, remainingPasskeys: remaining.length });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing passkey:", error);
+      res.status(500).json({ message: "Failed to remove passkey" });
+    }
+  });
+
   // Check MFA status for user
   app.get('/api/auth/mfa/status', devAuth(isAuthenticated), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user) {
         return res.status(401).json({ message: "User not found" });
       }
@@ -1982,10 +2407,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // MFA challenge endpoint (exchange TOTP + temp token for session)
+  // Second factors available for an MFA challenge, with assertion options when the user has passkeys
+  app.post('/api/auth/mfa/challenge/options', authLimiter, async (req: any, res) => {
+    try {
+      // Organization sign-ins keep the token in the session instead of the URL
+      const tempToken = req.body.tempToken ?? req.session.mfaTempToken;
+
+      const { verifyTempToken } = await import('./security/mfa-auth');
+      const { userId, valid } = verifyTempToken(tempToken);
+      if (!valid) {
+        return res.status(401).json({ message: "Invalid or expired token" });
+      }
+
+      const credentials = await storage.getWebAuthnCredentials(userId);
+      const mfaData = await storage.getUserMFA(userId);
+      let webauthn = null;
+      if (credentials.length > 0) {
+        webauthn = await generatePasskeyAuthenticationOptions(getRelyingParty(req), credentials);
+        storeChallenge(req.session, 'authenticate', userId, webauthn.challenge);
+      }
+
+      res.json({ totp: Boolean(mfaData?.mfaSecret), webauthn });
+    } catch (error) {
+      console.error("Error starting MFA challenge:", error);
+      res.status(500).json({ message: "Failed to start MFA challenge" });
+    }
+  });
+
+  // MFA challenge endpoint (exchange TOTP code or passkey assertion + temp token for session)
   app.post('/api/auth/mfa/challenge', authLimiter, async (req: any, res) => {
     try {
-      const { tempToken, code } = req.body;
+      const { code, webauthn } = req.body;
+      const tempToken = req.body.tempToken ?? req.session.mfaTempToken;
       
       // Import mfaAuth module
       const { verifyTempToken, verifyTOTP } = await import('./security/mfa-auth');
@@ -1996,10 +2449,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid or expired token" });
       }
       
-      // Verify TOTP code
-      const verified = await verifyTOTP(userId, code);
-      if (!verified) {
-        return res.status(401).json({ message: "Invalid verification code" });
+      // Passkeys and TOTP codes share one attempt budget per user
+      const method = webauthn ? 'webauthn' : 'totp';
+      const rateLimit = checkRateLimit(userId);
+      if (!rateLimit.allowed) {
+        logMFAEvent('mfa_failed', userId, { method, reason: 'rate_limit' });
+        return res.status(429).json({ message: "Too many attempts. Please try again later." });
+      }
+
+      if (webauthn) {
+        // Verify the passkey assertion against the challenge issued by /challenge/options
+        const assertion = webauthnAssertionSchema.safeParse(webauthn);
+        const challenge = takeChallenge(req.session, 'authenticate', userId);
+        const credential = assertion.success
+          ? await storage.getWebAuthnCredentialByCredentialId(assertion.data.id)
+          : undefined;
+        const result = assertion.success && challenge && credential?.userId === userId
+          ? await verifyPasskeyAuthentication(getRelyingParty(req), assertion.data, challenge, credential)
+          : { verified: false };
+        if (!result.verified || !credential) {
+          recordRateLimitAttempt(userId);
+          logMFAEvent('mfa_failed', userId, { method, reason: challenge ? 'invalid_assertion' : 'no_challenge' });
+          return res.status(401).json({ message: challenge ? "Passkey could not be verified" : "Passkey sign-in expired. Please try again." });
+        }
+        await storage.recordWebAuthnCredentialUse(credential.id, result.newCounter ?? credential.counter);
+      } else {
+        // Verify TOTP code
+        const verified = typeof code === 'string' && await verifyTOTP(userId, code);
+        if (!verified) {
+          recordRateLimitAttempt(userId);
+          logMFAEvent('mfa_failed', userId, { method });
+          return res.status(401).json({ message: "Invalid verification code" });
+        }
       }
       
       // Create authenticated session
@@ -2007,13 +2488,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (user.deactivatedAt) {
+        logMFAEvent('mfa_failed', userId, { method, reason: 'deactivated' });
+        return res.status(403).json({ message: "Account is deactivated" });
+      }
       
-      // Set session
+      // Sign in, then mark the new session as MFA verified
+      delete req.session.mfaTempToken;
+      await new Promise<void>((resolve, reject) =>
+        req.login(createSessionUser(user), (err: any) => (err ? reject(err) : resolve())));
       req.session.userId = userId;
       req.session.mfaVerified = true;
       setMFAVerification(req.session);
       
-      await auditLog(req, 'mfa_challenge_success', { userId });
+      await auditLog(req, 'mfa_challenge_success', { userId, method });
+      logMFAEvent('mfa_verify', userId, { success: true, method });
       
       res.json({ 
         message: "MFA verification successful",
@@ -2029,10 +2518,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The signed-in user's sessions
+  app.get('/api/auth/sessions', devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      res.json(await listUserSessions(user.id, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out everywhere except this browser
+  app.delete('/api/auth/sessions', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const sessionsEnded = await endOtherSessions(req, user.id);
+      await auditLog(req, 'sessions_revoked', { userId: user.id, sessionsEnded });
+
+      res.json({ success: true, sessionsEnded });
+    } catch (error) {
+      console.error("Error ending sessions:", error);
+      res.status(500).json({ message: "Failed to end sessions" });
+    }
+  });
+
+  app.delete('/api/auth/sessions/:id', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      if (!(await endUserSession(user.id, req.params.id))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await auditLog(req, 'session_revoked', { userId: user.id, sessionId: req.params.id });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error ending session:", error);
+      res.status(500).json({ message: "Failed to end session" });
+    }
+  });
+
+  // Change the password for email/password sign-in; other sessions are signed out
+  app.post('/api/auth/password', authLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body ?? {});
+      if (!user.passwordHash) {
+        return res.status(400).json({ message: "This account signs in without a password" });
+      }
+      if (!(await bcrypt.compare(currentPassword, user.passwordHash))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { passwordHash: await bcrypt.hash(newPassword, 12) });
+      const sessionsEnded = await endOtherSessions(req, user.id);
+      await auditLog(req, 'password_changed', { userId: user.id, sessionsEnded });
+
+      res.json({ success: true, sessionsEnded });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
   // Background sync endpoint for periodic updates
-  app.get('/api/claims/updates', devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/claims/updates', devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
@@ -2041,7 +2612,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sinceDate = since ? new Date(since as string) : new Date(Date.now() - 15 * 60 * 1000); // Default to last 15 minutes
 
       // Get claims that have been updated since the specified time
-      const claims = await storage.getClaims(user.orgId, user.id, user.role);
+      const claims = await storage.getClaims(user.orgId, hasPermission(req, 'claims:read:all') ? undefined : user.id);
       const recentlyUpdated = claims.filter(claim => 
         claim.updatedAt && new Date(claim.updatedAt) > sinceDate
       );
@@ -2058,14 +2629,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Claims API
-  app.get('/api/claims', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/claims', apiLimiter, devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const claims = await storage.getClaims(user.orgId, user.id, user.role);
+      const claims = await storage.getClaims(user.orgId, hasPermission(req, 'claims:read:all') ? undefined : user.id);
       res.json(claims);
     } catch (error) {
       console.error("Error fetching claims:", error);
@@ -2073,11 +2644,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/claims/:id', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/claims/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
     try {
       // Check if the ID is "new" - return empty claim structure for new claim creation
       if (req.params.id === 'new') {
-        const user = await storage.getUser(req.user.claims.sub);
+        const user = await getRequestUser(req);
         if (!user?.orgId) {
           return res.status(400).json({ message: "User not associated with organization" });
         }
@@ -2093,7 +2664,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           codes: [],
           notes: '',
           status: 'draft',
-          attachments: []
+          attachments: [],
+          lines: []
         });
       }
       
@@ -2103,67 +2675,303 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Claim not found" });
       }
 
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId || claim.orgId !== user.orgId) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Role-based access check
-      if (user.role === 'provider' && claim.createdBy !== user.id) {
+      if (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const attachments = await storage.getAttachments(claim.id);
-      res.json({ ...claim, attachments });
+      const [attachments, lines] = await Promise.all([
+        storage.getAttachments(claim.id),
+        storage.getClaimLines(claim.id),
+      ]);
+      res.json({ ...claim, attachments, lines });
     } catch (error) {
       console.error("Error fetching claim:", error);
       res.status(500).json({ message: "Failed to fetch claim" });
     }
   });
 
-  app.post('/api/claims', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/claims/:id/history', apiLimiter, devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.orgId) {
-        return res.status(400).json({ message: "User not associated with organization" });
+      const claim = await storage.getClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
       }
 
-      const validatedData = insertClaimSchema.parse({
-        ...req.body,
-        orgId: user.orgId,
-        createdBy: user.id,
-      });
+      const user = await getRequestUser(req);
+      if (!user?.orgId || claim.orgId !== user.orgId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      const claim = await storage.createClaim(validatedData);
-      
-      await auditLog(req, 'claim_created', { claimId: claim.id, type: claim.type });
+      const history = await storage.getClaimStatusHistory(claim.id);
 
-      const autoSubmitEnabled = process.env.ITRANS_AUTO_SUBMIT_ENABLED === 'true';
-      if (!autoSubmitEnabled) {
-        return res.status(201).json(claim);
+      // Resolve actor names once per user
+      const actorIds = Array.from(new Set(history.map(entry => entry.actorUserId).filter((id): id is string => !!id)));
+      const actors = new Map<string, string>();
+      for (const actorId of actorIds) {
+        const actor = await storage.getUser(actorId);
+        if (actor) {
+          actors.set(actorId, [actor.firstName, actor.lastName].filter(Boolean).join(' ') || actor.email || 'Unknown user');
+        }
       }
 
-      try {
-        const job = enqueueItransAutoSubmitJob({
-          id: claim.id,
-          orgId: claim.orgId,
-          type: claim.type,
-        });
-        const pendingClaim = await storage.updateClaim(claim.id, { status: 'pending' });
+      res.json(history.map(entry => ({
+        ...entry,
+        actorName: entry.actorUserId ? actors.get(entry.actorUserId) ?? null : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching claim status history:", error);
+      res.status(500).json({ message: "Failed to fetch claim status history" });
+    }
+  });
 
-        await auditLog(req, 'itrans_workflow_auto_submit_queued', {
-          target: getItransApiBaseUrl(),
-          claimId: claim.id,
-          jobId: job.jobId,
-          state: job.state,
-          attempt: job.attempt,
-          maxAttempts: job.maxAttempts,
-        });
+  // Every claim linked to this one through resubmissions, adjustments and reversals
+  app.get('/api/claims/:id/chain', apiLimiter, devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
+    try {
+      const claim = await storage.getClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
 
-        return res.status(201).json({
-          ...(pendingClaim || claim),
-          itransSubmission: {
-            status: job.state,
+      const user = await getRequestUser(req);
+      if (!user?.orgId || claim.orgId !== user.orgId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const chain = await getClaimChain(claim.id);
+      res.json(chain.filter(linked => linked.orgId === user.orgId));
+    } catch (error) {
+      console.error("Error fetching claim chain:", error);
+      res.status(500).json({ message: "Failed to fetch claim chain" });
+    }
+  });
+
+  app.post('/api/claims/:id/resubmit', connectorLimiter, devAuth(isAuthenticated), requirePermission('claims:submit'), async (req: any, res) => {
+    try {
+      const claim = await storage.getClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId || claim.orgId !== user.orgId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const body = z.object({
+        reason: z.string().max(500).optional(),
+        notes: z.string().nullable().optional(),
+        lines: z.array(claimLineInputSchema).min(1).optional(),
+      }).parse(req.body ?? {});
+
+      const { original, claim: resubmission, jobId } = await resubmitClaim(claim.id, {
+        actorUserId: user.id,
+        reason: body.reason,
+        changes: {
+          notes: body.notes,
+          ...(body.lines && {
+            lines: body.lines,
+            amount: sumClaimLines(body.lines),
+            codes: summarizeClaimLines(body.lines),
+          }),
+        },
+      });
+
+      await auditLog(req, 'claim_resubmitted', {
+        claimId: original.id,
+        childClaimId: resubmission.id,
+        relation: resubmission.relation,
+        jobId,
+      });
+
+      res.status(201).json({ ...resubmission, jobId });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ClaimAmendmentError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof ClaimScrubError) {
+        return res.status(422).json({ message: error.message, code: error.code, findings: error.findings });
+      }
+      if (error instanceof AttachmentError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
+      console.error("Error resubmitting claim:", error);
+      res.status(500).json({ message: "Failed to resubmit claim" });
+    }
+  });
+
+  app.post('/api/claims/:id/reverse', connectorLimiter, devAuth(isAuthenticated), requirePermission('claims:reverse'), async (req: any, res) => {
+    try {
+      const claim = await storage.getClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId || claim.orgId !== user.orgId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { reason } = z.object({ reason: z.string().trim().min(1).max(500) }).parse(req.body ?? {});
+
+      const { original, claim: reversal, result } = await reverseClaim(claim.id, {
+        actorUserId: user.id,
+        reason,
+      });
+
+      await auditLog(req, 'claim_reversed', {
+        claimId: original.id,
+        childClaimId: reversal.id,
+        externalId: result.externalId,
+        connectorStatus: result.status,
+        reason,
+      });
+
+      if (result.status !== 'submitted') {
+        return res.status(502).json({ message: result.message || "Insurer rejected the reversal", claim: reversal });
+      }
+      res.status(201).json(reversal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ClaimAmendmentError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof ClaimTransitionError) {
+        return res.status(409).json({ message: error.message, transition: error.toJSON() });
+      }
+      if (error instanceof ConnectorError) {
+        return res.status(502).json({ message: error.message, code: error.code });
+      }
+      console.error("Error reversing claim:", error);
+      res.status(500).json({ message: "Failed to reverse claim" });
+    }
+  });
+
+  // Legal holds keep a claim and its records out of retention purges
+  app.put('/api/claims/:id/legal-hold', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const claim = await storage.getClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId || claim.orgId !== user.orgId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { legalHold, reason } = legalHoldSchema.parse(req.body ?? {});
+      const updated = await storage.setClaimLegalHold(claim.id, { legalHold, legalHoldReason: legalHold ? reason ?? null : null });
+      await auditLog(req, legalHold ? 'claim_legal_hold_set' : 'claim_legal_hold_released', { claimId: claim.id, reason });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating legal hold:", error);
+      res.status(500).json({ message: "Failed to update legal hold" });
+    }
+  });
+
+  app.post('/api/claims', apiLimiter, devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { lines: rawLines, ...claimBody } = req.body;
+      const lines = z.array(claimLineInputSchema).parse(rawLines ?? []);
+
+      const validatedData = {
+        ...claimCreateSchema.parse({
+          ...claimBody,
+          ...(lines.length > 0 && {
+            amount: sumClaimLines(lines),
+            codes: claimBody.codes ?? summarizeClaimLines(lines),
+          }),
+          orgId: user.orgId,
+          createdBy: user.id,
+        }),
+        status: 'draft' as const,
+      };
+
+      if (validatedData.appointmentId) {
+        const appointment = await storage.getAppointment(validatedData.appointmentId);
+        if (!appointment || appointment.orgId !== user.orgId) {
+          return res.status(400).json({ message: "Appointment not found" });
+        }
+      }
+
+      const claim = await storage.createClaim(validatedData);
+      if (lines.length > 0) {
+        await storage.replaceClaimLines(claim.id, lines);
+      }
+      
+      await auditLog(req, 'claim_created', { claimId: claim.id, type: claim.type });
+
+      const scrub = await scrubSavedClaim(claim);
+      const autoSubmitEnabled = process.env.ITRANS_AUTO_SUBMIT_ENABLED === 'true';
+      if (!autoSubmitEnabled) {
+        return res.status(201).json({ ...claim, scrub });
+      }
+      if (!scrub.canSubmit) {
+        return res.status(201).json({
+          ...claim,
+          scrub,
+          itransSubmission: {
+            status: 'failed',
+            queued: false,
+            error: new ClaimScrubError(scrub.findings).message,
+          },
+        });
+      }
+
+      try {
+        const job = enqueueItransAutoSubmitJob({
+          id: claim.id,
+          orgId: claim.orgId,
+          type: claim.type,
+        });
+        const pendingClaim = await transitionClaimStatus(claim.id, 'pending', {
+          source: 'user',
+          actorUserId: claim.createdBy,
+          reason: 'Queued for iTrans auto-submit',
+        });
+
+        await auditLog(req, 'itrans_workflow_auto_submit_queued', {
+          target: getItransApiBaseUrl(),
+          claimId: claim.id,
+          jobId: job.jobId,
+          state: job.state,
+          attempt: job.attempt,
+          maxAttempts: job.maxAttempts,
+        });
+
+        return res.status(201).json({
+          ...(pendingClaim || claim),
+          scrub,
+          itransSubmission: {
+            status: job.state,
             queued: true,
             jobId: job.jobId,
             attempt: job.attempt,
@@ -2178,6 +2986,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         return res.status(201).json({
           ...claim,
+          scrub,
           itransSubmission: {
             status: 'failed_to_queue',
             queued: false,
@@ -2194,20 +3003,249 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/claims/:id', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  // Claim scrubbing: the wizard checks a draft before it is saved
+  const claimScrubDraftSchema = z.object({
+    patientId: z.string().uuid(),
+    providerId: z.string().uuid(),
+    insurerId: z.string().uuid(),
+    type: z.enum(claimTypeEnum.enumValues).default('claim'),
+    lines: z.array(claimLineInputSchema).min(1),
+    attachmentIds: z.array(z.string()).max(50).default([]),
+  });
+
+  app.post('/api/claims/scrub', apiLimiter, devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const draft = claimScrubDraftSchema.parse(req.body);
+      const result = await scrubClaim({
+        orgId: user.orgId,
+        patientId: draft.patientId,
+        providerId: draft.providerId,
+        insurerId: draft.insurerId,
+        type: draft.type,
+        amount: Number(sumClaimLines(draft.lines)),
+        lines: draft.lines.map((line, index) => ({
+          lineNumber: index + 1,
+          procedureCode: line.procedureCode,
+          units: line.units ?? 1,
+          serviceDate: line.serviceDate ?? null,
+        })),
+        attachmentCount: draft.attachmentIds.length,
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error scrubbing claim:", error);
+      res.status(500).json({ message: "Failed to check claim" });
+    }
+  });
+
+  // Scrubbing rules: the built-in ones are read-only, organizations add their own
+  app.get('/api/claim-rules', devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      res.json({ builtIn: BUILT_IN_SCRUB_RULES, rules: await storage.getClaimScrubRules(user.orgId) });
+    } catch (error) {
+      console.error("Error fetching claim rules:", error);
+      res.status(500).json({ message: "Failed to fetch claim rules" });
+    }
+  });
+
+  const validateRuleScope = (scope: z.infer<typeof claimScrubScopeSchema> | null | undefined, insurers: Array<{ id: string }>) => {
+    const unknown = scope?.insurerIds?.filter(id => !insurers.some(insurer => insurer.id === id)) ?? [];
+    if (unknown.length > 0) {
+      throw new z.ZodError([{ code: 'custom', path: ['scope', 'insurerIds'], message: `Unknown insurer: ${unknown.join(', ')}` }]);
+    }
+  };
+
+  app.post('/api/claim-rules', devAuth(isAuthenticated), requirePermission('claims:rules:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const input = claimScrubRuleInputSchema.parse(req.body);
+      validateRuleScope(input.scope, await storage.getInsurers());
+      const rule = await storage.createClaimScrubRule({ ...input, orgId: user.orgId, createdBy: user.id });
+      await auditLog(req, 'claim_rule_created', { ruleId: rule.id, kind: rule.condition.kind, severity: rule.severity });
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating claim rule:", error);
+      res.status(500).json({ message: "Failed to create claim rule" });
+    }
+  });
+
+  app.patch('/api/claim-rules/:id', devAuth(isAuthenticated), requirePermission('claims:rules:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getClaimScrubRule(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+
+      const updates = claimScrubRuleInputSchema.partial().parse(req.body);
+      validateRuleScope(updates.scope, await storage.getInsurers());
+      const rule = await storage.updateClaimScrubRule(existing.id, updates);
+      await auditLog(req, 'claim_rule_updated', { ruleId: existing.id, fields: Object.keys(updates) });
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating claim rule:", error);
+      res.status(500).json({ message: "Failed to update claim rule" });
+    }
+  });
+
+  app.delete('/api/claim-rules/:id', devAuth(isAuthenticated), requirePermission('claims:rules:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getClaimScrubRule(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+
+      await storage.deleteClaimScrubRule(existing.id);
+      await auditLog(req, 'claim_rule_deleted', { ruleId: existing.id, name: existing.name });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting claim rule:", error);
+      res.status(500).json({ message: "Failed to delete claim rule" });
+    }
+  });
+
+  // Bulk import from practice-management exports; the preview is a dry run that writes nothing
+  app.post('/api/claims/import/preview', uploadLimiter, devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { format, content, mapping } = claimImportSchema.parse(req.body ?? {});
+      const preview = await previewClaimImport({
+        orgId: user.orgId,
+        userId: user.id,
+        format,
+        content,
+        mapping: mapping as ColumnMapping | undefined,
+      });
+      res.json({ ...preview, fields: CLAIM_IMPORT_FIELDS });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ClaimImportError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+      console.error("Error previewing claim import:", error);
+      res.status(500).json({ message: "Failed to read claim import file" });
+    }
+  });
+
+  app.post('/api/claims/import', uploadLimiter, devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { format, content, mapping, fileName } = claimImportSchema.parse(req.body ?? {});
+      const { created, skipped } = await commitClaimImport({
+        orgId: user.orgId,
+        userId: user.id,
+        format,
+        content,
+        mapping: mapping as ColumnMapping | undefined,
+      });
+
+      await auditLog(req, 'claims_imported', {
+        fileName,
+        format,
+        claimIds: created.map(({ claim }) => claim.id),
+        skipped: skipped.length,
+      });
+
+      res.status(201).json({
+        created: created.map(({ claim, key, connector }) => ({ key, connector, claim })),
+        skipped,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ClaimImportError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+      console.error("Error importing claims:", error);
+      res.status(500).json({ message: "Failed to import claims" });
+    }
+  });
+
+  app.patch('/api/claims/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
     try {
       const claim = await storage.getClaim(req.params.id);
       if (!claim) {
         return res.status(404).json({ message: "Claim not found" });
       }
 
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId || claim.orgId !== user.orgId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
+      const { lines: rawLines, status: rawStatus, statusReason, ...rawUpdates } = req.body;
+      const updates: ClaimUpdate = claimUpdateSchema.parse(rawUpdates);
+      const lines = rawLines === undefined ? undefined : z.array(claimLineInputSchema).parse(rawLines);
       const oldStatus = claim.status;
-      const updatedClaim = await storage.updateClaim(req.params.id, req.body);
+      const nextStatus = rawStatus === undefined
+        ? undefined
+        : z.enum(claimStatusEnum.enumValues).parse(rawStatus);
+
+      // Everything is checked before the first write
+      if (nextStatus === 'reversed' && claim.status !== 'reversed') {
+        return res.status(409).json({ message: "Claims are reversed through POST /api/claims/:id/reverse" });
+      }
+      if (nextStatus && !canUserTransition(claim.status, nextStatus)) {
+        return res.status(409).json({
+          message: `Claims cannot be moved from ${claim.status} to ${nextStatus} by hand`,
+          allowed: USER_STATUS_TRANSITIONS[claim.status],
+        });
+      }
+      if (lines && claim.status !== 'draft') {
+        return res.status(409).json({ message: "Service lines can only be changed on draft claims" });
+      }
+
+      if (lines) {
+        await storage.replaceClaimLines(claim.id, lines);
+        updates.amount = sumClaimLines(lines);
+        updates.codes = summarizeClaimLines(lines);
+      }
+      const updatedClaim = nextStatus
+        ? await transitionClaimStatus(claim.id, nextStatus, {
+            source: 'user',
+            actorUserId: user.id,
+            reason: typeof statusReason === 'string' ? statusReason : null,
+            updates,
+          })
+        : await storage.updateClaim(req.params.id, updates);
       
       // Send push notification if status changed to specific statuses
       if (req.body.status && req.body.status !== oldStatus) {
@@ -2233,6 +3271,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedClaim);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ClaimTransitionError) {
+        return res.status(409).json({ message: error.message, transition: error.toJSON() });
+      }
       console.error("Error updating claim:", error);
       res.status(500).json({ message: "Failed to update claim" });
     }
@@ -2240,7 +3284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/itrans/auto-submit/queue', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
@@ -2353,14 +3397,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const payload = mapToItransWorkflowPayload(req.body);
       payload.offchainPayload.type = 'claim';
+      // Requests made from a claim carry its id
+      if (payload.externalRequestId && z.string().uuid().safeParse(payload.externalRequestId).success) {
+        await assertAttachmentsSubmittable(payload.externalRequestId);
+      }
       const { status, responseBody } = await forwardToItrans("POST", "/workflow/claims", payload);
 
       if (status >= 200 && status < 300 && payload.externalRequestId) {
-        await storage.updateClaim(payload.externalRequestId, {
-          status: 'submitted',
-          externalId: String(responseBody?.requestId || payload.externalRequestId),
-          referenceNumber: String(responseBody?.requestIdHash || responseBody?.requestId || payload.externalRequestId),
-        });
+        await markWorkflowRequestSubmitted(payload.externalRequestId, req.user?.claims?.sub, responseBody);
       }
 
       await auditLog(req, 'itrans_workflow_claim_submitted', {
@@ -2371,6 +3415,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       return res.status(status).json(responseBody);
     } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(409).json({ message: error.message, transition: error.toJSON() });
+      }
+      if (error instanceof AttachmentError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
       console.error("Error forwarding workflow claim to iTrans:", error);
       return res.status(502).json({
         message: "Failed to submit workflow claim to iTrans",
@@ -2386,11 +3436,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { status, responseBody } = await forwardToItrans("POST", "/workflow/preauths", payload);
 
       if (status >= 200 && status < 300 && payload.externalRequestId) {
-        await storage.updateClaim(payload.externalRequestId, {
-          status: 'submitted',
-          externalId: String(responseBody?.requestId || payload.externalRequestId),
-          referenceNumber: String(responseBody?.requestIdHash || responseBody?.requestId || payload.externalRequestId),
-        });
+        await markWorkflowRequestSubmitted(payload.externalRequestId, req.user?.claims?.sub, responseBody);
       }
 
       await auditLog(req, 'itrans_workflow_preauth_submitted', {
@@ -2401,6 +3447,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       return res.status(status).json(responseBody);
     } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(409).json({ message: error.message, transition: error.toJSON() });
+      }
       console.error("Error forwarding workflow preauth to iTrans:", error);
       return res.status(502).json({
         message: "Failed to submit workflow preauth to iTrans",
@@ -2423,14 +3472,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Patients API
-  app.get('/api/patients', devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/patients', devAuth(isAuthenticated), requirePermission('patients:read'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const patients = await storage.getPatients(user.orgId);
+      const patients = await storage.getPatients(user.orgId, { includeArchived: req.query.includeArchived === 'true' });
       res.json(patients);
     } catch (error) {
       console.error("Error fetching patients:", error);
@@ -2438,553 +3487,2195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Providers API
-  app.get('/api/providers', devAuth(isAuthenticated), async (req: any, res) => {
+  // Match contact details against existing patients; sent as a POST so PHI stays out of URLs
+  app.post('/api/patients/check-duplicates', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const providers = await storage.getProviders(user.orgId);
-      res.json(providers);
+      const { excludeId, ...contact } = duplicateCheckSchema.parse(req.body ?? {});
+      const duplicates = await findDuplicatePatients(user.orgId, contact, excludeId);
+      res.json({ duplicates });
     } catch (error) {
-      console.error("Error fetching providers:", error);
-      res.status(500).json({ message: "Failed to fetch providers" });
-    }
-  });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error checking patient duplicates:", error);
+      res.status(500).json({ message: "Failed to check for duplicate patients" });
+    }
+  });
 
-  // Insurers API - temporarily public for development
-  app.get('/api/insurers', async (req: any, res) => {
+  app.get('/api/patients/:id', devAuth(isAuthenticated), requirePermission('patients:read'), async (req: any, res) => {
     try {
-      const insurers = await storage.getInsurers();
-      res.json(insurers);
+      const user = await getRequestUser(req);
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient || !user?.orgId || patient.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
     } catch (error) {
-      console.error("Error fetching insurers:", error);
-      res.status(500).json({ message: "Failed to fetch insurers" });
+      console.error("Error fetching patient:", error);
+      res.status(500).json({ message: "Failed to fetch patient" });
     }
   });
 
-  // File upload endpoints
-  app.post('/api/objects/upload', uploadLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.post('/api/patients', apiLimiter, devAuth(isAuthenticated), requirePermission('patients:write'), async (req: any, res) => {
     try {
-      const objectStorageService = new ObjectStorageService();
-      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
-      res.json({ uploadURL });
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { allowDuplicate, ...data } = patientInputSchema
+        .extend({ allowDuplicate: z.boolean().optional() })
+        .parse(req.body ?? {});
+
+      const duplicates = await findDuplicatePatients(user.orgId, data);
+      if (duplicates.length > 0 && !allowDuplicate) {
+        return res.status(409).json({ message: "A patient with the same email or phone number already exists", duplicates });
+      }
+
+      const patient = await storage.createPatient({ ...data, orgId: user.orgId });
+      await auditLog(req, 'patient_created', {
+        patientId: patient.id,
+        duplicateOf: duplicates.map(duplicate => duplicate.id),
+      });
+      res.status(201).json(patient);
     } catch (error) {
-      console.error("Error getting upload URL:", error);
-      res.status(500).json({ message: "Failed to get upload URL" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating patient:", error);
+      res.status(500).json({ message: "Failed to create patient" });
     }
   });
 
-  app.post('/api/attachments', uploadLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.patch('/api/patients/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('patients:write'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
+      const existing = await storage.getPatient(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const { allowDuplicate, ...updates } = patientInputSchema
+        .partial()
+        .extend({ allowDuplicate: z.boolean().optional() })
+        .parse(req.body ?? {});
+
+      const duplicates = await findDuplicatePatients(user.orgId, updates, existing.id);
+      if (duplicates.length > 0 && !allowDuplicate) {
+        return res.status(409).json({ message: "A patient with the same email or phone number already exists", duplicates });
+      }
+
+      const patient = await storage.updatePatient(existing.id, updates);
+      await auditLog(req, 'patient_updated', { patientId: existing.id, fields: Object.keys(updates) });
+      res.json(patient);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating patient:", error);
+      res.status(500).json({ message: "Failed to update patient" });
+    }
+  });
+
+  // Archived patients drop out of pickers but keep their claims and history
+  app.post('/api/patients/:id/:action(archive|restore)', apiLimiter, devAuth(isAuthenticated), requirePermission('patients:archive'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getPatient(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const archive = req.params.action === 'archive';
+      const patient = await storage.updatePatient(existing.id, { archivedAt: archive ? new Date() : null });
+      await auditLog(req, archive ? 'patient_archived' : 'patient_restored', { patientId: existing.id });
+      res.json(patient);
+    } catch (error) {
+      console.error("Error archiving patient:", error);
+      res.status(500).json({ message: "Failed to update patient" });
+    }
+  });
+
+  // Providers API
+  app.get('/api/providers', devAuth(isAuthenticated), requirePermission('providers:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const validatedData = insertAttachmentSchema.parse(req.body);
-      const attachment = await storage.createAttachment(validatedData);
+      const providers = await storage.getProviders(user.orgId, { includeArchived: req.query.includeArchived === 'true' });
+      res.json(providers);
+    } catch (error) {
+      console.error("Error fetching providers:", error);
+      res.status(500).json({ message: "Failed to fetch providers" });
+    }
+  });
 
-      // Set ACL policy for the uploaded file
-      if (req.body.url) {
-        const objectStorageService = new ObjectStorageService();
-        await objectStorageService.trySetObjectEntityAclPolicy(req.body.url, {
-          owner: user.id,
-          visibility: "private",
-        });
+  app.post('/api/providers/check-duplicates', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      await auditLog(req, 'attachment_created', { attachmentId: attachment.id, claimId: attachment.claimId });
-
-      res.status(201).json(attachment);
+      const { excludeId, ...contact } = duplicateCheckSchema.parse(req.body ?? {});
+      const duplicates = await findDuplicateProviders(user.orgId, contact, excludeId);
+      res.json({ duplicates });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error creating attachment:", error);
-      res.status(500).json({ message: "Failed to create attachment" });
+      console.error("Error checking provider duplicates:", error);
+      res.status(500).json({ message: "Failed to check for duplicate providers" });
     }
   });
 
-  // AI Assistant endpoints
-  const { aiAssistant } = await import('./ai-assistant');
-
-  // Analyze medical document for claim data extraction
-  app.post('/api/ai/analyze-document', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/providers/:id', devAuth(isAuthenticated), requirePermission('providers:read'), async (req: any, res) => {
     try {
-      const { documentText } = req.body;
-      if (!documentText) {
-        return res.status(400).json({ message: "Document text is required" });
+      const user = await getRequestUser(req);
+      const provider = await storage.getProvider(req.params.id);
+      if (!provider || !user?.orgId || provider.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Provider not found" });
       }
+      res.json(provider);
+    } catch (error) {
+      console.error("Error fetching provider:", error);
+      res.status(500).json({ message: "Failed to fetch provider" });
+    }
+  });
 
-      const user = await storage.getUser(req.user.claims.sub);
+  app.post('/api/providers', apiLimiter, devAuth(isAuthenticated), requirePermission('providers:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const startTime = Date.now();
-      const analysis = await aiAssistant.analyzeDocument(documentText);
-      const responseTime = Date.now() - startTime;
+      const { allowDuplicate, ...data } = providerInputSchema
+        .extend({ allowDuplicate: z.boolean().optional() })
+        .parse(req.body ?? {});
 
-      // Track AI usage
-      await storage.trackAiUsage({
-        userId: user.id,
+      const duplicates = await findDuplicateProviders(user.orgId, data);
+      if (duplicates.length > 0 && !allowDuplicate) {
+        return res.status(409).json({ message: "A provider with the same email or phone number already exists", duplicates });
+      }
+
+      const provider = await storage.createProvider({
+        ...data,
         orgId: user.orgId,
-        featureType: 'document_analysis',
-        tokensUsed: analysis.tokensUsed || 0,
-        responseTime,
-        context: { documentLength: documentText.length }
+        licenceNumber: primaryLicenceNumber(data.discipline, data.licences) ?? data.licenceNumber,
+      });
+      await auditLog(req, 'provider_created', {
+        providerId: provider.id,
+        duplicateOf: duplicates.map(duplicate => duplicate.id),
       });
+      res.status(201).json(provider);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating provider:", error);
+      res.status(500).json({ message: "Failed to create provider" });
+    }
+  });
 
-      res.json(analysis);
+  app.patch('/api/providers/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('providers:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getProvider(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+
+      const { allowDuplicate, ...updates } = providerInputSchema
+        .partial()
+        .extend({ allowDuplicate: z.boolean().optional() })
+        .parse(req.body ?? {});
+
+      const duplicates = await findDuplicateProviders(user.orgId, updates, existing.id);
+      if (duplicates.length > 0 && !allowDuplicate) {
+        return res.status(409).json({ message: "A provider with the same email or phone number already exists", duplicates });
+      }
+
+      // Claims carry the licence for the provider's discipline, so keep it in step with the licence list
+      if (updates.licences !== undefined || updates.discipline !== undefined) {
+        const licenceNumber = primaryLicenceNumber(
+          updates.discipline !== undefined ? updates.discipline : existing.discipline,
+          updates.licences !== undefined ? updates.licences : existing.licences
+        );
+        if (licenceNumber) {
+          updates.licenceNumber = licenceNumber;
+        }
+      }
+
+      const provider = await storage.updateProvider(existing.id, updates);
+      await auditLog(req, 'provider_updated', { providerId: existing.id, fields: Object.keys(updates) });
+      res.json(provider);
     } catch (error) {
-      logger.error('Document analysis API error', { error });
-      res.status(500).json({ 
-        message: "Failed to analyze document",
-        fallback: true 
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating provider:", error);
+      res.status(500).json({ message: "Failed to update provider" });
     }
   });
 
-  // Suggest ICD-10 codes based on diagnosis
-  app.post('/api/ai/suggest-codes', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.post('/api/providers/:id/:action(archive|restore)', apiLimiter, devAuth(isAuthenticated), requirePermission('providers:manage'), async (req: any, res) => {
     try {
-      const { diagnosis, symptoms } = req.body;
-      if (!diagnosis) {
-        return res.status(400).json({ message: "Diagnosis is required" });
+      const user = await getRequestUser(req);
+      const existing = await storage.getProvider(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Provider not found" });
       }
 
-      const user = await storage.getUser(req.user.claims.sub);
+      const archive = req.params.action === 'archive';
+      const provider = await storage.updateProvider(existing.id, { archivedAt: archive ? new Date() : null });
+      await auditLog(req, archive ? 'provider_archived' : 'provider_restored', { providerId: existing.id });
+      res.json(provider);
+    } catch (error) {
+      console.error("Error archiving provider:", error);
+      res.status(500).json({ message: "Failed to update provider" });
+    }
+  });
+
+  // Appointments API - scheduled visits; completed visits are billed through claims.appointmentId
+  app.get('/api/appointments', devAuth(isAuthenticated), requirePermission('appointments:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const startTime = Date.now();
-      const suggestions = await aiAssistant.suggestICD10Codes(diagnosis, symptoms);
-      const responseTime = Date.now() - startTime;
+      const filter = appointmentQuerySchema.parse(req.query);
+      const appointments = await storage.getAppointments(user.orgId, filter);
+      res.json(appointments);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
 
-      // Track AI usage
-      await storage.trackAiUsage({
-        userId: user.id,
-        orgId: user.orgId,
-        featureType: 'code_suggestion',
-        tokensUsed: suggestions.tokensUsed || 0,
-        responseTime,
-        context: { diagnosis, symptomsCount: symptoms?.length || 0 }
-      });
+  // Completed visits with no claim yet; defaults to the last 24 hours
+  app.get('/api/appointments/unbilled', devAuth(isAuthenticated), requirePermission('appointments:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
 
-      res.json(suggestions);
+      const { from, to } = appointmentQuerySchema.parse(req.query);
+      const end = to ?? new Date();
+      const start = from ?? new Date(end.getTime() - 24 * 60 * 60 * 1000);
+      const appointments = await getUnbilledAppointments(user.orgId, { from: start, to: end });
+      res.json({ from: start, to: end, appointments });
     } catch (error) {
-      logger.error('Code suggestion API error', { error });
-      res.status(500).json({ 
-        message: "Failed to suggest codes",
-        fallback: true 
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error fetching unbilled appointments:", error);
+      res.status(500).json({ message: "Failed to fetch unbilled appointments" });
     }
   });
 
-  // Validate claim before submission
-  app.post('/api/ai/validate-claim', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/appointments/:id', devAuth(isAuthenticated), requirePermission('appointments:read'), async (req: any, res) => {
     try {
-      const { claimData } = req.body;
-      if (!claimData) {
-        return res.status(400).json({ message: "Claim data is required" });
+      const user = await getRequestUser(req);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !user?.orgId || appointment.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Appointment not found" });
       }
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error fetching appointment:", error);
+      res.status(500).json({ message: "Failed to fetch appointment" });
+    }
+  });
 
-      const user = await storage.getUser(req.user.claims.sub);
+  app.post('/api/appointments', apiLimiter, devAuth(isAuthenticated), requirePermission('appointments:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const startTime = Date.now();
-      const validation = await aiAssistant.validateClaim(claimData);
-      const responseTime = Date.now() - startTime;
+      const data = appointmentInputSchema.parse(req.body ?? {});
+      await assertAppointmentParties(user.orgId, data);
 
-      // Track AI usage
-      await storage.trackAiUsage({
-        userId: user.id,
-        orgId: user.orgId,
-        featureType: 'claim_validation',
-        tokensUsed: validation.tokensUsed || 0,
-        responseTime,
-        context: { 
-          claimType: claimData.type,
-          hasErrors: validation.errors?.length > 0 
-        }
+      const appointment = await storage.createAppointment({ ...data, orgId: user.orgId, createdBy: user.id });
+      await auditLog(req, 'appointment_created', { appointmentId: appointment.id, providerId: appointment.providerId });
+      res.status(201).json(appointment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AppointmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating appointment:", error);
+      res.status(500).json({ message: "Failed to create appointment" });
+    }
+  });
+
+  app.patch('/api/appointments/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('appointments:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getAppointment(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const updates = appointmentInputSchema.partial().parse(req.body ?? {});
+      await assertAppointmentParties(user.orgId, updates);
+
+      const appointment = await storage.updateAppointment(existing.id, updates);
+      await auditLog(req, 'appointment_updated', {
+        appointmentId: existing.id,
+        fields: Object.keys(updates),
+        ...(updates.status && updates.status !== existing.status && { fromStatus: existing.status, toStatus: updates.status }),
       });
+      res.json(appointment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AppointmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating appointment:", error);
+      res.status(500).json({ message: "Failed to update appointment" });
+    }
+  });
 
-      res.json(validation);
+  app.delete('/api/appointments/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('appointments:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getAppointment(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      await deleteAppointment(existing);
+      await auditLog(req, 'appointment_deleted', { appointmentId: existing.id });
+      res.json({ success: true });
     } catch (error) {
-      logger.error('Claim validation API error', { error });
-      res.status(500).json({ 
-        message: "Failed to validate claim",
-        fallback: true 
-      });
+      if (error instanceof AppointmentError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error deleting appointment:", error);
+      res.status(500).json({ message: "Failed to delete appointment" });
     }
   });
 
-  // Auto-complete suggestions for claim fields
-  app.post('/api/ai/auto-complete', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  // Insurers API - temporarily public for development
+  app.get('/api/insurers', async (req: any, res) => {
     try {
-      const { fieldName, context } = req.body;
-      if (!fieldName) {
-        return res.status(400).json({ message: "Field name is required" });
+      const insurers = await storage.getInsurers();
+      res.json(insurers);
+    } catch (error) {
+      console.error("Error fetching insurers:", error);
+      res.status(500).json({ message: "Failed to fetch insurers" });
+    }
+  });
+
+  // Eligibility API - coverage checks, cached per patient and insurer
+  app.get('/api/eligibility/:patientId/:insurerId', apiLimiter, devAuth(isAuthenticated), requirePermission('patients:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const patient = await storage.getPatient(req.params.patientId);
+      if (!user?.orgId || !patient || patient.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Patient not found" });
       }
 
-      const user = await storage.getUser(req.user.claims.sub);
+      const check = await getCachedEligibility(patient.id, req.params.insurerId);
+      res.json(check ? { ...check, cached: true } : null);
+    } catch (error) {
+      console.error("Error fetching eligibility:", error);
+      res.status(500).json({ message: "Failed to fetch eligibility" });
+    }
+  });
+
+  app.post('/api/eligibility', connectorLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const startTime = Date.now();
-      const suggestions = await aiAssistant.getAutoCompleteSuggestions(fieldName, context);
-      const responseTime = Date.now() - startTime;
+      const body = z.object({
+        patientId: z.string().uuid(),
+        insurerId: z.string().uuid(),
+        providerId: z.string().uuid(),
+        serviceDate: z.coerce.date().optional(),
+        refresh: z.boolean().optional(),
+      }).parse(req.body ?? {});
 
-      // Track AI usage
-      await storage.trackAiUsage({
-        userId: user.id,
+      const { check, cached } = await checkEligibility({
+        ...body,
         orgId: user.orgId,
-        featureType: 'auto_complete',
-        tokensUsed: suggestions.tokensUsed || 0,
-        responseTime,
-        context: { fieldName }
+        actorUserId: user.id,
+      });
+
+      await auditLog(req, 'eligibility_checked', {
+        patientId: check.patientId,
+        insurerId: check.insurerId,
+        status: check.status,
+        cached,
+      });
+
+      res.json({ ...check, cached });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof EligibilityError) {
+        return res.status(error.code === 'NOT_FOUND' ? 404 : 422).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof ConnectorError) {
+        return res.status(502).json({ message: error.message, code: error.code, errors: error.details?.errors });
+      }
+      console.error("Error checking eligibility:", error);
+      res.status(500).json({ message: "Failed to check eligibility" });
+    }
+  });
+
+  // File upload endpoints
+  app.post('/api/objects/upload', uploadLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const objectStorageService = new ObjectStorageService();
+      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+      res.json({ uploadURL });
+    } catch (error) {
+      console.error("Error getting upload URL:", error);
+      res.status(500).json({ message: "Failed to get upload URL" });
+    }
+  });
+
+  const handleAttachmentError = (res: any, error: unknown, action: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof AttachmentError) {
+      const status = error.code === 'NOT_FOUND' || error.code === 'FILE_MISSING' ? 404
+        : error.code === 'TOO_LARGE' ? 413
+        : error.code === 'BLOCKED' ? 409
+        : 422;
+      return res.status(status).json({ message: error.message, code: error.code });
+    }
+    console.error(`Error ${action}:`, error);
+    res.status(500).json({ message: `Failed ${action}` });
+  };
+
+  // The claim, when the signed-in user may work on it
+  const getAccessibleClaim = async (req: any, claimId: string) => {
+    const user = await getRequestUser(req);
+    const claim = await storage.getClaim(claimId);
+    if (!claim || !user?.orgId || claim.orgId !== user.orgId || (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id)) {
+      throw new AttachmentError('NOT_FOUND', 'Claim not found');
+    }
+    return { user, claim };
+  };
+
+  const getAccessibleAttachment = async (req: any) => {
+    const attachment = await storage.getAttachment(req.params.id);
+    if (!attachment) {
+      throw new AttachmentError('NOT_FOUND', 'Attachment not found');
+    }
+    const { user } = await getAccessibleClaim(req, attachment.claimId);
+    return { user, attachment };
+  };
+
+  app.get('/api/attachments/:claimId', devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
+    try {
+      const { claim } = await getAccessibleClaim(req, req.params.claimId);
+      const transmissions = await getAttachmentTransmissions(claim.id);
+      res.json((await storage.getAttachments(claim.id)).map(attachment => {
+        const transmission = transmissions.get(attachment.id);
+        return {
+          ...attachment,
+          transmission: transmission ? {
+            status: transmission.status,
+            connector: transmission.connector,
+            externalId: transmission.externalId,
+            message: transmissionMessage(transmission),
+            updatedAt: transmission.updatedAt,
+          } : null,
+        };
+      }));
+    } catch (error) {
+      handleAttachmentError(res, error, "to fetch attachments");
+    }
+  });
+
+  // Reads the uploaded object through the ingest pipeline: checksum, type check, malware scan and PDF/A conversion
+  app.post('/api/attachments', uploadLimiter, devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
+    try {
+      const input = attachmentInputSchema.parse(req.body);
+      const { user, claim } = await getAccessibleClaim(req, input.claimId);
+
+      const attachment = await ingestAttachment(claim, input, user.id);
+
+      await auditLog(req, 'attachment_created', {
+        attachmentId: attachment.id,
+        claimId: attachment.claimId,
+        checksum: attachment.checksum,
+        scanStatus: attachment.scanStatus,
+        convertedToPdfA: !!attachment.originalUrl,
+      });
+      if (attachment.scanStatus === 'infected') {
+        await auditLog(req, 'attachment_infected', { attachmentId: attachment.id, claimId: attachment.claimId, signature: attachment.scanResult });
+      }
+
+      res.status(201).json(attachment);
+    } catch (error) {
+      handleAttachmentError(res, error, "to create attachment");
+    }
+  });
+
+  app.post('/api/attachments/:id/rescan', uploadLimiter, devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
+    try {
+      const { attachment } = await getAccessibleAttachment(req);
+      const rescanned = await rescanAttachment(attachment.id);
+      await auditLog(req, 'attachment_rescanned', { attachmentId: attachment.id, claimId: attachment.claimId, scanStatus: rescanned.scanStatus });
+      res.json(rescanned);
+    } catch (error) {
+      handleAttachmentError(res, error, "to rescan attachment");
+    }
+  });
+
+  // A short-lived signed link to the stored file, so the browser can open it without the API session
+  app.get('/api/attachments/:id/download', devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
+    try {
+      const { attachment } = await getAccessibleAttachment(req);
+      const { url, expiresAt } = new ObjectStorageService().getSignedObjectEntityURL(attachment.url);
+      await auditLog(req, 'attachment_downloaded', { attachmentId: attachment.id, claimId: attachment.claimId });
+      res.json({ url, expiresAt });
+    } catch (error) {
+      handleAttachmentError(res, error, "to create download link");
+    }
+  });
+
+  // Send attachments the insurer has not received yet, e.g. ones added after an information request
+  app.post('/api/claims/:id/attachments/transmit', connectorLimiter, devAuth(isAuthenticated), requirePermission('claims:submit'), async (req: any, res) => {
+    try {
+      const { claim } = await getAccessibleClaim(req, req.params.id);
+      if (!claim.externalId) {
+        return res.status(409).json({ message: "Claim has not been accepted by the insurer yet" });
+      }
+
+      const jobId = await scheduleAttachmentTransmission(claim);
+      if (jobId) {
+        await auditLog(req, 'attachment_transmission_queued', { claimId: claim.id, jobId });
+      }
+      res.status(jobId ? 202 : 200).json({ queued: !!jobId, jobId });
+    } catch (error) {
+      handleAttachmentError(res, error, "to send attachments");
+    }
+  });
+
+  app.delete('/api/attachments/:id', devAuth(isAuthenticated), requirePermission('claims:create'), async (req: any, res) => {
+    try {
+      const { attachment } = await getAccessibleAttachment(req);
+      const objectStorageService = new ObjectStorageService();
+      for (const url of [attachment.url, attachment.originalUrl]) {
+        if (url) await objectStorageService.deleteObjectEntity(url);
+      }
+      await storage.deleteAttachment(attachment.id);
+      await auditLog(req, 'attachment_deleted', { attachmentId: attachment.id, claimId: attachment.claimId });
+      res.status(204).send();
+    } catch (error) {
+      handleAttachmentError(res, error, "to delete attachment");
+    }
+  });
+
+  // AI Assistant endpoints
+  const { aiAssistant } = await import('./ai-assistant');
+
+  // Analyze medical document for claim data extraction
+  app.post('/api/ai/analyze-document', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const { documentText } = req.body;
+      if (!documentText) {
+        return res.status(400).json({ message: "Document text is required" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const startTime = Date.now();
+      const analysis = await aiAssistant.analyzeDocument(documentText);
+      const responseTime = Date.now() - startTime;
+
+      // Track AI usage
+      await storage.trackAiUsage({
+        userId: user.id,
+        orgId: user.orgId,
+        featureType: 'document_analysis',
+        tokensUsed: analysis.tokensUsed || 0,
+        responseTime,
+        context: { documentLength: documentText.length }
+      });
+
+      res.json(analysis);
+    } catch (error) {
+      logger.error('Document analysis API error', { error });
+      res.status(500).json({ 
+        message: "Failed to analyze document",
+        fallback: true 
+      });
+    }
+  });
+
+  // Suggest ICD-10 codes based on diagnosis
+  app.post('/api/ai/suggest-codes', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const { diagnosis, symptoms } = req.body;
+      if (!diagnosis) {
+        return res.status(400).json({ message: "Diagnosis is required" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const startTime = Date.now();
+      const suggestions = await aiAssistant.suggestICD10Codes(diagnosis, symptoms);
+      const responseTime = Date.now() - startTime;
+
+      // Track AI usage
+      await storage.trackAiUsage({
+        userId: user.id,
+        orgId: user.orgId,
+        featureType: 'code_suggestion',
+        tokensUsed: suggestions.tokensUsed || 0,
+        responseTime,
+        context: { diagnosis, symptomsCount: symptoms?.length || 0 }
+      });
+
+      res.json(suggestions);
+    } catch (error) {
+      logger.error('Code suggestion API error', { error });
+      res.status(500).json({ 
+        message: "Failed to suggest codes",
+        fallback: true 
+      });
+    }
+  });
+
+  // Validate claim before submission
+  app.post('/api/ai/validate-claim', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const { claimData } = req.body;
+      if (!claimData) {
+        return res.status(400).json({ message: "Claim data is required" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const startTime = Date.now();
+      const validation = await aiAssistant.validateClaim(claimData);
+      const responseTime = Date.now() - startTime;
+
+      // Track AI usage
+      await storage.trackAiUsage({
+        userId: user.id,
+        orgId: user.orgId,
+        featureType: 'claim_validation',
+        tokensUsed: validation.tokensUsed || 0,
+        responseTime,
+        context: { 
+          claimType: claimData.type,
+          hasErrors: validation.errors?.length > 0 
+        }
+      });
+
+      res.json(validation);
+    } catch (error) {
+      logger.error('Claim validation API error', { error });
+      res.status(500).json({ 
+        message: "Failed to validate claim",
+        fallback: true 
+      });
+    }
+  });
+
+  // Auto-complete suggestions for claim fields
+  app.post('/api/ai/auto-complete', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const { fieldName, context } = req.body;
+      if (!fieldName) {
+        return res.status(400).json({ message: "Field name is required" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const startTime = Date.now();
+      const suggestions = await aiAssistant.getAutoCompleteSuggestions(fieldName, context);
+      const responseTime = Date.now() - startTime;
+
+      // Track AI usage
+      await storage.trackAiUsage({
+        userId: user.id,
+        orgId: user.orgId,
+        featureType: 'auto_complete',
+        tokensUsed: suggestions.tokensUsed || 0,
+        responseTime,
+        context: { fieldName }
+      });
+
+      res.json(suggestions);
+    } catch (error) {
+      logger.error('Auto-complete API error', { error });
+      res.status(500).json({ 
+        message: "Failed to get suggestions",
+        fallback: true 
+      });
+    }
+  });
+
+  // Track AI feedback - whether the suggestion was helpful
+  app.post('/api/ai/feedback', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+    try {
+      const { featureType, helpful } = req.body;
+      if (!featureType || helpful === undefined) {
+        return res.status(400).json({ message: "Feature type and helpful status are required" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      // Track feedback
+      await storage.trackAiUsage({
+        userId: user.id,
+        orgId: user.orgId,
+        featureType,
+        helpful,
+        tokensUsed: 0,
+        context: { feedback: true }
+      });
+
+      res.json({ message: "Feedback recorded" });
+    } catch (error) {
+      logger.error('AI feedback API error', { error });
+      res.status(500).json({ message: "Failed to record feedback" });
+    }
+  });
+
+  // Get AI usage statistics for the organization
+  app.get('/api/ai/stats', apiLimiter, devAuth(isAuthenticated), requirePermission('reports:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const stats = await storage.getAiUsageStats(user.orgId);
+      res.json(stats);
+    } catch (error) {
+      logger.error('AI stats API error', { error });
+      res.status(500).json({ message: "Failed to get AI usage statistics" });
+    }
+  });
+
+  // Signed object URLs: uploads to the local driver and download links.
+  // The signature is the authorization, so these run without a session.
+  app.put("/objects/:objectPath(*)", uploadLimiter, async (req: any, res) => {
+    if (!verifyObjectUrlSignature("PUT", req.path, req.query)) {
+      return res.sendStatus(403);
+    }
+    try {
+      const stored = await new ObjectStorageService().writeUploadedObjectEntity(req.path, req, req.get("content-type") || "application/octet-stream");
+      res.sendStatus(stored ? 200 : 409);
+    } catch (error) {
+      if (error instanceof ObjectTooLargeError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      console.error("Error storing upload:", error);
+      res.sendStatus(500);
+    }
+  });
+
+  app.get("/objects/:objectPath(*)", async (req: any, res, next) => {
+    if (req.query.signature === undefined) {
+      return next();
+    }
+    if (!verifyObjectUrlSignature("GET", req.path, req.query)) {
+      return res.sendStatus(403);
+    }
+    const objectStorageService = new ObjectStorageService();
+    try {
+      const objectEntity = await objectStorageService.getObjectEntity(req.path);
+      objectStorageService.downloadObject(objectEntity, res, 0);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      console.error("Error serving signed object:", error);
+      return res.sendStatus(500);
+    }
+  });
+
+  // Protected file serving
+  app.get("/objects/:objectPath(*)", devAuth(isAuthenticated), async (req: any, res) => {
+    const userId = req.user?.claims?.sub;
+    const objectStorageService = new ObjectStorageService();
+    try {
+      const objectEntity = await objectStorageService.getObjectEntity(req.path);
+      const canAccess = await objectStorageService.canAccessObjectEntity({
+        objectEntity,
+        userId: userId,
+        requestedPermission: ObjectPermission.READ,
+      });
+      if (!canAccess) {
+        return res.sendStatus(401);
+      }
+      objectStorageService.downloadObject(objectEntity, res);
+    } catch (error) {
+      console.error("Error checking object access:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      return res.sendStatus(500);
+    }
+  });
+
+  // Remittances API
+  app.get('/api/remittances', devAuth(isAuthenticated), requirePermission('remittances:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const remittances = await storage.getRemittances(user.orgId);
+      res.json(remittances);
+    } catch (error) {
+      console.error("Error fetching remittances:", error);
+      res.status(500).json({ message: "Failed to fetch remittances" });
+    }
+  });
+
+  app.post('/api/remittances', devAuth(isAuthenticated), requirePermission('remittances:manage'), async (req: any, res) => {
+    try {
+      const validatedData = insertRemittanceSchema.parse(req.body);
+      const remittance = await storage.createRemittance(validatedData);
+      
+      await auditLog(req, 'remittance_uploaded', { remittanceId: remittance.id });
+      
+      res.status(201).json(remittance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating remittance:", error);
+      res.status(500).json({ message: "Failed to create remittance" });
+    }
+  });
+
+  // Remittance advice (ERA) file import and reconciliation
+  const remittanceImportSchema = z.object({
+    insurerId: z.string().uuid(),
+    format: z.enum(['cdanet_eob', 'telus_csv', 'telus_json', 'generic_csv']),
+    fileName: z.string().max(255).optional(),
+    content: z.string().min(1),
+  });
+
+  app.post('/api/remittances/import', uploadLimiter, devAuth(isAuthenticated), requirePermission('remittances:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const input = remittanceImportSchema.parse(req.body);
+      const insurer = await storage.getInsurer(input.insurerId);
+      if (!insurer) {
+        return res.status(404).json({ message: "Insurer not found" });
+      }
+
+      const { importRemittanceFile, RemittanceImportError } = await import('./lib/remittanceImport');
+      const { RemittanceParseError } = await import('./mappers/remittance');
+
+      try {
+        const result = await importRemittanceFile({
+          orgId: user.orgId,
+          insurerId: insurer.id,
+          format: input.format,
+          fileName: input.fileName,
+          content: input.content,
+          userId: user.id,
+        });
+
+        await auditLog(req, 'remittance_imported', {
+          remittanceImportId: result.remittanceImport.id,
+          format: input.format,
+          totalLines: result.remittanceImport.totalLines,
+          matchedLines: result.remittanceImport.matchedLines,
+        });
+
+        res.status(201).json(result);
+      } catch (error) {
+        if (error instanceof RemittanceParseError) {
+          return res.status(422).json({ message: error.message, details: error.details });
+        }
+        if (error instanceof RemittanceImportError) {
+          return res.status(409).json({ message: error.message, code: error.code, remittanceImportId: error.remittanceImportId });
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error importing remittance file:", error);
+      res.status(500).json({ message: "Failed to import remittance file" });
+    }
+  });
+
+  app.get('/api/remittances/imports', devAuth(isAuthenticated), requirePermission('remittances:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const imports = await storage.getRemittanceImports(user.orgId);
+      res.json(imports);
+    } catch (error) {
+      console.error("Error fetching remittance imports:", error);
+      res.status(500).json({ message: "Failed to fetch remittance imports" });
+    }
+  });
+
+  app.get('/api/remittances/reconciliation', devAuth(isAuthenticated), requirePermission('remittances:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const lines = await storage.getRemittanceLines(user.orgId, { matchStatus: 'unmatched' });
+      res.json(lines);
+    } catch (error) {
+      console.error("Error fetching reconciliation queue:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation queue" });
+    }
+  });
+
+  app.post('/api/remittances/reconciliation/:id/match', devAuth(isAuthenticated), requirePermission('remittances:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { claimId } = z.object({ claimId: z.string().uuid() }).parse(req.body);
+      const line = await storage.getRemittanceLine(req.params.id);
+      if (!line || line.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Remittance line not found" });
+      }
+      if (line.matchStatus !== 'unmatched') {
+        return res.status(409).json({ message: `Remittance line is already ${line.matchStatus}` });
+      }
+
+      const claim = await storage.getClaim(claimId);
+      if (!claim || claim.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      const { resolveRemittanceLine } = await import('./lib/remittanceImport');
+      const resolved = await resolveRemittanceLine(line, claim, user.id);
+
+      await auditLog(req, 'remittance_line_matched', {
+        remittanceLineId: line.id,
+        claimId: claim.id,
+        outcome: line.outcome,
+      });
+
+      res.json(resolved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ClaimTransitionError) {
+        return res.status(409).json({ message: error.message, transition: error.toJSON() });
+      }
+      console.error("Error matching remittance line:", error);
+      res.status(500).json({ message: "Failed to match remittance line" });
+    }
+  });
+
+  app.post('/api/remittances/reconciliation/:id/dismiss', devAuth(isAuthenticated), requirePermission('remittances:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const line = await storage.getRemittanceLine(req.params.id);
+      if (!line || line.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Remittance line not found" });
+      }
+      if (line.matchStatus !== 'unmatched') {
+        return res.status(409).json({ message: `Remittance line is already ${line.matchStatus}` });
+      }
+
+      const dismissed = await storage.updateRemittanceLine(line.id, {
+        matchStatus: 'dismissed',
+        resolvedBy: user.id,
+        resolvedAt: new Date(),
+      });
+
+      await auditLog(req, 'remittance_line_dismissed', { remittanceLineId: line.id });
+
+      res.json(dismissed);
+    } catch (error) {
+      console.error("Error dismissing remittance line:", error);
+      res.status(500).json({ message: "Failed to dismiss remittance line" });
+    }
+  });
+
+  // EDI Connector API Routes
+  app.post('/api/connectors/submit', devAuth(isAuthenticated), requirePermission('claims:submit'), async (req: any, res) => {
+    try {
+      const { claimId, connector } = req.body;
+      
+      if (!claimId || !connector) {
+        return res.status(400).json({ message: "claimId and connector are required" });
+      }
+
+      // Validate connector type
+      if (!['cdanet', 'eclaims', 'portal'].includes(connector)) {
+        return res.status(400).json({ message: "Invalid connector type" });
+      }
+
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const claim = await storage.getClaim(claimId);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      if (claim.orgId !== user.orgId || (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      await assertClaimScrubbed(claim);
+
+      // Import job queue dynamically to avoid circular dependencies
+      const { jobQueue } = await import('./lib/jobs');
+      
+      // Enqueue job
+      const jobId = await jobQueue.enqueue({
+        type: 'submit',
+        claimId,
+        connector: connector as any,
+      });
+
+      await auditLog(req, 'claim_submission_queued', { claimId, connector, jobId });
+
+      res.json({ 
+        queued: true, 
+        jobId,
+        message: `Claim queued for submission via ${connector}` 
+      });
+    } catch (error) {
+      if (error instanceof ClaimScrubError) {
+        return res.status(422).json({ message: error.message, code: error.code, findings: error.findings });
+      }
+      if (error instanceof AttachmentError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
+      console.error("Error queuing claim submission:", error);
+      res.status(500).json({ message: "Failed to queue claim submission" });
+    }
+  });
+
+  // Get connector status for claim
+  app.get('/api/connectors/:claimId/status', devAuth(isAuthenticated), requirePermission('claims:read:own'), async (req: any, res) => {
+    try {
+      const { claimId } = req.params;
+      
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const claim = await storage.getClaim(claimId);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      if (claim.orgId !== user.orgId || (!hasPermission(req, 'claims:read:all') && claim.createdBy !== user.id)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      // Get latest connector event
+      const events = await storage.getConnectorEvents(claimId);
+      const lastEvent = events[0]; // Most recent event
+
+      res.json({
+        claimId,
+        status: claim.status,
+        externalId: claim.externalId,
+        lastSync: lastEvent?.createdAt,
+        lastEvent: lastEvent ? {
+          type: lastEvent.type,
+          connector: lastEvent.connector,
+          payload: lastEvent.payload,
+        } : null,
+      });
+    } catch (error) {
+      console.error("Error fetching connector status:", error);
+      res.status(500).json({ message: "Failed to fetch connector status" });
+    }
+  });
+
+  // Admin: Configure connectors
+  app.post('/api/admin/connectors/config', devAuth(isAuthenticated), requirePermission('connectors:configure'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const validatedData = insertConnectorConfigSchema.parse({
+        ...req.body,
+        orgId: user.orgId,
+      });
+
+      const config = await storage.upsertConnectorConfig(validatedData);
+      
+      await auditLog(req, 'connector_config_updated', { 
+        connectorName: config.name, 
+        enabled: config.enabled,
+        mode: config.mode 
+      });
+
+      res.json(config);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating connector config:", error);
+      res.status(500).json({ message: "Failed to update connector config" });
+    }
+  });
+
+  // Admin: Test connector dry-run
+  app.post('/api/connectors/test', devAuth(isAuthenticated), requirePermission('connectors:configure'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { claimId, connector } = req.body;
+      
+      if (!claimId || !connector) {
+        return res.status(400).json({ message: "claimId and connector are required" });
+      }
+
+      const claim = await storage.getClaim(claimId);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      // Get connector instance and validate only (dry-run)
+      const { getConnector } = await import('./connectors/base');
+      const connectorInstance = await getConnector(connector as any, user.orgId);
+      
+      await connectorInstance.validate(claim);
+
+      // Return mapped payload (with PHI redacted for logs)
+      let mappedPayload: any = {};
+      
+      if (connector === 'cdanet') {
+        const { mapClaimToCDAnet } = await import('./mappers/cdanet');
+        const { CDAnetITransConnector } = await import('./connectors/cdanet-itrans');
+        const [patient] = await storage.getPatients(user.orgId, { id: claim.patientId });
+        const [provider] = await storage.getProviders(user.orgId, { id: claim.providerId });
+        
+        if (patient && provider) {
+          const options = connectorInstance instanceof CDAnetITransConnector ? connectorInstance.messageOptions(patient) : {};
+          mappedPayload = mapClaimToCDAnet(claim, patient, provider, await storage.getClaimLines(claim.id), options);
+        }
+      } else if (connector === 'eclaims') {
+        const { mapClaimToEClaims } = await import('./mappers/eclaims');
+        const [patient] = await storage.getPatients(user.orgId, { id: claim.patientId });
+        const [provider] = await storage.getProviders(user.orgId, { id: claim.providerId });
+        
+        if (patient && provider) {
+          mappedPayload = mapClaimToEClaims(claim, patient, provider, await storage.getClaimLines(claim.id));
+        }
+      }
+
+      await auditLog(req, 'connector_test_run', { claimId, connector });
+
+      res.json({
+        valid: true,
+        connector,
+        mappedPayload,
+        message: `Claim validation successful for ${connector}`,
+      });
+
+    } catch (error) {
+      if (error instanceof CDAnetCodecError) {
+        return res.status(400).json({ valid: false, message: error.message, errors: error.errors });
+      }
+      console.error("Error testing connector:", error);
+      res.status(500).json({ 
+        valid: false,
+        message: (error as Error).message || "Connector test failed" 
+      });
+    }
+  });
+
+  // Admin endpoints
+  app.get('/api/admin/users', devAuth(isAuthenticated), requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      // Members from other organizations carry their membershipId
+      const users = await getOrgUsers(user.orgId);
+      res.json(users.map(({ id, email, firstName, lastName, role, mfaEnabled, createdAt, deactivatedAt, membershipId }) => ({
+        id, email, firstName, lastName, role, mfaEnabled, createdAt, deactivatedAt, membershipId,
+      })));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id/role', apiLimiter, devAuth(isAuthenticated), requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const target = user?.orgId ? (await getOrgUsers(user.orgId)).find(member => member.id === req.params.id) : undefined;
+      if (!user?.orgId || !target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { role } = z.object({ role: z.string().trim().min(1) }).parse(req.body ?? {});
+      if (!isBuiltInRole(role) && !(await storage.getRoleByKey(user.orgId, role))) {
+        return res.status(400).json({ message: `Unknown role "${role}"` });
+      }
+      // Keep at least the current admin able to undo the change
+      if (target.id === user.id && !(await resolvePermissions({ role, orgId: user.orgId })).has('users:manage')) {
+        return res.status(400).json({ message: "You cannot remove your own access to manage users" });
+      }
+
+      // Members hold their role on the membership; users.role is the home organization's
+      const updated = target.membershipId
+        ? await storage.updateMembership(target.membershipId, { role })
+        : await storage.updateUser(target.id, { role });
+      await auditLog(req, 'user_role_changed', { userId: target.id, fromRole: target.role, toRole: role });
+      res.json({ id: target.id, role: updated?.role ?? role });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error changing user role:", error);
+      res.status(500).json({ message: "Failed to change user role" });
+    }
+  });
+
+  // Admin: give a user from another organization (e.g. a billing agency) access to this one
+  app.post('/api/admin/members', apiLimiter, devAuth(isAuthenticated), requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { email, role } = memberInputSchema.parse(req.body ?? {});
+      if (!isBuiltInRole(role) && !(await storage.getRoleByKey(user.orgId, role))) {
+        return res.status(400).json({ message: `Unknown role "${role}"` });
+      }
+      const member = await storage.getUserByEmail(email);
+      if (!member) {
+        return res.status(404).json({ message: "No user with this email address; they need to sign in once first" });
+      }
+
+      const membership = await addMember(user.orgId, member, role);
+      await auditLog(req, 'member_added', { userId: member.id, membershipId: membership.id, role });
+      res.status(201).json(membership);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof MembershipError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error adding member:", error);
+      res.status(500).json({ message: "Failed to add member" });
+    }
+  });
+
+  app.delete('/api/admin/members/:userId', apiLimiter, devAuth(isAuthenticated), requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const membership = user?.orgId ? await storage.getMembership(req.params.userId, user.orgId) : undefined;
+      if (!user?.orgId || !membership) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (membership.userId === user.id) {
+        return res.status(400).json({ message: "You cannot remove your own membership" });
+      }
+
+      await storage.deleteMembership(membership.id);
+      await auditLog(req, 'member_removed', { userId: membership.userId, membershipId: membership.id, role: membership.role });
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error changing user role:", error);
+      res.status(500).json({ message: "Failed to change user role" });
+    }
+  });
+
+  // Admin: roles - the built-in roles plus the organization's custom roles
+  app.get('/api/admin/roles', devAuth(isAuthenticated), requireAnyPermission('users:manage', 'roles:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const [customRoles, users] = await Promise.all([
+        storage.getRoles(user.orgId),
+        getOrgUsers(user.orgId),
+      ]);
+      const userCount = (key: string) => users.filter(member => member.role === key).length;
+
+      res.json([
+        ...Object.values(BUILT_IN_ROLES).map(role => ({ ...role, id: null, builtIn: true, userCount: userCount(role.key) })),
+        ...customRoles.map(role => ({ ...role, builtIn: false, userCount: userCount(role.key) })),
+      ]);
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      res.status(500).json({ message: "Failed to fetch roles" });
+    }
+  });
+
+  app.post('/api/admin/roles', apiLimiter, devAuth(isAuthenticated), requirePermission('roles:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const data = roleInputSchema.parse(req.body ?? {});
+      if (await storage.getRoleByKey(user.orgId, data.key)) {
+        return res.status(409).json({ message: `A role with the key "${data.key}" already exists` });
+      }
+
+      const role = await storage.createRole({ ...data, orgId: user.orgId });
+      await auditLog(req, 'role_created', { roleId: role.id, key: role.key, permissions: role.permissions });
+      res.status(201).json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating role:", error);
+      res.status(500).json({ message: "Failed to create role" });
+    }
+  });
+
+  app.patch('/api/admin/roles/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('roles:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getRole(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      // Users keep their role key, so it cannot be renamed
+      const updates = roleInputSchema.omit({ key: true }).partial().parse(req.body ?? {});
+      if (user.role === existing.key && updates.permissions && !expandPermissions(updates.permissions).includes('roles:manage')) {
+        return res.status(400).json({ message: "You cannot remove your own access to manage roles" });
+      }
+      const role = await storage.updateRole(existing.id, updates);
+      await auditLog(req, 'role_updated', {
+        roleId: existing.id,
+        key: existing.key,
+        fields: Object.keys(updates),
+        ...(updates.permissions && { fromPermissions: existing.permissions, toPermissions: updates.permissions }),
+      });
+      res.json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating role:", error);
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  app.delete('/api/admin/roles/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('roles:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getRole(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      const members = (await getOrgUsers(user.orgId)).filter(member => member.role === existing.key);
+      if (members.length > 0) {
+        return res.status(409).json({ message: `Reassign the ${members.length} user(s) with this role before deleting it` });
+      }
+
+      await storage.deleteRole(existing.id);
+      await auditLog(req, 'role_deleted', { roleId: existing.id, key: existing.key });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      res.status(500).json({ message: "Failed to delete role" });
+    }
+  });
+
+  app.get('/api/admin/identity-providers', devAuth(isAuthenticated), requirePermission('sso:configure'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const providers = await storage.getIdentityProviders(user.orgId);
+      res.json(providers.map(describeIdentityProvider));
+    } catch (error) {
+      console.error("Error fetching identity providers:", error);
+      res.status(500).json({ message: "Failed to fetch identity providers" });
+    }
+  });
+
+  app.post('/api/admin/identity-providers', apiLimiter, devAuth(isAuthenticated), requirePermission('sso:configure'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const data = identityProviderInputSchema.parse(req.body ?? {});
+      if (await storage.getIdentityProviderBySlug(data.slug)) {
+        return res.status(409).json({ message: `The sign-in name "${data.slug}" is already taken` });
+      }
+
+      const provider = await storage.createIdentityProvider({ ...data, orgId: user.orgId });
+      await auditLog(req, 'identity_provider_created', { providerId: provider.id, slug: provider.slug, protocol: provider.protocol });
+      res.status(201).json(describeIdentityProvider(provider));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating identity provider:", error);
+      res.status(500).json({ message: "Failed to create identity provider" });
+    }
+  });
+
+  app.put('/api/admin/identity-providers/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('sso:configure'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getIdentityProvider(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Identity provider not found" });
+      }
+
+      // A blank secret keeps the stored one, since the form never receives it
+      const { clientSecret, ...data } = identityProviderInputSchema.parse({
+        ...req.body,
+        clientSecret: req.body?.clientSecret || existing.clientSecret,
+      });
+      if (data.slug !== existing.slug && await storage.getIdentityProviderBySlug(data.slug)) {
+        return res.status(409).json({ message: `The sign-in name "${data.slug}" is already taken` });
+      }
+
+      const provider = await storage.updateIdentityProvider(existing.id, {
+        ...data,
+        ...(clientSecret !== existing.clientSecret && { clientSecret }),
+      });
+      await auditLog(req, 'identity_provider_updated', {
+        providerId: existing.id,
+        slug: data.slug,
+        secretChanged: clientSecret !== existing.clientSecret,
+      });
+      res.json(provider && describeIdentityProvider(provider));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating identity provider:", error);
+      res.status(500).json({ message: "Failed to update identity provider" });
+    }
+  });
+
+  app.delete('/api/admin/identity-providers/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('sso:configure'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = await storage.getIdentityProvider(req.params.id);
+      if (!existing || !user?.orgId || existing.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Identity provider not found" });
+      }
+
+      await storage.deleteIdentityProvider(existing.id);
+      await auditLog(req, 'identity_provider_deleted', { providerId: existing.id, slug: existing.slug });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting identity provider:", error);
+      res.status(500).json({ message: "Failed to delete identity provider" });
+    }
+  });
+
+  // Admin: bearer tokens for the SCIM provisioning API
+  app.get('/api/admin/scim-tokens', devAuth(isAuthenticated), requirePermission('scim:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const tokens = await storage.getScimTokens(user.orgId);
+      res.json(tokens.map(({ tokenHash, ...token }) => token));
+    } catch (error) {
+      console.error("Error fetching SCIM tokens:", error);
+      res.status(500).json({ message: "Failed to fetch SCIM tokens" });
+    }
+  });
+
+  app.post('/api/admin/scim-tokens', apiLimiter, devAuth(isAuthenticated), requirePermission('scim:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { name } = scimTokenInputSchema.parse(req.body ?? {});
+      const { token, record } = await issueScimToken(user.orgId, name, user.id);
+      await auditLog(req, 'scim_token_created', { tokenId: record.id, name });
+      // The only time the token is shown
+      const { tokenHash, ...summary } = record;
+      res.status(201).json({ ...summary, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating SCIM token:", error);
+      res.status(500).json({ message: "Failed to create SCIM token" });
+    }
+  });
+
+  app.delete('/api/admin/scim-tokens/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('scim:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const existing = user?.orgId ? (await storage.getScimTokens(user.orgId)).find(token => token.id === req.params.id) : undefined;
+      if (!existing) {
+        return res.status(404).json({ message: "SCIM token not found" });
+      }
+
+      await storage.deleteScimToken(existing.id);
+      await auditLog(req, 'scim_token_revoked', { tokenId: existing.id, name: existing.name });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking SCIM token:", error);
+      res.status(500).json({ message: "Failed to revoke SCIM token" });
+    }
+  });
+
+  // A user's sessions, for admins of an organization they belong to
+  app.get('/api/admin/users/:id/sessions', devAuth(isAuthenticated), requirePermission('sessions:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+      if (!(await getOrgUsers(user.orgId)).some(candidate => candidate.id === req.params.id)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(await listUserSessions(req.params.id, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching user sessions:", error);
+      res.status(500).json({ message: "Failed to fetch user sessions" });
+    }
+  });
+
+  app.delete('/api/admin/users/:id/sessions', apiLimiter, devAuth(isAuthenticated), requirePermission('sessions:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+      if (!(await getOrgUsers(user.orgId)).some(candidate => candidate.id === req.params.id)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Admins ending their own sessions keep the one they are using
+      const sessionsEnded = req.params.id === user.id
+        ? await endOtherSessions(req, user.id)
+        : await storage.deleteUserSessions(req.params.id);
+      await auditLog(req, 'sessions_revoked', { userId: req.params.id, sessionsEnded });
+
+      res.json({ success: true, sessionsEnded });
+    } catch (error) {
+      console.error("Error ending user sessions:", error);
+      res.status(500).json({ message: "Failed to end user sessions" });
+    }
+  });
+
+  app.delete('/api/admin/users/:id/sessions/:sessionId', apiLimiter, devAuth(isAuthenticated), requirePermission('sessions:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+      if (!(await getOrgUsers(user.orgId)).some(candidate => candidate.id === req.params.id)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!(await endUserSession(req.params.id, req.params.sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await auditLog(req, 'session_revoked', { userId: req.params.id, sessionId: req.params.sessionId });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error ending user session:", error);
+      res.status(500).json({ message: "Failed to end user session" });
+    }
+  });
+
+  // Data retention: the organization's policy and past purge runs
+  app.get('/api/admin/retention', devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const org = await storage.getOrganization(user.orgId);
+      if (!org) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const runs = await storage.getRetentionRuns(user.orgId);
+
+      res.json({
+        dataRetentionDays: org.dataRetentionDays,
+        minimizeLogging: org.minimizeLogging,
+        cutoff: retentionCutoff(org),
+        runs,
+      });
+    } catch (error) {
+      console.error("Error fetching retention settings:", error);
+      res.status(500).json({ message: "Failed to fetch retention settings" });
+    }
+  });
+
+  app.put('/api/admin/retention', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const policy = retentionPolicySchema.parse(req.body ?? {});
+      await storage.updateOrganization(user.orgId, policy);
+      await auditLog(req, 'retention_policy_updated', policy);
+
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating retention settings:", error);
+      res.status(500).json({ message: "Failed to update retention settings" });
+    }
+  });
+
+  // Purge now, or preview with dryRun; the scheduler also runs this daily
+  app.post('/api/admin/retention/run', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const { dryRun } = z.object({ dryRun: z.boolean().default(true) }).parse(req.body ?? {});
+      const org = await storage.getOrganization(user.orgId);
+      if (!org || !retentionCutoff(org)) {
+        return res.status(400).json({ message: "Set a retention period first" });
+      }
+
+      const run = await runRetention(org, { dryRun, triggeredBy: user.id });
+      res.status(run.status === 'failed' ? 500 : 201).json(run);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error running retention:", error);
+      res.status(500).json({ message: "Failed to run retention" });
+    }
+  });
+
+  app.get('/api/admin/retention/runs/:id/report', devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      const run = await storage.getRetentionRun(req.params.id);
+      if (!run || !user?.orgId || run.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Retention run not found" });
+      }
+
+      await auditLog(req, 'retention_report_downloaded', { runId: run.id });
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="purge-report-${run.startedAt.toISOString().slice(0, 10)}-${run.id.slice(0, 8)}.csv"`);
+      await writeRetentionReport(run, chunk => res.write(chunk));
+      res.end();
+    } catch (error) {
+      console.error("Error downloading purge report:", error);
+      // A report that failed part way has already started; cut it short
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to download purge report" });
+    }
+  });
+
+  // Patient privacy requests (access, correction, erasure); see server/lib/privacyRequests.ts
+  const handlePrivacyRequestError = (res: any, error: unknown, action: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof PrivacyRequestError) {
+      return res.status(error.code === 'NOT_FOUND' ? 404 : 409).json({ message: error.message, code: error.code });
+    }
+    console.error(`Error ${action}:`, error);
+    res.status(500).json({ message: `Failed ${action}` });
+  };
+
+  // The request, when it belongs to the signed-in user's organization
+  const getOrgPrivacyRequest = async (req: any) => {
+    const user = await getRequestUser(req);
+    const request = await storage.getPrivacyRequest(req.params.id);
+    if (!request || !user?.orgId || request.orgId !== user.orgId) {
+      throw new PrivacyRequestError('NOT_FOUND', 'Privacy request not found');
+    }
+    return { user, request };
+  };
+
+  app.get('/api/admin/privacy-requests', devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const filter = privacyRequestQuerySchema.parse(req.query);
+      const [requests, patients] = await Promise.all([
+        storage.getPrivacyRequests(user.orgId, filter),
+        storage.getPatients(user.orgId, { includeArchived: true }),
+      ]);
+      const patientNames = new Map(patients.map(patient => [patient.id, patient.name]));
+
+      res.json(requests.map(request => ({ ...request, patientName: patientNames.get(request.patientId) ?? null })));
+    } catch (error) {
+      handlePrivacyRequestError(res, error, "to fetch privacy requests");
+    }
+  });
+
+  app.post('/api/admin/privacy-requests', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
+      }
+
+      const input = privacyRequestInputSchema.parse(req.body);
+      const request = await createPrivacyRequest(user.orgId, input, user.id);
+      await auditLog(req, 'privacy_request_created', { privacyRequestId: request.id, patientId: request.patientId, requestType: request.type, dueAt: request.dueAt });
+
+      res.status(201).json(request);
+    } catch (error) {
+      handlePrivacyRequestError(res, error, "to log privacy request");
+    }
+  });
+
+  app.post('/api/admin/privacy-requests/:id/extend', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().trim().min(1).max(1000) }).parse(req.body ?? {});
+      const { user, request } = await getOrgPrivacyRequest(req);
+      const org = await storage.getOrganization(user!.orgId!);
+
+      const updated = await extendPrivacyRequest(request, org!, reason);
+      await auditLog(req, 'privacy_request_extended', { privacyRequestId: request.id, dueAt: updated.dueAt, reason });
+
+      res.json(updated);
+    } catch (error) {
+      handlePrivacyRequestError(res, error, "to extend privacy request");
+    }
+  });
+
+  // Everything held about the patient as a ZIP; the request moves to in progress until it is marked completed
+  app.get('/api/admin/privacy-requests/:id/export', devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const { user, request } = await getOrgPrivacyRequest(req);
+      if (request.type !== 'access') {
+        throw new PrivacyRequestError('INVALID_STATE', 'Only access requests can be exported');
+      }
+      const [org, patient] = await Promise.all([storage.getOrganization(user!.orgId!), storage.getPatient(request.patientId)]);
+      if (!patient || patient.orgId !== request.orgId) {
+        throw new PrivacyRequestError('NOT_FOUND', 'Patient not found');
+      }
+
+      const archive = await buildPatientExport(org!, patient);
+      if (request.status === 'received') {
+        await storage.updatePrivacyRequest(request.id, { status: 'inProgress' });
+      }
+      await auditLog(req, 'privacy_export_downloaded', { privacyRequestId: request.id, patientId: patient.id, bytes: archive.length });
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="patient-export-${request.id.slice(0, 8)}.zip"`);
+      res.send(archive);
+    } catch (error) {
+      handlePrivacyRequestError(res, error, "to export patient records");
+    }
+  });
+
+  app.post('/api/admin/privacy-requests/:id/correct', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
+    try {
+      const { user, request } = await getOrgPrivacyRequest(req);
+      const outcome = await applyPatientCorrection(request);
+      const updated = await storage.updatePrivacyRequest(request.id, {
+        status: 'completed',
+        outcome,
+        completedBy: user!.id,
+        completedAt: new Date(),
       });
+      await auditLog(req, 'privacy_correction_applied', { privacyRequestId: request.id, patientId: request.patientId, fields: Object.keys(request.corrections ?? {}) });
 
-      res.json(suggestions);
+      res.json(updated);
     } catch (error) {
-      logger.error('Auto-complete API error', { error });
-      res.status(500).json({ 
-        message: "Failed to get suggestions",
-        fallback: true 
-      });
+      handlePrivacyRequestError(res, error, "to apply correction");
     }
   });
 
-  // Track AI feedback - whether the suggestion was helpful
-  app.post('/api/ai/feedback', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  // Erase as far as retention allows; dryRun (the default) returns the plan without changing anything
+  app.post('/api/admin/privacy-requests/:id/erase', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
     try {
-      const { featureType, helpful } = req.body;
-      if (!featureType || helpful === undefined) {
-        return res.status(400).json({ message: "Feature type and helpful status are required" });
-      }
+      const { dryRun } = z.object({ dryRun: z.boolean().default(true) }).parse(req.body ?? {});
+      const { user, request } = await getOrgPrivacyRequest(req);
+      const org = await storage.getOrganization(user!.orgId!);
 
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.orgId) {
-        return res.status(400).json({ message: "User not associated with organization" });
+      const outcome = await erasePatient(request, org!, { dryRun });
+      if (dryRun) {
+        return res.json({ dryRun, outcome });
       }
 
-      // Track feedback
-      await storage.trackAiUsage({
-        userId: user.id,
-        orgId: user.orgId,
-        featureType,
-        helpful,
-        tokensUsed: 0,
-        context: { feedback: true }
+      const updated = await storage.updatePrivacyRequest(request.id, {
+        status: 'completed',
+        outcome,
+        completedBy: user!.id,
+        completedAt: new Date(),
       });
+      const counts = outcome.reduce<Record<string, number>>((totals, item) => {
+        totals[item.action] = (totals[item.action] ?? 0) + 1;
+        return totals;
+      }, {});
+      await auditLog(req, 'privacy_erasure_performed', { privacyRequestId: request.id, patientId: request.patientId, counts });
 
-      res.json({ message: "Feedback recorded" });
+      res.json({ dryRun, outcome, request: updated });
     } catch (error) {
-      logger.error('AI feedback API error', { error });
-      res.status(500).json({ message: "Failed to record feedback" });
+      handlePrivacyRequestError(res, error, "to erase patient records");
     }
   });
 
-  // Get AI usage statistics for the organization
-  app.get('/api/ai/stats', apiLimiter, devAuth(isAuthenticated), async (req: any, res) => {
+  app.patch('/api/admin/privacy-requests/:id', apiLimiter, devAuth(isAuthenticated), requirePermission('privacy:manage'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.orgId) {
-        return res.status(400).json({ message: "User not associated with organization" });
+      const { status, resolution } = privacyRequestUpdateSchema.parse(req.body ?? {});
+      const { user, request } = await getOrgPrivacyRequest(req);
+      if (!isPrivacyRequestOpen(request)) {
+        throw new PrivacyRequestError('INVALID_STATE', `Request is already ${request.status}`);
       }
 
-      // Check if user is admin
-      if (user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const closing = status !== 'inProgress';
+      const updated = await storage.updatePrivacyRequest(request.id, {
+        status,
+        ...(resolution !== undefined ? { resolution } : {}),
+        ...(closing ? { completedBy: user!.id, completedAt: new Date() } : {}),
+      });
+      await auditLog(req, `privacy_request_${status === 'inProgress' ? 'started' : status}`, { privacyRequestId: request.id, patientId: request.patientId });
 
-      const stats = await storage.getAiUsageStats(user.orgId);
-      res.json(stats);
+      res.json(updated);
     } catch (error) {
-      logger.error('AI stats API error', { error });
-      res.status(500).json({ message: "Failed to get AI usage statistics" });
+      handlePrivacyRequestError(res, error, "to update privacy request");
     }
   });
 
-  // Protected file serving
-  app.get("/objects/:objectPath(*)", devAuth(isAuthenticated), async (req: any, res) => {
-    const userId = req.user?.claims?.sub;
-    const objectStorageService = new ObjectStorageService();
+  // PHI key versions and re-encryption runs; keys are deployment-wide. See server/lib/keyRotation.ts
+  const handleKeyRotationError = (res: any, error: unknown, action: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof KeyRotationError) {
+      return res.status(error.code === 'NOT_FOUND' ? 404 : error.code === 'UNKNOWN_KEY' ? 400 : 409).json({ message: error.message, code: error.code });
+    }
+    console.error(`Error ${action}:`, error);
+    res.status(500).json({ message: `Failed ${action}` });
+  };
+
+  app.get('/api/admin/encryption', devAuth(isAuthenticated), requirePermission('encryption:manage'), async (req: any, res) => {
     try {
-      const objectFile = await objectStorageService.getObjectEntityFile(req.path);
-      const canAccess = await objectStorageService.canAccessObjectEntity({
-        objectFile,
-        userId: userId,
-        requestedPermission: ObjectPermission.READ,
+      const keyring = getKeyring();
+      const rotations = await storage.getKeyRotations();
+      res.json({
+        versions: keyring.versions(),
+        activeVersion: keyring.activeVersion,
+        configuredActiveVersion: keyring.configuredActiveVersion,
+        rotations: rotations.map(({ lockedBy, lockedAt, ...rotation }) => rotation),
       });
-      if (!canAccess) {
-        return res.sendStatus(401);
-      }
-      objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
-      console.error("Error checking object access:", error);
-      if (error instanceof ObjectNotFoundError) {
-        return res.sendStatus(404);
-      }
-      return res.sendStatus(500);
+      handleKeyRotationError(res, error, "to fetch encryption keys");
     }
   });
 
-  // Remittances API
-  app.get('/api/remittances', devAuth(isAuthenticated), async (req: any, res) => {
+  app.post('/api/admin/encryption/rotations', apiLimiter, devAuth(isAuthenticated), requirePermission('encryption:manage'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.orgId) {
-        return res.status(400).json({ message: "User not associated with organization" });
-      }
+      const { targetVersion } = z.object({ targetVersion: z.number().int().min(1).max(255).optional() }).parse(req.body ?? {});
+      const user = await getRequestUser(req);
 
-      const remittances = await storage.getRemittances(user.orgId);
-      res.json(remittances);
+      const rotation = await startKeyRotation(user!.id, targetVersion);
+      await auditLog(req, 'key_rotation_started', { keyRotationId: rotation.id, targetVersion: rotation.targetVersion, previousVersion: rotation.previousVersion });
+
+      res.status(201).json(rotation);
     } catch (error) {
-      console.error("Error fetching remittances:", error);
-      res.status(500).json({ message: "Failed to fetch remittances" });
+      handleKeyRotationError(res, error, "to start key rotation");
     }
   });
 
-  app.post('/api/remittances', devAuth(isAuthenticated), async (req: any, res) => {
+  app.post('/api/admin/encryption/rotations/:id/:action(pause|resume|rollback)', apiLimiter, devAuth(isAuthenticated), requirePermission('encryption:manage'), async (req: any, res) => {
     try {
-      const validatedData = insertRemittanceSchema.parse(req.body);
-      const remittance = await storage.createRemittance(validatedData);
-      
-      await auditLog(req, 'remittance_uploaded', { remittanceId: remittance.id });
-      
-      res.status(201).json(remittance);
+      const user = await getRequestUser(req);
+      const { id, action } = req.params;
+
+      const rotation = action === 'pause'
+        ? await pauseKeyRotation(id)
+        : action === 'resume'
+          ? await resumeKeyRotation(id)
+          : await rollbackKeyRotation(id, user!.id);
+      await auditLog(req, `key_rotation_${action === 'rollback' ? 'rolled_back' : `${action}d`}`, { keyRotationId: id, targetVersion: rotation.targetVersion });
+
+      res.json(rotation);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
-      console.error("Error creating remittance:", error);
-      res.status(500).json({ message: "Failed to create remittance" });
+      handleKeyRotationError(res, error, `to ${req.params.action} key rotation`);
     }
   });
 
-  // EDI Connector API Routes
-  app.post('/api/connectors/submit', devAuth(isAuthenticated), async (req: any, res) => {
+  // Idle and absolute session timeouts for the organization
+  app.get('/api/admin/session-policy', devAuth(isAuthenticated), requirePermission('sessions:manage'), async (req: any, res) => {
     try {
-      const { claimId, connector } = req.body;
-      
-      if (!claimId || !connector) {
-        return res.status(400).json({ message: "claimId and connector are required" });
-      }
-
-      // Validate connector type
-      if (!['cdanet', 'eclaims', 'portal'].includes(connector)) {
-        return res.status(400).json({ message: "Invalid connector type" });
-      }
-
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      // RBAC: provider can submit own org; billing/admin all org
-      const claim = await storage.getClaim(claimId);
-      if (!claim) {
-        return res.status(404).json({ message: "Claim not found" });
-      }
+      const org = await storage.getOrganization(user.orgId);
+      const { idleTimeoutMinutes, maxLifetimeHours } = policyFromOrganization(org);
+      res.json({ sessionIdleTimeoutMinutes: idleTimeoutMinutes, sessionMaxLifetimeHours: maxLifetimeHours });
+    } catch (error) {
+      console.error("Error fetching session policy:", error);
+      res.status(500).json({ message: "Failed to fetch session policy" });
+    }
+  });
 
-      if (claim.orgId !== user.orgId && !['billing', 'admin'].includes(user.role)) {
-        return res.status(403).json({ message: "Insufficient permissions" });
+  app.put('/api/admin/session-policy', apiLimiter, devAuth(isAuthenticated), requirePermission('sessions:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      // Import job queue dynamically to avoid circular dependencies
-      const { jobQueue } = await import('./lib/jobs');
-      
-      // Enqueue job
-      const jobId = await jobQueue.enqueue({
-        type: 'submit',
-        claimId,
-        connector: connector as any,
-      });
-
-      await auditLog(req, 'claim_submission_queued', { claimId, connector, jobId });
+      const policy = sessionPolicySchema.parse(req.body ?? {});
+      await storage.updateOrganization(user.orgId, policy);
+      clearSessionPolicyCache(user.orgId);
+      await auditLog(req, 'session_policy_updated', policy);
 
-      res.json({ 
-        queued: true, 
-        jobId,
-        message: `Claim queued for submission via ${connector}` 
-      });
+      res.json(policy);
     } catch (error) {
-      console.error("Error queuing claim submission:", error);
-      res.status(500).json({ message: "Failed to queue claim submission" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating session policy:", error);
+      res.status(500).json({ message: "Failed to update session policy" });
     }
   });
 
-  // Get connector status for claim
-  app.get('/api/connectors/:claimId/status', devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/admin/audit', devAuth(isAuthenticated), requirePermission('audit:read'), async (req: any, res) => {
     try {
-      const { claimId } = req.params;
-      
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const claim = await storage.getClaim(claimId);
-      if (!claim) {
-        return res.status(404).json({ message: "Claim not found" });
+      const { limit, offset, ...filter } = auditQuerySchema.parse(req.query);
+      const { events, total } = await storage.searchAuditEvents(user.orgId, filter, { limit, offset });
+      res.json({ events, total, limit, offset });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
 
-      if (claim.orgId !== user.orgId && !['billing', 'admin'].includes(user.role)) {
-        return res.status(403).json({ message: "Insufficient permissions" });
+  // Recompute the organization's audit hash chain and report gaps and edits
+  app.get('/api/admin/audit/verify', apiLimiter, devAuth(isAuthenticated), requirePermission('audit:read'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      // Get latest connector event
-      const events = await storage.getConnectorEvents(claimId);
-      const lastEvent = events[0]; // Most recent event
-
-      res.json({
-        claimId,
-        status: claim.status,
-        externalId: claim.externalId,
-        lastSync: lastEvent?.createdAt,
-        lastEvent: lastEvent ? {
-          type: lastEvent.type,
-          connector: lastEvent.connector,
-          payload: lastEvent.payload,
-        } : null,
-      });
+      const org = await storage.getOrganization(user.orgId);
+      const base = org?.auditChainBaseSeq != null && org.auditChainBaseHash
+        ? { seq: org.auditChainBaseSeq, hash: org.auditChainBaseHash }
+        : null;
+      const report = verifyAuditChain(await storage.getAuditChain(user.orgId), base);
+      await auditLog(req, 'audit_verified', { valid: report.valid, checked: report.checked, issues: report.issues.length });
+      res.json(report);
     } catch (error) {
-      console.error("Error fetching connector status:", error);
-      res.status(500).json({ message: "Failed to fetch connector status" });
+      console.error("Error verifying audit log:", error);
+      res.status(500).json({ message: "Failed to verify audit log" });
     }
   });
 
-  // Admin: Configure connectors
-  app.post('/api/admin/connectors/config', devAuth(isAuthenticated), async (req: any, res) => {
+  // Filtered audit events, oldest first, signed with HMAC-SHA256 in X-Audit-Signature
+  app.get('/api/admin/audit/export', apiLimiter, devAuth(isAuthenticated), requirePermission('audit:read'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.orgId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const validatedData = insertConnectorConfigSchema.parse({
-        ...req.body,
-        orgId: user.orgId,
-      });
+      const { format, ...filter } = auditExportSchema.parse(req.query);
+      const { events, total } = await storage.searchAuditEvents(user.orgId, filter, { limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+      if (total > events.length) {
+        return res.status(400).json({ message: `Export is limited to ${AUDIT_EXPORT_LIMIT} events; narrow the date range` });
+      }
 
-      const config = await storage.upsertConnectorConfig(validatedData);
-      
-      await auditLog(req, 'connector_config_updated', { 
-        connectorName: config.name, 
-        enabled: config.enabled,
-        mode: config.mode 
-      });
+      const body = formatAuditExport(events.reverse(), format);
+      await auditLog(req, 'audit_exported', { format, count: events.length, filter });
 
-      res.json(config);
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.${format}"`);
+      res.setHeader('X-Audit-Signature', `sha256=${signAuditExport(body)}`);
+      res.send(body);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error updating connector config:", error);
-      res.status(500).json({ message: "Failed to update connector config" });
+      console.error("Error exporting audit events:", error);
+      res.status(500).json({ message: "Failed to export audit events" });
     }
   });
 
-  // Admin: Test connector dry-run
-  app.post('/api/connectors/test', devAuth(isAuthenticated), async (req: any, res) => {
+  // Admin: connector job queue
+  app.get('/api/admin/jobs', devAuth(isAuthenticated), requirePermission('jobs:manage'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.orgId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      const { claimId, connector } = req.body;
-      
-      if (!claimId || !connector) {
-        return res.status(400).json({ message: "claimId and connector are required" });
-      }
+      const status = jobStatusEnum.enumValues.find(value => value === req.query.status);
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
 
-      const claim = await storage.getClaim(claimId);
-      if (!claim) {
-        return res.status(404).json({ message: "Claim not found" });
-      }
+      const { jobQueue } = await import('./lib/jobs');
+      const [jobs, stats] = await Promise.all([
+        jobQueue.getAllJobs({ orgId: user.orgId, status, limit }),
+        jobQueue.getStats(user.orgId),
+      ]);
 
-      // Get connector instance and validate only (dry-run)
-      const { getConnector } = await import('./connectors/base');
-      const connectorInstance = await getConnector(connector as any, user.orgId);
-      
-      await connectorInstance.validate(claim);
+      res.json({ jobs, stats });
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
 
-      // Return mapped payload (with PHI redacted for logs)
-      let mappedPayload: any = {};
-      
-      if (connector === 'cdanet') {
-        const { mapClaimToCDAnet } = await import('./mappers/cdanet');
-        const [patient] = await storage.getPatients(user.orgId, { id: claim.patientId });
-        const [provider] = await storage.getProviders(user.orgId, { id: claim.providerId });
-        
-        if (patient && provider) {
-          mappedPayload = mapClaimToCDAnet(claim, patient, provider);
-        }
-      } else if (connector === 'eclaims') {
-        const { mapClaimToEClaims } = await import('./mappers/eclaims');
-        const [patient] = await storage.getPatients(user.orgId, { id: claim.patientId });
-        const [provider] = await storage.getProviders(user.orgId, { id: claim.providerId });
-        
-        if (patient && provider) {
-          mappedPayload = mapClaimToEClaims(claim, patient, provider);
-        }
+  app.post('/api/admin/jobs/:id/retry', devAuth(isAuthenticated), requirePermission('jobs:manage'), async (req: any, res) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      await auditLog(req, 'connector_test_run', { claimId, connector });
+      const { jobQueue } = await import('./lib/jobs');
+      const job = await jobQueue.getStatus(req.params.id);
+      if (!job || job.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Job not found" });
+      }
 
-      res.json({
-        valid: true,
-        connector,
-        mappedPayload,
-        message: `Claim validation successful for ${connector}`,
-      });
+      const updated = await jobQueue.retry(job.id);
+      if (!updated) {
+        return res.status(409).json({ message: `Job cannot be retried while ${job.status}` });
+      }
 
+      await auditLog(req, 'job_retried', { jobId: job.id, claimId: job.claimId, previousStatus: job.status });
+      res.json(updated);
     } catch (error) {
-      console.error("Error testing connector:", error);
-      res.status(500).json({ 
-        valid: false,
-        message: (error as Error).message || "Connector test failed" 
-      });
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
     }
   });
 
-  // Admin endpoints
-  app.get('/api/admin/users', devAuth(isAuthenticated), async (req: any, res) => {
+  app.post('/api/admin/jobs/:id/cancel', devAuth(isAuthenticated), requirePermission('jobs:manage'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const user = await getRequestUser(req);
+      if (!user?.orgId) {
+        return res.status(400).json({ message: "User not associated with organization" });
       }
 
-      // TODO: Implement user listing for admin
-      res.json([]);
-    } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ message: "Failed to fetch users" });
-    }
-  });
+      const { jobQueue } = await import('./lib/jobs');
+      const job = await jobQueue.getStatus(req.params.id);
+      if (!job || job.orgId !== user.orgId) {
+        return res.status(404).json({ message: "Job not found" });
+      }
 
-  app.get('/api/admin/audit', devAuth(isAuthenticated), async (req: any, res) => {
-    try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user?.role !== 'admin' || !user.orgId) {
-        return res.status(403).json({ message: "Admin access required" });
+      const updated = await jobQueue.cancel(job.id);
+      if (!updated) {
+        return res.status(409).json({ message: `Job cannot be cancelled while ${job.status}` });
       }
 
-      const events = await storage.getAuditEvents(user.orgId);
-      res.json(events);
+      await auditLog(req, 'job_cancelled', { jobId: job.id, claimId: job.claimId });
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching audit events:", error);
-      res.status(500).json({ message: "Failed to fetch audit events" });
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
     }
   });
 
@@ -3004,7 +5695,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/investor/metrics', devAuth(isAuthenticated), async (req: any, res) => {
     try {
       // Get real metrics from database
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       if (!user?.orgId) {
         // Return demo data if no org
         const demoMetrics = {
@@ -3100,7 +5791,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/investor/activity', devAuth(isAuthenticated), async (req: any, res) => {
     try {
       // Get recent claims activity
-      const user = await storage.getUser(req.user.claims.sub);
+      const user = await getRequestUser(req);
       
       // Return demo activity if no org
       const demoActivity = [
@@ -3391,14 +6082,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin Coverage Dashboard route
-  app.get('/api/admin/coverage', devAuth(isAuthenticated), async (req: any, res) => {
+  app.get('/api/admin/coverage', devAuth(isAuthenticated), requirePermission('reports:read'), async (req: any, res) => {
     try {
-      // Check if user is admin
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       // Load coverage data
       const { loadCoverageData } = await import('./lib/coverage');
       const coverageData = loadCoverageData();
@@ -4,6 +4,8 @@
  */
 
 import { ConnectorError } from '../lib/errors';
+import type { ClaimLine, ClaimLineAdjudication } from '../../shared/schema';
+import type { AttachmentDocument, AttachmentResult, EligibilityResult } from '../connectors/base';
 
 export interface SimulatorResult {
   status: 'pending' | 'infoRequested' | 'paid' | 'denied';
@@ -123,6 +125,118 @@ export function simulateEClaimsResponse(claimAmount: number, claimId: string): S
   }
 }
 
+/**
+ * Split a simulated claim decision into per-line adjudication results.
+ * Paid claims pay every line in full; denied claims deny every line with the
+ * simulator's denial code. Undecided claims have no line results yet.
+ */
+export function simulateLineAdjudication(
+  lines: Array<Pick<ClaimLine, 'lineNumber' | 'fee' | 'units'>>,
+  result: SimulatorResult
+): ClaimLineAdjudication[] {
+  if (result.status !== 'paid' && result.status !== 'denied') {
+    return [];
+  }
+
+  const reasonCode = result.details?.denialCode || result.details?.rejectionCode;
+
+  return lines.map(line => {
+    const lineTotal = parseFloat(line.fee.toString()) * line.units;
+    return result.status === 'paid'
+      ? { lineNumber: line.lineNumber, eligibleAmount: lineTotal, paidAmount: lineTotal, deniedAmount: 0 }
+      : {
+          lineNumber: line.lineNumber,
+          eligibleAmount: 0,
+          paidAmount: 0,
+          deniedAmount: lineTotal,
+          reasonCodes: reasonCode ? [reasonCode] : [],
+        };
+  });
+}
+
+/**
+ * Eligibility sandbox simulator with deterministic rules
+ * Keyed on the last two digits of the member ID (certificate or health card
+ * number), mirroring the amount-based rules used for claims.
+ */
+export function simulateEligibilityResponse(memberId: string, serviceDate: Date): EligibilityResult {
+  const digits = memberId.replace(/\D/g, '');
+  const lastTwoDigits = digits.slice(-2);
+  const reference = `SBX-ELIG-${digits.slice(-6) || '000000'}`;
+
+  switch (lastTwoDigits) {
+    case '99':
+      return {
+        status: 'ineligible',
+        message: 'Coverage terminated before the date of service',
+        externalId: reference,
+        raw: { sandbox: true, terminationDate: new Date(serviceDate.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString() },
+      };
+
+    case '13':
+      return {
+        status: 'unknown',
+        message: 'Carrier could not confirm coverage; verify with the plan administrator',
+        externalId: reference,
+        raw: { sandbox: true },
+      };
+
+    default:
+      return {
+        status: 'eligible',
+        message: 'Patient is covered on the date of service',
+        externalId: reference,
+        coverage: [
+          { category: 'preventive', coveragePercent: 100, annualMaximum: 1500, remainingMaximum: 1250, deductibleRemaining: 0 },
+          { category: 'basic', coveragePercent: 80, annualMaximum: 1500, remainingMaximum: 1250, deductibleRemaining: 25 },
+          { category: 'major', coveragePercent: 50, annualMaximum: 1500, remainingMaximum: 1250, deductibleRemaining: 25, notes: 'Waiting period applies to new members' },
+        ],
+        raw: { sandbox: true },
+      };
+  }
+}
+
+/**
+ * Attachment sandbox simulator with deterministic rules
+ * Keyed on the last two digits of the file size in bytes: '99' is rejected
+ * as unreadable, '13' as the wrong document type; everything else is
+ * accepted. `reference` is the claim's external ID.
+ */
+export function simulateAttachmentResponse(
+  document: Pick<AttachmentDocument, 'attachmentId' | 'size'>,
+  reference: string
+): AttachmentResult {
+  const lastTwoDigits = String(document.size).padStart(2, '0').slice(-2);
+  const documentReference = `${reference}-DOC-${document.attachmentId.slice(0, 8).toUpperCase()}`;
+
+  switch (lastTwoDigits) {
+    case '99':
+      return {
+        attachmentId: document.attachmentId,
+        status: 'rejected',
+        message: 'Document rejected - file is unreadable',
+        raw: { sandbox: true, rejectionCode: 'ATT001' },
+      };
+
+    case '13':
+      return {
+        attachmentId: document.attachmentId,
+        status: 'rejected',
+        message: 'Document rejected - document type not accepted for this claim',
+        raw: { sandbox: true, rejectionCode: 'ATT002' },
+      };
+
+    default:
+      return {
+        attachmentId: document.attachmentId,
+        status: 'accepted',
+        externalId: documentReference,
+        message: 'Document received',
+        raw: { sandbox: true, receivedAt: new Date().toISOString() },
+      };
+  }
+}
+
 /**
  * Validate mock token for sandbox OAuth simulation
  */
@@ -0,0 +1,630 @@
+/**
+ * SCIM 2.0 provisioning API (RFC 7643/7644)
+ * Directories such as Azure AD and Okta create, update and deprovision staff
+ * accounts at /scim/v2 with an organization's bearer token from scim_tokens.
+ * Users are the organization's home users and members (getOrgUsers); Groups
+ * are its roles, so adding a user to a group gives them that role.
+ * Deprovisioning deactivates home users and ends their sessions, and takes
+ * members' access to the organization away.
+ */
+
+import crypto from 'node:crypto';
+import express, { type Express, type Request, type Response } from 'express';
+import { z } from 'zod';
+import type { ScimToken } from '@shared/schema';
+import { BUILT_IN_ROLES, isBuiltInRole } from '@shared/permissions';
+import { storage } from './storage';
+import { MembershipError, addMember, getOrgUsers, type OrgUser } from './lib/memberships';
+import { apiKeyLimiter, apiLimiter } from './security/rateLimiter';
+
+const SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+};
+
+// The role users fall back to when the directory takes them out of a group
+const DEFAULT_ROLE = 'provider';
+const MAX_RESULTS = 200;
+
+export class ScimError extends Error {
+  public status: number;
+  public scimType?: string;
+
+  constructor(status: number, message: string, scimType?: string) {
+    super(message);
+    this.name = 'ScimError';
+    this.status = status;
+    this.scimType = scimType;
+  }
+}
+
+export interface ScimRequest extends Request {
+  scimToken?: ScimToken;
+}
+
+// Changes to a user, from a SCIM resource or PATCH operations
+export interface ScimUserChanges {
+  email?: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  role?: string;
+  active?: boolean;
+}
+
+// Member changes to a Group; `replace` is the complete new member list
+export interface GroupMemberChanges {
+  add: string[];
+  remove: string[];
+  replace?: string[];
+  removeAll?: boolean;
+}
+
+export function hashScimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a bearer token for orgId; the plain token is only returned here
+ */
+export async function issueScimToken(orgId: string, name: string, createdBy: string) {
+  const token = `scim_${crypto.randomBytes(32).toString('base64url')}`;
+  const record = await storage.createScimToken({
+    orgId,
+    name,
+    createdBy,
+    tokenHash: hashScimToken(token),
+    tokenPrefix: token.slice(0, 12),
+  });
+  return { token, record };
+}
+
+// Azure AD sends booleans as "True"/"False"
+function toBoolean(value: unknown): boolean {
+  return typeof value === 'string' ? value.toLowerCase() === 'true' : value === true;
+}
+
+const scimEmailSchema = z.string().trim().toLowerCase().email();
+
+const scimUserSchema = z.object({
+  userName: z.string().trim().min(1),
+  name: z.object({
+    givenName: z.string().nullish(),
+    familyName: z.string().nullish(),
+  }).passthrough().optional(),
+  emails: z.array(z.object({ value: z.string(), primary: z.unknown().optional() }).passthrough()).optional(),
+  active: z.unknown().optional(),
+  roles: z.array(z.object({ value: z.string() }).passthrough()).optional(),
+}).passthrough();
+
+const patchSchema = z.object({
+  Operations: z.array(z.object({
+    op: z.string(),
+    path: z.string().optional(),
+    value: z.unknown().optional(),
+  })).min(1),
+});
+
+/**
+ * Changes described by a full SCIM User resource (POST and PUT)
+ */
+export function changesFromScimUser(body: unknown): ScimUserChanges {
+  const resource = scimUserSchema.parse(body);
+  const primaryEmail = resource.emails?.find(email => toBoolean(email.primary)) ?? resource.emails?.[0];
+  return {
+    email: scimEmailSchema.parse(primaryEmail?.value ?? resource.userName),
+    firstName: resource.name?.givenName ?? null,
+    lastName: resource.name?.familyName ?? null,
+    role: resource.roles?.[0]?.value,
+    active: resource.active === undefined ? true : toBoolean(resource.active),
+  };
+}
+
+function firstEmailValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const primary = value.find(email => toBoolean(email?.primary)) ?? value[0];
+    return primary?.value;
+  }
+  return value;
+}
+
+function roleValue(value: unknown): string | undefined {
+  const [first] = Array.isArray(value) ? value : [value];
+  const role = typeof first === 'object' && first !== null ? (first as { value?: unknown }).value : first;
+  return typeof role === 'string' && role ? role : undefined;
+}
+
+/**
+ * Changes described by PATCH operations on a User. Attributes MedLink does
+ * not keep (title, phone numbers, externalId) are accepted and ignored.
+ */
+export function changesFromUserPatch(body: unknown): ScimUserChanges {
+  const changes: ScimUserChanges = {};
+
+  const apply = (op: string, path: string, value: unknown) => {
+    const attribute = path.toLowerCase();
+    if (attribute === 'active') {
+      changes.active = op === 'remove' ? false : toBoolean(value);
+    } else if (attribute === 'username' || attribute.startsWith('emails')) {
+      if (op !== 'remove') changes.email = scimEmailSchema.parse(firstEmailValue(value));
+    } else if (attribute === 'name.givenname') {
+      changes.firstName = op === 'remove' ? null : String(value ?? '') || null;
+    } else if (attribute === 'name.familyname') {
+      changes.lastName = op === 'remove' ? null : String(value ?? '') || null;
+    } else if (attribute === 'name' && typeof value === 'object' && value !== null) {
+      for (const [key, nested] of Object.entries(value)) apply(op, `name.${key}`, nested);
+    } else if (attribute.startsWith('roles')) {
+      changes.role = op === 'remove' ? DEFAULT_ROLE : roleValue(value) ?? changes.role;
+    }
+  };
+
+  for (const operation of patchSchema.parse(body).Operations) {
+    const op = operation.op.toLowerCase();
+    if (operation.path) {
+      apply(op, operation.path, operation.value);
+    } else if (typeof operation.value === 'object' && operation.value !== null) {
+      // Okta sends { op: "replace", value: { active: false } }
+      for (const [path, value] of Object.entries(operation.value)) apply(op, path, value);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Member changes described by PATCH operations on a Group
+ */
+export function memberChangesFromGroupPatch(body: unknown): GroupMemberChanges {
+  const changes: GroupMemberChanges = { add: [], remove: [] };
+  const memberIds = (value: unknown) =>
+    (Array.isArray(value) ? value : [value])
+      .map(member => (typeof member === 'object' && member !== null ? (member as { value?: unknown }).value : member))
+      .filter((id): id is string => typeof id === 'string');
+
+  for (const operation of patchSchema.parse(body).Operations) {
+    const op = operation.op.toLowerCase();
+    const path = operation.path ?? '';
+    const filtered = /^members\[value eq "([^"]+)"\]$/i.exec(path);
+
+    if (filtered && op === 'remove') {
+      changes.remove.push(filtered[1]);
+    } else if (path.toLowerCase() === 'members') {
+      if (op === 'add') changes.add.push(...memberIds(operation.value));
+      else if (op === 'replace') changes.replace = memberIds(operation.value);
+      else if (op === 'remove' && operation.value === undefined) changes.removeAll = true;
+      else if (op === 'remove') changes.remove.push(...memberIds(operation.value));
+    } else if (!path && op === 'replace' && typeof operation.value === 'object' && operation.value !== null) {
+      const members = (operation.value as { members?: unknown }).members;
+      if (members !== undefined) changes.replace = memberIds(members);
+    }
+    // displayName changes are ignored; roles are renamed in MedLink
+  }
+  return changes;
+}
+
+/**
+ * Parse an `attribute eq "value"` filter, the only form directories rely on
+ */
+export function parseScimFilter(filter: unknown, attributes: string[]): { attribute: string; value: string } | null {
+  if (typeof filter !== 'string' || !filter.trim()) {
+    return null;
+  }
+  const match = /^\s*([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(filter);
+  const attribute = match?.[1].toLowerCase();
+  if (!match || !attribute || !attributes.includes(attribute)) {
+    throw new ScimError(400, `Unsupported filter; use ${attributes.join(' or ')} eq "value"`, 'invalidFilter');
+  }
+  return { attribute, value: match[2].replace(/\\(.)/g, '$1') };
+}
+
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}/scim/v2`;
+}
+
+function send(res: Response, status: number, body: unknown) {
+  res.status(status).type('application/scim+json').json(body);
+}
+
+function listResponse(req: Request, resources: unknown[]) {
+  const startIndex = Math.max(1, Number.parseInt(String(req.query.startIndex ?? '1'), 10) || 1);
+  const requested = Number.parseInt(String(req.query.count ?? MAX_RESULTS), 10);
+  const count = Math.min(MAX_RESULTS, Math.max(0, Number.isFinite(requested) ? requested : MAX_RESULTS));
+  const page = resources.slice(startIndex - 1, startIndex - 1 + count);
+  return {
+    schemas: [SCHEMAS.listResponse],
+    totalResults: resources.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  };
+}
+
+export function toScimUser(user: OrgUser, base: string) {
+  const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return {
+    schemas: [SCHEMAS.user],
+    id: user.id,
+    userName: user.email,
+    name: { givenName: user.firstName, familyName: user.lastName, formatted: displayName || undefined },
+    displayName: displayName || user.email,
+    emails: user.email ? [{ value: user.email, type: 'work', primary: true }] : [],
+    active: !user.deactivatedAt,
+    roles: [{ value: user.role, primary: true }],
+    meta: {
+      resourceType: 'User',
+      created: user.createdAt?.toISOString(),
+      lastModified: user.updatedAt?.toISOString(),
+      location: `${base}/Users/${user.id}`,
+    },
+  };
+}
+
+interface GroupRole {
+  key: string;
+  name: string;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+}
+
+async function getGroupRoles(orgId: string): Promise<GroupRole[]> {
+  return [...Object.values(BUILT_IN_ROLES), ...(await storage.getRoles(orgId))];
+}
+
+export function toScimGroup(role: GroupRole, users: OrgUser[], base: string) {
+  return {
+    schemas: [SCHEMAS.group],
+    id: role.key,
+    displayName: role.name,
+    members: users
+      .filter(user => user.role === role.key && !user.deactivatedAt)
+      .map(user => ({ value: user.id, display: user.email, $ref: `${base}/Users/${user.id}` })),
+    meta: {
+      resourceType: 'Group',
+      created: role.createdAt?.toISOString(),
+      lastModified: role.updatedAt?.toISOString(),
+      location: `${base}/Groups/${role.key}`,
+    },
+  };
+}
+
+async function audit(req: ScimRequest, type: string, details: Record<string, unknown>) {
+  await storage.createAuditEvent({
+    orgId: req.scimToken!.orgId,
+    type,
+    details: { ...details, source: 'scim', tokenId: req.scimToken!.id },
+    ip: req.ip || '',
+    userAgent: req.get('User-Agent') || '',
+  });
+}
+
+async function findOrgUser(orgId: string, userId: string): Promise<OrgUser> {
+  const user = (await getOrgUsers(orgId)).find(candidate => candidate.id === userId);
+  if (!user) {
+    throw new ScimError(404, 'User not found');
+  }
+  return user;
+}
+
+// A member removed by deactivation is no longer an org user; the response
+// still describes them as inactive
+async function findRemovedUser(userId: string): Promise<OrgUser> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new ScimError(404, 'User not found');
+  }
+  return { ...user, deactivatedAt: user.deactivatedAt ?? new Date(), membershipId: null };
+}
+
+async function setOrgRole(req: ScimRequest, target: OrgUser, role: string) {
+  const orgId = req.scimToken!.orgId;
+  if (role === target.role) {
+    return;
+  }
+  if (!isBuiltInRole(role) && !(await storage.getRoleByKey(orgId, role))) {
+    throw new ScimError(400, `Unknown role "${role}"`, 'invalidValue');
+  }
+  // Members hold their role on the membership; users.role is the home organization's
+  if (target.membershipId) {
+    await storage.updateMembership(target.membershipId, { role });
+  } else {
+    await storage.updateUser(target.id, { role });
+  }
+  await audit(req, 'user_role_changed', { userId: target.id, fromRole: target.role, toRole: role });
+}
+
+/**
+ * Deactivate a home user and sign them out everywhere, or remove a member
+ */
+async function deprovisionUser(req: ScimRequest, target: OrgUser) {
+  if (target.membershipId) {
+    await storage.deleteMembership(target.membershipId);
+    await audit(req, 'member_removed', { userId: target.id, membershipId: target.membershipId });
+    return;
+  }
+  if (target.deactivatedAt) {
+    return;
+  }
+  await storage.updateUser(target.id, { deactivatedAt: new Date() });
+  const sessionsEnded = await storage.deleteUserSessions(target.id);
+  await audit(req, 'user_deactivated', { userId: target.id, sessionsEnded });
+}
+
+async function applyUserChanges(req: ScimRequest, target: OrgUser, changes: ScimUserChanges) {
+  if (changes.active === false) {
+    await deprovisionUser(req, target);
+    return;
+  }
+
+  // A member's profile belongs to their home organization
+  if (!target.membershipId) {
+    const updates: Partial<OrgUser> = {};
+    if (changes.email && changes.email !== target.email) {
+      const existing = await storage.getUserByEmail(changes.email);
+      if (existing && existing.id !== target.id) {
+        throw new ScimError(409, 'Another user already has this email address', 'uniqueness');
+      }
+      updates.email = changes.email;
+    }
+    if (changes.firstName !== undefined && changes.firstName !== target.firstName) updates.firstName = changes.firstName;
+    if (changes.lastName !== undefined && changes.lastName !== target.lastName) updates.lastName = changes.lastName;
+    if (changes.active === true && target.deactivatedAt) updates.deactivatedAt = null;
+
+    if (Object.keys(updates).length > 0) {
+      await storage.updateUser(target.id, updates);
+      await audit(req, updates.deactivatedAt === null ? 'user_reactivated' : 'user_updated', {
+        userId: target.id,
+        fields: Object.keys(updates),
+      });
+    }
+  }
+
+  if (changes.role) {
+    await setOrgRole(req, target, changes.role);
+  }
+}
+
+async function createUser(req: ScimRequest, changes: ScimUserChanges): Promise<OrgUser> {
+  const orgId = req.scimToken!.orgId;
+  const role = changes.role ?? DEFAULT_ROLE;
+  if (!isBuiltInRole(role) && !(await storage.getRoleByKey(orgId, role))) {
+    throw new ScimError(400, `Unknown role "${role}"`, 'invalidValue');
+  }
+
+  const existing = await storage.getUserByEmail(changes.email!);
+  if (existing) {
+    // Someone from another organization (e.g. a billing agency) joins as a member
+    const membership = await addMember(orgId, existing, role);
+    await audit(req, 'member_added', { userId: existing.id, membershipId: membership.id, role });
+    return findOrgUser(orgId, existing.id);
+  }
+
+  const user = await storage.createUser({
+    email: changes.email!,
+    firstName: changes.firstName ?? null,
+    lastName: changes.lastName ?? null,
+    role,
+    orgId,
+    deactivatedAt: changes.active === false ? new Date() : null,
+  });
+  await audit(req, 'user_provisioned', { userId: user.id, role });
+  return { ...user, membershipId: null };
+}
+
+async function setGroupMembers(req: ScimRequest, key: string, changes: GroupMemberChanges) {
+  const users = await getOrgUsers(req.scimToken!.orgId);
+  const inGroup = users.filter(user => user.role === key).map(user => user.id);
+  const add = changes.replace ?? changes.add;
+  const remove = changes.replace || changes.removeAll
+    ? inGroup.filter(id => !add.includes(id))
+    : changes.remove;
+
+  for (const id of add) {
+    const target = users.find(user => user.id === id);
+    if (!target) {
+      throw new ScimError(400, `No user with id "${id}" in this organization`, 'invalidValue');
+    }
+    await setOrgRole(req, target, key);
+  }
+  for (const id of remove) {
+    const target = users.find(user => user.id === id);
+    if (target && target.role === key) {
+      await setOrgRole(req, target, DEFAULT_ROLE);
+    }
+  }
+}
+
+async function findGroupRole(orgId: string, key: string): Promise<GroupRole> {
+  const role = (await getGroupRoles(orgId)).find(candidate => candidate.key === key);
+  if (!role) {
+    throw new ScimError(404, 'Group not found');
+  }
+  return role;
+}
+
+async function authenticateScim(req: ScimRequest, res: Response, next: () => void) {
+  try {
+    const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+    const record = scheme?.toLowerCase() === 'bearer' && token
+      ? await storage.getScimTokenByHash(hashScimToken(token))
+      : undefined;
+    if (!record) {
+      return send(res, 401, { schemas: [SCHEMAS.error], status: '401', detail: 'Invalid or missing bearer token' });
+    }
+    req.scimToken = record;
+    await storage.touchScimToken(record.id);
+    next();
+  } catch (error) {
+    console.error('SCIM authentication error:', error);
+    send(res, 500, { schemas: [SCHEMAS.error], status: '500', detail: 'Authentication failed' });
+  }
+}
+
+// Every SCIM error uses the RFC 7644 error body
+function scimRoute(handler: (req: ScimRequest, res: Response) => Promise<void>) {
+  return async (req: ScimRequest, res: Response) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      let status = 500;
+      let scimType: string | undefined;
+      let detail = 'Internal server error';
+      if (error instanceof ScimError) {
+        ({ status, scimType } = error);
+        detail = error.message;
+      } else if (error instanceof z.ZodError) {
+        status = 400;
+        scimType = 'invalidValue';
+        detail = error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+      } else if (error instanceof MembershipError && error.code === 'CONFLICT') {
+        status = 409;
+        scimType = 'uniqueness';
+        detail = error.message;
+      } else {
+        console.error('SCIM error:', error);
+      }
+      send(res, status, { schemas: [SCHEMAS.error], status: String(status), ...(scimType && { scimType }), detail });
+    }
+  };
+}
+
+/**
+ * Mount the SCIM API at /scim/v2. It has its own bearer-token auth, so it is
+ * registered ahead of the session, dev-bypass and CSRF middleware.
+ */
+export function setupScim(app: Express) {
+  const router = express.Router();
+  router.use(express.json({ type: ['application/json', 'application/scim+json'] }));
+  router.use(apiLimiter);
+
+  router.get('/ServiceProviderConfig', (req, res) => {
+    send(res, 200, {
+      schemas: [SCHEMAS.serviceProviderConfig],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: MAX_RESULTS },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [{
+        type: 'oauthbearertoken',
+        name: 'Bearer token',
+        description: 'Token issued under Admin → Provisioning',
+        primary: true,
+      }],
+    });
+  });
+
+  router.get('/ResourceTypes', (req, res) => {
+    const base = baseUrl(req);
+    send(res, 200, listResponse(req, [
+      { schemas: [SCHEMAS.resourceType], id: 'User', name: 'User', endpoint: '/Users', schema: SCHEMAS.user, meta: { resourceType: 'ResourceType', location: `${base}/ResourceTypes/User` } },
+      { schemas: [SCHEMAS.resourceType], id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCHEMAS.group, meta: { resourceType: 'ResourceType', location: `${base}/ResourceTypes/Group` } },
+    ]));
+  });
+
+  router.use(authenticateScim);
+  router.use(apiKeyLimiter);
+
+  router.get('/Users', scimRoute(async (req, res) => {
+    const filter = parseScimFilter(req.query.filter, ['username', 'emails.value']);
+    const users = (await getOrgUsers(req.scimToken!.orgId))
+      .filter(user => !filter || user.email?.toLowerCase() === filter.value.toLowerCase());
+    send(res, 200, listResponse(req, users.map(user => toScimUser(user, baseUrl(req)))));
+  }));
+
+  router.get('/Users/:id', scimRoute(async (req, res) => {
+    send(res, 200, toScimUser(await findOrgUser(req.scimToken!.orgId, req.params.id), baseUrl(req)));
+  }));
+
+  router.post('/Users', scimRoute(async (req, res) => {
+    const changes = changesFromScimUser(req.body);
+    const orgUsers = await getOrgUsers(req.scimToken!.orgId);
+    if (orgUsers.some(user => user.email?.toLowerCase() === changes.email)) {
+      throw new ScimError(409, 'A user with this userName already exists', 'uniqueness');
+    }
+    const user = await createUser(req, changes);
+    send(res, 201, toScimUser(user, baseUrl(req)));
+  }));
+
+  router.put('/Users/:id', scimRoute(async (req, res) => {
+    const orgId = req.scimToken!.orgId;
+    await applyUserChanges(req, await findOrgUser(orgId, req.params.id), changesFromScimUser(req.body));
+    send(res, 200, toScimUser(await findOrgUser(orgId, req.params.id).catch(() => findRemovedUser(req.params.id)), baseUrl(req)));
+  }));
+
+  router.patch('/Users/:id', scimRoute(async (req, res) => {
+    const orgId = req.scimToken!.orgId;
+    await applyUserChanges(req, await findOrgUser(orgId, req.params.id), changesFromUserPatch(req.body));
+    send(res, 200, toScimUser(await findOrgUser(orgId, req.params.id).catch(() => findRemovedUser(req.params.id)), baseUrl(req)));
+  }));
+
+  // Users are never deleted; claims and audit events keep pointing at them
+  router.delete('/Users/:id', scimRoute(async (req, res) => {
+    await deprovisionUser(req, await findOrgUser(req.scimToken!.orgId, req.params.id));
+    res.status(204).end();
+  }));
+
+  router.get('/Groups', scimRoute(async (req, res) => {
+    const orgId = req.scimToken!.orgId;
+    const filter = parseScimFilter(req.query.filter, ['displayname', 'id']);
+    const [roles, users] = await Promise.all([getGroupRoles(orgId), getOrgUsers(orgId)]);
+    const matching = roles.filter(role => !filter || (filter.attribute === 'id'
+      ? role.key === filter.value
+      : role.name.toLowerCase() === filter.value.toLowerCase()));
+    // Directories list groups to match names; members are fetched per group
+    const excludeMembers = String(req.query.excludedAttributes ?? '').includes('members');
+    send(res, 200, listResponse(req, matching.map(role => {
+      const group = toScimGroup(role, users, baseUrl(req));
+      return excludeMembers ? { ...group, members: undefined } : group;
+    })));
+  }));
+
+  router.get('/Groups/:id', scimRoute(async (req, res) => {
+    const orgId = req.scimToken!.orgId;
+    const role = await findGroupRole(orgId, req.params.id);
+    send(res, 200, toScimGroup(role, await getOrgUsers(orgId), baseUrl(req)));
+  }));
+
+  // Groups cannot be created from the directory, since roles need
+  // permissions; a pushed group is matched to an existing role by name or key
+  router.post('/Groups', scimRoute(async (req, res) => {
+    const orgId = req.scimToken!.orgId;
+    const { displayName, members } = z.object({
+      displayName: z.string().trim().min(1),
+      members: z.array(z.object({ value: z.string() }).passthrough()).optional(),
+    }).passthrough().parse(req.body);
+    const role = (await getGroupRoles(orgId)).find(candidate =>
+      candidate.name.toLowerCase() === displayName.toLowerCase() || candidate.key === displayName.toLowerCase());
+    if (!role) {
+      throw new ScimError(400, `No role named "${displayName}"; create the role in MedLink first`, 'invalidValue');
+    }
+    await setGroupMembers(req, role.key, { add: (members ?? []).map(member => member.value), remove: [] });
+    send(res, 201, toScimGroup(role, await getOrgUsers(orgId), baseUrl(req)));
+  }));
+
+  router.put('/Groups/:id', scimRoute(async (req, res) => {
+    const orgId = req.scimToken!.orgId;
+    const role = await findGroupRole(orgId, req.params.id);
+    const { members } = z.object({
+      members: z.array(z.object({ value: z.string() }).passthrough()).optional(),
+    }).passthrough().parse(req.body);
+    await setGroupMembers(req, role.key, { add: [], remove: [], replace: (members ?? []).map(member => member.value) });
+    send(res, 200, toScimGroup(role, await getOrgUsers(orgId), baseUrl(req)));
+  }));
+
+  router.patch('/Groups/:id', scimRoute(async (req, res) => {
+    const orgId = req.scimToken!.orgId;
+    const role = await findGroupRole(orgId, req.params.id);
+    await setGroupMembers(req, role.key, memberChangesFromGroupPatch(req.body));
+    send(res, 200, toScimGroup(role, await getOrgUsers(orgId), baseUrl(req)));
+  }));
+
+  router.delete('/Groups/:id', scimRoute(async (req) => {
+    await findGroupRole(req.scimToken!.orgId, req.params.id);
+    throw new ScimError(400, 'Roles are deleted in MedLink, not from the directory', 'mutability');
+  }));
+
+  app.use('/scim/v2', router);
+}
@@ -0,0 +1,197 @@
+/**
+ * Tamper-evident audit log
+ * Every audit event stores a SHA-256 hash over its own content and the hash
+ * of the previous event in its organization, so editing, deleting or
+ * reordering a row breaks the chain from that point on. Hashes cover the
+ * plaintext event; `details` is encrypted at rest with a random IV and is
+ * decrypted before verification.
+ */
+
+import crypto from 'node:crypto';
+import type { AuditEvent } from '@shared/schema';
+import { formatCsv } from '../lib/csv';
+
+// prevHash of the first event in an organization's chain
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// The event content covered by its hash
+export interface ChainedAuditFields {
+  orgId: string;
+  seq: number;
+  actorUserId?: string | null;
+  type: string;
+  details: unknown;
+  resourceType?: string | null;
+  resourceId?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+}
+
+export type AuditChainProblem = 'gap' | 'link' | 'hash';
+
+export interface AuditChainIssue {
+  seq: number;
+  eventId: string;
+  problem: AuditChainProblem;
+}
+
+export interface AuditChainReport {
+  valid: boolean;
+  checked: number;
+  baseSeq: number | null;
+  headSeq: number | null;
+  headHash: string | null;
+  issues: AuditChainIssue[];
+}
+
+/**
+ * JSON with object keys sorted, so the same event always hashes the same
+ * regardless of how jsonb returned its keys
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function computeAuditHash(event: ChainedAuditFields, prevHash: string): string {
+  const content = canonicalJson({
+    orgId: event.orgId,
+    seq: event.seq,
+    prevHash,
+    actorUserId: event.actorUserId ?? null,
+    type: event.type,
+    details: event.details,
+    resourceType: event.resourceType ?? null,
+    resourceId: event.resourceId ?? null,
+    ip: event.ip ?? null,
+    userAgent: event.userAgent ?? null,
+    createdAt: event.createdAt,
+  });
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Detail keys that name the record an event is about, most specific first
+const RESOURCE_KEYS: Array<[string, string]> = [
+  ['claimId', 'claim'],
+  ['preauthId', 'preauth'],
+  ['remittanceId', 'remittance'],
+  ['attachmentId', 'attachment'],
+  ['privacyRequestId', 'privacy_request'],
+  ['appointmentId', 'appointment'],
+  ['patientId', 'patient'],
+  ['providerId', 'provider'],
+  ['roleId', 'role'],
+  ['jobId', 'job'],
+  ['keyRotationId', 'key_rotation'],
+  ['userId', 'user'],
+];
+
+/**
+ * The resource an event is about, taken from its details when the caller did not say
+ */
+export function auditResourceOf(details: unknown): { resourceType: string; resourceId: string } | null {
+  if (!details || typeof details !== 'object') return null;
+  for (const [key, resourceType] of RESOURCE_KEYS) {
+    const value = (details as Record<string, unknown>)[key];
+    if (typeof value === 'string' || typeof value === 'number') {
+      return { resourceType, resourceId: String(value) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Walk an organization's chained events in seq order and report every
+ * missing seq, broken link to the previous hash, and event whose content no
+ * longer matches its hash. After retention removed the oldest events, the
+ * chain starts from the last removed one (organizations.auditChainBase*).
+ */
+export function verifyAuditChain(events: AuditEvent[], base: { seq: number; hash: string } | null = null): AuditChainReport {
+  const issues: AuditChainIssue[] = [];
+  let expectedSeq = base ? base.seq + 1 : 1;
+  let prevHash = base?.hash ?? AUDIT_GENESIS_HASH;
+
+  for (const event of events) {
+    const seq = event.seq!;
+    if (seq !== expectedSeq) {
+      issues.push({ seq, eventId: event.id, problem: 'gap' });
+    } else if (event.prevHash !== prevHash) {
+      issues.push({ seq, eventId: event.id, problem: 'link' });
+    }
+    if (!event.createdAt || event.hash !== computeAuditHash({ ...event, seq, createdAt: event.createdAt }, event.prevHash ?? '')) {
+      issues.push({ seq, eventId: event.id, problem: 'hash' });
+    }
+    expectedSeq = seq + 1;
+    prevHash = event.hash ?? '';
+  }
+
+  const head = events[events.length - 1];
+  return {
+    valid: issues.length === 0,
+    checked: events.length,
+    baseSeq: base?.seq ?? null,
+    headSeq: head?.seq ?? null,
+    headHash: head?.hash ?? null,
+    issues,
+  };
+}
+
+function getAuditSigningKey(): string {
+  const key = process.env.AUDIT_SIGNING_KEY || process.env.ENCRYPTION_KEY;
+  if (!key) {
+    throw new Error('AUDIT_SIGNING_KEY or ENCRYPTION_KEY must be set to sign audit exports');
+  }
+  return key;
+}
+
+/**
+ * HMAC-SHA256 over an export body, sent as X-Audit-Signature
+ */
+export function signAuditExport(body: string): string {
+  return crypto.createHmac('sha256', getAuditSigningKey()).update(body).digest('hex');
+}
+
+const EXPORT_COLUMNS = [
+  'seq', 'id', 'createdAt', 'type', 'actorUserId', 'resourceType', 'resourceId', 'ip', 'userAgent', 'details', 'prevHash', 'hash',
+] as const;
+
+function exportRecord(event: AuditEvent): Record<(typeof EXPORT_COLUMNS)[number], unknown> {
+  return {
+    seq: event.seq,
+    id: event.id,
+    createdAt: event.createdAt?.toISOString() ?? null,
+    type: event.type,
+    actorUserId: event.actorUserId,
+    resourceType: event.resourceType,
+    resourceId: event.resourceId,
+    ip: event.ip,
+    userAgent: event.userAgent,
+    details: event.details,
+    prevHash: event.prevHash,
+    hash: event.hash,
+  };
+}
+
+/**
+ * Audit events as CSV (RFC 4180, details as a JSON cell) or one JSON object per line
+ */
+export function formatAuditExport(events: AuditEvent[], format: 'csv' | 'jsonl'): string {
+  if (format === 'jsonl') {
+    return events.map(event => JSON.stringify(exportRecord(event))).join('\n') + (events.length ? '\n' : '');
+  }
+  const rows = events.map(event => {
+    const record = exportRecord(event);
+    return EXPORT_COLUMNS.map(column => record[column]);
+  });
+  return formatCsv([[...EXPORT_COLUMNS], ...rows]);
+}
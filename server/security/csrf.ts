@@ -46,6 +46,11 @@ export function csrfProtection(req: Request, res: Response, next: NextFunction):
     return next();
   }
 
+  // Skip CSRF for signed object uploads; the URL signature is checked by the route
+  if (req.method === 'PUT' && req.path.startsWith('/objects/') && typeof req.query.signature === 'string') {
+    return next();
+  }
+
   // Get token from cookie
   const cookieToken = req.cookies[CSRF_COOKIE_NAME];
   
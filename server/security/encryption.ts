@@ -1,20 +1,21 @@
 import * as crypto from 'node:crypto';
 import { z } from 'zod';
+import { hashForSearch } from './field-encryption';
+import { getKeyring } from './keyring';
 
 /**
  * Field-level encryption for PHI (Protected Health Information)
- * Uses AES-256-GCM with PBKDF2 key derivation
+ * Uses AES-256-GCM with PBKDF2 key derivation. Each ciphertext starts with
+ * the version of the keyring key it was written with (server/security/keyring.ts).
  */
 
 // Configuration schema
 const EncryptionConfigSchema = z.object({
-  masterKey: z.string().min(32),
   algorithm: z.literal('aes-256-gcm'),
   saltLength: z.number().default(32),
   ivLength: z.number().default(16),
   tagLength: z.number().default(16),
   pbkdf2Iterations: z.number().default(100000),
-  keyRotationVersion: z.number().default(1),
 });
 
 type EncryptionConfig = z.infer<typeof EncryptionConfigSchema>;
@@ -22,14 +23,19 @@ type EncryptionConfig = z.infer<typeof EncryptionConfigSchema>;
 // PHI field mapping - defines which fields need encryption
 export const PHI_FIELDS = {
   users: ['firstName', 'lastName', 'email', 'mfaSecret', 'mfaBackupCodes'],
-  patients: ['name', 'dob', 'identifiers'],
-  providers: ['name', 'licenceNumber'],
+  patients: ['name', 'email', 'phone', 'address', 'dob', 'identifiers'],
+  providers: ['name', 'email', 'phone', 'licenceNumber', 'licences'],
   claims: ['notes', 'claimNumber'],
-  attachments: ['url'],
+  attachments: ['url', 'originalUrl'],
   remittances: ['raw'],
+  remittanceLines: ['patientName', 'raw'],
+  eligibilityChecks: ['raw'],
+  appointments: ['reason'],
   auditEvents: ['details'],
   pushSubscriptions: ['endpoint', 'p256dhKey', 'authKey'],
   organizations: ['privacyOfficerName', 'privacyOfficerEmail'],
+  identityProviders: ['clientSecret'],
+  privacyRequests: ['requesterName', 'requesterEmail', 'description', 'corrections', 'resolution'],
 } as const;
 
 // Cache for derived keys to improve performance
@@ -39,35 +45,20 @@ const cacheTimestamps = new Map<string, number>();
 
 export class FieldEncryption {
   private config: EncryptionConfig;
-  private masterKey: Buffer;
   
   constructor() {
-    // Load configuration from environment
-    const masterKeyString = process.env.ENCRYPTION_KEY || process.env.SESSION_SECRET || '';
-    
-    // In development, use a default key if none provided
-    const isDev = process.env.NODE_ENV === 'development';
-    const finalKey = masterKeyString || (isDev ? 'dev-encryption-key-min-32-chars-for-testing-only' : '');
-    
-    if (!finalKey || finalKey.length < 32) {
-      if (!isDev) {
-        throw new Error('ENCRYPTION_KEY must be at least 32 characters in production');
-      }
-    }
-    
+    // Fails fast when the environment has no usable key
+    getKeyring();
+
     this.config = EncryptionConfigSchema.parse({
-      masterKey: finalKey.padEnd(32, '0'),
       algorithm: 'aes-256-gcm',
-      keyRotationVersion: parseInt(process.env.ENCRYPTION_KEY_VERSION || '1'),
     });
-    
-    this.masterKey = Buffer.from(this.config.masterKey.slice(0, 32));
   }
 
   /**
    * Derive an encryption key using PBKDF2
    */
-  private deriveKey(salt: Buffer, version: number = this.config.keyRotationVersion): Buffer {
+  private deriveKey(salt: Buffer, version: number): Buffer {
     const cacheKey = `${salt.toString('hex')}-${version}`;
     const now = Date.now();
     
@@ -81,7 +72,7 @@ export class FieldEncryption {
     
     // Derive new key
     const key = crypto.pbkdf2Sync(
-      this.masterKey,
+      getKeyring().key(version),
       Buffer.concat([salt, Buffer.from(version.toString())]),
       this.config.pbkdf2Iterations,
       32,
@@ -107,9 +98,9 @@ export class FieldEncryption {
   }
 
   /**
-   * Encrypt a value using AES-256-GCM
+   * Encrypt a value using AES-256-GCM, with the active key unless a version is given
    */
-  encrypt(value: any): string | null {
+  encrypt(value: any, version: number = getKeyring().activeVersion): string | null {
     if (value === null || value === undefined || value === '') {
       return value;
     }
@@ -122,7 +113,7 @@ export class FieldEncryption {
       const iv = crypto.randomBytes(this.config.ivLength);
       
       // Derive key
-      const key = this.deriveKey(salt, this.config.keyRotationVersion);
+      const key = this.deriveKey(salt, version);
       
       // Create cipher
       const cipher = crypto.createCipheriv(this.config.algorithm, key, iv);
@@ -138,7 +129,7 @@ export class FieldEncryption {
       
       // Combine all components: version(1) + salt(32) + iv(16) + authTag(16) + encrypted
       const combined = Buffer.concat([
-        Buffer.from([this.config.keyRotationVersion]),
+        Buffer.from([version]),
         salt,
         iv,
         authTag,
@@ -162,11 +153,36 @@ export class FieldEncryption {
       return encryptedValue;
     }
     
+    const opened = this.open(encryptedValue);
+    if (!opened) {
+      // Not encrypted, or not with a key we hold: return as-is for backward
+      // compatibility instead of null, which could cause issues
+      return encryptedValue;
+    }
+    
+    const stringValue = opened.plaintext;
+    
+    // Try to parse as JSON if it looks like JSON
+    if (stringValue.startsWith('{') || stringValue.startsWith('[')) {
+      try {
+        return JSON.parse(stringValue);
+      } catch {
+        return stringValue;
+      }
+    }
+    
+    return stringValue;
+  }
+
+  /**
+   * Decrypt a ciphertext in this format to its raw plaintext and key version;
+   * null when the value is not one (plaintext, another format, unknown key).
+   */
+  open(encryptedValue: string): { version: number; plaintext: string } | null {
     try {
       // Check if this looks like encrypted data (base64)
       if (!encryptedValue.match(/^[A-Za-z0-9+/]+=*$/)) {
-        // Not encrypted, return as-is (backward compatibility)
-        return encryptedValue;
+        return null;
       }
       
       const combined = Buffer.from(encryptedValue, 'base64');
@@ -174,8 +190,7 @@ export class FieldEncryption {
       // Check minimum length for encrypted data
       // version(1) + salt(32) + iv(16) + authTag(16) + at least 1 byte of data = 66 bytes
       if (combined.length < 66) {
-        // Too short to be encrypted data, return as-is
-        return encryptedValue;
+        return null;
       }
       
       // Extract components
@@ -185,10 +200,9 @@ export class FieldEncryption {
       const authTag = combined.slice(49, 65);
       const encrypted = combined.slice(65);
       
-      // Validate components
-      if (salt.length !== 32 || iv.length !== 16 || authTag.length !== 16) {
-        // Invalid structure, return as-is (backward compatibility)
-        return encryptedValue;
+      const keyring = getKeyring();
+      if (!keyring.has(version)) {
+        return null;
       }
       
       // Derive key for the version
@@ -198,44 +212,27 @@ export class FieldEncryption {
       const decipher = crypto.createDecipheriv(this.config.algorithm, key, iv);
       decipher.setAuthTag(authTag);
       
-      // Decrypt data
+      // Decrypt data; the auth tag check throws for anything we did not write
       const decrypted = Buffer.concat([
         decipher.update(encrypted),
         decipher.final(),
       ]);
       
-      const stringValue = decrypted.toString('utf8');
-      
-      // Try to parse as JSON if it looks like JSON
-      if (stringValue.startsWith('{') || stringValue.startsWith('[')) {
-        try {
-          return JSON.parse(stringValue);
-        } catch {
-          return stringValue;
-        }
-      }
-      
-      return stringValue;
-    } catch (error) {
-      // For backward compatibility with unencrypted data, return as-is
-      // instead of returning null which could cause issues
-      if (error instanceof Error && error.message.includes('Invalid initialization vector')) {
-        return encryptedValue;
-      }
-      // Return the original value for graceful degradation
-      return encryptedValue;
+      return { version, plaintext: decrypted.toString('utf8') };
+    } catch {
+      return null;
     }
   }
 
   /**
    * Deterministic encryption for searchable fields (less secure, use sparingly)
    */
-  encryptDeterministic(value: string, fieldName: string): string | null {
+  encryptDeterministic(value: string, fieldName: string, version: number = getKeyring().activeVersion): string | null {
     if (!value) return value;
     
     try {
       // Use HMAC for deterministic "encryption" (actually a keyed hash)
-      const hmac = crypto.createHmac('sha256', this.masterKey);
+      const hmac = crypto.createHmac('sha256', getKeyring().key(version));
       hmac.update(fieldName);
       hmac.update(value);
       return hmac.digest('hex');
@@ -315,12 +312,11 @@ export class FieldEncryption {
   }
 
   /**
-   * Rotate encryption key (re-encrypt with new version)
+   * Write new data with another key version. Existing data is re-encrypted
+   * by the key rotation job (server/lib/keyRotation.ts).
    */
   async rotateKey(newVersion: number): Promise<void> {
-    // This would be implemented with database migration
-    // Re-encrypt all data with new key version
-    this.config.keyRotationVersion = newVersion;
+    getKeyring().useVersion(newVersion);
   }
 
   /**
@@ -360,6 +356,39 @@ export function decryptRecord<T extends Record<string, any>>(tableName: string,
   return fieldEncryption.decryptObject(tableName, record);
 }
 
+/**
+ * Searchable hash of a contact email or phone number (the email_hash and
+ * phone_hash columns). Values are normalised first so formatting differences
+ * still match: emails are lower-cased, phone numbers reduced to their digits
+ * without a leading North American country code.
+ */
+export function contactSearchHash(
+  kind: 'email' | 'phone',
+  value: string | null | undefined,
+  version: number = getKeyring().activeVersion,
+): string | null {
+  if (!value) return null;
+  const normalized = kind === 'email'
+    ? value.trim().toLowerCase()
+    : value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  if (!normalized) return null;
+
+  // Same keyed hash as the PHI migration when the key is a full-length one
+  if (getKeyring().secret(version).length >= 32) {
+    return hashForSearch(normalized, version);
+  }
+  return fieldEncryption.encryptDeterministic(normalized, kind, version);
+}
+
+/**
+ * The search hash under every key in the keyring, for lookups that have to
+ * match rows a key rotation has not re-hashed yet
+ */
+export function contactSearchHashes(kind: 'email' | 'phone', value: string | null | undefined): string[] {
+  const hashes = getKeyring().versions().map(version => contactSearchHash(kind, value, version));
+  return Array.from(new Set(hashes.filter((hash): hash is string => Boolean(hash))));
+}
+
 export function isEncryptionEnabled(): boolean {
   return fieldEncryption.isEnabled();
 }
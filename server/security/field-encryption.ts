@@ -2,21 +2,24 @@
  * Field-Level Encryption Module
  * Uses AES-256-GCM with unique IV per record
  * Provides deterministic hashing for searchable fields
+ *
+ * Ciphertexts look like "v<key version>:<base64>". Unversioned ones were
+ * written before the keyring and decrypt with its legacy version.
  */
 
 import crypto from 'node:crypto';
+import { getKeyring, resetKeyring } from './keyring';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const TAG_LENGTH = 16;
 const SALT_LENGTH = 32;
 
-// Get encryption key from environment
-function getEncryptionKey(): Buffer {
-  const key = process.env.ENCRYPTION_KEY;
-  if (!key) {
-    throw new Error('ENCRYPTION_KEY environment variable is required');
-  }
+const VERSIONED = /^v(\d{1,3}):([A-Za-z0-9+/]+=*)$/;
+
+// Get the encryption key for a keyring version
+function getEncryptionKey(version: number): Buffer {
+  const key = getKeyring().secret(version);
   if (key.length < 32) {
     throw new Error('ENCRYPTION_KEY must be at least 32 characters');
   }
@@ -24,12 +27,12 @@ function getEncryptionKey(): Buffer {
   return Buffer.from(key.slice(0, 32), 'utf-8');
 }
 
-// Encrypt PHI data
-export function encryptPHI(plaintext: string): string {
+// Encrypt PHI data, with the active key unless a version is given
+export function encryptPHI(plaintext: string, version: number = getKeyring().activeVersion): string {
   if (!plaintext) return plaintext;
   
   try {
-    const key = getEncryptionKey();
+    const key = getEncryptionKey(version);
     const iv = crypto.randomBytes(IV_LENGTH);
     const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
     
@@ -40,7 +43,7 @@ export function encryptPHI(plaintext: string): string {
     
     // Combine IV, tag, and ciphertext into single base64 string
     const combined = Buffer.concat([iv, tag, encrypted]);
-    return combined.toString('base64');
+    return `v${version}:${combined.toString('base64')}`;
   } catch (error) {
     console.error('Encryption failed:', error);
     throw new Error('Failed to encrypt data');
@@ -52,15 +55,35 @@ export function decryptPHI(ciphertext: string): string {
   if (!ciphertext) return ciphertext;
   
   // Check if this looks like encrypted data
-  if (!ciphertext.match(/^[A-Za-z0-9+/]+=*$/)) {
+  if (!VERSIONED.test(ciphertext) && !ciphertext.match(/^[A-Za-z0-9+/]+=*$/)) {
     // Not base64, might be plaintext (legacy data)
     console.warn('Attempting to decrypt non-base64 data, returning as-is');
     return ciphertext;
   }
   
+  const opened = openPHI(ciphertext);
+  if (!opened) {
+    // If decryption fails, might be legacy plaintext
+    console.warn('Decryption failed, returning original value (might be legacy plaintext)');
+    return ciphertext;
+  }
+  return opened.plaintext;
+}
+
+// Decrypt to the plaintext and the key version it was written with; null if
+// the value is not a ciphertext of ours
+export function openPHI(ciphertext: string): { version: number; plaintext: string } | null {
+  const match = VERSIONED.exec(ciphertext);
+  const keyring = getKeyring();
+  const version = match ? Number(match[1]) : keyring.legacyVersion;
+  const payload = match ? match[2] : ciphertext;
+  if (!keyring.has(version) || !payload.match(/^[A-Za-z0-9+/]+=*$/)) {
+    return null;
+  }
+  
   try {
-    const key = getEncryptionKey();
-    const combined = Buffer.from(ciphertext, 'base64');
+    const key = getEncryptionKey(version);
+    const combined = Buffer.from(payload, 'base64');
     
     // Extract IV, tag, and encrypted data
     const iv = combined.slice(0, IV_LENGTH);
@@ -73,19 +96,17 @@ export function decryptPHI(ciphertext: string): string {
     let decrypted = decipher.update(encrypted);
     decrypted = Buffer.concat([decrypted, decipher.final()]);
     
-    return decrypted.toString('utf8');
-  } catch (error) {
-    // If decryption fails, might be legacy plaintext
-    console.warn('Decryption failed, returning original value (might be legacy plaintext)');
-    return ciphertext;
+    return { version, plaintext: decrypted.toString('utf8') };
+  } catch {
+    return null;
   }
 }
 
 // Create deterministic hash for searchable fields (email, phone)
-export function hashForSearch(value: string): string {
+export function hashForSearch(value: string, version: number = getKeyring().activeVersion): string {
   if (!value) return '';
   
-  const key = getEncryptionKey();
+  const key = getEncryptionKey(version);
   const normalized = value.toLowerCase().trim();
   
   // Use HMAC for deterministic hashing
@@ -94,6 +115,13 @@ export function hashForSearch(value: string): string {
   return hmac.digest('hex');
 }
 
+// The search hash under every key in the keyring, so lookups still match rows
+// a key rotation has not re-hashed yet
+export function hashesForSearch(value: string): string[] {
+  if (!value) return [];
+  return Array.from(new Set(getKeyring().versions().map(version => hashForSearch(value, version))));
+}
+
 // Verify encryption is working
 export function verifyEncryption(): boolean {
   try {
@@ -161,6 +189,7 @@ export function decryptFields(data: Record<string, any>, fields: string[]): Reco
 // Check if a value looks like it's already encrypted
 export function isEncrypted(value: string): boolean {
   if (!value) return false;
+  if (VERSIONED.test(value)) return true;
   
   // Check if it's base64 encoded
   if (!value.match(/^[A-Za-z0-9+/]+=*$/)) {
@@ -222,12 +251,13 @@ export async function migrateToEncrypted(
 // Initialize and verify on startup
 export function initializeEncryption(): void {
   // Check environment
-  if (!process.env.ENCRYPTION_KEY) {
+  if (!process.env.ENCRYPTION_KEY && !process.env.ENCRYPTION_KEYS) {
     if (process.env.NODE_ENV === 'production') {
       throw new Error('FATAL: ENCRYPTION_KEY is required in production');
     }
     console.warn('⚠️  WARNING: ENCRYPTION_KEY not set, using default (INSECURE!)');
     process.env.ENCRYPTION_KEY = 'INSECURE-DEFAULT-KEY-DO-NOT-USE-IN-PRODUCTION!!';
+    resetKeyring();
   }
   
   // Verify encryption works
@@ -0,0 +1,148 @@
+/**
+ * Encryption keyring
+ * Every PHI key has a version, and every ciphertext carries the version it was
+ * written with, so retired keys keep decrypting while data is re-encrypted to
+ * a new one (server/lib/keyRotation.ts).
+ *
+ * ENCRYPTION_KEYS lists the keys as "1:<secret>,2:<secret>". ENCRYPTION_KEY is
+ * added under ENCRYPTION_KEY_VERSION (default 1), so single-key deployments
+ * and the data they already wrote keep working. New data is written with the
+ * highest version unless ENCRYPTION_ACTIVE_KEY_VERSION picks another.
+ */
+
+const DEV_KEY = 'dev-encryption-key-min-32-chars-for-testing-only';
+
+// The version is stamped into ciphertexts as a single byte
+const MAX_KEY_VERSION = 255;
+
+function parseVersion(value: string, source: string): number {
+  const version = Number(value.trim());
+  if (!Number.isInteger(version) || version < 1 || version > MAX_KEY_VERSION) {
+    throw new Error(`${source}: key version must be a whole number from 1 to ${MAX_KEY_VERSION}`);
+  }
+  return version;
+}
+
+export class Keyring {
+  private readonly keys: Map<number, Buffer>;
+  private readonly secrets: Map<number, string>;
+  private writeVersion: number;
+
+  constructor(
+    secrets: Map<number, string>,
+    private readonly configuredVersion: number,
+    readonly legacyVersion: number,
+  ) {
+    if (!secrets.has(configuredVersion)) {
+      throw new Error(`No encryption key configured for version ${configuredVersion}`);
+    }
+    this.secrets = new Map(secrets);
+    // Same 256-bit key material the single-key setup used
+    this.keys = new Map(Array.from(secrets, ([version, secret]) => [version, Buffer.from(secret.padEnd(32, '0').slice(0, 32))]));
+    this.writeVersion = configuredVersion;
+  }
+
+  /**
+   * Version new ciphertexts and search hashes are written with
+   */
+  get activeVersion(): number {
+    return this.writeVersion;
+  }
+
+  /**
+   * Version the environment asks for, before any rotation overrides it
+   */
+  get configuredActiveVersion(): number {
+    return this.configuredVersion;
+  }
+
+  versions(): number[] {
+    return Array.from(this.keys.keys()).sort((a, b) => a - b);
+  }
+
+  has(version: number): boolean {
+    return this.keys.has(version);
+  }
+
+  key(version: number): Buffer {
+    const key = this.keys.get(version);
+    if (!key) {
+      throw new Error(`No encryption key configured for version ${version}`);
+    }
+    return key;
+  }
+
+  secret(version: number): string {
+    this.key(version);
+    return this.secrets.get(version)!;
+  }
+
+  /**
+   * Write with another configured version (a key rotation or its rollback);
+   * null goes back to the configured one.
+   */
+  useVersion(version: number | null): void {
+    const next = version ?? this.configuredVersion;
+    this.key(next);
+    this.writeVersion = next;
+  }
+}
+
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): Keyring {
+  const isDev = env.NODE_ENV === 'development';
+  const secrets = new Map<number, string>();
+
+  for (const entry of (env.ENCRYPTION_KEYS ?? '').split(',')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(':');
+    if (separator === -1) {
+      throw new Error('ENCRYPTION_KEYS entries must look like "<version>:<secret>"');
+    }
+    const version = parseVersion(entry.slice(0, separator), 'ENCRYPTION_KEYS');
+    if (secrets.has(version)) {
+      throw new Error(`ENCRYPTION_KEYS lists version ${version} twice`);
+    }
+    secrets.set(version, entry.slice(separator + 1).trim());
+  }
+
+  // The single key, as FieldEncryption has always resolved it
+  const baseKey = env.ENCRYPTION_KEY || env.SESSION_SECRET || (isDev ? DEV_KEY : '');
+  const baseVersion = parseVersion(env.ENCRYPTION_KEY_VERSION || '1', 'ENCRYPTION_KEY_VERSION');
+  if (baseKey && !secrets.has(baseVersion) && (env.ENCRYPTION_KEY || secrets.size === 0)) {
+    secrets.set(baseVersion, baseKey);
+  }
+
+  if (secrets.size === 0) {
+    throw new Error('ENCRYPTION_KEY must be at least 32 characters in production');
+  }
+  for (const [version, secret] of Array.from(secrets)) {
+    if (secret.length < 32 && !isDev) {
+      throw new Error(`Encryption key version ${version} must be at least 32 characters in production`);
+    }
+  }
+
+  const versions = Array.from(secrets.keys()).sort((a, b) => a - b);
+  const activeVersion = env.ENCRYPTION_ACTIVE_KEY_VERSION
+    ? parseVersion(env.ENCRYPTION_ACTIVE_KEY_VERSION, 'ENCRYPTION_ACTIVE_KEY_VERSION')
+    : versions[versions.length - 1];
+  // Unversioned field-encryption ciphertexts predate the keyring and used ENCRYPTION_KEY
+  const legacyVersion = secrets.has(baseVersion) ? baseVersion : versions[0];
+
+  return new Keyring(secrets, activeVersion, legacyVersion);
+}
+
+let keyring: Keyring | null = null;
+
+export function getKeyring(): Keyring {
+  if (!keyring) {
+    keyring = loadKeyring();
+  }
+  return keyring;
+}
+
+/**
+ * Drop the loaded keyring so the next call re-reads the environment
+ */
+export function resetKeyring(): void {
+  keyring = null;
+}
@@ -10,6 +10,18 @@ import crypto from 'node:crypto';
 import jwt from 'jsonwebtoken';
 import { usersRepo } from '../db/repo';
 
+// Kept on the session between the password step and the MFA step, and
+// while authenticator setup waits for its first code
+declare module 'express-session' {
+  interface SessionData {
+    mfaTempToken: string;
+    mfaVerified: boolean;
+    mfaVerifiedAt: string;
+    mfaSetupSecret: string;
+    mfaSetupBackupCodes: string[];
+  }
+}
+
 // Rate limiting store (in production, use Redis)
 const mfaAttempts = new Map<string, { count: number; resetAt: number }>();
 
@@ -179,8 +191,8 @@ export async function shouldRequireMFA(userId: string): Promise<boolean> {
   const user = await usersRepo.findById(userId);
   if (!user) return false;
   
-  // MFA required for admin users
-  return user.role === 'admin' && user.mfaEnabled === true;
+  // MFA is required for anyone who set up an authenticator app or registered a passkey
+  return user.mfaEnabled === true;
 }
 
 // Get MFA token secret (use environment variable or fallback to app secret)
@@ -11,6 +11,8 @@ import {
   organizations 
 } from '@shared/schema';
 import { fieldEncryption, PHI_FIELDS } from './encryption';
+import { storage } from '../storage';
+import { KEY_ROTATION_TABLES, rekeyRow } from '../lib/keyRotation';
 import { eq, sql } from 'drizzle-orm';
 
 /**
@@ -270,7 +272,8 @@ export class EncryptionMigration {
   }
 
   /**
-   * Re-encrypt data with a new key version
+   * Re-encrypt data with a new key version, in one pass. The admin area runs
+   * the same rewrite as a resumable background job (server/lib/keyRotation.ts).
    */
   async rotateEncryptionKey(
     oldVersion: number,
@@ -279,13 +282,42 @@ export class EncryptionMigration {
   ): Promise<Map<string, MigrationProgress>> {
     console.log(`Rotating encryption key from version ${oldVersion} to ${newVersion} (dry run: ${dryRun})`);
     
-    // This would require:
-    // 1. Decrypt with old key
-    // 2. Encrypt with new key
-    // 3. Update all records
-    
-    // For now, this is a placeholder
-    // In production, you would implement the full rotation logic
+    for (const tableName of KEY_ROTATION_TABLES) {
+      const progress: MigrationProgress = {
+        table: tableName,
+        totalRecords: await storage.countEncryptedRows(tableName),
+        processedRecords: 0,
+        failedRecords: 0,
+        startTime: new Date(),
+        errors: [],
+      };
+
+      let lastId: string | null = null;
+      for (;;) {
+        const records = await storage.getEncryptedRows(tableName, lastId, this.batchSize);
+        for (const record of records) {
+          try {
+            const updates = rekeyRow(tableName, record, newVersion);
+            if (updates && !dryRun) {
+              await storage.updateEncryptedRow(tableName, record.id, updates);
+            }
+            progress.processedRecords++;
+          } catch (error) {
+            progress.failedRecords++;
+            progress.errors.push({
+              id: record.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+        if (records.length < this.batchSize) break;
+        lastId = records[records.length - 1].id;
+      }
+
+      progress.endTime = new Date();
+      this.progress.set(tableName, progress);
+      console.log(`✓ ${tableName}: Processed: ${progress.processedRecords}, Failed: ${progress.failedRecords}`);
+    }
     
     if (!dryRun) {
       await fieldEncryption.rotateKey(newVersion);
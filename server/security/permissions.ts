@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import type { User } from '@shared/schema';
+import { BUILT_IN_ROLES, expandPermissions, isBuiltInRole, type Permission } from '@shared/permissions';
+import { storage } from '../storage';
+import { getRequestUser } from '../lib/memberships';
+
+// Set on the request by requirePermission
+export interface PermissionRequest extends Request {
+  permissions?: Set<Permission>;
+}
+
+/**
+ * Permissions granted by a user's role in an organization: a built-in role,
+ * or one of that organization's custom roles. Unknown roles grant nothing.
+ */
+export async function resolvePermissions(user: Pick<User, 'role' | 'orgId'>): Promise<Set<Permission>> {
+  if (isBuiltInRole(user.role)) {
+    return new Set(expandPermissions(BUILT_IN_ROLES[user.role].permissions));
+  }
+  if (!user.orgId) {
+    return new Set();
+  }
+  const role = await storage.getRoleByKey(user.orgId, user.role);
+  return new Set(expandPermissions(role?.permissions ?? []));
+}
+
+/**
+ * Check a permission loaded by requirePermission earlier in the chain
+ */
+export function hasPermission(req: PermissionRequest, permission: Permission): boolean {
+  return req.permissions?.has(permission) ?? false;
+}
+
+// Permission middleware; every listed permission is required
+export function requirePermission(...required: Permission[]) {
+  return permissionMiddleware(required, 'all');
+}
+
+// Permission middleware; any one of the listed permissions is enough
+export function requireAnyPermission(...required: Permission[]) {
+  return permissionMiddleware(required, 'any');
+}
+
+function permissionMiddleware(required: Permission[], mode: 'all' | 'any') {
+  return async (req: PermissionRequest, res: Response, next: NextFunction) => {
+    try {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const permissions = await resolvePermissions(user);
+      const missing = required.filter(permission => !permissions.has(permission));
+      if (mode === 'all' ? missing.length > 0 : missing.length === required.length) {
+        return res.status(403).json({ message: 'You do not have permission to do this', missing });
+      }
+
+      req.permissions = permissions;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { MemoryStore, type ClientRateLimitInfo, type Options, type Store } from 'express-rate-limit';
+import { storage } from '../storage';
+
+/**
+ * Rate limit stores
+ * Counters live in the rate_limit_counters table so limits survive restarts
+ * and apply across every instance. RATE_LIMIT_STORE=memory keeps them in
+ * process instead (the default under NODE_ENV=test). If the database cannot
+ * be reached the Postgres store counts in memory until it can, so an outage
+ * neither blocks every request nor switches limiting off.
+ */
+
+export class PostgresRateLimitStore implements Store {
+  private windowMs = 60 * 1000;
+  private readonly fallback = new MemoryStore();
+
+  // Counters are shared, so a key is only ever incremented once per request
+  localKeys = false;
+
+  constructor(readonly prefix: string) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+    this.fallback.init(options);
+  }
+
+  private key(key: string): string {
+    return `${this.prefix}:${key}`;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    try {
+      const counter = await storage.getRateLimit(this.key(key));
+      return counter && { totalHits: counter.hits, resetTime: counter.resetAt };
+    } catch (error) {
+      console.error('[RateLimit] Store unavailable, using memory:', error);
+      return this.fallback.get(key);
+    }
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    try {
+      const counter = await storage.incrementRateLimit(this.key(key), this.windowMs);
+      return { totalHits: counter.hits, resetTime: counter.resetAt };
+    } catch (error) {
+      console.error('[RateLimit] Store unavailable, using memory:', error);
+      return this.fallback.increment(key);
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    try {
+      await storage.decrementRateLimit(this.key(key));
+    } catch (error) {
+      await this.fallback.decrement(key);
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    try {
+      await storage.resetRateLimit(this.key(key));
+    } catch (error) {
+      await this.fallback.resetKey(key);
+    }
+  }
+}
+
+/**
+ * A store for one limiter; prefix keeps its counters apart from the others'
+ */
+export function createRateLimitStore(prefix: string): Store {
+  const driver = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+  return driver === 'memory' ? new MemoryStore() : new PostgresRateLimitStore(prefix);
+}
+
+/**
+ * Drop counters whose window has closed; run hourly by the scheduler
+ */
+export async function cleanupRateLimits(now = new Date()): Promise<number> {
+  return storage.deleteExpiredRateLimits(now);
+}
@@ -1,81 +1,149 @@
-import rateLimit from 'express-rate-limit';
-import { Request, Response } from 'express';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { auditLogger } from '../auditLogger';
+import { storage } from '../storage';
+import { createRateLimitStore } from './rateLimitStore';
+import { parsePositiveIntEnv } from '../lib/env';
+import type { ScimRequest } from '../scim';
 
-// Standard 429 response handler
-const standardLimitHandler = (req: Request, res: Response) => {
-  // Log rate limit hit via audit
-  if (req.app.locals.auditLogger) {
-    req.app.locals.auditLogger.log('rate_limit_exceeded', {
-      ip: req.ip,
-      path: req.path,
-      method: req.method,
-      userId: (req as any).user?.claims?.sub,
-    });
+/**
+ * Request rate limits
+ * Every limiter counts per client (the API key a request authenticated with,
+ * else the signed-in user, else the IP address) and, once the organization is
+ * known, per organization too, so one busy clinic cannot use up the capacity
+ * shared with the rest. Counters are shared between instances
+ * (rateLimitStore.ts). The per-minute quotas can be overridden with
+ * RATE_LIMIT_<NAME>_PER_MINUTE and RATE_LIMIT_<NAME>_ORG_PER_MINUTE.
+ */
+
+// A user's home organization, cached briefly so limiting does not add a query per request
+const HOME_ORG_TTL_MS = 60 * 1000;
+const homeOrgs = new Map<string, { orgId: string | null; expiresAt: number }>();
+
+async function homeOrgOf(userId: string): Promise<string | null> {
+  const cached = homeOrgs.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.orgId;
+  }
+  let orgId: string | null;
+  try {
+    orgId = (await storage.getUser(userId))?.orgId ?? null;
+  } catch (error) {
+    // Like the store's fallback: a database outage skips the organization quota rather than failing the request
+    console.error('[RateLimit] Could not look up organization:', error);
+    return null;
+  }
+  if (homeOrgs.size > 10000) {
+    homeOrgs.clear();
   }
+  homeOrgs.set(userId, { orgId, expiresAt: Date.now() + HOME_ORG_TTL_MS });
+  return orgId;
+}
+
+/**
+ * Organization a request counts against: the API key's, else the session's
+ * active organization, else the signed-in user's own
+ */
+export async function rateLimitOrgId(req: Request): Promise<string | null> {
+  const scimToken = (req as ScimRequest).scimToken;
+  if (scimToken?.orgId) return scimToken.orgId;
+  const activeOrgId = req.session?.activeOrgId;
+  if (activeOrgId) return activeOrgId;
+  const userId = (req as any).user?.claims?.sub;
+  return userId ? homeOrgOf(userId) : null;
+}
+
+export function rateLimitClientKey(req: Request): string {
+  const scimToken = (req as ScimRequest).scimToken;
+  if (scimToken?.id) return `key:${scimToken.id}`;
+  const userId = (req as any).user?.claims?.sub;
+  if (userId) return `user:${userId}`;
+  return `ip:${ipKeyGenerator(req.ip ?? '')}`;
+}
+
+// Standard 429 response handler
+const limitHandler = (name: string, scope: 'client' | 'org') => (req: Request, res: Response) => {
+  // Fire and forget: the audit logger never throws
+  void auditLogger.logError('security.rate_limit', 'system', 'Rate limit exceeded', (req as any).user?.claims?.sub, undefined, {
+    limiter: name,
+    scope,
+    path: req.path,
+    method: req.method,
+  }, req);
 
   res.status(429).json({
     error: 'Too Many Requests',
-    message: 'Rate limit exceeded. Please try again later.',
+    message: scope === 'org'
+      ? "Your organization's rate limit was exceeded. Please try again later."
+      : 'Rate limit exceeded. Please try again later.',
     retryAfter: res.getHeader('Retry-After'),
   });
 };
 
-// Auth routes rate limiter (10 requests per minute)
-export const authLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 10,
-  message: 'Too many authentication attempts, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: standardLimitHandler,
-  skipSuccessfulRequests: false,
-  // Use default keyGenerator which handles IPv6 properly
-});
-
-// Upload and connectors routes rate limiter (60 requests per minute)
-export const uploadLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 60,
-  message: 'Too many upload requests, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: standardLimitHandler,
-  skipSuccessfulRequests: false,
-  // Use default keyGenerator which handles IPv6 properly
-});
+interface LimiterOptions {
+  name: string;
+  perMinute: number;
+  orgPerMinute?: number; // no organization quota when omitted
+}
+
+function createLimiter({ name, perMinute, orgPerMinute }: LimiterOptions): RequestHandler {
+  const envName = name.toUpperCase().replace(/-/g, '_');
+
+  const clientLimiter = rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    limit: parsePositiveIntEnv(process.env[`RATE_LIMIT_${envName}_PER_MINUTE`], perMinute),
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: createRateLimitStore(`${name}:client`),
+    keyGenerator: rateLimitClientKey,
+    handler: limitHandler(name, 'client'),
+    skipSuccessfulRequests: false,
+  });
+  if (!orgPerMinute) {
+    return clientLimiter;
+  }
+
+  const orgIds = new WeakMap<Request, string | null>();
+  const orgLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    limit: parsePositiveIntEnv(process.env[`RATE_LIMIT_${envName}_ORG_PER_MINUTE`], orgPerMinute),
+    // The client limiter's headers are the ones the caller can act on
+    standardHeaders: false,
+    legacyHeaders: false,
+    store: createRateLimitStore(`${name}:org`),
+    skip: (req) => !orgIds.get(req),
+    keyGenerator: (req) => `org:${orgIds.get(req)}`,
+    handler: limitHandler(name, 'org'),
+    skipSuccessfulRequests: false,
+  });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    clientLimiter(req, res, (error?: unknown) => {
+      if (error) return next(error);
+      rateLimitOrgId(req)
+        .then((orgId) => {
+          orgIds.set(req, orgId);
+          orgLimiter(req, res, next);
+        })
+        .catch(next);
+    });
+  };
+}
+
+// Auth routes rate limiter (10 requests per minute); callers are not signed in yet
+export const authLimiter = createLimiter({ name: 'auth', perMinute: 10 });
+
+// Upload routes rate limiter (60 requests per minute)
+export const uploadLimiter = createLimiter({ name: 'upload', perMinute: 60, orgPerMinute: 600 });
 
 // EDI connector rate limiter (60 requests per minute)
-export const connectorLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 60,
-  message: 'Too many connector requests, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: standardLimitHandler,
-  skipSuccessfulRequests: false,
-  // Use default keyGenerator which handles IPv6 properly
-});
+export const connectorLimiter = createLimiter({ name: 'connector', perMinute: 60, orgPerMinute: 300 });
 
 // General API rate limiter (300 requests per minute)
-export const apiLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 300,
-  message: 'Too many requests, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: standardLimitHandler,
-  skipSuccessfulRequests: false,
-  // Use default keyGenerator which handles IPv6 properly
-});
+export const apiLimiter = createLimiter({ name: 'api', perMinute: 300, orgPerMinute: 3000 });
+
+// API key (SCIM token) quota, applied once the key has been checked
+export const apiKeyLimiter = createLimiter({ name: 'api-key', perMinute: 120, orgPerMinute: 600 });
 
 // Strict rate limiter for sensitive operations (5 requests per minute)
-export const strictLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 5,
-  message: 'Too many sensitive operation requests, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: standardLimitHandler,
-  skipSuccessfulRequests: false,
-  // Use default keyGenerator which handles IPv6 properly
-});
\ No newline at end of file
+export const strictLimiter = createLimiter({ name: 'strict', perMinute: 5 });
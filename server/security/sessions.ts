@@ -0,0 +1,247 @@
+/**
+ * Signed-in sessions
+ * Sessions live in the express-session table. Each one carries a meta block
+ * (first seen, last activity, IP, user agent) that the middleware below keeps
+ * current, so users and admins can see where an account is signed in and
+ * idle and absolute timeouts can be enforced server-side. A user in several
+ * organizations gets the strictest of their policies, whichever one is active.
+ */
+
+import crypto from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { Organization } from '@shared/schema';
+import { storage, type StoredSession } from '../storage';
+import { getRequestUser } from '../lib/memberships';
+import { logger } from './logger';
+
+// lastActivityAt is rewritten at most this often, so idle timeouts are accurate to a minute
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+// Policies are cached per instance; other instances pick up a change within this long
+const POLICY_CACHE_TTL_MS = 60 * 1000;
+
+export interface SessionMeta {
+  createdAt: number;
+  lastActivityAt: number;
+  ip: string;
+  userAgent: string;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    meta: SessionMeta;
+  }
+}
+
+export interface SessionPolicy {
+  idleTimeoutMinutes: number | null;
+  maxLifetimeHours: number | null;
+}
+
+export type SessionExpiry = 'idle' | 'absolute';
+
+export interface SessionSummary {
+  id: string;
+  current: boolean;
+  device: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastActivityAt: string | null;
+  expiresAt: string;
+  mfaVerified: boolean;
+}
+
+const policyCache = new Map<string, { policy: SessionPolicy; expiresAt: number }>();
+const userPolicyCache = new Map<string, { policy: SessionPolicy; expiresAt: number }>();
+
+export function policyFromOrganization(org: Pick<Organization, 'sessionIdleTimeoutMinutes' | 'sessionMaxLifetimeHours'> | undefined): SessionPolicy {
+  return {
+    idleTimeoutMinutes: org?.sessionIdleTimeoutMinutes ?? null,
+    maxLifetimeHours: org?.sessionMaxLifetimeHours ?? null,
+  };
+}
+
+export async function getSessionPolicy(orgId: string): Promise<SessionPolicy> {
+  const cached = policyCache.get(orgId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+  const policy = policyFromOrganization(await storage.getOrganization(orgId));
+  policyCache.set(orgId, { policy, expiresAt: Date.now() + POLICY_CACHE_TTL_MS });
+  return policy;
+}
+
+/**
+ * The shortest idle timeout and lifetime across the policies; a limit any of
+ * them sets applies
+ */
+export function strictestPolicy(policies: SessionPolicy[]): SessionPolicy {
+  const shortest = (values: Array<number | null>) => {
+    const set = values.filter((value): value is number => value !== null);
+    return set.length > 0 ? Math.min(...set) : null;
+  };
+  return {
+    idleTimeoutMinutes: shortest(policies.map(policy => policy.idleTimeoutMinutes)),
+    maxLifetimeHours: shortest(policies.map(policy => policy.maxLifetimeHours)),
+  };
+}
+
+/**
+ * The policy for the user's sessions: the strictest across their home
+ * organization and every membership
+ */
+export async function getUserSessionPolicy(userId: string): Promise<SessionPolicy> {
+  const cached = userPolicyCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+  const [user, memberships] = await Promise.all([storage.getUser(userId), storage.getMemberships(userId)]);
+  const orgIds = new Set([...(user?.orgId ? [user.orgId] : []), ...memberships.map(membership => membership.orgId)]);
+  const policy = strictestPolicy(await Promise.all(Array.from(orgIds, getSessionPolicy)));
+  userPolicyCache.set(userId, { policy, expiresAt: Date.now() + POLICY_CACHE_TTL_MS });
+  return policy;
+}
+
+// Called after an admin changes the policy so it applies on the next request
+export function clearSessionPolicyCache(orgId: string): void {
+  policyCache.delete(orgId);
+  // Any user might belong to the organization
+  userPolicyCache.clear();
+}
+
+/**
+ * Which timeout, if any, the session has run past
+ */
+export function sessionExpiry(meta: SessionMeta, policy: SessionPolicy, now = Date.now()): SessionExpiry | null {
+  if (policy.maxLifetimeHours && now - meta.createdAt > policy.maxLifetimeHours * 60 * 60 * 1000) {
+    return 'absolute';
+  }
+  if (policy.idleTimeoutMinutes && now - meta.lastActivityAt > policy.idleTimeoutMinutes * 60 * 1000) {
+    return 'idle';
+  }
+  return null;
+}
+
+/**
+ * Stable public id for a session; the sid itself is the cookie secret and never leaves the server
+ */
+export function publicSessionId(sid: string): string {
+  return crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short device label from a user agent, e.g. "Chrome on Windows"
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
+
+function toSummary(session: StoredSession, currentSid: string | undefined): SessionSummary {
+  const meta = session.sess.meta as SessionMeta | undefined;
+  return {
+    id: publicSessionId(session.sid),
+    current: session.sid === currentSid,
+    device: describeDevice(meta?.userAgent),
+    ip: meta?.ip ?? null,
+    userAgent: meta?.userAgent ?? null,
+    createdAt: meta ? new Date(meta.createdAt).toISOString() : null,
+    lastActivityAt: meta ? new Date(meta.lastActivityAt).toISOString() : null,
+    expiresAt: new Date(session.expire).toISOString(),
+    mfaVerified: session.sess.mfaVerified === true,
+  };
+}
+
+/**
+ * The user's live sessions, most recently active first
+ */
+export async function listUserSessions(userId: string, currentSid?: string): Promise<SessionSummary[]> {
+  const sessions = (await storage.getUserSessions(userId)).map(session => toSummary(session, currentSid));
+  return sessions.sort((a, b) => (b.lastActivityAt ?? '').localeCompare(a.lastActivityAt ?? ''));
+}
+
+/**
+ * End one of the user's sessions by its public id; false if it is not theirs or already gone
+ */
+export async function endUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const session = (await storage.getUserSessions(userId)).find(candidate => publicSessionId(candidate.sid) === sessionId);
+  if (!session) {
+    return false;
+  }
+  await storage.deleteSession(session.sid);
+  return true;
+}
+
+/**
+ * Sign the user out everywhere except the session making the request
+ */
+export function endOtherSessions(req: Request, userId: string): Promise<number> {
+  return storage.deleteUserSessions(userId, req.sessionID);
+}
+
+/**
+ * Record activity on signed-in sessions and end those past the user's idle
+ * or absolute timeout
+ */
+export async function enforceSessionPolicy(req: Request, res: Response, next: NextFunction) {
+  const session = req.session;
+  if (!session || !req.isAuthenticated?.()) {
+    return next();
+  }
+
+  try {
+    const now = Date.now();
+    const meta = session.meta;
+    if (!meta) {
+      // First request after sign-in
+      session.meta = { createdAt: now, lastActivityAt: now, ip: req.ip || '', userAgent: req.get('User-Agent') || '' };
+      return next();
+    }
+
+    const user = await getRequestUser(req);
+    const expired = user?.orgId ? sessionExpiry(meta, await getUserSessionPolicy(user.id), now) : null;
+    if (expired) {
+      await storage.createAuditEvent({
+        orgId: user!.orgId!,
+        actorUserId: user!.id,
+        type: 'session_expired',
+        details: { reason: expired, sessionId: publicSessionId(req.sessionID) },
+        ip: req.ip || '',
+        userAgent: req.get('User-Agent') || '',
+      });
+      session.destroy(() => {
+        res.status(401).json({ message: "Session expired", reason: expired });
+      });
+      return;
+    }
+
+    if (now - meta.lastActivityAt >= ACTIVITY_WRITE_INTERVAL_MS) {
+      meta.lastActivityAt = now;
+      meta.ip = req.ip || meta.ip;
+    }
+    next();
+  } catch (error) {
+    logger.error('Session policy check failed', { error: (error as Error).message });
+    next(error);
+  }
+}
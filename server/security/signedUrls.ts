@@ -0,0 +1,54 @@
+import crypto from 'node:crypto';
+
+/**
+ * HMAC-signed object URLs
+ * A signed URL carries `expires` (Unix seconds) and `signature`, an
+ * HMAC-SHA256 over the method, path and expiry keyed with OBJECT_URL_SECRET
+ * (SESSION_SECRET when unset). Holding the URL is the authorization, so they
+ * are only handed out after an access check and expire quickly.
+ */
+
+export type SignedUrlMethod = 'GET' | 'PUT';
+
+const DEV_SECRET = 'medlink-dev-object-url-secret';
+
+function signingSecret(): string {
+  const secret = process.env.OBJECT_URL_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('OBJECT_URL_SECRET or SESSION_SECRET must be set to sign object URLs');
+  }
+  return DEV_SECRET;
+}
+
+function sign(method: SignedUrlMethod, path: string, expires: number): string {
+  return crypto.createHmac('sha256', signingSecret()).update(`${method}\n${path}\n${expires}`).digest('base64url');
+}
+
+/**
+ * Sign `path` for `method` until ttlSec from now
+ */
+export function signObjectUrl(method: SignedUrlMethod, path: string, ttlSec: number, now = Date.now()): string {
+  const expires = Math.floor(now / 1000) + ttlSec;
+  return `${path}?expires=${expires}&signature=${sign(method, path, expires)}`;
+}
+
+/**
+ * Whether the query of a request to `path` carries a valid, unexpired
+ * signature for `method`
+ */
+export function verifyObjectUrlSignature(
+  method: SignedUrlMethod,
+  path: string,
+  query: { expires?: unknown; signature?: unknown },
+  now = Date.now()
+): boolean {
+  const expires = Number(query.expires);
+  if (typeof query.signature !== 'string' || !Number.isInteger(expires) || expires * 1000 < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(method, path, expires));
+  const actual = Buffer.from(query.signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,190 @@
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { isoBase64URL, isoUint8Array } from '@simplewebauthn/server/helpers';
+import type { Request } from 'express';
+import type { User, WebAuthnCredential, InsertWebAuthnCredential } from '@shared/schema';
+import { logger } from './logger';
+
+// WebAuthn configuration
+const WEBAUTHN_CONFIG = {
+  rpName: 'MedLink Claims Hub',
+  timeoutMs: 60 * 1000,
+  challengeTtlMs: 5 * 60 * 1000,
+};
+
+export interface RelyingParty {
+  rpID: string;
+  origin: string;
+}
+
+type ChallengePurpose = 'register' | 'authenticate';
+
+interface PendingChallenge {
+  purpose: ChallengePurpose;
+  userId: string;
+  challenge: string;
+  expiresAt: number;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    webauthnChallenge: PendingChallenge;
+  }
+}
+
+/**
+ * Relying party for this request. Behind a proxy, or when passkeys should work
+ * across subdomains, set WEBAUTHN_ORIGIN and WEBAUTHN_RP_ID explicitly.
+ */
+export function getRelyingParty(req: Request): RelyingParty {
+  const origin = process.env.WEBAUTHN_ORIGIN || `${req.protocol}://${req.get('host')}`;
+  return {
+    origin,
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+  };
+}
+
+function toDescriptor(credential: WebAuthnCredential) {
+  return {
+    id: credential.credentialId,
+    transports: (credential.transports ?? []) as AuthenticatorTransportFuture[],
+  };
+}
+
+/**
+ * Remember the challenge for the ceremony in progress; each one can be used once
+ */
+export function storeChallenge(session: any, purpose: ChallengePurpose, userId: string, challenge: string): void {
+  const pending: PendingChallenge = {
+    purpose,
+    userId,
+    challenge,
+    expiresAt: Date.now() + WEBAUTHN_CONFIG.challengeTtlMs,
+  };
+  session.webauthnChallenge = pending;
+}
+
+/**
+ * Take the stored challenge if it matches the ceremony and user and has not expired
+ */
+export function takeChallenge(session: any, purpose: ChallengePurpose, userId: string): string | null {
+  const pending = session?.webauthnChallenge as PendingChallenge | undefined;
+  if (!pending) return null;
+  delete session.webauthnChallenge;
+
+  if (pending.purpose !== purpose || pending.userId !== userId || pending.expiresAt < Date.now()) {
+    return null;
+  }
+  return pending.challenge;
+}
+
+/**
+ * Options for navigator.credentials.create(), excluding keys the user already registered
+ */
+export async function generatePasskeyRegistrationOptions(
+  rp: RelyingParty,
+  user: User,
+  existing: WebAuthnCredential[]
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return generateRegistrationOptions({
+    rpName: WEBAUTHN_CONFIG.rpName,
+    rpID: rp.rpID,
+    userID: isoUint8Array.fromUTF8String(user.id),
+    userName: user.email || user.id,
+    userDisplayName: displayName || user.email || '',
+    timeout: WEBAUTHN_CONFIG.timeoutMs,
+    attestationType: 'none',
+    excludeCredentials: existing.map(toDescriptor),
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      userVerification: 'preferred',
+    },
+  });
+}
+
+/**
+ * Verify a registration response; returns the credential to store, or null if it does not check out
+ */
+export async function verifyPasskeyRegistration(
+  rp: RelyingParty,
+  response: RegistrationResponseJSON,
+  expectedChallenge: string
+): Promise<Omit<InsertWebAuthnCredential, 'userId' | 'name'> | null> {
+  try {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      requireUserVerification: false,
+    });
+    if (!verified) return null;
+
+    return {
+      credentialId: registrationInfo.credential.id,
+      publicKey: isoBase64URL.fromBuffer(registrationInfo.credential.publicKey),
+      counter: registrationInfo.credential.counter,
+      transports: response.response.transports ?? [],
+      deviceType: registrationInfo.credentialDeviceType,
+      backedUp: registrationInfo.credentialBackedUp,
+    };
+  } catch (error) {
+    logger.warn('WebAuthn registration rejected', { error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Options for navigator.credentials.get(), limited to the user's registered keys
+ */
+export async function generatePasskeyAuthenticationOptions(
+  rp: RelyingParty,
+  credentials: WebAuthnCredential[]
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  return generateAuthenticationOptions({
+    rpID: rp.rpID,
+    timeout: WEBAUTHN_CONFIG.timeoutMs,
+    allowCredentials: credentials.map(toDescriptor),
+    userVerification: 'preferred',
+  });
+}
+
+/**
+ * Verify an assertion against a stored credential; returns the new signature counter when valid
+ */
+export async function verifyPasskeyAuthentication(
+  rp: RelyingParty,
+  response: AuthenticationResponseJSON,
+  expectedChallenge: string,
+  credential: WebAuthnCredential
+): Promise<{ verified: boolean; newCounter?: number }> {
+  try {
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      credential: {
+        id: credential.credentialId,
+        publicKey: isoBase64URL.toBuffer(credential.publicKey),
+        counter: credential.counter,
+        transports: (credential.transports ?? []) as AuthenticatorTransportFuture[],
+      },
+      requireUserVerification: false,
+    });
+    return verified ? { verified, newCounter: authenticationInfo.newCounter } : { verified };
+  } catch (error) {
+    logger.warn('WebAuthn assertion rejected', { error: (error as Error).message });
+    return { verified: false };
+  }
+}
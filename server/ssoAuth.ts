@@ -2,6 +2,7 @@ import jwt from 'jsonwebtoken';
 import type { Request, Response } from 'express';
 import { storage } from './storage';
 import { z } from 'zod';
+import type { User } from '@shared/schema';
 import { shouldRequireMFA, generateTempToken } from './security/mfa-auth';
 
 const ssoTokenSchema = z.object({
@@ -27,6 +28,23 @@ interface SSOJwtPayload {
   exp: number;
 }
 
+/**
+ * The passport session user for a MedLink user signed in outside Replit Auth
+ * (the JWT handoff, organization SSO and the MFA challenge)
+ */
+export function createSessionUser(user: User) {
+  return {
+    claims: {
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+      profile_image_url: user.profileImageUrl,
+    },
+    expires_at: Math.floor(Date.now() / 1000) + (7 * 24 * 60 * 60), // 7 days
+  };
+}
+
 function isAllowedOrigin(origin: string): boolean {
   const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [];
   
@@ -91,6 +109,12 @@ export async function handleSSOLogin(req: Request, res: Response) {
     const lastName = lastNameParts.join(' ') || '';
 
     let user = await storage.getUserByEmail(payload.email);
+    if (user?.deactivatedAt) {
+      return res.status(403).json({ 
+        ok: false, 
+        error: 'Account deactivated' 
+      });
+    }
     if (!user) {
       user = await storage.createUser({
         email: payload.email,
@@ -163,16 +187,7 @@ export async function handleSSOLogin(req: Request, res: Response) {
     }
 
     // No MFA required, proceed with session creation
-    const sessionUser = {
-      claims: {
-        sub: user.id,
-        email: user.email,
-        first_name: user.firstName,
-        last_name: user.lastName,
-        profile_image_url: user.profileImageUrl,
-      },
-      expires_at: Math.floor(Date.now() / 1000) + (7 * 24 * 60 * 60), // 7 days
-    };
+    const sessionUser = createSessionUser(user);
 
     // Store user in session
     (req as any).login(sessionUser, (err: any) => {
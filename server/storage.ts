@@ -1,49 +1,210 @@
 import {
   users,
+  webauthnCredentials,
   organizations,
+  roles,
+  orgMemberships,
+  identityProviders,
+  federatedIdentities,
+  scimTokens,
+  sessions,
   patients,
   providers,
   appointments,
   insurers,
   claims,
+  claimLines,
+  claimStatusHistory,
   attachments,
   remittances,
+  remittanceImports,
+  remittanceLines,
+  eligibilityChecks,
   auditEvents,
   connectorConfigs,
   connectorTransactions,
   connectorErrors,
   aiAssistUsage,
+  jobs,
+  retentionRuns,
+  retentionRunItems,
+  privacyRequests,
+  preAuths,
+  pushSubscriptions,
+  keyRotations,
+  rateLimitCounters,
+  samlRequests,
+  claimScrubRules,
   type User,
   type UpsertUser,
   type Organization,
+  type Role,
+  type OrgMembership,
+  type IdentityProvider,
+  type FederatedIdentity,
+  type ScimToken,
+  type WebAuthnCredential,
   type Patient,
   type Provider,
   type Appointment,
   type Insurer,
   type Claim,
+  type ClaimLine,
+  type ClaimLineInput,
+  type ClaimLineAdjudication,
+  type ClaimStatusHistory,
   type Attachment,
   type Remittance,
+  type RemittanceImport,
+  type RemittanceLine,
+  type EligibilityCheck,
   type AuditEvent,
   type ConnectorConfig,
   type ConnectorTransaction,
   type ConnectorError,
   type AiAssistUsage,
+  type Job,
+  type RetentionRun,
+  type RetentionRunItem,
+  type PrivacyRequest,
+  type PreAuth,
   type InsertUser,
   type InsertOrganization,
+  type InsertRole,
+  type InsertOrgMembership,
+  type InsertIdentityProvider,
+  type InsertFederatedIdentity,
+  type InsertScimToken,
+  type InsertWebAuthnCredential,
   type InsertPatient,
   type InsertProvider,
   type InsertClaim,
   type InsertAttachment,
   type InsertRemittance,
+  type InsertRemittanceImport,
+  type InsertRemittanceLine,
+  type InsertEligibilityCheck,
+  type InsertAppointment,
   type InsertAuditEvent,
   type InsertConnectorConfig,
   type InsertConnectorTransaction,
   type InsertConnectorError,
   type InsertAiAssistUsage,
+  type InsertJob,
+  type InsertRetentionRun,
+  type InsertPrivacyRequest,
+  type KeyRotation,
+  type InsertKeyRotation,
+  type ClaimScrubRule,
+  type InsertClaimScrubRule,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, count, sql } from "drizzle-orm";
-import { fieldEncryption, encryptRecord, decryptRecord } from "./security/encryption";
+import { eq, and, or, ne, desc, asc, count, sql, inArray, lt, lte, gt, gte, isNull, isNotNull, type SQL } from "drizzle-orm";
+import { fieldEncryption, encryptRecord, decryptRecord, contactSearchHash, contactSearchHashes, type PHI_FIELDS } from "./security/encryption";
+import { AUDIT_GENESIS_HASH, auditResourceOf, computeAuditHash } from "./security/audit-chain";
+
+// Plaintext contact details to match against the email_hash/phone_hash columns
+export interface ContactLookup {
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface AppointmentFilter {
+  providerId?: string;
+  status?: Appointment['status'];
+  from?: Date; // scheduledAt >= from
+  to?: Date; // scheduledAt < to
+}
+
+// Tables with PHI_FIELDS, as the key rotation job walks them
+export type EncryptedTable = keyof typeof PHI_FIELDS;
+
+const ENCRYPTED_TABLES = {
+  users,
+  patients,
+  providers,
+  claims,
+  attachments,
+  remittances,
+  remittanceLines,
+  eligibilityChecks,
+  appointments,
+  auditEvents,
+  pushSubscriptions,
+  organizations,
+  identityProviders,
+  privacyRequests,
+} satisfies Record<EncryptedTable, unknown>;
+
+// Everything linked to a patient, for privacy request exports and erasure
+export interface PatientRecords {
+  appointments: Appointment[];
+  claims: Claim[];
+  claimLines: ClaimLine[];
+  claimStatusHistory: ClaimStatusHistory[];
+  attachments: Attachment[];
+  preAuths: PreAuth[];
+  eligibilityChecks: EligibilityCheck[];
+  remittanceLines: RemittanceLine[];
+}
+
+export interface AuditEventFilter {
+  actorUserId?: string;
+  type?: string;
+  resourceType?: string;
+  resourceId?: string;
+  from?: Date; // createdAt >= from
+  to?: Date; // createdAt < to
+}
+
+// An appointment and the claim billed for it, if any
+export type AppointmentWithClaim = Appointment & { claimId: string | null };
+
+// A service line billed to a patient, with the claim it was billed on; the
+// claim scrubber checks frequency limits, duplicates and pre-authorizations against these
+export interface PatientServiceLine {
+  claimId: string;
+  parentClaimId: string | null;
+  claimType: Claim['type'];
+  claimStatus: Claim['status'];
+  relation: Claim['relation'];
+  insurerId: string;
+  procedureCode: string;
+  units: number;
+  serviceDate: Date; // the line's service date, else when the claim was created
+}
+
+// A validated status change; see server/lib/claimStatus.ts for the transition rules
+export interface ClaimStatusChange {
+  fromStatus: Claim['status'];
+  toStatus: Claim['status'];
+  actorUserId?: string | null;
+  source: ClaimStatusHistory['source'];
+  reason?: string | null;
+  updates?: Partial<Claim>;
+}
+
+// When an amendment (server/lib/claimAmendments.ts) may be added to a claim
+export interface ClaimAmendmentGuard {
+  parentStatuses: readonly Claim['status'][];
+  // an unreversed child with one of these relations means the claim was already amended
+  blockingRelations: readonly NonNullable<Claim['relation']>[];
+}
+
+// A matched remittance line, settled in the same transaction that imports it
+export interface RemittanceSettlement {
+  lineIndex: number;
+  claimId: string;
+  change: ClaimStatusChange;
+  remittance: Omit<InsertRemittance, 'claimId'>;
+}
+
+// A row of the express-session table; sess is the serialized session
+export interface StoredSession {
+  sid: string;
+  sess: Record<string, any>;
+  expire: Date;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -52,46 +213,136 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
+  getUsersByOrg(orgId: string): Promise<User[]>;
   
   // Organization operations
   getOrganization(id: string): Promise<Organization | undefined>;
   getOrganizationById(id: string): Promise<Organization | undefined>;
+  getOrganizationByExternalId(externalId: string): Promise<Organization | undefined>;
   createOrganization(org: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization | undefined>;
+  
+  // Custom role operations
+  getRoles(orgId: string): Promise<Role[]>;
+  getRole(id: string): Promise<Role | undefined>;
+  getRoleByKey(orgId: string, key: string): Promise<Role | undefined>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: string, updates: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: string): Promise<void>;
+  
+  // Organization membership operations (besides the home org on users.orgId)
+  getMemberships(userId: string): Promise<OrgMembership[]>;
+  getMembership(userId: string, orgId: string): Promise<OrgMembership | undefined>;
+  getOrgMembers(orgId: string): Promise<Array<{ membership: OrgMembership; user: User }>>;
+  createMembership(membership: InsertOrgMembership): Promise<OrgMembership>;
+  updateMembership(id: string, updates: Partial<InsertOrgMembership>): Promise<OrgMembership | undefined>;
+  deleteMembership(id: string): Promise<void>;
+  
+  // Single sign-on identity providers and the IdP subjects linked to users
+  getIdentityProviders(orgId: string): Promise<IdentityProvider[]>;
+  getIdentityProvider(id: string): Promise<IdentityProvider | undefined>;
+  getIdentityProviderBySlug(slug: string): Promise<IdentityProvider | undefined>;
+  getIdentityProvidersByIssuer(issuer: string): Promise<IdentityProvider[]>;
+  createIdentityProvider(provider: InsertIdentityProvider): Promise<IdentityProvider>;
+  updateIdentityProvider(id: string, updates: Partial<InsertIdentityProvider>): Promise<IdentityProvider | undefined>;
+  deleteIdentityProvider(id: string): Promise<void>;
+  getFederatedIdentity(providerId: string, subject: string): Promise<FederatedIdentity | undefined>;
+  createFederatedIdentity(identity: InsertFederatedIdentity): Promise<FederatedIdentity>;
+  touchFederatedIdentity(id: string): Promise<void>;
+  saveSamlRequest(id: string, value: string): Promise<Date>;
+  getSamlRequest(id: string, createdAfter: Date): Promise<string | undefined>;
+  deleteSamlRequest(id: string): Promise<boolean>;
+  deleteSamlRequestsBefore(cutoff: Date): Promise<void>;
+  
+  // SCIM provisioning tokens
+  getScimTokens(orgId: string): Promise<ScimToken[]>;
+  getScimTokenByHash(tokenHash: string): Promise<ScimToken | undefined>;
+  createScimToken(token: InsertScimToken): Promise<ScimToken>;
+  touchScimToken(id: string): Promise<void>;
+  deleteScimToken(id: string): Promise<void>;
+  
+  // Signed-in sessions (the express-session table)
+  getUserSessions(userId: string): Promise<StoredSession[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
   
   // Patient operations
-  getPatients(orgId: string, filter?: { id?: string }): Promise<Patient[]>;
+  getPatients(orgId: string, filter?: { id?: string; includeArchived?: boolean }): Promise<Patient[]>;
   getPatient(id: string): Promise<Patient | undefined>;
   createPatient(patient: InsertPatient): Promise<Patient>;
+  updatePatient(id: string, updates: Partial<InsertPatient>): Promise<Patient | undefined>;
+  findPatientsByContact(orgId: string, contact: ContactLookup): Promise<Patient[]>;
   
   // Provider operations
-  getProviders(orgId: string, filter?: { id?: string }): Promise<Provider[]>;
+  getProviders(orgId: string, filter?: { id?: string; includeArchived?: boolean }): Promise<Provider[]>;
   getProvider(id: string): Promise<Provider | undefined>;
   createProvider(provider: InsertProvider): Promise<Provider>;
+  updateProvider(id: string, updates: Partial<InsertProvider>): Promise<Provider | undefined>;
+  findProvidersByContact(orgId: string, contact: ContactLookup): Promise<Provider[]>;
+  
+  // Appointment operations
+  getAppointments(orgId: string, filter?: AppointmentFilter): Promise<AppointmentWithClaim[]>;
+  getAppointment(id: string): Promise<AppointmentWithClaim | undefined>;
+  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment | undefined>;
+  deleteAppointment(id: string): Promise<void>;
   
   // Insurer operations
   getInsurers(): Promise<Insurer[]>;
   getInsurer(id: string): Promise<Insurer | undefined>;
   
   // Claim operations
-  getClaims(orgId: string, userId?: string, role?: string): Promise<Claim[]>;
+  getClaims(orgId: string, createdBy?: string): Promise<Claim[]>;
   getClaim(id: string): Promise<Claim | undefined>;
-  getClaimByReferenceNumber(referenceNumber: string): Promise<Claim | undefined>;
+  // Newest claim with this reference; orgId is omitted only for globally unique iTrans request hashes
+  getClaimByReferenceNumber(referenceNumber: string, orgId?: string): Promise<Claim | undefined>;
   getClaimByExternalId(externalId: string): Promise<Claim | undefined>;
+  getChildClaims(parentClaimIds: string[]): Promise<Claim[]>;
   createClaim(claim: InsertClaim): Promise<Claim>;
-  updateClaim(id: string, updates: Partial<Claim>): Promise<Claim | undefined>;
-  updateClaimStatus(id: string, status: string): Promise<void>;
+  // undefined, with nothing written, when the guard no longer holds
+  createAmendmentClaim(claim: InsertClaim & { parentClaimId: string }, lines: ClaimLineInput[], guard: ClaimAmendmentGuard): Promise<Claim | undefined>;
+  updateClaim(id: string, updates: Partial<Omit<Claim, 'status'>>): Promise<Claim | undefined>;
+  updateClaimStatus(id: string, change: ClaimStatusChange): Promise<Claim | undefined>;
+  getClaimStatusHistory(claimId: string): Promise<ClaimStatusHistory[]>;
+  
+  // Claim line operations
+  getClaimLines(claimId: string): Promise<ClaimLine[]>;
+  replaceClaimLines(claimId: string, lines: ClaimLineInput[]): Promise<ClaimLine[]>;
+  applyClaimLineAdjudication(claimId: string, results: ClaimLineAdjudication[]): Promise<ClaimLine[]>;
+  getClaimLinesForClaims(claimIds: string[]): Promise<ClaimLine[]>;
   
   // Attachment operations
   getAttachments(claimId: string): Promise<Attachment[]>;
+  getAttachment(id: string): Promise<Attachment | undefined>;
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  updateAttachment(id: string, updates: Partial<InsertAttachment>): Promise<Attachment | undefined>;
   
   // Remittance operations
   getRemittances(orgId: string): Promise<Remittance[]>;
   createRemittance(remittance: InsertRemittance): Promise<Remittance>;
+  // Nothing is written when the file was already imported or a settled claim changed status meanwhile
+  createRemittanceImport(
+    remittanceImport: InsertRemittanceImport,
+    lines: Omit<InsertRemittanceLine, 'importId'>[],
+    settlements: RemittanceSettlement[]
+  ): Promise<{ remittanceImport: RemittanceImport; lines: RemittanceLine[] } | undefined>;
+  getRemittanceImports(orgId: string, limit?: number): Promise<RemittanceImport[]>;
+  getRemittanceImport(id: string): Promise<RemittanceImport | undefined>;
+  getRemittanceImportByChecksum(orgId: string, checksum: string): Promise<RemittanceImport | undefined>;
+  updateRemittanceImport(id: string, updates: Partial<RemittanceImport>): Promise<RemittanceImport | undefined>;
+  getRemittanceLines(orgId: string, filter?: { matchStatus?: RemittanceLine['matchStatus']; importId?: string }): Promise<RemittanceLine[]>;
+  getRemittanceLine(id: string): Promise<RemittanceLine | undefined>;
+  updateRemittanceLine(id: string, updates: Partial<RemittanceLine>): Promise<RemittanceLine | undefined>;
+  
+  // Eligibility operations
+  getLatestEligibilityCheck(patientId: string, insurerId: string): Promise<EligibilityCheck | undefined>;
+  createEligibilityCheck(check: InsertEligibilityCheck): Promise<EligibilityCheck>;
   
   // Audit operations
   createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
   getAuditEvents(orgId: string, limit?: number): Promise<AuditEvent[]>;
+  searchAuditEvents(orgId: string, filter: AuditEventFilter, page: { limit: number; offset: number }): Promise<{ events: AuditEvent[]; total: number }>;
+  getAuditChain(orgId: string): Promise<AuditEvent[]>;
   createAuditLog(event: any): Promise<any>;
   
   // Scheduler operations
@@ -113,6 +364,72 @@ export interface IStorage {
   createConnectorError(error: InsertConnectorError): Promise<ConnectorError>;
   getConnectorEvents(claimId: string): Promise<ConnectorTransaction[]>;
 
+  // Job queue operations
+  createJob(job: InsertJob): Promise<Job | undefined>; // undefined when the claim already has a queued job of this type
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(filter?: { orgId?: string; status?: Job['status']; limit?: number }): Promise<Job[]>;
+  findQueuedJob(claimId: string, type: Job['type']): Promise<Job | undefined>;
+  claimDueJobs(workerId: string, limit: number, staleLockBefore: Date): Promise<Job[]>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
+  getJobStats(orgId?: string): Promise<Record<string, number>>;
+  deleteFinishedJobsBefore(cutoff: Date): Promise<number>;
+
+  // Retention operations; see server/lib/retention.ts
+  getOrganizations(): Promise<Organization[]>;
+  getClaimsPastRetention(orgId: string, cutoff: Date): Promise<Claim[]>;
+  // Claims on legal hold and every claim in their amendment chains
+  getLegalHoldClaimIds(orgId: string): Promise<string[]>;
+  setClaimLegalHold(id: string, hold: { legalHold: boolean; legalHoldReason: string | null }): Promise<Claim | undefined>;
+  getAttachmentsByClaimIds(claimIds: string[]): Promise<Attachment[]>;
+  deleteAttachment(id: string): Promise<void>;
+  getConnectorTransactionsBefore(orgId: string, cutoff: Date): Promise<Array<{ id: string; claimId: string; hasPayload: boolean }>>;
+  clearConnectorTransactionPayloads(ids: string[]): Promise<void>;
+  deleteConnectorTransactions(ids: string[]): Promise<void>;
+  getRemittanceImportsBefore(orgId: string, cutoff: Date): Promise<Array<{ id: string; claimIds: string[] }>>;
+  deleteRemittanceImports(ids: string[]): Promise<void>;
+  getRemittancesBefore(orgId: string, cutoff: Date): Promise<Array<{ id: string; claimId: string | null }>>;
+  deleteRemittances(ids: string[]): Promise<void>;
+  getAuditEventsBefore(orgId: string, cutoff: Date): Promise<Array<Pick<AuditEvent, 'id' | 'seq' | 'hash' | 'resourceType' | 'resourceId'>>>;
+  deleteAuditEvents(ids: string[]): Promise<void>;
+  createRetentionRun(run: InsertRetentionRun, items: Array<Pick<RetentionRunItem, 'resourceType' | 'resourceId' | 'action'>>): Promise<RetentionRun>;
+  getRetentionRuns(orgId: string, limit?: number): Promise<RetentionRun[]>;
+  getRetentionRun(id: string): Promise<RetentionRun | undefined>;
+  getRetentionRunItems(runId: string, page: { limit: number; afterSeq?: number }): Promise<RetentionRunItem[]>;
+
+  // Privacy request operations; see server/lib/privacyRequests.ts
+  createPrivacyRequest(request: InsertPrivacyRequest): Promise<PrivacyRequest>;
+  getPrivacyRequests(orgId: string, filter?: { status?: PrivacyRequest['status']; patientId?: string }): Promise<PrivacyRequest[]>;
+  getPrivacyRequest(id: string): Promise<PrivacyRequest | undefined>;
+  updatePrivacyRequest(id: string, updates: Partial<InsertPrivacyRequest>): Promise<PrivacyRequest | undefined>;
+  getPatientRecords(patientId: string): Promise<PatientRecords>;
+  updatePreAuth(id: string, updates: Partial<PreAuth>): Promise<void>;
+  deleteEligibilityChecks(ids: string[]): Promise<void>;
+
+  // Key rotation operations; see server/lib/keyRotation.ts
+  createKeyRotation(rotation: InsertKeyRotation): Promise<KeyRotation>;
+  getKeyRotations(limit?: number): Promise<KeyRotation[]>;
+  getKeyRotation(id: string): Promise<KeyRotation | undefined>;
+  updateKeyRotation(id: string, updates: Partial<InsertKeyRotation>): Promise<KeyRotation | undefined>;
+  leaseKeyRotation(id: string, workerId: string, staleBefore: Date): Promise<KeyRotation | undefined>;
+  countEncryptedRows(table: EncryptedTable): Promise<number>;
+  getEncryptedRows(table: EncryptedTable, afterId: string | null, limit: number): Promise<Array<Record<string, unknown> & { id: string }>>;
+  updateEncryptedRow(table: EncryptedTable, id: string, values: Record<string, unknown>): Promise<void>;
+
+  // Rate limit counters; see server/security/rateLimitStore.ts
+  incrementRateLimit(key: string, windowMs: number): Promise<{ hits: number; resetAt: Date }>;
+  decrementRateLimit(key: string): Promise<void>;
+  resetRateLimit(key: string): Promise<void>;
+  getRateLimit(key: string): Promise<{ hits: number; resetAt: Date } | undefined>;
+  deleteExpiredRateLimits(before: Date): Promise<number>;
+
+  // Claim scrubbing operations; see server/lib/claimScrubber.ts
+  getClaimScrubRules(orgId: string): Promise<ClaimScrubRule[]>;
+  getClaimScrubRule(id: string): Promise<ClaimScrubRule | undefined>;
+  createClaimScrubRule(rule: InsertClaimScrubRule): Promise<ClaimScrubRule>;
+  updateClaimScrubRule(id: string, updates: Partial<InsertClaimScrubRule>): Promise<ClaimScrubRule | undefined>;
+  deleteClaimScrubRule(id: string): Promise<void>;
+  getPatientServiceHistory(patientId: string, since: Date): Promise<PatientServiceLine[]>;
+
   // MFA operations
   updateUserMFA(id: string, updates: {
     mfaSecret?: string | null;
@@ -126,6 +443,11 @@ export interface IStorage {
     mfaBackupCodes: string[] | null;
     mfaEnforcedAt: Date | null;
   } | undefined>;
+  getWebAuthnCredentials(userId: string): Promise<WebAuthnCredential[]>;
+  getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | undefined>;
+  createWebAuthnCredential(credential: InsertWebAuthnCredential): Promise<WebAuthnCredential>;
+  recordWebAuthnCredentialUse(id: string, counter: number): Promise<void>;
+  deleteWebAuthnCredential(id: string, userId: string): Promise<WebAuthnCredential | undefined>;
 
   // AI Assistant operations
   trackAiUsage(usage: any): Promise<void>;
@@ -190,6 +512,11 @@ export class DatabaseStorage implements IStorage {
     return user ? decryptRecord('users', user) : undefined;
   }
 
+  async getUsersByOrg(orgId: string): Promise<User[]> {
+    const results = await db.select().from(users).where(eq(users.orgId, orgId)).orderBy(asc(users.createdAt));
+    return results.map(user => decryptRecord('users', user));
+  }
+
   async getFirstOrganization(): Promise<{ id: string } | undefined> {
     const [org] = await db.select({ id: organizations.id }).from(organizations).limit(1);
     return org;
@@ -218,7 +545,221 @@ export class DatabaseStorage implements IStorage {
     return decryptRecord('organizations', org);
   }
 
+  async updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const encryptedData = encryptRecord('organizations', { ...updates, updatedAt: new Date() });
+    const [org] = await db.update(organizations).set(encryptedData).where(eq(organizations.id, id)).returning();
+    return org ? decryptRecord('organizations', org) : undefined;
+  }
+
+  async getRoles(orgId: string): Promise<Role[]> {
+    return await db.select().from(roles).where(eq(roles.orgId, orgId)).orderBy(asc(roles.name));
+  }
+
+  async getRole(id: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role;
+  }
+
+  async getRoleByKey(orgId: string, key: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(and(eq(roles.orgId, orgId), eq(roles.key, key)));
+    return role;
+  }
+
+  async createRole(roleData: InsertRole): Promise<Role> {
+    const [role] = await db.insert(roles).values(roleData).returning();
+    return role;
+  }
+
+  async updateRole(id: string, updates: Partial<InsertRole>): Promise<Role | undefined> {
+    const [role] = await db
+      .update(roles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(roles.id, id))
+      .returning();
+    return role;
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    await db.delete(roles).where(eq(roles.id, id));
+  }
+
+  async getMemberships(userId: string): Promise<OrgMembership[]> {
+    return await db
+      .select()
+      .from(orgMemberships)
+      .where(eq(orgMemberships.userId, userId))
+      .orderBy(asc(orgMemberships.createdAt));
+  }
+
+  async getMembership(userId: string, orgId: string): Promise<OrgMembership | undefined> {
+    const [membership] = await db
+      .select()
+      .from(orgMemberships)
+      .where(and(eq(orgMemberships.userId, userId), eq(orgMemberships.orgId, orgId)));
+    return membership;
+  }
+
+  async getOrgMembers(orgId: string): Promise<Array<{ membership: OrgMembership; user: User }>> {
+    const results = await db
+      .select({ membership: orgMemberships, user: users })
+      .from(orgMemberships)
+      .innerJoin(users, eq(orgMemberships.userId, users.id))
+      .where(eq(orgMemberships.orgId, orgId))
+      .orderBy(asc(orgMemberships.createdAt));
+    return results.map(({ membership, user }) => ({ membership, user: decryptRecord('users', user) }));
+  }
+
+  async createMembership(membership: InsertOrgMembership): Promise<OrgMembership> {
+    const [created] = await db.insert(orgMemberships).values(membership).returning();
+    return created;
+  }
+
+  async updateMembership(id: string, updates: Partial<InsertOrgMembership>): Promise<OrgMembership | undefined> {
+    const [membership] = await db
+      .update(orgMemberships)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(orgMemberships.id, id))
+      .returning();
+    return membership;
+  }
+
+  async deleteMembership(id: string): Promise<void> {
+    await db.delete(orgMemberships).where(eq(orgMemberships.id, id));
+  }
+
+  async getIdentityProviders(orgId: string): Promise<IdentityProvider[]> {
+    const results = await db
+      .select()
+      .from(identityProviders)
+      .where(eq(identityProviders.orgId, orgId))
+      .orderBy(asc(identityProviders.name));
+    return results.map(provider => decryptRecord('identityProviders', provider));
+  }
+
+  async getIdentityProvider(id: string): Promise<IdentityProvider | undefined> {
+    const [provider] = await db.select().from(identityProviders).where(eq(identityProviders.id, id));
+    return provider ? decryptRecord('identityProviders', provider) : undefined;
+  }
+
+  async getIdentityProviderBySlug(slug: string): Promise<IdentityProvider | undefined> {
+    const [provider] = await db.select().from(identityProviders).where(eq(identityProviders.slug, slug));
+    return provider ? decryptRecord('identityProviders', provider) : undefined;
+  }
+
+  async getIdentityProvidersByIssuer(issuer: string): Promise<IdentityProvider[]> {
+    const results = await db.select().from(identityProviders).where(eq(identityProviders.issuer, issuer));
+    return results.map(provider => decryptRecord('identityProviders', provider));
+  }
+
+  async createIdentityProvider(provider: InsertIdentityProvider): Promise<IdentityProvider> {
+    const [created] = await db
+      .insert(identityProviders)
+      .values(encryptRecord('identityProviders', provider))
+      .returning();
+    return decryptRecord('identityProviders', created);
+  }
+
+  async updateIdentityProvider(id: string, updates: Partial<InsertIdentityProvider>): Promise<IdentityProvider | undefined> {
+    const [provider] = await db
+      .update(identityProviders)
+      .set(encryptRecord('identityProviders', { ...updates, updatedAt: new Date() }))
+      .where(eq(identityProviders.id, id))
+      .returning();
+    return provider ? decryptRecord('identityProviders', provider) : undefined;
+  }
+
+  async deleteIdentityProvider(id: string): Promise<void> {
+    await db.delete(identityProviders).where(eq(identityProviders.id, id));
+  }
+
+  async getFederatedIdentity(providerId: string, subject: string): Promise<FederatedIdentity | undefined> {
+    const [identity] = await db
+      .select()
+      .from(federatedIdentities)
+      .where(and(eq(federatedIdentities.providerId, providerId), eq(federatedIdentities.subject, subject)));
+    return identity;
+  }
+
+  async createFederatedIdentity(identity: InsertFederatedIdentity): Promise<FederatedIdentity> {
+    const [created] = await db.insert(federatedIdentities).values(identity).returning();
+    return created;
+  }
+
+  async touchFederatedIdentity(id: string): Promise<void> {
+    await db
+      .update(federatedIdentities)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(federatedIdentities.id, id));
+  }
+
+  async saveSamlRequest(id: string, value: string): Promise<Date> {
+    const [saved] = await db.insert(samlRequests).values({ id, value }).returning();
+    return saved.createdAt;
+  }
+
+  async getSamlRequest(id: string, createdAfter: Date): Promise<string | undefined> {
+    const [request] = await db
+      .select()
+      .from(samlRequests)
+      .where(and(eq(samlRequests.id, id), gt(samlRequests.createdAt, createdAfter)));
+    return request?.value;
+  }
+
+  async deleteSamlRequest(id: string): Promise<boolean> {
+    const deleted = await db.delete(samlRequests).where(eq(samlRequests.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async deleteSamlRequestsBefore(cutoff: Date): Promise<void> {
+    await db.delete(samlRequests).where(lt(samlRequests.createdAt, cutoff));
+  }
+
+  async getScimTokens(orgId: string): Promise<ScimToken[]> {
+    return await db
+      .select()
+      .from(scimTokens)
+      .where(eq(scimTokens.orgId, orgId))
+      .orderBy(desc(scimTokens.createdAt));
+  }
+
+  async getScimTokenByHash(tokenHash: string): Promise<ScimToken | undefined> {
+    const [token] = await db.select().from(scimTokens).where(eq(scimTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createScimToken(token: InsertScimToken): Promise<ScimToken> {
+    const [created] = await db.insert(scimTokens).values(token).returning();
+    return created;
+  }
+
+  async touchScimToken(id: string): Promise<void> {
+    await db.update(scimTokens).set({ lastUsedAt: new Date() }).where(eq(scimTokens.id, id));
+  }
+
+  async deleteScimToken(id: string): Promise<void> {
+    await db.delete(scimTokens).where(eq(scimTokens.id, id));
+  }
+
+  async getUserSessions(userId: string): Promise<StoredSession[]> {
+    const rows = await db
+      .select()
+      .from(sessions)
+      .where(and(sessionUserIs(userId), gte(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+    return rows as StoredSession[];
+  }
 
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const ended = await db
+      .delete(sessions)
+      .where(exceptSid ? and(sessionUserIs(userId), ne(sessions.sid, exceptSid)) : sessionUserIs(userId))
+      .returning({ sid: sessions.sid });
+    return ended.length;
+  }
 
   async getPatient(id: string): Promise<Patient | undefined> {
     const [patient] = await db.select().from(patients).where(eq(patients.id, id));
@@ -226,11 +767,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createPatient(patientData: InsertPatient): Promise<Patient> {
-    const encryptedData = encryptRecord('patients', patientData);
+    const encryptedData = encryptRecord('patients', withContactHashes(patientData));
     const [patient] = await db.insert(patients).values(encryptedData).returning();
     return decryptRecord('patients', patient);
   }
 
+  async updatePatient(id: string, updates: Partial<InsertPatient>): Promise<Patient | undefined> {
+    const encryptedUpdates = encryptRecord('patients', withContactHashes(updates));
+    const [patient] = await db
+      .update(patients)
+      .set(encryptedUpdates)
+      .where(eq(patients.id, id))
+      .returning();
+    return patient ? decryptRecord('patients', patient) : undefined;
+  }
+
+  async findPatientsByContact(orgId: string, contact: ContactLookup): Promise<Patient[]> {
+    const matches = contactHashConditions(patients, contact);
+    if (matches.length === 0) return [];
+
+    const results = await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.orgId, orgId), or(...matches)));
+    return results.map(patient => decryptRecord('patients', patient));
+  }
+
 
 
   async getProvider(id: string): Promise<Provider | undefined> {
@@ -239,11 +801,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProvider(providerData: InsertProvider): Promise<Provider> {
-    const encryptedData = encryptRecord('providers', providerData);
+    const encryptedData = encryptRecord('providers', withContactHashes(providerData));
     const [provider] = await db.insert(providers).values(encryptedData).returning();
     return decryptRecord('providers', provider);
   }
 
+  async updateProvider(id: string, updates: Partial<InsertProvider>): Promise<Provider | undefined> {
+    const encryptedUpdates = encryptRecord('providers', withContactHashes(updates));
+    const [provider] = await db
+      .update(providers)
+      .set(encryptedUpdates)
+      .where(eq(providers.id, id))
+      .returning();
+    return provider ? decryptRecord('providers', provider) : undefined;
+  }
+
+  async findProvidersByContact(orgId: string, contact: ContactLookup): Promise<Provider[]> {
+    const matches = contactHashConditions(providers, contact);
+    if (matches.length === 0) return [];
+
+    const results = await db
+      .select()
+      .from(providers)
+      .where(and(eq(providers.orgId, orgId), or(...matches)));
+    return results.map(provider => decryptRecord('providers', provider));
+  }
+
   async getInsurers(): Promise<Insurer[]> {
     return await db.select().from(insurers).orderBy(asc(insurers.name));
   }
@@ -258,12 +841,12 @@ export class DatabaseStorage implements IStorage {
     return insurer;
   }
 
-  async getClaims(orgId: string, userId?: string, role?: string): Promise<Claim[]> {
+  async getClaims(orgId: string, createdBy?: string): Promise<Claim[]> {
     const baseConditions = [eq(claims.orgId, orgId)];
     
-    // Role-based filtering
-    if (role === 'provider' && userId) {
-      baseConditions.push(eq(claims.createdBy, userId));
+    // Users without claims:read:all only see their own claims
+    if (createdBy) {
+      baseConditions.push(eq(claims.createdBy, createdBy));
     }
     
     const results = await db
@@ -281,8 +864,13 @@ export class DatabaseStorage implements IStorage {
     return claim ? decryptRecord('claims', claim) : undefined;
   }
 
-  async getClaimByReferenceNumber(referenceNumber: string): Promise<Claim | undefined> {
-    const [claim] = await db.select().from(claims).where(eq(claims.referenceNumber, referenceNumber)).limit(1);
+  async getClaimByReferenceNumber(referenceNumber: string, orgId?: string): Promise<Claim | undefined> {
+    const [claim] = await db
+      .select()
+      .from(claims)
+      .where(and(eq(claims.referenceNumber, referenceNumber), orgId ? eq(claims.orgId, orgId) : undefined))
+      .orderBy(desc(claims.createdAt), desc(claims.id))
+      .limit(1);
     return claim ? decryptRecord('claims', claim) : undefined;
   }
 
@@ -291,13 +879,38 @@ export class DatabaseStorage implements IStorage {
     return claim ? decryptRecord('claims', claim) : undefined;
   }
 
+  async getChildClaims(parentClaimIds: string[]): Promise<Claim[]> {
+    if (parentClaimIds.length === 0) {
+      return [];
+    }
+    const results = await db
+      .select()
+      .from(claims)
+      .where(inArray(claims.parentClaimId, parentClaimIds))
+      .orderBy(asc(claims.createdAt));
+    return results.map(claim => decryptRecord('claims', claim));
+  }
+
   async createClaim(claimData: InsertClaim): Promise<Claim> {
     const encryptedData = encryptRecord('claims', claimData);
-    const [claim] = await db.insert(claims).values(encryptedData).returning();
-    return decryptRecord('claims', claim);
+    return await db.transaction(async (tx) => {
+      const [claim] = await tx.insert(claims).values(encryptedData).returning();
+      await tx.insert(claimStatusHistory).values({
+        claimId: claim.id,
+        fromStatus: null,
+        toStatus: claim.status,
+        actorUserId: claim.createdBy,
+        source: 'user',
+        reason: 'Claim created',
+      });
+      return decryptRecord('claims', claim);
+    });
   }
 
-  async updateClaim(id: string, updates: Partial<Claim>): Promise<Claim | undefined> {
+  async updateClaim(id: string, updates: Partial<Omit<Claim, 'status'>>): Promise<Claim | undefined> {
+    if ('status' in updates) {
+      throw new Error('Claim status must be changed through transitionClaimStatus()');
+    }
     const encryptedUpdates = encryptRecord('claims', { ...updates, updatedAt: new Date() });
     const [claim] = await db
       .update(claims)
@@ -308,16 +921,30 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAttachments(claimId: string): Promise<Attachment[]> {
-    const results = await db.select().from(attachments).where(eq(attachments.claimId, claimId));
+    const results = await db.select().from(attachments).where(eq(attachments.claimId, claimId)).orderBy(asc(attachments.createdAt));
     return results.map(att => decryptRecord('attachments', att));
   }
 
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment ? decryptRecord('attachments', attachment) : undefined;
+  }
+
   async createAttachment(attachmentData: InsertAttachment): Promise<Attachment> {
     const encryptedData = encryptRecord('attachments', attachmentData);
     const [attachment] = await db.insert(attachments).values(encryptedData).returning();
     return decryptRecord('attachments', attachment);
   }
 
+  async updateAttachment(id: string, updates: Partial<InsertAttachment>): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .update(attachments)
+      .set(encryptRecord('attachments', updates))
+      .where(eq(attachments.id, id))
+      .returning();
+    return attachment ? decryptRecord('attachments', attachment) : undefined;
+  }
+
   async getRemittances(orgId: string): Promise<Remittance[]> {
     const results = await db
       .select({
@@ -342,10 +969,230 @@ export class DatabaseStorage implements IStorage {
     return decryptRecord('remittances', remittance);
   }
 
+  async createRemittanceImport(
+    importData: InsertRemittanceImport,
+    lines: Omit<InsertRemittanceLine, 'importId'>[],
+    settlements: RemittanceSettlement[]
+  ): Promise<{ remittanceImport: RemittanceImport; lines: RemittanceLine[] } | undefined> {
+    const rollback = new Error('remittance import rolled back');
+    try {
+      return await db.transaction(async (tx) => {
+        const [remittanceImport] = await tx
+          .insert(remittanceImports)
+          .values(importData)
+          .onConflictDoNothing({ target: [remittanceImports.orgId, remittanceImports.checksum] })
+          .returning();
+        if (!remittanceImport) {
+          throw rollback;
+        }
+        if (lines.length === 0) {
+          return { remittanceImport, lines: [] };
+        }
+
+        const inserted = await tx
+          .insert(remittanceLines)
+          .values(lines.map(line => encryptRecord('remittanceLines', { ...line, importId: remittanceImport.id })))
+          .returning();
+
+        for (const settlement of settlements) {
+          const { change } = settlement;
+          // Same guard as updateClaimStatus: the claim must still be where the import found it
+          const [claim] = await tx
+            .update(claims)
+            .set({ status: change.toStatus, updatedAt: new Date() })
+            .where(and(eq(claims.id, settlement.claimId), eq(claims.status, change.fromStatus)))
+            .returning({ id: claims.id });
+          if (!claim) {
+            throw rollback;
+          }
+          await tx.insert(claimStatusHistory).values({
+            claimId: settlement.claimId,
+            fromStatus: change.fromStatus,
+            toStatus: change.toStatus,
+            actorUserId: change.actorUserId ?? null,
+            source: change.source,
+            reason: change.reason ?? null,
+          });
+
+          const line = inserted[settlement.lineIndex];
+          const [remittance] = await tx
+            .insert(remittances)
+            .values(encryptRecord('remittances', {
+              ...settlement.remittance,
+              claimId: settlement.claimId,
+              raw: { ...(settlement.remittance.raw as Record<string, unknown>), remittanceImportId: remittanceImport.id },
+            }))
+            .returning({ id: remittances.id });
+          const [settled] = await tx
+            .update(remittanceLines)
+            .set({ remittanceId: remittance.id })
+            .where(eq(remittanceLines.id, line.id))
+            .returning();
+          inserted[settlement.lineIndex] = settled;
+        }
+
+        return {
+          remittanceImport,
+          lines: inserted.map(line => decryptRecord('remittanceLines', line)),
+        };
+      });
+    } catch (error) {
+      if (error === rollback) return undefined;
+      throw error;
+    }
+  }
+
+  async getRemittanceImports(orgId: string, limit = 50): Promise<RemittanceImport[]> {
+    return await db
+      .select()
+      .from(remittanceImports)
+      .where(eq(remittanceImports.orgId, orgId))
+      .orderBy(desc(remittanceImports.createdAt))
+      .limit(limit);
+  }
+
+  async getRemittanceImport(id: string): Promise<RemittanceImport | undefined> {
+    const [remittanceImport] = await db.select().from(remittanceImports).where(eq(remittanceImports.id, id));
+    return remittanceImport;
+  }
+
+  async getRemittanceImportByChecksum(orgId: string, checksum: string): Promise<RemittanceImport | undefined> {
+    const [remittanceImport] = await db
+      .select()
+      .from(remittanceImports)
+      .where(and(eq(remittanceImports.orgId, orgId), eq(remittanceImports.checksum, checksum)));
+    return remittanceImport;
+  }
+
+  async updateRemittanceImport(id: string, updates: Partial<RemittanceImport>): Promise<RemittanceImport | undefined> {
+    const [remittanceImport] = await db
+      .update(remittanceImports)
+      .set(updates)
+      .where(eq(remittanceImports.id, id))
+      .returning();
+    return remittanceImport;
+  }
+
+  async getRemittanceLines(orgId: string, filter?: { matchStatus?: RemittanceLine['matchStatus']; importId?: string }): Promise<RemittanceLine[]> {
+    const conditions = [eq(remittanceLines.orgId, orgId)];
+    if (filter?.matchStatus) {
+      conditions.push(eq(remittanceLines.matchStatus, filter.matchStatus));
+    }
+    if (filter?.importId) {
+      conditions.push(eq(remittanceLines.importId, filter.importId));
+    }
+
+    const results = await db
+      .select()
+      .from(remittanceLines)
+      .where(and(...conditions))
+      .orderBy(desc(remittanceLines.createdAt), asc(remittanceLines.lineNumber));
+    return results.map(line => decryptRecord('remittanceLines', line));
+  }
+
+  async getRemittanceLine(id: string): Promise<RemittanceLine | undefined> {
+    const [line] = await db.select().from(remittanceLines).where(eq(remittanceLines.id, id));
+    return line ? decryptRecord('remittanceLines', line) : undefined;
+  }
+
+  async updateRemittanceLine(id: string, updates: Partial<RemittanceLine>): Promise<RemittanceLine | undefined> {
+    const encryptedUpdates = encryptRecord('remittanceLines', updates);
+    const [line] = await db
+      .update(remittanceLines)
+      .set(encryptedUpdates)
+      .where(eq(remittanceLines.id, id))
+      .returning();
+    return line ? decryptRecord('remittanceLines', line) : undefined;
+  }
+
+  async getAppointments(orgId: string, filter: AppointmentFilter = {}): Promise<AppointmentWithClaim[]> {
+    const conditions = [eq(appointments.orgId, orgId)];
+    if (filter.providerId) conditions.push(eq(appointments.providerId, filter.providerId));
+    if (filter.status) conditions.push(eq(appointments.status, filter.status));
+    if (filter.from) conditions.push(gte(appointments.scheduledAt, filter.from));
+    if (filter.to) conditions.push(lt(appointments.scheduledAt, filter.to));
+
+    const results = await db
+      .select({ appointment: appointments, claimId: billedClaimId() })
+      .from(appointments)
+      .where(and(...conditions))
+      .orderBy(asc(appointments.scheduledAt));
+
+    return results.map(({ appointment, claimId }) => ({ ...decryptRecord('appointments', appointment), claimId }));
+  }
+
+  async getAppointment(id: string): Promise<AppointmentWithClaim | undefined> {
+    const [result] = await db
+      .select({ appointment: appointments, claimId: billedClaimId() })
+      .from(appointments)
+      .where(eq(appointments.id, id));
+    return result ? { ...decryptRecord('appointments', result.appointment), claimId: result.claimId } : undefined;
+  }
+
+  async createAppointment(appointmentData: InsertAppointment): Promise<Appointment> {
+    const encryptedData = encryptRecord('appointments', appointmentData);
+    const [appointment] = await db.insert(appointments).values(encryptedData).returning();
+    return decryptRecord('appointments', appointment);
+  }
+
+  async updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment | undefined> {
+    const encryptedUpdates = encryptRecord('appointments', { ...updates, updatedAt: new Date() });
+    const [appointment] = await db
+      .update(appointments)
+      .set(encryptedUpdates)
+      .where(eq(appointments.id, id))
+      .returning();
+    return appointment ? decryptRecord('appointments', appointment) : undefined;
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    await db.delete(appointments).where(eq(appointments.id, id));
+  }
+
+  async getLatestEligibilityCheck(patientId: string, insurerId: string): Promise<EligibilityCheck | undefined> {
+    const [check] = await db
+      .select()
+      .from(eligibilityChecks)
+      .where(and(eq(eligibilityChecks.patientId, patientId), eq(eligibilityChecks.insurerId, insurerId)))
+      .orderBy(desc(eligibilityChecks.createdAt))
+      .limit(1);
+    return check ? decryptRecord('eligibilityChecks', check) : undefined;
+  }
+
+  async createEligibilityCheck(checkData: InsertEligibilityCheck): Promise<EligibilityCheck> {
+    const encryptedData = encryptRecord('eligibilityChecks', checkData);
+    const [check] = await db.insert(eligibilityChecks).values(encryptedData).returning();
+    return decryptRecord('eligibilityChecks', check);
+  }
+
   async createAuditEvent(eventData: InsertAuditEvent): Promise<AuditEvent> {
-    const encryptedData = encryptRecord('auditEvents', eventData);
-    const [event] = await db.insert(auditEvents).values(encryptedData).returning();
-    return decryptRecord('auditEvents', event);
+    const resource = eventData.resourceType ? null : auditResourceOf(eventData.details);
+    return await db.transaction(async (tx) => {
+      // One writer per organization at a time, so each event links to the one before it
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${eventData.orgId}))`);
+      const [previous] = await tx
+        .select({ seq: auditEvents.seq, hash: auditEvents.hash })
+        .from(auditEvents)
+        .where(and(eq(auditEvents.orgId, eventData.orgId), isNotNull(auditEvents.seq)))
+        .orderBy(desc(auditEvents.seq))
+        .limit(1);
+
+      const chained = {
+        ...eventData,
+        ...resource,
+        // Hashed as it will read back after the JSON round trip through encryption
+        details: JSON.parse(JSON.stringify(eventData.details ?? {})),
+        seq: (previous?.seq ?? 0) + 1,
+        prevHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+        createdAt: new Date(),
+      };
+      const hash = computeAuditHash(chained, chained.prevHash);
+      const [event] = await tx
+        .insert(auditEvents)
+        .values(encryptRecord('auditEvents', { ...chained, hash }))
+        .returning();
+      return decryptRecord('auditEvents', event);
+    });
   }
 
   async getAuditEvents(orgId: string, limit = 100): Promise<AuditEvent[]> {
@@ -358,6 +1205,35 @@ export class DatabaseStorage implements IStorage {
     return results.map(event => decryptRecord('auditEvents', event));
   }
 
+  async searchAuditEvents(orgId: string, filter: AuditEventFilter, page: { limit: number; offset: number }): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions = [eq(auditEvents.orgId, orgId)];
+    if (filter.actorUserId) conditions.push(eq(auditEvents.actorUserId, filter.actorUserId));
+    if (filter.type) conditions.push(eq(auditEvents.type, filter.type));
+    if (filter.resourceType) conditions.push(eq(auditEvents.resourceType, filter.resourceType));
+    if (filter.resourceId) conditions.push(eq(auditEvents.resourceId, filter.resourceId));
+    if (filter.from) conditions.push(gte(auditEvents.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(auditEvents.createdAt, filter.to));
+
+    const [{ total }] = await db.select({ total: count() }).from(auditEvents).where(and(...conditions));
+    const results = await db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.seq))
+      .limit(page.limit)
+      .offset(page.offset);
+    return { events: results.map(event => decryptRecord('auditEvents', event)), total };
+  }
+
+  async getAuditChain(orgId: string): Promise<AuditEvent[]> {
+    const results = await db
+      .select()
+      .from(auditEvents)
+      .where(and(eq(auditEvents.orgId, orgId), isNotNull(auditEvents.seq)))
+      .orderBy(asc(auditEvents.seq));
+    return results.map(event => decryptRecord('auditEvents', event));
+  }
+
   async createAuditLog(event: any): Promise<any> {
     // Redirect to existing audit event creation for compatibility
     return this.createAuditEvent(event);
@@ -421,16 +1297,149 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async updateClaimStatus(id: string, status: string): Promise<void> {
-    // Status is not PHI, but we still use encryptRecord for consistency
-    const updates = { 
-      status: status as any,
-      updatedAt: new Date(),
-    };
-    await db
-      .update(claims)
-      .set(updates)
-      .where(eq(claims.id, id));
+  async updateClaimStatus(id: string, change: ClaimStatusChange): Promise<Claim | undefined> {
+    return await db.transaction(async (tx) => {
+      const encryptedUpdates = encryptRecord('claims', {
+        ...change.updates,
+        status: change.toStatus,
+        updatedAt: new Date(),
+      });
+      // Only move the claim if nobody else changed its status in the meantime
+      const [claim] = await tx
+        .update(claims)
+        .set(encryptedUpdates)
+        .where(and(eq(claims.id, id), eq(claims.status, change.fromStatus)))
+        .returning();
+      if (!claim) {
+        return undefined;
+      }
+
+      await tx.insert(claimStatusHistory).values({
+        claimId: id,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        actorUserId: change.actorUserId ?? null,
+        source: change.source,
+        reason: change.reason ?? null,
+      });
+      return decryptRecord('claims', claim);
+    });
+  }
+
+  async createAmendmentClaim(
+    claimData: InsertClaim & { parentClaimId: string },
+    lines: ClaimLineInput[],
+    guard: ClaimAmendmentGuard
+  ): Promise<Claim | undefined> {
+    const encryptedData = encryptRecord('claims', claimData);
+    return await db.transaction(async (tx) => {
+      // The parent's row lock makes amendments of one claim run one at a time
+      const [parent] = await tx
+        .select({ status: claims.status })
+        .from(claims)
+        .where(eq(claims.id, claimData.parentClaimId))
+        .for('update');
+      if (!parent || !guard.parentStatuses.includes(parent.status)) {
+        return undefined;
+      }
+
+      if (guard.blockingRelations.length > 0) {
+        const [amended] = await tx
+          .select({ id: claims.id })
+          .from(claims)
+          .where(and(
+            eq(claims.parentClaimId, claimData.parentClaimId),
+            inArray(claims.relation, [...guard.blockingRelations]),
+            ne(claims.status, 'reversed')
+          ))
+          .limit(1);
+        if (amended) {
+          return undefined;
+        }
+      }
+
+      const [claim] = await tx.insert(claims).values(encryptedData).returning();
+      await tx.insert(claimStatusHistory).values({
+        claimId: claim.id,
+        fromStatus: null,
+        toStatus: claim.status,
+        actorUserId: claim.createdBy,
+        source: 'user',
+        reason: 'Claim created',
+      });
+      if (lines.length > 0) {
+        await tx
+          .insert(claimLines)
+          .values(lines.map((line, index) => ({ ...line, claimId: claim.id, lineNumber: index + 1 })));
+      }
+      return decryptRecord('claims', claim);
+    });
+  }
+
+  async getClaimStatusHistory(claimId: string): Promise<ClaimStatusHistory[]> {
+    return await db
+      .select()
+      .from(claimStatusHistory)
+      .where(eq(claimStatusHistory.claimId, claimId))
+      .orderBy(asc(claimStatusHistory.createdAt));
+  }
+
+  async getClaimLines(claimId: string): Promise<ClaimLine[]> {
+    return await db
+      .select()
+      .from(claimLines)
+      .where(eq(claimLines.claimId, claimId))
+      .orderBy(asc(claimLines.lineNumber));
+  }
+
+  async replaceClaimLines(claimId: string, lines: ClaimLineInput[]): Promise<ClaimLine[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(claimLines).where(eq(claimLines.claimId, claimId));
+      if (lines.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .insert(claimLines)
+        .values(lines.map((line, index) => ({ ...line, claimId, lineNumber: index + 1 })))
+        .returning();
+    });
+  }
+
+  async getClaimLinesForClaims(claimIds: string[]): Promise<ClaimLine[]> {
+    if (claimIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(claimLines)
+      .where(inArray(claimLines.claimId, claimIds))
+      .orderBy(asc(claimLines.claimId), asc(claimLines.lineNumber));
+  }
+
+  async applyClaimLineAdjudication(claimId: string, results: ClaimLineAdjudication[]): Promise<ClaimLine[]> {
+    const adjudicatedAt = new Date();
+    const updated: ClaimLine[] = [];
+
+    for (const result of results) {
+      const [line] = await db
+        .update(claimLines)
+        .set({
+          eligibleAmount: result.eligibleAmount.toFixed(2),
+          paidAmount: result.paidAmount.toFixed(2),
+          deniedAmount: result.deniedAmount.toFixed(2),
+          reasonCodes: result.reasonCodes ?? [],
+          adjudicatedAt,
+          updatedAt: adjudicatedAt,
+        })
+        .where(and(eq(claimLines.claimId, claimId), eq(claimLines.lineNumber, result.lineNumber)))
+        .returning();
+      if (line) {
+        updated.push(line);
+      }
+    }
+
+    return updated;
   }
 
   // EDI Connector operations implementation
@@ -495,6 +1504,554 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(connectorTransactions.createdAt));
   }
 
+  // Job queue operations implementation
+  async createJob(job: InsertJob): Promise<Job | undefined> {
+    const [result] = await db
+      .insert(jobs)
+      .values(job)
+      .onConflictDoNothing({ target: [jobs.claimId, jobs.type], where: sql`${jobs.status} = 'queued'` })
+      .returning();
+    return result;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobs(filter?: { orgId?: string; status?: Job['status']; limit?: number }): Promise<Job[]> {
+    const conditions = [];
+    if (filter?.orgId) {
+      conditions.push(eq(jobs.orgId, filter.orgId));
+    }
+    if (filter?.status) {
+      conditions.push(eq(jobs.status, filter.status));
+    }
+
+    return await db
+      .select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(filter?.limit ?? 100);
+  }
+
+  async findQueuedJob(claimId: string, type: Job['type']): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(
+        eq(jobs.claimId, claimId),
+        eq(jobs.type, type),
+        eq(jobs.status, 'queued')
+      ))
+      .limit(1);
+    return job;
+  }
+
+  /**
+   * Atomically lease due jobs to a worker. FOR UPDATE SKIP LOCKED lets several
+   * app instances poll the same table without handing out a job twice; running
+   * jobs whose lease is older than staleLockBefore are reclaimed (crashed worker).
+   */
+  async claimDueJobs(workerId: string, limit: number, staleLockBefore: Date): Promise<Job[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const due = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(or(
+          and(eq(jobs.status, 'queued'), lte(jobs.runAt, now)),
+          and(eq(jobs.status, 'running'), lt(jobs.lockedAt, staleLockBefore))
+        ))
+        .orderBy(asc(jobs.runAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .update(jobs)
+        .set({
+          status: 'running',
+          lockedBy: workerId,
+          lockedAt: now,
+          attempts: sql`${jobs.attempts} + 1`,
+          updatedAt: now,
+        })
+        .where(inArray(jobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const [result] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return result;
+  }
+
+  async getJobStats(orgId?: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: jobs.status, count: count() })
+      .from(jobs)
+      .where(orgId ? eq(jobs.orgId, orgId) : undefined)
+      .groupBy(jobs.status);
+
+    const stats: Record<string, number> = {};
+    for (const row of rows) {
+      stats[row.status] = row.count;
+    }
+    return stats;
+  }
+
+  async deleteFinishedJobsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobs)
+      .where(and(
+        inArray(jobs.status, ['succeeded', 'cancelled']),
+        lt(jobs.updatedAt, cutoff)
+      ))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+
+  // Retention operations
+  async getOrganizations(): Promise<Organization[]> {
+    const results = await db.select().from(organizations).orderBy(asc(organizations.createdAt));
+    return results.map(org => decryptRecord('organizations', org));
+  }
+
+  async getClaimsPastRetention(orgId: string, cutoff: Date): Promise<Claim[]> {
+    const results = await db
+      .select()
+      .from(claims)
+      .where(and(
+        eq(claims.orgId, orgId),
+        lt(claims.updatedAt, cutoff),
+        isNull(claims.anonymizedAt)
+      ))
+      .orderBy(asc(claims.updatedAt));
+    return results.map(claim => decryptRecord('claims', claim));
+  }
+
+  async getLegalHoldClaimIds(orgId: string): Promise<string[]> {
+    // Up to the root of each held claim's chain, then down to every descendant
+    const results = await db.execute<{ id: string }>(sql`
+      with recursive held_up as (
+        select ${claims.id} as id, ${claims.parentClaimId} as parent_id
+        from ${claims}
+        where ${claims.orgId} = ${orgId} and ${claims.legalHold} = true
+        union
+        select parent.id, parent.parent_claim_id
+        from ${claims} parent
+        join held_up on parent.id = held_up.parent_id
+      ), held_down as (
+        select id from held_up
+        union
+        select child.id
+        from ${claims} child
+        join held_down on child.parent_claim_id = held_down.id
+      )
+      select id from held_down
+    `);
+    return results.rows.map(({ id }) => id);
+  }
+
+  // Leaves updatedAt alone so a hold does not restart the retention clock
+  async setClaimLegalHold(id: string, hold: { legalHold: boolean; legalHoldReason: string | null }): Promise<Claim | undefined> {
+    const [claim] = await db
+      .update(claims)
+      .set({ ...hold, legalHoldAt: hold.legalHold ? new Date() : null })
+      .where(eq(claims.id, id))
+      .returning();
+    return claim ? decryptRecord('claims', claim) : undefined;
+  }
+
+  async getAttachmentsByClaimIds(claimIds: string[]): Promise<Attachment[]> {
+    const results: Attachment[] = [];
+    for (const batch of idBatches(claimIds)) {
+      const rows = await db.select().from(attachments).where(inArray(attachments.claimId, batch));
+      results.push(...rows.map(attachment => decryptRecord('attachments', attachment)));
+    }
+    return results;
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    await db.delete(attachments).where(eq(attachments.id, id));
+  }
+
+  async getConnectorTransactionsBefore(orgId: string, cutoff: Date): Promise<Array<{ id: string; claimId: string; hasPayload: boolean }>> {
+    return await db
+      .select({
+        id: connectorTransactions.id,
+        claimId: connectorTransactions.claimId,
+        hasPayload: sql<boolean>`${connectorTransactions.payload} is not null`,
+      })
+      .from(connectorTransactions)
+      .innerJoin(claims, eq(connectorTransactions.claimId, claims.id))
+      .where(and(eq(claims.orgId, orgId), lt(connectorTransactions.createdAt, cutoff)));
+  }
+
+  async clearConnectorTransactionPayloads(ids: string[]): Promise<void> {
+    for (const batch of idBatches(ids)) {
+      await db
+        .update(connectorTransactions)
+        .set({ payload: null, updatedAt: new Date() })
+        .where(inArray(connectorTransactions.id, batch));
+    }
+  }
+
+  async deleteConnectorTransactions(ids: string[]): Promise<void> {
+    for (const batch of idBatches(ids)) {
+      await db.transaction(async (tx) => {
+        await tx.delete(connectorErrors).where(inArray(connectorErrors.transactionId, batch));
+        await tx.delete(connectorTransactions).where(inArray(connectorTransactions.id, batch));
+      });
+    }
+  }
+
+  async getRemittanceImportsBefore(orgId: string, cutoff: Date): Promise<Array<{ id: string; claimIds: string[] }>> {
+    const results = await db
+      .select({
+        id: remittanceImports.id,
+        claimIds: sql<string[]>`coalesce(array_agg(distinct ${remittanceLines.claimId}) filter (where ${remittanceLines.claimId} is not null), '{}')`,
+      })
+      .from(remittanceImports)
+      .leftJoin(remittanceLines, eq(remittanceLines.importId, remittanceImports.id))
+      .where(and(eq(remittanceImports.orgId, orgId), lt(remittanceImports.createdAt, cutoff)))
+      .groupBy(remittanceImports.id);
+    return results;
+  }
+
+  // Lines go with their import (on delete cascade)
+  async deleteRemittanceImports(ids: string[]): Promise<void> {
+    for (const batch of idBatches(ids)) {
+      await db.delete(remittanceImports).where(inArray(remittanceImports.id, batch));
+    }
+  }
+
+  // Remittances have no orgId of their own; they belong to the organization of their claim
+  async getRemittancesBefore(orgId: string, cutoff: Date): Promise<Array<{ id: string; claimId: string | null }>> {
+    return await db
+      .select({ id: remittances.id, claimId: remittances.claimId })
+      .from(remittances)
+      .innerJoin(claims, eq(remittances.claimId, claims.id))
+      .where(and(eq(claims.orgId, orgId), lt(remittances.createdAt, cutoff)));
+  }
+
+  async deleteRemittances(ids: string[]): Promise<void> {
+    for (const batch of idBatches(ids)) {
+      await db.transaction(async (tx) => {
+        await tx.update(remittanceLines).set({ remittanceId: null }).where(inArray(remittanceLines.remittanceId, batch));
+        await tx.delete(remittances).where(inArray(remittances.id, batch));
+      });
+    }
+  }
+
+  async getAuditEventsBefore(orgId: string, cutoff: Date): Promise<Array<Pick<AuditEvent, 'id' | 'seq' | 'hash' | 'resourceType' | 'resourceId'>>> {
+    return await db
+      .select({
+        id: auditEvents.id,
+        seq: auditEvents.seq,
+        hash: auditEvents.hash,
+        resourceType: auditEvents.resourceType,
+        resourceId: auditEvents.resourceId,
+      })
+      .from(auditEvents)
+      .where(and(eq(auditEvents.orgId, orgId), lt(auditEvents.createdAt, cutoff)))
+      .orderBy(asc(auditEvents.seq), asc(auditEvents.createdAt));
+  }
+
+  async deleteAuditEvents(ids: string[]): Promise<void> {
+    for (const batch of idBatches(ids)) {
+      await db.delete(auditEvents).where(inArray(auditEvents.id, batch));
+    }
+  }
+
+  async createRetentionRun(
+    run: InsertRetentionRun,
+    items: Array<Pick<RetentionRunItem, 'resourceType' | 'resourceId' | 'action'>>
+  ): Promise<RetentionRun> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(retentionRuns).values(run).returning();
+      const rows = items.map((item, seq) => ({ ...item, runId: result.id, seq }));
+      // Four parameters a row
+      for (const batch of idBatches(rows, ID_BATCH_SIZE / 4)) {
+        await tx.insert(retentionRunItems).values(batch);
+      }
+      return result;
+    });
+  }
+
+  async getRetentionRuns(orgId: string, limit = 20): Promise<RetentionRun[]> {
+    return await db
+      .select()
+      .from(retentionRuns)
+      .where(eq(retentionRuns.orgId, orgId))
+      .orderBy(desc(retentionRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getRetentionRun(id: string): Promise<RetentionRun | undefined> {
+    const [run] = await db.select().from(retentionRuns).where(eq(retentionRuns.id, id));
+    return run;
+  }
+
+  async getRetentionRunItems(runId: string, page: { limit: number; afterSeq?: number }): Promise<RetentionRunItem[]> {
+    return await db
+      .select()
+      .from(retentionRunItems)
+      .where(and(
+        eq(retentionRunItems.runId, runId),
+        page.afterSeq !== undefined ? gt(retentionRunItems.seq, page.afterSeq) : undefined
+      ))
+      .orderBy(asc(retentionRunItems.seq))
+      .limit(page.limit);
+  }
+
+  // Privacy request operations
+  async createPrivacyRequest(requestData: InsertPrivacyRequest): Promise<PrivacyRequest> {
+    const encryptedData = encryptRecord('privacyRequests', requestData);
+    const [request] = await db.insert(privacyRequests).values(encryptedData).returning();
+    return decryptRecord('privacyRequests', request);
+  }
+
+  async getPrivacyRequests(orgId: string, filter: { status?: PrivacyRequest['status']; patientId?: string } = {}): Promise<PrivacyRequest[]> {
+    const conditions = [eq(privacyRequests.orgId, orgId)];
+    if (filter.status) conditions.push(eq(privacyRequests.status, filter.status));
+    if (filter.patientId) conditions.push(eq(privacyRequests.patientId, filter.patientId));
+
+    const results = await db
+      .select()
+      .from(privacyRequests)
+      .where(and(...conditions))
+      .orderBy(asc(privacyRequests.dueAt));
+    return results.map(request => decryptRecord('privacyRequests', request));
+  }
+
+  async getPrivacyRequest(id: string): Promise<PrivacyRequest | undefined> {
+    const [request] = await db.select().from(privacyRequests).where(eq(privacyRequests.id, id));
+    return request ? decryptRecord('privacyRequests', request) : undefined;
+  }
+
+  async updatePrivacyRequest(id: string, updates: Partial<InsertPrivacyRequest>): Promise<PrivacyRequest | undefined> {
+    const encryptedUpdates = encryptRecord('privacyRequests', { ...updates, updatedAt: new Date() });
+    const [request] = await db
+      .update(privacyRequests)
+      .set(encryptedUpdates)
+      .where(eq(privacyRequests.id, id))
+      .returning();
+    return request ? decryptRecord('privacyRequests', request) : undefined;
+  }
+
+  async getPatientRecords(patientId: string): Promise<PatientRecords> {
+    const [appointmentRows, claimRows, preAuthRows, eligibilityRows] = await Promise.all([
+      db.select().from(appointments).where(eq(appointments.patientId, patientId)).orderBy(asc(appointments.scheduledAt)),
+      db.select().from(claims).where(eq(claims.patientId, patientId)).orderBy(asc(claims.createdAt)),
+      db.select().from(preAuths).where(eq(preAuths.patientId, patientId)).orderBy(asc(preAuths.createdAt)),
+      db.select().from(eligibilityChecks).where(eq(eligibilityChecks.patientId, patientId)).orderBy(asc(eligibilityChecks.createdAt)),
+    ]);
+
+    const claimIds = claimRows.map(claim => claim.id);
+    const [lines, history, attachmentRows, remittanceLineRows] = claimIds.length === 0
+      ? [[], [], [], []]
+      : await Promise.all([
+          this.getClaimLinesForClaims(claimIds),
+          db.select().from(claimStatusHistory).where(inArray(claimStatusHistory.claimId, claimIds)).orderBy(asc(claimStatusHistory.createdAt)),
+          this.getAttachmentsByClaimIds(claimIds),
+          db.select().from(remittanceLines).where(inArray(remittanceLines.claimId, claimIds)),
+        ]);
+
+    return {
+      appointments: appointmentRows.map(appointment => decryptRecord('appointments', appointment)),
+      claims: claimRows.map(claim => decryptRecord('claims', claim)),
+      claimLines: lines,
+      claimStatusHistory: history,
+      attachments: attachmentRows,
+      preAuths: preAuthRows,
+      eligibilityChecks: eligibilityRows.map(check => decryptRecord('eligibilityChecks', check)),
+      remittanceLines: remittanceLineRows.map(line => decryptRecord('remittanceLines', line)),
+    };
+  }
+
+  async updatePreAuth(id: string, updates: Partial<PreAuth>): Promise<void> {
+    await db.update(preAuths).set({ ...updates, updatedAt: new Date() }).where(eq(preAuths.id, id));
+  }
+
+  async deleteEligibilityChecks(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(eligibilityChecks).where(inArray(eligibilityChecks.id, ids));
+  }
+
+  // Key rotation operations
+  async createKeyRotation(rotation: InsertKeyRotation): Promise<KeyRotation> {
+    const [result] = await db.insert(keyRotations).values(rotation).returning();
+    return result;
+  }
+
+  async getKeyRotations(limit = 20): Promise<KeyRotation[]> {
+    return await db
+      .select()
+      .from(keyRotations)
+      .orderBy(desc(keyRotations.startedAt))
+      .limit(limit);
+  }
+
+  async getKeyRotation(id: string): Promise<KeyRotation | undefined> {
+    const [rotation] = await db.select().from(keyRotations).where(eq(keyRotations.id, id));
+    return rotation;
+  }
+
+  async updateKeyRotation(id: string, updates: Partial<InsertKeyRotation>): Promise<KeyRotation | undefined> {
+    const [rotation] = await db
+      .update(keyRotations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(keyRotations.id, id))
+      .returning();
+    return rotation;
+  }
+
+  // Take the rotation for one batch unless another worker holds a fresh lease
+  async leaseKeyRotation(id: string, workerId: string, staleBefore: Date): Promise<KeyRotation | undefined> {
+    const [rotation] = await db
+      .update(keyRotations)
+      .set({ lockedBy: workerId, lockedAt: new Date() })
+      .where(and(
+        eq(keyRotations.id, id),
+        eq(keyRotations.status, 'running'),
+        or(isNull(keyRotations.lockedBy), eq(keyRotations.lockedBy, workerId), lt(keyRotations.lockedAt, staleBefore)),
+      ))
+      .returning();
+    return rotation;
+  }
+
+  async countEncryptedRows(table: EncryptedTable): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(ENCRYPTED_TABLES[table]);
+    return result.count;
+  }
+
+  // Raw rows, still encrypted, in id order
+  async getEncryptedRows(table: EncryptedTable, afterId: string | null, limit: number): Promise<Array<Record<string, unknown> & { id: string }>> {
+    const source = ENCRYPTED_TABLES[table];
+    const rows = await db
+      .select()
+      .from(source)
+      .where(afterId === null ? undefined : sql`${source.id} > ${afterId}`)
+      .orderBy(asc(source.id))
+      .limit(limit);
+    return rows as Array<Record<string, unknown> & { id: string }>;
+  }
+
+  // Values are written as given: the caller has already encrypted them
+  async updateEncryptedRow(table: EncryptedTable, id: string, values: Record<string, unknown>): Promise<void> {
+    const target = ENCRYPTED_TABLES[table];
+    await db.update(target).set(values).where(sql`${target.id} = ${id}`);
+  }
+
+  // Rate limit counters
+  // One statement, so concurrent hits from several instances never lose a count
+  async incrementRateLimit(key: string, windowMs: number): Promise<{ hits: number; resetAt: Date }> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    const [counter] = await db
+      .insert(rateLimitCounters)
+      .values({ key, hits: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimitCounters.key,
+        set: {
+          hits: sql`CASE WHEN ${rateLimitCounters.resetAt} <= ${now} THEN 1 ELSE ${rateLimitCounters.hits} + 1 END`,
+          resetAt: sql`CASE WHEN ${rateLimitCounters.resetAt} <= ${now} THEN ${resetAt} ELSE ${rateLimitCounters.resetAt} END`,
+        },
+      })
+      .returning({ hits: rateLimitCounters.hits, resetAt: rateLimitCounters.resetAt });
+    return counter;
+  }
+
+  async decrementRateLimit(key: string): Promise<void> {
+    await db
+      .update(rateLimitCounters)
+      .set({ hits: sql`GREATEST(${rateLimitCounters.hits} - 1, 0)` })
+      .where(eq(rateLimitCounters.key, key));
+  }
+
+  async resetRateLimit(key: string): Promise<void> {
+    await db.delete(rateLimitCounters).where(eq(rateLimitCounters.key, key));
+  }
+
+  async getRateLimit(key: string): Promise<{ hits: number; resetAt: Date } | undefined> {
+    const [counter] = await db
+      .select({ hits: rateLimitCounters.hits, resetAt: rateLimitCounters.resetAt })
+      .from(rateLimitCounters)
+      .where(and(eq(rateLimitCounters.key, key), gte(rateLimitCounters.resetAt, new Date())));
+    return counter;
+  }
+
+  async deleteExpiredRateLimits(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(rateLimitCounters)
+      .where(lt(rateLimitCounters.resetAt, before))
+      .returning({ key: rateLimitCounters.key });
+    return deleted.length;
+  }
+
+  // Claim scrubbing operations
+  async getClaimScrubRules(orgId: string): Promise<ClaimScrubRule[]> {
+    return await db
+      .select()
+      .from(claimScrubRules)
+      .where(eq(claimScrubRules.orgId, orgId))
+      .orderBy(asc(claimScrubRules.createdAt));
+  }
+
+  async getClaimScrubRule(id: string): Promise<ClaimScrubRule | undefined> {
+    const [rule] = await db.select().from(claimScrubRules).where(eq(claimScrubRules.id, id));
+    return rule;
+  }
+
+  async createClaimScrubRule(rule: InsertClaimScrubRule): Promise<ClaimScrubRule> {
+    const [result] = await db.insert(claimScrubRules).values(rule).returning();
+    return result;
+  }
+
+  async updateClaimScrubRule(id: string, updates: Partial<InsertClaimScrubRule>): Promise<ClaimScrubRule | undefined> {
+    const [rule] = await db
+      .update(claimScrubRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(claimScrubRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteClaimScrubRule(id: string): Promise<void> {
+    await db.delete(claimScrubRules).where(eq(claimScrubRules.id, id));
+  }
+
+  async getPatientServiceHistory(patientId: string, since: Date): Promise<PatientServiceLine[]> {
+    const serviceDate = sql<Date>`coalesce(${claimLines.serviceDate}, ${claims.createdAt})`.mapWith(claimLines.serviceDate);
+    // Only unencrypted claim columns are read, so no decryption is needed
+    return await db
+      .select({
+        claimId: claims.id,
+        parentClaimId: claims.parentClaimId,
+        claimType: claims.type,
+        claimStatus: claims.status,
+        relation: claims.relation,
+        insurerId: claims.insurerId,
+        procedureCode: claimLines.procedureCode,
+        units: claimLines.units,
+        serviceDate,
+      })
+      .from(claimLines)
+      .innerJoin(claims, eq(claimLines.claimId, claims.id))
+      .where(and(eq(claims.patientId, patientId), gte(serviceDate, since)))
+      .orderBy(asc(serviceDate));
+  }
+
   // MFA operations
   async updateUserMFA(id: string, updates: {
     mfaSecret?: string | null;
@@ -553,11 +2110,50 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getWebAuthnCredentials(userId: string): Promise<WebAuthnCredential[]> {
+    return db
+      .select()
+      .from(webauthnCredentials)
+      .where(eq(webauthnCredentials.userId, userId))
+      .orderBy(webauthnCredentials.createdAt);
+  }
+
+  async getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | undefined> {
+    const [credential] = await db
+      .select()
+      .from(webauthnCredentials)
+      .where(eq(webauthnCredentials.credentialId, credentialId));
+    return credential;
+  }
+
+  async createWebAuthnCredential(credential: InsertWebAuthnCredential): Promise<WebAuthnCredential> {
+    const [created] = await db.insert(webauthnCredentials).values(credential).returning();
+    return created;
+  }
+
+  async recordWebAuthnCredentialUse(id: string, counter: number): Promise<void> {
+    await db
+      .update(webauthnCredentials)
+      .set({ counter, lastUsedAt: new Date() })
+      .where(eq(webauthnCredentials.id, id));
+  }
+
+  // Scoped to the owner so one user cannot remove another's key
+  async deleteWebAuthnCredential(id: string, userId: string): Promise<WebAuthnCredential | undefined> {
+    const [deleted] = await db
+      .delete(webauthnCredentials)
+      .where(and(eq(webauthnCredentials.id, id), eq(webauthnCredentials.userId, userId)))
+      .returning();
+    return deleted;
+  }
+
   // Enhanced methods for EDI requirements
-  async getPatients(orgId: string, filter?: { id?: string }): Promise<Patient[]> {
+  async getPatients(orgId: string, filter?: { id?: string; includeArchived?: boolean }): Promise<Patient[]> {
     const conditions = [eq(patients.orgId, orgId)];
     if (filter?.id) {
       conditions.push(eq(patients.id, filter.id));
+    } else if (!filter?.includeArchived) {
+      conditions.push(isNull(patients.archivedAt));
     }
     
     const results = await db
@@ -569,10 +2165,12 @@ export class DatabaseStorage implements IStorage {
     return results.map(patient => decryptRecord('patients', patient));
   }
 
-  async getProviders(orgId: string, filter?: { id?: string }): Promise<Provider[]> {
+  async getProviders(orgId: string, filter?: { id?: string; includeArchived?: boolean }): Promise<Provider[]> {
     const conditions = [eq(providers.orgId, orgId)];
     if (filter?.id) {
       conditions.push(eq(providers.id, filter.id));
+    } else if (!filter?.includeArchived) {
+      conditions.push(isNull(providers.archivedAt));
     }
     
     const results = await db
@@ -643,4 +2241,43 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
+// Postgres takes at most 65535 bind parameters a statement, so long id lists go in batches
+const ID_BATCH_SIZE = 10000;
+
+function idBatches<T>(values: T[], size = ID_BATCH_SIZE): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < values.length; start += size) {
+    batches.push(values.slice(start, start + size));
+  }
+  return batches;
+}
+
+// Keep the search hashes in step with the email and phone they index
+function withContactHashes<T extends ContactLookup>(record: T): T & { email_hash?: string | null; phone_hash?: string | null } {
+  const hashed: T & { email_hash?: string | null; phone_hash?: string | null } = { ...record };
+  if ('email' in record) hashed.email_hash = contactSearchHash('email', record.email);
+  if ('phone' in record) hashed.phone_hash = contactSearchHash('phone', record.phone);
+  return hashed;
+}
+
+// Hashes under every key version, so rows a key rotation has not reached still match
+function contactHashConditions(table: typeof patients | typeof providers, contact: ContactLookup): SQL[] {
+  const conditions: SQL[] = [];
+  const emailHashes = contactSearchHashes('email', contact.email);
+  const phoneHashes = contactSearchHashes('phone', contact.phone);
+  if (emailHashes.length > 0) conditions.push(inArray(table.email_hash, emailHashes));
+  if (phoneHashes.length > 0) conditions.push(inArray(table.phone_hash, phoneHashes));
+  return conditions;
+}
+
+// Passport keeps the signed-in user under sess.passport.user
+function sessionUserIs(userId: string) {
+  return sql`${sessions.sess} -> 'passport' -> 'user' -> 'claims' ->> 'sub' = ${userId}`;
+}
+
+// The first claim billed for an appointment, if any
+function billedClaimId() {
+  return sql<string | null>`(select ${claims.id} from ${claims} where ${claims.appointmentId} = ${appointments.id} order by ${claims.createdAt} limit 1)`;
+}
+
 export const storage = new DatabaseStorage();
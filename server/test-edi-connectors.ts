@@ -142,8 +142,8 @@ export async function testEDIConnectors(storage: IStorage) {
       });
       console.log(`   ✅ CDAnet job enqueued: ${cdanetJobId}`);
       
-      // Wait for job processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Drain the queue in-process (no scheduler is running in this script)
+      await jobQueue.runDueJobs();
       const cdanetJob = await jobQueue.getStatus(cdanetJobId);
       console.log(`   📊 CDAnet job status: ${cdanetJob?.status}`);
       
@@ -169,8 +169,8 @@ export async function testEDIConnectors(storage: IStorage) {
       });
       console.log(`   ✅ eClaims job enqueued: ${eClaimsJobId}`);
       
-      // Wait for job processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Drain the queue in-process (no scheduler is running in this script)
+      await jobQueue.runDueJobs();
       const eClaimsJob = await jobQueue.getStatus(eClaimsJobId);
       console.log(`   📊 eClaims job status: ${eClaimsJob?.status}`);
       
@@ -193,7 +193,7 @@ export async function testEDIConnectors(storage: IStorage) {
     const queuedJobs = allJobs.filter(j => j.status === 'queued').length;
     const runningJobs = allJobs.filter(j => j.status === 'running').length;
     const succeededJobs = allJobs.filter(j => j.status === 'succeeded').length;
-    const failedJobs = allJobs.filter(j => j.status === 'failed').length;
+    const failedJobs = allJobs.filter(j => j.status === 'dead').length;
     
     console.log(`   📊 Jobs - Queued: ${queuedJobs}, Running: ${runningJobs}, Succeeded: ${succeededJobs}, Failed: ${failedJobs}`);
 
@@ -0,0 +1,117 @@
+// Permission catalogue shared by the server middleware and the client RoleGuard.
+// users.role holds either a built-in role key or the key of one of the
+// organization's custom roles (the roles table).
+
+export const PERMISSIONS = {
+  'claims:read:own': 'View claims they created',
+  'claims:read:all': "View every claim in the organization",
+  'claims:create': 'Create, edit and import draft claims',
+  'claims:submit': 'Submit claims to insurers and resubmit denied claims',
+  'claims:reverse': 'Reverse accepted claims with the insurer',
+  'claims:rules:manage': "Add and edit the organization's claim scrubbing rules",
+  'patients:read': "View patients and their eligibility checks",
+  'patients:write': 'Add and edit patients',
+  'patients:archive': 'Archive and restore patients',
+  'providers:read': 'View providers',
+  'providers:manage': 'Add, edit and archive providers',
+  'appointments:read': 'View appointments',
+  'appointments:manage': 'Book and update appointments',
+  'remittances:read': 'View remittances',
+  'remittances:manage': 'Import remittances and reconcile payments',
+  'connectors:configure': 'Configure and test insurer connectors',
+  'jobs:manage': 'Retry and cancel connector jobs',
+  'audit:read': 'View the audit log',
+  'reports:read': 'View AI usage and insurer coverage reports',
+  'users:manage': 'Assign roles to users',
+  'roles:manage': 'Create and edit custom roles',
+  'sso:configure': 'Configure single sign-on identity providers',
+  'scim:manage': 'Issue SCIM tokens for directory provisioning',
+  'sessions:manage': "View and end users' sessions and set session timeouts",
+  'privacy:manage': 'Handle patient privacy requests, set data retention, place legal holds and download purge reports',
+  'encryption:manage': 'Rotate the PHI encryption keys and roll rotations back',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as [Permission, ...Permission[]];
+
+// Holding the key permission grants the listed ones as well
+const IMPLIED_PERMISSIONS: Partial<Record<Permission, Permission[]>> = {
+  'claims:read:all': ['claims:read:own'],
+  // Drafting a claim means picking its patient and provider
+  'claims:create': ['patients:read', 'providers:read'],
+  'patients:write': ['patients:read'],
+  'patients:archive': ['patients:read'],
+  'providers:manage': ['providers:read'],
+  'appointments:manage': ['appointments:read'],
+  'remittances:manage': ['remittances:read'],
+};
+
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const PROVIDER_PERMISSIONS: Permission[] = [
+  'claims:read:own',
+  'claims:create',
+  'claims:submit',
+  'patients:read',
+  'patients:write',
+  'providers:read',
+  'appointments:read',
+  'appointments:manage',
+  'remittances:read',
+];
+
+const BILLING_PERMISSIONS: Permission[] = [
+  ...PROVIDER_PERMISSIONS,
+  'claims:read:all',
+  'claims:reverse',
+  'claims:rules:manage',
+  'patients:archive',
+  'providers:manage',
+  'remittances:manage',
+];
+
+export const BUILT_IN_ROLES: Record<'provider' | 'billing' | 'admin', RoleDefinition> = {
+  provider: {
+    key: 'provider',
+    name: 'Provider',
+    description: 'Clinicians who bill their own visits',
+    permissions: PROVIDER_PERMISSIONS,
+  },
+  billing: {
+    key: 'billing',
+    name: 'Billing',
+    description: 'Billing staff who work every claim in the organization',
+    permissions: BILLING_PERMISSIONS,
+  },
+  admin: {
+    key: 'admin',
+    name: 'Admin',
+    description: 'Full access, including users, roles and connectors',
+    permissions: [...PERMISSION_KEYS],
+  },
+};
+
+export function isBuiltInRole(role: string): role is keyof typeof BUILT_IN_ROLES {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, role);
+}
+
+/**
+ * Expand a role's permissions with the ones they imply
+ */
+export function expandPermissions(permissions: readonly string[]): Permission[] {
+  const expanded = new Set<Permission>();
+  for (const permission of permissions) {
+    if (!(permission in PERMISSIONS)) continue; // dropped from the catalogue
+    expanded.add(permission as Permission);
+    for (const implied of IMPLIED_PERMISSIONS[permission as Permission] ?? []) {
+      expanded.add(implied);
+    }
+  }
+  return Array.from(expanded);
+}
@@ -11,9 +11,12 @@ import {
   uuid,
   boolean,
   integer,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { PERMISSION_KEYS, isBuiltInRole, type Permission } from "./permissions";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -26,6 +29,17 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Fixed-window hit counters shared by every instance; see server/security/rateLimitStore.ts
+export const rateLimitCounters = pgTable(
+  "rate_limit_counters",
+  {
+    key: varchar("key").primaryKey(), // "<limiter>:<org|user|key|ip>:<id>"
+    hits: integer("hits").notNull().default(0),
+    resetAt: timestamp("reset_at").notNull(),
+  },
+  (table) => [index("IDX_rate_limit_counters_reset").on(table.resetAt)],
+);
+
 // User storage table for Replit Auth
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -36,7 +50,7 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  role: varchar("role").notNull().default('provider'), // 'provider', 'billing', 'admin'
+  role: varchar("role").notNull().default('provider'), // built-in role ('provider', 'billing', 'admin') or a roles.key of the org
   orgId: uuid("org_id").references(() => organizations.id),
   notificationsEnabled: boolean("notifications_enabled").default(false),
   preferredLanguage: varchar("preferred_language", { length: 5 }), // User's preferred language (overrides org default)
@@ -46,10 +60,28 @@ export const users = pgTable("users", {
   mfaEnabled: boolean("mfa_enabled").default(false),
   mfaBackupCodes: text("mfa_backup_codes"), // JSON array, will be encrypted
   mfaEnforcedAt: timestamp("mfa_enforced_at"),
+  deactivatedAt: timestamp("deactivated_at"), // set by directory deprovisioning; deactivated users cannot sign in
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// WebAuthn credentials (passkeys and security keys) registered as a second factor
+export const webauthnCredentials = pgTable("webauthn_credentials", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  credentialId: text("credential_id").notNull().unique(), // base64url
+  publicKey: text("public_key").notNull(), // base64url COSE key
+  counter: integer("counter").notNull().default(0),
+  transports: jsonb("transports").$type<string[]>(),
+  deviceType: varchar("device_type"), // singleDevice (security key) or multiDevice (synced passkey)
+  backedUp: boolean("backed_up").default(false),
+  name: varchar("name").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_webauthn_credentials_user").on(table.userId),
+]);
+
 // Push notification subscriptions
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -76,10 +108,110 @@ export const organizations = pgTable("organizations", {
   dataRetentionDays: integer("data_retention_days").default(2555), // ~7 years default
   privacyContactUrl: varchar("privacy_contact_url"),
   minimizeLogging: boolean("minimize_logging").default(true),
+  // Session timeouts enforced server-side; null leaves the 7-day session lifetime
+  sessionIdleTimeoutMinutes: integer("session_idle_timeout_minutes"),
+  sessionMaxLifetimeHours: integer("session_max_lifetime_hours"),
+  // Last audit event removed by retention; the remaining hash chain links to it
+  auditChainBaseSeq: integer("audit_chain_base_seq"),
+  auditChainBaseHash: varchar("audit_chain_base_hash", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Per-organization custom roles; built-in roles live in shared/permissions.ts
+export const roles = pgTable("roles", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  key: varchar("key", { length: 50 }).notNull(), // stored in users.role; fixed once created
+  name: varchar("name").notNull(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_roles_org_key").on(table.orgId, table.key),
+]);
+
+// Extra organizations a user works for, e.g. billing agency staff serving
+// several clinics. users.orgId and users.role remain the home membership.
+export const orgMemberships = pgTable("org_memberships", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  role: varchar("role", { length: 50 }).notNull().default('provider'), // built-in role or a roles.key of this org
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_org_memberships_user_org").on(table.userId, table.orgId),
+  index("IDX_org_memberships_org").on(table.orgId),
+]);
+
+export const identityProviderProtocolEnum = pgEnum("identity_provider_protocol", ["oidc", "saml"]);
+
+// An organization's own OIDC or SAML identity provider (Azure AD, Okta, Google Workspace)
+export const identityProviders = pgTable("identity_providers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  slug: varchar("slug", { length: 50 }).notNull().unique(), // used in the sign-in URLs
+  protocol: identityProviderProtocolEnum("protocol").notNull(),
+  name: varchar("name").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  issuer: varchar("issuer").notNull(), // OIDC issuer URL or SAML IdP entity ID
+  // OIDC
+  clientId: varchar("client_id"),
+  clientSecret: text("client_secret"), // encrypted at rest
+  scopes: varchar("scopes").default('openid email profile'),
+  // SAML
+  ssoUrl: varchar("sso_url"),
+  idpCertificate: text("idp_certificate"),
+  // Claim mapping
+  roleClaim: varchar("role_claim").default('groups'),
+  roleMapping: jsonb("role_mapping").$type<Record<string, string>>(), // IdP group/role value -> role key
+  defaultRole: varchar("default_role", { length: 50 }).notNull().default('provider'),
+  orgClaim: varchar("org_claim"), // claim holding organizations.externalId values; unset means this org only
+  jitProvisioning: boolean("jit_provisioning").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_identity_providers_org").on(table.orgId),
+]);
+
+// Bearer tokens a directory (Azure AD, Okta) uses to call the SCIM API for one
+// organization; only a hash is kept, the token is shown once when issued
+export const scimTokens = pgTable("scim_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  name: varchar("name").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // shown to admins to tell tokens apart
+  createdBy: varchar("created_by").references(() => users.id),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_scim_tokens_org").on(table.orgId),
+]);
+
+// Links an IdP subject to a MedLink user so renamed emails keep the same account
+export const federatedIdentities = pgTable("federated_identities", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  providerId: uuid("provider_id").references(() => identityProviders.id, { onDelete: 'cascade' }).notNull(),
+  subject: varchar("subject").notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_federated_identities_provider_subject").on(table.providerId, table.subject),
+]);
+
+// SAML AuthnRequest ids awaiting the IdP's response, shared by every instance
+export const samlRequests = pgTable("saml_requests", {
+  id: varchar("id").primaryKey(), // the AuthnRequest ID the response's InResponseTo must match
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_saml_requests_created").on(table.createdAt),
+]);
+
 export const patients = pgTable("patients", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   orgId: uuid("org_id").references(() => organizations.id).notNull(),
@@ -90,7 +222,9 @@ export const patients = pgTable("patients", {
   phone_hash: varchar("phone_hash"), // Hash for searchable encrypted phone
   address: text("address"),
   dob: timestamp("dob"),
-  identifiers: jsonb("identifiers"), // insurance numbers, etc.
+  identifiers: jsonb("identifiers"), // insurance numbers, etc.; see patientIdentifiersSchema
+  archivedAt: timestamp("archived_at"),
+  anonymizedAt: timestamp("anonymized_at"), // set when a privacy request erased the patient's identifying fields
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -103,18 +237,29 @@ export const providers = pgTable("providers", {
   phone: varchar("phone"),
   phone_hash: varchar("phone_hash"), // Hash for searchable encrypted phone
   discipline: varchar("discipline"),
-  licenceNumber: varchar("licence_number"),
+  licenceNumber: varchar("licence_number"), // licence for the primary discipline, sent on claims
+  licences: jsonb("licences").$type<ProviderLicence[]>(),
+  archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const appointmentStatusEnum = pgEnum("appointment_status", ["scheduled", "completed", "cancelled", "noShow"]);
+
 export const appointments = pgTable("appointments", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   orgId: uuid("org_id").references(() => organizations.id).notNull(),
   patientId: uuid("patient_id").references(() => patients.id).notNull(),
   providerId: uuid("provider_id").references(() => providers.id).notNull(),
   scheduledAt: timestamp("scheduled_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(30),
+  status: appointmentStatusEnum("status").notNull().default("scheduled"),
+  reason: text("reason"), // visit reason, encrypted
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_appointments_org_scheduled").on(table.orgId, table.scheduledAt),
+]);
 
 export const claimStatusEnum = pgEnum("claim_status", [
   "draft",
@@ -122,17 +267,27 @@ export const claimStatusEnum = pgEnum("claim_status", [
   "pending",
   "infoRequested",
   "paid",
-  "denied"
+  "denied",
+  "reversed"
 ]);
 
 export const claimTypeEnum = pgEnum("claim_type", ["claim", "preauth"]);
 
+// How a claim relates to the claim it was created from (claims.parent_claim_id)
+export const claimRelationEnum = pgEnum("claim_relation", [
+  "resubmission", // CDAnet resubmission or portal re-upload of a denied claim
+  "adjustment", // eClaims adjustment of a denied claim
+  "reversal" // cancels an accepted claim with the insurer
+]);
+
 export const railEnum = pgEnum("rail", ["telusEclaims", "cdanet", "portal"]);
 
 export const insurers = pgTable("insurers", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
   rail: railEnum("rail").notNull(),
+  submissionsPerMinute: integer("submissions_per_minute"), // connector submission cap; null uses INSURER_SUBMISSIONS_PER_MINUTE
+  requiresPdfA: boolean("requires_pdf_a").notNull().default(false), // image attachments are converted to PDF/A on upload
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -155,11 +310,67 @@ export const claims = pgTable("claims", {
   // Portal submission tracking
   portalReferenceNumber: varchar("portal_reference_number"), // External ref from WCB/WSIB portal
   portalSubmissionDate: timestamp("portal_submission_date"), // When submitted to portal
+  // Resubmissions, adjustments and reversals link back to the claim they amend
+  parentClaimId: uuid("parent_claim_id").references((): AnyPgColumn => claims.id),
+  relation: claimRelationEnum("relation"),
+  originalReferenceNumber: varchar("original_reference_number"), // reference of the first claim in the chain
+  // Held claims, their attachments and transactions are skipped by retention (server/lib/retention.ts)
+  legalHold: boolean("legal_hold").notNull().default(false),
+  legalHoldReason: text("legal_hold_reason"),
+  legalHoldAt: timestamp("legal_hold_at"),
+  anonymizedAt: timestamp("anonymized_at"), // set when retention scrubbed the claim's identifying fields
   createdBy: varchar("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every claim status change, written by the transition module in server/lib/claimStatus.ts
+export const claimStatusSourceEnum = pgEnum("claim_status_source", [
+  "user", // changed from the UI or API by a signed-in user
+  "connector", // EDI/iTrans submission results
+  "scheduler", // background status polling
+  "webhook", // insurer or clearinghouse callbacks
+  "remittance", // remittance advice imports
+  "system"
+]);
+
+export const claimStatusHistory = pgTable("claim_status_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: uuid("claim_id").references(() => claims.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: claimStatusEnum("from_status"), // null for the creation entry
+  toStatus: claimStatusEnum("to_status").notNull(),
+  actorUserId: varchar("actor_user_id").references(() => users.id),
+  source: claimStatusSourceEnum("source").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_claim_status_history_claim").on(table.claimId, table.createdAt),
+]);
+
+// Claim service lines, with the insurer's adjudication result per line
+export const claimLines = pgTable("claim_lines", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: uuid("claim_id").references(() => claims.id, { onDelete: "cascade" }).notNull(),
+  lineNumber: integer("line_number").notNull(),
+  procedureCode: varchar("procedure_code").notNull(),
+  description: text("description"),
+  fee: decimal("fee", { precision: 10, scale: 2 }).notNull(), // per unit
+  units: integer("units").notNull().default(1),
+  serviceDate: timestamp("service_date"),
+  tooth: varchar("tooth"), // dental only (FDI tooth number)
+  surface: varchar("surface"), // dental only, e.g. 'MOD'
+  modifiers: jsonb("modifiers").$type<string[]>(),
+  eligibleAmount: decimal("eligible_amount", { precision: 10, scale: 2 }),
+  paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }),
+  deniedAmount: decimal("denied_amount", { precision: 10, scale: 2 }),
+  reasonCodes: jsonb("reason_codes").$type<string[]>(),
+  adjudicatedAt: timestamp("adjudicated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_claim_lines_claim").on(table.claimId, table.lineNumber),
+]);
+
 // Pre-authorization table
 export const preAuths = pgTable("preauths", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -178,13 +389,28 @@ export const preAuths = pgTable("preauths", {
   createdBy: varchar("created_by").references(() => users.id).notNull(),
 });
 
+// Malware scan outcome (server/lib/attachments.ts); only clean or skipped attachments can be submitted
+export const attachmentScanStatusEnum = pgEnum("attachment_scan_status", [
+  "pending",
+  "clean",
+  "infected",
+  "error",
+  "skipped", // no scanner configured, or uploaded before scanning
+]);
+
 export const attachments = pgTable("attachments", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   claimId: uuid("claim_id").references(() => claims.id).notNull(),
   url: varchar("url").notNull(),
   mime: varchar("mime").notNull(),
   kind: varchar("kind").notNull(), // 'photo', 'pdf', 'note'
-  checksum: varchar("checksum"),
+  checksum: varchar("checksum"), // SHA-256 (hex) of the file at url
+  size: integer("size"),
+  originalUrl: varchar("original_url"), // the uploaded image when url is its PDF/A conversion
+  originalMime: varchar("original_mime"),
+  scanStatus: attachmentScanStatusEnum("scan_status").notNull().default("skipped"),
+  scanResult: varchar("scan_result"), // signature found, or why the scan failed
+  scannedAt: timestamp("scanned_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -198,21 +424,111 @@ export const remittances = pgTable("remittances", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Remittance advice (ERA) file imports and their payment lines
+export const remittanceFormatEnum = pgEnum("remittance_format", [
+  "cdanet_eob",
+  "telus_csv",
+  "telus_json",
+  "generic_csv"
+]);
+export const remittanceMatchStatusEnum = pgEnum("remittance_match_status", [
+  "matched", // matched automatically on import
+  "unmatched", // waiting in the reconciliation queue
+  "resolved", // matched by hand from the reconciliation queue
+  "dismissed"
+]);
+
+export const remittanceImports = pgTable("remittance_imports", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  insurerId: uuid("insurer_id").references(() => insurers.id).notNull(),
+  format: remittanceFormatEnum("format").notNull(),
+  fileName: varchar("file_name"),
+  totalLines: integer("total_lines").notNull().default(0),
+  matchedLines: integer("matched_lines").notNull().default(0),
+  unmatchedLines: integer("unmatched_lines").notNull().default(0),
+  totalPaid: decimal("total_paid", { precision: 12, scale: 2 }).notNull().default("0"),
+  checksum: varchar("checksum", { length: 64 }).notNull(), // SHA-256 of the file content
+  importedBy: varchar("imported_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // The same file is only ever imported once per organization
+  uniqueIndex("IDX_remittance_imports_org_checksum").on(table.orgId, table.checksum),
+]);
+
+export const remittanceLines = pgTable("remittance_lines", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: uuid("import_id").references(() => remittanceImports.id, { onDelete: "cascade" }).notNull(),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  lineNumber: integer("line_number").notNull(),
+  referenceNumber: varchar("reference_number"),
+  externalId: varchar("external_id"),
+  patientName: text("patient_name"),
+  serviceDate: timestamp("service_date"),
+  amountBilled: decimal("amount_billed", { precision: 10, scale: 2 }),
+  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull().default("0"),
+  outcome: varchar("outcome").notNull(), // 'paid' | 'denied'
+  reasonCodes: jsonb("reason_codes").$type<string[]>(),
+  matchStatus: remittanceMatchStatusEnum("match_status").notNull().default("unmatched"),
+  matchMethod: varchar("match_method"), // 'referenceNumber' | 'externalId' | 'patientDateAmount' | 'manual'
+  claimId: uuid("claim_id").references(() => claims.id),
+  remittanceId: uuid("remittance_id").references(() => remittances.id),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  raw: jsonb("raw"), // source row as parsed from the file
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_remittance_lines_org_status").on(table.orgId, table.matchStatus),
+  index("IDX_remittance_lines_import").on(table.importId, table.lineNumber),
+]);
+
+// Insurer coverage checks; the latest unexpired check per patient and insurer is reused
+export const eligibilityStatusEnum = pgEnum("eligibility_status", ["eligible", "ineligible", "unknown"]);
+
+export const eligibilityChecks = pgTable("eligibility_checks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  patientId: uuid("patient_id").references(() => patients.id).notNull(),
+  insurerId: uuid("insurer_id").references(() => insurers.id).notNull(),
+  providerId: uuid("provider_id").references(() => providers.id).notNull(),
+  status: eligibilityStatusEnum("status").notNull(),
+  serviceDate: timestamp("service_date").notNull(),
+  coverage: jsonb("coverage").$type<EligibilityCoverage[]>(),
+  message: text("message"),
+  externalId: varchar("external_id"), // carrier transaction reference
+  raw: jsonb("raw"),
+  checkedBy: varchar("checked_by").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_eligibility_checks_patient_insurer").on(table.patientId, table.insurerId, table.createdAt),
+]);
+
 export const auditEvents = pgTable("audit_events", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   orgId: uuid("org_id").references(() => organizations.id).notNull(),
   actorUserId: varchar("actor_user_id").references(() => users.id),
   type: varchar("type").notNull(), // 'claim_created', 'claim_submitted', 'sso_login', etc.
   details: jsonb("details").notNull(),
+  // The record the event is about, kept in plain text so encrypted events stay searchable
+  resourceType: varchar("resource_type"),
+  resourceId: varchar("resource_id"),
   ip: varchar("ip"),
   userAgent: text("user_agent"),
+  // Hash chain per organization (see server/security/audit-chain.ts); null on events written before chaining
+  seq: integer("seq"),
+  prevHash: varchar("prev_hash", { length: 64 }),
+  hash: varchar("hash", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_audit_events_org_seq").on(table.orgId, table.seq),
+  index("IDX_audit_events_org_created").on(table.orgId, table.createdAt),
+]);
 
 // EDI Connector Tables
 export const connectorModeEnum = pgEnum("connector_mode", ["live", "sandbox"]);
 export const connectorNameEnum = pgEnum("connector_name", ["cdanet", "eclaims", "portal"]);
-export const transactionTypeEnum = pgEnum("transaction_type", ["submit", "poll", "error"]);
+export const transactionTypeEnum = pgEnum("transaction_type", ["submit", "poll", "error", "attachment"]);
 
 export const connectorConfigs = pgTable("connector_configs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -233,8 +549,9 @@ export const connectorTransactions = pgTable("connector_transactions", {
   claimId: uuid("claim_id").references(() => claims.id).notNull(),
   connector: connectorNameEnum("connector").notNull(),
   type: transactionTypeEnum("type").notNull(),
+  attachmentId: uuid("attachment_id").references(() => attachments.id, { onDelete: "set null" }), // set on attachment transmissions
   externalId: varchar("external_id"), // external system reference
-  status: varchar("status").notNull(), // pending, submitted, paid, denied, error
+  status: varchar("status").notNull(), // pending, submitted, paid, denied, error; attachments: pending, accepted, rejected, not_sent, error
   payload: jsonb("payload"), // request/response data
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -250,6 +567,159 @@ export const connectorErrors = pgTable("connector_errors", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Durable job queue for connector submissions and status polling
+export const jobTypeEnum = pgEnum("job_type", ["submit", "poll-status", "send-attachments"]);
+export const jobStatusEnum = pgEnum("job_status", [
+  "queued",
+  "running",
+  "succeeded",
+  "dead", // dead-lettered after exhausting retries or a non-retriable error
+  "cancelled"
+]);
+
+export const jobs = pgTable("jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  claimId: uuid("claim_id").references(() => claims.id).notNull(),
+  type: jobTypeEnum("type").notNull(),
+  connector: connectorNameEnum("connector").notNull(),
+  status: jobStatusEnum("status").notNull().default("queued"),
+  payload: jsonb("payload"), // job-specific data (e.g. externalId, pollCount)
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedBy: varchar("locked_by"), // worker id holding the row while running
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_jobs_status_run_at").on(table.status, table.runAt),
+  index("IDX_jobs_claim").on(table.claimId),
+  // A claim has at most one queued job of each type; see jobQueue.enqueue
+  uniqueIndex("IDX_jobs_claim_type_queued").on(table.claimId, table.type).where(sql`${table.status} = 'queued'`),
+]);
+
+// One retention pass over an organization; items list every record touched, for the purge report
+export const retentionRuns = pgTable("retention_runs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  triggeredBy: varchar("triggered_by").references(() => users.id), // null when run by the scheduler
+  dryRun: boolean("dry_run").notNull().default(false),
+  cutoff: timestamp("cutoff").notNull(),
+  status: varchar("status").notNull(), // 'completed' | 'failed'
+  counts: jsonb("counts").$type<Record<string, number>>().notNull(),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_retention_runs_org").on(table.orgId, table.startedAt),
+]);
+
+// One row per record a retention run touched; read back in pages for the purge report
+export const retentionRunItems = pgTable("retention_run_items", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: uuid("run_id").references(() => retentionRuns.id, { onDelete: "cascade" }).notNull(),
+  seq: integer("seq").notNull(),
+  resourceType: varchar("resource_type").notNull(),
+  resourceId: varchar("resource_id").notNull(),
+  action: varchar("action").notNull(),
+}, (table) => [
+  index("IDX_retention_run_items_run").on(table.runId, table.seq),
+]);
+
+// Patient requests to access, correct or erase their information (Law 25 / PIPEDA); see server/lib/privacyRequests.ts
+export const privacyRequestTypeEnum = pgEnum("privacy_request_type", ["access", "correction", "erasure"]);
+export const privacyRequestStatusEnum = pgEnum("privacy_request_status", [
+  "received",
+  "inProgress",
+  "completed",
+  "rejected"
+]);
+
+export const privacyRequests = pgTable("privacy_requests", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  patientId: uuid("patient_id").references(() => patients.id).notNull(),
+  type: privacyRequestTypeEnum("type").notNull(),
+  status: privacyRequestStatusEnum("status").notNull().default("received"),
+  requesterName: varchar("requester_name"), // when someone other than the patient asks on their behalf
+  requesterEmail: varchar("requester_email"),
+  description: text("description"), // the request as the patient made it
+  corrections: jsonb("corrections").$type<PatientCorrection>(), // correction requests: the patient fields to change
+  receivedAt: timestamp("received_at").notNull(),
+  dueAt: timestamp("due_at").notNull(), // statutory response deadline
+  extendedAt: timestamp("extended_at"),
+  extensionReason: text("extension_reason"),
+  resolution: text("resolution"), // response to the patient, or why the request was refused
+  outcome: jsonb("outcome").$type<Array<{ resourceType: string; resourceId: string; action: string; reason?: string }>>(), // records changed by the request
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  completedBy: varchar("completed_by").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_privacy_requests_org_status").on(table.orgId, table.status, table.dueAt),
+  index("IDX_privacy_requests_patient").on(table.patientId),
+]);
+
+// Re-encryption of the PHI_FIELDS tables to one key version; see server/lib/keyRotation.ts.
+// Keys are deployment-wide, so rotations are not scoped to an organization.
+export const keyRotationStatusEnum = pgEnum("key_rotation_status", [
+  "running",
+  "paused",
+  "completed",
+  "failed",
+  "rolledBack"
+]);
+
+export interface KeyRotationTableProgress {
+  total: number;
+  processed: number;
+  reencrypted: number; // rows with at least one field or search hash rewritten
+  failed: number;
+}
+
+export const keyRotations = pgTable("key_rotations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  targetVersion: integer("target_version").notNull(),
+  previousVersion: integer("previous_version").notNull(), // write version before the rotation started
+  rollbackOf: uuid("rollback_of").references((): AnyPgColumn => keyRotations.id),
+  status: keyRotationStatusEnum("status").notNull().default("running"),
+  cursor: jsonb("cursor").$type<{ table: string; lastId: string | null } | null>(), // where to resume; null once done
+  progress: jsonb("progress").$type<Record<string, KeyRotationTableProgress>>().notNull().default({}),
+  lastError: text("last_error"),
+  lockedBy: varchar("locked_by"), // worker id holding the rotation while it runs a batch
+  lockedAt: timestamp("locked_at"),
+  startedBy: varchar("started_by").references(() => users.id).notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_key_rotations_status").on(table.status, table.startedAt),
+]);
+
+// Organization-defined claim scrubbing rules, checked alongside the built-in
+// ones on every draft claim; see server/lib/claimScrubber.ts
+export const scrubSeverityEnum = pgEnum("scrub_severity", ["error", "warning", "info"]);
+
+export const claimScrubRules = pgTable("claim_scrub_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").references(() => organizations.id).notNull(),
+  name: varchar("name").notNull(),
+  severity: scrubSeverityEnum("severity").notNull().default("warning"), // errors block submission
+  condition: jsonb("condition").$type<ClaimScrubCondition>().notNull(),
+  scope: jsonb("scope").$type<ClaimScrubScope>(), // null applies to every claim
+  message: text("message"), // shown instead of the generated finding message
+  enabled: boolean("enabled").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_claim_scrub_rules_org").on(table.orgId),
+]);
+
 // AI Assistant Usage Tracking
 export const aiFeatureTypeEnum = pgEnum("ai_feature_type", [
   "document_analysis",
@@ -278,27 +748,257 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertWebAuthnCredentialSchema = createInsertSchema(webauthnCredentials, {
+  transports: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertRoleSchema = createInsertSchema(roles, {
+  key: z.string()
+    .regex(/^[a-z][a-z0-9_-]{1,49}$/, "Use 2-50 lowercase letters, digits, dashes or underscores")
+    .refine(key => !isBuiltInRole(key), "This key belongs to a built-in role"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  permissions: z.array(z.enum(PERMISSION_KEYS)).min(1, "Pick at least one permission"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Role data entered by admins; the org is set by the server
+export const roleInputSchema = insertRoleSchema.omit({
+  orgId: true,
+});
+
+export const insertOrgMembershipSchema = createInsertSchema(orgMemberships).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertIdentityProviderSchema = createInsertSchema(identityProviders, {
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]{1,49}$/, "Use 2-50 lowercase letters, digits or dashes"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  issuer: z.string().trim().min(1, "Issuer is required"),
+  ssoUrl: z.string().url().nullable().optional(),
+  roleMapping: z.record(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Identity provider settings entered by admins; the org is set by the server.
+// A blank clientSecret on update keeps the stored one.
+export const identityProviderInputSchema = insertIdentityProviderSchema.omit({
+  orgId: true,
+}).superRefine((provider, ctx) => {
+  const required: (keyof typeof provider)[] = provider.protocol === 'oidc'
+    ? ['clientId']
+    : ['ssoUrl', 'idpCertificate'];
+  for (const field of required) {
+    if (!provider[field]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is required for ${provider.protocol.toUpperCase()}` });
+    }
+  }
+});
+
+export const insertFederatedIdentitySchema = createInsertSchema(federatedIdentities).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertScimTokenSchema = createInsertSchema(scimTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPatientSchema = createInsertSchema(patients).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertProviderSchema = createInsertSchema(providers).omit({
+export const insertProviderSchema = createInsertSchema(providers, {
+  licences: z.array(z.object({
+    discipline: z.string(),
+    number: z.string(),
+    province: z.string().optional(),
+    expiresAt: z.string().optional(),
+  })).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  scheduledAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(5).max(8 * 60).optional(),
+}).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+// Appointment data entered by users; org and author are set by the server
+export const appointmentInputSchema = insertAppointmentSchema.omit({
+  orgId: true,
+  createdBy: true,
+});
+
+// Insurance numbers kept in patients.identifiers; other keys are passed through untouched
+export const patientIdentifiersSchema = z.object({
+  policyNumber: z.string().trim().max(12),
+  certificateNumber: z.string().trim().max(12),
+  groupNumber: z.string().trim().max(10),
+  carrierId: z.string().regex(/^\d{6}$/, "Carrier ID must be 6 digits"),
+  dependantCode: z.coerce.number().int().min(0).max(99),
+  relationshipCode: z.coerce.number().int().min(0).max(9),
+  healthCard: z.string().trim().max(20),
+  gender: z.enum(["M", "F", "U"]),
+}).partial().passthrough();
+
+// Patient and provider data entered by users; org, search hashes and archiving are set by the server
+export const patientInputSchema = insertPatientSchema.omit({
+  orgId: true,
+  email_hash: true,
+  phone_hash: true,
+  archivedAt: true,
+  anonymizedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().email().nullable().optional(),
+  dob: z.coerce.date().nullable().optional(),
+  identifiers: patientIdentifiersSchema.nullable().optional(),
+});
+
+// Patient fields a correction request can change
+export const patientCorrectionSchema = patientInputSchema.partial().refine(
+  (correction) => Object.keys(correction).length > 0,
+  "At least one field must be corrected",
+);
+
+// Privacy requests logged by staff; deadline, status and outcome are set by the server
+export const privacyRequestInputSchema = z.object({
+  patientId: z.string().uuid(),
+  type: z.enum(["access", "correction", "erasure"]),
+  requesterName: z.string().trim().max(200).nullable().optional(),
+  requesterEmail: z.string().trim().email().nullable().optional(),
+  description: z.string().trim().max(5000).nullable().optional(),
+  corrections: patientCorrectionSchema.nullable().optional(),
+  receivedAt: z.coerce.date().optional(),
+}).refine(
+  (request) => request.type !== "correction" || !!request.corrections,
+  { message: "Correction requests need the corrected fields", path: ["corrections"] },
+);
+
+// Procedure codes a scrubbing rule applies to; a trailing * matches any suffix, e.g. "27*"
+const scrubCodePatternsSchema = z.array(
+  z.string().trim().min(1).max(20).regex(/^[A-Za-z0-9.-]+\*?$/, "Codes are letters, digits, dots or dashes, optionally ending in *")
+    .transform((code) => code.toUpperCase()),
+).min(1).max(100);
+
+export const claimScrubConditionSchema = z.discriminatedUnion("kind", [
+  // The codes may only be billed by providers whose discipline contains one of these words
+  z.object({ kind: z.literal("code_discipline"), codes: scrubCodePatternsSchema, disciplines: z.array(z.string().trim().min(1).max(60)).min(1).max(20) }),
+  // At most maxUnits of the codes, together, for the patient in any perDays window
+  z.object({ kind: z.literal("frequency_limit"), codes: scrubCodePatternsSchema, maxUnits: z.number().int().min(1).max(100), perDays: z.number().int().min(1).max(3650) }),
+  z.object({ kind: z.literal("attachment_required"), codes: scrubCodePatternsSchema, minCount: z.number().int().min(1).max(10).default(1) }),
+  // An approved or pending pre-authorization with the same insurer must be on file
+  z.object({ kind: z.literal("preauth_required"), codes: scrubCodePatternsSchema }),
+  // Patient identifier keys, or "dob" and "licence" for the patient's birth date and the provider's licence
+  z.object({ kind: z.literal("identifier_required"), fields: z.array(z.string().trim().min(1).max(40)).min(1).max(20) }),
+  z.object({ kind: z.literal("max_amount"), amount: z.number().positive() }),
+  // The same code on the same service date in another claim for the patient
+  z.object({ kind: z.literal("duplicate_claim") }),
+]);
+
+export const claimScrubScopeSchema = z.object({
+  rails: z.array(z.enum(railEnum.enumValues)).min(1).optional(),
+  insurerIds: z.array(z.string().uuid()).min(1).optional(),
+  claimTypes: z.array(z.enum(claimTypeEnum.enumValues)).min(1).optional(),
+});
+
+export const claimScrubRuleInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  severity: z.enum(scrubSeverityEnum.enumValues).default("warning"),
+  condition: claimScrubConditionSchema,
+  scope: claimScrubScopeSchema.nullable().optional(),
+  message: z.string().trim().max(500).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const providerInputSchema = insertProviderSchema.omit({
+  orgId: true,
+  email_hash: true,
+  phone_hash: true,
+  archivedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().email().nullable().optional(),
 });
 
 export const insertClaimSchema = createInsertSchema(claims).omit({
   id: true,
+  legalHold: true,
+  legalHoldReason: true,
+  legalHoldAt: true,
+  anonymizedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// A claim created through POST /api/claims. Claims always start as drafts,
+// external ids come from connectors and resubmission chains are only built by
+// server/lib/claimAmendments.ts, so those fields are dropped from the body.
+export const claimCreateSchema = insertClaimSchema.omit({
+  status: true,
+  externalId: true,
+  parentClaimId: true,
+  relation: true,
+  originalReferenceNumber: true,
+});
+
+// Claim fields editable through PATCH /api/claims/:id. Status, service lines
+// and legal holds have their own endpoints; any other key is rejected.
+export const claimUpdateSchema = claimCreateSchema.omit({
+  orgId: true,
+  createdBy: true,
+}).partial().strict();
+
+export const insertClaimLineSchema = createInsertSchema(claimLines, {
+  serviceDate: z.coerce.date().nullable().optional(),
+  units: z.number().int().positive().optional(),
+  modifiers: z.array(z.string()).nullable().optional(),
+  reasonCodes: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Line data entered by users; line numbers and adjudication fields are set by the server
+export const claimLineInputSchema = insertClaimLineSchema.omit({
+  claimId: true,
+  lineNumber: true,
+  eligibleAmount: true,
+  paidAmount: true,
+  deniedAmount: true,
+  reasonCodes: true,
+  adjudicatedAt: true,
+});
+
+export const insertClaimStatusHistorySchema = createInsertSchema(claimStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPreAuthSchema = createInsertSchema(preAuths).omit({
   id: true,
   createdAt: true,
@@ -310,13 +1010,50 @@ export const insertAttachmentSchema = createInsertSchema(attachments).omit({
   createdAt: true,
 });
 
+// What a user supplies for an upload; the ingest pipeline fills in the rest
+export const attachmentInputSchema = insertAttachmentSchema.pick({
+  claimId: true,
+  url: true,
+  mime: true,
+  kind: true,
+});
+
 export const insertRemittanceSchema = createInsertSchema(remittances).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertRemittanceImportSchema = createInsertSchema(remittanceImports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRemittanceLineSchema = createInsertSchema(remittanceLines, {
+  reasonCodes: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEligibilityCheckSchema = createInsertSchema(eligibilityChecks, {
+  coverage: z.array(z.object({
+    category: z.string(),
+    coveragePercent: z.number().optional(),
+    annualMaximum: z.number().optional(),
+    remainingMaximum: z.number().optional(),
+    deductibleRemaining: z.number().optional(),
+    notes: z.string().optional(),
+  })).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
   id: true,
+  seq: true,
+  prevHash: true,
+  hash: true,
   createdAt: true,
 });
 
@@ -343,6 +1080,12 @@ export const insertConnectorErrorSchema = createInsertSchema(connectorErrors).om
   createdAt: true,
 });
 
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertAiAssistUsageSchema = createInsertSchema(aiAssistUsage).omit({
   id: true,
   timestamp: true,
@@ -352,27 +1095,58 @@ export const insertAiAssistUsageSchema = createInsertSchema(aiAssistUsage).omit(
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type WebAuthnCredential = typeof webauthnCredentials.$inferSelect;
+export type InsertWebAuthnCredential = z.infer<typeof insertWebAuthnCredentialSchema>;
 export type PushSubscription = typeof pushSubscriptions.$inferSelect;
 export type InsertPushSubscription = typeof pushSubscriptions.$inferInsert;
 export type Organization = typeof organizations.$inferSelect;
+export type Role = typeof roles.$inferSelect;
 export type Patient = typeof patients.$inferSelect;
 export type Provider = typeof providers.$inferSelect;
 export type Appointment = typeof appointments.$inferSelect;
 export type Insurer = typeof insurers.$inferSelect;
 export type Claim = typeof claims.$inferSelect;
+export type ClaimLine = typeof claimLines.$inferSelect;
+export type ClaimStatusHistory = typeof claimStatusHistory.$inferSelect;
 export type PreAuth = typeof preAuths.$inferSelect;
 export type Attachment = typeof attachments.$inferSelect;
 export type Remittance = typeof remittances.$inferSelect;
+export type RemittanceImport = typeof remittanceImports.$inferSelect;
+export type RemittanceLine = typeof remittanceLines.$inferSelect;
+export type EligibilityCheck = typeof eligibilityChecks.$inferSelect;
 export type AuditEvent = typeof auditEvents.$inferSelect;
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type RoleInput = z.infer<typeof roleInputSchema>;
+export type OrgMembership = typeof orgMemberships.$inferSelect;
+export type InsertOrgMembership = z.infer<typeof insertOrgMembershipSchema>;
+export type IdentityProvider = typeof identityProviders.$inferSelect;
+export type InsertIdentityProvider = z.infer<typeof insertIdentityProviderSchema>;
+export type IdentityProviderInput = z.infer<typeof identityProviderInputSchema>;
+export type FederatedIdentity = typeof federatedIdentities.$inferSelect;
+export type ScimToken = typeof scimTokens.$inferSelect;
+export type InsertScimToken = z.infer<typeof insertScimTokenSchema>;
+export type InsertFederatedIdentity = z.infer<typeof insertFederatedIdentitySchema>;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
 export type InsertProvider = z.infer<typeof insertProviderSchema>;
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type AppointmentInput = z.infer<typeof appointmentInputSchema>;
+export type PatientInput = z.infer<typeof patientInputSchema>;
+export type ProviderInput = z.infer<typeof providerInputSchema>;
 export type InsertClaim = z.infer<typeof insertClaimSchema>;
+export type ClaimUpdate = z.infer<typeof claimUpdateSchema>;
+export type InsertClaimLine = z.infer<typeof insertClaimLineSchema>;
+export type ClaimLineInput = z.infer<typeof claimLineInputSchema>;
+export type InsertClaimStatusHistory = z.infer<typeof insertClaimStatusHistorySchema>;
 export type InsertPreAuth = z.infer<typeof insertPreAuthSchema>;
 export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type AttachmentInput = z.infer<typeof attachmentInputSchema>;
 export type InsertRemittance = z.infer<typeof insertRemittanceSchema>;
+export type InsertRemittanceImport = z.infer<typeof insertRemittanceImportSchema>;
+export type InsertRemittanceLine = z.infer<typeof insertRemittanceLineSchema>;
+export type InsertEligibilityCheck = z.infer<typeof insertEligibilityCheckSchema>;
 export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
 
 // EDI Connector Types
@@ -382,6 +1156,50 @@ export type ConnectorTransaction = typeof connectorTransactions.$inferSelect;
 export type InsertConnectorTransaction = z.infer<typeof insertConnectorTransactionSchema>;
 export type ConnectorError = typeof connectorErrors.$inferSelect;
 export type InsertConnectorError = z.infer<typeof insertConnectorErrorSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type RetentionRun = typeof retentionRuns.$inferSelect;
+export type InsertRetentionRun = typeof retentionRuns.$inferInsert;
+export type RetentionRunItem = typeof retentionRunItems.$inferSelect;
+export type PrivacyRequest = typeof privacyRequests.$inferSelect;
+export type InsertPrivacyRequest = typeof privacyRequests.$inferInsert;
+export type PrivacyRequestInput = z.infer<typeof privacyRequestInputSchema>;
+export type KeyRotation = typeof keyRotations.$inferSelect;
+export type InsertKeyRotation = typeof keyRotations.$inferInsert;
+export type PatientCorrection = z.infer<typeof patientCorrectionSchema>;
+export type ClaimScrubRule = typeof claimScrubRules.$inferSelect;
+export type InsertClaimScrubRule = typeof claimScrubRules.$inferInsert;
+export type ClaimScrubRuleInput = z.infer<typeof claimScrubRuleInputSchema>;
+export type ClaimScrubCondition = z.infer<typeof claimScrubConditionSchema>;
+export type ClaimScrubScope = z.infer<typeof claimScrubScopeSchema>;
+export type ScrubSeverity = (typeof scrubSeverityEnum.enumValues)[number];
+
+// Per-line result reported by an insurer when a claim is adjudicated
+export interface ClaimLineAdjudication {
+  lineNumber: number;
+  eligibleAmount: number;
+  paidAmount: number;
+  deniedAmount: number;
+  reasonCodes?: string[];
+}
+
+// A provider licence for one discipline (providers.licences)
+export interface ProviderLicence {
+  discipline: string;
+  number: string;
+  province?: string;
+  expiresAt?: string; // YYYY-MM-DD
+}
+
+// Coverage for one benefit category, as reported by an insurer eligibility check
+export interface EligibilityCoverage {
+  category: string; // e.g. 'preventive', 'basic', 'major'
+  coveragePercent?: number;
+  annualMaximum?: number;
+  remainingMaximum?: number;
+  deductibleRemaining?: number;
+  notes?: string;
+}
 
 // AI Assistant Types
 export type AiAssistUsage = typeof aiAssistUsage.$inferSelect;
@@ -96,7 +96,7 @@ describe('API Tests', () => {
         .get('/api/admin/audit')
         .expect(200);
       
-      expect(Array.isArray(response.body)).toBe(true);
+      expect(Array.isArray(response.body.events)).toBe(true);
     });
 
     it('should block non-admin from admin routes in production', async () => {
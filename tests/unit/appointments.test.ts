@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadWithStorage, unmockStorage } from '../utils/mockStorage';
+
+const completed = [
+  { id: 'appt-1', orgId: 'org-1', patientId: 'patient-1', providerId: 'provider-1', status: 'completed', claimId: null },
+  { id: 'appt-2', orgId: 'org-1', patientId: 'patient-2', providerId: 'provider-1', status: 'completed', claimId: 'claim-9' },
+  { id: 'appt-3', orgId: 'org-1', patientId: 'patient-gone', providerId: 'provider-1', status: 'completed', claimId: null },
+];
+
+async function loadAppointments() {
+  const storage = {
+    getAppointments: vi.fn().mockResolvedValue(completed),
+    getPatients: vi.fn().mockResolvedValue([
+      { id: 'patient-1', orgId: 'org-1', name: 'Jane Doe' },
+      { id: 'patient-2', orgId: 'org-1', name: 'Sam Lee' },
+    ]),
+    getProviders: vi.fn().mockResolvedValue([{ id: 'provider-1', orgId: 'org-1', name: 'Dr Smith' }]),
+    getPatient: vi.fn(async (id: string) => (id === 'patient-1' ? { id, orgId: 'org-1' } : { id, orgId: 'org-2' })),
+    getProvider: vi.fn(async (id: string) => (id === 'provider-1' ? { id, orgId: 'org-1' } : undefined)),
+    deleteAppointment: vi.fn().mockResolvedValue(undefined),
+  };
+
+  return loadWithStorage(() => import('../../server/lib/appointments'), storage);
+}
+
+describe('appointments', () => {
+  afterEach(() => {
+    unmockStorage();
+  });
+
+  it('lists completed visits in the range that have no claim', async () => {
+    const { getUnbilledAppointments, storage } = await loadAppointments();
+    const range = { from: new Date('2025-03-10T05:00:00Z'), to: new Date('2025-03-11T05:00:00Z') };
+
+    const unbilled = await getUnbilledAppointments('org-1', range);
+
+    expect(storage.getAppointments).toHaveBeenCalledWith('org-1', { status: 'completed', ...range });
+    expect(storage.getPatients).toHaveBeenCalledWith('org-1', { includeArchived: true });
+    expect(unbilled.map(appointment => [appointment.id, appointment.patientName, appointment.providerName])).toEqual([
+      ['appt-1', 'Jane Doe', 'Dr Smith'],
+      ['appt-3', 'Unknown patient', 'Dr Smith'],
+    ]);
+  });
+
+  it('only books patients and providers from the same organization', async () => {
+    const { assertAppointmentParties } = await loadAppointments();
+
+    await expect(assertAppointmentParties('org-1', { patientId: 'patient-1', providerId: 'provider-1' })).resolves.toBeUndefined();
+    await expect(assertAppointmentParties('org-1', { patientId: 'patient-other-org' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Patient not found' });
+    await expect(assertAppointmentParties('org-1', { providerId: 'provider-missing' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Provider not found' });
+  });
+
+  it('refuses to delete a visit that has been billed', async () => {
+    const { deleteAppointment, storage } = await loadAppointments();
+
+    await expect(deleteAppointment(completed[1] as any)).rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(storage.deleteAppointment).not.toHaveBeenCalled();
+
+    await deleteAppointment(completed[0] as any);
+    expect(storage.deleteAppointment).toHaveBeenCalledWith('appt-1');
+  });
+});
@@ -0,0 +1,132 @@
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const claim = { id: 'claim-1', orgId: 'org-1', insurerId: 'insurer-1', externalId: 'ITRANS-SBX-claim-1' } as any;
+
+const files: Record<string, Buffer> = {
+  '/objects/uploads/xray': Buffer.alloc(1024 * 1024 + 1, 1),
+  '/objects/uploads/notes': Buffer.from('%PDF-1.7\n%%EOF\n'),
+  '/objects/uploads/heic': Buffer.alloc(64, 2),
+};
+
+function attachment(id: string, url: string, mime: string, overrides: Record<string, any> = {}) {
+  return {
+    id,
+    claimId: 'claim-1',
+    url,
+    mime,
+    kind: mime === 'application/pdf' ? 'pdf' : 'photo',
+    size: files[url].length,
+    checksum: crypto.createHash('sha256').update(files[url]).digest('hex'),
+    scanStatus: 'clean',
+    ...overrides,
+  };
+}
+
+async function loadTransmission(attachments: any[], events: any[] = []) {
+  vi.resetModules();
+
+  const transactions: any[] = [];
+  const storage = {
+    getAttachments: vi.fn(async () => attachments),
+    getConnectorEvents: vi.fn(async () => events),
+    createConnectorTransaction: vi.fn(async (data: any) => {
+      const row = { id: `tx-${transactions.length + 1}`, ...data };
+      transactions.push(row);
+      return row;
+    }),
+    updateConnectorTransaction: vi.fn(async (id: string, updates: any) => Object.assign(transactions.find(row => row.id === id), updates)),
+  };
+  const objectStorage = {
+    openObjectEntityStream: vi.fn(async (url: string) => (files[url] ? Readable.from([files[url]]) : null)),
+  };
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/objectStorage', () => ({ ObjectStorageService: vi.fn(() => objectStorage) }));
+
+  const transmission = await import('../../server/lib/attachmentTransmission');
+  return { ...transmission, storage, transactions };
+}
+
+function connector(delivery: 'withClaim' | 'afterClaim', sendAttachment = vi.fn()) {
+  return {
+    attachmentCapabilities: { delivery, maxBytes: 1024 * 1024, maxCount: 1, mimeTypes: ['application/pdf', 'image/jpeg'] },
+    sendAttachment,
+  } as any;
+}
+
+describe('attachment transmission', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/objectStorage');
+  });
+
+  it('packages what the connector accepts and records the rest as not sent', async () => {
+    const { attachmentsForSubmission, transactions } = await loadTransmission([
+      attachment('att-xray', '/objects/uploads/xray', 'image/jpeg'),
+      attachment('att-heic', '/objects/uploads/heic', 'image/heic'),
+      attachment('att-notes', '/objects/uploads/notes', 'application/pdf'),
+      attachment('att-infected', '/objects/uploads/notes', 'application/pdf', { scanStatus: 'infected' }),
+    ]);
+
+    const documents = await attachmentsForSubmission('eclaims', connector('withClaim'), claim);
+
+    expect(documents).toHaveLength(1);
+    expect(documents[0]).toMatchObject({ attachmentId: 'att-notes', fileName: 'pdf-att-note.pdf', content: files['/objects/uploads/notes'] });
+    expect(transactions.map(row => [row.attachmentId, row.status, row.payload.message])).toEqual([
+      ['att-xray', 'not_sent', 'File is larger than the 1 MB limit'],
+      ['att-heic', 'not_sent', expect.stringContaining('image/heic files are not accepted')],
+    ]);
+    expect(transactions.every(row => row.type === 'attachment' && !('content' in row.payload))).toBe(true);
+  });
+
+  it('sends each attachment after the claim and tracks the insurer answer', async () => {
+    const sendAttachment = vi.fn(async (_claim: any, externalId: string, document: any) => ({
+      attachmentId: document.attachmentId,
+      status: 'accepted',
+      externalId: `${externalId}-DOC`,
+    }));
+    const { transmitAttachments, transactions } = await loadTransmission(
+      [
+        attachment('att-sent', '/objects/uploads/notes', 'application/pdf'),
+        attachment('att-notes', '/objects/uploads/notes', 'application/pdf'),
+      ],
+      [{ type: 'attachment', attachmentId: 'att-sent', status: 'rejected', payload: {} }],
+    );
+
+    const results = await transmitAttachments('cdanet', connector('afterClaim', sendAttachment), claim);
+
+    // Rejected documents are not sent again
+    expect(sendAttachment).toHaveBeenCalledTimes(1);
+    expect(sendAttachment).toHaveBeenCalledWith(claim, 'ITRANS-SBX-claim-1', expect.objectContaining({ attachmentId: 'att-notes' }));
+    expect(results).toEqual([expect.objectContaining({ status: 'accepted' })]);
+    expect(transactions).toEqual([
+      expect.objectContaining({ attachmentId: 'att-notes', connector: 'cdanet', status: 'accepted', externalId: 'ITRANS-SBX-claim-1-DOC' }),
+    ]);
+  });
+
+  it('records transport failures and rethrows them so the job retries', async () => {
+    const { ConnectorError } = await import('../../server/lib/errors');
+    const sendAttachment = vi.fn().mockRejectedValue(new ConnectorError('TIMEOUT', 'gateway timed out'));
+    const { transmitAttachments, transactions } = await loadTransmission([
+      attachment('att-notes', '/objects/uploads/notes', 'application/pdf'),
+    ]);
+
+    await expect(transmitAttachments('cdanet', connector('afterClaim', sendAttachment), claim)).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(transactions).toEqual([
+      expect.objectContaining({ attachmentId: 'att-notes', status: 'error', payload: expect.objectContaining({ message: 'gateway timed out' }) }),
+    ]);
+  });
+});
+
+describe('sandbox attachment gateway', () => {
+  it('rejects by the last two digits of the file size', async () => {
+    const { simulateAttachmentResponse } = await import('../../server/sandbox/carrier-sim');
+
+    expect(simulateAttachmentResponse({ attachmentId: 'att-1', size: 2048 }, 'TELUS-SBX-1')).toMatchObject({ status: 'accepted' });
+    expect(simulateAttachmentResponse({ attachmentId: 'att-1', size: 1099 }, 'TELUS-SBX-1')).toMatchObject({
+      status: 'rejected',
+      raw: { rejectionCode: 'ATT001' },
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import crypto from 'node:crypto';
+import net from 'node:net';
+import { Readable } from 'node:stream';
+import { deflateSync } from 'node:zlib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { crc32 } from '../../server/lib/zip';
+
+const claim = { id: 'claim-1', orgId: 'org-1', insurerId: 'insurer-1', claimNumber: 'C-1' } as any;
+
+// A 2x1 RGBA PNG: one red pixel, one fully transparent
+function tinyPng(): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(Buffer.concat([Buffer.from(type, 'latin1'), data])));
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, crc]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(2, 0);
+  header.writeUInt32BE(1, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  const pixels = Buffer.from([0, 255, 0, 0, 255, 0, 0, 0, 0]);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+async function loadAttachments(file: Buffer, options: { verdict?: any; scanError?: Error; requiresPdfA?: boolean; aclPolicy?: any } = {}) {
+  vi.resetModules();
+
+  const storage = {
+    getInsurer: vi.fn(async () => ({ id: 'insurer-1', name: 'Sun Life', requiresPdfA: !!options.requiresPdfA })),
+    createAttachment: vi.fn(async (data: Record<string, unknown>) => ({ id: 'attachment-1', ...data })),
+    getAttachments: vi.fn(async () => []),
+  };
+  const objectStorage = {
+    normalizeObjectEntityPath: vi.fn((path: string) => path),
+    getObjectEntity: vi.fn(async (path: string) => ({ path, aclPolicy: options.aclPolicy ?? null })),
+    openObjectEntityStream: vi.fn(async () => Readable.from([file.subarray(0, 3), file.subarray(3)])),
+    deleteObjectEntity: vi.fn(async () => true),
+    trySetObjectEntityAclPolicy: vi.fn(),
+    writeObjectEntity: vi.fn(async () => '/objects/uploads/converted'),
+  };
+  const scanner = {
+    name: 'test',
+    scan: vi.fn(async (input: Readable) => {
+      for await (const _chunk of input) {
+        // drain
+      }
+      if (options.scanError) throw options.scanError;
+      return options.verdict ?? { status: 'clean', scanner: 'test' };
+    }),
+  };
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/objectStorage', () => ({ ObjectStorageService: vi.fn(() => objectStorage), ObjectNotFoundError: class extends Error {} }));
+  vi.doMock('../../server/security/malwareScanner', () => ({ getMalwareScanner: () => scanner }));
+
+  const attachments = await import('../../server/lib/attachments');
+  return { ...attachments, storage, objectStorage, scanner };
+}
+
+const pdf = Buffer.from('%PDF-1.7\n1 0 obj\n<<>>\nendobj\n%%EOF\n');
+
+describe('attachment ingest', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/objectStorage');
+    vi.doUnmock('../../server/security/malwareScanner');
+  });
+
+  it('records the checksum, size and scan result of what was uploaded', async () => {
+    const { ingestAttachment, storage, scanner } = await loadAttachments(pdf);
+
+    const attachment = await ingestAttachment(claim, { claimId: 'claim-1', url: '/objects/uploads/a', mime: 'application/pdf', kind: 'pdf' }, 'user-1');
+
+    expect(scanner.scan).toHaveBeenCalledTimes(1);
+    expect(storage.createAttachment).toHaveBeenCalledWith(expect.objectContaining({
+      checksum: crypto.createHash('sha256').update(pdf).digest('hex'),
+      size: pdf.length,
+      scanStatus: 'clean',
+    }));
+    expect(attachment.scanStatus).toBe('clean');
+  });
+
+  it('refuses and deletes files that are not what they claim to be', async () => {
+    const { ingestAttachment, storage, objectStorage } = await loadAttachments(Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03]));
+
+    await expect(ingestAttachment(claim, { claimId: 'claim-1', url: '/objects/uploads/a', mime: 'image/jpeg', kind: 'photo' }, 'user-1'))
+      .rejects.toMatchObject({ code: 'TYPE_MISMATCH' });
+    expect(objectStorage.deleteObjectEntity).toHaveBeenCalledWith('/objects/uploads/a');
+    expect(storage.createAttachment).not.toHaveBeenCalled();
+  });
+
+  it("refuses another user's object without touching it", async () => {
+    const { ingestAttachment, storage, objectStorage, scanner } = await loadAttachments(pdf, { aclPolicy: { owner: 'user-2', visibility: 'private' } });
+
+    await expect(ingestAttachment(claim, { claimId: 'claim-1', url: '/objects/uploads/a', mime: 'image/jpeg', kind: 'photo' }, 'user-1'))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(scanner.scan).not.toHaveBeenCalled();
+    expect(objectStorage.deleteObjectEntity).not.toHaveBeenCalled();
+    expect(objectStorage.trySetObjectEntityAclPolicy).not.toHaveBeenCalled();
+    expect(storage.createAttachment).not.toHaveBeenCalled();
+  });
+
+  it('deletes infected files but keeps the record, which blocks submission', async () => {
+    const { ingestAttachment, assertAttachmentsSubmittable, storage, objectStorage } = await loadAttachments(pdf, {
+      verdict: { status: 'infected', scanner: 'clamav', signature: 'Eicar-Signature' },
+    });
+
+    const attachment = await ingestAttachment(claim, { claimId: 'claim-1', url: '/objects/uploads/a', mime: 'application/pdf', kind: 'pdf' }, 'user-1');
+    expect(attachment).toMatchObject({ scanStatus: 'infected', scanResult: 'Eicar-Signature' });
+    expect(objectStorage.deleteObjectEntity).toHaveBeenCalled();
+
+    storage.getAttachments.mockResolvedValue([attachment]);
+    await expect(assertAttachmentsSubmittable('claim-1')).rejects.toMatchObject({ code: 'BLOCKED' });
+  });
+
+  it('records a scanner failure instead of trusting the file', async () => {
+    const { ingestAttachment } = await loadAttachments(pdf, { scanError: new Error('ClamAV scan failed: connect ECONNREFUSED') });
+
+    const attachment = await ingestAttachment(claim, { claimId: 'claim-1', url: '/objects/uploads/a', mime: 'application/pdf', kind: 'pdf' }, 'user-1');
+    expect(attachment).toMatchObject({ scanStatus: 'error', scanResult: expect.stringContaining('ECONNREFUSED') });
+  });
+
+  it('converts images to PDF/A for insurers that require it', async () => {
+    const png = tinyPng();
+    const { ingestAttachment, objectStorage } = await loadAttachments(png, { requiresPdfA: true });
+
+    const attachment = await ingestAttachment(claim, { claimId: 'claim-1', url: '/objects/uploads/a', mime: 'image/png', kind: 'photo' }, 'user-1');
+
+    const [converted, contentType] = objectStorage.writeObjectEntity.mock.calls[0] as unknown as [Buffer, string];
+    expect(contentType).toBe('application/pdf');
+    const text = converted.toString('latin1');
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/S /GTS_PDFA1');
+    expect(text).toContain('<pdfaid:part>1</pdfaid:part>');
+    expect(text).toContain('/ColorSpace /DeviceRGB');
+    expect(attachment).toMatchObject({
+      url: '/objects/uploads/converted',
+      mime: 'application/pdf',
+      originalUrl: '/objects/uploads/a',
+      originalMime: 'image/png',
+      checksum: crypto.createHash('sha256').update(converted).digest('hex'),
+    });
+  });
+});
+
+describe('ClamAV scanner', () => {
+  it('streams the file with INSTREAM and reports signatures', async () => {
+    const { ClamAvScanner } = await import('../../server/security/malwareScanner');
+    const received: Buffer[] = [];
+    const server = net.createServer((socket) => {
+      socket.on('data', chunk => {
+        received.push(chunk);
+        // The zero-length chunk ends the stream
+        if (Buffer.concat(received).subarray(-4).readUInt32BE(0) === 0) {
+          socket.end('stream: Eicar-Signature FOUND\0');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      const verdict = await new ClamAvScanner({ host: '127.0.0.1', port }).scan(Readable.from([Buffer.from('X5O!P%@AP')]));
+      expect(verdict).toEqual({ status: 'infected', scanner: 'clamav', signature: 'Eicar-Signature' });
+      expect(Buffer.concat(received).subarray(0, 10).toString('latin1')).toBe('zINSTREAM\0');
+    } finally {
+      server.close();
+    }
+  });
+});
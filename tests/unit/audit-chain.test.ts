@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import crypto from 'node:crypto';
+import {
+  AUDIT_GENESIS_HASH,
+  auditResourceOf,
+  canonicalJson,
+  computeAuditHash,
+  formatAuditExport,
+  signAuditExport,
+  verifyAuditChain,
+} from '../../server/security/audit-chain';
+
+// Events chained the way storage.createAuditEvent writes them
+function chain(count: number) {
+  const events: any[] = [];
+  let prevHash = AUDIT_GENESIS_HASH;
+  for (let seq = 1; seq <= count; seq++) {
+    const event = {
+      id: `event-${seq}`,
+      orgId: 'org-1',
+      seq,
+      actorUserId: 'user-1',
+      type: 'claim_updated',
+      details: { claimId: `claim-${seq}`, changes: { status: 'submitted' } },
+      resourceType: 'claim',
+      resourceId: `claim-${seq}`,
+      ip: '10.0.0.1',
+      userAgent: 'vitest',
+      createdAt: new Date(Date.UTC(2026, 9, 19, 12, seq)),
+    };
+    const hash = computeAuditHash(event, prevHash);
+    events.push({ ...event, prevHash, hash });
+    prevHash = hash;
+  }
+  return events;
+}
+
+describe('Audit hash chain', () => {
+  afterEach(() => {
+    delete process.env.AUDIT_SIGNING_KEY;
+  });
+
+  it('hashes the same content the same regardless of key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 3 }], c: undefined } })).toBe('{"a":{"d":[1,{"e":3,"f":2}]},"b":1}');
+
+    const [event] = chain(1);
+    const reordered = { ...event, details: { changes: { status: 'submitted' }, claimId: 'claim-1' } };
+    expect(computeAuditHash(reordered, AUDIT_GENESIS_HASH)).toBe(event.hash);
+  });
+
+  it('verifies an untouched chain', () => {
+    const events = chain(4);
+
+    expect(verifyAuditChain(events)).toEqual({
+      valid: true,
+      checked: 4,
+      baseSeq: null,
+      headSeq: 4,
+      headHash: events[3].hash,
+      issues: [],
+    });
+    expect(verifyAuditChain([])).toMatchObject({ valid: true, checked: 0, headSeq: null });
+  });
+
+  it('detects an edited event', () => {
+    const events = chain(3);
+    events[1] = { ...events[1], details: { ...events[1].details, changes: { status: 'paid' } } };
+
+    expect(verifyAuditChain(events).issues).toEqual([{ seq: 2, eventId: 'event-2', problem: 'hash' }]);
+  });
+
+  it('detects a deleted event', () => {
+    const events = chain(4);
+    events.splice(1, 1);
+
+    const report = verifyAuditChain(events);
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([{ seq: 3, eventId: 'event-3', problem: 'gap' }]);
+  });
+
+  it('starts from the last event removed by retention', () => {
+    const events = chain(4);
+    const base = { seq: events[1].seq, hash: events[1].hash };
+
+    expect(verifyAuditChain(events.slice(2), base)).toMatchObject({ valid: true, checked: 2, baseSeq: 2 });
+    expect(verifyAuditChain(events.slice(3), base).issues).toEqual([{ seq: 4, eventId: 'event-4', problem: 'gap' }]);
+  });
+
+  it('detects an event rewritten with a fresh hash', () => {
+    const events = chain(3);
+    const forged = { ...events[1], type: 'claim_viewed' };
+    events[1] = { ...forged, hash: computeAuditHash(forged, forged.prevHash) };
+
+    expect(verifyAuditChain(events).issues).toEqual([{ seq: 3, eventId: 'event-3', problem: 'link' }]);
+  });
+
+  it('takes the resource from the most specific detail key', () => {
+    expect(auditResourceOf({ userId: 'user-1', claimId: 'claim-9' })).toEqual({ resourceType: 'claim', resourceId: 'claim-9' });
+    expect(auditResourceOf({ userId: 'user-1' })).toEqual({ resourceType: 'user', resourceId: 'user-1' });
+    expect(auditResourceOf({ endpoint: '/api/claims' })).toBeNull();
+  });
+
+  it('exports CSV and JSONL with an HMAC signature over the body', () => {
+    process.env.AUDIT_SIGNING_KEY = 'audit-test-key';
+    const events = chain(2);
+
+    const csv = formatAuditExport(events, 'csv');
+    const [header, first] = csv.split('\r\n');
+    expect(header).toBe('seq,id,createdAt,type,actorUserId,resourceType,resourceId,ip,userAgent,details,prevHash,hash');
+    expect(first).toContain('"{""claimId"":""claim-1"",""changes"":{""status"":""submitted""}}"');
+
+    const jsonl = formatAuditExport(events, 'jsonl').trim().split('\n').map(line => JSON.parse(line));
+    expect(jsonl.map(record => record.hash)).toEqual(events.map(event => event.hash));
+
+    expect(signAuditExport(csv)).toBe(crypto.createHmac('sha256', 'audit-test-key').update(csv).digest('hex'));
+  });
+});
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { LocalBlobStore } from '../../server/blob/local';
+import { signObjectUrl, verifyObjectUrlSignature } from '../../server/security/signedUrls';
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+function query(url: string) {
+  return Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+}
+
+async function readAll(stream: Readable | null): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream!) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('signed object URLs', () => {
+  it('accepts an unexpired URL for the signed method and path', () => {
+    const url = signObjectUrl('GET', '/objects/uploads/a', 300, NOW);
+
+    expect(url.startsWith('/objects/uploads/a?expires=')).toBe(true);
+    expect(verifyObjectUrlSignature('GET', '/objects/uploads/a', query(url), NOW + 299_000)).toBe(true);
+  });
+
+  it('rejects expired, tampered and cross-method URLs', () => {
+    const signed = query(signObjectUrl('GET', '/objects/uploads/a', 300, NOW));
+
+    expect(verifyObjectUrlSignature('GET', '/objects/uploads/a', signed, NOW + 301_000)).toBe(false);
+    expect(verifyObjectUrlSignature('GET', '/objects/uploads/b', signed, NOW)).toBe(false);
+    expect(verifyObjectUrlSignature('PUT', '/objects/uploads/a', signed, NOW)).toBe(false);
+    expect(verifyObjectUrlSignature('GET', '/objects/uploads/a', { ...signed, expires: String(Number(signed.expires) + 600) }, NOW)).toBe(false);
+    expect(verifyObjectUrlSignature('GET', '/objects/uploads/a', { expires: signed.expires }, NOW)).toBe(false);
+  });
+});
+
+describe('LocalBlobStore', () => {
+  let root: string;
+  let store: LocalBlobStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'medlink-blobs-'));
+    store = new LocalBlobStore(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('stores objects with their content type and ACL policy', async () => {
+    const aclPolicy = { owner: 'user-1', visibility: 'private' as const };
+    await store.write('uploads/a', Buffer.from('%PDF-1.7'), 'application/pdf', aclPolicy);
+
+    expect(await store.head('uploads/a')).toEqual({ contentType: 'application/pdf', size: 8, aclPolicy });
+    expect(await readAll(await store.createReadStream('uploads/a'))).toBe('%PDF-1.7');
+
+    await store.setAclPolicy('uploads/a', { owner: 'user-1', visibility: 'public' });
+    expect((await store.head('uploads/a'))?.aclPolicy?.visibility).toBe('public');
+
+    expect(await store.delete('uploads/a')).toBe(true);
+    expect(await store.head('uploads/a')).toBeNull();
+    expect(await fs.readdir(path.join(root, 'uploads'))).toEqual([]);
+  });
+
+  it('creates an object only when the key is free', async () => {
+    const results = await Promise.all([
+      store.create('uploads/a', Buffer.from('first'), 'text/plain'),
+      store.create('uploads/a', Readable.from([Buffer.from('second')]), 'text/plain'),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(['first', 'second']).toContain(await readAll(await store.createReadStream('uploads/a')));
+    expect(await store.create('uploads/a', Buffer.from('third'), 'text/plain')).toBe(false);
+    expect((await fs.readdir(path.join(root, 'uploads'))).sort()).toEqual(['a', 'a.meta.json']);
+  });
+
+  it('reports missing objects instead of throwing', async () => {
+    expect(await store.head('uploads/missing')).toBeNull();
+    expect(await store.createReadStream('uploads/missing')).toBeNull();
+    expect(await store.delete('uploads/missing')).toBe(false);
+    expect(await store.setAclPolicy('uploads/missing', { owner: 'user-1', visibility: 'private' })).toBe(false);
+  });
+
+  it('refuses keys outside its root and sidecar files', async () => {
+    await expect(store.head('../escape')).rejects.toThrow('Invalid object key');
+    await expect(store.write('uploads/a.meta.json', Buffer.from('{}'), 'application/json')).rejects.toThrow('Invalid object key');
+  });
+
+  it('leaves no partial file when a streamed write fails', async () => {
+    const body = Readable.from((async function* () {
+      yield Buffer.from('partial');
+      throw new Error('client went away');
+    })());
+
+    await expect(store.write('uploads/a', body, 'image/png')).rejects.toThrow('client went away');
+    expect(await fs.readdir(path.join(root, 'uploads'))).toEqual([]);
+  });
+
+  it('issues signed PUT URLs back to the app', async () => {
+    const url = await store.getUploadUrl('uploads/a', 900);
+
+    expect(url.startsWith('/objects/uploads/a?')).toBe(true);
+    expect(verifyObjectUrlSignature('PUT', '/objects/uploads/a', query(url))).toBe(true);
+  });
+});
+
+describe('object ACL groups', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+  });
+
+  async function loadAcl() {
+    vi.resetModules();
+    const storage = {
+      getUser: vi.fn(async (id: string) => ({
+        'user-home': { id, orgId: 'org-1', deactivatedAt: null },
+        'user-member': { id, orgId: 'org-2', deactivatedAt: null },
+        'user-gone': { id, orgId: 'org-1', deactivatedAt: new Date(NOW) },
+        'user-other': { id, orgId: 'org-2', deactivatedAt: null },
+      } as Record<string, unknown>)[id]),
+      getMembership: vi.fn(async (userId: string, orgId: string) => (userId === 'user-member' && orgId === 'org-1' ? { userId, orgId } : undefined)),
+      getClaim: vi.fn(async (id: string) => (id === 'claim-1' ? { id, createdBy: 'user-creator' } : undefined)),
+    };
+    vi.doMock('../../server/storage', () => ({ storage }));
+    return import('../../server/objectAcl');
+  }
+
+  it('grants org members and the claim creator read access only', async () => {
+    const { canAccessObject, ObjectAccessGroupType, ObjectPermission } = await loadAcl();
+    const aclPolicy = {
+      owner: 'user-uploader',
+      visibility: 'private' as const,
+      aclRules: [
+        { group: { type: ObjectAccessGroupType.ORG_MEMBER, id: 'org-1' }, permission: ObjectPermission.READ },
+        { group: { type: ObjectAccessGroupType.CLAIM_OWNER, id: 'claim-1' }, permission: ObjectPermission.READ },
+      ],
+    };
+    const can = (userId: string | undefined, requestedPermission = ObjectPermission.READ) =>
+      canAccessObject({ userId, aclPolicy, requestedPermission });
+
+    expect(await can('user-uploader', ObjectPermission.WRITE)).toBe(true);
+    expect(await can('user-home')).toBe(true);
+    expect(await can('user-member')).toBe(true);
+    expect(await can('user-creator')).toBe(true);
+    expect(await can('user-home', ObjectPermission.WRITE)).toBe(false);
+    expect(await can('user-gone')).toBe(false);
+    expect(await can('user-other')).toBe(false);
+    expect(await can(undefined)).toBe(false);
+  });
+
+  it('denies objects without a policy', async () => {
+    const { canAccessObject, ObjectPermission } = await loadAcl();
+
+    expect(await canAccessObject({ userId: 'user-home', aclPolicy: null, requestedPermission: ObjectPermission.READ })).toBe(false);
+  });
+});
+
+describe('object ACL policy changes', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'medlink-blobs-'));
+  });
+
+  afterEach(async () => {
+    vi.doUnmock('../../server/storage');
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function loadObjectStorage() {
+    vi.resetModules();
+    vi.doMock('../../server/storage', () => ({ storage: {} }));
+    const { ObjectStorageService } = await import('../../server/objectStorage');
+    const store = new LocalBlobStore(root);
+    return { store, objectStorage: new ObjectStorageService(store) };
+  }
+
+  it("claims fresh uploads but never takes over another owner's object", async () => {
+    const { store, objectStorage } = await loadObjectStorage();
+    await store.write('uploads/a', Buffer.from('%PDF-1.7'), 'application/pdf');
+
+    await objectStorage.trySetObjectEntityAclPolicy('/objects/uploads/a', { owner: 'user-1', visibility: 'private' });
+    await objectStorage.trySetObjectEntityAclPolicy('/objects/uploads/a', { owner: 'user-1', visibility: 'public' });
+    await expect(objectStorage.trySetObjectEntityAclPolicy('/objects/uploads/a', { owner: 'user-2', visibility: 'private' }))
+      .rejects.toThrow('Object not found');
+    expect((await store.head('uploads/a'))?.aclPolicy).toEqual({ owner: 'user-1', visibility: 'public' });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CDAnetCodecError,
+  decodeCDAnetMessage,
+  encodeCDAnetMessage,
+  validateCDAnetMessage,
+  type CDAnetMessageValues,
+} from '../../server/mappers/cdanetCodec';
+import { parseCDAnetResponse } from '../../server/mappers/cdanet';
+
+// Golden v4 messages, one array entry per field in layout order
+const CLAIM_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '01', '999999', 'ML1', '0', '00348', '00000',
+  '123456789', '0001', '123456789', '0001',
+  '          ', '00',
+  'POL1        ', '          ', 'CERT1       ', '00', '0', 'F', '19800101',
+  'DOE                      ', 'JANE           ', ' ', '0', '                         ',
+  '19800101', 'DOE                      ', 'JANE           ', ' ', 'E', '00',
+  '0', '1', '00000000', '00', '2',
+  '1', '21211', '20250305', '36', 'MO   ', '015000', '     ', '000000', '     ', '00',
+  '2', '02111', '20250301', '00', '     ', '010000', '     ', '000000', '     ', '00',
+].join('');
+
+const PREDETERMINATION_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '03', '999999', 'ML1', '0', '00295', '00000',
+  '123456789', '0001', '123456789', '0001',
+  '          ', '00',
+  'POL1        ', '          ', 'CERT1       ', '00', '0', 'F', '19800101',
+  'DOE                      ', 'JANE           ', ' ', '0', '                         ',
+  '19800101', 'DOE                      ', 'JANE           ', ' ', 'E', '00',
+  '0', '1', '00000000', '00', '1',
+  '1', '27211', '00', '     ', '090000', '     ', '000000', '     ', '00',
+].join('');
+
+const REVERSAL_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '02', '999999', 'ML1', '0', '00159', '00000',
+  '123456789', '0001', '123456789', '0001',
+  'POL1        ', '          ', 'CERT1       ', '00', 'DOE                      ', 'JANE           ', ' ', 'SBXCLAIM000001',
+].join('');
+
+const OUTSTANDING_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '04', '999999', 'ML1', '0', '00068', '00000',
+  '123456789', '0001', '123456789', '0001',
+].join('');
+
+const ELIGIBILITY_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '08', '999999', 'ML1', '0', '00241', '00000',
+  '123456789', '0001', '123456789', '0001',
+  'POL1        ', '          ', 'CERT1       ', '00', '0', 'F', '19800101',
+  'DOE                      ', 'JANE           ', ' ', '0', '                         ',
+  '19800101', 'DOE                      ', 'JANE           ', ' ', 'E', '00',
+  '20250310',
+].join('');
+
+const ACK_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '11', '999999', '00071', 'N',
+  '123456789', '0001', 'ABC12345678901',
+  'A', '0025000', '00',
+].join('');
+
+const REJECTED_ACK_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '11', '999999', '00077', 'N',
+  '123456789', '0001', '              ',
+  'R', '0000000', '02', '042', '107',
+].join('');
+
+const EOB_MESSAGE = [
+  'MEDLINK     ', '000123', '04', '21', '999999', '00218', 'N',
+  '123456789', '0001', 'ABC12345678901',
+  'A', '20250320', '0025000', '0020000', '000000', '2',
+  '1', '015000', '00000', '080', '012000', '01',
+  '2', '010000', '00000', '080', '008000', '00',
+  '00', '01', '01', 'Frequency limit applies                                                    ',
+].join('');
+
+const header: CDAnetMessageValues = {
+  A01: 'MEDLINK',
+  A02: 123,
+  A05: '999999',
+  A06: 'ML1',
+  A10: 0,
+  B01: '123456789',
+  B02: '0001',
+  B03: '123456789',
+  B04: '0001',
+};
+
+const patient: CDAnetMessageValues = {
+  C01: 'POL1',
+  C02: 'CERT1',
+  C03: 0,
+  C04: 'F',
+  C05: new Date('1980-01-01T00:00:00Z'),
+  C06: 'DOE',
+  C07: 'JANE',
+};
+
+const subscriber: CDAnetMessageValues = {
+  D01: '1980-01-01',
+  D02: 'DOE',
+  D03: 'JANE',
+  D10: 'E',
+};
+
+const claimValues: CDAnetMessageValues = {
+  ...header,
+  ...patient,
+  ...subscriber,
+  F01: 1,
+  procedures: [
+    { F07: 1, F08: '21211', F09: '2025-03-05', F10: 36, F11: 'MO', F12: 150 },
+    { F07: 2, F08: '02111', F09: '20250301', F12: '100.00' },
+  ],
+};
+
+function codecErrors(run: () => unknown) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(CDAnetCodecError);
+    return (error as CDAnetCodecError).errors;
+  }
+  throw new Error('expected a CDAnetCodecError');
+}
+
+describe('CDAnet v4 codec', () => {
+  it('encodes request transactions to the golden fixed-width messages', () => {
+    expect(encodeCDAnetMessage('claim', claimValues)).toBe(CLAIM_MESSAGE);
+    expect(encodeCDAnetMessage('predetermination', {
+      ...claimValues,
+      procedures: [{ F07: 1, F08: '27211', F12: 900 }],
+    })).toBe(PREDETERMINATION_MESSAGE);
+    expect(encodeCDAnetMessage('reversal', { ...header, ...patient, G01: 'SBXCLAIM000001' })).toBe(REVERSAL_MESSAGE);
+    expect(encodeCDAnetMessage('outstandingTransactions', header)).toBe(OUTSTANDING_MESSAGE);
+    expect(encodeCDAnetMessage('eligibility', { ...header, ...patient, ...subscriber, F09: '2025-03-10' }))
+      .toBe(ELIGIBILITY_MESSAGE);
+  });
+
+  it('round-trips every golden message through decode and encode', () => {
+    const golden = [
+      CLAIM_MESSAGE,
+      PREDETERMINATION_MESSAGE,
+      REVERSAL_MESSAGE,
+      OUTSTANDING_MESSAGE,
+      ELIGIBILITY_MESSAGE,
+      ACK_MESSAGE,
+      REJECTED_ACK_MESSAGE,
+      EOB_MESSAGE,
+    ];
+
+    for (const message of golden) {
+      const decoded = decodeCDAnetMessage(message);
+      expect(decoded.values.A07).toBe(message.length);
+      expect(encodeCDAnetMessage(decoded.type, decoded.values)).toBe(message);
+    }
+  });
+
+  it('decodes typed values, blanks and repeating groups', () => {
+    const claim = decodeCDAnetMessage(CLAIM_MESSAGE);
+    expect(claim).toMatchObject({ type: 'claim', code: 1 });
+    expect(claim.values).toMatchObject({ A01: 'MEDLINK', A02: 123, C06: 'DOE', C08: undefined, F02: undefined, F06: 2 });
+    expect(claim.values.C05).toEqual(new Date('1980-01-01T00:00:00Z'));
+    expect(claim.values.procedures).toEqual([
+      expect.objectContaining({ F07: 1, F08: '21211', F10: 36, F11: 'MO', F12: 150 }),
+      expect.objectContaining({ F07: 2, F08: '02111', F10: 0, F11: undefined, F12: 100 }),
+    ]);
+
+    const eob = decodeCDAnetMessage(EOB_MESSAGE);
+    expect(eob.values).toMatchObject({ G01: 'ABC12345678901', G04: 250, G28: 200, G03: new Date('2025-03-20T00:00:00Z') });
+    expect(eob.values.procedures).toEqual([
+      { F07: 1, G12: 150, G13: 0, G14: 80, G15: 120, G16: 1 },
+      { F07: 2, G12: 100, G13: 0, G14: 80, G15: 80, G16: 0 },
+    ]);
+    expect(eob.values.notes).toEqual([{ G16: 1, G26: 'Frequency limit applies' }]);
+  });
+
+  it('reports every invalid field instead of truncating or padding over it', () => {
+    const errors = codecErrors(() => encodeCDAnetMessage('claim', {
+      ...claimValues,
+      A05: undefined,
+      C04: 'X',
+      C06: 'A'.repeat(26),
+      procedures: [{ F07: 1, F08: '21211', F09: '2025-02-30', F12: 10000 }],
+    }));
+
+    expect(errors).toEqual([
+      expect.objectContaining({ field: 'A05', message: 'Carrier Identification Number is required' }),
+      expect.objectContaining({ field: 'C04', message: "Patient's Sex must be one of M, F, U" }),
+      expect.objectContaining({ field: 'C06', message: "Patient's Last Name must be at most 25 characters" }),
+      expect.objectContaining({ field: 'F09', group: 'procedures', index: 0, message: 'Date of Service must be a valid date' }),
+      expect.objectContaining({ field: 'F12', group: 'procedures', index: 0, message: "Dentist's Fee Claimed exceeds the maximum of 9999.99" }),
+    ]);
+  });
+
+  it('enforces procedure counts and validates without throwing', () => {
+    const eight = Array.from({ length: 8 }, (_, index) => ({ F07: index + 1, F08: '01202', F09: '2025-03-01', F12: 10 }));
+
+    expect(validateCDAnetMessage('claim', { ...claimValues, procedures: eight })).toEqual([
+      expect.objectContaining({ field: 'F06', message: 'Number of Procedures Performed allows at most 7 procedures, got 8' }),
+    ]);
+    expect(validateCDAnetMessage('claim', { ...claimValues, procedures: [] })).toEqual([
+      expect.objectContaining({ field: 'F06', message: 'Number of Procedures Performed requires at least 1 procedures' }),
+    ]);
+    expect(validateCDAnetMessage('claim', claimValues)).toEqual([]);
+  });
+
+  it('rejects malformed messages with field-level errors', () => {
+    const wrongLength = CLAIM_MESSAGE.slice(0, 32) + '00347' + CLAIM_MESSAGE.slice(37);
+    expect(codecErrors(() => decodeCDAnetMessage(wrongLength))).toEqual([
+      expect.objectContaining({ field: 'A07', message: 'Message Length declares 347 characters but message has 348' }),
+    ]);
+
+    const badFee = CLAIM_MESSAGE.slice(0, 279) + '01500X' + CLAIM_MESSAGE.slice(285);
+    expect(codecErrors(() => decodeCDAnetMessage(badFee))).toEqual([
+      expect.objectContaining({ field: 'F12', group: 'procedures', index: 0, value: '01500X' }),
+    ]);
+
+    expect(codecErrors(() => decodeCDAnetMessage(CLAIM_MESSAGE.slice(0, 300)))).toEqual(
+      expect.arrayContaining([expect.objectContaining({ field: 'F34', message: expect.stringContaining('message ends') })])
+    );
+    expect(() => decodeCDAnetMessage(CLAIM_MESSAGE.replace('MEDLINK     00012304', 'MEDLINK     00012303')))
+      .toThrow('Unsupported CDAnet format version "03"');
+  });
+
+  it('maps decoded carrier responses to claim statuses', () => {
+    expect(parseCDAnetResponse(ACK_MESSAGE)).toMatchObject({ status: 'submitted', externalId: 'ABC12345678901' });
+    expect(parseCDAnetResponse(REJECTED_ACK_MESSAGE)).toMatchObject({ status: 'error', details: { errors: [42, 107] } });
+    expect(parseCDAnetResponse(`${EOB_MESSAGE}\r\n`)).toMatchObject({
+      status: 'paid',
+      details: { transaction: 'eob', notes: ['Frequency limit applies'] },
+    });
+    expect(parseCDAnetResponse('ACKAA')).toMatchObject({ status: 'error' });
+  });
+});
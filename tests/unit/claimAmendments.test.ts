@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { claimCreateSchema, claimUpdateSchema } from '../../shared/schema';
+
+async function loadAmendments(claims: Record<string, any>[], rail = 'cdanet') {
+  vi.resetModules();
+
+  const rows = new Map(claims.map(claim => [claim.id, { ...claim }]));
+  let nextId = 1;
+  const storage = {
+    getClaim: vi.fn(async (id: string) => rows.get(id)),
+    getChildClaims: vi.fn(async (parentIds: string[]) =>
+      Array.from(rows.values()).filter(claim => parentIds.includes(claim.parentClaimId))),
+    getInsurer: vi.fn().mockResolvedValue({ id: 'ins-1', rail }),
+    getClaimLines: vi.fn().mockResolvedValue([
+      { id: 'line-1', claimId: 'claim-1', lineNumber: 1, procedureCode: '01202', fee: '60.00', units: 1, paidAmount: '0.00' },
+    ]),
+    getAttachments: vi.fn().mockResolvedValue([]),
+    createAmendmentClaim: vi.fn(async (data: any, _lines: any[], guard: any) => {
+      const parent = rows.get(data.parentClaimId);
+      if (!parent || !guard.parentStatuses.includes(parent.status)) return undefined;
+      const claim = { ...data, id: `child-${nextId++}`, createdAt: new Date(`2025-03-0${nextId}T00:00:00Z`) };
+      rows.set(claim.id, claim);
+      return claim;
+    }),
+    updateClaim: vi.fn(async (id: string, updates: any) => Object.assign(rows.get(id)!, updates)),
+    updateClaimStatus: vi.fn(async (id: string, change: any) =>
+      Object.assign(rows.get(id)!, change.updates ?? {}, { status: change.toStatus })),
+    findQueuedJob: vi.fn().mockResolvedValue({ id: 'poll-job-1' }),
+  };
+  const connector = {
+    resubmitClaim: vi.fn(async (_original: any, child: any) => ({ externalId: `EXT-${child.id}`, status: 'submitted' })),
+    reverseClaim: vi.fn(async (_original: any, child: any) => ({ externalId: `REV-${child.id}`, status: 'submitted' })),
+  };
+  const jobQueue = {
+    enqueue: vi.fn().mockResolvedValue('job-1'),
+    cancel: vi.fn().mockResolvedValue(undefined),
+  };
+  const scrubClaim = vi.fn().mockResolvedValue({ findings: [], errors: 0, warnings: 0, canSubmit: true });
+
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/connectors/base', () => ({ getConnector: vi.fn().mockResolvedValue(connector) }));
+  vi.doMock('../../server/lib/jobs', () => ({ jobQueue }));
+  vi.doMock('../../server/lib/claimScrubber', () => ({
+    scrubClaim,
+    ClaimScrubError: class extends Error {},
+  }));
+
+  const module = await import('../../server/lib/claimAmendments');
+  return { ...module, storage, connector, jobQueue, scrubClaim, rows };
+}
+
+const deniedClaim = {
+  id: 'claim-1',
+  orgId: 'org-1',
+  patientId: 'patient-1',
+  providerId: 'provider-1',
+  insurerId: 'ins-1',
+  type: 'claim',
+  status: 'denied',
+  amount: '60.00',
+  currency: 'CAD',
+  referenceNumber: 'REF-1',
+  externalId: 'ITRANS-SBX-claim-1',
+  createdAt: new Date('2025-03-01T00:00:00Z'),
+};
+
+describe('claim amendments', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/connectors/base');
+    vi.doUnmock('../../server/lib/jobs');
+    vi.doUnmock('../../server/lib/claimScrubber');
+  });
+
+  it('queues the resubmission of a denied claim as a linked child with its own reference', async () => {
+    const { resubmitClaim, storage, connector, jobQueue } = await loadAmendments([deniedClaim]);
+
+    const { claim, jobId } = await resubmitClaim('claim-1', { actorUserId: 'user-1' });
+
+    expect(claim).toMatchObject({
+      parentClaimId: 'claim-1',
+      relation: 'resubmission',
+      referenceNumber: 'REF-1-1',
+      originalReferenceNumber: 'REF-1',
+      status: 'draft',
+    });
+    expect(storage.createAmendmentClaim).toHaveBeenCalledWith(
+      expect.anything(),
+      [expect.not.objectContaining({ paidAmount: expect.anything() })],
+      { parentStatuses: ['denied', 'infoRequested'], blockingRelations: ['resubmission', 'adjustment'] },
+    );
+    expect(jobId).toBe('job-1');
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(expect.objectContaining({ type: 'submit', claimId: 'child-1', connector: 'cdanet' }));
+    // The submit job sends it, within the insurer's throttle
+    expect(connector.resubmitClaim).not.toHaveBeenCalled();
+  });
+
+  it('resubmits a claim only once and never one that fails scrubbing', async () => {
+    const { resubmitClaim, storage, scrubClaim, jobQueue } = await loadAmendments([
+      deniedClaim,
+      { ...deniedClaim, id: 'claim-2', referenceNumber: 'REF-2' },
+    ]);
+
+    await resubmitClaim('claim-1', { actorUserId: 'user-1' });
+    await expect(resubmitClaim('claim-1', { actorUserId: 'user-1' }))
+      .rejects.toMatchObject({ code: 'NOT_ELIGIBLE', message: expect.stringContaining('already resubmitted as claim REF-1-1') });
+
+    scrubClaim.mockResolvedValueOnce({ findings: [{ ruleId: 'rule-1', severity: 'error' }], errors: 1, warnings: 0, canSubmit: false });
+    await expect(resubmitClaim('claim-2', { actorUserId: 'user-1' })).rejects.toThrow();
+    expect(storage.createAmendmentClaim).toHaveBeenCalledTimes(1);
+    expect(jobQueue.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends eClaims resubmissions as adjustments and refuses claims that were not denied', async () => {
+    const { resubmitClaim, ClaimAmendmentError } = await loadAmendments(
+      [deniedClaim, { ...deniedClaim, id: 'claim-2', status: 'paid' }],
+      'telusEclaims'
+    );
+
+    await expect(resubmitClaim('claim-1', { actorUserId: 'user-1' }))
+      .resolves.toMatchObject({ claim: { relation: 'adjustment' } });
+    await expect(resubmitClaim('claim-2', { actorUserId: 'user-1' }))
+      .rejects.toBeInstanceOf(ClaimAmendmentError);
+  });
+
+  it('reverses a paid claim and marks both claims reversed', async () => {
+    const { reverseClaim, storage, jobQueue } = await loadAmendments([{ ...deniedClaim, status: 'paid' }]);
+
+    const { original, claim } = await reverseClaim('claim-1', { actorUserId: 'user-1', reason: 'Wrong patient' });
+
+    expect(original.status).toBe('reversed');
+    expect(claim).toMatchObject({ relation: 'reversal', status: 'reversed', externalId: 'REV-child-1', notes: 'Wrong patient' });
+    expect(storage.updateClaimStatus).toHaveBeenCalledWith('claim-1', expect.objectContaining({
+      fromStatus: 'paid',
+      toStatus: 'reversed',
+      source: 'connector',
+    }));
+    expect(jobQueue.cancel).toHaveBeenCalledWith('poll-job-1');
+  });
+
+  it('walks the chain from any linked claim back to the first one', async () => {
+    const { getClaimChain } = await loadAmendments([
+      deniedClaim,
+      { ...deniedClaim, id: 'claim-2', parentClaimId: 'claim-1', createdAt: new Date('2025-03-02T00:00:00Z') },
+      { ...deniedClaim, id: 'claim-3', parentClaimId: 'claim-2', createdAt: new Date('2025-03-03T00:00:00Z') },
+    ]);
+
+    const chain = await getClaimChain('claim-3');
+
+    expect(chain.map(claim => claim.id)).toEqual(['claim-1', 'claim-2', 'claim-3']);
+  });
+});
+
+describe('claim updates', () => {
+  it('cannot rewrite the claim chain or move a claim', () => {
+    const forged = {
+      parentClaimId: '00000000-0000-0000-0000-000000000001',
+      relation: 'resubmission',
+      originalReferenceNumber: 'REF-0',
+      orgId: '00000000-0000-0000-0000-000000000002',
+      createdBy: 'user-2',
+      externalId: 'EXT-1',
+    };
+
+    for (const [field, value] of Object.entries(forged)) {
+      expect(claimUpdateSchema.safeParse({ [field]: value }).success).toBe(false);
+    }
+    expect(claimUpdateSchema.parse({ notes: 'Corrected tooth number' })).toEqual({ notes: 'Corrected tooth number' });
+  });
+});
+
+describe('claim creation', () => {
+  it('drops status, external ids and chain fields sent by the client', () => {
+    const created = claimCreateSchema.parse({
+      orgId: '00000000-0000-0000-0000-000000000002',
+      patientId: '00000000-0000-0000-0000-000000000003',
+      providerId: '00000000-0000-0000-0000-000000000004',
+      insurerId: '00000000-0000-0000-0000-000000000005',
+      type: 'claim',
+      amount: '60.00',
+      createdBy: 'user-1',
+      status: 'paid',
+      externalId: 'EXT-1',
+      parentClaimId: '00000000-0000-0000-0000-000000000001',
+      relation: 'resubmission',
+      originalReferenceNumber: 'REF-0',
+    });
+
+    expect(created).toMatchObject({ type: 'claim', amount: '60.00' });
+    for (const field of ['status', 'externalId', 'parentClaimId', 'relation', 'originalReferenceNumber']) {
+      expect(created).not.toHaveProperty(field);
+    }
+  });
+});
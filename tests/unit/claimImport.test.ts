@@ -0,0 +1,230 @@
+import { deflateRawSync } from 'node:zlib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadWithStorage, unmockStorage } from '../utils/mockStorage';
+import { parseXlsxRows } from '../../server/lib/xlsx';
+
+// Claims reference their parties by UUID
+const ORG_ID = '00000000-0000-4000-8000-000000000001';
+const PATIENT_1 = '00000000-0000-4000-8000-000000000011';
+const PATIENT_2 = '00000000-0000-4000-8000-000000000012';
+const PROVIDER_ID = '00000000-0000-4000-8000-000000000021';
+const SUN_LIFE = '00000000-0000-4000-8000-000000000031';
+const WSIB = '00000000-0000-4000-8000-000000000032';
+
+const patients = [
+  { id: PATIENT_1, orgId: ORG_ID, name: 'Jane Doe', dob: new Date('1985-04-12T00:00:00Z'), identifiers: { certificateNumber: 'CERT1001', policyNumber: 'POL55' } },
+  { id: PATIENT_2, orgId: ORG_ID, name: 'Sam Lee', dob: new Date('1990-01-01T00:00:00Z'), identifiers: {} },
+];
+const providers = [
+  { id: PROVIDER_ID, orgId: ORG_ID, name: 'Dr Smith', licenceNumber: '123456', discipline: 'dentistry', licences: null },
+];
+const insurers = [
+  { id: SUN_LIFE, name: 'Sun Life', rail: 'cdanet' },
+  { id: WSIB, name: 'WSIB', rail: 'portal' },
+];
+
+async function loadClaimImport() {
+  const storage = {
+    getPatients: vi.fn().mockResolvedValue(patients),
+    getProviders: vi.fn().mockResolvedValue(providers),
+    getInsurers: vi.fn().mockResolvedValue(insurers),
+    getClaimByReferenceNumber: vi.fn().mockResolvedValue(undefined),
+    createClaim: vi.fn(async (data: any) => ({ ...data, id: `claim-${data.referenceNumber ?? 'x'}` })),
+    replaceClaimLines: vi.fn().mockResolvedValue([]),
+  };
+
+  return loadWithStorage(() => import('../../server/lib/claimImport'), storage);
+}
+
+const csv = [
+  'Visit ID,Patient,DOB,Certificate Number,Provider,Carrier,Date of Service,Procedure Code,Tooth,Fee,Units,Reference',
+  'V1,Jane Doe,1985-04-12,CERT1001,Dr Smith,Sun Life,2025-03-10,01202,,45.00,1,IMP-1',
+  'V1,Jane Doe,1985-04-12,CERT1001,Dr Smith,Sun Life,2025-03-10,21211,16,"$1,120.50",1,IMP-1',
+  'V2,Sam Lee,1990-01-01,,Dr Smith,WSIB,2025/03/11,PT100,,80,2,IMP-2',
+  'V3,Nobody Known,,,Dr Smith,Unknown Mutual,11/03/2025,01202,,45,1,IMP-3',
+].join('\n');
+
+const request = { orgId: ORG_ID, userId: 'user-1', format: 'csv' as const, content: csv };
+
+describe('claim import', () => {
+  afterEach(() => {
+    unmockStorage();
+  });
+
+  it('suggests a column mapping from the export headers', async () => {
+    const { suggestColumnMapping } = await loadClaimImport();
+
+    expect(suggestColumnMapping(['Visit ID', 'Patient', 'DOB', 'Carrier', 'Date of Service', 'Procedure Code', 'Fee', 'Misc'])).toEqual({
+      claimKey: 'Visit ID',
+      patientName: 'Patient',
+      patientDob: 'DOB',
+      insurer: 'Carrier',
+      serviceDate: 'Date of Service',
+      procedureCode: 'Procedure Code',
+      fee: 'Fee',
+    });
+  });
+
+  it('groups rows into claims and reports row-level errors in a dry run', async () => {
+    const { previewClaimImport, storage } = await loadClaimImport();
+
+    const preview = await previewClaimImport(request);
+
+    expect(preview.rowCount).toBe(4);
+    expect(preview.validClaims).toBe(2);
+    expect(storage.createClaim).not.toHaveBeenCalled();
+
+    const [visit1, visit2, visit3] = preview.claims;
+    expect(visit1).toMatchObject({ patientId: PATIENT_1, providerId: PROVIDER_ID, insurerId: SUN_LIFE, connector: 'cdanet', amount: '1165.50', rowNumbers: [2, 3], errors: [] });
+    expect(visit1.lines.map(line => line.procedureCode)).toEqual(['01202', '21211']);
+    expect(visit2).toMatchObject({ patientId: PATIENT_2, insurerId: WSIB, connector: 'portal', amount: '160.00', errors: [] });
+    expect(visit3.errors).toEqual([
+      'Row 5: Patient "Nobody Known" not found; add them on the Patients page first',
+      'Row 5: Insurer "Unknown Mutual" not found',
+      'Row 5: Unrecognised service date "11/03/2025"; use YYYY-MM-DD',
+    ]);
+  });
+
+  it("validates lines against the insurer rail's claim format", async () => {
+    const { previewClaimImport } = await loadClaimImport();
+    const content = [
+      'Patient,Carrier,Date of Service,Procedure Code,Fee',
+      'Sam Lee,Sun Life,2025-03-10,01202,45',
+    ].join('\n');
+
+    const preview = await previewClaimImport({ ...request, content });
+
+    expect(preview.claims[0].errors).toContain('Row 2: Sun Life: patientInfo.memberNumber required');
+    expect(preview.validClaims).toBe(0);
+  });
+
+  it('flags a reference number used by two claims in the same file', async () => {
+    const { previewClaimImport, storage } = await loadClaimImport();
+    const content = [
+      'Visit ID,Patient,DOB,Provider,Carrier,Date of Service,Procedure Code,Fee,Reference',
+      'V1,Jane Doe,1985-04-12,Dr Smith,WSIB,2025-03-10,PT100,80,IMP-9',
+      'V2,Sam Lee,1990-01-01,Dr Smith,WSIB,2025-03-11,PT100,80,IMP-9',
+    ].join('\n');
+
+    const preview = await previewClaimImport({ ...request, content });
+
+    expect(preview.claims.map(claim => claim.errors)).toEqual([
+      [],
+      ['Reference number IMP-9 is used by another claim in this file'],
+    ]);
+    expect(storage.getClaimByReferenceNumber).toHaveBeenCalledTimes(1);
+    expect(storage.getClaimByReferenceNumber).toHaveBeenCalledWith('IMP-9', ORG_ID);
+  });
+
+  it('rejects mappings that leave out required columns', async () => {
+    const { previewClaimImport } = await loadClaimImport();
+
+    await expect(previewClaimImport({ ...request, mapping: { patientName: 'Patient', insurer: 'Carrier' } }))
+      .rejects.toMatchObject({ code: 'INVALID_MAPPING' });
+    await expect(previewClaimImport({ ...request, mapping: { fee: 'Amount' } }))
+      .rejects.toMatchObject({ code: 'INVALID_MAPPING', message: 'Columns not found in the file: Amount' });
+  });
+
+  it('creates draft claims only for the valid claims', async () => {
+    const { commitClaimImport, storage } = await loadClaimImport();
+    storage.getClaimByReferenceNumber.mockImplementation(async (reference: string, orgId?: string) =>
+      reference === 'IMP-2' && orgId === ORG_ID ? { id: 'existing', orgId: ORG_ID } : undefined
+    );
+
+    const { created, skipped } = await commitClaimImport(request);
+
+    expect(created).toHaveLength(1);
+    expect(storage.createClaim).toHaveBeenCalledWith(expect.objectContaining({
+      orgId: ORG_ID,
+      patientId: PATIENT_1,
+      status: 'draft',
+      amount: '1165.50',
+      referenceNumber: 'IMP-1',
+      createdBy: 'user-1',
+    }));
+    expect(storage.replaceClaimLines).toHaveBeenCalledWith('claim-IMP-1', expect.arrayContaining([
+      expect.objectContaining({ procedureCode: '21211', fee: '1120.50', tooth: '16' }),
+    ]));
+    expect(skipped.map(draft => draft.errors[0])).toEqual([
+      'Reference number IMP-2 was already imported',
+      'Row 5: Patient "Nobody Known" not found; add them on the Patients page first',
+    ]);
+  });
+
+  it('reads dates in the formats practice-management exports use', async () => {
+    const { parseImportDate } = await loadClaimImport();
+
+    expect(parseImportDate('2025-03-10')).toEqual(new Date('2025-03-10T00:00:00Z'));
+    expect(parseImportDate('20250310')).toEqual(new Date('2025-03-10T00:00:00Z'));
+    expect(parseImportDate('45726')).toEqual(new Date('2025-03-10T00:00:00Z')); // Excel serial
+    expect(parseImportDate('2025-02-30')).toBeUndefined();
+    expect(parseImportDate('03/10/2025')).toBeUndefined();
+  });
+});
+
+describe('xlsx reader', () => {
+  it('reads shared strings, inline strings and numbers from the first sheet', () => {
+    const workbook = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Visits" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/visits.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Patient</t></si><si><t>Fee</t></si><si><r><t>Jane </t></r><r><t>D&amp;oe</t></r></si></sst>',
+      'xl/worksheets/visits.xml': [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>',
+        '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" t="inlineStr"><is><t>note</t></is></c><c r="C3"><v>45.5</v></c></row>',
+        '</sheetData></worksheet>',
+      ].join(''),
+    });
+
+    expect(parseXlsxRows(workbook)).toEqual([
+      ['Patient', '', 'Fee'],
+      [],
+      ['Jane D&oe', 'note', '45.5'],
+    ]);
+  });
+
+  it('rejects files that are not workbooks', () => {
+    expect(() => parseXlsxRows(Buffer.from('Patient,Fee\nJane,45'))).toThrow('File is not an XLSX workbook');
+  });
+});
+
+// Build a deflated ZIP archive, enough of one for the reader
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(text));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(text.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(text.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { Claim, ClaimLine, Patient, Provider } from '../../shared/schema';
+import { mapClaimToCDAnet, mapReversalToCDAnet } from '../../server/mappers/cdanet';
+import { CDAnetCodecError, decodeCDAnetMessage } from '../../server/mappers/cdanetCodec';
+import { mapClaimToEClaims } from '../../server/mappers/eclaims';
+import { simulateLineAdjudication } from '../../server/sandbox/carrier-sim';
+
+const claim = {
+  id: 'claim-1',
+  insurerId: 'insurer-1',
+  amount: '250.00',
+  currency: 'CAD',
+  codes: [{ code: '01202', description: 'Legacy code' }],
+  createdAt: new Date('2025-03-10T12:00:00Z'),
+} as unknown as Claim;
+
+const patient = {
+  id: 'patient-1',
+  name: 'Jane Doe',
+  dob: new Date('1980-01-01T00:00:00Z'),
+  identifiers: { policyNumber: 'POL1', healthCard: 'HC123', carrierId: '000051' },
+} as unknown as Patient;
+
+const provider = {
+  id: 'provider-1',
+  name: 'Dr Smith',
+  licenceNumber: '123456789',
+} as unknown as Provider;
+
+function buildLine(overrides: Partial<ClaimLine>): ClaimLine {
+  return {
+    id: `line-${overrides.lineNumber}`,
+    claimId: 'claim-1',
+    lineNumber: 1,
+    procedureCode: '01202',
+    description: null,
+    fee: '50.00',
+    units: 1,
+    serviceDate: new Date('2025-03-05T00:00:00Z'),
+    tooth: null,
+    surface: null,
+    modifiers: null,
+    eligibleAmount: null,
+    paidAmount: null,
+    deniedAmount: null,
+    reasonCodes: null,
+    adjudicatedAt: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+const lines = [
+  buildLine({ lineNumber: 1, procedureCode: '21211', fee: '150.00', tooth: '36', surface: 'MO' }),
+  buildLine({ lineNumber: 2, procedureCode: '02111', fee: '50.00', units: 2, serviceDate: new Date('2025-03-01T00:00:00Z') }),
+];
+
+describe('claim line mappers', () => {
+  it('encodes one CDAnet procedure per line with its own fee, tooth and surface', () => {
+    const { transaction, message } = mapClaimToCDAnet(claim, patient, provider, lines, { officeNumber: '0001', officeSequence: 7 });
+    const { values } = decodeCDAnetMessage(message);
+
+    expect(transaction).toBe('claim');
+    expect(values).toMatchObject({ A02: 7, A05: 51, B01: '123456789', C02: 'POL1', C06: 'Doe', C07: 'Jane', D02: 'Doe', F06: 2 });
+    expect(values.procedures).toEqual([
+      expect.objectContaining({ F07: 1, F08: '21211', F09: new Date('2025-03-05T00:00:00Z'), F10: 36, F11: 'MO', F12: 150 }),
+      expect.objectContaining({ F07: 2, F08: '02111', F09: new Date('2025-03-01T00:00:00Z'), F10: 0, F12: 100 }),
+    ]);
+  });
+
+  it('falls back to the legacy codes blob when a claim has no lines', () => {
+    const { message } = mapClaimToCDAnet(claim, patient, provider, [], { officeNumber: '0001' });
+
+    expect(decodeCDAnetMessage(message).values.procedures).toEqual([
+      expect.objectContaining({ F07: 1, F08: '01202', F09: new Date('2025-03-10T00:00:00Z'), F12: 250 }),
+    ]);
+  });
+
+  it('refuses claims CDAnet cannot carry and reverses by transaction reference', () => {
+    const eightLines = Array.from({ length: 8 }, (_, index) => buildLine({ lineNumber: index + 1 }));
+
+    expect(() => mapClaimToCDAnet(claim, patient, provider, eightLines, { officeNumber: '0001' }))
+      .toThrow(CDAnetCodecError);
+
+    const original = { ...claim, externalId: 'ITRANS-SBX-1f2e3d4c-5b6a-4789-8abc-def012345678' } as Claim;
+    const { message } = mapReversalToCDAnet(original, patient, provider, { officeNumber: '0001' });
+
+    expect(decodeCDAnetMessage(message)).toMatchObject({ type: 'reversal', values: { G01: 'bcdef012345678' } });
+  });
+
+  it('maps lines to eClaims service codes and uses the earliest service date', () => {
+    const payload = mapClaimToEClaims(claim, patient, provider, lines);
+
+    expect(payload.serviceInfo.serviceDate).toBe('2025-03-01');
+    expect(payload.serviceInfo.serviceCodes).toEqual([
+      expect.objectContaining({ lineNumber: 1, code: '21211', units: 1, fee: 150, serviceDate: '2025-03-05' }),
+      expect.objectContaining({ lineNumber: 2, code: '02111', units: 2, fee: 50, serviceDate: '2025-03-01' }),
+    ]);
+  });
+
+  it('simulates per-line adjudication for decided claims only', () => {
+    expect(simulateLineAdjudication(lines, { status: 'pending' })).toEqual([]);
+
+    expect(simulateLineAdjudication(lines, { status: 'denied', details: { denialCode: 'NC001' } })).toEqual([
+      { lineNumber: 1, eligibleAmount: 0, paidAmount: 0, deniedAmount: 150, reasonCodes: ['NC001'] },
+      { lineNumber: 2, eligibleAmount: 0, paidAmount: 0, deniedAmount: 100, reasonCodes: ['NC001'] },
+    ]);
+  });
+});
@@ -0,0 +1,206 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadWithStorage, unmockStorage } from '../utils/mockStorage';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+async function loadScrubber(storageOverrides: Record<string, any> = {}) {
+  const storage = {
+    getClaimScrubRules: vi.fn().mockResolvedValue([]),
+    getPatient: vi.fn().mockResolvedValue({ id: 'patient-1', orgId: 'org-1', dob: '1980-01-01', identifiers: { policyNumber: 'P-1', healthCard: '1234' } }),
+    getProvider: vi.fn().mockResolvedValue({ id: 'provider-1', orgId: 'org-1', discipline: 'Dentist', licenceNumber: 'RCDSO-1', licences: [] }),
+    getInsurer: vi.fn().mockResolvedValue({ id: 'ins-1', rail: 'cdanet' }),
+    getPatientServiceHistory: vi.fn().mockResolvedValue([]),
+    ...storageOverrides,
+  };
+
+  return loadWithStorage(() => import('../../server/lib/claimScrubber'), storage);
+}
+
+function draft(overrides: Record<string, any> = {}) {
+  return {
+    orgId: 'org-1',
+    patientId: 'patient-1',
+    providerId: 'provider-1',
+    insurerId: 'ins-1',
+    type: 'claim' as const,
+    amount: 120,
+    lines: [{ lineNumber: 1, procedureCode: '01202', units: 1, serviceDate: NOW }],
+    attachmentCount: 0,
+    ...overrides,
+  };
+}
+
+function context(overrides: Record<string, any> = {}) {
+  return {
+    draft: draft(overrides.draft),
+    patient: { dob: '1980-01-01', identifiers: { policyNumber: 'P-1' } },
+    provider: { discipline: 'Dentist', licenceNumber: 'RCDSO-1', licences: [] },
+    insurer: { id: 'ins-1', rail: 'cdanet' as const },
+    history: [],
+    now: NOW,
+    ...overrides,
+    ...(overrides.draft && { draft: draft(overrides.draft) }),
+  };
+}
+
+function service(overrides: Record<string, any> = {}) {
+  return {
+    claimId: 'claim-old',
+    parentClaimId: null,
+    claimType: 'claim',
+    claimStatus: 'paid',
+    relation: null,
+    insurerId: 'ins-1',
+    procedureCode: '01202',
+    units: 1,
+    serviceDate: new Date('2026-08-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function rule(condition: any, overrides: Record<string, any> = {}) {
+  return { id: 'rule-1', name: 'Test rule', severity: 'error' as const, condition, builtIn: false, ...overrides };
+}
+
+describe('claim scrubbing rules', () => {
+  beforeAll(() => {
+    vi.stubEnv('ENCRYPTION_KEY', 'test-encryption-key-at-least-32-characters');
+  });
+
+  afterEach(() => {
+    unmockStorage();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('matches exact codes and trailing wildcards', async () => {
+    const { codeMatches } = await loadScrubber();
+
+    expect(codeMatches(' 02201 ', ['0220*'])).toBe(true);
+    expect(codeMatches('x092', ['X092'])).toBe(true);
+    expect(codeMatches('02301', ['0220*', '01202'])).toBe(false);
+  });
+
+  it('flags a code already billed for the patient on the same day', async () => {
+    const { evaluateScrubRules } = await loadScrubber();
+    const rules = [rule({ kind: 'duplicate_claim' })];
+
+    const findings = evaluateScrubRules(rules, context({ history: [service({ serviceDate: NOW })] }));
+    expect(findings).toEqual([expect.objectContaining({ ruleId: 'rule-1', severity: 'error', lineNumbers: [1] })]);
+    expect(findings[0].message).toContain('01202 on 2026-10-19');
+
+    // Denied claims, reversals and the claim's own lines don't count
+    expect(evaluateScrubRules(rules, context({ history: [service({ serviceDate: NOW, claimStatus: 'denied' })] }))).toEqual([]);
+    expect(evaluateScrubRules(rules, context({ history: [service({ serviceDate: NOW, relation: 'reversal' })] }))).toEqual([]);
+    expect(evaluateScrubRules(rules, context({ draft: { id: 'claim-old' }, history: [service({ serviceDate: NOW })] }))).toEqual([]);
+  });
+
+  it('counts earlier services and the claim itself towards frequency limits', async () => {
+    const { evaluateScrubRules } = await loadScrubber();
+    const rules = [rule({ kind: 'frequency_limit', codes: ['01202'], maxUnits: 1, perDays: 180 })];
+
+    expect(evaluateScrubRules(rules, context({ history: [service()] }))[0].message)
+      .toBe('01202 is limited to 1 per 180 days; the patient has 2 around 2026-10-19');
+    expect(evaluateScrubRules(rules, context({ history: [service({ serviceDate: new Date('2026-01-01T00:00:00Z') })] }))).toEqual([]);
+    expect(evaluateScrubRules(rules, context({
+      draft: { lines: [
+        { lineNumber: 1, procedureCode: '01202', units: 1, serviceDate: NOW },
+        { lineNumber: 2, procedureCode: '01202', units: 1, serviceDate: NOW },
+      ] },
+    }))).toHaveLength(1);
+  });
+
+  it('requires a pre-authorization with the same insurer', async () => {
+    const { evaluateScrubRules } = await loadScrubber();
+    const rules = [rule({ kind: 'preauth_required', codes: ['X092'] })];
+    const mri = { draft: { lines: [{ lineNumber: 1, procedureCode: 'X092', units: 1, serviceDate: NOW }] } };
+
+    expect(evaluateScrubRules(rules, context(mri))[0].message).toContain('X092 (MRI scan) needs a pre-authorization');
+    expect(evaluateScrubRules(rules, context({ ...mri, history: [service({ claimType: 'preauth', claimStatus: 'submitted', procedureCode: 'X092' })] }))).toEqual([]);
+    expect(evaluateScrubRules(rules, context({ ...mri, history: [service({ claimType: 'preauth', claimStatus: 'submitted', procedureCode: 'X092', insurerId: 'ins-2' })] }))).toHaveLength(1);
+  });
+
+  it('reports missing identifiers by name, accepting legacy keys', async () => {
+    const { evaluateScrubRules } = await loadScrubber();
+    const rules = [rule({ kind: 'identifier_required', fields: ['dob', 'licence', 'policyNumber', 'healthCard'] })];
+
+    expect(evaluateScrubRules(rules, context({
+      patient: { dob: null, identifiers: { ohip: '1234' } },
+      provider: { discipline: 'Dentist', licenceNumber: null, licences: [] },
+    }))[0].message).toBe("Missing patient's date of birth, provider's licence number, policy number");
+    expect(evaluateScrubRules(rules, context({
+      patient: { dob: '1980-01-01', identifiers: { policyNumber: 'P-1', healthCard: '1234' } },
+      provider: { discipline: 'Dentist', licenceNumber: null, licences: [{ discipline: 'Dentist', number: 'RCDSO-2' }] },
+    }))).toEqual([]);
+  });
+
+  it('checks the provider discipline and attachment count for matching codes', async () => {
+    const { evaluateScrubRules } = await loadScrubber();
+    const rules = [
+      rule({ kind: 'code_discipline', codes: ['0*'], disciplines: ['dent', 'hygien'] }, { id: 'discipline' }),
+      rule({ kind: 'attachment_required', codes: ['27*'], minCount: 1 }, { id: 'attachments' }),
+    ];
+
+    expect(evaluateScrubRules(rules, context({ provider: { discipline: 'Dental Hygienist', licenceNumber: 'X', licences: [] } }))).toEqual([]);
+    expect(evaluateScrubRules(rules, context({ provider: { discipline: 'Physiotherapist', licenceNumber: 'X', licences: [] } }))[0].message)
+      .toBe('01202 cannot be billed by a Physiotherapist provider');
+
+    const crown = { lines: [{ lineNumber: 1, procedureCode: '27211', units: 1, serviceDate: NOW }] };
+    expect(evaluateScrubRules(rules, context({ draft: crown })).map(finding => finding.ruleId)).toEqual(['attachments']);
+    expect(evaluateScrubRules(rules, context({ draft: { ...crown, attachmentCount: 1 } }))).toEqual([]);
+  });
+
+  it('applies scoped rules only to matching rails, insurers and claim types', async () => {
+    const { evaluateScrubRules } = await loadScrubber();
+    const overLimit = { kind: 'max_amount', amount: 100 };
+
+    expect(evaluateScrubRules([rule(overLimit, { scope: { rails: ['telusEclaims'] } })], context())).toEqual([]);
+    expect(evaluateScrubRules([rule(overLimit, { scope: { insurerIds: ['ins-2'] } })], context())).toEqual([]);
+    expect(evaluateScrubRules([rule(overLimit, { scope: { claimTypes: ['preauth'] } })], context())).toEqual([]);
+    expect(evaluateScrubRules([rule(overLimit, { scope: { rails: ['cdanet'], claimTypes: ['claim'] } })], context())).toHaveLength(1);
+  });
+
+  it('uses the rule message when set and lists errors first', async () => {
+    const { evaluateScrubRules } = await loadScrubber();
+    const findings = evaluateScrubRules([
+      rule({ kind: 'max_amount', amount: 50 }, { id: 'info', severity: 'info', message: 'Large claim' }),
+      rule({ kind: 'max_amount', amount: 100 }, { id: 'warning', severity: 'warning' }),
+      rule({ kind: 'duplicate_claim' }, { id: 'error' }),
+    ], context({ history: [service({ serviceDate: NOW })] }));
+
+    expect(findings.map(finding => finding.ruleId)).toEqual(['error', 'warning', 'info']);
+    expect(findings[1].message).toBe('Claim total $120.00 is over $100.00');
+    expect(findings[2].message).toBe('Large claim');
+  });
+
+  it('scrubs a draft with the built-in and enabled organization rules', async () => {
+    const { scrubClaim, storage } = await loadScrubber({
+      getClaimScrubRules: vi.fn().mockResolvedValue([
+        { id: 'org-rule', name: 'No 01202', severity: 'error', condition: { kind: 'code_discipline', codes: ['01202'], disciplines: ['hygienist'] }, scope: null, message: null, enabled: true },
+        { id: 'disabled', name: 'Off', severity: 'error', condition: { kind: 'max_amount', amount: 1 }, scope: null, message: null, enabled: false },
+      ]),
+    });
+
+    const result = await scrubClaim(draft(), NOW);
+    expect(result).toEqual(expect.objectContaining({ errors: 1, canSubmit: false }));
+    expect(result.findings.map(finding => finding.ruleId)).toEqual(['org-rule']);
+    expect(storage.getPatientServiceHistory).toHaveBeenCalledWith('patient-1', new Date(NOW.getTime() - 1095 * 24 * 60 * 60 * 1000));
+  });
+
+  it("ignores another organization's patient and provider", async () => {
+    const { scrubClaim, storage } = await loadScrubber({
+      getPatient: vi.fn().mockResolvedValue({ id: 'patient-1', orgId: 'org-2', dob: '1980-01-01', identifiers: { policyNumber: 'P-1' } }),
+      getProvider: vi.fn().mockResolvedValue({ id: 'provider-1', orgId: 'org-2', discipline: 'Dentist', licenceNumber: 'RCDSO-1', licences: [] }),
+    });
+
+    const result = await scrubClaim(draft(), NOW);
+    expect(storage.getPatientServiceHistory).not.toHaveBeenCalled();
+    expect(result.canSubmit).toBe(false);
+    expect(result.findings.map(finding => finding.ruleId)).toEqual(expect.arrayContaining([
+      'builtin:patient-provider-identifiers',
+      'builtin:cdanet-policy',
+    ]));
+  });
+});
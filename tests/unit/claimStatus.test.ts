@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadWithStorage, unmockStorage } from '../utils/mockStorage';
+
+async function loadStateMachine(claim: Record<string, any> | undefined, updateResult: unknown = { id: 'claim-1' }) {
+  const storage = {
+    getClaim: vi.fn().mockResolvedValue(claim),
+    updateClaim: vi.fn().mockImplementation(async (id: string, updates: any) => ({ ...claim, id, ...updates })),
+    updateClaimStatus: vi.fn().mockResolvedValue(updateResult),
+  };
+
+  return loadWithStorage(() => import('../../server/lib/claimStatus'), storage);
+}
+
+describe('claim status state machine', () => {
+  afterEach(() => {
+    unmockStorage();
+  });
+
+  it('allows the normal submission path and appeals, but only a reversal after payment', async () => {
+    const { canTransition } = await loadStateMachine(undefined);
+
+    expect(canTransition('draft', 'submitted')).toBe(true);
+    expect(canTransition('submitted', 'paid')).toBe(true);
+    expect(canTransition('denied', 'submitted')).toBe(true);
+    expect(canTransition('draft', 'paid')).toBe(false);
+    expect(canTransition('paid', 'denied')).toBe(false);
+    expect(canTransition('paid', 'reversed')).toBe(true);
+    expect(canTransition('reversed', 'submitted')).toBe(false);
+    expect(canTransition('submitted', 'draft')).toBe(false);
+  });
+
+  it('only lets users record appeals and replies, never insurer decisions', async () => {
+    const { canUserTransition } = await loadStateMachine(undefined);
+
+    expect(canUserTransition('denied', 'pending')).toBe(true);
+    expect(canUserTransition('infoRequested', 'pending')).toBe(true);
+    expect(canUserTransition('submitted', 'paid')).toBe(false);
+    expect(canUserTransition('pending', 'denied')).toBe(false);
+    expect(canUserTransition('draft', 'submitted')).toBe(false);
+    expect(canUserTransition('paid', 'paid')).toBe(true);
+  });
+
+  it('writes legal transitions with their actor, source and reason', async () => {
+    const { transitionClaimStatus, storage } = await loadStateMachine({ id: 'claim-1', status: 'submitted' });
+
+    await transitionClaimStatus('claim-1', 'paid', {
+      source: 'remittance',
+      actorUserId: 'user-1',
+      reason: 'EOB line 3',
+    });
+
+    expect(storage.updateClaimStatus).toHaveBeenCalledWith('claim-1', {
+      fromStatus: 'submitted',
+      toStatus: 'paid',
+      actorUserId: 'user-1',
+      source: 'remittance',
+      reason: 'EOB line 3',
+      updates: undefined,
+    });
+  });
+
+  it('rejects illegal moves with a typed error', async () => {
+    const { transitionClaimStatus, ClaimTransitionError, storage } = await loadStateMachine({ id: 'claim-1', status: 'paid' });
+
+    const attempt = transitionClaimStatus('claim-1', 'pending', { source: 'user' });
+
+    await expect(attempt).rejects.toBeInstanceOf(ClaimTransitionError);
+    await expect(attempt).rejects.toMatchObject({ code: 'ILLEGAL_TRANSITION', from: 'paid', to: 'pending' });
+    expect(storage.updateClaimStatus).not.toHaveBeenCalled();
+  });
+
+  it('reports a concurrent status change', async () => {
+    const { transitionClaimStatus } = await loadStateMachine({ id: 'claim-1', status: 'pending' }, null);
+
+    await expect(transitionClaimStatus('claim-1', 'paid', { source: 'scheduler' }))
+      .rejects.toMatchObject({ code: 'CONCURRENT_UPDATE' });
+  });
+
+  it('applies field updates without a history entry when the status is unchanged', async () => {
+    const { transitionClaimStatus, storage } = await loadStateMachine({ id: 'claim-1', status: 'submitted' });
+
+    await transitionClaimStatus('claim-1', 'submitted', { source: 'connector', updates: { externalId: 'EXT-2' } });
+
+    expect(storage.updateClaim).toHaveBeenCalledWith('claim-1', { externalId: 'EXT-2' });
+    expect(storage.updateClaimStatus).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadWithStorage, unmockStorage } from '../utils/mockStorage';
+
+let contactSearchHash: typeof import('../../server/security/encryption').contactSearchHash;
+
+async function loadDirectory(records: Array<Record<string, any>>) {
+  const storage = {
+    findPatientsByContact: vi.fn().mockResolvedValue(records),
+    findProvidersByContact: vi.fn().mockResolvedValue(records),
+  };
+
+  return loadWithStorage(() => import('../../server/lib/directory'), storage);
+}
+
+describe('patient and provider directory', () => {
+  beforeAll(async () => {
+    vi.stubEnv('ENCRYPTION_KEY', 'test-encryption-key-at-least-32-characters');
+    ({ contactSearchHash } = await import('../../server/security/encryption'));
+  });
+
+  afterEach(() => {
+    unmockStorage();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('normalises contact details before hashing', () => {
+    expect(contactSearchHash('email', ' Jane.Doe@Example.com ')).toBe(contactSearchHash('email', 'jane.doe@example.com'));
+    expect(contactSearchHash('phone', '+1 (416) 555-0100')).toBe(contactSearchHash('phone', '416.555.0100'));
+    expect(contactSearchHash('phone', '416-555-0100')).not.toBe(contactSearchHash('phone', '416-555-0101'));
+    expect(contactSearchHash('email', 'jane.doe@example.com')).not.toContain('jane');
+    expect(contactSearchHash('phone', '')).toBeNull();
+    expect(contactSearchHash('phone', 'n/a')).toBeNull();
+  });
+
+  it('reports which contact details matched and skips the record being edited', async () => {
+    const records = [
+      { id: 'patient-1', name: 'Jane Doe', email_hash: contactSearchHash('email', 'jane@example.com'), phone_hash: contactSearchHash('phone', '4165550100'), archivedAt: null },
+      { id: 'patient-2', name: 'J. Doe', email_hash: null, phone_hash: contactSearchHash('phone', '4165550100'), archivedAt: new Date() },
+      { id: 'patient-3', name: 'Jane Doe', email_hash: contactSearchHash('email', 'jane@example.com'), phone_hash: null, archivedAt: null },
+    ];
+    const { findDuplicatePatients, storage } = await loadDirectory(records);
+    const contact = { email: 'JANE@example.com', phone: '(416) 555-0100' };
+
+    const duplicates = await findDuplicatePatients('org-1', contact, 'patient-3');
+
+    expect(storage.findPatientsByContact).toHaveBeenCalledWith('org-1', contact);
+    expect(duplicates).toEqual([
+      { id: 'patient-1', name: 'Jane Doe', matchedOn: ['email', 'phone'], archived: false },
+      { id: 'patient-2', name: 'J. Doe', matchedOn: ['phone'], archived: true },
+    ]);
+  });
+
+  it('picks the licence for the provider discipline to send on claims', async () => {
+    const { primaryLicenceNumber } = await loadDirectory([]);
+    const licences = [
+      { discipline: 'physiotherapy', number: 'PT-1234', province: 'ON' },
+      { discipline: 'Massage Therapy', number: 'RMT-987' },
+    ];
+
+    expect(primaryLicenceNumber('massage therapy', licences)).toBe('RMT-987');
+    expect(primaryLicenceNumber('chiropractic', licences)).toBe('PT-1234');
+    expect(primaryLicenceNumber(null, licences)).toBe('PT-1234');
+    expect(primaryLicenceNumber('physiotherapy', [])).toBeNull();
+  });
+});
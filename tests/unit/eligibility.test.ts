@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { simulateEligibilityResponse } from '../../server/sandbox/carrier-sim';
+
+async function loadEligibility(options: { rail?: string; latest?: Record<string, any> } = {}) {
+  vi.resetModules();
+
+  const storage = {
+    getPatient: vi.fn().mockResolvedValue({ id: 'patient-1', orgId: 'org-1', name: 'Jane Doe' }),
+    getProvider: vi.fn().mockResolvedValue({ id: 'provider-1', orgId: 'org-1', name: 'Dr Smith' }),
+    getInsurer: vi.fn().mockResolvedValue({ id: 'ins-1', name: 'Sun Life', rail: options.rail ?? 'cdanet' }),
+    getLatestEligibilityCheck: vi.fn().mockResolvedValue(options.latest),
+    createEligibilityCheck: vi.fn(async (data: any) => ({ ...data, id: 'check-1' })),
+  };
+  const connector = {
+    checkEligibility: vi.fn().mockResolvedValue({ status: 'eligible', coverage: [{ category: 'basic', coveragePercent: 80 }] }),
+  };
+  const getConnector = vi.fn().mockResolvedValue(connector);
+
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/connectors/base', () => ({ getConnector }));
+
+  const module = await import('../../server/lib/eligibility');
+  return { ...module, storage, connector, getConnector };
+}
+
+const request = {
+  orgId: 'org-1',
+  patientId: 'patient-1',
+  insurerId: 'ins-1',
+  providerId: 'provider-1',
+  serviceDate: new Date('2025-03-10T15:30:00Z'),
+  actorUserId: 'user-1',
+};
+
+describe('eligibility checks', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/connectors/base');
+  });
+
+  it('asks the insurer and caches the answer for the date of service', async () => {
+    const { checkEligibility, storage, connector, getConnector } = await loadEligibility({ rail: 'telusEclaims' });
+
+    const { check, cached } = await checkEligibility(request);
+
+    expect(cached).toBe(false);
+    expect(getConnector).toHaveBeenCalledWith('eclaims', 'org-1');
+    expect(connector.checkEligibility).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'patient-1' }),
+      expect.objectContaining({ id: 'provider-1' }),
+      new Date('2025-03-10T00:00:00Z')
+    );
+    expect(check).toMatchObject({ status: 'eligible', serviceDate: new Date('2025-03-10T00:00:00Z'), checkedBy: 'user-1' });
+    expect(storage.createEligibilityCheck.mock.calls[0][0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('reuses a fresh check for the same day unless a refresh is requested', async () => {
+    const latest = {
+      id: 'check-0',
+      status: 'ineligible',
+      serviceDate: new Date('2025-03-10T00:00:00Z'),
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+    const { checkEligibility, connector } = await loadEligibility({ latest });
+
+    await expect(checkEligibility(request)).resolves.toEqual({ check: latest, cached: true });
+    expect(connector.checkEligibility).not.toHaveBeenCalled();
+
+    await expect(checkEligibility({ ...request, serviceDate: new Date('2025-03-11T00:00:00Z') }))
+      .resolves.toMatchObject({ cached: false });
+    await expect(checkEligibility({ ...request, refresh: true })).resolves.toMatchObject({ cached: false });
+    expect(connector.checkEligibility).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores expired checks and refuses portal insurers', async () => {
+    const expired = { id: 'check-0', serviceDate: new Date('2025-03-10T00:00:00Z'), expiresAt: new Date(Date.now() - 1) };
+    const { checkEligibility, connector } = await loadEligibility({ latest: expired });
+    await expect(checkEligibility(request)).resolves.toMatchObject({ cached: false });
+    expect(connector.checkEligibility).toHaveBeenCalledTimes(1);
+
+    const portal = await loadEligibility({ rail: 'portal' });
+    await expect(portal.checkEligibility(request)).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+  });
+
+  it('simulates deterministic coverage answers in the sandbox', () => {
+    const serviceDate = new Date('2025-03-10T00:00:00Z');
+
+    expect(simulateEligibilityResponse('CERT-1001', serviceDate)).toMatchObject({
+      status: 'eligible',
+      coverage: expect.arrayContaining([expect.objectContaining({ category: 'basic', coveragePercent: 80 })]),
+    });
+    expect(simulateEligibilityResponse('CERT-1099', serviceDate).status).toBe('ineligible');
+    expect(simulateEligibilityResponse('CERT-1013', serviceDate).status).toBe('unknown');
+  });
+});
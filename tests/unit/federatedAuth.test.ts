@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadWithStorage, unmockStorage } from '../utils/mockStorage';
+
+const provider = {
+  id: 'idp-north',
+  orgId: 'org-north',
+  slug: 'north',
+  protocol: 'oidc',
+  enabled: true,
+  issuer: 'https://login.north.example',
+  roleClaim: 'groups',
+  roleMapping: { 'medlink-admins': 'admin', 'medlink-billing': 'billing', 'front-desk': 'reception' },
+  defaultRole: 'provider',
+  orgClaim: null as string | null,
+  jitProvisioning: true,
+};
+
+const organizations: Record<string, string> = {
+  'north-main': 'org-north',
+  'north-east': 'org-north-east',
+  'other-clinic': 'org-other',
+};
+
+function profile(claims: Record<string, unknown> = {}) {
+  return {
+    subject: 'idp-subject-1',
+    email: 'sam@north.example',
+    emailVerified: true,
+    firstName: 'Sam',
+    lastName: 'Lee',
+    claims: { sub: 'idp-subject-1', ...claims },
+  };
+}
+
+async function loadFederatedAuth(existing: { identity?: any; user?: any } = {}) {
+  const storage = {
+    getRoleByKey: vi.fn(async (orgId: string, key: string) =>
+      orgId === 'org-north' && key === 'reception' ? { key, orgId, permissions: ['appointments:manage'] } : undefined),
+    getOrganizationByExternalId: vi.fn(async (externalId: string) =>
+      organizations[externalId] ? { id: organizations[externalId], externalId } : undefined),
+    // org-north-east registered the same IdP, org-other did not
+    getIdentityProvidersByIssuer: vi.fn().mockResolvedValue([
+      provider,
+      { ...provider, id: 'idp-north-east', orgId: 'org-north-east', slug: 'north-east' },
+    ]),
+    getFederatedIdentity: vi.fn().mockResolvedValue(existing.identity),
+    touchFederatedIdentity: vi.fn(),
+    createFederatedIdentity: vi.fn(async (identity: any) => ({ id: 'fed-1', ...identity })),
+    getUser: vi.fn().mockResolvedValue(existing.user),
+    getUserByEmail: vi.fn().mockResolvedValue(existing.user),
+    createUser: vi.fn(async (user: any) => ({ id: 'user-new', ...user })),
+    updateUser: vi.fn(async (id: string, updates: any) => ({ ...existing.user, id, ...updates })),
+    getMemberships: vi.fn().mockResolvedValue([]),
+    getMembership: vi.fn().mockResolvedValue(undefined),
+    createMembership: vi.fn(),
+    updateMembership: vi.fn(),
+  };
+  vi.doMock('../../server/security/mfa-auth', () => ({
+    shouldRequireMFA: vi.fn().mockResolvedValue(false),
+    generateTempToken: vi.fn().mockReturnValue('temp-token'),
+  }));
+
+  return loadWithStorage(() => import('../../server/federatedAuth'), storage);
+}
+
+describe('federated sign-in', () => {
+  afterEach(() => {
+    unmockStorage();
+    vi.doUnmock('../../server/security/mfa-auth');
+  });
+
+  it('reads group claims sent as lists or comma-separated strings', async () => {
+    const { claimValues } = await loadFederatedAuth();
+
+    expect(claimValues({ groups: ['a', 'b'] }, 'groups')).toEqual(['a', 'b']);
+    expect(claimValues({ groups: 'a, b' }, 'groups')).toEqual(['a', 'b']);
+    expect(claimValues({ groups: 'a' }, null)).toEqual([]);
+  });
+
+  it('maps IdP groups to roles, first mapping entry first', async () => {
+    const { resolveRole } = await loadFederatedAuth();
+
+    expect(await resolveRole(provider as any, profile({ groups: ['medlink-billing', 'medlink-admins'] }), 'org-north')).toBe('admin');
+    expect(await resolveRole(provider as any, profile({ groups: ['front-desk'] }), 'org-north')).toBe('reception');
+    // the custom role only exists in org-north
+    expect(await resolveRole(provider as any, profile({ groups: ['front-desk'] }), 'org-north-east')).toBe('provider');
+    expect(await resolveRole({ ...provider, roleMapping: null } as any, profile({ groups: ['medlink-admins'] }), 'org-north')).toBeNull();
+  });
+
+  it('only trusts claimed organizations that registered the same issuer', async () => {
+    const { resolveOrganizations } = await loadFederatedAuth();
+    const groupProvider = { ...provider, orgClaim: 'clinics' } as any;
+
+    expect(await resolveOrganizations(provider as any, profile({ clinics: ['other-clinic'] }))).toEqual(['org-north']);
+    expect(await resolveOrganizations(groupProvider, profile({ clinics: ['north-east', 'other-clinic', 'north-main'] })))
+      .toEqual(['org-north', 'org-north-east']);
+    await expect(resolveOrganizations(groupProvider, profile({ clinics: ['other-clinic'] })))
+      .rejects.toMatchObject({ code: 'NOT_PROVISIONED' });
+  });
+
+  it('creates new users just in time with their memberships', async () => {
+    const { provisionFederatedUser, storage } = await loadFederatedAuth();
+
+    const user = await provisionFederatedUser(
+      { ...provider, orgClaim: 'clinics' } as any,
+      profile({ groups: ['medlink-billing'], clinics: ['north-main', 'north-east'] }),
+    );
+
+    expect(user).toMatchObject({ id: 'user-new', orgId: 'org-north', role: 'billing', email: 'sam@north.example' });
+    expect(storage.createFederatedIdentity).toHaveBeenCalledWith(expect.objectContaining({
+      providerId: 'idp-north', subject: 'idp-subject-1', userId: 'user-new',
+    }));
+    expect(storage.createMembership).toHaveBeenCalledWith({ userId: 'user-new', orgId: 'org-north-east', role: 'billing' });
+  });
+
+  it('refuses to create accounts when just-in-time provisioning is off', async () => {
+    const { provisionFederatedUser, storage } = await loadFederatedAuth();
+
+    await expect(provisionFederatedUser({ ...provider, jitProvisioning: false } as any, profile()))
+      .rejects.toMatchObject({ code: 'NOT_PROVISIONED' });
+    expect(storage.createUser).not.toHaveBeenCalled();
+  });
+
+  it('does not link an email that belongs to another organization', async () => {
+    const stranger = { id: 'user-other', orgId: 'org-other', role: 'admin', email: 'sam@north.example' };
+    const { provisionFederatedUser, storage } = await loadFederatedAuth({ user: stranger });
+    storage.getUser.mockResolvedValue(undefined);
+
+    await expect(provisionFederatedUser(provider as any, profile())).rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(storage.createFederatedIdentity).not.toHaveBeenCalled();
+  });
+
+  it('only links an existing account when the IdP verified the email', async () => {
+    const sam = { id: 'user-sam', orgId: 'org-north', role: 'provider', email: 'sam@north.example' };
+    const { provisionFederatedUser, storage } = await loadFederatedAuth({ user: sam });
+    storage.getUser.mockResolvedValue(undefined);
+
+    await expect(provisionFederatedUser(provider as any, { ...profile(), emailVerified: false }))
+      .rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(storage.createFederatedIdentity).not.toHaveBeenCalled();
+
+    await expect(provisionFederatedUser(provider as any, profile())).resolves.toMatchObject({ id: 'user-sam' });
+    expect(storage.createFederatedIdentity).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-sam' }));
+  });
+
+  it('keeps returning users on their linked account and syncs their role', async () => {
+    const sam = { id: 'user-sam', orgId: 'org-north', role: 'provider', email: 'old@north.example' };
+    const { provisionFederatedUser, storage } = await loadFederatedAuth({ identity: { id: 'fed-1', userId: 'user-sam' }, user: sam });
+
+    const user = await provisionFederatedUser(provider as any, profile({ groups: ['medlink-admins'] }));
+
+    expect(user).toMatchObject({ id: 'user-sam', role: 'admin' });
+    expect(storage.touchFederatedIdentity).toHaveBeenCalledWith('fed-1');
+    expect(storage.getUserByEmail).not.toHaveBeenCalled();
+    expect(storage.createUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,287 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+function buildJob(overrides: Record<string, any> = {}) {
+  return {
+    id: 'job-1',
+    orgId: 'org-1',
+    claimId: 'claim-1',
+    type: 'submit',
+    connector: 'cdanet',
+    status: 'running',
+    payload: null,
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: new Date(),
+    lockedBy: 'worker',
+    lockedAt: new Date(),
+    lastError: null,
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function loadQueue(
+  leased: any[],
+  connector: (errors: typeof import('../../server/lib/errors')) => Record<string, any>,
+  insurer: Record<string, any> = { id: 'insurer-1', submissionsPerMinute: null },
+) {
+  vi.resetModules();
+  const errors = await import('../../server/lib/errors');
+
+  const storage = {
+    claimDueJobs: vi.fn().mockResolvedValueOnce(leased).mockResolvedValue([]),
+    getClaim: vi.fn().mockResolvedValue({
+      id: 'claim-1',
+      orgId: 'org-1',
+      insurerId: 'insurer-1',
+      status: 'submitted',
+      externalId: 'EXT-1',
+    }),
+    updateClaim: vi.fn().mockImplementation(async (id: string, updates: any) => ({ id, ...updates })),
+    updateClaimStatus: vi.fn().mockImplementation(async (id: string, change: any) => ({ id, status: change.toStatus })),
+    applyClaimLineAdjudication: vi.fn(),
+    updateJob: vi.fn(),
+    findQueuedJob: vi.fn().mockResolvedValue(undefined),
+    createJob: vi.fn().mockImplementation(async (job: any) => ({ id: 'job-next', ...job })),
+    createRemittance: vi.fn(),
+    getInsurer: vi.fn().mockResolvedValue(insurer),
+    getAttachments: vi.fn().mockResolvedValue([]),
+    getConnectorEvents: vi.fn().mockResolvedValue([]),
+  };
+
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/connectors/base', () => ({
+    getConnector: vi.fn().mockResolvedValue({
+      attachmentCapabilities: { delivery: 'afterClaim', maxBytes: 5 * 1024 * 1024, maxCount: 10, mimeTypes: ['application/pdf'] },
+      ...connector(errors),
+    }),
+  }));
+
+  const { jobQueue } = await import('../../server/lib/jobs');
+  return { jobQueue, storage };
+}
+
+describe('jobQueue.runDueJobs', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/connectors/base');
+  });
+
+  it('marks a submitted job succeeded and schedules a status poll', async () => {
+    const { jobQueue, storage } = await loadQueue([buildJob()], () => ({
+      submitClaim: vi.fn().mockResolvedValue({ status: 'submitted', externalId: 'EXT-9' }),
+    }));
+
+    await expect(jobQueue.runDueJobs()).resolves.toBe(1);
+
+    // Already submitted, so only the external id changes
+    expect(storage.updateClaim).toHaveBeenCalledWith('claim-1', { externalId: 'EXT-9' });
+    expect(storage.updateClaimStatus).not.toHaveBeenCalled();
+    expect(storage.createJob).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'poll-status',
+      payload: { externalId: 'EXT-9', pollCount: 1 },
+    }));
+    expect(storage.updateJob).toHaveBeenCalledWith('job-1', expect.objectContaining({ status: 'succeeded' }));
+  });
+
+  it('never resubmits an accepted claim when the follow-up steps fail', async () => {
+    const submitClaim = vi.fn().mockResolvedValue({ status: 'submitted', externalId: 'EXT-9' });
+    const { jobQueue, storage } = await loadQueue([buildJob()], () => ({ submitClaim }));
+    storage.updateClaim.mockRejectedValueOnce(new Error('connection reset'));
+    storage.createJob.mockRejectedValueOnce(new Error('connection reset'));
+
+    await jobQueue.runDueJobs();
+
+    expect(submitClaim).toHaveBeenCalledTimes(1);
+    expect(storage.updateJob).toHaveBeenCalledTimes(1);
+    expect(storage.updateJob).toHaveBeenCalledWith('job-1', expect.objectContaining({ status: 'succeeded' }));
+    // The external id is saved on the second try
+    expect(storage.updateClaim).toHaveBeenLastCalledWith('claim-1', { externalId: 'EXT-9' });
+  });
+
+  it('sends a queued resubmission as a correction of the claim it amends', async () => {
+    const submitClaim = vi.fn();
+    const resubmitClaim = vi.fn().mockResolvedValue({ status: 'submitted', externalId: 'EXT-2' });
+    const { jobQueue, storage } = await loadQueue(
+      [buildJob({ claimId: 'claim-2', payload: { reason: 'Resubmission of claim REF-1' } })],
+      () => ({ submitClaim, resubmitClaim }),
+    );
+    const original = { id: 'claim-1', orgId: 'org-1', insurerId: 'insurer-1', status: 'denied' };
+    const child = { id: 'claim-2', orgId: 'org-1', insurerId: 'insurer-1', status: 'draft', parentClaimId: 'claim-1', relation: 'resubmission' };
+    storage.getClaim.mockImplementation(async (id: string) => (id === 'claim-1' ? original : child));
+
+    await jobQueue.runDueJobs();
+
+    expect(submitClaim).not.toHaveBeenCalled();
+    expect(resubmitClaim).toHaveBeenCalledWith(original, child);
+    expect(storage.updateClaimStatus).toHaveBeenCalledWith('claim-2', expect.objectContaining({
+      toStatus: 'submitted',
+      reason: 'Resubmission of claim REF-1',
+      updates: { externalId: 'EXT-2' },
+    }));
+  });
+
+  it('returns the job that won a race to enqueue the same work', async () => {
+    const { jobQueue, storage } = await loadQueue([], () => ({}));
+    storage.createJob.mockResolvedValueOnce(undefined);
+    storage.findQueuedJob.mockResolvedValueOnce(undefined).mockResolvedValueOnce(buildJob({ id: 'job-other', status: 'queued' }));
+
+    await expect(jobQueue.enqueue({ type: 'submit', claimId: 'claim-1', connector: 'cdanet' })).resolves.toBe('job-other');
+  });
+
+  it('cancels a failed job when the claim already has the same job queued', async () => {
+    const { jobQueue, storage } = await loadQueue([buildJob()], ({ ConnectorError }) => ({
+      submitClaim: vi.fn().mockRejectedValue(new ConnectorError('TIMEOUT', 'gateway timed out')),
+    }));
+    storage.updateJob.mockRejectedValueOnce(Object.assign(new Error('duplicate key value'), { code: '23505' }));
+
+    await jobQueue.runDueJobs();
+
+    expect(storage.updateJob).toHaveBeenLastCalledWith('job-1', expect.objectContaining({ status: 'cancelled' }));
+  });
+
+  it('requeues retriable failures with a backoff', async () => {
+    const { jobQueue, storage } = await loadQueue([buildJob()], ({ ConnectorError }) => ({
+      submitClaim: vi.fn().mockRejectedValue(new ConnectorError('TIMEOUT', 'gateway timed out')),
+    }));
+
+    await jobQueue.runDueJobs();
+
+    const [, update] = storage.updateJob.mock.calls[0];
+    expect(update.status).toBe('queued');
+    expect(update.lastError).toBe('gateway timed out');
+    expect(update.runAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('dead-letters non-retriable failures and exhausted jobs', async () => {
+    const { jobQueue, storage } = await loadQueue(
+      [buildJob(), buildJob({ id: 'job-2', attempts: 3 })],
+      ({ ConnectorError }) => ({
+        submitClaim: vi.fn()
+          .mockRejectedValueOnce(new ConnectorError('PAYER_REJECT', 'invalid member id'))
+          .mockRejectedValueOnce(new ConnectorError('TIMEOUT', 'gateway timed out')),
+      }),
+    );
+
+    await jobQueue.runDueJobs();
+
+    expect(storage.updateJob).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'dead',
+      lastError: 'invalid member id',
+    }));
+    expect(storage.updateJob).toHaveBeenCalledWith('job-2', expect.objectContaining({
+      status: 'dead',
+      lastError: 'gateway timed out',
+    }));
+  });
+
+  it('dead-letters a submission the insurer rejected without touching the claim', async () => {
+    const { jobQueue, storage } = await loadQueue([buildJob()], () => ({
+      submitClaim: vi.fn().mockResolvedValue({ status: 'error', externalId: '', message: 'Invalid certificate number' }),
+    }));
+
+    await jobQueue.runDueJobs();
+
+    expect(storage.updateJob).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'dead',
+      lastError: 'Invalid certificate number',
+    }));
+    expect(storage.updateJob).not.toHaveBeenCalledWith('job-1', expect.objectContaining({ status: 'succeeded' }));
+    expect(storage.updateClaim).not.toHaveBeenCalled();
+    expect(storage.updateClaimStatus).not.toHaveBeenCalled();
+  });
+
+  it('records a submission accepted without a reference but does not poll it', async () => {
+    const { jobQueue, storage } = await loadQueue([buildJob()], () => ({
+      submitClaim: vi.fn().mockResolvedValue({ status: 'submitted', externalId: '' }),
+    }));
+    storage.getClaim.mockResolvedValue({ id: 'claim-1', orgId: 'org-1', insurerId: 'insurer-1', status: 'draft', externalId: null });
+
+    await jobQueue.runDueJobs();
+
+    expect(storage.updateJob).toHaveBeenCalledWith('job-1', expect.objectContaining({ status: 'succeeded' }));
+    expect(storage.updateClaimStatus).toHaveBeenCalledWith('claim-1', expect.objectContaining({
+      fromStatus: 'draft',
+      toStatus: 'submitted',
+      updates: undefined,
+    }));
+    expect(storage.createJob).not.toHaveBeenCalled();
+  });
+
+  it('records polled decisions through the status state machine', async () => {
+    const { jobQueue, storage } = await loadQueue(
+      [buildJob({ type: 'poll-status', payload: { externalId: 'EXT-1', pollCount: 1 } })],
+      () => ({ pollStatus: vi.fn().mockResolvedValue({ status: 'denied' }) }),
+    );
+
+    await jobQueue.runDueJobs();
+
+    expect(storage.updateClaimStatus).toHaveBeenCalledWith('claim-1', expect.objectContaining({
+      fromStatus: 'submitted',
+      toStatus: 'denied',
+      source: 'scheduler',
+    }));
+    expect(storage.updateJob).toHaveBeenCalledWith('job-1', expect.objectContaining({ status: 'succeeded' }));
+  });
+
+  it('keeps polling while the claim is pending', async () => {
+    const { jobQueue, storage } = await loadQueue(
+      [buildJob({ type: 'poll-status', payload: { externalId: 'EXT-1', pollCount: 2 } })],
+      () => ({ pollStatus: vi.fn().mockResolvedValue({ status: 'pending' }) }),
+    );
+
+    await jobQueue.runDueJobs();
+
+    expect(storage.createJob).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'poll-status',
+      payload: { externalId: 'EXT-1', pollCount: 3 },
+    }));
+  });
+
+  it("defers submissions over the insurer's per-minute cap without spending an attempt", async () => {
+    const submitClaim = vi.fn().mockResolvedValue({ status: 'submitted', externalId: 'EXT-9' });
+    const { jobQueue, storage } = await loadQueue(
+      [buildJob(), buildJob({ id: 'job-2', attempts: 2 })],
+      () => ({ submitClaim }),
+      { id: 'insurer-1', submissionsPerMinute: 1 },
+    );
+
+    await jobQueue.runDueJobs();
+
+    expect(submitClaim).toHaveBeenCalledTimes(1);
+    expect(storage.updateJob).toHaveBeenCalledWith('job-2', expect.objectContaining({
+      status: 'queued',
+      attempts: 1,
+      lockedBy: null,
+      runAt: expect.any(Date),
+    }));
+  });
+
+  it('dead-letters submissions whose attachments failed the malware scan', async () => {
+    const submitClaim = vi.fn();
+    const { jobQueue, storage } = await loadQueue([buildJob()], () => ({ submitClaim }));
+    storage.getAttachments.mockResolvedValue([{ id: 'attachment-1', scanStatus: 'infected' }]);
+
+    await jobQueue.runDueJobs();
+
+    expect(submitClaim).not.toHaveBeenCalled();
+    expect(storage.updateJob).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'dead',
+      lastError: expect.stringContaining('malware scan'),
+    }));
+  });
+
+  it('queues attachments to follow the claim for connectors that send them separately', async () => {
+    const submitClaim = vi.fn().mockResolvedValue({ status: 'submitted', externalId: 'EXT-9' });
+    const { jobQueue, storage } = await loadQueue([buildJob()], () => ({ submitClaim }));
+    storage.getAttachments.mockResolvedValue([{ id: 'attachment-1', scanStatus: 'clean' }]);
+
+    await jobQueue.runDueJobs();
+
+    // Nothing is packaged into the claim itself
+    expect(submitClaim).toHaveBeenCalledWith(expect.objectContaining({ id: 'claim-1' }), []);
+    expect(storage.createJob).toHaveBeenCalledWith(expect.objectContaining({ type: 'send-attachments', connector: 'cdanet' }));
+  });
+});
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const KEY_1 = 'first-encryption-key-at-least-32-characters';
+const KEY_2 = 'second-encryption-key-at-least-32-characters';
+
+function rotationRow(overrides: Record<string, unknown> = {}) {
+  return { id: 'rotation-1', targetVersion: 2, previousVersion: 1, rollbackOf: null, status: 'running', cursor: { table: 'users', lastId: null }, progress: {}, lastError: null, ...overrides } as any;
+}
+
+// Fresh modules under the given keys, with storage mocked out
+async function loadKeyRotation(env: Record<string, string>, tables: Record<string, Array<Record<string, any>>> = {}) {
+  vi.resetModules();
+  vi.stubEnv('ENCRYPTION_KEY', '');
+  vi.stubEnv('ENCRYPTION_KEYS', '');
+  vi.stubEnv('ENCRYPTION_ACTIVE_KEY_VERSION', '');
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+
+  let rotation = rotationRow();
+  const storage = {
+    getKeyRotations: vi.fn(async () => [rotation]),
+    getKeyRotation: vi.fn(async () => rotation),
+    createKeyRotation: vi.fn(async (data: Record<string, unknown>) => ({ id: 'rotation-2', ...data })),
+    updateKeyRotation: vi.fn(async (id: string, updates: Record<string, unknown>) => {
+      rotation = { ...rotation, ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) };
+      return rotation;
+    }),
+    leaseKeyRotation: vi.fn(async () => (rotation.status === 'running' ? rotation : undefined)),
+    countEncryptedRows: vi.fn(async (table: string) => (tables[table] ?? []).length),
+    getEncryptedRows: vi.fn(async (table: string, afterId: string | null, limit: number) =>
+      (tables[table] ?? []).filter(row => afterId === null || row.id > afterId).slice(0, limit)),
+    updateEncryptedRow: vi.fn(),
+  };
+  vi.doMock('../../server/storage', () => ({ storage }));
+
+  const keyRotation = await import('../../server/lib/keyRotation');
+  const encryption = await import('../../server/security/encryption');
+  const fieldEncryption = await import('../../server/security/field-encryption');
+  const { getKeyring } = await import('../../server/security/keyring');
+  return { ...keyRotation, encryption, fieldEncryption, keyring: getKeyring(), storage, setRotation: (next: any) => { rotation = next; } };
+}
+
+describe('PHI key rotation', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.unstubAllEnvs();
+  });
+
+  it('loads versioned keys alongside the legacy single key', async () => {
+    const { loadKeyring } = await import('../../server/security/keyring');
+
+    const keyring = loadKeyring({ NODE_ENV: 'production', ENCRYPTION_KEY: KEY_1, ENCRYPTION_KEYS: `2:${KEY_2}` });
+    expect(keyring.versions()).toEqual([1, 2]);
+    expect(keyring.activeVersion).toBe(2);
+    expect(keyring.legacyVersion).toBe(1);
+
+    expect(loadKeyring({ NODE_ENV: 'production', ENCRYPTION_KEYS: `1:${KEY_1},2:${KEY_2}`, ENCRYPTION_ACTIVE_KEY_VERSION: '1' }).activeVersion).toBe(1);
+    expect(() => loadKeyring({ NODE_ENV: 'production', ENCRYPTION_KEYS: '1:short' })).toThrow('at least 32 characters');
+    expect(() => loadKeyring({ NODE_ENV: 'production', ENCRYPTION_KEYS: `1:${KEY_1}`, ENCRYPTION_ACTIVE_KEY_VERSION: '3' })).toThrow('version 3');
+  });
+
+  it('keeps decrypting data written before a new key was added', async () => {
+    const before = await loadKeyRotation({ ENCRYPTION_KEY: KEY_1 });
+    const stored = before.encryption.encryptPHI('Jane Roy')!;
+    const legacy = before.fieldEncryption.encryptPHI('jane@example.com').replace(/^v1:/, '');
+    const emailHash = before.encryption.contactSearchHash('email', 'Jane@Example.com');
+
+    const after = await loadKeyRotation({ ENCRYPTION_KEY: KEY_1, ENCRYPTION_KEYS: `2:${KEY_2}` });
+    expect(after.encryption.decryptPHI(stored)).toBe('Jane Roy');
+    expect(after.fieldEncryption.decryptPHI(legacy)).toBe('jane@example.com');
+    expect(after.fieldEncryption.encryptPHI('x')).toMatch(/^v2:/);
+    expect(after.encryption.contactSearchHashes('email', 'jane@example.com')).toContain(emailHash);
+
+    const rotated = after.reencryptValue(stored, 2)!;
+    expect(after.encryption.fieldEncryption.open(rotated)).toEqual({ version: 2, plaintext: 'Jane Roy' });
+    expect(after.fieldEncryption.openPHI(after.reencryptValue(legacy, 2)!)).toEqual({ version: 2, plaintext: 'jane@example.com' });
+    expect(after.reencryptValue(rotated, 2)).toBeUndefined();
+    expect(after.reencryptValue('plain text', 2)).toBeUndefined();
+  });
+
+  it('re-keys the search hashes with the fields', async () => {
+    const before = await loadKeyRotation({ ENCRYPTION_KEY: KEY_1 });
+    const row = {
+      id: 'patient-1',
+      name: before.encryption.encryptPHI('Jane Roy'),
+      email: before.encryption.encryptPHI('Jane@Example.com'),
+      email_hash: before.encryption.contactSearchHash('email', 'Jane@Example.com'),
+      phone: null,
+      phone_hash: null,
+    };
+
+    const after = await loadKeyRotation({ ENCRYPTION_KEY: KEY_1, ENCRYPTION_KEYS: `2:${KEY_2}` });
+    const updates = after.rekeyRow('patients', row, 2)!;
+    expect(Object.keys(updates).sort()).toEqual(['email', 'email_hash', 'name']);
+    expect(updates.email_hash).toBe(after.encryption.contactSearchHash('email', 'jane@example.com', 2));
+    expect(after.rekeyRow('patients', { ...row, ...updates }, 2)).toBeNull();
+  });
+
+  it('works through the tables a batch at a time and can be resumed', async () => {
+    vi.stubEnv('KEY_ROTATION_BATCH_SIZE', '2');
+    const before = await loadKeyRotation({ ENCRYPTION_KEY: KEY_1 });
+    const users = ['a', 'b', 'c'].map(id => ({ id, firstName: before.encryption.encryptPHI(`User ${id}`) }));
+
+    const { runKeyRotationBatch, storage, KEY_ROTATION_TABLES } = await loadKeyRotation({ ENCRYPTION_KEY: KEY_1, ENCRYPTION_KEYS: `2:${KEY_2}` }, { users });
+
+    expect(await runKeyRotationBatch('rotation-1')).toBe(true);
+    let [, saved] = storage.updateKeyRotation.mock.calls.at(-1)!;
+    expect(saved.cursor).toEqual({ table: 'users', lastId: 'b' });
+    expect(saved.progress.users).toEqual({ total: 3, processed: 2, reencrypted: 2, failed: 0 });
+
+    expect(await runKeyRotationBatch('rotation-1')).toBe(true);
+    [, saved] = storage.updateKeyRotation.mock.calls.at(-1)!;
+    expect(saved.cursor).toEqual({ table: KEY_ROTATION_TABLES[1], lastId: null });
+    expect(storage.updateEncryptedRow).toHaveBeenCalledTimes(3);
+
+    while (await runKeyRotationBatch('rotation-1'));
+    [, saved] = storage.updateKeyRotation.mock.calls.at(-1)!;
+    expect(saved).toMatchObject({ status: 'completed', cursor: null, completedAt: expect.any(Date) });
+  });
+
+  it('rolls back by re-encrypting to the version it replaced', async () => {
+    const { rollbackKeyRotation, startKeyRotation, syncActiveKeyVersion, keyring, storage, setRotation } = await loadKeyRotation({ ENCRYPTION_KEY: KEY_1, ENCRYPTION_KEYS: `2:${KEY_2}` });
+
+    await expect(startKeyRotation('user-1', 2)).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    expect(await syncActiveKeyVersion()).toBe(2);
+
+    const rollback = await rollbackKeyRotation('rotation-1', 'user-1');
+    expect(storage.updateKeyRotation).toHaveBeenCalledWith('rotation-1', expect.objectContaining({ status: 'rolledBack' }));
+    expect(rollback).toMatchObject({ targetVersion: 1, previousVersion: 2, rollbackOf: 'rotation-1' });
+    expect(keyring.activeVersion).toBe(1);
+
+    setRotation(rotationRow({ status: 'completed' }));
+    await expect(startKeyRotation('user-1', 3)).rejects.toMatchObject({ code: 'UNKNOWN_KEY' });
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const agent = { id: 'user-agent', orgId: 'org-agency', role: 'billing', firstName: 'Avery' };
+
+const memberships = [
+  { id: 'm-1', userId: 'user-agent', orgId: 'org-clinic-a', role: 'provider' },
+  { id: 'm-2', userId: 'user-agent', orgId: 'org-clinic-b', role: 'viewer' },
+];
+
+const claims = [
+  { id: 'claim-a1', orgId: 'org-clinic-a', status: 'draft', createdBy: 'user-agent', updatedAt: new Date('2025-03-02') },
+  { id: 'claim-a2', orgId: 'org-clinic-a', status: 'paid', createdBy: 'user-agent', updatedAt: new Date('2025-03-01') },
+  { id: 'claim-h1', orgId: 'org-agency', status: 'denied', createdBy: 'user-other', updatedAt: new Date('2025-03-01') },
+  { id: 'claim-b1', orgId: 'org-clinic-b', status: 'draft', createdBy: 'user-agent', updatedAt: new Date('2025-02-01') },
+];
+
+async function loadMemberships() {
+  vi.resetModules();
+
+  const storage = {
+    getUser: vi.fn(async (id: string) => (id === agent.id ? agent : undefined)),
+    getMemberships: vi.fn(async (userId: string) => memberships.filter(membership => membership.userId === userId)),
+    getMembership: vi.fn(async (userId: string, orgId: string) =>
+      memberships.find(membership => membership.userId === userId && membership.orgId === orgId)),
+    getOrganization: vi.fn(async (id: string) => ({ id, name: `Org ${id}` })),
+    getUsersByOrg: vi.fn().mockResolvedValue([{ id: 'user-home', orgId: 'org-clinic-a', role: 'admin' }]),
+    getOrgMembers: vi.fn().mockResolvedValue([{ membership: memberships[0], user: agent }]),
+    // clinic B's custom "viewer" role can read claims but not work on them
+    getRoleByKey: vi.fn(async (orgId: string, key: string) =>
+      orgId === 'org-clinic-b' && key === 'viewer' ? { key, orgId, permissions: ['claims:read:all'] } : undefined),
+    getClaims: vi.fn(async (orgId: string, createdBy?: string) =>
+      claims.filter(claim => claim.orgId === orgId && (!createdBy || claim.createdBy === createdBy))),
+  };
+  vi.doMock('../../server/storage', () => ({ storage }));
+
+  const module = await import('../../server/lib/memberships');
+  const { getWorkQueue } = await import('../../server/lib/workQueue');
+  return { ...module, getWorkQueue, storage };
+}
+
+describe('memberships', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+  });
+
+  it('lists the home organization first', async () => {
+    const { getMemberships } = await loadMemberships();
+
+    const result = await getMemberships(agent as any);
+
+    expect(result.map(membership => [membership.orgId, membership.role, membership.home])).toEqual([
+      ['org-agency', 'billing', true],
+      ['org-clinic-a', 'provider', false],
+      ['org-clinic-b', 'viewer', false],
+    ]);
+    expect(result[1].orgName).toBe('Org org-clinic-a');
+  });
+
+  it('takes orgId and role from the active membership', async () => {
+    const { asMemberOf } = await loadMemberships();
+
+    expect(await asMemberOf(agent as any, 'org-clinic-a')).toMatchObject({ orgId: 'org-clinic-a', role: 'provider' });
+    expect(await asMemberOf(agent as any, 'org-not-mine')).toMatchObject({ orgId: 'org-agency', role: 'billing' });
+    expect(await asMemberOf(agent as any, undefined)).toMatchObject({ orgId: 'org-agency', role: 'billing' });
+  });
+
+  it('resolves the request user from the session once per request', async () => {
+    const { getRequestUser, storage } = await loadMemberships();
+    const req: any = { user: { claims: { sub: 'user-agent' } }, session: { activeOrgId: 'org-clinic-b' } };
+
+    expect(await getRequestUser(req)).toMatchObject({ orgId: 'org-clinic-b', role: 'viewer' });
+    await getRequestUser(req);
+    expect(storage.getUser).toHaveBeenCalledTimes(1);
+    expect(await getRequestUser({} as any)).toBeUndefined();
+  });
+
+  it('lists members alongside home users with the role they hold in the organization', async () => {
+    const { getOrgUsers } = await loadMemberships();
+
+    const users = await getOrgUsers('org-clinic-a');
+
+    expect(users.map(user => [user.id, user.role, user.membershipId])).toEqual([
+      ['user-home', 'admin', null],
+      ['user-agent', 'provider', 'm-1'],
+    ]);
+  });
+
+  it('builds the work queue from each membership\'s permissions', async () => {
+    const { getWorkQueue, storage } = await loadMemberships();
+
+    const queue = await getWorkQueue(agent as any);
+
+    // billing at home sees every claim, the provider membership only their own,
+    // and the viewer membership cannot act on claims at all
+    expect(queue.map(item => [item.claimId, item.action, item.orgName])).toEqual([
+      ['claim-h1', 'resubmit', 'Org org-agency'],
+      ['claim-a1', 'complete', 'Org org-clinic-a'],
+    ]);
+    expect(storage.getClaims).toHaveBeenCalledWith('org-agency', undefined);
+    expect(storage.getClaims).toHaveBeenCalledWith('org-clinic-a', 'user-agent');
+    expect(storage.getClaims.mock.calls.map(([orgId]) => orgId)).not.toContain('org-clinic-b');
+  });
+});
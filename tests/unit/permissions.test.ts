@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadWithStorage, unmockStorage } from '../utils/mockStorage';
+
+const users: Record<string, { id: string; orgId: string; role: string }> = {
+  'user-provider': { id: 'user-provider', orgId: 'org-1', role: 'provider' },
+  'user-auditor': { id: 'user-auditor', orgId: 'org-1', role: 'auditor' },
+  'user-unknown': { id: 'user-unknown', orgId: 'org-1', role: 'former-role' },
+};
+
+async function loadPermissions() {
+  const storage = {
+    getUser: vi.fn(async (id: string) => users[id]),
+    getRoleByKey: vi.fn(async (orgId: string, key: string) =>
+      orgId === 'org-1' && key === 'auditor'
+        ? { id: 'role-1', orgId, key, permissions: ['audit:read', 'claims:read:all', 'claims:retired'] }
+        : undefined),
+  };
+
+  return loadWithStorage(() => import('../../server/security/permissions'), storage);
+}
+
+function mockResponse() {
+  const res: any = {};
+  res.status = vi.fn(() => res);
+  res.json = vi.fn(() => res);
+  return res;
+}
+
+describe('permissions', () => {
+  afterEach(() => {
+    unmockStorage();
+  });
+
+  it('resolves built-in roles without a lookup', async () => {
+    const { resolvePermissions, storage } = await loadPermissions();
+
+    const permissions = await resolvePermissions({ role: 'billing', orgId: 'org-1' });
+
+    expect(permissions.has('claims:reverse')).toBe(true);
+    expect(permissions.has('users:manage')).toBe(false);
+    expect(storage.getRoleByKey).not.toHaveBeenCalled();
+  });
+
+  it('resolves custom roles per organization with implied permissions', async () => {
+    const { resolvePermissions } = await loadPermissions();
+
+    const permissions = await resolvePermissions({ role: 'auditor', orgId: 'org-1' });
+
+    expect(Array.from(permissions).sort()).toEqual(['audit:read', 'claims:read:all', 'claims:read:own']);
+    expect((await resolvePermissions({ role: 'auditor', orgId: 'org-2' })).size).toBe(0);
+    expect((await resolvePermissions({ role: 'former-role', orgId: 'org-1' })).size).toBe(0);
+  });
+
+  it('grants read access with the matching write and manage permissions', async () => {
+    const { resolvePermissions, storage } = await loadPermissions();
+    storage.getRoleByKey.mockResolvedValueOnce({ id: 'role-2', orgId: 'org-1', key: 'front-desk', permissions: ['appointments:manage', 'claims:create'] });
+
+    const permissions = await resolvePermissions({ role: 'front-desk', orgId: 'org-1' });
+
+    expect(Array.from(permissions).sort()).toEqual([
+      'appointments:manage', 'appointments:read', 'claims:create', 'patients:read', 'providers:read',
+    ]);
+    expect((await resolvePermissions({ role: 'provider', orgId: 'org-1' })).has('remittances:read')).toBe(true);
+  });
+
+  it('requirePermission needs every listed permission', async () => {
+    const { requirePermission, hasPermission } = await loadPermissions();
+    const next = vi.fn();
+
+    const req: any = { user: { claims: { sub: 'user-auditor' } } };
+    await requirePermission('audit:read', 'claims:read:own')(req, mockResponse(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(hasPermission(req, 'claims:read:all')).toBe(true);
+
+    const res = mockResponse();
+    await requirePermission('audit:read', 'users:manage')({ user: { claims: { sub: 'user-auditor' } } } as any, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ missing: ['users:manage'] }));
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('requireAnyPermission needs one of the listed permissions', async () => {
+    const { requireAnyPermission } = await loadPermissions();
+    const next = vi.fn();
+
+    await requireAnyPermission('users:manage', 'claims:create')({ user: { claims: { sub: 'user-provider' } } } as any, mockResponse(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    const res = mockResponse();
+    await requireAnyPermission('users:manage', 'roles:manage')({ user: { claims: { sub: 'user-unknown' } } } as any, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+
+    const anonymous = mockResponse();
+    await requireAnyPermission('claims:read:own')({} as any, anonymous, next);
+    expect(anonymous.status).toHaveBeenCalledWith(401);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
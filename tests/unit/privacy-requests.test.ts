@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { inflateRawSync } from 'node:zlib';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(Date.UTC(2026, 9, 19, 12));
+const OLD = new Date(NOW.getTime() - 400 * DAY);
+const RECENT = new Date(NOW.getTime() - 30 * DAY);
+
+const org = { id: 'org-1', name: 'Clinic', province: 'ON', dataRetentionDays: 365, privacyOfficerName: 'Pat Officer', privacyOfficerEmail: 'privacy@clinic.example', privacyContactUrl: null } as any;
+const patient = { id: 'patient-1', orgId: 'org-1', name: 'Jane Roy', email: 'jane@example.com', email_hash: 'hash', phone: '5145550100', phone_hash: 'hash', address: '1 Rue Main', dob: null, identifiers: { healthCard: 'RJ123' }, archivedAt: null, anonymizedAt: null } as any;
+
+function claim(id: string, overrides: Record<string, unknown> = {}) {
+  return { id, orgId: 'org-1', patientId: 'patient-1', status: 'paid', notes: 'Back pain', claimNumber: 'CLM-1', referenceNumber: null, portalReferenceNumber: null, originalReferenceNumber: null, appointmentId: null, legalHold: false, anonymizedAt: null, updatedAt: OLD, ...overrides };
+}
+
+function records(overrides: Record<string, unknown> = {}) {
+  return {
+    appointments: [],
+    claims: [],
+    claimLines: [],
+    claimStatusHistory: [],
+    attachments: [],
+    preAuths: [],
+    eligibilityChecks: [],
+    remittanceLines: [],
+    ...overrides,
+  } as any;
+}
+
+function request(overrides: Record<string, unknown> = {}) {
+  return { id: 'request-1', orgId: 'org-1', patientId: 'patient-1', type: 'erasure', status: 'received', dueAt: new Date(NOW.getTime() + 30 * DAY), extendedAt: null, corrections: null, ...overrides } as any;
+}
+
+async function loadPrivacyRequests(patientRecords = records()) {
+  vi.resetModules();
+
+  const storage = {
+    getPatient: vi.fn().mockResolvedValue(patient),
+    getPatientRecords: vi.fn().mockResolvedValue(patientRecords),
+    createPrivacyRequest: vi.fn(async (data: Record<string, unknown>) => ({ id: 'request-1', ...data })),
+    updatePrivacyRequest: vi.fn(async (id: string, updates: Record<string, unknown>) => ({ id, ...updates })),
+    updatePatient: vi.fn(),
+    updateClaim: vi.fn(),
+    updatePreAuth: vi.fn(),
+    updateAppointment: vi.fn(),
+    deleteAppointment: vi.fn(),
+    updateRemittanceLine: vi.fn(),
+    deleteEligibilityChecks: vi.fn(),
+    getAttachmentsByClaimIds: vi.fn().mockResolvedValue([]),
+    deleteAttachment: vi.fn(),
+  };
+  const readObjectEntity = vi.fn().mockResolvedValue(Buffer.from('%PDF-1.4'));
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/objectStorage', () => ({
+    ObjectStorageService: class {
+      readObjectEntity = readObjectEntity;
+      deleteObjectEntity = vi.fn().mockResolvedValue(true);
+    },
+  }));
+
+  const privacyRequests = await import('../../server/lib/privacyRequests');
+  return { ...privacyRequests, storage, readObjectEntity };
+}
+
+// Entry names and contents from a ZIP's local headers
+function unzip(archive: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength;
+    files.set(name, inflateRawSync(archive.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('Privacy requests', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/objectStorage');
+  });
+
+  it('logs a request with the 30-day statutory deadline', async () => {
+    const { createPrivacyRequest, storage } = await loadPrivacyRequests();
+
+    const created = await createPrivacyRequest('org-1', { patientId: 'patient-1', type: 'access', receivedAt: NOW }, 'user-1');
+    expect(created.dueAt).toEqual(new Date(NOW.getTime() + 30 * DAY));
+
+    storage.getPatient.mockResolvedValueOnce({ ...patient, orgId: 'org-2' });
+    await expect(createPrivacyRequest('org-1', { patientId: 'patient-1', type: 'access' }, 'user-1')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('extends the deadline once, and never in Quebec', async () => {
+    const { extendPrivacyRequest, storage } = await loadPrivacyRequests();
+
+    const extended = await extendPrivacyRequest(request(), org, 'Records held off-site');
+    expect(extended.dueAt).toEqual(new Date(NOW.getTime() + 60 * DAY));
+
+    await expect(extendPrivacyRequest(request({ extendedAt: NOW }), org, 'again')).rejects.toMatchObject({ code: 'NOT_EXTENDABLE' });
+    await expect(extendPrivacyRequest(request(), { ...org, province: 'QC' }, 'busy')).rejects.toMatchObject({ code: 'NOT_EXTENDABLE' });
+    expect(storage.updatePrivacyRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('exports decrypted records with the attachment files', async () => {
+    const { buildPatientExport } = await loadPrivacyRequests(records({
+      claims: [claim('claim-1')],
+      attachments: [{ id: 'attachment-1', claimId: 'claim-1', url: '/objects/uploads/scan', mime: 'application/pdf', kind: 'pdf', createdAt: OLD }],
+    }));
+
+    const files = unzip(await buildPatientExport(org, patient, NOW));
+    const document = JSON.parse(files.get('patient.json')!.toString('utf8'));
+
+    expect(document.patient).toMatchObject({ name: 'Jane Roy', email: 'jane@example.com' });
+    expect(document.patient.email_hash).toBeUndefined();
+    expect(document.organization.privacyOfficerEmail).toBe('privacy@clinic.example');
+    expect(document.claims[0].attachments).toEqual([expect.objectContaining({ id: 'attachment-1', file: 'attachments/attachment-1.pdf' })]);
+    expect(document.claims[0].attachments[0].url).toBeUndefined();
+    expect(files.get('attachments/attachment-1.pdf')!.toString()).toBe('%PDF-1.4');
+  });
+
+  it('applies a correction stored on the request', async () => {
+    const { applyPatientCorrection, storage } = await loadPrivacyRequests();
+
+    const outcome = await applyPatientCorrection(request({ type: 'correction', corrections: { name: 'Jane Roy-Tremblay', dob: '1980-02-03' } }));
+
+    expect(storage.updatePatient).toHaveBeenCalledWith('patient-1', { name: 'Jane Roy-Tremblay', dob: new Date('1980-02-03') });
+    expect(outcome).toEqual([{ resourceType: 'patient', resourceId: 'patient-1', action: 'corrected', reason: 'Fields: name, dob' }]);
+  });
+
+  it("does not touch a patient outside the request's organization", async () => {
+    const { applyPatientCorrection, erasePatient, storage } = await loadPrivacyRequests();
+    storage.getPatient.mockResolvedValue({ ...patient, orgId: 'org-2' });
+
+    await expect(applyPatientCorrection(request({ type: 'correction', corrections: { name: 'Jane Roy-Tremblay' } }))).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(erasePatient(request(), org, { now: NOW })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(storage.updatePatient).not.toHaveBeenCalled();
+    expect(storage.getPatientRecords).not.toHaveBeenCalled();
+  });
+
+  it('keeps records the retention rules still require', async () => {
+    const { planPatientErasure } = await loadPrivacyRequests();
+
+    const { erasableClaims, items } = planPatientErasure(org, patient, records({
+      claims: [
+        claim('claim-old', { appointmentId: 'appointment-billed' }),
+        claim('claim-recent', { updatedAt: RECENT, appointmentId: 'appointment-kept' }),
+        claim('claim-held', { legalHold: true }),
+        claim('claim-draft', { status: 'draft', updatedAt: RECENT }),
+      ],
+      appointments: [{ id: 'appointment-billed' }, { id: 'appointment-kept' }, { id: 'appointment-unbilled' }],
+      eligibilityChecks: [{ id: 'check-1' }],
+    }), NOW);
+
+    expect(erasableClaims.map(c => c.id)).toEqual(['claim-old', 'claim-draft']);
+    expect(items).toEqual([
+      { resourceType: 'claim', resourceId: 'claim-recent', action: 'retained', reason: 'Within the retention period' },
+      { resourceType: 'claim', resourceId: 'claim-held', action: 'retained', reason: 'Legal hold' },
+      { resourceType: 'appointment', resourceId: 'appointment-billed', action: 'anonymized' },
+      { resourceType: 'appointment', resourceId: 'appointment-kept', action: 'retained', reason: 'Billed on a retained claim' },
+      { resourceType: 'appointment', resourceId: 'appointment-unbilled', action: 'deleted' },
+      { resourceType: 'eligibility_check', resourceId: 'check-1', action: 'deleted' },
+      { resourceType: 'patient', resourceId: 'patient-1', action: 'retained', reason: 'Referenced by retained records' },
+    ]);
+  });
+
+  it('keeps every claim in an amendment chain with a claim on legal hold', async () => {
+    const { planPatientErasure } = await loadPrivacyRequests();
+
+    const { erasableClaims, items } = planPatientErasure(org, patient, records({
+      claims: [
+        claim('claim-original', { status: 'denied' }),
+        claim('claim-resubmission', { parentClaimId: 'claim-original', legalHold: true }),
+        claim('claim-reversal', { parentClaimId: 'claim-resubmission', status: 'reversed' }),
+        claim('claim-other'),
+      ],
+    }), NOW);
+
+    expect(erasableClaims.map(c => c.id)).toEqual(['claim-other']);
+    expect(items.filter(item => item.resourceType === 'claim')).toEqual(['claim-original', 'claim-resubmission', 'claim-reversal']
+      .map(resourceId => ({ resourceType: 'claim', resourceId, action: 'retained', reason: 'Legal hold' })));
+  });
+
+  it('anonymizes the patient once nothing has to be kept', async () => {
+    const { erasePatient, storage } = await loadPrivacyRequests(records({
+      claims: [claim('claim-old')],
+      remittanceLines: [{ id: 'line-1', claimId: 'claim-old' }],
+      eligibilityChecks: [{ id: 'check-1' }],
+    }));
+
+    const preview = await erasePatient(request(), org, { dryRun: true, now: NOW });
+    expect(preview).toContainEqual({ resourceType: 'patient', resourceId: 'patient-1', action: 'anonymized' });
+    expect(storage.updateClaim).not.toHaveBeenCalled();
+    expect(storage.updatePatient).not.toHaveBeenCalled();
+
+    await erasePatient(request(), org, { now: NOW });
+    expect(storage.updateClaim).toHaveBeenCalledWith('claim-old', expect.objectContaining({ anonymizedAt: expect.any(Date) }));
+    expect(storage.updateRemittanceLine).toHaveBeenCalledWith('line-1', expect.objectContaining({ raw: null }));
+    expect(storage.deleteEligibilityChecks).toHaveBeenCalledWith(['check-1']);
+    const [, fields] = storage.updatePatient.mock.calls[0];
+    expect(fields).toMatchObject({ email: null, phone: null, address: null, dob: null, identifiers: null, anonymizedAt: expect.any(Date) });
+    expect(fields.name).not.toBe('Jane Roy');
+
+    await expect(erasePatient(request({ status: 'completed' }), org)).rejects.toMatchObject({ code: 'INVALID_STATE' });
+  });
+});
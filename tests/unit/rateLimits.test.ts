@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+async function loadRateLimits(storageOverrides: Record<string, any> = {}) {
+  vi.resetModules();
+  const counters = new Map<string, { hits: number; resetAt: Date }>();
+  const storage = {
+    getUser: vi.fn(async (id: string) => ({ id, orgId: 'org-1' })),
+    incrementRateLimit: vi.fn(async (key: string, windowMs: number) => {
+      const counter = counters.get(key) ?? { hits: 0, resetAt: new Date(Date.now() + windowMs) };
+      counter.hits++;
+      counters.set(key, counter);
+      return { key, ...counter };
+    }),
+    getRateLimit: vi.fn(async (key: string) => counters.get(key)),
+    decrementRateLimit: vi.fn(),
+    resetRateLimit: vi.fn(async (key: string) => { counters.delete(key); }),
+    ...storageOverrides,
+  };
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/auditLogger', () => ({ auditLogger: { logError: vi.fn() } }));
+
+  const store = await import('../../server/security/rateLimitStore');
+  return { ...store, storage, counters };
+}
+
+function appWith(limiter: express.RequestHandler, user?: { sub: string }) {
+  const app = express();
+  app.set('trust proxy', true);
+  app.use((req: any, _res, next) => {
+    if (user) req.user = { claims: user };
+    next();
+  });
+  app.get('/ping', limiter, (_req, res) => res.json({ ok: true }));
+  return app;
+}
+
+describe('rate limiting', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/auditLogger');
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps counters in Postgres under the limiter prefix', async () => {
+    const { PostgresRateLimitStore, storage } = await loadRateLimits();
+    const store = new PostgresRateLimitStore('api:client');
+    store.init({ windowMs: 60000 } as any);
+
+    await store.increment('user:u1');
+    expect(await store.increment('user:u1')).toMatchObject({ totalHits: 2 });
+    expect(storage.incrementRateLimit).toHaveBeenCalledWith('api:client:user:u1', 60000);
+  });
+
+  it('counts in memory while the database is unavailable', async () => {
+    const { PostgresRateLimitStore } = await loadRateLimits({
+      incrementRateLimit: vi.fn().mockRejectedValue(new Error('connection refused')),
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new PostgresRateLimitStore('api:client');
+    store.init({ windowMs: 60000 } as any);
+
+    await store.increment('ip:1.2.3.4');
+    expect(await store.increment('ip:1.2.3.4')).toMatchObject({ totalHits: 2 });
+  });
+
+  it('limits each user separately and their organization as a whole', async () => {
+    vi.stubEnv('RATE_LIMIT_STORE', 'postgres');
+    vi.stubEnv('RATE_LIMIT_UPLOAD_PER_MINUTE', '2');
+    vi.stubEnv('RATE_LIMIT_UPLOAD_ORG_PER_MINUTE', '3');
+    const { counters } = await loadRateLimits();
+    const { uploadLimiter } = await import('../../server/security/rateLimiter');
+
+    const alice = appWith(uploadLimiter, { sub: 'alice' });
+    const bob = appWith(uploadLimiter, { sub: 'bob' });
+
+    expect((await request(alice).get('/ping')).status).toBe(200);
+    expect((await request(alice).get('/ping')).status).toBe(200);
+    expect((await request(alice).get('/ping')).status).toBe(429);
+
+    expect((await request(bob).get('/ping')).status).toBe(200);
+    const blocked = await request(bob).get('/ping');
+    expect(blocked.status).toBe(429);
+    expect(blocked.body.message).toContain('organization');
+
+    expect(counters.get('upload:client:user:bob')?.hits).toBe(2);
+    expect(counters.has('upload:org:org:org-1')).toBe(true);
+  });
+});
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Claim } from '../../shared/schema';
+import { parseRemittanceFile, RemittanceParseError } from '../../server/mappers/remittance';
+
+const storage = vi.hoisted(() => ({
+  getRemittanceImportByChecksum: vi.fn(),
+  getClaims: vi.fn(),
+  getPatients: vi.fn(),
+  getClaimLinesForClaims: vi.fn(),
+  createRemittanceImport: vi.fn(),
+}));
+
+vi.mock('../../server/storage', () => ({ storage }));
+
+const { importRemittanceFile, matchPaymentLine, RemittanceImportError } = await import('../../server/lib/remittanceImport');
+
+// A v4 EOB response (transaction code 21) with 250.00 billed
+function eobMessage(reference: string, status: 'A' | 'R', benefit: string): string {
+  return [
+    'MEDLINK     ', '000123', '04', '21', '999999', '00218', 'N',
+    '123456789', '0001', reference,
+    status, '20250320', '0025000', benefit, '000000', '2',
+    '1', '015000', '00000', '080', '012000', '01',
+    '2', '010000', '00000', '080', '008000', '00',
+    '00', '01', '01', 'Frequency limit applies                                                    ',
+  ].join('');
+}
+
+function buildClaim(overrides: Partial<Claim>): Claim {
+  return {
+    id: 'claim-1',
+    orgId: 'org-1',
+    status: 'submitted',
+    amount: '120.00',
+    referenceNumber: null,
+    externalId: null,
+    portalReferenceNumber: null,
+    claimNumber: null,
+    ...overrides,
+  } as Claim;
+}
+
+describe('parseRemittanceFile', () => {
+  it('parses a TELUS payment statement CSV with quoted fields', () => {
+    const csv = [
+      'Claim ID,Reference Number,Patient Name,Date of Service,Amount Claimed,Amount Paid,Status,Reason Code',
+      'TEL-1,REF-100,"Doe, Jane",2025-03-05,"$1,200.00",960.00,Paid,',
+      'TEL-2,,John Smith,2025-03-06,80.00,0.00,Rejected,DUP002',
+    ].join('\r\n');
+
+    const lines = parseRemittanceFile('telus_csv', csv);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      lineNumber: 1,
+      externalId: 'TEL-1',
+      referenceNumber: 'REF-100',
+      patientName: 'Doe, Jane',
+      amountBilled: 1200,
+      amountPaid: 960,
+      outcome: 'paid',
+      reasonCodes: [],
+    });
+    expect(lines[0].serviceDate?.toISOString()).toBe('2025-03-05T00:00:00.000Z');
+    expect(lines[1]).toMatchObject({ outcome: 'denied', reasonCodes: ['DUP002'] });
+  });
+
+  it('decodes fixed-width CDAnet EOB responses, one per line', () => {
+    const file = [eobMessage('ABC12345678901', 'A', '0020000'), eobMessage('ABC12345678902', 'A', '0000000'), ''].join('\r\n');
+
+    const lines = parseRemittanceFile('cdanet_eob', file);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      lineNumber: 1,
+      externalId: 'ABC12345678901',
+      transactionReference: 'ABC12345678901',
+      amountBilled: 250,
+      amountPaid: 200,
+      outcome: 'paid',
+      reasonCodes: [],
+    });
+    expect(lines[1]).toMatchObject({ transactionReference: 'ABC12345678902', amountPaid: 0, outcome: 'denied' });
+  });
+
+  it('rejects CDAnet files with messages the codec cannot decode', () => {
+    expect(() => parseRemittanceFile('cdanet_eob', JSON.stringify({ responses: [] }))).toThrow(RemittanceParseError);
+    expect(() => parseRemittanceFile('cdanet_eob', eobMessage('ABC12345678901', 'A', '0020000').slice(0, -10)))
+      .toThrow(RemittanceParseError);
+  });
+
+  it('rejects files with lines that have no paid amount', () => {
+    expect(() => parseRemittanceFile('generic_csv', 'reference,paid\nREF-1,\n')).toThrow(RemittanceParseError);
+  });
+});
+
+describe('matchPaymentLine', () => {
+  const baseLine = { lineNumber: 1, amountPaid: 120, outcome: 'paid' as const, reasonCodes: [], raw: {} };
+
+  it('prefers reference numbers, then external ids', () => {
+    const candidates = [
+      { claim: buildClaim({ id: 'by-ref', referenceNumber: 'REF-1' }), serviceDates: [] },
+      { claim: buildClaim({ id: 'by-ext', externalId: 'EXT-1' }), serviceDates: [] },
+    ];
+
+    expect(matchPaymentLine({ ...baseLine, referenceNumber: 'REF-1', externalId: 'EXT-1' }, candidates))
+      .toMatchObject({ method: 'referenceNumber', claim: { id: 'by-ref' } });
+    expect(matchPaymentLine({ ...baseLine, referenceNumber: 'UNKNOWN', externalId: 'EXT-1' }, candidates))
+      .toMatchObject({ method: 'externalId', claim: { id: 'by-ext' } });
+  });
+
+  it('matches CDAnet transaction references against the end of the external id', () => {
+    const candidates = [{ claim: buildClaim({ id: 'cdanet', externalId: 'ITR-ABC12345678901' }), serviceDates: [] }];
+    const line = { ...baseLine, externalId: 'ABC12345678901' };
+
+    expect(matchPaymentLine(line, candidates)).toBeNull();
+    expect(matchPaymentLine({ ...line, transactionReference: 'ABC12345678901' }, candidates))
+      .toMatchObject({ method: 'externalId', claim: { id: 'cdanet' } });
+  });
+
+  it('falls back to a unique patient, service date and amount match on open claims', () => {
+    const line = {
+      ...baseLine,
+      patientName: 'DOE, JANE',
+      serviceDate: new Date('2025-03-05T00:00:00Z'),
+      amountBilled: 120,
+    };
+    const open = { claim: buildClaim({ id: 'open' }), patientName: 'Jane Doe', serviceDates: ['2025-03-05'] };
+    const settled = { claim: buildClaim({ id: 'paid', status: 'paid' }), patientName: 'Jane Doe', serviceDates: ['2025-03-05'] };
+
+    expect(matchPaymentLine(line, [open, settled])).toMatchObject({ method: 'patientDateAmount', claim: { id: 'open' } });
+    expect(matchPaymentLine(line, [open, { ...open, claim: buildClaim({ id: 'twin' }) }])).toBeNull();
+    expect(matchPaymentLine({ ...line, amountBilled: 119.99 }, [open])).toBeNull();
+  });
+});
+
+describe('importRemittanceFile', () => {
+  const params = { orgId: 'org-1', insurerId: 'ins-1', format: 'generic_csv' as const, userId: 'user-1' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getRemittanceImportByChecksum.mockResolvedValue(undefined);
+    storage.getClaims.mockResolvedValue([
+      buildClaim({ id: 'open', referenceNumber: 'REF-1' }),
+      buildClaim({ id: 'paid', referenceNumber: 'REF-2', status: 'paid' }),
+    ]);
+    storage.getPatients.mockResolvedValue([]);
+    storage.getClaimLinesForClaims.mockResolvedValue([]);
+    storage.createRemittanceImport.mockImplementation(async (remittanceImport, lines) => ({
+      remittanceImport: { id: 'import-1', ...remittanceImport },
+      lines,
+    }));
+  });
+
+  it('settles each claim once and queues lines its status can no longer take', async () => {
+    const content = 'reference,amount paid,status\nREF-1,120.00,paid\nREF-1,0,denied\nREF-2,120.00,paid\n';
+
+    await importRemittanceFile({ ...params, content });
+
+    const [remittanceImport, lines, settlements] = storage.createRemittanceImport.mock.calls[0];
+    expect(remittanceImport).toMatchObject({ matchedLines: 1, unmatchedLines: 2, checksum: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(lines.map((line: { matchStatus: string }) => line.matchStatus)).toEqual(['matched', 'unmatched', 'unmatched']);
+    expect(settlements).toEqual([
+      expect.objectContaining({ lineIndex: 0, claimId: 'open', change: expect.objectContaining({ fromStatus: 'submitted', toStatus: 'paid' }) }),
+    ]);
+  });
+
+  it('refuses a file that was already imported', async () => {
+    storage.getRemittanceImportByChecksum.mockResolvedValue({ id: 'import-0', fileName: 'march.csv' });
+
+    await expect(importRemittanceFile({ ...params, content: 'reference,amount paid\nREF-1,120.00\n' }))
+      .rejects.toMatchObject({ code: 'DUPLICATE_FILE', remittanceImportId: 'import-0' });
+    expect(storage.createRemittanceImport).not.toHaveBeenCalled();
+  });
+
+  it('reports an import the storage layer rolled back', async () => {
+    storage.createRemittanceImport.mockResolvedValue(undefined);
+
+    await expect(importRemittanceFile({ ...params, content: 'reference,amount paid\nREF-1,120.00\n' }))
+      .rejects.toBeInstanceOf(RemittanceImportError);
+  });
+});
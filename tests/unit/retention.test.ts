@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { claimUpdateSchema } from '../../shared/schema';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(Date.UTC(2026, 9, 19, 12));
+const OLD = new Date(NOW.getTime() - 400 * DAY);
+
+const org = { id: 'org-1', dataRetentionDays: 365, minimizeLogging: false } as any;
+
+function claim(id: string) {
+  return { id, orgId: 'org-1', notes: 'Patient fell on ice', claimNumber: 'CLM-1001', referenceNumber: 'REF-1', portalReferenceNumber: null, originalReferenceNumber: null, updatedAt: OLD };
+}
+
+function auditEvent(seq: number | null, claimId: string) {
+  return { id: `event-${seq ?? claimId}`, seq, hash: seq === null ? null : `hash-${seq}`, resourceType: 'claim', resourceId: claimId, createdAt: OLD };
+}
+
+async function loadRetention(overrides: Record<string, unknown> = {}) {
+  vi.resetModules();
+
+  const storage = {
+    getLegalHoldClaimIds: vi.fn().mockResolvedValue(['claim-held']),
+    getClaimsPastRetention: vi.fn().mockResolvedValue([claim('claim-old'), claim('claim-held')]),
+    getAttachmentsByClaimIds: vi.fn().mockResolvedValue([{ id: 'attachment-1', claimId: 'claim-old', url: '/objects/uploads/scan' }]),
+    deleteAttachment: vi.fn(),
+    updateClaim: vi.fn(),
+    getConnectorTransactionsBefore: vi.fn().mockResolvedValue([]),
+    deleteConnectorTransactions: vi.fn(),
+    clearConnectorTransactionPayloads: vi.fn(),
+    getRemittanceImportsBefore: vi.fn().mockResolvedValue([]),
+    getRemittancesBefore: vi.fn().mockResolvedValue([]),
+    deleteRemittanceImports: vi.fn(),
+    deleteRemittances: vi.fn(),
+    getAuditEventsBefore: vi.fn().mockResolvedValue([]),
+    deleteAuditEvents: vi.fn(),
+    updateOrganization: vi.fn(),
+    createRetentionRun: vi.fn(async (run: Record<string, unknown>) => ({ id: 'run-1', ...run })),
+    getRetentionRunItems: vi.fn().mockResolvedValue([]),
+    createAuditEvent: vi.fn(),
+    ...overrides,
+  };
+  const deleteObjectEntity = vi.fn().mockResolvedValue(true);
+  vi.doMock('../../server/storage', () => ({ storage }));
+  vi.doMock('../../server/objectStorage', () => ({
+    ObjectStorageService: class {
+      deleteObjectEntity = deleteObjectEntity;
+    },
+  }));
+
+  const retention = await import('../../server/lib/retention');
+  return { ...retention, storage, deleteObjectEntity };
+}
+
+describe('Data retention', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+    vi.doUnmock('../../server/objectStorage');
+  });
+
+  it('anonymizes expired claims and deletes their files but leaves held claims alone', async () => {
+    const { runRetention, storage, deleteObjectEntity } = await loadRetention();
+
+    const run = await runRetention(org, { now: NOW, triggeredBy: 'user-1' });
+
+    expect(deleteObjectEntity).toHaveBeenCalledWith('/objects/uploads/scan');
+    expect(storage.deleteAttachment).toHaveBeenCalledWith('attachment-1');
+    expect(storage.updateClaim).toHaveBeenCalledTimes(1);
+    const [claimId, changes] = storage.updateClaim.mock.calls[0];
+    expect(claimId).toBe('claim-old');
+    expect(changes.notes).not.toBe('Patient fell on ice');
+    expect(changes.claimNumber).not.toBe('CLM-1001');
+    expect(changes.anonymizedAt).toBeInstanceOf(Date);
+
+    expect(run.status).toBe('completed');
+    expect(run.cutoff).toEqual(new Date(NOW.getTime() - 365 * DAY));
+    expect(run.counts).toEqual({ 'claim.held': 1, 'attachment.deleted': 1, 'claim.anonymized': 1 });
+    expect(storage.createAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'retention_purged', actorUserId: 'user-1' }));
+  });
+
+  it('records what a dry run would purge without changing anything', async () => {
+    const { runRetention, storage, deleteObjectEntity } = await loadRetention({
+      getAuditEventsBefore: vi.fn().mockResolvedValue([auditEvent(1, 'claim-old')]),
+    });
+
+    const run = await runRetention(org, { now: NOW, dryRun: true });
+
+    expect(deleteObjectEntity).not.toHaveBeenCalled();
+    expect(storage.updateClaim).not.toHaveBeenCalled();
+    expect(storage.deleteAuditEvents).not.toHaveBeenCalled();
+    expect(storage.updateOrganization).not.toHaveBeenCalled();
+    expect(run.counts).toMatchObject({ 'audit_event.deleted': 1 });
+    expect(storage.createRetentionRun.mock.calls[0][1])
+      .toContainEqual({ resourceType: 'audit_event', resourceId: 'event-1', action: 'deleted' });
+    expect(storage.createAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'retention_previewed' }));
+  });
+
+  it('purges the audit chain only up to the first event about a held claim', async () => {
+    const { runRetention, storage } = await loadRetention({
+      getAuditEventsBefore: vi.fn().mockResolvedValue([
+        auditEvent(null, 'claim-legacy'),
+        auditEvent(1, 'claim-old'),
+        auditEvent(2, 'claim-old'),
+        auditEvent(3, 'claim-held'),
+        auditEvent(4, 'claim-old'),
+      ]),
+    });
+
+    await runRetention(org, { now: NOW });
+
+    expect(storage.deleteAuditEvents).toHaveBeenCalledWith(['event-claim-legacy', 'event-1', 'event-2']);
+    expect(storage.updateOrganization).toHaveBeenCalledWith('org-1', { auditChainBaseSeq: 2, auditChainBaseHash: 'hash-2' });
+  });
+
+  it('clears old EDI payloads when logging is minimized', async () => {
+    const { runRetention, storage } = await loadRetention({
+      getClaimsPastRetention: vi.fn().mockResolvedValue([]),
+      getConnectorTransactionsBefore: vi.fn(async (_orgId: string, before: Date) => before < new Date(NOW.getTime() - 365 * DAY + 1)
+        ? [{ id: 'tx-expired', claimId: 'claim-old', hasPayload: true }]
+        : [
+            { id: 'tx-expired', claimId: 'claim-old', hasPayload: true },
+            { id: 'tx-recent', claimId: 'claim-new', hasPayload: true },
+            { id: 'tx-held', claimId: 'claim-held', hasPayload: true },
+            { id: 'tx-cleared', claimId: 'claim-new', hasPayload: false },
+          ]),
+    });
+
+    const run = await runRetention({ ...org, minimizeLogging: true }, { now: NOW });
+
+    expect(storage.deleteConnectorTransactions).toHaveBeenCalledWith(['tx-expired']);
+    expect(storage.clearConnectorTransactionPayloads).toHaveBeenCalledWith(['tx-recent']);
+    expect(run.counts).toEqual({ 'connector_transaction.deleted': 1, 'connector_transaction.payload_cleared': 1 });
+  });
+
+  it('writes one purge report row per record, reading the items a page at a time', async () => {
+    const pages = [
+      [{ seq: 0, resourceType: 'claim', resourceId: 'claim-old', action: 'anonymized' }],
+      [{ seq: 1, resourceType: 'attachment', resourceId: 'attachment-1', action: 'deleted' }],
+      [],
+    ];
+    const { writeRetentionReport, storage } = await loadRetention({
+      getRetentionRunItems: vi.fn(async () => pages.shift()),
+    });
+    const chunks: string[] = [];
+
+    await writeRetentionReport({
+      id: 'run-1',
+      dryRun: false,
+      cutoff: new Date(Date.UTC(2025, 9, 19)),
+      completedAt: new Date(Date.UTC(2026, 9, 19)),
+    } as any, chunk => chunks.push(chunk));
+
+    expect(chunks.join('').split('\r\n')).toEqual([
+      'runId,dryRun,cutoff,completedAt,resourceType,resourceId,action',
+      'run-1,false,2025-10-19T00:00:00.000Z,2026-10-19T00:00:00.000Z,claim,claim-old,anonymized',
+      'run-1,false,2025-10-19T00:00:00.000Z,2026-10-19T00:00:00.000Z,attachment,attachment-1,deleted',
+      '',
+    ]);
+    expect(storage.getRetentionRunItems).toHaveBeenLastCalledWith('run-1', { limit: 1000, afterSeq: 1 });
+  });
+});
+
+describe('Claim updates', () => {
+  it('cannot change a legal hold', () => {
+    expect(claimUpdateSchema.parse({ notes: 'Updated' })).toEqual({ notes: 'Updated' });
+    for (const field of ['legalHold', 'legalHoldReason', 'legalHoldAt', 'anonymizedAt', 'status']) {
+      expect(claimUpdateSchema.safeParse({ [field]: null }).success).toBe(false);
+    }
+  });
+});
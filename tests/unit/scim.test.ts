@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'node:crypto';
+import express from 'express';
+import request from 'supertest';
+
+const TOKEN = 'scim_test-token';
+const TOKEN_HASH = crypto.createHash('sha256').update(TOKEN).digest('hex');
+
+const homeUser = { id: 'user-jo', email: 'jo@clinic.example', firstName: 'Jo', lastName: 'Park', role: 'billing', orgId: 'org-1', deactivatedAt: null };
+const agencyUser = { id: 'user-kim', email: 'kim@agency.example', firstName: 'Kim', lastName: 'Roy', role: 'admin', orgId: 'org-agency', deactivatedAt: null };
+
+async function loadScim() {
+  vi.resetModules();
+
+  const storage = {
+    getScimTokenByHash: vi.fn(async (hash: string) =>
+      hash === TOKEN_HASH ? { id: 'token-1', orgId: 'org-1', name: 'Azure AD' } : undefined),
+    touchScimToken: vi.fn(),
+    getUsersByOrg: vi.fn().mockResolvedValue([homeUser]),
+    getOrgMembers: vi.fn().mockResolvedValue([{ membership: { id: 'm-1', role: 'provider' }, user: agencyUser }]),
+    getUser: vi.fn(async (id: string) => [homeUser, agencyUser].find(user => user.id === id)),
+    getUserByEmail: vi.fn().mockResolvedValue(undefined),
+    getMembership: vi.fn().mockResolvedValue(undefined),
+    getRoles: vi.fn().mockResolvedValue([{ key: 'reception', name: 'Front Desk', orgId: 'org-1' }]),
+    getRoleByKey: vi.fn(async (_orgId: string, key: string) => (key === 'reception' ? { key } : undefined)),
+    createUser: vi.fn(async (user: any) => ({ id: 'user-new', ...user })),
+    updateUser: vi.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    updateMembership: vi.fn(),
+    deleteMembership: vi.fn(),
+    createMembership: vi.fn(async (membership: any) => ({ id: 'm-2', ...membership })),
+    deleteUserSessions: vi.fn().mockResolvedValue(2),
+    createAuditEvent: vi.fn(),
+  };
+  vi.doMock('../../server/storage', () => ({ storage }));
+
+  const { setupScim } = await import('../../server/scim');
+  const app = express();
+  setupScim(app);
+  const scim = (method: 'get' | 'post' | 'put' | 'patch' | 'delete', path: string) =>
+    request(app)[method](`/scim/v2${path}`).set('Authorization', `Bearer ${TOKEN}`);
+  return { app, scim, storage };
+}
+
+describe('SCIM provisioning', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+  });
+
+  it('rejects requests without a valid bearer token', async () => {
+    const { app } = await loadScim();
+
+    const response = await request(app).get('/scim/v2/Users').set('Authorization', 'Bearer nope');
+
+    expect(response.status).toBe(401);
+    expect(response.body.schemas).toEqual(['urn:ietf:params:scim:api:messages:2.0:Error']);
+  });
+
+  it('lists home users and members, filtered by userName', async () => {
+    const { scim } = await loadScim();
+
+    const all = await scim('get', '/Users');
+    const filtered = await scim('get', '/Users?filter=' + encodeURIComponent('userName eq "KIM@agency.example"'));
+
+    expect(all.body.Resources.map((user: any) => [user.userName, user.roles[0].value])).toEqual([
+      ['jo@clinic.example', 'billing'],
+      ['kim@agency.example', 'provider'],
+    ]);
+    expect(filtered.body).toMatchObject({ totalResults: 1, Resources: [{ id: 'user-kim', active: true }] });
+    expect((await scim('get', '/Users?filter=' + encodeURIComponent('title co "x"'))).body.scimType).toBe('invalidFilter');
+  });
+
+  it('creates users in the token\'s organization', async () => {
+    const { scim, storage } = await loadScim();
+
+    const response = await scim('post', '/Users')
+      .set('Content-Type', 'application/scim+json')
+      .send(JSON.stringify({
+        userName: 'Sam@Clinic.example',
+        name: { givenName: 'Sam', familyName: 'Lee' },
+        roles: [{ value: 'reception' }],
+      }));
+
+    expect(response.status).toBe(201);
+    expect(storage.createUser).toHaveBeenCalledWith(expect.objectContaining({
+      email: 'sam@clinic.example', firstName: 'Sam', role: 'reception', orgId: 'org-1',
+    }));
+    expect(storage.createAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+      orgId: 'org-1', type: 'user_provisioned', details: expect.objectContaining({ source: 'scim', tokenId: 'token-1' }),
+    }));
+  });
+
+  it('deactivates home users and ends their sessions', async () => {
+    const { scim, storage } = await loadScim();
+
+    // Azure AD's form of the operation
+    const response = await scim('patch', '/Users/user-jo').send({
+      schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+      Operations: [{ op: 'Replace', path: 'active', value: 'False' }],
+    });
+
+    expect(response.status).toBe(200);
+    expect(storage.updateUser).toHaveBeenCalledWith('user-jo', { deactivatedAt: expect.any(Date) });
+    expect(storage.deleteUserSessions).toHaveBeenCalledWith('user-jo');
+    expect(storage.createAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'user_deactivated', details: expect.objectContaining({ userId: 'user-jo', sessionsEnded: 2 }),
+    }));
+  });
+
+  it('removes members instead of deactivating their account', async () => {
+    const { scim, storage } = await loadScim();
+
+    const response = await scim('delete', '/Users/user-kim');
+
+    expect(response.status).toBe(204);
+    expect(storage.deleteMembership).toHaveBeenCalledWith('m-1');
+    expect(storage.updateUser).not.toHaveBeenCalled();
+    expect(storage.deleteUserSessions).not.toHaveBeenCalled();
+  });
+
+  it('maps group membership to roles', async () => {
+    const { scim, storage } = await loadScim();
+
+    const groups = await scim('get', '/Groups?filter=' + encodeURIComponent('displayName eq "front desk"'));
+    expect(groups.body.Resources.map((group: any) => group.id)).toEqual(['reception']);
+
+    await scim('patch', '/Groups/reception').send({
+      Operations: [{ op: 'add', path: 'members', value: [{ value: 'user-jo' }, { value: 'user-kim' }] }],
+    });
+    expect(storage.updateUser).toHaveBeenCalledWith('user-jo', { role: 'reception' });
+    expect(storage.updateMembership).toHaveBeenCalledWith('m-1', { role: 'reception' });
+
+    await scim('patch', '/Groups/billing').send({
+      Operations: [{ op: 'remove', path: 'members[value eq "user-jo"]' }],
+    });
+    expect(storage.updateUser).toHaveBeenCalledWith('user-jo', { role: 'provider' });
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+const user = { id: 'user-1', email: 'desk@clinic.example', role: 'billing', orgId: 'org-1', deactivatedAt: null };
+
+async function loadSessions(org: Record<string, unknown> = {}, memberOrgs: Array<Record<string, unknown>> = []) {
+  vi.resetModules();
+
+  const orgs = [{ id: 'org-1', sessionIdleTimeoutMinutes: null, sessionMaxLifetimeHours: null, ...org }, ...memberOrgs];
+  const storage = {
+    getUser: vi.fn().mockResolvedValue(user),
+    getMemberships: vi.fn().mockResolvedValue(memberOrgs.map(memberOrg => ({ id: `membership-${memberOrg.id}`, userId: 'user-1', orgId: memberOrg.id, role: 'billing' }))),
+    getOrganization: vi.fn(async (id: string) => orgs.find(candidate => candidate.id === id)),
+    getUserSessions: vi.fn().mockResolvedValue([
+      { sid: 'sid-current', sess: { mfaVerified: true, meta: { createdAt: NOW - HOUR, lastActivityAt: NOW, ip: '10.0.0.1', userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0 Safari/537.36' } }, expire: new Date(NOW + HOUR) },
+      { sid: 'sid-phone', sess: { meta: { createdAt: NOW - 2 * HOUR, lastActivityAt: NOW - HOUR, ip: '10.0.0.2', userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) Version/17.0 Mobile Safari/604.1' } }, expire: new Date(NOW + HOUR) },
+    ]),
+    deleteSession: vi.fn(),
+    createAuditEvent: vi.fn(),
+  };
+  vi.doMock('../../server/storage', () => ({ storage }));
+
+  const sessions = await import('../../server/security/sessions');
+  return { ...sessions, storage };
+}
+
+function signedInRequest(meta?: Record<string, number | string>) {
+  const session: any = { meta, destroy: vi.fn((done: () => void) => done()) };
+  return {
+    session,
+    sessionID: 'sid-current',
+    user: { claims: { sub: 'user-1' } },
+    ip: '10.0.0.1',
+    isAuthenticated: () => true,
+    get: () => 'Mozilla/5.0 Firefox/121.0',
+  } as any;
+}
+
+function response() {
+  const res: any = {};
+  res.status = vi.fn(() => res);
+  res.json = vi.fn(() => res);
+  return res;
+}
+
+describe('Session management', () => {
+  afterEach(() => {
+    vi.doUnmock('../../server/storage');
+  });
+
+  it('applies the absolute limit before the idle timeout', async () => {
+    const { sessionExpiry } = await loadSessions();
+    const meta = { createdAt: NOW - 9 * HOUR, lastActivityAt: NOW - 45 * 60 * 1000, ip: '', userAgent: '' };
+
+    expect(sessionExpiry(meta, { idleTimeoutMinutes: null, maxLifetimeHours: null }, NOW)).toBeNull();
+    expect(sessionExpiry(meta, { idleTimeoutMinutes: 60, maxLifetimeHours: 12 }, NOW)).toBeNull();
+    expect(sessionExpiry(meta, { idleTimeoutMinutes: 30, maxLifetimeHours: 12 }, NOW)).toBe('idle');
+    expect(sessionExpiry(meta, { idleTimeoutMinutes: 30, maxLifetimeHours: 8 }, NOW)).toBe('absolute');
+  });
+
+  it("applies the strictest policy across all of the user's organizations", async () => {
+    const { getUserSessionPolicy, strictestPolicy } = await loadSessions(
+      { sessionIdleTimeoutMinutes: 60, sessionMaxLifetimeHours: null },
+      [
+        { id: 'org-2', sessionIdleTimeoutMinutes: 15, sessionMaxLifetimeHours: null },
+        { id: 'org-3', sessionIdleTimeoutMinutes: null, sessionMaxLifetimeHours: 8 },
+      ],
+    );
+
+    expect(strictestPolicy([])).toEqual({ idleTimeoutMinutes: null, maxLifetimeHours: null });
+    await expect(getUserSessionPolicy('user-1')).resolves.toEqual({ idleTimeoutMinutes: 15, maxLifetimeHours: 8 });
+  });
+
+  it("re-reads the user's policy once an organization changes its policy", async () => {
+    const { getUserSessionPolicy, clearSessionPolicyCache, storage } = await loadSessions({ sessionIdleTimeoutMinutes: 60 });
+
+    await getUserSessionPolicy('user-1');
+    storage.getOrganization.mockResolvedValue({ id: 'org-1', sessionIdleTimeoutMinutes: 10, sessionMaxLifetimeHours: null });
+    await expect(getUserSessionPolicy('user-1')).resolves.toMatchObject({ idleTimeoutMinutes: 60 });
+
+    clearSessionPolicyCache('org-1');
+    await expect(getUserSessionPolicy('user-1')).resolves.toMatchObject({ idleTimeoutMinutes: 10 });
+  });
+
+  it('describes devices from their user agent', async () => {
+    const { describeDevice } = await loadSessions();
+
+    expect(describeDevice('Mozilla/5.0 (Windows NT 10.0) Chrome/120.0 Safari/537.36 Edg/120.0')).toBe('Edge on Windows');
+    expect(describeDevice('Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Version/17.0 Safari/605.1.15')).toBe('Safari on macOS');
+    expect(describeDevice('curl/8.4.0')).toBe('Unknown device');
+    expect(describeDevice(undefined)).toBe('Unknown device');
+  });
+
+  it('lists sessions by public id without exposing the sid', async () => {
+    const { listUserSessions, publicSessionId } = await loadSessions();
+
+    const sessions = await listUserSessions('user-1', 'sid-current');
+
+    expect(sessions.map(session => session.id)).toEqual([publicSessionId('sid-current'), publicSessionId('sid-phone')]);
+    expect(sessions[0]).toMatchObject({ current: true, device: 'Chrome on Windows', mfaVerified: true, ip: '10.0.0.1' });
+    expect(sessions[1]).toMatchObject({ current: false, device: 'Safari on iOS', mfaVerified: false });
+    expect(JSON.stringify(sessions)).not.toContain('sid-phone');
+  });
+
+  it('ends only sessions that belong to the user', async () => {
+    const { endUserSession, publicSessionId, storage } = await loadSessions();
+
+    await expect(endUserSession('user-1', publicSessionId('sid-elsewhere'))).resolves.toBe(false);
+    await expect(endUserSession('user-1', publicSessionId('sid-phone'))).resolves.toBe(true);
+    expect(storage.deleteSession).toHaveBeenCalledTimes(1);
+    expect(storage.deleteSession).toHaveBeenCalledWith('sid-phone');
+  });
+
+  it('starts tracking a session on its first request', async () => {
+    vi.useFakeTimers({ now: NOW });
+    try {
+      const { enforceSessionPolicy } = await loadSessions({ sessionIdleTimeoutMinutes: 30 });
+      const req = signedInRequest();
+      const next = vi.fn();
+
+      await enforceSessionPolicy(req, response(), next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(req.session.meta).toEqual({ createdAt: NOW, lastActivityAt: NOW, ip: '10.0.0.1', userAgent: 'Mozilla/5.0 Firefox/121.0' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('signs out an idle session with a 401 and an audit event', async () => {
+    vi.useFakeTimers({ now: NOW });
+    try {
+      const { enforceSessionPolicy, storage } = await loadSessions({ sessionIdleTimeoutMinutes: 30 });
+      const req = signedInRequest({ createdAt: NOW - 2 * HOUR, lastActivityAt: NOW - HOUR, ip: '10.0.0.1', userAgent: '' });
+      const res = response();
+      const next = vi.fn();
+
+      await enforceSessionPolicy(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(req.session.destroy).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Session expired', reason: 'idle' });
+      expect(storage.createAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ orgId: 'org-1', type: 'session_expired' }));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
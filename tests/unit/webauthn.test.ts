@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  generatePasskeyAuthenticationOptions,
+  generatePasskeyRegistrationOptions,
+  getRelyingParty,
+  storeChallenge,
+  takeChallenge,
+  verifyPasskeyAuthentication,
+  verifyPasskeyRegistration,
+} from '../../server/security/webauthn';
+
+const rp = { rpID: 'claims.example', origin: 'https://claims.example' };
+
+const user = { id: 'user-1', email: 'desk@clinic.example', firstName: 'Front', lastName: 'Desk' } as any;
+
+const credential = {
+  id: 'cred-row-1',
+  userId: 'user-1',
+  credentialId: 'Y3JlZGVudGlhbC0x',
+  publicKey: 'cHVibGljLWtleQ',
+  counter: 3,
+  transports: ['internal', 'hybrid'],
+} as any;
+
+describe('WebAuthn second factor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.WEBAUTHN_ORIGIN;
+    delete process.env.WEBAUTHN_RP_ID;
+  });
+
+  it('derives the relying party from the request unless configured', () => {
+    const req = { protocol: 'https', get: () => 'claims.example:8443' } as any;
+    expect(getRelyingParty(req)).toEqual({ origin: 'https://claims.example:8443', rpID: 'claims.example' });
+
+    process.env.WEBAUTHN_ORIGIN = 'https://app.medlink.example';
+    expect(getRelyingParty(req)).toEqual({ origin: 'https://app.medlink.example', rpID: 'app.medlink.example' });
+
+    process.env.WEBAUTHN_RP_ID = 'medlink.example';
+    expect(getRelyingParty(req).rpID).toBe('medlink.example');
+  });
+
+  it('hands out a stored challenge once, for the same ceremony and user', () => {
+    const session: any = {};
+
+    storeChallenge(session, 'authenticate', 'user-1', 'abc');
+    expect(takeChallenge(session, 'register', 'user-1')).toBeNull();
+
+    storeChallenge(session, 'authenticate', 'user-1', 'abc');
+    expect(takeChallenge(session, 'authenticate', 'user-2')).toBeNull();
+
+    storeChallenge(session, 'authenticate', 'user-1', 'abc');
+    expect(takeChallenge(session, 'authenticate', 'user-1')).toBe('abc');
+    expect(takeChallenge(session, 'authenticate', 'user-1')).toBeNull();
+  });
+
+  it('expires challenges after five minutes', () => {
+    vi.useFakeTimers();
+    const session: any = {};
+
+    storeChallenge(session, 'register', 'user-1', 'abc');
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+
+    expect(takeChallenge(session, 'register', 'user-1')).toBeNull();
+  });
+
+  it('excludes and allows only the user\'s registered keys', async () => {
+    const registration = await generatePasskeyRegistrationOptions(rp, user, [credential]);
+    const authentication = await generatePasskeyAuthenticationOptions(rp, [credential]);
+
+    expect(registration.rp).toEqual({ name: 'MedLink Claims Hub', id: 'claims.example' });
+    expect(registration.user.displayName).toBe('Front Desk');
+    expect(registration.excludeCredentials).toEqual([
+      expect.objectContaining({ id: credential.credentialId, transports: ['internal', 'hybrid'] }),
+    ]);
+    expect(authentication.allowCredentials).toEqual([
+      expect.objectContaining({ id: credential.credentialId, transports: ['internal', 'hybrid'] }),
+    ]);
+    expect(authentication.challenge).not.toBe(registration.challenge);
+  });
+
+  it('rejects responses that do not verify instead of throwing', async () => {
+    const forged = {
+      id: credential.credentialId,
+      rawId: credential.credentialId,
+      type: 'public-key',
+      response: { clientDataJSON: 'e30', attestationObject: 'oA', authenticatorData: 'AA', signature: 'AA' },
+      clientExtensionResults: {},
+    } as any;
+
+    await expect(verifyPasskeyRegistration(rp, forged, 'abc')).resolves.toBeNull();
+    await expect(verifyPasskeyAuthentication(rp, forged, 'abc', credential)).resolves.toEqual({ verified: false });
+  });
+});
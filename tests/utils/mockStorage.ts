@@ -0,0 +1,24 @@
+import { vi } from 'vitest';
+
+const STORAGE_MODULE = '../../server/storage';
+
+/**
+ * Imports a server module afresh with server/storage replaced by `storage`,
+ * returning the module's exports together with the fake so tests can assert
+ * on its calls. The import must be passed as a callback so its path resolves
+ * from the test file; call unmockStorage() in afterEach.
+ */
+export async function loadWithStorage<TModule, TStorage extends object>(
+  load: () => Promise<TModule>,
+  storage: TStorage,
+): Promise<TModule & { storage: TStorage }> {
+  vi.resetModules();
+  vi.doMock(STORAGE_MODULE, () => ({ storage }));
+
+  const module = await load();
+  return { ...module, storage };
+}
+
+export function unmockStorage() {
+  vi.doUnmock(STORAGE_MODULE);
+}